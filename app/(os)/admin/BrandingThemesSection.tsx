@@ -0,0 +1,305 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Pencil, RefreshCw, X } from 'lucide-react';
+
+export interface BrandingThemeRow {
+  id: string;
+  xeroBrandingThemeId: string;
+  name: string;
+  sortOrder: number | null;
+  accountCode: string | null;
+  treatment: string | null;
+  explanation: string | null;
+  expectedVat: number | null;
+  noLinkVariantId: string | null;
+  inXero: boolean;
+  configured: boolean;
+  lastSyncedAt: string | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+interface Props {
+  themes: BrandingThemeRow[];
+}
+
+interface FormState {
+  id: string;
+  name: string;
+  accountCode: string;
+  treatment: string;
+  explanation: string;
+  expectedVat: string;
+  noLinkVariantId: string;
+}
+
+// Treatments already in use, offered as suggestions for new themes
+const TREATMENT_SUGGESTIONS = ['UK Domestic Sale', 'VAT Margin Scheme', 'Export Sale (Zero-Rated)'];
+
+function formFromTheme(theme: BrandingThemeRow): FormState {
+  return {
+    id: theme.id,
+    name: theme.name,
+    accountCode: theme.accountCode || '',
+    treatment: theme.treatment || '',
+    explanation: theme.explanation || '',
+    expectedVat: theme.expectedVat === null ? '' : String(theme.expectedVat),
+    noLinkVariantId: theme.noLinkVariantId || '',
+  };
+}
+
+function formatSynced(iso: string | null): string {
+  if (!iso) return 'Never synced';
+  return `Synced ${new Date(iso).toLocaleString('en-GB', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export function BrandingThemesSection({ themes: initialThemes }: Props) {
+  const [themes, setThemes] = useState(initialThemes);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  const nameByXeroId = new Map(themes.map((t) => [t.xeroBrandingThemeId, t.name]));
+  const unconfiguredCount = themes.filter((t) => !t.configured).length;
+  const lastSynced = themes
+    .map((t) => t.lastSyncedAt)
+    .filter((d): d is string => d !== null)
+    .sort()
+    .pop() ?? null;
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      const res = await fetch('/api/branding-themes/sync', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.details || data.error || 'Failed to sync branding themes');
+        return;
+      }
+      setThemes(data.themes);
+      const { added, removed, unknownInSales } = data.summary;
+      if (added > 0 || removed > 0 || unknownInSales.length > 0) {
+        alert(
+          `${added} new theme(s) from Xero, ${removed} no longer in Xero.` +
+            (unknownInSales.length > 0
+              ? `\n\nSales reference unknown themes:\n${unknownInSales.join('\n')}`
+              : '')
+        );
+      }
+    } catch {
+      alert('Failed to sync branding themes');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/branding-themes/${form.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountCode: form.accountCode.trim() || null,
+          treatment: form.treatment.trim() || null,
+          explanation: form.explanation,
+          expectedVat: form.expectedVat.trim() === '' ? null : Number(form.expectedVat),
+          noLinkVariantId: form.noLinkVariantId || null,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setThemes((prev) => prev.map((t) => (t.id === data.theme.id ? data.theme : t)));
+        setForm(null);
+      } else {
+        alert(data.error || 'Failed to save branding theme');
+      }
+    } catch {
+      alert('Failed to save branding theme');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Branding Themes</h2>
+          <p className="text-sm text-gray-500">
+            Xero branding themes and the VAT treatment each one carries. A theme is only used for VAT once its account code, treatment and expected VAT are set.
+          </p>
+        </div>
+        <button
+          onClick={handleSync}
+          disabled={syncing}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors disabled:opacity-50"
+        >
+          {syncing ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <RefreshCw className="w-5 h-5 mr-2" />}
+          Sync from Xero
+        </button>
+      </div>
+
+      {unconfiguredCount > 0 && (
+        <p className="mb-4 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+          {unconfiguredCount} theme(s) need configuring. Sales on an unconfigured theme cannot have their VAT calculated.
+        </p>
+      )}
+
+      {themes.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-sm font-medium text-gray-900">No branding themes stored</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Run scripts/add-branding-themes.ts to seed the current themes, then sync from Xero.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+          <div className="px-6 py-3 border-b border-gray-100 text-xs text-gray-500">{formatSynced(lastSynced)}</div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Theme</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Treatment</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">VAT</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No-link Variant</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {themes.map((theme) => (
+                  <tr key={theme.id} className={theme.configured ? 'hover:bg-gray-50 transition-colors' : 'bg-amber-50'}>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div className="font-medium">
+                        {theme.name}
+                        {!theme.inXero && <span className="ml-2 text-xs text-gray-400">(not in Xero)</span>}
+                      </div>
+                      <div className="font-mono text-xs text-gray-400">{theme.xeroBrandingThemeId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {theme.treatment || <span className="text-amber-700">Not configured</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{theme.accountCode || '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {theme.expectedVat === null ? '—' : `${theme.expectedVat}%`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {theme.noLinkVariantId ? nameByXeroId.get(theme.noLinkVariantId) || theme.noLinkVariantId : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => setForm(formFromTheme(theme))}
+                        className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-900"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        {theme.configured ? 'Edit' : 'Configure'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Theme form */}
+      {form && (
+        <div className="mt-4 bg-white rounded-lg border border-purple-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-gray-900">{form.name}</h3>
+            <button onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <p className="mb-4 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+            Changing the expected VAT changes how every sale on this theme is recalculated from now on.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <label className="text-sm text-gray-700">
+              Treatment
+              <input
+                value={form.treatment}
+                list="branding-theme-treatments"
+                onChange={(e) => setForm({ ...form, treatment: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+              <datalist id="branding-theme-treatments">
+                {TREATMENT_SUGGESTIONS.map((t) => (
+                  <option key={t} value={t} />
+                ))}
+              </datalist>
+            </label>
+            <label className="text-sm text-gray-700">
+              Account code
+              <input
+                value={form.accountCode}
+                onChange={(e) => setForm({ ...form, accountCode: e.target.value })}
+                placeholder="e.g. 425"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Expected VAT (%)
+              <input
+                type="number"
+                step="0.01"
+                value={form.expectedVat}
+                onChange={(e) => setForm({ ...form, expectedVat: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              No-link variant (bank transfer)
+              <select
+                value={form.noLinkVariantId}
+                onChange={(e) => setForm({ ...form, noLinkVariantId: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="">— None (this is a no-link or legacy theme) —</option>
+                {themes
+                  .filter((t) => t.id !== form.id)
+                  .map((t) => (
+                    <option key={t.id} value={t.xeroBrandingThemeId}>{t.name}</option>
+                  ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block text-sm text-gray-700 mb-4">
+            Explanation (shown in the sale&apos;s VAT Analysis)
+            <textarea
+              value={form.explanation}
+              onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+              rows={2}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,519 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, Pencil, Trash2, X } from 'lucide-react';
+
+interface SchemeBand {
+  min: number;
+  /** null (API) or Infinity (server props) = no upper limit */
+  max: number | null;
+  rate: number;
+}
+
+export interface SchemeVersion {
+  id: string;
+  schemeKey: string;
+  name: string;
+  bands: SchemeBand[];
+  bandMode: 'flat' | 'marginal';
+  deductVatFromProfit: boolean;
+  newClientBonusRate: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  notes: string | null;
+}
+
+export interface SchemeShopper {
+  id: string;
+  name: string | null;
+  commissionScheme: string | null;
+  active: boolean | null;
+}
+
+interface Props {
+  schemes: SchemeVersion[];
+  shoppers: SchemeShopper[];
+}
+
+interface BandRow {
+  min: string;
+  max: string;
+  ratePercent: string;
+}
+
+interface FormState {
+  mode: 'create' | 'edit';
+  id?: string;
+  schemeKey: string;
+  name: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+  bands: BandRow[];
+  bandMode: 'flat' | 'marginal';
+  deductVatFromProfit: boolean;
+  bonusPercent: string;
+  notes: string;
+}
+
+function isOpenMax(max: number | null): boolean {
+  return max === null || max === Infinity;
+}
+
+/** ISO timestamp → "YYYY-MM" (schemes always start on the 1st, UTC). */
+function toMonth(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function monthDisplay(iso: string | null): string {
+  if (!iso) return 'Open';
+  return new Date(iso).toLocaleDateString('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatBand(band: SchemeBand): string {
+  const min = `£${band.min.toLocaleString('en-GB')}`;
+  const range = isOpenMax(band.max) ? `${min}+` : `${min}–£${band.max!.toLocaleString('en-GB')}`;
+  return `${range} @ ${(band.rate * 100).toFixed(0)}%`;
+}
+
+function emptyForm(): FormState {
+  return {
+    mode: 'create',
+    schemeKey: '',
+    name: '',
+    effectiveFrom: toMonth(new Date().toISOString()),
+    effectiveTo: '',
+    bands: [{ min: '0', max: '', ratePercent: '10' }],
+    bandMode: 'flat',
+    deductVatFromProfit: false,
+    bonusPercent: '10',
+    notes: '',
+  };
+}
+
+function formFromVersion(version: SchemeVersion, mode: 'create' | 'edit'): FormState {
+  return {
+    mode,
+    id: mode === 'edit' ? version.id : undefined,
+    schemeKey: version.schemeKey,
+    name: version.name,
+    effectiveFrom: mode === 'edit' ? toMonth(version.effectiveFrom) : toMonth(new Date().toISOString()),
+    effectiveTo: mode === 'edit' ? toMonth(version.effectiveTo) : '',
+    bands: version.bands.map((b) => ({
+      min: String(b.min),
+      max: isOpenMax(b.max) ? '' : String(b.max),
+      ratePercent: String(Math.round(b.rate * 10000) / 100),
+    })),
+    bandMode: version.bandMode,
+    deductVatFromProfit: version.deductVatFromProfit,
+    bonusPercent: String(Math.round(version.newClientBonusRate * 10000) / 100),
+    notes: version.notes || '',
+  };
+}
+
+export function CommissionSchemesSection({ schemes: initialSchemes, shoppers: initialShoppers }: Props) {
+  const [schemes, setSchemes] = useState(initialSchemes);
+  const [shoppers, setShoppers] = useState(initialShoppers);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [assigning, setAssigning] = useState<string | null>(null);
+
+  const schemeKeys = Array.from(new Set(schemes.map((s) => s.schemeKey))).sort();
+
+  const reload = async () => {
+    const res = await fetch('/api/commission-schemes');
+    if (res.ok) {
+      const data = await res.json();
+      setSchemes(data.schemes);
+      setShoppers(data.shoppers);
+    }
+  };
+
+  const updateBand = (index: number, field: keyof BandRow, value: string) => {
+    if (!form) return;
+    const bands = form.bands.map((b, i) => (i === index ? { ...b, [field]: value } : b));
+    setForm({ ...form, bands });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const bands = form.bands.map((b) => ({
+        min: Number(b.min),
+        max: b.max.trim() === '' ? null : Number(b.max),
+        rate: Number(b.ratePercent) / 100,
+      }));
+      const common = {
+        name: form.name,
+        bands,
+        bandMode: form.bandMode,
+        deductVatFromProfit: form.deductVatFromProfit,
+        newClientBonusRate: Number(form.bonusPercent) / 100,
+        notes: form.notes,
+      };
+
+      const res =
+        form.mode === 'create'
+          ? await fetch('/api/commission-schemes', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                ...common,
+                schemeKey: form.schemeKey,
+                effectiveFrom: form.effectiveFrom,
+              }),
+            })
+          : await fetch(`/api/commission-schemes/${form.id}`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                ...common,
+                effectiveTo: form.effectiveTo || null,
+              }),
+            });
+
+      if (res.ok) {
+        setForm(null);
+        await reload();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to save commission scheme');
+      }
+    } catch {
+      alert('Failed to save commission scheme');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssign = async (shopperId: string, schemeKey: string) => {
+    setAssigning(shopperId);
+    try {
+      const res = await fetch(`/api/shoppers/${shopperId}/commission-scheme`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ commission_scheme: schemeKey || null }),
+      });
+      if (res.ok) {
+        setShoppers((prev) =>
+          prev.map((s) => (s.id === shopperId ? { ...s, commissionScheme: schemeKey || null } : s))
+        );
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to update shopper scheme');
+      }
+    } catch {
+      alert('Failed to update shopper scheme');
+    } finally {
+      setAssigning(null);
+    }
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Commission Schemes</h2>
+          <p className="text-sm text-gray-500">
+            Dated scheme versions used by the commission engine. Each month is calculated with the version in force for that month.
+          </p>
+        </div>
+        <button
+          onClick={() => setForm(emptyForm())}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Scheme
+        </button>
+      </div>
+
+      {schemeKeys.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-sm font-medium text-gray-900">No commission schemes configured</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Run scripts/add-commission-schemes.ts to seed the current schemes.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {schemeKeys.map((key) => {
+            const versions = schemes.filter((s) => s.schemeKey === key);
+            const latest = versions[versions.length - 1];
+            const linked = shoppers.filter((s) => s.commissionScheme === key);
+            return (
+              <div key={key} className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-900">
+                      {latest.name} <span className="font-mono text-xs text-gray-400 ml-1">{key}</span>
+                    </h3>
+                    <p className="text-xs text-gray-500">
+                      {linked.length > 0
+                        ? `Linked: ${linked.map((s) => s.name || 'Unknown').join(', ')}`
+                        : 'No shoppers linked'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setForm(formFromVersion(latest, 'create'))}
+                    className="text-sm font-medium text-purple-600 hover:text-purple-900"
+                  >
+                    New version
+                  </button>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bands</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">VAT Deducted</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">New Client Bonus</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {versions.map((version) => (
+                        <tr key={version.id} className="hover:bg-gray-50 transition-colors">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{monthDisplay(version.effectiveFrom)}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {version.effectiveTo ? `before ${monthDisplay(version.effectiveTo)}` : 'Open'}
+                          </td>
+                          <td className="px-6 py-4 text-xs text-gray-700">
+                            <div className="mb-1 font-medium text-gray-500">
+                              {version.bandMode === 'marginal' ? 'Marginal (each slice at its own rate)' : 'Flat (one rate on whole total)'}
+                            </div>
+                            {version.bands.map((b, i) => (
+                              <div key={i}>{formatBand(b)}</div>
+                            ))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                            {version.deductVatFromProfit ? 'Yes' : 'No'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                            {(version.newClientBonusRate * 100).toFixed(0)}%
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => setForm(formFromVersion(version, 'edit'))}
+                              className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-900"
+                            >
+                              <Pencil className="w-4 h-4" />
+                              Edit
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Scheme form */}
+      {form && (
+        <div className="mt-4 bg-white rounded-lg border border-purple-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-gray-900">
+              {form.mode === 'create' ? 'New scheme version' : 'Edit scheme version'}
+            </h3>
+            <button onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {form.mode === 'edit' && (
+            <p className="mb-4 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+              Editing a version changes the result of recalculating every month it covers. To change terms going forward, create a new version instead.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <label className="text-sm text-gray-700">
+              Scheme key
+              <input
+                value={form.schemeKey}
+                disabled={form.mode === 'edit'}
+                onChange={(e) => setForm({ ...form, schemeKey: e.target.value.toLowerCase() })}
+                placeholder="e.g. mc"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-100"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Effective from
+              <input
+                type="month"
+                value={form.effectiveFrom}
+                disabled={form.mode === 'edit'}
+                onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm disabled:bg-gray-100"
+              />
+            </label>
+            {form.mode === 'edit' && (
+              <label className="text-sm text-gray-700">
+                Ends before (blank = open)
+                <input
+                  type="month"
+                  value={form.effectiveTo}
+                  onChange={(e) => setForm({ ...form, effectiveTo: e.target.value })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                />
+              </label>
+            )}
+            <label className="text-sm text-gray-700">
+              New client bonus (%)
+              <input
+                type="number"
+                step="0.01"
+                value={form.bonusPercent}
+                onChange={(e) => setForm({ ...form, bonusPercent: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Band mode
+              <select
+                value={form.bandMode}
+                onChange={(e) => setForm({ ...form, bandMode: e.target.value as FormState['bandMode'] })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="flat">Flat — band rate applies to the whole monthly total</option>
+                <option value="marginal">Marginal — each slice paid at its own band&apos;s rate</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={form.deductVatFromProfit}
+                onChange={(e) => setForm({ ...form, deductVatFromProfit: e.target.checked })}
+              />
+              Deduct VAT due from profit (net profit basis)
+            </label>
+          </div>
+
+          <div className="mb-4">
+            <div className="text-sm font-medium text-gray-700 mb-2">Bands (cumulative monthly profit)</div>
+            <div className="space-y-2">
+              {form.bands.map((band, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    value={band.min}
+                    onChange={(e) => updateBand(i, 'min', e.target.value)}
+                    placeholder="Min £"
+                    className="w-32 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    value={band.max}
+                    onChange={(e) => updateBand(i, 'max', e.target.value)}
+                    placeholder="Max £ (blank = no limit)"
+                    className="w-48 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={band.ratePercent}
+                    onChange={(e) => updateBand(i, 'ratePercent', e.target.value)}
+                    placeholder="Rate %"
+                    className="w-24 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                  <button
+                    onClick={() => setForm({ ...form, bands: form.bands.filter((_, j) => j !== i) })}
+                    disabled={form.bands.length === 1}
+                    className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setForm({ ...form, bands: [...form.bands, { min: '', max: '', ratePercent: '' }] })}
+              className="mt-2 text-sm font-medium text-purple-600 hover:text-purple-900"
+            >
+              + Add band
+            </button>
+          </div>
+
+          <label className="block text-sm text-gray-700 mb-4">
+            Notes
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Shopper assignment */}
+      <div className="mt-4 bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="text-sm font-semibold text-gray-900">Shopper Schemes</h3>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <tbody className="bg-white divide-y divide-gray-200">
+            {shoppers.map((shopper) => (
+              <tr key={shopper.id}>
+                <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {shopper.name || 'Unknown'}
+                  {shopper.active === false && <span className="ml-2 text-xs text-gray-400">(inactive)</span>}
+                </td>
+                <td className="px-6 py-3 whitespace-nowrap text-right">
+                  <div className="inline-flex items-center gap-2">
+                    {assigning === shopper.id && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                    <select
+                      value={shopper.commissionScheme && schemeKeys.includes(shopper.commissionScheme) ? shopper.commissionScheme : ''}
+                      disabled={assigning === shopper.id}
+                      onChange={(e) => handleAssign(shopper.id, e.target.value)}
+                      className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+                    >
+                      <option value="">— No commission —</option>
+                      {schemeKeys.map((key) => (
+                        <option key={key} value={key}>{key}</option>
+                      ))}
+                    </select>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Pencil, Plus, Star, X } from 'lucide-react';
+
+export interface EntityRow {
+  id: string;
+  name: string;
+  xeroTenantId: string;
+  xeroTenantName: string | null;
+  isDefault: boolean;
+  accountMappings: Record<string, string>;
+  brandingThemeMappings: Record<string, string>;
+  purchaseAccountCode: string | null;
+  updatedAt: string;
+}
+
+interface Props {
+  entities: EntityRow[];
+}
+
+interface FormState {
+  id: string;
+  name: string;
+  purchaseAccountCode: string;
+  accountMappings: string;
+  brandingThemeMappings: string;
+}
+
+// Mappings are edited one per line as "OS value = organisation's value"
+function mappingToText(mapping: Record<string, string>): string {
+  return Object.entries(mapping)
+    .map(([from, to]) => `${from} = ${to}`)
+    .join('\n');
+}
+
+function textToMapping(text: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const [from, ...rest] = line.split('=');
+    const to = rest.join('=').trim();
+    if (from.trim() && to) mapping[from.trim()] = to;
+  }
+  return mapping;
+}
+
+function formFromEntity(entity: EntityRow): FormState {
+  return {
+    id: entity.id,
+    name: entity.name,
+    purchaseAccountCode: entity.purchaseAccountCode || '',
+    accountMappings: mappingToText(entity.accountMappings),
+    brandingThemeMappings: mappingToText(entity.brandingThemeMappings),
+  };
+}
+
+export function EntitiesSection({ entities: initialEntities }: Props) {
+  const [entities, setEntities] = useState(initialEntities);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const patchEntity = async (id: string, body: Record<string, unknown>): Promise<boolean> => {
+    const res = await fetch(`/api/entities/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      alert(data.error || 'Failed to save entity');
+      return false;
+    }
+    setEntities((prev) =>
+      prev.map((e) =>
+        e.id === data.entity.id ? data.entity : data.entity.isDefault ? { ...e, isDefault: false } : e
+      )
+    );
+    return true;
+  };
+
+  const handleMakeDefault = async (entity: EntityRow) => {
+    if (!confirm(`Make ${entity.name} the default entity? New sales will be invoiced from it unless another is chosen.`)) {
+      return;
+    }
+    try {
+      await patchEntity(entity.id, { isDefault: true });
+    } catch {
+      alert('Failed to save entity');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const saved = await patchEntity(form.id, {
+        name: form.name,
+        purchaseAccountCode: form.purchaseAccountCode.trim() || null,
+        accountMappings: textToMapping(form.accountMappings),
+        brandingThemeMappings: textToMapping(form.brandingThemeMappings),
+      });
+      if (saved) setForm(null);
+    } catch {
+      alert('Failed to save entity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Entities</h2>
+          <p className="text-sm text-gray-500">
+            Each legal entity invoices from its own Xero organisation. Account codes and branding themes are mapped onto that organisation&apos;s own; anything unmapped is used as-is.
+          </p>
+        </div>
+        <a
+          href="/api/xero/oauth/authorize"
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          Connect Organisation
+        </a>
+      </div>
+
+      {entities.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-sm font-medium text-gray-900">No Xero organisations connected</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Connect Xero to create the first entity. Existing sales are assigned to it.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purchase Account</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mappings</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entities.map((entity) => (
+                  <tr key={entity.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <div className="font-medium">
+                        {entity.name}
+                        {entity.isDefault && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                            Default
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {entity.xeroTenantName && entity.xeroTenantName !== entity.name && `${entity.xeroTenantName} · `}
+                        <span className="font-mono">{entity.xeroTenantId}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {entity.purchaseAccountCode || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                      {Object.keys(entity.accountMappings).length} account · {Object.keys(entity.brandingThemeMappings).length} theme
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="inline-flex items-center gap-4">
+                        {!entity.isDefault && (
+                          <button
+                            onClick={() => handleMakeDefault(entity)}
+                            className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900"
+                          >
+                            <Star className="w-4 h-4" />
+                            Make default
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setForm(formFromEntity(entity))}
+                          className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-900"
+                        >
+                          <Pencil className="w-4 h-4" />
+                          Edit
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Entity form */}
+      {form && (
+        <div className="mt-4 bg-white rounded-lg border border-purple-200 shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-gray-900">{form.name}</h3>
+            <button onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <label className="text-sm text-gray-700">
+              Name
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Purchase account code (supplier bills)
+              <input
+                value={form.purchaseAccountCode}
+                onChange={(e) => setForm({ ...form, purchaseAccountCode: e.target.value })}
+                placeholder="e.g. 310"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Account code mappings
+              <textarea
+                value={form.accountMappings}
+                onChange={(e) => setForm({ ...form, accountMappings: e.target.value })}
+                rows={4}
+                placeholder="425 = 200"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm font-mono"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Branding theme mappings
+              <textarea
+                value={form.brandingThemeMappings}
+                onChange={(e) => setForm({ ...form, brandingThemeMappings: e.target.value })}
+                rows={4}
+                placeholder="Standard = Standard (Ltd)"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm font-mono"
+              />
+            </label>
+          </div>
+
+          <p className="mb-4 text-xs text-gray-500">
+            One mapping per line, written as <span className="font-mono">OS value = organisation value</span>.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,19 @@
 import Link from "next/link";
 // ORIGINAL XATA: import { XataClient } from "@/src/xata";
 import { db } from "@/db";
-import { commissionBands, suppliers } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { shoppers, suppliers } from "@/db/schema";
+import { asc, eq } from "drizzle-orm";
 import { getUserRole } from "@/lib/getUserRole";
 import { clerkClient } from "@clerk/nextjs/server";
 import { getTokens } from "@/lib/xero-auth";
 import { QuickActions } from './QuickActions';
 import { PendingSuppliersSection } from './PendingSuppliersSection';
+import { CommissionSchemesSection } from './CommissionSchemesSection';
+import { listCommissionSchemes } from "@/lib/commission-schemes";
+import { BrandingThemesSection } from './BrandingThemesSection';
+import { listBrandingThemes } from "@/lib/branding-themes";
+import { EntitiesSection } from './EntitiesSection';
+import { listEntities } from "@/lib/entities";
 
 export const dynamic = "force-dynamic";
 
@@ -66,13 +72,21 @@ export default async function AdminPage() {
     };
   });
 
-  // ORIGINAL XATA:
-  // const commissionBands = await xata.db.CommissionBands
-  //   .select(['*'])
-  //   .getAll();
-
-  // Fetch commission bands from database
-  const commissionBandsData = await db.query.commissionBands.findMany();
+  // Commission scheme versions + shopper links. Band max is Infinity for the
+  // top band in memory; send null so the client sees the same shape as the API.
+  const commissionSchemesData = (await listCommissionSchemes()).map((scheme) => ({
+    ...scheme,
+    bands: scheme.bands.map((b) => ({ ...b, max: b.max === Infinity ? null : b.max })),
+  }));
+  const shopperSchemes = await db
+    .select({
+      id: shoppers.id,
+      name: shoppers.name,
+      commissionScheme: shoppers.commissionScheme,
+      active: shoppers.active,
+    })
+    .from(shoppers)
+    .orderBy(asc(shoppers.name));
 
   // ORIGINAL XATA:
   // const pendingSuppliersRaw = await xata.db.Suppliers
@@ -246,123 +260,14 @@ export default async function AdminPage() {
       {/* Pending Suppliers Section */}
       <PendingSuppliersSection suppliers={pendingSuppliers} />
 
-      {/* Commission Configuration Section */}
-      <div className="mb-8">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-900">Commission Configuration</h2>
-          <button
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors opacity-50 cursor-not-allowed"
-            disabled
-          >
-            <svg
-              className="w-5 h-5 mr-2"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            Add Band
-          </button>
-        </div>
+      {/* Commission Schemes Section */}
+      <CommissionSchemesSection schemes={commissionSchemesData} shoppers={shopperSchemes} />
 
-        {commissionBandsData.length === 0 ? (
-          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12 text-center">
-            <svg
-              className="mx-auto h-12 w-12 text-gray-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={1.5}
-                d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z"
-              />
-            </svg>
-            <h3 className="mt-2 text-sm font-medium text-gray-900">No commission bands configured</h3>
-            <p className="mt-1 text-sm text-gray-500">
-              Commission bands define tiered commission rates based on margin thresholds.
-            </p>
-          </div>
-        ) : (
-          <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
-            <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th
-                      scope="col"
-                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
-                    >
-                      Band Type
-                    </th>
-                    <th
-                      scope="col"
-                      className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
-                    >
-                      Min Threshold
-                    </th>
-                    <th
-                      scope="col"
-                      className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
-                    >
-                      Max Threshold
-                    </th>
-                    <th
-                      scope="col"
-                      className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
-                    >
-                      Commission %
-                    </th>
-                    <th
-                      scope="col"
-                      className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
-                    >
-                      Actions
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {commissionBandsData.map((band) => (
-                    <tr key={band.id} className="hover:bg-gray-50 transition-colors">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {band.bandType || '—'}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
-                        £{(band.minThreshold || 0).toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
-                        {band.maxThreshold
-                          ? `£${band.maxThreshold.toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`
-                          : '∞'
-                        }
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600 text-right">
-                        {(band.commissionPercent || 0).toFixed(1)}%
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <button
-                          className="text-purple-600 hover:text-purple-900 opacity-50 cursor-not-allowed"
-                          disabled
-                        >
-                          Edit
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          </div>
-        )}
-      </div>
+      {/* Entities Section */}
+      <EntitiesSection entities={await listEntities()} />
+
+      {/* Branding Themes Section */}
+      <BrandingThemesSection themes={await listBrandingThemes()} />
 
       {/* System Settings Section */}
       <div className="mb-8">
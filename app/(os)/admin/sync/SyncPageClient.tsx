@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { RefreshCw, CheckCircle, AlertCircle, Loader2, AlertTriangle, ChevronDown, ChevronUp, Info, FileEdit, X, RotateCcw, Archive } from 'lucide-react';
+import type { SyncStateDetail } from '@/lib/sync-state';
 
 interface Sale {
   id: string;
@@ -55,6 +56,28 @@ interface Props {
   dismissedTotalCount: number;
   /** The server-side LIMIT applied to the lists. */
   rowCap: number;
+  /** Incremental sync watermarks, one per Xero resource and organisation. */
+  syncStates: SyncStateDetail[];
+  /** Entity names by Xero tenant ID, for labelling other organisations' rows. */
+  entityNames: Record<string, string>;
+}
+
+const SYNC_RESOURCE_LABELS: Record<SyncStateDetail['resource'], string> = {
+  invoices: 'Invoices',
+  credit_notes: 'Credit notes',
+  payments: 'Payments',
+  contacts: 'Contacts',
+};
+
+function formatSyncTime(dateStr: string | null): string {
+  if (!dateStr) return '—';
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
 }
 
 const PERIOD_OPTIONS: { value: PeriodFilter; label: string }[] = [
@@ -76,6 +99,8 @@ export function SyncPageClient({
   unallocatedTotalCount,
   dismissedTotalCount,
   rowCap,
+  syncStates,
+  entityNames,
 }: Props) {
   const router = useRouter();
   const isShopper = userRole === 'shopper';
@@ -155,14 +180,14 @@ export function SyncPageClient({
     }
   };
 
-  // Full historical sync (advanced)
-  const fullHistoricalSync = async () => {
-    if (!confirm('Full sync will fetch ALL invoices from Xero history and update dates on existing records. This may take several minutes. Continue?')) {
+  // Full resync (advanced) — ignores the watermark
+  const fullResync = async () => {
+    if (!confirm('Full resync will fetch ALL invoices from Xero history, ignoring the last sync point, and update existing records. This may take several minutes. Continue?')) {
       return;
     }
 
     setSyncing(true);
-    setSyncStep('Running full historical sync...');
+    setSyncStep('Running full resync...');
     setSyncResult(null);
     setError(null);
 
@@ -178,7 +203,7 @@ export function SyncPageClient({
         setError(errorMsg);
       }
     } catch (err) {
-      console.error('[SYNC] Full sync error:', err);
+      console.error('[SYNC] Full resync error:', err);
       const errorMsg = err instanceof Error ? err.message : 'Sync failed';
       setError(errorMsg);
       setSyncResult({ success: false, error: errorMsg });
@@ -440,16 +465,53 @@ export function SyncPageClient({
 
           {showAdvanced && (
             <div className="mt-3 p-4 bg-gray-50 rounded-lg">
+              <table className="w-full text-xs mb-4">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-3 text-left font-medium">Resource</th>
+                    <th className="py-1 pr-3 text-left font-medium">Synced up to</th>
+                    <th className="py-1 pr-3 text-left font-medium">Last run</th>
+                    <th className="py-1 text-left font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-700">
+                  {syncStates.map((state) => (
+                    <tr key={`${state.resource}@${state.tenantId ?? ''}`}>
+                      <td className="py-1 pr-3 font-medium">
+                        {SYNC_RESOURCE_LABELS[state.resource]}
+                        {state.tenantId && (
+                          <span className="ml-1 font-normal text-gray-500">
+                            ({entityNames[state.tenantId] ?? state.tenantId})
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-3">{formatSyncTime(state.watermark)}</td>
+                      <td className="py-1 pr-3">{formatSyncTime(state.lastRunAt)}</td>
+                      <td className="py-1" title={state.lastError ?? ''}>
+                        {state.lastStatus === 'failed' ? (
+                          <span className="text-red-600">Failed</span>
+                        ) : state.lastStatus === 'partial' ? (
+                          <span className="text-amber-600">Partial</span>
+                        ) : state.lastStatus === 'success' ? (
+                          <span className="text-green-600">OK</span>
+                        ) : (
+                          <span className="text-gray-400">Never run</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
               <p className="text-xs text-gray-500 mb-3">
-                Full historical sync fetches ALL invoices from Xero (not just last 60 days). Only use if you need to backfill historical data.
+                Syncs only fetch invoices changed since the last sync point above. Full resync ignores it and fetches ALL invoices from Xero — only use it to backfill historical data or recover from a bad sync.
               </p>
               <button
-                onClick={fullHistoricalSync}
+                onClick={fullResync}
                 disabled={syncing}
                 className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
               >
                 <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
-                Full Historical Sync
+                Full resync
               </button>
             </div>
           )}
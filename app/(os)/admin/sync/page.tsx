@@ -3,8 +3,9 @@ import { redirect } from 'next/navigation';
 import { getUserRole } from '@/lib/getUserRole';
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
 import { db } from "@/db";
-import { sales, shoppers } from "@/db/schema";
+import { entities, sales, shoppers } from "@/db/schema";
 import { eq, and, isNull, gte, lte, or, desc, asc, count } from "drizzle-orm";
+import { listSyncStates } from '@/lib/sync-state';
 import { SyncPageClient } from './SyncPageClient';
 
 export const dynamic = "force-dynamic";
@@ -151,6 +152,8 @@ export default async function SyncPage({ searchParams }: Props) {
     shoppersRaw,
     unallocatedCountRaw,
     dismissedCountRaw,
+    syncStates,
+    entityRows,
   ] = await Promise.all([
     db.query.sales.findMany({
       where: and(...unallocatedConditions),
@@ -176,6 +179,8 @@ export default async function SyncPage({ searchParams }: Props) {
       .select({ value: count() })
       .from(sales)
       .where(and(...dismissedConditions)),
+    listSyncStates(),
+    db.select({ xeroTenantId: entities.xeroTenantId, name: entities.name }).from(entities),
   ]);
 
   const unallocatedTotalCount = unallocatedCountRaw[0]?.value ?? unallocatedRaw.length;
@@ -262,6 +267,8 @@ export default async function SyncPage({ searchParams }: Props) {
         unallocatedTotalCount={unallocatedTotalCount}
         dismissedTotalCount={dismissedTotalCount}
         rowCap={ROW_CAP}
+        syncStates={syncStates}
+        entityNames={Object.fromEntries(entityRows.map((e) => [e.xeroTenantId, e.name]))}
       />
     </div>
   );
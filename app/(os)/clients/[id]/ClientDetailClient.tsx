@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { getInvoiceStatusDisplay } from '@/lib/invoice-status';
+import { XeroContactCard } from '@/components/ui/XeroContactCard';
+import type { XeroContactDetail } from '@/lib/xero-contacts';
 
 interface ClientDetailClientProps {
   client: {
@@ -34,6 +36,7 @@ interface ClientDetailClientProps {
     currency: string | null;
     source: string | null;
   }>;
+  contact: XeroContactDetail | null;
 }
 
 export function ClientDetailClient({
@@ -42,6 +45,7 @@ export function ClientDetailClient({
   userRole,
   stats,
   sales,
+  contact,
 }: ClientDetailClientProps) {
   const router = useRouter();
   const [selectedOwner, setSelectedOwner] = useState<string>(client.owner?.id || '');
@@ -51,6 +55,7 @@ export function ClientDetailClient({
   const [toastMessage, setToastMessage] = useState('');
 
   const isSuperadmin = userRole === 'superadmin';
+  const canEditContact = ['superadmin', 'admin', 'operations', 'finance'].includes(userRole ?? '');
 
   // Format currency
   const formatCurrency = (amount: number) => {
@@ -319,6 +324,11 @@ export function ClientDetailClient({
         </div>
       </div>
 
+      {/* Contact Details (Xero) */}
+      {contact && (
+        <XeroContactCard contact={contact} endpoint={`/api/clients/${client.id}`} canEdit={canEditContact} />
+      )}
+
       {/* Purchase History Section */}
       <div>
         <div className="flex items-center justify-between mb-5">
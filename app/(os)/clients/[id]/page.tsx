@@ -4,6 +4,7 @@ import { db } from "@/db";
 import { sales, shoppers, buyers } from "@/db/schema";
 import { eq, desc, asc } from "drizzle-orm";
 import { getUserRole } from "@/lib/getUserRole";
+import { getXeroContact, toContactDetail } from "@/lib/xero-contacts";
 import { ClientDetailClient } from "./ClientDetailClient";
 
 export const dynamic = "force-dynamic";
@@ -13,6 +14,7 @@ export const dynamic = "force-dynamic";
  *
  * Displays a single client's profile and complete purchase history
  * Superadmin can assign/change client owner
+ * Contact details come from the Xero contacts mirror and can be corrected here
  */
 
 // ORIGINAL XATA: const xata = new XataClient();
@@ -93,6 +95,9 @@ export default async function ClientDetailPage({ params }: { params: Promise<{ i
   const totalMargin = paidSales.reduce((sum, sale) => sum + (sale.grossMargin || 0), 0);
   const tradesCount = paidSales.length;
 
+  // Mirrored Xero contact (email, phone, addresses, tax number)
+  const xeroContact = buyer.xeroContactId ? await getXeroContact(buyer.xeroContactId) : null;
+
   // Serialize client data for client component
   const serializedClient = {
     id: buyer.id,
@@ -140,6 +145,7 @@ export default async function ClientDetailPage({ params }: { params: Promise<{ i
         totalSales: salesData.length,
       }}
       sales={serializedSales}
+      contact={xeroContact ? toContactDetail(xeroContact) : null}
     />
   );
 }
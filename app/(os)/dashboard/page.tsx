@@ -16,7 +16,7 @@ import { OperationsDashboard } from "@/components/dashboards/OperationsDashboard
 export const dynamic = "force-dynamic";
 
 interface DashboardPageProps {
-  searchParams: Promise<{ month?: string; viewAs?: string }>;
+  searchParams: Promise<{ month?: string; viewAs?: string; entity?: string }>;
 }
 
 export default async function DashboardPage({ searchParams }: DashboardPageProps) {
@@ -25,14 +25,15 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
     const params = await searchParams;
     const monthParam = params.month || "current";
     const viewAs = params.viewAs;
+    const entityParam = params.entity;
 
     // Superadmin view switching: Allow superadmin to preview other role experiences
     if (role === "superadmin" && viewAs) {
       switch (viewAs) {
         case "founder":
-          return <FounderDashboard monthParam={monthParam} />;
+          return <FounderDashboard monthParam={monthParam} entityParam={entityParam} />;
         case "operations":
-          return <OperationsDashboard monthParam={monthParam} />;
+          return <OperationsDashboard monthParam={monthParam} entityParam={entityParam} />;
         case "shopper-hope-peverell":
           return <ShopperDashboard monthParam={monthParam} shopperNameOverride="Hope Peverell" />;
         case "shopper-mary-clair":
@@ -59,11 +60,11 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
       case "finance":
         return <FinanceDashboard monthParam={monthParam} />;
       case "founder":
-        return <FounderDashboard monthParam={monthParam} />;
+        return <FounderDashboard monthParam={monthParam} entityParam={entityParam} />;
       case "operations":
-        return <OperationsDashboard monthParam={monthParam} />;
+        return <OperationsDashboard monthParam={monthParam} entityParam={entityParam} />;
       case "superadmin":
-        return <SuperadminDashboard monthParam={monthParam} />;
+        return <SuperadminDashboard monthParam={monthParam} entityParam={entityParam} />;
       default:
         return <ShopperDashboard monthParam={monthParam} />;
     }
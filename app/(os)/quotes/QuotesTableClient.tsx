@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Download, Loader2, XCircle } from 'lucide-react';
+import type { QuoteOutcome } from '@/lib/calculations/quotes';
+
+export interface QuoteRow {
+  id: string;
+  xeroQuoteNumber: string | null;
+  shopperName: string | null;
+  buyerName: string | null;
+  currency: string;
+  total: number;
+  grossMarginGbp: number | null;
+  expiryDate: string;
+  outcome: QuoteOutcome;
+  saleId: string | null;
+  createdAt: string;
+}
+
+interface Props {
+  quotes: QuoteRow[];
+  showShopper: boolean;
+}
+
+const OUTCOME_STYLES: Record<QuoteOutcome, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-gray-100 text-gray-700',
+  expired: 'bg-amber-100 text-amber-800',
+};
+
+const FILTERS: Array<QuoteOutcome | 'all'> = ['open', 'accepted', 'declined', 'expired', 'all'];
+
+function formatMoney(amount: number, currency: string): string {
+  return amount.toLocaleString('en-GB', { style: 'currency', currency, maximumFractionDigits: 2 });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+export function QuotesTableClient({ quotes: initialQuotes, showShopper }: Props) {
+  const [quotes, setQuotes] = useState(initialQuotes);
+  const [filter, setFilter] = useState<QuoteOutcome | 'all'>('open');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const visible = filter === 'all' ? quotes : quotes.filter((q) => q.outcome === filter);
+
+  // Accepting invoices the quote's stored payload through the usual invoice route
+  const handleAccept = async (quote: QuoteRow) => {
+    if (!confirm(`Accept ${quote.xeroQuoteNumber || 'this quote'}? This creates the sale and its Xero invoice at the quoted prices.`)) {
+      return;
+    }
+    setBusyId(quote.id);
+    try {
+      const res = await fetch('/api/xero/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId: quote.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.message || data.error || 'Failed to accept quote');
+        setBusyId(null);
+        return;
+      }
+      const params = new URLSearchParams({
+        invoiceId: data.invoiceId,
+        invoiceNumber: data.invoiceNumber,
+        contact: data.contactName || quote.buyerName || '',
+        amount: String(data.total),
+        currency: quote.currency,
+        url: data.invoiceUrl,
+      });
+      if (data.saleId) params.set('saleId', data.saleId);
+      window.location.href = `/trade/success?${params.toString()}`;
+    } catch {
+      alert('Failed to accept quote');
+      setBusyId(null);
+    }
+  };
+
+  const handleDecline = async (quote: QuoteRow) => {
+    if (!confirm(`Mark ${quote.xeroQuoteNumber || 'this quote'} as declined?`)) return;
+    setBusyId(quote.id);
+    try {
+      const res = await fetch(`/api/quotes/${quote.id}/decline`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || 'Failed to decline quote');
+        return;
+      }
+      setQuotes((prev) => prev.map((q) => (q.id === quote.id ? { ...q, outcome: data.quote.outcome } : q)));
+    } catch {
+      alert('Failed to decline quote');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {FILTERS.map((value) => {
+          const count = value === 'all' ? quotes.length : quotes.filter((q) => q.outcome === value).length;
+          return (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg capitalize transition-colors ${
+                filter === value ? 'bg-purple-100 text-purple-800' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {value} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-sm font-medium text-gray-900">No {filter === 'all' ? '' : `${filter} `}quotes</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Quotes are saved from the review step of the New Sale wizard.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quote</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Client</th>
+                  {showShopper && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shopper</th>
+                  )}
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Margin</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid Until</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visible.map((quote) => (
+                  <tr key={quote.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="font-medium">{quote.xeroQuoteNumber || '—'}</div>
+                      <span className={`inline-flex px-2 py-0.5 mt-1 rounded-full text-xs font-medium capitalize ${OUTCOME_STYLES[quote.outcome]}`}>
+                        {quote.outcome}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{quote.buyerName || '—'}</td>
+                    {showShopper && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{quote.shopperName || '—'}</td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {formatMoney(quote.total, quote.currency)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                      {quote.grossMarginGbp !== null ? formatMoney(quote.grossMarginGbp, 'GBP') : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatDate(quote.expiryDate)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="inline-flex items-center gap-4">
+                        <a
+                          href={`/api/quotes/${quote.id}/pdf`}
+                          className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900"
+                        >
+                          <Download className="w-4 h-4" />
+                          PDF
+                        </a>
+                        {quote.outcome === 'open' && (
+                          <>
+                            <button
+                              onClick={() => handleDecline(quote)}
+                              disabled={busyId !== null}
+                              className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            >
+                              <XCircle className="w-4 h-4" />
+                              Decline
+                            </button>
+                            <button
+                              onClick={() => handleAccept(quote)}
+                              disabled={busyId !== null}
+                              className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-900 disabled:opacity-50"
+                            >
+                              {busyId === quote.id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <CheckCircle className="w-4 h-4" />
+                              )}
+                              Accept &amp; Invoice
+                            </button>
+                          </>
+                        )}
+                        {quote.saleId && (
+                          <Link href={`/sales/${quote.saleId}`} className="text-purple-600 hover:text-purple-900">
+                            View sale
+                          </Link>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
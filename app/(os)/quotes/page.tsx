@@ -0,0 +1,44 @@
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { listQuotes, QUOTE_MANAGER_ROLES } from "@/lib/quotes";
+import { QuotesTableClient } from "./QuotesTableClient";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Club 19 Sales OS - Quotes
+ *
+ * Deals quoted to clients from the New Sale wizard. Download the branded
+ * PDF, accept (creates the sale and Xero invoice at the quoted prices) or
+ * decline. Shoppers see their own quotes; managers see everyone's.
+ */
+export default async function QuotesPage() {
+  const { userId } = await auth();
+  const role = await getUserRole();
+  const canManageAll = QUOTE_MANAGER_ROLES.includes(role);
+
+  const quotes = canManageAll ? await listQuotes() : userId ? await listQuotes(userId) : [];
+  const openCount = quotes.filter((q) => q.outcome === "open").length;
+
+  return (
+    <div className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-xl sm:text-3xl font-semibold text-gray-900 mb-1 sm:mb-2">Quotes</h1>
+          <p className="text-sm sm:text-base text-gray-600">
+            {openCount} open quote{openCount !== 1 ? "s" : ""} • {quotes.length} in total
+          </p>
+        </div>
+        <Link
+          href="/trade/new"
+          className="inline-flex items-center justify-center px-4 py-2 min-h-[44px] border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors"
+        >
+          New Deal
+        </Link>
+      </div>
+
+      <QuotesTableClient quotes={quotes} showShopper={canManageAll} />
+    </div>
+  );
+}
@@ -48,7 +48,12 @@ export function SalesTableClient({ sales, shoppers, userRole, isDeletedSection =
   const searchParams = useSearchParams();
   const [updating, setUpdating] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [cloning, setCloning] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // "Similar deal" opens the New Sale wizard, so only roles with the wizard get it
+  const canCreateSimilar =
+    !isDeletedSection && ['superadmin', 'founder', 'operations', 'shopper'].includes(userRole || '');
+  const canDelete = userRole === 'superadmin' && !isDeletedSection;
 
   // Scroll fade indicator for horizontal table overflow
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -145,6 +150,29 @@ export function SalesTableClient({ sales, shoppers, userRole, isDeletedSection =
     }
   };
 
+  const handleCreateSimilar = async (saleId: string) => {
+    setCloning(saleId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sales/${saleId}/clone`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create similar deal');
+      }
+
+      router.push(`/trade/new?draft=${data.draft.id}`);
+    } catch (err) {
+      console.error('Error creating similar deal:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create similar deal');
+      setCloning(null);
+    }
+  };
+
   // Format currency
   const formatCurrency = (amount: number | null | undefined, currency: string | null | undefined) => {
     if (!amount) return '—';
@@ -352,7 +380,7 @@ export function SalesTableClient({ sales, shoppers, userRole, isDeletedSection =
                 >
                   Status
                 </th>
-                {userRole === 'superadmin' && !isDeletedSection && (
+                {(canCreateSimilar || canDelete) && (
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
                   </th>
@@ -442,15 +470,28 @@ export function SalesTableClient({ sales, shoppers, userRole, isDeletedSection =
                       )}
                     </div>
                   </td>
-                  {userRole === 'superadmin' && !isDeletedSection && (
+                  {(canCreateSimilar || canDelete) && (
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
-                      <button
-                        onClick={() => handleDelete(sale.id)}
-                        disabled={deleting === sale.id}
-                        className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        {deleting === sale.id ? 'Deleting...' : 'Delete'}
-                      </button>
+                      <div className="flex items-center justify-end gap-4">
+                        {canCreateSimilar && (
+                          <button
+                            onClick={() => handleCreateSimilar(sale.id)}
+                            disabled={cloning === sale.id}
+                            className="text-purple-600 hover:text-purple-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {cloning === sale.id ? 'Opening...' : 'Similar deal'}
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(sale.id)}
+                            disabled={deleting === sale.id}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {deleting === sale.id ? 'Deleting...' : 'Delete'}
+                          </button>
+                        )}
+                      </div>
                     </td>
                   )}
                 </tr>
@@ -4,11 +4,14 @@ import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { getBrandingThemeMapping } from '@/lib/branding-theme-mappings';
+import { useBrandingThemes } from '@/lib/hooks/useBrandingThemes';
+import { calculateMargins } from '@/lib/economics';
 import { BRANDS, CATEGORIES } from '@/lib/constants';
 import { NewSupplierModal } from '@/components/modals/NewSupplierModal';
-import { FileDown } from 'lucide-react';
+import { Copy, FileDown } from 'lucide-react';
 import { getInvoiceStatusDisplay } from '@/lib/invoice-status';
 import { MoneyInput } from '@/components/ui/MoneyInput';
+import { currencySymbol } from '@/lib/calculations/fx';
 
 interface LinkedInvoice {
   xero_invoice_id: string;
@@ -31,6 +34,11 @@ interface Sale {
   sale_amount_inc_vat: number;
   sale_amount_ex_vat: number;
   currency: string;
+  fx_rate: number | null;
+  fx_rate_source: string | null;
+  invoice_amount_inc_vat: number | null;
+  fx_payment_rate: number | null;
+  fx_gain_loss: number | null;
   brand: string | null;
   category: string | null;
   item_title: string | null;
@@ -42,6 +50,7 @@ interface Sale {
   gross_margin: number;
   commissionable_margin: number | null;
   branding_theme: string | null;
+  margin_scheme_eligible: boolean | null;
   invoice_status: string | null;
   invoice_paid_date: string | null;
   xero_payment_date: string | null;
@@ -95,6 +104,35 @@ interface PaymentInstalment {
   notes: string | null;
 }
 
+interface SalePayment {
+  id: string;
+  paymentDate: string | null;
+  amount: number;
+  currency: string | null;
+  amountGbp: number;
+  status: string;
+  reference: string | null;
+  bankAccountCode: string | null;
+  bankAccountName: string | null;
+  isReconciled: boolean | null;
+  paymentScheduleId: string | null;
+}
+
+interface SupplierBill {
+  id: string;
+  supplierName: string | null;
+  billNumber: string | null;
+  status: string;
+  /** Bills for items bought abroad are in the buy currency */
+  currency: string;
+  expectedTotal: number;
+  total: number | null;
+  amountPaid: number;
+  amountDue: number | null;
+  paidDate: string | null;
+  reconciliation: { variance: number; matches: boolean } | null;
+}
+
 interface Shopper {
   id: string;
   name: string;
@@ -130,6 +168,10 @@ interface LineItem {
   sellPrice: number;
   lineTotal: number;
   lineMargin: number;
+  // Set when bought in another currency; buyPrice is the GBP conversion
+  buyCurrency?: string | null;
+  buyPriceOriginal?: number | null;
+  buyFxRate?: number | null;
   supplierId?: string;
   supplierName?: string;
 }
@@ -155,7 +197,7 @@ function getVATLogicExplanation(brandingTheme: string | null, effectiveVATPercen
       accountCode: null,
       treatment: "Unknown",
       explanation: brandingTheme
-        ? `Unrecognized branding theme ID: "${brandingTheme}". This theme may need to be added to lib/branding-theme-mappings.ts`
+        ? `Unrecognized branding theme ID: "${brandingTheme}". This theme needs configuring in Admin → Branding Themes`
         : "No branding theme specified",
       expectedVAT: null,
       hasDiscrepancy: false,
@@ -311,6 +353,10 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
 
+  // Re-renders once the configured themes load, so the VAT Analysis panel
+  // resolves themes added since the last deploy
+  useBrandingThemes();
+
   // Xero linking state
   const [selectedXeroImportId, setSelectedXeroImportId] = useState('');
   const [isLinking, setIsLinking] = useState(false);
@@ -321,6 +367,7 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
   const [isFixingVAT, setIsFixingVAT] = useState(false);
   const [fixVATError, setFixVATError] = useState<string | null>(null);
   const [fixVATSuccess, setFixVATSuccess] = useState(false);
+  const [isSavingEligibility, setIsSavingEligibility] = useState(false);
 
   // Fix Margin state
   const [isFixingMargin, setIsFixingMargin] = useState(false);
@@ -354,6 +401,14 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
   // independently of FK changes.
   const [linkMode, setLinkMode] = useState<'view' | 'select' | 'create'>('view');
 
+  // Payments received (from Xero)
+  const [payments, setPayments] = useState<SalePayment[]>([]);
+
+  // Supplier bills raised in Xero for this sale's purchases
+  const [supplierBills, setSupplierBills] = useState<SupplierBill[]>([]);
+  const [isRaisingBills, setIsRaisingBills] = useState(false);
+  const [billsMessage, setBillsMessage] = useState<string | null>(null);
+
   // Payment plan state
   const [instalments, setInstalments] = useState<PaymentInstalment[]>([]);
   const [isLoadingInstalments, setIsLoadingInstalments] = useState(false);
@@ -381,6 +436,8 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
   // PDF download state
   const [isPdfDownloading, setIsPdfDownloading] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
+  const [isCloning, setIsCloning] = useState(false);
+  const [cloneError, setCloneError] = useState<string | null>(null);
   // Local mirror of invoice status — flipped to AUTHORISED after a successful
   // approve-and-download so the button updates without a page reload.
   const [localInvoiceStatus, setLocalInvoiceStatus] = useState<string | null>(
@@ -447,6 +504,7 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
 
   // Edit mode state (for superadmin/operations/admin)
   const canEdit = ['superadmin', 'admin', 'operations'].includes(userRole || '');
+  const canRaiseBills = ['superadmin', 'founder', 'operations', 'admin', 'finance'].includes(userRole || '');
   // Shopper reassignment - only superadmin, founder, operations can change shopper
   const canReassignShopper = ['superadmin', 'founder', 'operations'].includes(userRole || '');
 
@@ -561,6 +619,43 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
     fetchInstalments();
   }, [sale.is_payment_plan, sale.id]);
 
+  // Fetch payments received against the Xero invoice
+  useEffect(() => {
+    const fetchPayments = async () => {
+      if (!sale.xero_invoice_id) return;
+      try {
+        const response = await fetch(`/api/sales/${sale.id}/payments`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch payments');
+        }
+        const data = await response.json();
+        setPayments(data.payments || []);
+      } catch (error) {
+        console.error('Error fetching payments:', error);
+      }
+    };
+
+    fetchPayments();
+  }, [sale.xero_invoice_id, sale.id]);
+
+  // Fetch supplier bills raised for this sale
+  useEffect(() => {
+    const fetchSupplierBills = async () => {
+      try {
+        const response = await fetch(`/api/sales/${sale.id}/supplier-bills`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch supplier bills');
+        }
+        const data = await response.json();
+        setSupplierBills(data.bills || []);
+      } catch (error) {
+        console.error('Error fetching supplier bills:', error);
+      }
+    };
+
+    fetchSupplierBills();
+  }, [sale.id]);
+
   // Fetch line items for multi-item invoices
   useEffect(() => {
     const fetchLineItems = async () => {
@@ -704,6 +799,33 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
     editBuyPrice !== (sale.buy_price?.toString() || '0') ||
     editSupplierId !== (sale.supplier?.id || '');
 
+  const handleRaiseSupplierBills = async () => {
+    setIsRaisingBills(true);
+    setBillsMessage(null);
+
+    try {
+      const response = await fetch(`/api/sales/${sale.id}/supplier-bills`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to raise supplier bills');
+      }
+
+      setSupplierBills(data.bills || []);
+      const skipped = (data.skipped || []) as Array<{ supplierName: string | null; reason: string }>;
+      setBillsMessage(
+        [
+          `${data.raised} draft bill${data.raised === 1 ? '' : 's'} raised in Xero.`,
+          ...skipped.map((s) => (s.supplierName ? `${s.supplierName}: ${s.reason}` : s.reason)),
+        ].join(' ')
+      );
+    } catch (error) {
+      console.error('Error raising supplier bills:', error);
+      setBillsMessage(error instanceof Error ? error.message : 'Failed to raise supplier bills');
+    } finally {
+      setIsRaisingBills(false);
+    }
+  };
+
   const handleLinkXero = async () => {
     if (!selectedXeroImportId) return;
 
@@ -846,6 +968,30 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
     }
   };
 
+  const handleSetMarginSchemeEligible = async (eligible: boolean) => {
+    setIsSavingEligibility(true);
+    try {
+      const response = await fetch(`/api/sales/${sale.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ margin_scheme_eligible: eligible }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update margin scheme eligibility');
+      }
+
+      router.refresh();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update margin scheme eligibility');
+    } finally {
+      setIsSavingEligibility(false);
+    }
+  };
+
   const handleFixMargin = async () => {
     setIsFixingMargin(true);
     setFixMarginError(null);
@@ -1105,15 +1251,13 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
     setClawbackError(null);
 
     try {
-      const response = await fetch(`/api/sales/${sale.id}`, {
-        method: 'PATCH',
+      const response = await fetch(`/api/sales/${sale.id}/commission-clawback`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          commission_clawback: true,
-          commission_clawback_date: new Date().toISOString(),
-          commission_clawback_reason: clawbackReason.trim(),
+          reason: clawbackReason.trim(),
         }),
       });
 
@@ -1135,6 +1279,27 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
     }
   };
 
+  // Start a new wizard draft prefilled from this sale
+  const handleCreateSimilarDeal = async () => {
+    setIsCloning(true);
+    setCloneError(null);
+
+    try {
+      const response = await fetch(`/api/sales/${sale.id}/clone`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create similar deal');
+      }
+
+      router.push(`/trade/new?draft=${data.draft.id}`);
+    } catch (error) {
+      console.error('Error creating similar deal:', error);
+      setCloneError(error instanceof Error ? error.message : 'Failed to create similar deal');
+      setIsCloning(false);
+    }
+  };
+
   // Handle delete sale
   const handleDeleteSale = async () => {
     setIsDeleting(true);
@@ -1280,6 +1445,14 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
     : 0;
   const vatLogic = getVATLogicExplanation(sale.branding_theme, effectiveVATPercent);
 
+  // Margin scheme sales carry no VAT on the invoice, but VAT is due on the margin
+  const marginScheme = calculateMargins({
+    saleAmountExVat: sale.sale_amount_ex_vat,
+    buyPrice: sale.buy_price,
+    brandingTheme: sale.branding_theme,
+    marginSchemeEligible: sale.margin_scheme_eligible,
+  }).marginScheme;
+
   // Format status badge — colours and labels live in lib/invoice-status.ts.
   const getStatusBadge = (status: string | null | undefined) => {
     if (!status) return <span className="text-gray-400">—</span>;
@@ -1468,6 +1641,22 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
               )}
             </div>
           )}
+          {['superadmin', 'founder', 'operations', 'shopper'].includes(userRole || '') && (
+            <div className="flex flex-col items-start gap-1">
+              <button
+                onClick={handleCreateSimilarDeal}
+                disabled={isCloning}
+                title="Start a new deal with this sale's client, items, suppliers and introducer"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                {isCloning ? 'Opening…' : 'Create Similar Deal'}
+              </button>
+              {cloneError && (
+                <p className="text-xs text-red-600">{cloneError}</p>
+              )}
+            </div>
+          )}
           {userRole === 'superadmin' && (
             <button
               onClick={() => setShowDeleteModal(true)}
@@ -1762,7 +1951,14 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
                           <div className="text-gray-500 text-xs truncate max-w-[200px]">{item.description}</div>
                         </td>
                         <td className="px-3 py-2 text-center text-gray-900">{item.quantity}</td>
-                        <td className="px-3 py-2 text-right text-gray-900">£{item.buyPrice.toFixed(2)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900">
+                          £{item.buyPrice.toFixed(2)}
+                          {item.buyCurrency && item.buyPriceOriginal != null && (
+                            <div className="text-xs text-gray-500" title={`${item.buyCurrency} at ${item.buyFxRate} per £1`}>
+                              {currencySymbol(item.buyCurrency)}{item.buyPriceOriginal.toFixed(2)} @ {item.buyFxRate}
+                            </div>
+                          )}
+                        </td>
                         <td className="px-3 py-2 text-right text-gray-900">£{item.sellPrice.toFixed(2)}</td>
                         <td className={`px-3 py-2 text-right font-medium ${item.lineMargin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                           £{item.lineMargin.toFixed(2)}
@@ -1937,6 +2133,31 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
                   <dt className="text-sm text-gray-600">Currency</dt>
                   <dd className="text-sm font-medium text-gray-900">{sale.currency}</dd>
                 </div>
+                {sale.fx_rate && (
+                  <div>
+                    <dt className="text-sm text-gray-600">Invoiced Amount</dt>
+                    <dd className="text-sm font-medium text-gray-900">
+                      {currencySymbol(sale.currency)}
+                      {(sale.invoice_amount_inc_vat ?? 0).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </dd>
+                    <dd className="text-xs text-gray-500">
+                      at {sale.fx_rate} per £1
+                      {sale.fx_rate_source === 'manual' ? ' (entered by hand)' : sale.fx_rate_source === 'table' ? ' (rate table)' : sale.fx_rate_source === 'xero' ? ' (from Xero)' : ''}
+                    </dd>
+                  </div>
+                )}
+                {sale.fx_gain_loss !== null && (
+                  <div>
+                    <dt className="text-sm text-gray-600">Realised FX</dt>
+                    <dd className={`text-sm font-medium ${sale.fx_gain_loss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {sale.fx_gain_loss >= 0 ? 'Gain ' : 'Loss '}
+                      {formatCurrency(Math.abs(sale.fx_gain_loss))}
+                    </dd>
+                    {sale.fx_payment_rate && (
+                      <dd className="text-xs text-gray-500">paid at {sale.fx_payment_rate} per £1</dd>
+                    )}
+                  </div>
+                )}
                 {sale.source && (
                   <div>
                     <dt className="text-sm text-gray-600">Source</dt>
@@ -1991,6 +2212,56 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
             </div>
           )}
 
+          {/* Margin Scheme VAT */}
+          {marginScheme && (
+            <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-3">
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <p className="text-sm font-semibold text-gray-700">Margin Scheme VAT</p>
+                {canEdit && marginScheme.buyPrice > 0 && (
+                  <button
+                    onClick={() => handleSetMarginSchemeEligible(sale.margin_scheme_eligible === false)}
+                    disabled={isSavingEligibility}
+                    className="text-xs font-medium text-purple-600 hover:text-purple-800 disabled:opacity-50"
+                  >
+                    {isSavingEligibility
+                      ? 'Saving...'
+                      : sale.margin_scheme_eligible === false
+                        ? 'Mark stock as eligible'
+                        : 'Mark as bought with VAT'}
+                  </button>
+                )}
+              </div>
+              <dl className="grid grid-cols-3 gap-4">
+                <div>
+                  <dt className="text-sm text-gray-600">Margin</dt>
+                  <dd className={`text-sm font-medium ${marginScheme.isNegativeMargin ? 'text-red-600' : 'text-gray-900'}`}>
+                    {formatCurrency(marginScheme.margin)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-gray-600">
+                    {marginScheme.eligible ? 'VAT Due (1/6 of margin)' : 'VAT Due (1/6 of price)'}
+                  </dt>
+                  <dd className="text-sm font-medium text-gray-900">{formatCurrency(marginScheme.vatDue)}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-gray-600">Margin after VAT</dt>
+                  <dd className="text-sm font-medium text-gray-900">{formatCurrency(marginScheme.netMargin)}</dd>
+                </div>
+              </dl>
+              {marginScheme.eligible && marginScheme.isNegativeMargin && (
+                <p className="mt-2 text-xs text-amber-700">
+                  Negative margin — no VAT is due on this item. The loss can&apos;t be offset against other margin scheme sales.
+                </p>
+              )}
+              {!marginScheme.eligible && (
+                <p className="mt-2 text-xs text-red-700">
+                  {marginScheme.ineligibleReason}. Standard-rate VAT is due on the full selling price.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* VAT Discrepancy Warning */}
           {vatLogic.hasDiscrepancy && (
             <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
@@ -2728,6 +2999,132 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
           )}
         </div>
 
+        {/* Payments Received Section */}
+        {payments.length > 0 && (
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 lg:col-span-2">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Payments Received</h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bank Account</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Instalment</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {payments.map((payment) => {
+                    const instalment = instalments.find((i) => i.id === payment.paymentScheduleId);
+                    const deleted = payment.status === 'DELETED';
+                    return (
+                      <tr key={payment.id} className={deleted ? 'text-gray-400 line-through' : ''}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          {formatDate(payment.paymentDate)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">
+                          {payment.currency && payment.currency !== 'GBP' ? (
+                            <>
+                              {currencySymbol(payment.currency)}
+                              {payment.amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                              <span className="ml-1 text-xs text-gray-500">({formatCurrency(payment.amountGbp)})</span>
+                            </>
+                          ) : (
+                            formatCurrency(payment.amountGbp)
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          {payment.bankAccountName || payment.bankAccountCode || '—'}
+                          {payment.isReconciled && (
+                            <span className="ml-2 text-xs text-green-700">Reconciled</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">{payment.reference || '—'}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          {instalment ? `#${instalment.instalment_number}` : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Supplier Bills Section */}
+        {(supplierBills.length > 0 || canRaiseBills) && (
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 lg:col-span-2">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Supplier Bills</h2>
+              {canRaiseBills && (
+                <button
+                  onClick={handleRaiseSupplierBills}
+                  disabled={isRaisingBills}
+                  className="px-4 py-2 text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isRaisingBills ? 'Raising...' : 'Raise Draft Bills in Xero'}
+                </button>
+              )}
+            </div>
+            {billsMessage && <p className="mb-4 text-sm text-gray-600">{billsMessage}</p>}
+            {supplierBills.length === 0 ? (
+              <p className="text-sm text-gray-500">No bills raised yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bill #</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Billed</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">vs Buy Price</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {supplierBills.map((bill) => {
+                      const inactive = bill.status === 'VOIDED' || bill.status === 'DELETED';
+                      const formatBillAmount = (amount: number) =>
+                        `${currencySymbol(bill.currency)}${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+                      return (
+                        <tr key={bill.id} className={inactive ? 'text-gray-400 line-through' : ''}>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">{bill.supplierName || '—'}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">{bill.billNumber || '—'}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            {bill.status}
+                            {bill.paidDate && (
+                              <span className="ml-2 text-xs text-gray-500">{formatDate(bill.paidDate)}</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">
+                            {formatBillAmount(bill.total ?? bill.expectedTotal)}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">{formatBillAmount(bill.amountPaid)}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            {!bill.reconciliation ? (
+                              '—'
+                            ) : bill.reconciliation.matches ? (
+                              <span className="text-green-700">Matches</span>
+                            ) : (
+                              <span className="text-amber-700">
+                                {bill.reconciliation.variance > 0 ? '+' : '-'}
+                                {formatBillAmount(Math.abs(bill.reconciliation.variance))}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Create Payment Plan Modal */}
         {showCreatePlanModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -3002,7 +3399,7 @@ export function SaleDetailClient({ sale, shoppers, suppliers, userRole, unalloca
                         <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
                       </svg>
                       <p className="text-sm text-red-800">
-                        This will mark the commission as clawed back. This action records that the commission payment must be recovered from the shopper.
+                        This will mark the commission as clawed back. If the commission has already been paid, it is recorded on the shopper&apos;s commission ledger and deducted from their next payment.
                       </p>
                     </div>
                   </div>
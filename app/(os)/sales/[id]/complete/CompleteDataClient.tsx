@@ -4,7 +4,7 @@ import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { BRANDS, CATEGORIES } from "@/lib/constants";
-import { XERO_BRANDING_THEMES } from "@/lib/branding-theme-mappings";
+import { useBrandingThemes } from "@/lib/hooks/useBrandingThemes";
 import { getCompletionColor, assessCompleteness } from "@/lib/completeness";
 import { calculateSaleEconomics } from "@/lib/economics";
 import type { CompletenessResult, SaleForCompleteness } from "@/lib/completeness";
@@ -99,18 +99,6 @@ interface CompleteDataClientProps {
   lineItems?: LineItemData[];
 }
 
-// Branding theme options for the manual override dropdown. Only the active "with link"
-// themes are selectable — the No-Link variants are picked automatically based on
-// paymentMethod, and CN Export Sales is legacy (still resolvable for historical sales,
-// but not a valid choice for new ones).
-const BRANDING_THEME_OPTIONS = Object.entries(XERO_BRANDING_THEMES)
-  .filter(([, theme]) => theme.noLinkVariantId !== null)
-  .map(([id, theme]) => ({
-    id,
-    name: theme.name,
-    treatment: theme.treatment,
-  }));
-
 export function CompleteDataClient({
   sale,
   suppliers: initialSuppliers,
@@ -121,6 +109,13 @@ export function CompleteDataClient({
 }: CompleteDataClientProps) {
   const router = useRouter();
 
+  // Branding theme options for the manual override dropdown. Only the active "with link"
+  // themes are selectable — the No-Link variants are picked automatically based on
+  // paymentMethod, and CN Export Sales is legacy (still resolvable for historical sales,
+  // but not a valid choice for new ones).
+  const brandingThemes = useBrandingThemes();
+  const brandingThemeOptions = brandingThemes.filter((theme) => theme.noLinkVariantId !== null);
+
   const hasLineItems = initialLineItems.length > 0;
   const isAtelier = sale.source === "atelier";
 
@@ -274,7 +269,9 @@ export function CompleteDataClient({
       marginPercent: economics.gross_margin_percent,
       saleExVat: economics.sale_amount_ex_vat,
     };
-  }, [buyPrice, cardFees, shippingCost, dhlCost, addisonLeeCost, taxiCost, handDeliveryCost, otherLogisticsCost, entrupyFee, brandingTheme, sale.saleAmountIncVat, sale.brandingTheme]);
+    // brandingThemes: recalculate once the theme registry has loaded
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [buyPrice, cardFees, shippingCost, dhlCost, addisonLeeCost, taxiCost, handDeliveryCost, otherLogisticsCost, entrupyFee, brandingTheme, brandingThemes, sale.saleAmountIncVat, sale.brandingTheme]);
 
   // Live completeness calculation - updates as user fills in fields
   const liveCompleteness = useMemo(() => {
@@ -989,7 +986,7 @@ export function CompleteDataClient({
                   className="w-full border border-gray-300 rounded-lg px-4 py-3 sm:px-3 sm:py-2 text-base sm:text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white"
                 >
                   <option value="">Select VAT treatment...</option>
-                  {BRANDING_THEME_OPTIONS.map((t) => (
+                  {brandingThemeOptions.map((t) => (
                     <option key={t.id} value={t.id}>
                       {t.name} - {t.treatment}
                     </option>
@@ -170,6 +170,11 @@ export default async function SaleDetailPage({ params }: { params: Promise<{ id:
     sale_amount_inc_vat: sale.saleAmountIncVat || 0,
     sale_amount_ex_vat: sale.saleAmountExVat || 0,
     currency: sale.currency || 'GBP',
+    fx_rate: sale.fxRate ?? null,
+    fx_rate_source: sale.fxRateSource || null,
+    invoice_amount_inc_vat: sale.invoiceAmountIncVat ?? null,
+    fx_payment_rate: sale.fxPaymentRate ?? null,
+    fx_gain_loss: sale.fxGainLoss ?? null,
     brand: sale.brand || null,
     category: sale.category || null,
     item_title: sale.itemTitle || null,
@@ -183,6 +188,7 @@ export default async function SaleDetailPage({ params }: { params: Promise<{ id:
     gross_margin: sale.grossMargin || 0,
     commissionable_margin: sale.commissionableMargin || null,
     branding_theme: sale.brandingTheme || null,
+    margin_scheme_eligible: sale.marginSchemeEligible ?? null,
     invoice_status: sale.invoiceStatus || null,
     invoice_paid_date: sale.invoicePaidDate ? sale.invoicePaidDate.toISOString() : null,
     xero_payment_date: sale.xeroPaymentDate ? sale.xeroPaymentDate.toISOString() : null,
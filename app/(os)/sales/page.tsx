@@ -6,6 +6,8 @@ import { eq, and, isNull, gte, lte, ne, desc, asc, isNotNull } from "drizzle-orm
 import { getUserRole } from "@/lib/getUserRole";
 import { getCurrentUser } from "@/lib/getCurrentUser";
 import { MonthPicker } from "@/components/ui/MonthPicker";
+import { EntityPicker } from "@/components/ui/EntityPicker";
+import { listEntities, entitySalesFilter } from "@/lib/entities";
 import { getMonthDateRange } from "@/lib/dateUtils";
 import { SalesTableClient } from "./SalesTableClient";
 import { SalesFilters } from "@/components/ui/SalesFilters";
@@ -21,7 +23,7 @@ export const dynamic = "force-dynamic";
  */
 
 interface SalesPageProps {
-  searchParams: Promise<{ month?: string; viewAs?: string; shopper?: string; status?: string }>;
+  searchParams: Promise<{ month?: string; viewAs?: string; shopper?: string; status?: string; entity?: string }>;
 }
 
 /**
@@ -125,6 +127,14 @@ export default async function SalesPage({ searchParams }: SalesPageProps) {
       conditions.push(eq(sales.shopperId, shopperParam));
     }
 
+    const [entityList, entityFilter] = await Promise.all([
+      listEntities(),
+      entitySalesFilter(params.entity),
+    ]);
+    if (entityFilter) {
+      conditions.push(entityFilter);
+    }
+
     // Apply date range filter if specified
     if (dateRange) {
       // console.log('[SalesPage] Applying date range filter');
@@ -222,6 +232,7 @@ export default async function SalesPage({ searchParams }: SalesPageProps) {
             </p>
           </div>
           <div className="flex items-center gap-3 sm:gap-4">
+            <EntityPicker entities={entityList} />
             <MonthPicker />
             <Link
               href="/trade/new"
@@ -4,6 +4,9 @@ import { notFound } from "next/navigation";
 import { db } from "@/db";
 import { sales, suppliers } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
+import { getUserRole } from "@/lib/getUserRole";
+import { getXeroContact, toContactDetail } from "@/lib/xero-contacts";
+import { XeroContactCard } from "@/components/ui/XeroContactCard";
 
 export const dynamic = "force-dynamic";
 
@@ -11,6 +14,7 @@ export const dynamic = "force-dynamic";
  * Club 19 Sales OS - Supplier Detail Page
  *
  * Displays a single supplier's profile and complete trade history
+ * Contact details come from the Xero contacts mirror and can be corrected here
  */
 
 // ORIGINAL XATA: const xata = new XataClient();
@@ -77,6 +81,11 @@ export default async function SupplierDetailPage({ params }: { params: Promise<{
   const totalMargin = paidSales.reduce((sum, sale) => sum + (sale.grossMargin || 0), 0);
   const tradesCount = paidSales.length;
 
+  // Mirrored Xero contact (email, phone, addresses, tax number)
+  const xeroContact = supplier.xeroContactId ? await getXeroContact(supplier.xeroContactId) : null;
+  const role = await getUserRole();
+  const canEditContact = ["superadmin", "admin", "operations", "finance"].includes(role);
+
   // Format currency
   const formatCurrency = (amount: number) => {
     return `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
@@ -172,6 +181,15 @@ export default async function SupplierDetailPage({ params }: { params: Promise<{
         </div>
       </div>
 
+      {/* Contact Details (Xero) */}
+      {xeroContact && (
+        <XeroContactCard
+          contact={toContactDetail(xeroContact)}
+          endpoint={`/api/suppliers/${supplier.id}`}
+          canEdit={canEditContact}
+        />
+      )}
+
       {/* Trade History Section */}
       <div>
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Trade History</h2>
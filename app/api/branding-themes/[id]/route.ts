@@ -0,0 +1,58 @@
+/**
+ * PATCH /api/branding-themes/[id]
+ *
+ * Assign a branding theme's VAT configuration: account code, treatment,
+ * explanation, expected VAT (percentage) and the paired no-link theme.
+ * A theme is used for VAT once account code, treatment and expected VAT
+ * are all set.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { updateBrandingTheme } from "@/lib/branding-themes";
+import { UpdateBrandingThemeSchema } from "@/lib/schemas/branding-theme";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const input = UpdateBrandingThemeSchema.parse(await request.json());
+    const theme = await updateBrandingTheme(id, input, userId);
+
+    return NextResponse.json({ theme });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid branding theme", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("BRANDING_THEMES", "Error updating branding theme", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to update branding theme" }, { status: 500 });
+  }
+}
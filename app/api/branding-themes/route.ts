@@ -0,0 +1,33 @@
+/**
+ * GET /api/branding-themes
+ *
+ * The configured branding themes (the VAT registry). Client components load
+ * these through useBrandingThemes() so live VAT/margin calculations and theme
+ * pickers see the same themes the server does.
+ *
+ * Any signed-in staff member.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const themes = await loadBrandingThemeRegistry();
+    return NextResponse.json({ themes });
+  } catch (error) {
+    logger.error("BRANDING_THEMES", "Error loading branding themes", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load branding themes" }, { status: 500 });
+  }
+}
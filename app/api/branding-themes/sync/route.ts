@@ -0,0 +1,46 @@
+/**
+ * POST /api/branding-themes/sync
+ *
+ * Refresh `branding_themes` from Xero's BrandingThemes endpoint. New themes
+ * are added unconfigured (and raise an `errors` row until an admin assigns
+ * their VAT treatment); themes Xero no longer returns are flagged, not
+ * deleted. Returns the sync counts and the refreshed list.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { listBrandingThemes, syncBrandingThemesFromXero } from "@/lib/branding-themes";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const summary = await syncBrandingThemesFromXero(userId);
+    const themes = await listBrandingThemes();
+
+    return NextResponse.json({ summary, themes });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error("BRANDING_THEMES", "Error syncing branding themes from Xero", {
+      error: message,
+    });
+    return NextResponse.json(
+      { error: "Failed to sync branding themes from Xero", details: message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 /**
  * Club 19 Sales OS - Single Client API
  *
- * GET: Fetch single client by ID with owner details
- * PATCH: Update client fields (owner assignment - superadmin only)
+ * GET: Fetch single client by ID with owner details and mirrored Xero contact
+ * PATCH: Update client fields (owner assignment - superadmin only; contact
+ *        details - pushed to Xero when the client is linked to a contact)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -11,11 +12,19 @@ import { getUserRole } from '@/lib/getUserRole';
 import { db } from "@/db";
 import { buyers, shoppers } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { ZodError } from 'zod';
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
 import * as logger from '@/lib/logger';
+import { isAppError } from '@/lib/errors';
+import { ContactChangesSchema } from '@/lib/schemas/contact';
+import { getXeroContact, updateContactDetails } from '@/lib/xero-contacts';
+import { resolveContactEntity } from '@/lib/entities';
 
 export const dynamic = 'force-dynamic';
 
+// Roles that can correct a client's contact details
+const CONTACT_EDIT_ROLES = ['superadmin', 'admin', 'operations', 'finance'];
+
 /**
  * GET /api/clients/[id]
  * Fetch a single client by ID with owner details
@@ -67,7 +76,9 @@ export async function GET(
       return NextResponse.json({ error: 'Client not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ client });
+    const contact = client.xeroContactId ? await getXeroContact(client.xeroContactId) : null;
+
+    return NextResponse.json({ client, contact });
   } catch (error) {
     logger.error('CLIENTS_API', 'Error fetching client', { error: error as any });
     return NextResponse.json(
@@ -79,8 +90,10 @@ export async function GET(
 
 /**
  * PATCH /api/clients/[id]
- * Update client fields (owner assignment)
- * Only superadmin can update owner
+ * Update client fields: owner (superadmin only) and contact details
+ * (name, email, phone, taxNumber). Contact details of a client linked to a
+ * Xero contact are saved to the mirror and pushed to Xero; if Xero rejects
+ * them they stay queued (pushedToXero: false) and the cron retries.
  */
 export async function PATCH(
   request: NextRequest,
@@ -92,17 +105,74 @@ export async function PATCH(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const { id } = await params;
+    const body = await request.json();
+    logger.info('CLIENTS_API', 'Update client request', { clientId: id, fields: Object.keys(body) });
+
+    const { owner, ...contactFields } = body;
     const role = await getUserRole();
-    if (role !== 'superadmin') {
+    if (owner !== undefined && role !== 'superadmin') {
       return NextResponse.json(
         { error: 'Forbidden - requires superadmin role' },
         { status: 403 }
       );
     }
+    if (Object.keys(contactFields).length > 0 && !CONTACT_EDIT_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: 'Forbidden - you cannot edit client contact details' },
+        { status: 403 }
+      );
+    }
 
-    const { id } = await params;
-    const body = await request.json();
-    logger.info('CLIENTS_API', 'Update client request', { clientId: id, fields: Object.keys(body) });
+    // Contact details: the Xero contact is the source of truth when linked
+    if (Object.keys(contactFields).length > 0) {
+      const changes = ContactChangesSchema.parse(contactFields);
+
+      const [existing] = await db
+        .select({ xeroContactId: buyers.xeroContactId })
+        .from(buyers)
+        .where(eq(buyers.id, id))
+        .limit(1);
+      if (!existing) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+      }
+
+      if (existing.xeroContactId) {
+        const entity = await resolveContactEntity({ buyerId: id });
+        const { contact, pushed } = await updateContactDetails(
+          existing.xeroContactId,
+          changes,
+          entity.xeroTenantId
+        );
+        logger.info('CLIENTS_API', 'Client contact details updated', {
+          clientId: id,
+          xeroContactId: existing.xeroContactId,
+          fields: Object.keys(changes),
+          pushedToXero: pushed,
+        });
+        if (owner === undefined) {
+          return NextResponse.json({ success: true, contact, pushedToXero: pushed });
+        }
+      } else {
+        if (changes.phone !== undefined || changes.taxNumber !== undefined) {
+          return NextResponse.json(
+            { error: 'Phone and tax number can only be set on clients linked to a Xero contact' },
+            { status: 400 }
+          );
+        }
+        await db
+          .update(buyers)
+          .set({
+            ...(changes.name !== undefined ? { name: changes.name } : {}),
+            ...(changes.email !== undefined ? { email: changes.email } : {}),
+          })
+          .where(eq(buyers.id, id));
+        if (owner === undefined) {
+          const [updated] = await db.select().from(buyers).where(eq(buyers.id, id)).limit(1);
+          return NextResponse.json({ success: true, client: updated });
+        }
+      }
+    }
 
     // ORIGINAL XATA: const xata = getXataClient();
 
@@ -110,9 +180,9 @@ export async function PATCH(
     const updateData: Record<string, any> = {};
 
     // Handle owner assignment (link field)
-    if (body.owner !== undefined) {
+    if (owner !== undefined) {
       // ORIGINAL XATA: updateData.owner = body.owner || null;
-      updateData.ownerId = body.owner || null;
+      updateData.ownerId = owner || null;
       // Track when and who changed the owner
       // ORIGINAL XATA: updateData.owner_changed_at = new Date();
       updateData.ownerChangedAt = new Date();
@@ -149,7 +219,7 @@ export async function PATCH(
 
     logger.info('CLIENTS_API', 'Client updated successfully', {
       clientId: id,
-      newOwnerId: body.owner || null,
+      newOwnerId: owner || null,
     });
 
     return NextResponse.json({
@@ -157,6 +227,15 @@ export async function PATCH(
       client: updatedClient,
     });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid contact details', issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
     logger.error('CLIENTS_API', 'Error updating client', { error: error as any });
     return NextResponse.json(
       { error: 'Failed to update client' },
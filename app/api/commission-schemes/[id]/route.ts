@@ -0,0 +1,59 @@
+/**
+ * PATCH /api/commission-schemes/[id]
+ *
+ * Edit a scheme version in place (name, bands, VAT treatment, bonus rate,
+ * end month, notes). Start months are fixed — create a new version instead.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { updateCommissionSchemeVersion } from "@/lib/commission-schemes";
+import { UpdateCommissionSchemeSchema } from "@/lib/schemas/commission-scheme";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const input = UpdateCommissionSchemeSchema.parse(await request.json());
+    const scheme = await updateCommissionSchemeVersion(id, input, userId);
+
+    return NextResponse.json({ scheme });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid scheme", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("COMMISSION_SCHEMES", "Error updating scheme version", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to update commission scheme" },
+      { status: 500 }
+    );
+  }
+}
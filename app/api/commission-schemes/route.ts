@@ -0,0 +1,105 @@
+/**
+ * Club 19 Sales OS - Commission Schemes API
+ *
+ * GET /api/commission-schemes
+ * Returns every scheme version plus the shoppers and the scheme key each one
+ * is linked to (for the Admin → Commission Schemes section).
+ *
+ * POST /api/commission-schemes
+ * Create a new scheme version. Closes the currently open version of the same
+ * key at the new version's start month.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { db } from "@/db";
+import { shoppers } from "@/db/schema";
+import { asc } from "drizzle-orm";
+import { getUserRole } from "@/lib/getUserRole";
+import {
+  listCommissionSchemes,
+  createCommissionSchemeVersion,
+} from "@/lib/commission-schemes";
+import { CreateCommissionSchemeSchema } from "@/lib/schemas/commission-scheme";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+const ALLOWED_ROLES = ["superadmin", "finance"];
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!ALLOWED_ROLES.includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [schemes, shopperRows] = await Promise.all([
+      listCommissionSchemes(),
+      db
+        .select({
+          id: shoppers.id,
+          name: shoppers.name,
+          commissionScheme: shoppers.commissionScheme,
+          active: shoppers.active,
+        })
+        .from(shoppers)
+        .orderBy(asc(shoppers.name)),
+    ]);
+
+    return NextResponse.json({ schemes, shoppers: shopperRows });
+  } catch (error) {
+    logger.error("COMMISSION_SCHEMES", "Error listing schemes", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to load commission schemes" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!ALLOWED_ROLES.includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const input = CreateCommissionSchemeSchema.parse(await request.json());
+    const scheme = await createCommissionSchemeVersion(input, userId);
+
+    return NextResponse.json({ scheme }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid scheme", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("COMMISSION_SCHEMES", "Error creating scheme version", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to create commission scheme" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Club 19 Sales OS - Webhook Event Worker Cron Job
+ *
+ * Works through the durable webhook queue (webhook_events): events that were
+ * queued but not processed, and failed events with attempts left (up to
+ * MAX_WEBHOOK_ATTEMPTS). Events that run out of attempts are logged to the
+ * Errors table and wait for a manual replay from /staff/admin/webhooks.
+ *
+ * SCHEDULE: Every 5 minutes (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processPendingWebhookEvents } from '@/lib/webhook-events';
+import * as logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+
+  if (!process.env.CRON_SECRET) {
+    logger.error('WEBHOOK_WORKER', 'CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  if (authHeader !== expectedAuth) {
+    logger.error('WEBHOOK_WORKER', 'Unauthorized cron request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await processPendingWebhookEvents();
+
+    logger.info('WEBHOOK_WORKER', 'Webhook queue pass complete', {
+      ...summary,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    logger.error('WEBHOOK_WORKER', 'Webhook queue pass failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json({ error: 'Webhook queue pass failed' }, { status: 500 });
+  }
+}
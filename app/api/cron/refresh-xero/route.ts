@@ -3,7 +3,8 @@
  *
  * STAGE 1: Single Integration User Architecture
  *
- * Automatically refreshes Xero tokens for the integration user to keep connection alive.
+ * Automatically refreshes Xero tokens for the integration user to keep connection alive —
+ * once per connected organisation.
  * Xero access tokens expire after 30 minutes, refresh tokens after 60 days of non-use.
  *
  * SCHEDULE: Every 10 minutes (see vercel.json for cron expression)
@@ -17,26 +18,18 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { clerkClient } from '@clerk/nextjs/server';
-import { refreshTokens, getValidTokens } from '@/lib/xero-auth';
+import { refreshTokens, getValidTokens, listXeroConnections } from '@/lib/xero-auth';
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
 import { db } from "@/db";
 import { errors } from "@/db/schema";
 import * as logger from '@/lib/logger';
+import { xeroConnectionsUrl } from '@/lib/xero-endpoints';
 
 export const dynamic = 'force-dynamic';
 
 // Integration user ID - single source of truth for Xero tokens
 const INTEGRATION_USER_ID = process.env.XERO_INTEGRATION_CLERK_USER_ID;
 
-interface XeroMetadata {
-  xero?: {
-    accessToken?: string;
-    refreshToken?: string;
-    tenantId?: string;
-  };
-}
-
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   logger.info('XERO_CRON', 'Starting scheduled token refresh (Stage 1 - Integration User)');
@@ -68,12 +61,11 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Stage 1: Get integration user directly (no scanning)
-    const user = await clerkClient.users.getUser(INTEGRATION_USER_ID);
-    const meta = user.privateMetadata as XeroMetadata;
+    // Stage 1: Get integration user's connections directly (no scanning)
+    const connections = await listXeroConnections();
 
     // Check if integration user has Xero tokens
-    if (!meta.xero?.accessToken || !meta.xero?.refreshToken || !meta.xero?.tenantId) {
+    if (connections.length === 0) {
       logger.info('XERO_CRON', 'Integration user has no Xero connection', {
         integrationUserId: INTEGRATION_USER_ID,
       });
@@ -87,73 +79,80 @@ export async function GET(request: NextRequest) {
 
     logger.info('XERO_CRON', 'Found Xero tokens on integration user', {
       integrationUserId: INTEGRATION_USER_ID,
+      tenants: connections.length,
     });
 
     let refreshed = 0;
     let failed = 0;
     const errorMessages: string[] = [];
 
-    try {
-      logger.info('XERO_CRON', 'Refreshing token for integration user', {
-        integrationUserId: INTEGRATION_USER_ID,
-      });
-
-      // STAGE 1: Pass forceCron: true to allow actual refresh
-      // Only the cron job has permission to refresh tokens
-      await refreshTokens(INTEGRATION_USER_ID, { forceCron: true });
+    for (const connection of connections) {
+      const label = connection.tenantName || connection.tenantId;
 
-      // Verify the refresh worked by making a test API call
-      const tokens = await getValidTokens(INTEGRATION_USER_ID);
-      if (!tokens || !tokens.accessToken) {
-        throw new Error('Token refresh succeeded but no access token returned');
+      // Organisations connected in the same grant are refreshed together —
+      // skip any an earlier iteration of this run already covered
+      const current = (await listXeroConnections()).find((c) => c.tenantId === connection.tenantId);
+      if (current?.refreshedAt && current.refreshedAt >= startTime) {
+        refreshed++;
+        continue;
       }
 
-      const testResponse = await fetch('https://api.xero.com/connections', {
-        headers: {
-          'Authorization': `Bearer ${tokens.accessToken}`,
-          'Accept': 'application/json',
-        },
-      });
+      try {
+        logger.info('XERO_CRON', 'Refreshing token for integration user', {
+          integrationUserId: INTEGRATION_USER_ID,
+          tenantId: connection.tenantId,
+        });
 
-      if (!testResponse.ok) {
-        throw new Error(`Xero API verification failed: ${testResponse.status}`);
-      }
+        // STAGE 1: Pass forceCron: true to allow actual refresh
+        // Only the cron job has permission to refresh tokens
+        await refreshTokens(INTEGRATION_USER_ID, { forceCron: true, tenantId: connection.tenantId });
+
+        // Verify the refresh worked by making a test API call
+        const tokens = await getValidTokens(INTEGRATION_USER_ID, connection.tenantId);
+        if (!tokens || !tokens.accessToken) {
+          throw new Error('Token refresh succeeded but no access token returned');
+        }
+
+        const testResponse = await fetch(xeroConnectionsUrl(), {
+          headers: {
+            'Authorization': `Bearer ${tokens.accessToken}`,
+            'Accept': 'application/json',
+          },
+        });
 
-      logger.info('XERO_CRON', 'Token refreshed and verified successfully', {
-        integrationUserId: INTEGRATION_USER_ID,
-      });
-      refreshed++;
-    } catch (error: any) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logger.error('XERO_CRON', 'Error refreshing token', {
-        integrationUserId: INTEGRATION_USER_ID,
-        error: errorMessage,
-      });
-      errorMessages.push(`Integration user: ${errorMessage}`);
-      failed++;
+        if (!testResponse.ok) {
+          throw new Error(`Xero API verification failed: ${testResponse.status}`);
+        }
 
-      // Log critical error to database for visibility
-      try {
-        // ORIGINAL XATA:
-        // const xata = getXataClient();
-        // await xata.db.Errors.create({
-        //   severity: 'high',
-        //   source: 'xero-cron',
-        //   message: [`Cron refresh failed for integration user: ${errorMessage}`],
-        //   timestamp: new Date(),
-        //   resolved: false,
-        // });
-        await db.insert(errors).values({
-          severity: 'high',
-          source: 'xero-cron',
-          message: [`Cron refresh failed for integration user: ${errorMessage}`],
-          timestamp: new Date(),
-          resolved: false,
+        logger.info('XERO_CRON', 'Token refreshed and verified successfully', {
+          integrationUserId: INTEGRATION_USER_ID,
+          tenantId: connection.tenantId,
         });
-      } catch (logErr) {
-        logger.error('XERO_CRON', 'Failed to log error to database', {
-          error: logErr instanceof Error ? logErr.message : String(logErr),
+        refreshed++;
+      } catch (error: any) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error('XERO_CRON', 'Error refreshing token', {
+          integrationUserId: INTEGRATION_USER_ID,
+          tenantId: connection.tenantId,
+          error: errorMessage,
         });
+        errorMessages.push(`${label}: ${errorMessage}`);
+        failed++;
+
+        // Log critical error to database for visibility
+        try {
+          await db.insert(errors).values({
+            severity: 'high',
+            source: 'xero-cron',
+            message: [`Cron refresh failed for ${label}: ${errorMessage}`],
+            timestamp: new Date(),
+            resolved: false,
+          });
+        } catch (logErr) {
+          logger.error('XERO_CRON', 'Failed to log error to database', {
+            error: logErr instanceof Error ? logErr.message : String(logErr),
+          });
+        }
       }
     }
 
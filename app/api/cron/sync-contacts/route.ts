@@ -0,0 +1,247 @@
+/**
+ * Club 19 Sales OS - Automated Contact Sync Cron Job
+ *
+ * Keeps the `xero_contacts` mirror fresh (see lib/xero-contacts.ts):
+ * 1. Pushes edits made in the OS that Xero hasn't accepted yet
+ * 2. Pulls contacts modified in Xero, archived ones included, and carries
+ *    name and email changes on to linked buyers and suppliers
+ *
+ * Incremental: only contacts modified since the `contacts` watermark in
+ * sync_state are fetched (If-Modified-Since). The first run looks back 7
+ * days; `?full=true` fetches every contact in Xero, which is how the mirror
+ * is first populated.
+ *
+ * Pulls run once per entity (lib/entities.ts), each on its own watermark,
+ * and tag contacts with the organisation they came from.
+ *
+ * SCHEDULE: Every hour, offset from the other Xero crons (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withXeroClient } from '@/lib/xero-client';
+import { db } from "@/db";
+import { errors } from "@/db/schema";
+import * as logger from '@/lib/logger';
+import {
+  pushPendingContactChanges,
+  recordXeroContact,
+  type XeroContact,
+} from '@/lib/xero-contacts';
+import { listSyncTargets, type SyncTarget } from '@/lib/entities';
+import {
+  getSyncWatermark,
+  nextSyncWatermark,
+  recordSyncFailure,
+  recordSyncRun,
+} from '@/lib/sync-state';
+
+export const dynamic = 'force-dynamic';
+
+// Integration user ID - single source of truth for Xero tokens
+const INTEGRATION_USER_ID = process.env.XERO_INTEGRATION_CLERK_USER_ID;
+
+interface ContactSyncSummary {
+  total: number;
+  recorded: number;
+  errors: Array<{ contactName: string; error: string }>;
+}
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function safeDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Pull and mirror one entity's changed contacts. A failure fetching them is
+ * recorded against the entity's watermark and rethrown.
+ *
+ * @param pushFailed - Edits that failed to push, counted against this run
+ */
+async function syncEntityContacts(
+  userId: string,
+  target: SyncTarget,
+  fullSync: boolean,
+  pushFailed: number
+): Promise<ContactSyncSummary> {
+  try {
+    const watermark = fullSync ? null : await getSyncWatermark('contacts', target.syncTenantId);
+    const modifiedSince = fullSync
+      ? null
+      : watermark ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    logger.info('XERO_CRON_CONTACTS', 'Fetching contacts', {
+      entity: target.entityName,
+      modifiedSince: modifiedSince?.toISOString() ?? 'ALL TIME',
+      fromWatermark: watermark !== null,
+    });
+
+    const allContacts = await withXeroClient(
+      userId,
+      (client) =>
+        client.getAllPages<XeroContact>(
+          'Contacts',
+          'Contacts',
+          {
+            headers: modifiedSince ? { 'If-Modified-Since': modifiedSince.toUTCString() } : undefined,
+            query: { includeArchived: true },
+          },
+          fullSync ? 1000 : undefined
+        ),
+      { tenantId: target.tenantId }
+    );
+
+    let recordedCount = 0;
+    const syncErrors: ContactSyncSummary['errors'] = [];
+    const failedUpdatedDates: (Date | null)[] = [];
+
+    for (const contact of allContacts) {
+      try {
+        await recordXeroContact(contact, target.tenantId);
+        recordedCount++;
+      } catch (err) {
+        syncErrors.push({
+          contactName: contact.Name || contact.ContactID,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+        failedUpdatedDates.push(safeDate(contact.UpdatedDateUTC));
+      }
+    }
+
+    await recordSyncRun('contacts', {
+      watermark: nextSyncWatermark(
+        allContacts.map((contact) => safeDate(contact.UpdatedDateUTC)),
+        failedUpdatedDates
+      ),
+      itemCount: allContacts.length,
+      errorCount: syncErrors.length + pushFailed,
+      full: fullSync,
+    }, target.syncTenantId);
+
+    return { total: allContacts.length, recorded: recordedCount, errors: syncErrors };
+  } catch (error) {
+    await recordSyncFailure(
+      'contacts',
+      error instanceof Error ? error.message : String(error),
+      target.syncTenantId
+    ).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const fullSync = request.nextUrl.searchParams.get('full') === 'true';
+  logger.info('XERO_CRON_CONTACTS', 'Starting contact sync', { fullSync });
+
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+
+  if (!process.env.CRON_SECRET) {
+    logger.error('XERO_CRON_CONTACTS', 'CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  if (authHeader !== expectedAuth) {
+    logger.error('XERO_CRON_CONTACTS', 'Unauthorized cron request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!INTEGRATION_USER_ID) {
+    logger.error('XERO_CRON_CONTACTS', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
+    return NextResponse.json({
+      error: 'XERO_INTEGRATION_CLERK_USER_ID not configured'
+    }, { status: 500 });
+  }
+
+  try {
+    // Push first, so the pull below brings back what Xero accepted
+    const pushed = await pushPendingContactChanges();
+
+    const targets = await listSyncTargets();
+    let total = 0;
+    let recordedCount = 0;
+    const syncErrors: ContactSyncSummary['errors'] = [];
+
+    for (const target of targets) {
+      try {
+        // Push failures count once, against the default organisation's run
+        const result = await syncEntityContacts(
+          INTEGRATION_USER_ID,
+          target,
+          fullSync,
+          target.isDefault ? pushed.failed : 0
+        );
+        total += result.total;
+        recordedCount += result.recorded;
+        syncErrors.push(...result.errors);
+      } catch (err) {
+        syncErrors.push({
+          contactName: `${target.entityName} (all)`,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('XERO_CRON_CONTACTS', 'Sync completed', {
+      duration,
+      total,
+      recorded: recordedCount,
+      pushed: pushed.pushed,
+      pushFailed: pushed.failed,
+      errors: syncErrors.length,
+    });
+
+    if (syncErrors.length > 0) {
+      try {
+        await db.insert(errors).values({
+          severity: 'medium',
+          source: 'xero-cron-contacts',
+          message: syncErrors.map(e => `${e.contactName}: ${e.error}`),
+          timestamp: new Date(),
+          resolved: false,
+        });
+      } catch {
+        logger.error('XERO_CRON_CONTACTS', 'Failed to log errors to database');
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        total,
+        recorded: recordedCount,
+        pushed: pushed.pushed,
+        pushFailed: pushed.failed,
+        errors: syncErrors.length,
+      },
+      duration: `${duration}ms`,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('XERO_CRON_CONTACTS', 'Fatal error during sync', {
+      message: errorMessage,
+    });
+
+    try {
+      await db.insert(errors).values({
+        severity: 'high',
+        source: 'xero-cron-contacts',
+        message: [`Cron contact sync failed: ${errorMessage}`],
+        timestamp: new Date(),
+        resolved: false,
+      });
+    } catch {
+      // Ignore logging errors
+    }
+
+    return NextResponse.json({
+      error: 'Sync failed',
+      details: errorMessage,
+    }, { status: 500 });
+  }
+}
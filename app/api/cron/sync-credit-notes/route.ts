@@ -0,0 +1,232 @@
+/**
+ * Club 19 Sales OS - Automated Credit Note Sync Cron Job
+ *
+ * Pulls customer credit notes from Xero and records each allocation against
+ * its sale in `credit_notes` (see lib/credit-notes.ts). A credit note that
+ * lands on a sale whose commission is already locked or paid raises a
+ * clawback proposal for finance.
+ *
+ * Incremental: only credit notes modified since the `credit_notes`
+ * watermark in sync_state are fetched (If-Modified-Since). The first run
+ * looks back 7 days; `?full=true` fetches every credit note in Xero, which
+ * is how existing history is backfilled.
+ *
+ * Runs once per entity (lib/entities.ts), each on its own watermark.
+ *
+ * SCHEDULE: Every 30 minutes, offset from sync-invoices (see vercel.json)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withXeroClient } from '@/lib/xero-client';
+import { db } from "@/db";
+import { errors } from "@/db/schema";
+import * as logger from '@/lib/logger';
+import { recordCreditNote, type XeroCreditNote } from '@/lib/credit-notes';
+import { listSyncTargets, type SyncTarget } from '@/lib/entities';
+import {
+  getSyncWatermark,
+  nextSyncWatermark,
+  recordSyncFailure,
+  recordSyncRun,
+} from '@/lib/sync-state';
+
+export const dynamic = 'force-dynamic';
+
+// Integration user ID - single source of truth for Xero tokens
+const INTEGRATION_USER_ID = process.env.XERO_INTEGRATION_CLERK_USER_ID;
+
+interface CreditNoteSyncSummary {
+  total: number;
+  changed: number;
+  proposals: number;
+  errors: Array<{ creditNoteNumber: string; error: string }>;
+}
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function safeDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Fetch and record one entity's changed credit notes. A failure fetching
+ * them is recorded against the entity's watermark and rethrown.
+ */
+async function syncEntityCreditNotes(
+  userId: string,
+  target: SyncTarget,
+  fullSync: boolean
+): Promise<CreditNoteSyncSummary> {
+  try {
+    const watermark = fullSync ? null : await getSyncWatermark('credit_notes', target.syncTenantId);
+    const modifiedSince = fullSync
+      ? null
+      : watermark ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    logger.info('XERO_CRON_CREDIT_NOTES', 'Fetching credit notes', {
+      entity: target.entityName,
+      modifiedSince: modifiedSince?.toISOString() ?? 'ALL TIME',
+      fromWatermark: watermark !== null,
+    });
+
+    const allCreditNotes = await withXeroClient(
+      userId,
+      (client) =>
+        client.getAllPages<XeroCreditNote>(
+          'CreditNotes',
+          'CreditNotes',
+          {
+            headers: modifiedSince ? { 'If-Modified-Since': modifiedSince.toUTCString() } : undefined,
+          },
+          fullSync ? 1000 : undefined
+        ),
+      { tenantId: target.tenantId }
+    );
+
+    let changedCount = 0;
+    let proposalCount = 0;
+    const syncErrors: CreditNoteSyncSummary['errors'] = [];
+    const failedUpdatedDates: (Date | null)[] = [];
+
+    for (const creditNote of allCreditNotes) {
+      try {
+        const result = await recordCreditNote(creditNote);
+        changedCount += result.changed;
+        proposalCount += result.proposals;
+      } catch (err) {
+        syncErrors.push({
+          creditNoteNumber: creditNote.CreditNoteNumber || creditNote.CreditNoteID,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+        failedUpdatedDates.push(safeDate(creditNote.UpdatedDateUTC));
+      }
+    }
+
+    await recordSyncRun('credit_notes', {
+      watermark: nextSyncWatermark(
+        allCreditNotes.map((creditNote) => safeDate(creditNote.UpdatedDateUTC)),
+        failedUpdatedDates
+      ),
+      itemCount: allCreditNotes.length,
+      errorCount: syncErrors.length,
+      full: fullSync,
+    }, target.syncTenantId);
+
+    return { total: allCreditNotes.length, changed: changedCount, proposals: proposalCount, errors: syncErrors };
+  } catch (error) {
+    await recordSyncFailure(
+      'credit_notes',
+      error instanceof Error ? error.message : String(error),
+      target.syncTenantId
+    ).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const fullSync = request.nextUrl.searchParams.get('full') === 'true';
+  logger.info('XERO_CRON_CREDIT_NOTES', 'Starting credit note sync', { fullSync });
+
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+
+  if (!process.env.CRON_SECRET) {
+    logger.error('XERO_CRON_CREDIT_NOTES', 'CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  if (authHeader !== expectedAuth) {
+    logger.error('XERO_CRON_CREDIT_NOTES', 'Unauthorized cron request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!INTEGRATION_USER_ID) {
+    logger.error('XERO_CRON_CREDIT_NOTES', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
+    return NextResponse.json({
+      error: 'XERO_INTEGRATION_CLERK_USER_ID not configured'
+    }, { status: 500 });
+  }
+
+  try {
+    const targets = await listSyncTargets();
+    let total = 0;
+    let changedCount = 0;
+    let proposalCount = 0;
+    const syncErrors: CreditNoteSyncSummary['errors'] = [];
+
+    for (const target of targets) {
+      try {
+        const result = await syncEntityCreditNotes(INTEGRATION_USER_ID, target, fullSync);
+        total += result.total;
+        changedCount += result.changed;
+        proposalCount += result.proposals;
+        syncErrors.push(...result.errors);
+      } catch (err) {
+        syncErrors.push({
+          creditNoteNumber: `${target.entityName} (all)`,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('XERO_CRON_CREDIT_NOTES', 'Sync completed', {
+      duration,
+      total,
+      changed: changedCount,
+      proposals: proposalCount,
+      errors: syncErrors.length,
+    });
+
+    if (syncErrors.length > 0) {
+      try {
+        await db.insert(errors).values({
+          severity: 'medium',
+          source: 'xero-cron-credit-notes',
+          message: syncErrors.map(e => `${e.creditNoteNumber}: ${e.error}`),
+          timestamp: new Date(),
+          resolved: false,
+        });
+      } catch {
+        logger.error('XERO_CRON_CREDIT_NOTES', 'Failed to log errors to database');
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        total,
+        changed: changedCount,
+        proposals: proposalCount,
+        errors: syncErrors.length,
+      },
+      duration: `${duration}ms`,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('XERO_CRON_CREDIT_NOTES', 'Fatal error during sync', {
+      message: errorMessage,
+    });
+
+    try {
+      await db.insert(errors).values({
+        severity: 'high',
+        source: 'xero-cron-credit-notes',
+        message: [`Cron credit note sync failed: ${errorMessage}`],
+        timestamp: new Date(),
+        resolved: false,
+      });
+    } catch {
+      // Ignore logging errors
+    }
+
+    return NextResponse.json({
+      error: 'Sync failed',
+      details: errorMessage,
+    }, { status: 500 });
+  }
+}
@@ -4,6 +4,13 @@
  * Automatically syncs invoices from Xero every 30 minutes.
  * Creates new Sales records with needs_allocation=true for management to assign.
  *
+ * Incremental: only invoices modified since the `invoices` watermark in
+ * sync_state are fetched (If-Modified-Since). The first run, with no
+ * watermark yet, looks back 7 days.
+ *
+ * Runs once per entity (lib/entities.ts), each on its own watermark; new
+ * sales belong to the entity whose organisation the invoice came from.
+ *
  * SCHEDULE: Every 30 minutes (see vercel.json)
  *
  * This cron job mirrors the manual POST /api/sync/xero-invoices endpoint
@@ -11,7 +18,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getValidTokens } from '@/lib/xero-auth';
+import { withXeroClient } from '@/lib/xero-client';
 import { db } from "@/db";
 import { sales, buyers, errors, lineItems } from "@/db/schema";
 import { eq, ilike, sql } from "drizzle-orm";
@@ -24,15 +31,34 @@ import {
 import { roundCurrency, addCurrency } from '@/lib/utils/currency';
 import {
   mapXeroInvoiceToSaleFields,
+  mappedFxColumns,
+  newSaleFxColumns,
   xeroAmountsChanged,
 } from '@/lib/xero-invoice-mapping';
+import { toBaseCurrency } from '@/lib/calculations/fx';
 import * as logger from '@/lib/logger';
+import { flagUnknownBrandingTheme, loadBrandingThemeRegistry } from '@/lib/branding-themes';
+import { listSyncTargets, type SyncTarget } from '@/lib/entities';
+import {
+  getSyncWatermark,
+  nextSyncWatermark,
+  recordSyncFailure,
+  recordSyncRun,
+} from '@/lib/sync-state';
 
 export const dynamic = 'force-dynamic';
 
 // Integration user ID - single source of truth for Xero tokens
 const INTEGRATION_USER_ID = process.env.XERO_INTEGRATION_CLERK_USER_ID;
 
+interface InvoiceSyncSummary {
+  total: number;
+  new: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{ invoiceNumber: string; error: string }>;
+}
+
 /**
  * Safely convert a date value to Date object or null
  * Handles Xero's .NET JSON date format: /Date(1731456000000+0000)/
@@ -99,6 +125,9 @@ interface XeroInvoice {
   AmountPaid: number;
   UpdatedDateUTC: string;
   BrandingThemeID?: string;
+  CurrencyCode?: string;
+  CurrencyRate?: number;
+  Payments?: Array<{ Amount: number; CurrencyRate?: number }>;
   Contact?: {
     ContactID: string;
     Name: string;
@@ -111,96 +140,44 @@ interface XeroInvoice {
   }>;
 }
 
-interface XeroInvoicesResponse {
-  Invoices: XeroInvoice[];
-}
-
-export async function GET(request: NextRequest) {
-  const startTime = Date.now();
-  logger.info('XERO_CRON_INVOICES', 'Starting automated invoice sync');
-
-  // Verify cron secret to prevent unauthorized access
-  const authHeader = request.headers.get('authorization');
-  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
-
-  if (!process.env.CRON_SECRET) {
-    logger.error('XERO_CRON_INVOICES', 'CRON_SECRET not configured');
-    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
-  }
-
-  if (authHeader !== expectedAuth) {
-    logger.error('XERO_CRON_INVOICES', 'Unauthorized cron request');
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
-
-  if (!INTEGRATION_USER_ID) {
-    logger.error('XERO_CRON_INVOICES', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
-    return NextResponse.json({
-      error: 'XERO_INTEGRATION_CLERK_USER_ID not configured'
-    }, { status: 500 });
-  }
-
+/**
+ * Fetch one entity's changed invoices and apply them. A failure fetching
+ * them is recorded against the entity's watermark and rethrown.
+ */
+async function syncEntityInvoices(userId: string, target: SyncTarget): Promise<InvoiceSyncSummary> {
   try {
-    // Get Xero tokens
-    const tokens = await getValidTokens(INTEGRATION_USER_ID);
-    logger.info('XERO_CRON_INVOICES', 'Got valid Xero tokens');
-
-    // Use If-Modified-Since header to fetch invoices modified in the last 7 days.
-    // This catches BOTH new invoices and modifications to older invoices (amount
-    // changes, description edits, etc.) regardless of the original invoice date.
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+    // Use If-Modified-Since header to fetch invoices modified since the last
+    // successful run (or the last 7 days on the first run). This catches BOTH
+    // new invoices and modifications to older invoices (amount changes,
+    // description edits, etc.) regardless of the original invoice date.
+    const watermark = await getSyncWatermark('invoices', target.syncTenantId);
+    const modifiedSince = watermark ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
 
     logger.info('XERO_CRON_INVOICES', 'Fetching invoices modified since', {
-      modifiedSince: sevenDaysAgo.toISOString()
+      entity: target.entityName,
+      modifiedSince: modifiedSince.toISOString(),
+      fromWatermark: watermark !== null,
     });
 
-    const allInvoices: XeroInvoice[] = [];
-    let page = 1;
-    let hasMorePages = true;
-
-    while (hasMorePages) {
-      const xeroUrl = `https://api.xero.com/api.xro/2.0/Invoices?page=${page}`;
-
-      const xeroResponse = await fetch(xeroUrl, {
-        headers: {
-          'Authorization': `Bearer ${tokens.accessToken}`,
-          'Xero-Tenant-Id': tokens.tenantId,
-          'Accept': 'application/json',
-          'If-Modified-Since': sevenDaysAgo.toUTCString(),
-        },
-      });
-
-      if (!xeroResponse.ok) {
-        const errorText = await xeroResponse.text();
-        logger.error('XERO_CRON_INVOICES', 'Xero API error', {
-          status: xeroResponse.status,
-          details: errorText
-        });
-        throw new Error(`Xero API error: ${xeroResponse.status}`);
-      }
-
-      const xeroData: XeroInvoicesResponse = await xeroResponse.json();
-      const invoices = xeroData.Invoices || [];
-
-      if (invoices.length === 0) {
-        hasMorePages = false;
-      } else {
-        allInvoices.push(...invoices);
-        page++;
-      }
-    }
+    const allInvoices = await withXeroClient(
+      userId,
+      (client) =>
+        client.getAllPages<XeroInvoice>('Invoices', 'Invoices', {
+          headers: { 'If-Modified-Since': modifiedSince.toUTCString() },
+        }),
+      { tenantId: target.tenantId }
+    );
 
     logger.info('XERO_CRON_INVOICES', 'Fetched invoices', {
       total: allInvoices.length,
-      pages: page - 1
     });
 
     // Process invoices
     let newCount = 0;
     let updatedCount = 0;
     let skippedCount = 0;
-    const syncErrors: Array<{ invoiceNumber: string; error: string }> = [];
+    const syncErrors: InvoiceSyncSummary['errors'] = [];
+    const failedUpdatedDates: (Date | null)[] = [];
 
     for (const invoice of allInvoices) {
       try {
@@ -231,7 +208,8 @@ export async function GET(request: NextRequest) {
           if (existing.deletedAt) {
             if (xeroIsNewer && existing.xeroInvoiceId) {
               const existingAmount = roundCurrency(toNumber(existing.saleAmountIncVat));
-              const xeroAmount = roundCurrency(invoice.Total || 0);
+              const secondaryMapped = mapXeroInvoiceToSaleFields(invoice);
+              const xeroAmount = secondaryMapped.saleAmountIncVat;
 
               if (existingAmount !== xeroAmount) {
                 // Update the soft-deleted record's amount
@@ -239,7 +217,7 @@ export async function GET(request: NextRequest) {
                   .update(sales)
                   .set({
                     saleAmountIncVat: xeroAmount,
-                    saleAmountExVat: invoice.SubTotal || (xeroAmount / 1.2),
+                    saleAmountExVat: secondaryMapped.saleAmountExVat || (xeroAmount / 1.2),
                     invoiceStatus: invoice.Status,
                   })
                   .where(eq(sales.id, existing.id));
@@ -288,6 +266,7 @@ export async function GET(request: NextRequest) {
                       commissionableMargin: margins.commissionableMargin,
                     })
                     .where(eq(sales.id, primary.id));
+                  await flagUnknownBrandingTheme(primary.id, primary.brandingTheme);
 
                   logger.info('XERO_CRON_INVOICES', 'Updated linked invoice amount on primary sale', {
                     primarySaleId: primary.id,
@@ -334,13 +313,14 @@ export async function GET(request: NextRequest) {
 
             if (amountsChanged) {
               const newIncVat = mapped.saleAmountIncVat;
-              const newExVat = roundCurrency(invoice.SubTotal || (newIncVat / 1.2));
+              const newExVat = roundCurrency(mapped.saleAmountExVat || (newIncVat / 1.2));
 
               updateSet.saleAmountIncVat = newIncVat;
               updateSet.saleAmountExVat = newExVat;
               updateSet.xeroAmountPaid = mapped.xeroAmountPaid;
               updateSet.xeroAmountDue = mapped.xeroAmountDue;
               updateSet.xeroAmountCredited = mapped.xeroAmountCredited;
+              Object.assign(updateSet, mappedFxColumns(mapped));
               updateSet.xeroInvoiceNumber = invoice.InvoiceNumber;
 
               // Recalculate margins with new amounts (keep existing buy price etc)
@@ -450,13 +430,14 @@ export async function GET(request: NextRequest) {
               invoiceStatus: insertMapped.invoiceStatus,
               saleDate: invoiceDate,
               saleAmountIncVat: insertMapped.saleAmountIncVat,
-              saleAmountExVat: invoice.SubTotal || (insertMapped.saleAmountIncVat / 1.2),
+              saleAmountExVat: insertMapped.saleAmountExVat || (insertMapped.saleAmountIncVat / 1.2),
               xeroAmountPaid: insertMapped.xeroAmountPaid,
               xeroAmountDue: insertMapped.xeroAmountDue,
               xeroAmountCredited: insertMapped.xeroAmountCredited,
-              currency: 'GBP',
+              ...newSaleFxColumns(insertMapped),
               source: 'xero_import',
               needsAllocation: true,
+              entityId: target.entityId,
               buyerId: buyer ? buyer.id : null,
               brand: 'Unknown',
               category: 'Unknown',
@@ -479,8 +460,8 @@ export async function GET(request: NextRequest) {
                 lineNumber: i + 1,
                 description: li.Description || 'Imported from Xero',
                 quantity: li.Quantity || 1,
-                sellPrice: li.UnitAmount || 0,
-                lineTotal: li.LineAmount || 0,
+                sellPrice: toBaseCurrency(li.UnitAmount || 0, insertMapped.fxRate),
+                lineTotal: toBaseCurrency(li.LineAmount || 0, insertMapped.fxRate),
                 brand: 'Unknown',
                 category: 'Unknown',
                 buyPrice: 0,
@@ -505,6 +486,87 @@ export async function GET(request: NextRequest) {
           invoiceNumber: invoice.InvoiceNumber || invoice.InvoiceID,
           error: errorMessage
         });
+        failedUpdatedDates.push(safeDate(invoice.UpdatedDateUTC));
+      }
+    }
+
+    // Advance the watermark — held back before any invoice that failed so
+    // the next run picks it up again
+    await recordSyncRun('invoices', {
+      watermark: nextSyncWatermark(
+        allInvoices.map((invoice) => safeDate(invoice.UpdatedDateUTC)),
+        failedUpdatedDates
+      ),
+      itemCount: allInvoices.length,
+      errorCount: syncErrors.length,
+      full: false,
+    }, target.syncTenantId);
+
+    return {
+      total: allInvoices.length,
+      new: newCount,
+      updated: updatedCount,
+      skipped: skippedCount,
+      errors: syncErrors,
+    };
+  } catch (error) {
+    await recordSyncFailure(
+      'invoices',
+      error instanceof Error ? error.message : String(error),
+      target.syncTenantId
+    ).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  logger.info('XERO_CRON_INVOICES', 'Starting automated invoice sync');
+
+  // Verify cron secret to prevent unauthorized access
+  const authHeader = request.headers.get('authorization');
+  const expectedAuth = `Bearer ${process.env.CRON_SECRET}`;
+
+  if (!process.env.CRON_SECRET) {
+    logger.error('XERO_CRON_INVOICES', 'CRON_SECRET not configured');
+    return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
+  }
+
+  if (authHeader !== expectedAuth) {
+    logger.error('XERO_CRON_INVOICES', 'Unauthorized cron request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!INTEGRATION_USER_ID) {
+    logger.error('XERO_CRON_INVOICES', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
+    return NextResponse.json({
+      error: 'XERO_INTEGRATION_CLERK_USER_ID not configured'
+    }, { status: 500 });
+  }
+
+  try {
+    await loadBrandingThemeRegistry();
+
+    const targets = await listSyncTargets();
+    let total = 0;
+    let newCount = 0;
+    let updatedCount = 0;
+    let skippedCount = 0;
+    const syncErrors: InvoiceSyncSummary['errors'] = [];
+
+    for (const target of targets) {
+      try {
+        const result = await syncEntityInvoices(INTEGRATION_USER_ID, target);
+        total += result.total;
+        newCount += result.new;
+        updatedCount += result.updated;
+        skippedCount += result.skipped;
+        syncErrors.push(...result.errors);
+      } catch (err) {
+        syncErrors.push({
+          invoiceNumber: `${target.entityName} (all)`,
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
       }
     }
 
@@ -535,7 +597,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       summary: {
-        total: allInvoices.length,
+        total,
         new: newCount,
         updated: updatedCount,
         skipped: skippedCount,
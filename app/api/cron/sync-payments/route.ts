@@ -4,6 +4,17 @@
  * Automatically syncs payment statuses from Xero every hour.
  * Updates invoice_status and invoice_paid_date for unpaid invoices.
  *
+ * Also records individual payments from Xero's Payments endpoint into the
+ * `payments` table (lib/payments.ts), which settles payment-plan
+ * instalments. Incremental from the `payments` watermark in sync_state;
+ * `?full=true` fetches every payment, which is how history is backfilled.
+ *
+ * Supplier bills the OS raised that aren't paid yet are refreshed too
+ * (lib/supplier-bills.ts), so their paid status follows Xero.
+ *
+ * Runs once per entity (lib/entities.ts), against that entity's Xero
+ * organisation and sales; one organisation failing doesn't stop the others.
+ *
  * SCHEDULE: Every hour (see vercel.json)
  *
  * This cron job mirrors the manual POST /api/sync/payment-status endpoint
@@ -12,14 +23,29 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getValidTokens } from '@/lib/xero-auth';
+import { createXeroClient, XeroApiError, type XeroClient } from '@/lib/xero-client';
 import { db } from "@/db";
 import { sales, errors } from "@/db/schema";
 import { and, ne, isNotNull, isNull, eq } from "drizzle-orm";
 import * as logger from '@/lib/logger';
 import {
   mapXeroInvoiceToSaleFields,
+  mappedFxColumns,
   xeroAmountsChanged,
 } from '@/lib/xero-invoice-mapping';
+import { recordXeroPayment, type XeroPayment } from '@/lib/payments';
+import { listSyncTargets, saleBelongsTo, type SyncTarget } from '@/lib/entities';
+import {
+  listOpenSupplierBillIds,
+  recordSupplierBill,
+  type XeroBill,
+} from '@/lib/supplier-bills';
+import {
+  getSyncWatermark,
+  nextSyncWatermark,
+  recordSyncFailure,
+  recordSyncRun,
+} from '@/lib/sync-state';
 
 export const dynamic = 'force-dynamic';
 
@@ -33,15 +59,272 @@ interface XeroInvoice {
   AmountDue: number;
   AmountPaid: number;
   UpdatedDateUTC: string;
+  CurrencyCode?: string;
+  CurrencyRate?: number;
+  Payments?: { Amount: number; CurrencyRate?: number }[];
 }
 
 interface XeroInvoicesResponse {
   Invoices: XeroInvoice[];
 }
 
+interface PaymentRecordsSummary {
+  fetched: number;
+  recorded: number;
+  instalmentsPaid: number;
+  errors: number;
+}
+
+interface SupplierBillsSummary {
+  checked: number;
+  errors: number;
+}
+
+interface InvoiceStatusSummary {
+  checked: number;
+  updated: number;
+  errors: Array<{ saleId: string; invoiceNumber: string; error: string }>;
+}
+
+/** Bills fetched per Invoices?IDs= request */
+const BILL_BATCH_SIZE = 50;
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function safeDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Pull payments modified since the `payments` watermark (everything on a
+ * full sync) and record each one. A Xero failure is recorded against the
+ * watermark and logged, but doesn't stop the invoice status sync.
+ */
+async function syncPaymentRecords(
+  xero: XeroClient,
+  fullSync: boolean,
+  target: SyncTarget
+): Promise<PaymentRecordsSummary> {
+  const summary: PaymentRecordsSummary = { fetched: 0, recorded: 0, instalmentsPaid: 0, errors: 0 };
+
+  let xeroPayments: XeroPayment[];
+  try {
+    const watermark = fullSync ? null : await getSyncWatermark('payments', target.syncTenantId);
+    const modifiedSince = fullSync
+      ? null
+      : watermark ?? new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    xeroPayments = await xero.getAllPages<XeroPayment>(
+      'Payments',
+      'Payments',
+      {
+        headers: modifiedSince ? { 'If-Modified-Since': modifiedSince.toUTCString() } : undefined,
+      },
+      fullSync ? 1000 : undefined
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('XERO_CRON_PAYMENTS', 'Failed to fetch payments', { entity: target.entityName, message });
+    await recordSyncFailure('payments', message, target.syncTenantId);
+    summary.errors++;
+    return summary;
+  }
+
+  summary.fetched = xeroPayments.length;
+  const failedUpdatedDates: (Date | null)[] = [];
+  for (const payment of xeroPayments) {
+    try {
+      const result = await recordXeroPayment(payment);
+      summary.recorded += result.recorded;
+      summary.instalmentsPaid += result.instalmentsPaid;
+    } catch (error) {
+      summary.errors++;
+      failedUpdatedDates.push(safeDate(payment.UpdatedDateUTC));
+      logger.error('XERO_CRON_PAYMENTS', 'Failed to record payment', {
+        paymentId: payment.PaymentID,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  await recordSyncRun('payments', {
+    watermark: nextSyncWatermark(
+      xeroPayments.map((payment) => safeDate(payment.UpdatedDateUTC)),
+      failedUpdatedDates
+    ),
+    itemCount: xeroPayments.length,
+    errorCount: summary.errors,
+    full: fullSync,
+  }, target.syncTenantId);
+
+  logger.info('XERO_CRON_PAYMENTS', 'Payment records synced', { entity: target.entityName, ...summary });
+  return summary;
+}
+
+/**
+ * Refresh the open supplier bills the OS raised, in batches by ID. Like the
+ * payment records, a failure is logged but doesn't stop the rest of the sync.
+ */
+async function syncSupplierBills(xero: XeroClient, target: SyncTarget): Promise<SupplierBillsSummary> {
+  const summary: SupplierBillsSummary = { checked: 0, errors: 0 };
+  const billIds = await listOpenSupplierBillIds(target);
+
+  for (let i = 0; i < billIds.length; i += BILL_BATCH_SIZE) {
+    const batch = billIds.slice(i, i + BILL_BATCH_SIZE);
+    try {
+      const data = await xero.get<{ Invoices?: XeroBill[] }>('Invoices', {
+        query: { IDs: batch.join(',') },
+      });
+      for (const bill of data.Invoices ?? []) {
+        await recordSupplierBill(bill);
+        summary.checked++;
+      }
+    } catch (error) {
+      summary.errors++;
+      logger.error('XERO_CRON_PAYMENTS', 'Failed to sync supplier bills', {
+        batchSize: batch.length,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (billIds.length > 0) {
+    logger.info('XERO_CRON_PAYMENTS', 'Supplier bills synced', { entity: target.entityName, ...summary });
+  }
+  return summary;
+}
+
+/**
+ * Check each of the entity's unpaid sales against its Xero invoice and
+ * update status and amounts where they moved.
+ */
+async function syncInvoiceStatuses(xero: XeroClient, target: SyncTarget): Promise<InvoiceStatusSummary> {
+  // Fetch the entity's unpaid Sales from database
+  const unpaidSales = await db
+    .select({
+      id: sales.id,
+      xeroInvoiceId: sales.xeroInvoiceId,
+      xeroInvoiceNumber: sales.xeroInvoiceNumber,
+      invoiceStatus: sales.invoiceStatus,
+      saleAmountIncVat: sales.saleAmountIncVat,
+      xeroAmountPaid: sales.xeroAmountPaid,
+      xeroAmountDue: sales.xeroAmountDue,
+      xeroAmountCredited: sales.xeroAmountCredited,
+    })
+    .from(sales)
+    .where(
+      and(
+        ne(sales.invoiceStatus, 'PAID'),
+        isNotNull(sales.xeroInvoiceId),
+        isNull(sales.deletedAt),
+        saleBelongsTo(target)
+      )
+    );
+
+  logger.info('XERO_CRON_PAYMENTS', 'Found unpaid sales to check', {
+    entity: target.entityName,
+    count: unpaidSales.length,
+  });
+
+  let checkedCount = 0;
+  let updatedCount = 0;
+  const syncErrors: InvoiceStatusSummary['errors'] = [];
+
+  for (const sale of unpaidSales) {
+    try {
+      if (!sale.xeroInvoiceId) {
+        continue;
+      }
+
+      let xeroData: XeroInvoicesResponse;
+      try {
+        xeroData = await xero.get<XeroInvoicesResponse>(`Invoices/${sale.xeroInvoiceId}`);
+      } catch (fetchError) {
+        if (!(fetchError instanceof XeroApiError)) throw fetchError;
+        syncErrors.push({
+          saleId: sale.id,
+          invoiceNumber: sale.xeroInvoiceNumber || sale.xeroInvoiceId,
+          error: `Xero API error: ${fetchError.status}`,
+        });
+        continue;
+      }
+
+      const invoice = xeroData.Invoices?.[0];
+
+      if (!invoice) {
+        syncErrors.push({
+          saleId: sale.id,
+          invoiceNumber: sale.xeroInvoiceNumber || sale.xeroInvoiceId,
+          error: 'Invoice not found in Xero',
+        });
+        continue;
+      }
+
+      checkedCount++;
+
+      // Re-derive status from amounts (catches credit-note flips that don't
+      // change Xero's raw status) and refresh the four amount columns if any
+      // of them moved.
+      const mapped = mapXeroInvoiceToSaleFields(invoice);
+      const statusChanged = sale.invoiceStatus !== mapped.invoiceStatus;
+      const amountsChanged = xeroAmountsChanged(sale, invoice);
+
+      if (statusChanged || amountsChanged) {
+        logger.info('XERO_CRON_PAYMENTS', 'Status or amounts changed', {
+          invoiceNumber: sale.xeroInvoiceNumber,
+          oldStatus: sale.invoiceStatus,
+          newStatus: mapped.invoiceStatus,
+          xeroRawStatus: invoice.Status,
+          amountCredited: mapped.xeroAmountCredited,
+        });
+
+        // Auto-soft-delete VOIDED invoices so they disappear from active views
+        const updateData: Record<string, unknown> = {
+          invoiceStatus: mapped.invoiceStatus,
+          invoicePaidDate: mapped.invoiceStatus === 'PAID' ? new Date() : null,
+          xeroAmountPaid: mapped.xeroAmountPaid,
+          xeroAmountDue: mapped.xeroAmountDue,
+          xeroAmountCredited: mapped.xeroAmountCredited,
+          ...mappedFxColumns(mapped),
+        };
+        if (mapped.invoiceStatus === 'VOIDED') {
+          updateData.deletedAt = new Date();
+          logger.info('XERO_CRON_PAYMENTS', 'Auto-deleting VOIDED invoice', {
+            invoiceNumber: sale.xeroInvoiceNumber,
+          });
+        }
+
+        await db
+          .update(sales)
+          .set(updateData)
+          .where(eq(sales.id, sale.id));
+
+        updatedCount++;
+      }
+
+      // Small delay to avoid rate limiting (100ms = max 600 requests/min)
+      if (unpaidSales.indexOf(sale) < unpaidSales.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      syncErrors.push({
+        saleId: sale.id,
+        invoiceNumber: sale.xeroInvoiceNumber || sale.xeroInvoiceId || 'unknown',
+        error: errorMessage,
+      });
+    }
+  }
+
+  return { checked: checkedCount, updated: updatedCount, errors: syncErrors };
+}
+
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
-  logger.info('XERO_CRON_PAYMENTS', 'Starting automated payment status sync');
+  const fullSync = request.nextUrl.searchParams.get('full') === 'true';
+  logger.info('XERO_CRON_PAYMENTS', 'Starting automated payment status sync', { fullSync });
 
   // Verify cron secret to prevent unauthorized access
   const authHeader = request.headers.get('authorization');
@@ -65,142 +348,40 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Get Xero tokens
-    const tokens = await getValidTokens(INTEGRATION_USER_ID);
-    logger.info('XERO_CRON_PAYMENTS', 'Got valid Xero tokens');
-
-    // Fetch unpaid Sales from database
-    const unpaidSales = await db
-      .select({
-        id: sales.id,
-        xeroInvoiceId: sales.xeroInvoiceId,
-        xeroInvoiceNumber: sales.xeroInvoiceNumber,
-        invoiceStatus: sales.invoiceStatus,
-        saleAmountIncVat: sales.saleAmountIncVat,
-        xeroAmountPaid: sales.xeroAmountPaid,
-        xeroAmountDue: sales.xeroAmountDue,
-        xeroAmountCredited: sales.xeroAmountCredited,
-      })
-      .from(sales)
-      .where(
-        and(
-          ne(sales.invoiceStatus, 'PAID'),
-          isNotNull(sales.xeroInvoiceId),
-          isNull(sales.deletedAt)
-        )
-      );
-
-    logger.info('XERO_CRON_PAYMENTS', 'Found unpaid sales to check', {
-      count: unpaidSales.length
-    });
-
-    if (unpaidSales.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: 'No unpaid invoices to sync',
-        summary: {
-          checked: 0,
-          updated: 0,
-          errors: 0,
-        },
-        duration: `${Date.now() - startTime}ms`,
-      });
-    }
-
+    const targets = await listSyncTargets();
     let checkedCount = 0;
     let updatedCount = 0;
-    const syncErrors: Array<{ saleId: string; invoiceNumber: string; error: string }> = [];
+    const syncErrors: InvoiceStatusSummary['errors'] = [];
+    const paymentRecords: PaymentRecordsSummary = { fetched: 0, recorded: 0, instalmentsPaid: 0, errors: 0 };
+    const supplierBills: SupplierBillsSummary = { checked: 0, errors: 0 };
+    const entityErrors: string[] = [];
 
-    for (const sale of unpaidSales) {
+    for (const target of targets) {
       try {
-        if (!sale.xeroInvoiceId) {
-          continue;
-        }
-
-        const xeroUrl = `https://api.xero.com/api.xro/2.0/Invoices/${sale.xeroInvoiceId}`;
-
-        const xeroResponse = await fetch(xeroUrl, {
-          headers: {
-            'Authorization': `Bearer ${tokens.accessToken}`,
-            'Xero-Tenant-Id': tokens.tenantId,
-            'Accept': 'application/json',
-          },
-        });
-
-        if (!xeroResponse.ok) {
-          syncErrors.push({
-            saleId: sale.id,
-            invoiceNumber: sale.xeroInvoiceNumber || sale.xeroInvoiceId,
-            error: `Xero API error: ${xeroResponse.status}`,
-          });
-          continue;
-        }
-
-        const xeroData: XeroInvoicesResponse = await xeroResponse.json();
-        const invoice = xeroData.Invoices?.[0];
-
-        if (!invoice) {
-          syncErrors.push({
-            saleId: sale.id,
-            invoiceNumber: sale.xeroInvoiceNumber || sale.xeroInvoiceId,
-            error: 'Invoice not found in Xero',
-          });
-          continue;
-        }
-
-        checkedCount++;
-
-        // Re-derive status from amounts (catches credit-note flips that don't
-        // change Xero's raw status) and refresh the four amount columns if any
-        // of them moved.
-        const mapped = mapXeroInvoiceToSaleFields(invoice);
-        const statusChanged = sale.invoiceStatus !== mapped.invoiceStatus;
-        const amountsChanged = xeroAmountsChanged(sale, invoice);
-
-        if (statusChanged || amountsChanged) {
-          logger.info('XERO_CRON_PAYMENTS', 'Status or amounts changed', {
-            invoiceNumber: sale.xeroInvoiceNumber,
-            oldStatus: sale.invoiceStatus,
-            newStatus: mapped.invoiceStatus,
-            xeroRawStatus: invoice.Status,
-            amountCredited: mapped.xeroAmountCredited,
-          });
-
-          // Auto-soft-delete VOIDED invoices so they disappear from active views
-          const updateData: Record<string, unknown> = {
-            invoiceStatus: mapped.invoiceStatus,
-            invoicePaidDate: mapped.invoiceStatus === 'PAID' ? new Date() : null,
-            xeroAmountPaid: mapped.xeroAmountPaid,
-            xeroAmountDue: mapped.xeroAmountDue,
-            xeroAmountCredited: mapped.xeroAmountCredited,
-          };
-          if (mapped.invoiceStatus === 'VOIDED') {
-            updateData.deletedAt = new Date();
-            logger.info('XERO_CRON_PAYMENTS', 'Auto-deleting VOIDED invoice', {
-              invoiceNumber: sale.xeroInvoiceNumber,
-            });
-          }
-
-          await db
-            .update(sales)
-            .set(updateData)
-            .where(eq(sales.id, sale.id));
-
-          updatedCount++;
-        }
-
-        // Small delay to avoid rate limiting (100ms = max 600 requests/min)
-        if (unpaidSales.indexOf(sale) < unpaidSales.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-        syncErrors.push({
-          saleId: sale.id,
-          invoiceNumber: sale.xeroInvoiceNumber || sale.xeroInvoiceId || 'unknown',
-          error: errorMessage,
-        });
+        // Get Xero tokens
+        const tokens = await getValidTokens(INTEGRATION_USER_ID, target.tenantId);
+        logger.info('XERO_CRON_PAYMENTS', 'Got valid Xero tokens', { entity: target.entityName });
+        // One call per unpaid invoice — the client keeps this under Xero's
+        // minute limit
+        const xero = createXeroClient({ tokens });
+
+        const payments = await syncPaymentRecords(xero, fullSync, target);
+        const bills = await syncSupplierBills(xero, target);
+        const statuses = await syncInvoiceStatuses(xero, target);
+
+        paymentRecords.fetched += payments.fetched;
+        paymentRecords.recorded += payments.recorded;
+        paymentRecords.instalmentsPaid += payments.instalmentsPaid;
+        paymentRecords.errors += payments.errors;
+        supplierBills.checked += bills.checked;
+        supplierBills.errors += bills.errors;
+        checkedCount += statuses.checked;
+        updatedCount += statuses.updated;
+        syncErrors.push(...statuses.errors);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error('XERO_CRON_PAYMENTS', 'Sync failed for entity', { entity: target.entityName, message });
+        entityErrors.push(`${target.entityName}: ${message}`);
       }
     }
 
@@ -213,12 +394,12 @@ export async function GET(request: NextRequest) {
     });
 
     // Log errors to database if any
-    if (syncErrors.length > 0) {
+    if (syncErrors.length > 0 || entityErrors.length > 0) {
       try {
         await db.insert(errors).values({
-          severity: 'medium',
+          severity: entityErrors.length > 0 ? 'high' : 'medium',
           source: 'xero-cron-payments',
-          message: syncErrors.map(e => `${e.invoiceNumber}: ${e.error}`),
+          message: [...entityErrors, ...syncErrors.map(e => `${e.invoiceNumber}: ${e.error}`)],
           timestamp: new Date(),
           resolved: false,
         });
@@ -233,6 +414,10 @@ export async function GET(request: NextRequest) {
         checked: checkedCount,
         updated: updatedCount,
         errors: syncErrors.length,
+        payments: paymentRecords,
+        supplierBills,
+        entities: targets.length,
+        entityErrors: entityErrors.length > 0 ? entityErrors : undefined,
       },
       duration: `${duration}ms`,
     });
@@ -0,0 +1,56 @@
+/**
+ * POST /api/deal-drafts/[id]/handover
+ *
+ * Hand a draft to another staff member, who owns it from then on.
+ * Body: { toUserId }.
+ *
+ * The draft's owner, or a manager (superadmin/founder/operations).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { handOverDealDraft, DRAFT_MANAGER_ROLES } from "@/lib/deal-drafts";
+import { HandOverDealDraftSchema } from "@/lib/schemas/deal-draft";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const input = HandOverDealDraftSchema.parse(await request.json());
+    const role = await getUserRole();
+    const draft = await handOverDealDraft(id, input, {
+      userId,
+      canManageAll: DRAFT_MANAGER_ROLES.includes(role),
+    });
+
+    logger.info("DEAL_DRAFTS", "Draft handed over", { id, from: userId, to: input.toUserId });
+    return NextResponse.json({ draft });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid hand-over", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("DEAL_DRAFTS", "Error handing over draft", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to hand over draft" }, { status: 500 });
+  }
+}
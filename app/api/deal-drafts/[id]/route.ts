@@ -0,0 +1,120 @@
+/**
+ * GET /api/deal-drafts/[id]
+ * A draft with its saved wizard state, to resume it.
+ *
+ * PUT /api/deal-drafts/[id]
+ * Save the wizard state over the draft. Owner only — returns 403 once the
+ * draft has been handed to someone else.
+ *
+ * DELETE /api/deal-drafts/[id]
+ * Discard the draft (also called once the sale has been created).
+ *
+ * The draft's owner, or a manager (superadmin/founder/operations) for GET
+ * and DELETE.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import {
+  deleteDealDraft,
+  getDealDraft,
+  saveDealDraft,
+  DRAFT_MANAGER_ROLES,
+} from "@/lib/deal-drafts";
+import { SaveDealDraftSchema } from "@/lib/schemas/deal-draft";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const role = await getUserRole();
+    const draft = await getDealDraft(id, {
+      userId,
+      canManageAll: DRAFT_MANAGER_ROLES.includes(role),
+    });
+
+    return NextResponse.json({ draft });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("DEAL_DRAFTS", "Error loading draft", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load draft" }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const input = SaveDealDraftSchema.parse(await request.json());
+    const draft = await saveDealDraft(id, input.state, userId);
+
+    return NextResponse.json({ draft });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid draft", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("DEAL_DRAFTS", "Error saving draft", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to save draft" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const role = await getUserRole();
+    await deleteDealDraft(id, {
+      userId,
+      canManageAll: DRAFT_MANAGER_ROLES.includes(role),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("DEAL_DRAFTS", "Error deleting draft", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to delete draft" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * GET /api/deal-drafts/recipients
+ *
+ * Active staff a draft can be handed to. Includes the caller, so a manager
+ * can take over someone else's draft; the drafts page leaves out the owner.
+ *
+ * Any signed-in staff member.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { listDraftRecipients } from "@/lib/deal-drafts";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({ recipients: await listDraftRecipients() });
+  } catch (error) {
+    logger.error("DEAL_DRAFTS", "Error listing recipients", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load staff" }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * GET /api/deal-drafts
+ * The caller's saved New Sale drafts, most recent first. Managers
+ * (superadmin/founder/operations) can pass ?scope=all for everyone's.
+ *
+ * POST /api/deal-drafts
+ * Save a new draft from the wizard state. Returns the draft with its ID,
+ * which the wizard then saves over with PUT /api/deal-drafts/[id].
+ *
+ * Any signed-in staff member.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { createDealDraft, listDealDrafts, DRAFT_MANAGER_ROLES } from "@/lib/deal-drafts";
+import { SaveDealDraftSchema } from "@/lib/schemas/deal-draft";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = request.nextUrl.searchParams.get("scope");
+    if (scope === "all") {
+      const role = await getUserRole();
+      if (!DRAFT_MANAGER_ROLES.includes(role)) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      return NextResponse.json({ drafts: await listDealDrafts() });
+    }
+
+    return NextResponse.json({ drafts: await listDealDrafts(userId) });
+  } catch (error) {
+    logger.error("DEAL_DRAFTS", "Error listing drafts", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load drafts" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = SaveDealDraftSchema.parse(await request.json());
+    const draft = await createDealDraft(input.state, userId);
+
+    return NextResponse.json({ draft }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid draft", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    logger.error("DEAL_DRAFTS", "Error creating draft", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to save draft" }, { status: 500 });
+  }
+}
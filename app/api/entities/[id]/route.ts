@@ -0,0 +1,56 @@
+/**
+ * PATCH /api/entities/[id]
+ *
+ * Rename an entity, make it the default, or set its account code and
+ * branding theme mappings and its fallback purchase account code.
+ *
+ * Superadmin/Admin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { updateEntity } from "@/lib/entities";
+import { UpdateEntitySchema } from "@/lib/schemas/entity";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "admin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const input = UpdateEntitySchema.parse(await request.json());
+    const entity = await updateEntity(id, input, userId);
+
+    return NextResponse.json({ entity });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid entity", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("ENTITIES", "Error updating entity", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to update entity" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * GET /api/entities
+ *
+ * The legal entities sales can be booked under, one per connected Xero
+ * organisation, default first. The New Sale wizard offers a choice when
+ * there is more than one; dashboards use them for the entity filter.
+ *
+ * Any signed-in staff member.
+ */
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { listEntities } from "@/lib/entities";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const entities = await listEntities();
+    return NextResponse.json({ entities });
+  } catch (error) {
+    logger.error("ENTITIES", "Error loading entities", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load entities" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * POST /api/finance/commissions/clawbacks/[id]
+ * Body: { action: "approve" | "reject", notes? }
+ *
+ * Reviews a pending clawback proposal. Approving posts the proposed amount
+ * to the shopper's commission ledger as a negative adjustment; rejecting
+ * leaves their commission as paid.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { approveClawbackProposal, rejectClawbackProposal } from "@/lib/commission-ledger";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { action, notes } = body;
+
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json({ error: "action must be approve or reject" }, { status: 400 });
+    }
+
+    const reviewNotes = typeof notes === "string" ? notes.trim() : undefined;
+    const proposal =
+      action === "approve"
+        ? await approveClawbackProposal(id, userId, reviewNotes)
+        : await rejectClawbackProposal(id, userId, reviewNotes);
+
+    return NextResponse.json({ proposal });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("COMMISSION_LEDGER", "Error reviewing clawback proposal", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to review clawback proposal" }, { status: 500 });
+  }
+}
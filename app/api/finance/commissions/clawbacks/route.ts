@@ -0,0 +1,51 @@
+/**
+ * Club 19 Sales OS - Commission Clawback Proposals API
+ *
+ * GET /api/finance/commissions/clawbacks?status=pending
+ * Clawback proposals raised by credit notes on locked or paid sales, newest
+ * first. `status` is optional (pending | approved | rejected).
+ *
+ * Superadmin/founder/operations/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { listClawbackProposals } from "@/lib/commission-ledger";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES = ["pending", "approved", "rejected"] as const;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !STATUSES.includes(status as (typeof STATUSES)[number])) {
+      return NextResponse.json(
+        { error: "status must be pending, approved or rejected" },
+        { status: 400 }
+      );
+    }
+
+    const proposals = await listClawbackProposals(
+      (status as (typeof STATUSES)[number] | null) ?? undefined
+    );
+    return NextResponse.json({ proposals });
+  } catch (error) {
+    logger.error("COMMISSION_LEDGER", "Error listing clawback proposals", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load clawback proposals" }, { status: 500 });
+  }
+}
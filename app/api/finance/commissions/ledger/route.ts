@@ -0,0 +1,47 @@
+/**
+ * Club 19 Sales OS - Commission Ledger API
+ *
+ * GET /api/finance/commissions/ledger?shopperId=...
+ * Every ledger entry for a shopper (oldest first) and their current balance.
+ * A negative balance is clawed-back commission still to be recovered.
+ *
+ * Superadmin/founder/operations/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { listLedgerEntries } from "@/lib/commission-ledger";
+import { addCurrency } from "@/lib/utils/currency";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const shopperId = request.nextUrl.searchParams.get("shopperId");
+    if (!shopperId) {
+      return NextResponse.json({ error: "shopperId is required" }, { status: 400 });
+    }
+
+    const entries = await listLedgerEntries(shopperId);
+    const balance = entries.reduce((sum, e) => addCurrency(sum, e.amount), 0);
+
+    return NextResponse.json({ shopperId, balance, entries });
+  } catch (error) {
+    logger.error("COMMISSION_LEDGER", "Error loading ledger", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load commission ledger" }, { status: 500 });
+  }
+}
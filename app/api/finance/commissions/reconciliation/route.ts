@@ -0,0 +1,91 @@
+/**
+ * Club 19 Sales OS - Commission Reconciliation Report
+ *
+ * GET /api/finance/commissions/reconciliation[?format=csv]
+ * Lists every sale whose stored commission_amount differs from its
+ * provisional V2 figure (lib/sale-commission.ts) — mostly sales created
+ * under commission engine V1 or the old allocate percentages. Read-only.
+ *
+ * Superadmin/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { reconcileStoredCommissions } from "@/lib/sale-commission";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { checked, mismatches } = await reconcileStoredCommissions();
+
+    logger.info("SALE_COMMISSION", "Commission reconciliation run", {
+      checked,
+      mismatches: mismatches.length,
+    });
+
+    if (request.nextUrl.searchParams.get("format") === "csv") {
+      const headers = [
+        "sale_id",
+        "sale_reference",
+        "invoice_number",
+        "shopper",
+        "month",
+        "stored_commission",
+        "v2_commission",
+        "difference",
+        "note",
+      ];
+      const lines = mismatches.map((row) =>
+        [
+          row.saleId,
+          row.saleReference,
+          row.invoiceNumber,
+          row.shopperName,
+          row.month,
+          row.storedAmount === null ? null : row.storedAmount.toFixed(2),
+          row.v2Amount.toFixed(2),
+          row.difference.toFixed(2),
+          row.note,
+        ]
+          .map(csvCell)
+          .join(",")
+      );
+      const date = new Date().toISOString().slice(0, 10);
+      return new NextResponse([headers.join(","), ...lines].join("\n"), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="commission-reconciliation-${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ checked, mismatchCount: mismatches.length, mismatches });
+  } catch (error) {
+    logger.error("SALE_COMMISSION", "Error running commission reconciliation", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to run commission reconciliation" },
+      { status: 500 }
+    );
+  }
+}
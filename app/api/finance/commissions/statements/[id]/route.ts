@@ -0,0 +1,49 @@
+/**
+ * GET /api/finance/commissions/statements/[id]
+ *
+ * Returns a single approved statement version including its frozen
+ * snapshot (per-sale rows, band and bonuses as approved).
+ *
+ * Superadmin/Founder/Operations/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { getCommissionStatement } from "@/lib/commission-statements";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const statement = await getCommissionStatement(id);
+    if (!statement) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ statement });
+  } catch (error) {
+    logger.error("COMMISSION_STATEMENTS", "Error fetching statement", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to load commission statement" },
+      { status: 500 }
+    );
+  }
+}
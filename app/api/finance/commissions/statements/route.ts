@@ -0,0 +1,105 @@
+/**
+ * Club 19 Sales OS - Commission Statements API
+ *
+ * GET /api/finance/commissions/statements?shopperId=...&month=2026-02
+ * Lists every approved version for a shopper and month (newest first).
+ *
+ * POST /api/finance/commissions/statements
+ * Body: { shopperId, month: "YYYY-MM", notes? }
+ * Freezes the live calculation as the next statement version. Figures are
+ * always recalculated server-side.
+ *
+ * GET: superadmin/founder/operations/finance. POST: superadmin/finance.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import {
+  approveCommissionStatement,
+  listStatementVersions,
+} from "@/lib/commission-statements";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const shopperId = request.nextUrl.searchParams.get("shopperId");
+    const month = request.nextUrl.searchParams.get("month");
+    if (!shopperId || !month || !MONTH_PATTERN.test(month)) {
+      return NextResponse.json(
+        { error: "shopperId and month (YYYY-MM) are required" },
+        { status: 400 }
+      );
+    }
+
+    const versions = await listStatementVersions(shopperId, month);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    logger.error("COMMISSION_STATEMENTS", "Error listing statements", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to load commission statements" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { shopperId, month, notes } = body;
+
+    if (typeof shopperId !== "string" || !shopperId) {
+      return NextResponse.json({ error: "shopperId is required" }, { status: 400 });
+    }
+    if (typeof month !== "string" || !MONTH_PATTERN.test(month)) {
+      return NextResponse.json({ error: "month must be YYYY-MM" }, { status: 400 });
+    }
+
+    const statement = await approveCommissionStatement(
+      shopperId,
+      month,
+      userId,
+      typeof notes === "string" ? notes.trim() : undefined
+    );
+
+    return NextResponse.json({ statement }, { status: 201 });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("COMMISSION_STATEMENTS", "Error approving statement", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to approve commission statement" },
+      { status: 500 }
+    );
+  }
+}
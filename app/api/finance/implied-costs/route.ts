@@ -0,0 +1,60 @@
+/**
+ * Club 19 Sales OS - Implied vs Actual Costs Report
+ *
+ * GET /api/finance/implied-costs?since=2026-01-01
+ * Per shipping route, the implied cost under the current rules next to the
+ * average DHL / Addison Lee / taxi / hand delivery / other costs recorded on
+ * sales costed on it; per category, the default Entrupy fee next to the
+ * average paid (lib/implied-cost-rules.ts). Defaults to the last 12 months.
+ * Read-only.
+ *
+ * Superadmin/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { buildImpliedCostReport } from "@/lib/implied-cost-rules";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+function twelveMonthsAgo(): string {
+  const date = new Date();
+  date.setUTCFullYear(date.getUTCFullYear() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const since = request.nextUrl.searchParams.get("since") || twelveMonthsAgo();
+    const report = await buildImpliedCostReport(since);
+
+    logger.info("IMPLIED_COSTS", "Implied cost report built", {
+      since,
+      routes: report.shipping.length,
+      awaitingCosts: report.awaitingCosts,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("IMPLIED_COSTS", "Error building implied cost report", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to build implied cost report" }, { status: 500 });
+  }
+}
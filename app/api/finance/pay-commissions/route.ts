@@ -4,6 +4,12 @@
  * POST /api/finance/pay-commissions
  * Final commission lifecycle step - transitions locked sales to commission_paid
  *
+ * Each shopper/month covered by the locked sales is then settled against the
+ * commission ledger: what the latest approved statement owes on the month's
+ * locked sales, less anything an earlier run already paid for that month, is
+ * netted against any clawbacks brought forward, and the net figure is what
+ * gets paid.
+ *
  * Admin/Finance/Superadmin only endpoint
  */
 
@@ -16,7 +22,9 @@ import { auth, clerkClient } from "@clerk/nextjs/server";
 import { getUserRole } from "@/lib/getUserRole";
 import { withRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import { transitionSaleStatus } from "@/lib/deal-lifecycle";
+import { settleCommissionMonth } from "@/lib/commission-ledger";
 import { ERROR_TYPES, ERROR_TRIGGERED_BY, ERROR_GROUPS } from "@/lib/error-types";
+import { addCurrency } from "@/lib/utils/currency";
 import * as logger from "@/lib/logger";
 
 export const dynamic = "force-dynamic";
@@ -46,11 +54,25 @@ interface PayCommissionResult {
   error?: string;
 }
 
+interface CommissionPayoutResult {
+  shopper_id: string;
+  month: string;
+  status: "paid" | "unsettled";
+  statement_id?: string;
+  statement_total?: number;
+  brought_forward?: number;
+  net_paid?: number;
+  carried_forward?: number;
+  error?: string;
+}
+
 interface PayCommissionsResponse {
   total_locked: number;
   total_commission_paid: number;
   total_failed: number;
+  total_net_paid: number;
   results: PayCommissionResult[];
+  payouts: CommissionPayoutResult[];
 }
 
 // ============================================================================
@@ -106,6 +128,8 @@ export async function POST(req: NextRequest) {
         id: sales.id,
         saleReference: sales.saleReference,
         status: sales.status,
+        shopperId: sales.shopperId,
+        saleDate: sales.saleDate,
       })
       .from(sales)
       .where(eq(sales.status, "locked"));
@@ -118,7 +142,9 @@ export async function POST(req: NextRequest) {
         total_locked: 0,
         total_commission_paid: 0,
         total_failed: 0,
+        total_net_paid: 0,
         results: [],
+        payouts: [],
       });
     }
 
@@ -128,6 +154,8 @@ export async function POST(req: NextRequest) {
     const results: PayCommissionResult[] = [];
     let total_commission_paid = 0;
     let total_failed = 0;
+    // "shopperId|YYYY-MM" for every shopper/month with a sale paid this run
+    const monthsToSettle = new Set<string>();
 
     for (const sale of lockedSales) {
       try {
@@ -142,6 +170,9 @@ export async function POST(req: NextRequest) {
 
         if (transitionResult.success) {
           total_commission_paid++;
+          if (sale.shopperId && sale.saleDate) {
+            monthsToSettle.add(`${sale.shopperId}|${sale.saleDate.toISOString().slice(0, 7)}`);
+          }
           results.push({
             sale_id: sale.id,
             sale_reference: sale.saleReference || "",
@@ -196,17 +227,65 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // STEP 4: Return response
+    // STEP 4: Settle each shopper/month against the commission ledger
+    logger.info("COMMISSIONS", `Settling ${monthsToSettle.size} shopper months...`);
+
+    const payouts: CommissionPayoutResult[] = [];
+    let total_net_paid = 0;
+
+    for (const key of monthsToSettle) {
+      const [shopperId, month] = key.split("|");
+      try {
+        const payout = await settleCommissionMonth(shopperId, month, adminUserEmail);
+        if (!payout) {
+          payouts.push({
+            shopper_id: shopperId,
+            month,
+            status: "unsettled",
+            error: "No approved commission statement for this month",
+          });
+          continue;
+        }
+        total_net_paid = addCurrency(total_net_paid, payout.netPayable);
+        payouts.push({
+          shopper_id: shopperId,
+          month,
+          status: "paid",
+          statement_id: payout.statementId,
+          statement_total: payout.statementTotal,
+          brought_forward: payout.broughtForward,
+          net_paid: payout.netPayable,
+          carried_forward: payout.carriedForward,
+        });
+      } catch (settleErr: any) {
+        payouts.push({
+          shopper_id: shopperId,
+          month,
+          status: "unsettled",
+          error: settleErr.message || "Unexpected error",
+        });
+        logger.error("COMMISSIONS", "Failed to settle commission month", {
+          shopperId,
+          month,
+          error: settleErr,
+        });
+      }
+    }
+
+    // STEP 5: Return response
     const response: PayCommissionsResponse = {
       total_locked: lockedSales.length,
       total_commission_paid,
       total_failed,
+      total_net_paid,
       results,
+      payouts,
     };
 
     logger.info("COMMISSIONS", "Complete", {
       commissionPaid: total_commission_paid,
-      failed: total_failed
+      failed: total_failed,
+      netPaid: total_net_paid,
     });
 
     return NextResponse.json(response);
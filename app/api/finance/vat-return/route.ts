@@ -0,0 +1,160 @@
+/**
+ * Club 19 Sales OS - Quarterly VAT Return Report
+ *
+ * GET /api/finance/vat-return?quarter=2026-Q2[&entity=<id>][&format=csv]
+ * The sales side of the VAT return in the nine-box layout, with the sales
+ * behind every box and flags for sales whose stored VAT disagrees with
+ * calculateVAT() or that have been credited (lib/vat-return.ts). Defaults
+ * to the current quarter and every entity's sales. Read-only.
+ *
+ * Superadmin/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { buildVatReturn, vatQuarterOf, type VatReturn } from "@/lib/vat-return";
+import { getEntity } from "@/lib/entities";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: (string | number | null)[]): string {
+  return values.map(csvCell).join(",");
+}
+
+/** Nine boxes first, then one row per sale behind each box. */
+function toCsv(report: VatReturn): string {
+  const saleById = new Map(report.sales.map((sale) => [sale.saleId, sale]));
+  const lines = [
+    csvLine([
+      "VAT return",
+      report.entity?.name ?? "All entities",
+      report.quarter,
+      `${report.periodStart} to ${report.periodEnd}`,
+    ]),
+    "",
+    csvLine(["box", "description", "amount", "note"]),
+    ...report.boxes.map((box) =>
+      csvLine([box.box, box.label, box.box >= 6 ? box.amount : box.amount.toFixed(2), box.note])
+    ),
+    "",
+    csvLine([
+      "box",
+      "sale_id",
+      "sale_reference",
+      "invoice_number",
+      "sale_date",
+      "buyer",
+      "branding_theme",
+      "treatment",
+      "currency",
+      "amount",
+      "stored_vat",
+      "calculated_vat",
+      "items",
+      "flags",
+    ]),
+  ];
+
+  // Boxes 3 and 5 repeat Box 1's sales; list only the boxes sales feed directly
+  for (const box of report.boxes.filter((b) => b.box === 1 || b.box === 6)) {
+    for (const saleId of box.saleIds) {
+      const sale = saleById.get(saleId)!;
+      lines.push(
+        csvLine([
+          box.box,
+          sale.saleId,
+          sale.saleReference,
+          sale.invoiceNumber,
+          sale.saleDate.slice(0, 10),
+          sale.buyerName,
+          sale.themeName,
+          sale.treatment,
+          sale.currency,
+          (box.box === 1 ? sale.outputVat : sale.netValue).toFixed(2),
+          sale.storedVat.toFixed(2),
+          sale.calculatedVat === null ? null : sale.calculatedVat.toFixed(2),
+          sale.items.join("; "),
+          sale.flags.join("; "),
+        ])
+      );
+    }
+  }
+
+  // Sales left out of the totals still need looking at
+  for (const sale of report.sales.filter((s) => s.treatment === "unclassified")) {
+    lines.push(
+      csvLine([
+        null,
+        sale.saleId,
+        sale.saleReference,
+        sale.invoiceNumber,
+        sale.saleDate.slice(0, 10),
+        sale.buyerName,
+        sale.themeName,
+        sale.treatment,
+        sale.currency,
+        null,
+        sale.storedVat.toFixed(2),
+        null,
+        sale.items.join("; "),
+        sale.flags.join("; "),
+      ])
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const quarter = request.nextUrl.searchParams.get("quarter") || vatQuarterOf(new Date());
+    const entityId = request.nextUrl.searchParams.get("entity");
+    const entity = entityId ? await getEntity(entityId) : null;
+    const report = await buildVatReturn(quarter, entity);
+
+    logger.info("VAT_RETURN", "VAT return report built", {
+      quarter,
+      entityId: entity?.id ?? null,
+      sales: report.sales.length,
+      flagged: report.flaggedCount,
+    });
+
+    if (request.nextUrl.searchParams.get("format") === "csv") {
+      return new NextResponse(toCsv(report), {
+        headers: {
+          "Content-Type": "text/csv",
+          "Content-Disposition": `attachment; filename="vat-return-${quarter}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("VAT_RETURN", "Error building VAT return report", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to build VAT return report" }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Club 19 Sales OS - FX Rate Table
+ *
+ * GET  /api/fx-rates?currency=USD&date=2026-10-19
+ *      The rate the wizard defaults to: latest on or before `date`
+ *      ({ rate: null } when the table has none). Any signed-in user.
+ * GET  /api/fx-rates[?currency=USD]
+ *      The table, newest first. Superadmin/finance only.
+ * POST /api/fx-rates
+ *      Add a rate { currency, rateDate, rate, source? }, replacing the same
+ *      currency and day. Superadmin/finance only.
+ *
+ * Rates are invoice-currency units per £1 (Xero's CurrencyRate convention).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { getFxRate, listFxRates, upsertFxRate } from "@/lib/fx-rates";
+import { CreateFxRateSchema } from "@/lib/schemas/fx-rate";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const currency = request.nextUrl.searchParams.get("currency") || undefined;
+    const date = request.nextUrl.searchParams.get("date");
+
+    if (currency && date) {
+      return NextResponse.json({ rate: await getFxRate(currency, date) });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ rates: await listFxRates(currency) });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("FX_RATES", "Error loading FX rates", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load FX rates" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const input = CreateFxRateSchema.parse(await request.json());
+    const rate = await upsertFxRate(input, userId);
+
+    logger.info("FX_RATES", "FX rate saved", {
+      currency: rate.currency,
+      rateDate: rate.rateDate,
+      rate: rate.rate,
+    });
+
+    return NextResponse.json({ rate });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid FX rate", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("FX_RATES", "Error saving FX rate", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to save FX rate" }, { status: 500 });
+  }
+}
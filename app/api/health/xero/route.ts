@@ -12,6 +12,7 @@
 import { NextResponse } from 'next/server';
 import { getValidTokens } from '@/lib/xero-auth';
 import * as logger from '@/lib/logger';
+import { xeroConnectionsUrl } from '@/lib/xero-endpoints';
 
 export const dynamic = 'force-dynamic';
 
@@ -56,7 +57,7 @@ export async function GET() {
     }
 
     // Actually test the connection with a simple API call
-    const response = await fetch('https://api.xero.com/connections', {
+    const response = await fetch(xeroConnectionsUrl(), {
       headers: {
         'Authorization': `Bearer ${tokens.accessToken}`,
         'Accept': 'application/json',
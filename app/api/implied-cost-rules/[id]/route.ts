@@ -0,0 +1,48 @@
+/**
+ * DELETE /api/implied-cost-rules/[id]
+ *
+ * Remove an implied cost rule. Once a rule type has no rows left, deals are
+ * costed with the built-in defaults for it. Sales already created keep the
+ * route they were costed on.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { deleteImpliedCostRule } from "@/lib/implied-cost-rules";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await deleteImpliedCostRule(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("IMPLIED_COSTS", "Error deleting implied cost rule", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to delete implied cost rule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Club 19 Sales OS - Implied Cost Rules
+ *
+ * GET  /api/implied-cost-rules
+ *      The rules new deals are costed with (shipping regions and routes,
+ *      card fee rates, Entrupy defaults). Any signed-in user — the wizard
+ *      reads them.
+ * GET  /api/implied-cost-rules?view=table
+ *      Also the rows of `implied_cost_rules`. Superadmin/finance only.
+ * POST /api/implied-cost-rules
+ *      Save a rule { ruleType, key, region | amount }, replacing the same
+ *      type and key. Superadmin/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import {
+  getImpliedCostRules,
+  listImpliedCostRules,
+  upsertImpliedCostRule,
+} from "@/lib/implied-cost-rules";
+import { ImpliedCostRuleSchema } from "@/lib/schemas/implied-cost-rule";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (request.nextUrl.searchParams.get("view") !== "table") {
+      return NextResponse.json({ rules: await getImpliedCostRules() });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [rules, entries] = await Promise.all([getImpliedCostRules(), listImpliedCostRules()]);
+    return NextResponse.json({ rules, entries });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("IMPLIED_COSTS", "Error loading implied cost rules", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load implied cost rules" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const input = ImpliedCostRuleSchema.parse(await request.json());
+    const rule = await upsertImpliedCostRule(input, userId);
+
+    logger.info("IMPLIED_COSTS", "Implied cost rule saved", {
+      ruleType: rule.ruleType,
+      key: rule.key,
+      region: rule.region,
+      amount: rule.amount,
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid implied cost rule", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("IMPLIED_COSTS", "Error saving implied cost rule", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to save implied cost rule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * POST /api/quotes/[id]/decline
+ * The client turned the quote down. Only open quotes can be declined; the
+ * Xero quote is marked DECLINED too.
+ *
+ * The quote's creator, or a manager (superadmin/founder/operations).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { declineQuote, QUOTE_MANAGER_ROLES } from "@/lib/quotes";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const role = await getUserRole();
+    const quote = await declineQuote(id, {
+      userId,
+      canManageAll: QUOTE_MANAGER_ROLES.includes(role),
+    });
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("QUOTES", "Error declining quote", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to decline quote" }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * GET /api/quotes/[id]/pdf
+ * The branded quote PDF, proxied from Xero with the integration user's
+ * tokens, to send to the client.
+ *
+ * The quote's creator, or a manager (superadmin/founder/operations).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { getQuotePdf, QUOTE_MANAGER_ROLES } from "@/lib/quotes";
+import { XeroApiError } from "@/lib/xero-client";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    const { pdf, filename } = await getQuotePdf(id, {
+      userId,
+      canManageAll: QUOTE_MANAGER_ROLES.includes(role),
+    });
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof XeroApiError) {
+      logger.error("QUOTES", "Xero quote PDF fetch failed", {
+        quoteId: id,
+        status: error.status,
+        error: error.details,
+      });
+      return NextResponse.json({ error: "Failed to retrieve PDF from Xero" }, { status: 502 });
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("QUOTES", "Error downloading quote PDF", {
+      quoteId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to download PDF" }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * GET /api/quotes
+ * The caller's quotes, newest first. Managers (superadmin/founder/operations)
+ * can pass ?scope=all for everyone's.
+ *
+ * POST /api/quotes
+ * Save a quote from the New Sale wizard: raises the Xero quote and keeps the
+ * invoice payload for when the client accepts.
+ *
+ * Any signed-in staff member.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { getUserRole } from "@/lib/getUserRole";
+import { getCurrentUser } from "@/lib/getCurrentUser";
+import { createQuote, listQuotes, QUOTE_MANAGER_ROLES } from "@/lib/quotes";
+import { deleteDealDraft } from "@/lib/deal-drafts";
+import { CreateQuoteSchema } from "@/lib/schemas/quote";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const scope = request.nextUrl.searchParams.get("scope");
+    if (scope === "all") {
+      const role = await getUserRole();
+      if (!QUOTE_MANAGER_ROLES.includes(role)) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      return NextResponse.json({ quotes: await listQuotes() });
+    }
+
+    return NextResponse.json({ quotes: await listQuotes(userId) });
+  } catch (error) {
+    logger.error("QUOTES", "Error listing quotes", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load quotes" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const input = CreateQuoteSchema.parse(await request.json());
+    const quote = await createQuote(input, user.userId, user.fullName);
+
+    // The deal lives on as the quote now
+    if (input.draftId) {
+      try {
+        await deleteDealDraft(input.draftId, { userId: user.userId, canManageAll: false });
+      } catch (draftErr) {
+        logger.warn("QUOTES", "Could not delete deal draft (non-fatal)", {
+          draftId: input.draftId,
+          error: draftErr instanceof Error ? draftErr.message : "unknown",
+        });
+      }
+    }
+
+    return NextResponse.json({ quote }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid quote", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("QUOTES", "Error creating quote", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to create quote" }, { status: 500 });
+  }
+}
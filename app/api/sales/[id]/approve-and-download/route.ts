@@ -22,15 +22,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { getValidTokens } from "@/lib/xero-auth";
+import { resolveEntity } from "@/lib/entities";
 import { getUserRole } from "@/lib/getUserRole";
 import { db } from "@/db";
 import { sales, shoppers } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import * as logger from "@/lib/logger";
+import { xeroApiBaseUrl } from "@/lib/xero-endpoints";
 
 export const dynamic = "force-dynamic";
 
-const XERO_API_BASE = "https://api.xero.com/api.xro/2.0/Invoices";
+const XERO_API_BASE = `${xeroApiBaseUrl()}/Invoices`;
 
 export async function POST(
   _request: NextRequest,
@@ -54,6 +56,7 @@ export async function POST(
         xeroInvoiceNumber: sales.xeroInvoiceNumber,
         invoiceStatus: sales.invoiceStatus,
         shopperId: sales.shopperId,
+        entityId: sales.entityId,
       })
       .from(sales)
       .where(eq(sales.id, id))
@@ -123,7 +126,8 @@ export async function POST(
       );
     }
 
-    const tokens = await getValidTokens(integrationUserId);
+    const entity = await resolveEntity(sale.entityId);
+    const tokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
     if (!tokens) {
       return NextResponse.json(
         { error: "Xero is not connected — please contact support" },
@@ -0,0 +1,51 @@
+/**
+ * Club 19 Sales OS - Create Similar Deal API
+ *
+ * POST /api/sales/[id]/clone
+ * Starts a New Sale wizard draft for the caller prefilled from this sale
+ * (client, items, suppliers, currency, costs, introducer). Returns the draft;
+ * the caller opens it at /trade/new?draft=<id>.
+ * Superadmin/founder/operations/shopper only (the roles with the wizard).
+ *
+ * Used by SaleDetailClient and the sales table
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { createDraftFromSale } from "@/lib/deal-drafts";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "shopper"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const draft = await createDraftFromSale(id, userId);
+
+    logger.info("DEAL_DRAFTS", "Draft created from sale", { saleId: id, draftId: draft.id });
+    return NextResponse.json({ draft }, { status: 201 });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("DEAL_DRAFTS", "Error creating draft from sale", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to create similar deal" }, { status: 500 });
+  }
+}
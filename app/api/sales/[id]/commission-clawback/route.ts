@@ -0,0 +1,61 @@
+/**
+ * Club 19 Sales OS - Commission Clawback API
+ *
+ * POST /api/sales/[id]/commission-clawback
+ * Body: { reason: string }
+ *
+ * Flags the sale's commission as clawed back. If the commission had already
+ * been paid, the amount is posted to the shopper's commission ledger and
+ * deducted from their next payment (see lib/commission-ledger.ts).
+ *
+ * Superadmin/founder/operations/admin/finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { recordCommissionClawback } from "@/lib/commission-ledger";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "admin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+    if (!reason) {
+      return NextResponse.json({ error: "A reason for the clawback is required" }, { status: 400 });
+    }
+
+    const result = await recordCommissionClawback(id, reason, userId);
+
+    return NextResponse.json({
+      success: true,
+      clawbackAmount: result.clawbackAmount,
+      ledgerEntryId: result.entry?.id ?? null,
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("COMMISSION_LEDGER", "Error processing clawback", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to process clawback" }, { status: 500 });
+  }
+}
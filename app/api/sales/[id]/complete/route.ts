@@ -8,7 +8,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { getUserRole } from "@/lib/getUserRole";
-import { calculateSaleEconomics } from "@/lib/economics";
+import { calculateIntroducerFee, calculateSaleEconomics } from "@/lib/economics";
+import { flagUnknownBrandingTheme, loadBrandingThemeRegistry } from "@/lib/branding-themes";
 import { normalizeIntroducerFeeType } from "@/lib/types/invoice";
 import { db } from "@/db";
 import { sales, shoppers, lineItems, errors } from "@/db/schema";
@@ -197,6 +198,7 @@ export async function POST(
       entrupyFee,
     });
 
+    await loadBrandingThemeRegistry();
     let economics = calculateSaleEconomics({
       sale_amount_inc_vat: saleAmountIncVat,
       buy_price: buyPrice,
@@ -239,10 +241,11 @@ export async function POST(
       });
       const netBeforeIntroducer = econNoIntroducer.commissionable_margin;
 
-      recalculatedIntroducerCommission =
-        netBeforeIntroducer > 0
-          ? Math.round(netBeforeIntroducer * (introducerFeePercent / 100) * 100) / 100
-          : 0;
+      recalculatedIntroducerCommission = calculateIntroducerFee({
+        feeType: "percent",
+        percent: introducerFeePercent,
+        netBeforeIntroducer,
+      });
 
       economics = calculateSaleEconomics({
         sale_amount_inc_vat: saleAmountIncVat,
@@ -290,6 +293,7 @@ export async function POST(
     if (!updatedSale) {
       return NextResponse.json({ error: "Failed to update sale" }, { status: 500 });
     }
+    await flagUnknownBrandingTheme(saleId, brandingTheme);
 
     // Update per-line-item suppliers if provided
     if (body.line_item_suppliers && Array.isArray(body.line_item_suppliers)) {
@@ -20,6 +20,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getUserRole } from '@/lib/getUserRole';
 import { calculateMargins, toNumber } from '@/lib/economics';
+import { loadBrandingThemeRegistry } from '@/lib/branding-themes';
 import * as logger from '@/lib/logger';
 
 // Drizzle imports
@@ -83,6 +84,7 @@ export async function POST(
     });
 
     // Calculate correct margins using SINGLE SOURCE OF TRUTH
+    await loadBrandingThemeRegistry();
     const marginResult = calculateMargins({
       saleAmountExVat: sale.saleAmountExVat,
       buyPrice: sale.buyPrice,
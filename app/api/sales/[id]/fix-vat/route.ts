@@ -20,6 +20,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getUserRole } from '@/lib/getUserRole';
 import { getBrandingThemeMapping } from '@/lib/branding-theme-mappings';
+import { loadBrandingThemeRegistry } from '@/lib/branding-themes';
 import { calculateVAT, validateSaleVAT } from '@/lib/calculations/vat';
 import * as logger from '@/lib/logger';
 
@@ -83,6 +84,7 @@ export async function POST(
     });
 
     // Get branding theme mapping
+    await loadBrandingThemeRegistry();
     const brandingThemeMapping = getBrandingThemeMapping(sale.brandingTheme || null);
 
     if (!brandingThemeMapping) {
@@ -49,6 +49,9 @@ export async function GET(
       sellPrice: item.sell_price,
       lineTotal: item.line_total,
       lineMargin: item.line_margin,
+      buyCurrency: item.buy_currency,
+      buyPriceOriginal: item.buy_price_original,
+      buyFxRate: item.buy_fx_rate,
       supplierId: item.supplier?.id,
       supplierName: item.supplier?.name,
     }));
@@ -19,6 +19,7 @@ import {
   toNumber,
 } from '@/lib/economics';
 import { roundCurrency, addCurrency } from '@/lib/utils/currency';
+import { flagUnknownBrandingTheme, loadBrandingThemeRegistry } from '@/lib/branding-themes';
 import * as logger from '@/lib/logger';
 
 export const dynamic = 'force-dynamic';
@@ -205,6 +206,7 @@ export async function POST(
     const totalIncVat = addCurrency(primaryOriginalAmount, allLinkedAmounts);
 
     // Recalculate ex-VAT using branding theme
+    await loadBrandingThemeRegistry();
     const vatRate = getVATRateForBrandingTheme(sale.brandingTheme);
     const totalExVat = calculateExVatWithRate(totalIncVat, vatRate);
 
@@ -241,6 +243,7 @@ export async function POST(
       .where(eq(sales.id, saleId))
       .returning();
     const updatedSale = updatedSaleResults[0] || null;
+    await flagUnknownBrandingTheme(saleId, sale.brandingTheme);
 
     // Soft-delete the linked import
     await db
@@ -0,0 +1,55 @@
+/**
+ * Club 19 Sales OS - Sale Payments API
+ *
+ * GET /api/sales/[id]/payments
+ * Every Xero payment recorded against a sale (oldest first): date, amount,
+ * bank account, reference and the instalment it settled. Deleted payments
+ * are included with status DELETED.
+ *
+ * Used by SaleDetailClient to show payments received
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { listSalePayments } from '@/lib/payments';
+import * as logger from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const payments = await listSalePayments(id);
+
+    return NextResponse.json({
+      success: true,
+      saleId: id,
+      payments: payments.map((payment) => ({
+        id: payment.id,
+        paymentDate: payment.paymentDate,
+        amount: payment.amount,
+        currency: payment.currency,
+        amountGbp: payment.amountGbp,
+        status: payment.status,
+        reference: payment.reference,
+        bankAccountCode: payment.bankAccountCode,
+        bankAccountName: payment.bankAccountName,
+        isReconciled: payment.isReconciled,
+        paymentScheduleId: payment.paymentScheduleId,
+      })),
+    });
+  } catch (error) {
+    logger.error('PAYMENTS', 'Error fetching sale payments', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json({ error: 'Failed to fetch payments' }, { status: 500 });
+  }
+}
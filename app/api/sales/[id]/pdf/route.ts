@@ -9,6 +9,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { getValidTokens } from "@/lib/xero-auth";
+import { resolveEntity } from "@/lib/entities";
+import { createXeroClient, XeroApiError } from "@/lib/xero-client";
 import { db } from "@/db";
 import { sales } from "@/db/schema";
 import { eq } from "drizzle-orm";
@@ -34,6 +36,7 @@ export async function GET(
         xeroInvoiceId: sales.xeroInvoiceId,
         xeroInvoiceNumber: sales.xeroInvoiceNumber,
         invoiceStatus: sales.invoiceStatus,
+        entityId: sales.entityId,
       })
       .from(sales)
       .where(eq(sales.id, id))
@@ -43,7 +46,7 @@ export async function GET(
       return NextResponse.json({ error: "Sale not found" }, { status: 404 });
     }
 
-    const { xeroInvoiceId, xeroInvoiceNumber, invoiceStatus } = sale[0];
+    const { xeroInvoiceId, xeroInvoiceNumber, invoiceStatus, entityId } = sale[0];
 
     if (!xeroInvoiceId) {
       return NextResponse.json(
@@ -73,7 +76,8 @@ export async function GET(
       );
     }
 
-    const tokens = await getValidTokens(integrationUserId);
+    const entity = await resolveEntity(entityId);
+    const tokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
     if (!tokens) {
       return NextResponse.json(
         { error: "Xero is not connected — please contact support" },
@@ -88,24 +92,19 @@ export async function GET(
     });
 
     // Fetch the PDF from Xero
-    const xeroResponse = await fetch(
-      `https://api.xero.com/api.xro/2.0/Invoices/${xeroInvoiceId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${tokens.accessToken}`,
-          "Xero-Tenant-Id": tokens.tenantId,
-          Accept: "application/pdf",
-        },
-      }
-    );
-
-    if (!xeroResponse.ok) {
-      const errorText = await xeroResponse.text();
+    let pdf: ArrayBuffer;
+    try {
+      pdf = await createXeroClient({ tokens }).getBinary(
+        `Invoices/${xeroInvoiceId}`,
+        "application/pdf"
+      );
+    } catch (xeroError) {
+      if (!(xeroError instanceof XeroApiError)) throw xeroError;
       logger.error("SALES_PDF", "Xero PDF fetch failed", {
         saleId: id,
         xeroInvoiceId,
-        status: xeroResponse.status,
-        error: errorText,
+        status: xeroError.status,
+        error: xeroError.details,
       });
       return NextResponse.json(
         { error: "Failed to retrieve PDF from Xero" },
@@ -122,8 +121,8 @@ export async function GET(
       filename,
     });
 
-    // Stream the PDF back
-    return new NextResponse(xeroResponse.body, {
+    // Send the PDF back
+    return new NextResponse(pdf, {
       status: 200,
       headers: {
         "Content-Type": "application/pdf",
@@ -10,6 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getUserRole } from '@/lib/getUserRole';
 import { calculateMargins } from '@/lib/economics';
+import { loadBrandingThemeRegistry } from '@/lib/branding-themes';
 import { roundCurrency } from '@/lib/utils/currency';
 import * as logger from '@/lib/logger';
 
@@ -113,6 +114,7 @@ export async function PATCH(
       'shipping_cost': 'shippingCost',
       'shipping_cost_confirmed': 'shippingCostConfirmed',
       'commissionable_margin': 'commissionableMargin',
+      'margin_scheme_eligible': 'marginSchemeEligible',
     };
 
     for (const [apiField, schemaField] of Object.entries(fieldMappings)) {
@@ -148,6 +150,7 @@ export async function PATCH(
         const directCosts = currentSale.directCosts || 0;
         const introducerCommission = currentSale.introducerCommission || 0;
 
+        await loadBrandingThemeRegistry();
         const marginResult = calculateMargins({
           saleAmountExVat,
           buyPrice: newBuyPrice,
@@ -0,0 +1,81 @@
+/**
+ * Club 19 Sales OS - Sale Supplier Bills API
+ *
+ * GET /api/sales/[id]/supplier-bills
+ * The Xero bills raised for a sale's purchases, with each bill's status,
+ * amount paid and variance against the recorded buy prices.
+ *
+ * POST /api/sales/[id]/supplier-bills
+ * Raises a draft bill in Xero for each supplier on the sale that doesn't
+ * have one yet (see lib/supplier-bills.ts). Returns the bills raised and the
+ * suppliers skipped, with why.
+ * Superadmin/founder/operations/admin/finance only.
+ *
+ * Used by SaleDetailClient's Supplier Bills section
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { listSaleSupplierBills, raiseSupplierBills } from "@/lib/supplier-bills";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const bills = await listSaleSupplierBills(id);
+
+    return NextResponse.json({ success: true, saleId: id, bills });
+  } catch (error) {
+    logger.error("SUPPLIER_BILLS", "Error fetching supplier bills", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to fetch supplier bills" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "founder", "operations", "admin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const result = await raiseSupplierBills(id, userId);
+
+    return NextResponse.json({
+      success: true,
+      raised: result.raised.length,
+      skipped: result.skipped,
+      bills: await listSaleSupplierBills(id),
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("SUPPLIER_BILLS", "Error raising supplier bills", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to raise supplier bills" }, { status: 500 });
+  }
+}
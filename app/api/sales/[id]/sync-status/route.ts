@@ -14,11 +14,14 @@ import { db } from "@/db";
 import { sales } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getValidTokens } from '@/lib/xero-auth';
+import { resolveEntity } from '@/lib/entities';
 import * as logger from '@/lib/logger';
 import {
   mapXeroInvoiceToSaleFields,
+  mappedFxColumns,
   xeroAmountsChanged,
 } from '@/lib/xero-invoice-mapping';
+import { xeroApiBaseUrl } from '@/lib/xero-endpoints';
 
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
 
@@ -31,6 +34,9 @@ interface XeroInvoice {
   FullyPaidOnDate?: string;
   AmountDue: number;
   AmountPaid: number;
+  CurrencyCode?: string;
+  CurrencyRate?: number;
+  Payments?: { Amount: number; CurrencyRate?: number }[];
 }
 
 interface XeroInvoicesResponse {
@@ -110,7 +116,8 @@ export async function POST(
 
     let tokens;
     try {
-      tokens = await getValidTokens(integrationUserId);
+      const entity = await resolveEntity(sale.entityId);
+      tokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
     } catch (tokenError: any) {
       logger.error('SYNC_STATUS', 'Failed to get Xero tokens', {
         message: tokenError.message,
@@ -125,7 +132,7 @@ export async function POST(
 
     // 4. Fetch invoice from Xero
     const xeroResponse = await fetch(
-      `https://api.xero.com/api.xro/2.0/Invoices/${sale.xeroInvoiceId}`,
+      `${xeroApiBaseUrl()}/Invoices/${sale.xeroInvoiceId}`,
       {
         headers: {
           'Authorization': `Bearer ${tokens.accessToken}`,
@@ -180,6 +187,7 @@ export async function POST(
       updates.xeroAmountPaid = mapped.xeroAmountPaid;
       updates.xeroAmountDue = mapped.xeroAmountDue;
       updates.xeroAmountCredited = mapped.xeroAmountCredited;
+      Object.assign(updates, mappedFxColumns(mapped));
       changes.push(
         `amounts: paid=${mapped.xeroAmountPaid} due=${mapped.xeroAmountDue} credited=${mapped.xeroAmountCredited}`
       );
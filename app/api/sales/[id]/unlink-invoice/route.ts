@@ -19,6 +19,7 @@ import {
   toNumber,
 } from '@/lib/economics';
 import { roundCurrency, addCurrency } from '@/lib/utils/currency';
+import { flagUnknownBrandingTheme, loadBrandingThemeRegistry } from '@/lib/branding-themes';
 import * as logger from '@/lib/logger';
 
 export const dynamic = 'force-dynamic';
@@ -146,6 +147,7 @@ export async function DELETE(
 
     // Recalculate ex-VAT using branding theme
     // ORIGINAL XATA: const vatRate = getVATRateForBrandingTheme(sale.branding_theme);
+    await loadBrandingThemeRegistry();
     const vatRate = getVATRateForBrandingTheme(sale.brandingTheme);
     const newTotalExVat = calculateExVatWithRate(newTotalIncVat, vatRate);
 
@@ -195,6 +197,7 @@ export async function DELETE(
       .where(eq(sales.id, saleId))
       .returning();
     const updatedSale = updatedSaleResults[0] || null;
+    await flagUnknownBrandingTheme(saleId, sale.brandingTheme);
 
     // Restore the original import record if found
     if (originalImport) {
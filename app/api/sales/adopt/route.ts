@@ -4,6 +4,7 @@
  * POST /api/sales/adopt
  * Creates a Sale record from an existing Xero invoice
  * Used to convert unallocated invoices into proper Sales records
+ * Stores a provisional V2 commission for the new sale (lib/sale-commission.ts)
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -13,11 +14,15 @@ import { sales, buyers } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
 // ORIGINAL XATA: import { getXataClient } from "@/src/xata";
 import { getValidTokens } from "@/lib/xero-auth";
+import { resolveEntity } from "@/lib/entities";
 import { getUserRole } from "@/lib/getUserRole";
 import { calculateMargins } from "@/lib/economics";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
 import { roundCurrency } from "@/lib/utils/currency";
-import { mapXeroInvoiceToSaleFields } from "@/lib/xero-invoice-mapping";
+import { mapXeroInvoiceToSaleFields, newSaleFxColumns } from "@/lib/xero-invoice-mapping";
+import { storeProvisionalCommission } from "@/lib/sale-commission";
 import * as logger from "@/lib/logger";
+import { xeroApiBaseUrl } from "@/lib/xero-endpoints";
 
 export const dynamic = "force-dynamic";
 
@@ -106,6 +111,7 @@ export async function POST(request: NextRequest) {
         deletedAt: sales.deletedAt,
         needsAllocation: sales.needsAllocation,
         source: sales.source,
+        entityId: sales.entityId,
       })
       .from(sales)
       .where(eq(sales.xeroInvoiceId, xeroInvoiceId))
@@ -148,7 +154,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const tokens = await getValidTokens(integrationUserId);
+    // An unallocated import already knows which organisation it came from
+    const entity = await resolveEntity(existingSaleRaw?.entityId);
+    const tokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
     if (!tokens) {
       return NextResponse.json(
         { error: "Xero not connected" },
@@ -158,7 +166,7 @@ export async function POST(request: NextRequest) {
 
     // Fetch full invoice from Xero
     const xeroResponse = await fetch(
-      `https://api.xero.com/api.xro/2.0/Invoices/${xeroInvoiceId}`,
+      `${xeroApiBaseUrl()}/Invoices/${xeroInvoiceId}`,
       {
         headers: {
           Authorization: `Bearer ${tokens.accessToken}`,
@@ -237,10 +245,11 @@ export async function POST(request: NextRequest) {
     // possible for adoption of historical invoices).
     const mapped = mapXeroInvoiceToSaleFields(invoice);
     const saleAmountIncVat = mapped.saleAmountIncVat;
-    const saleAmountExVat = roundCurrency(invoice.SubTotal);
+    const saleAmountExVat = roundCurrency(mapped.saleAmountExVat);
     const roundedBuyPrice = roundCurrency(buyPrice);
 
     // Calculate margins
+    await loadBrandingThemeRegistry();
     const marginResult = calculateMargins({
       saleAmountExVat: saleAmountExVat,
       buyPrice: roundedBuyPrice,
@@ -310,6 +319,7 @@ export async function POST(request: NextRequest) {
         saleDate,
         status: "active",
         source: "adopted", // Mark as adopted from Xero
+        entityId: entity.id,
 
         // Relationships
         buyerId,
@@ -329,7 +339,7 @@ export async function POST(request: NextRequest) {
         xeroAmountPaid: mapped.xeroAmountPaid,
         xeroAmountDue: mapped.xeroAmountDue,
         xeroAmountCredited: mapped.xeroAmountCredited,
-        currency: invoice.CurrencyCode || "GBP",
+        ...newSaleFxColumns(mapped),
 
         // Margins
         grossMargin: marginResult.grossMargin,
@@ -373,6 +383,16 @@ export async function POST(request: NextRequest) {
       await db.delete(sales).where(eq(sales.id, existingUnallocatedId));
     }
 
+    // Provisional V2 commission — non-fatal, the sale is already adopted
+    try {
+      await storeProvisionalCommission(saleRecord.id);
+    } catch (commissionErr: any) {
+      logger.error("ADOPT", "Failed to store provisional commission", {
+        saleId: saleRecord.id,
+        error: commissionErr.message,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       saleId: saleRecord.id,
@@ -2,7 +2,8 @@
  * Club 19 Sales OS - Allocate Invoice API
  *
  * POST endpoint to allocate an unassigned invoice to a shopper
- * Automatically calculates commission based on shopper's scheme
+ * Stores a provisional V2 commission from the shopper's commission scheme
+ * (lib/sale-commission.ts)
  *
  * Auth: Superadmin, Operations, or Founder only
  */
@@ -14,6 +15,7 @@ import { db } from "@/db";
 import { sales, shoppers } from "@/db/schema";
 import { eq } from "drizzle-orm";
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
+import { storeProvisionalCommission } from '@/lib/sale-commission';
 import * as logger from '@/lib/logger';
 
 export const dynamic = 'force-dynamic';
@@ -127,38 +129,7 @@ export async function POST(request: NextRequest) {
     // ORIGINAL XATA: logger.info('ALLOCATE', 'Found shopper', { shopperName: shopper.name, scheme: shopper.commission_scheme });
     logger.info('ALLOCATE', 'Found shopper', { shopperName: shopper.name, scheme: shopper.commissionScheme });
 
-    // 5. Calculate commission based on shopper's scheme and gross margin
-    let commissionAmount = 0;
-    // ORIGINAL XATA: const grossMargin = sale.gross_margin || 0;
-    const grossMargin = sale.grossMargin || 0;
-    // ORIGINAL XATA: const scheme = shopper.commission_scheme || 'standard';
-    const scheme = shopper.commissionScheme || 'standard'; // Default to 'standard' if null
-
-    logger.info('ALLOCATE', 'Calculating commission', { grossMargin, scheme });
-
-    // Commission scheme logic (matching existing system)
-    switch (scheme.toLowerCase()) {
-      case 'founder':
-        // Founder gets 50% of gross margin
-        commissionAmount = grossMargin * 0.5;
-        logger.info('ALLOCATE', 'Commission calculated', { scheme: 'founder', rate: '50%', amount: commissionAmount });
-        break;
-
-      case 'senior':
-        // Senior gets 40% of gross margin
-        commissionAmount = grossMargin * 0.4;
-        logger.info('ALLOCATE', 'Commission calculated', { scheme: 'senior', rate: '40%', amount: commissionAmount });
-        break;
-
-      case 'standard':
-      default:
-        // Standard gets 30% of gross margin
-        commissionAmount = grossMargin * 0.3;
-        logger.info('ALLOCATE', 'Commission calculated', { scheme: 'standard', rate: '30%', amount: commissionAmount });
-        break;
-    }
-
-    // 6. Update sale record
+    // 5. Update sale record
     // ORIGINAL XATA:
     // const updatedSale = await xata.db.Sales.update(saleId, {
     //   shopper: shopperId,
@@ -166,12 +137,14 @@ export async function POST(request: NextRequest) {
     //   commission_amount: commissionAmount,
     //   source: 'allocated',
     // });
+    // Commission used to be a flat % of gross margin by scheme name
+    // (founder 50% / senior 40% / standard 30%); it is now the provisional
+    // V2 figure, written in step 6 once the sale belongs to the shopper.
     const updatedSaleResults = await db
       .update(sales)
       .set({
         shopperId,
         needsAllocation: false,
-        commissionAmount,
         source: 'allocated',
         // Track who allocated and when
         allocatedBy: userId,
@@ -186,6 +159,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update sale' }, { status: 500 });
     }
 
+    // 6. Provisional V2 commission for the shopper's month — non-fatal, the
+    // allocation is already saved
+    let commissionAmount: number | null = null;
+    try {
+      commissionAmount = await storeProvisionalCommission(saleId);
+    } catch (err) {
+      logger.error('ALLOCATE', 'Failed to store provisional commission', { saleId, error: err as any });
+    }
+    const grossMargin = sale.grossMargin || 0;
+
     const duration = Date.now() - startTime;
     logger.info('ALLOCATE', 'Allocation completed', {
       duration: `${duration}ms`,
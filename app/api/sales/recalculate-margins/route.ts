@@ -15,6 +15,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { calculateMargins, toNumber } from "@/lib/economics";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
 import { getUserRole } from "@/lib/getUserRole";
 import * as logger from "@/lib/logger";
 
@@ -163,6 +164,7 @@ export async function POST(request: NextRequest) {
       errorDetails: [] as Array<{ id: string; error: string }>,
     };
 
+    await loadBrandingThemeRegistry();
     for (const sale of salesData) {
       if (!sale) continue;
 
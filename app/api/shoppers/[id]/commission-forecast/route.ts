@@ -0,0 +1,128 @@
+/**
+ * Club 19 Sales OS - Commission Forecast API
+ *
+ * GET  /api/shoppers/[id]/commission-forecast
+ *   The shopper's current month: cumulative commissionable profit, band,
+ *   next band boundary and the profit still needed to reach it.
+ *
+ * POST /api/shoppers/[id]/commission-forecast
+ *   Body: { sellPrice, buyPrice, costs?, brandingTheme?, isNewClient? }
+ *   As GET, plus the projected commission with the hypothetical deal added
+ *   (see lib/commission-forecast.ts).
+ *
+ * Shoppers may only forecast their own month; superadmin/founder/operations/
+ * finance may forecast anyone's.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { db } from "@/db";
+import { shoppers } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getUserRole } from "@/lib/getUserRole";
+import { getCommissionForecast } from "@/lib/commission-forecast";
+import { HypotheticalDealSchema } from "@/lib/schemas/commission-forecast";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Returns an error response if the signed-in user may not see this shopper's
+ * forecast, or null if they may.
+ */
+async function checkAccess(shopperId: string): Promise<NextResponse | null> {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const role = await getUserRole();
+  if (["superadmin", "founder", "operations", "finance"].includes(role)) {
+    return null;
+  }
+  if (role !== "shopper") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // Find the shopper record - prefer clerk_user_id (more reliable), fall back to name
+  let shopperRecord = await db.query.shoppers.findFirst({
+    where: eq(shoppers.clerkUserId, userId),
+  });
+  if (!shopperRecord) {
+    const client = await clerkClient();
+    const user = await client.users.getUser(userId);
+    if (user?.fullName) {
+      shopperRecord = await db.query.shoppers.findFirst({
+        where: eq(shoppers.name, user.fullName),
+      });
+    }
+  }
+
+  if (!shopperRecord || shopperRecord.id !== shopperId) {
+    return NextResponse.json(
+      { error: "You can only forecast your own commission" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const denied = await checkAccess(id);
+    if (denied) return denied;
+
+    const forecast = await getCommissionForecast(id);
+    if (!forecast) {
+      return NextResponse.json(
+        { error: "No commission scheme is configured for this shopper" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    logger.error("COMMISSION_FORECAST", "Error loading forecast", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load commission forecast" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const denied = await checkAccess(id);
+    if (denied) return denied;
+
+    const deal = HypotheticalDealSchema.parse(await request.json());
+    const forecast = await getCommissionForecast(id, deal);
+    if (!forecast) {
+      return NextResponse.json(
+        { error: "No commission scheme is configured for this shopper" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid deal", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    logger.error("COMMISSION_FORECAST", "Error forecasting deal", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to forecast commission" }, { status: 500 });
+  }
+}
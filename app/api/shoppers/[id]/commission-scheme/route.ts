@@ -0,0 +1,93 @@
+/**
+ * PATCH /api/shoppers/[id]/commission-scheme
+ *
+ * Link a shopper to a commission scheme key (or unlink with null).
+ * Body: { commission_scheme: string | null }
+ *
+ * The key must match at least one `commission_schemes` version so a typo
+ * can't silently drop a shopper out of the commission run.
+ *
+ * Superadmin/Finance only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { shoppers, commissionSchemes } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getUserRole } from "@/lib/getUserRole";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "finance"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const schemeKey: unknown = body.commission_scheme;
+
+    if (schemeKey !== null && (typeof schemeKey !== "string" || schemeKey.trim() === "")) {
+      return NextResponse.json(
+        { error: "commission_scheme must be a scheme key or null" },
+        { status: 400 }
+      );
+    }
+
+    if (schemeKey !== null) {
+      const [scheme] = await db
+        .select({ id: commissionSchemes.id })
+        .from(commissionSchemes)
+        .where(eq(commissionSchemes.schemeKey, schemeKey))
+        .limit(1);
+      if (!scheme) {
+        return NextResponse.json(
+          { error: `Unknown commission scheme "${schemeKey}"` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const [updated] = await db
+      .update(shoppers)
+      .set({ commissionScheme: schemeKey, updatedAt: new Date() })
+      .where(eq(shoppers.id, id))
+      .returning({
+        id: shoppers.id,
+        name: shoppers.name,
+        commissionScheme: shoppers.commissionScheme,
+      });
+
+    if (!updated) {
+      return NextResponse.json({ error: "Shopper not found" }, { status: 404 });
+    }
+
+    logger.info("COMMISSION_SCHEMES", "Shopper scheme updated", {
+      shopperId: id,
+      commissionScheme: schemeKey,
+      userId,
+    });
+
+    return NextResponse.json({ shopper: updated });
+  } catch (error) {
+    logger.error("COMMISSION_SCHEMES", "Error updating shopper scheme", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json(
+      { error: "Failed to update shopper scheme" },
+      { status: 500 }
+    );
+  }
+}
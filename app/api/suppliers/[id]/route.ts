@@ -0,0 +1,105 @@
+/**
+ * PATCH /api/suppliers/[id]
+ *
+ * Corrects a supplier's contact details (name, email, phone, taxNumber).
+ * For a supplier linked to a Xero contact they are saved to the contacts
+ * mirror and pushed to Xero; if Xero rejects them they stay queued
+ * (pushedToXero: false) and the sync-contacts cron retries.
+ *
+ * Only superadmin/admin/operations/finance can edit suppliers.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ZodError } from "zod";
+import { db } from "@/db";
+import { suppliers } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getUserRole } from "@/lib/getUserRole";
+import { isAppError } from "@/lib/errors";
+import { ContactChangesSchema } from "@/lib/schemas/contact";
+import { updateContactDetails } from "@/lib/xero-contacts";
+import { resolveContactEntity } from "@/lib/entities";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "admin", "operations", "finance"].includes(role)) {
+      return NextResponse.json(
+        { error: "You do not have permission to edit suppliers" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const changes = ContactChangesSchema.parse(await request.json());
+
+    const [supplier] = await db
+      .select({ id: suppliers.id, xeroContactId: suppliers.xeroContactId })
+      .from(suppliers)
+      .where(eq(suppliers.id, id))
+      .limit(1);
+    if (!supplier) {
+      return NextResponse.json({ error: "Supplier not found" }, { status: 404 });
+    }
+
+    if (!supplier.xeroContactId) {
+      if (changes.phone !== undefined || changes.taxNumber !== undefined) {
+        return NextResponse.json(
+          { error: "Phone and tax number can only be set on suppliers linked to a Xero contact" },
+          { status: 400 }
+        );
+      }
+      const [updated] = await db
+        .update(suppliers)
+        .set({
+          ...(changes.name !== undefined ? { name: changes.name } : {}),
+          ...(changes.email !== undefined ? { email: changes.email } : {}),
+        })
+        .where(eq(suppliers.id, id))
+        .returning();
+      return NextResponse.json({ success: true, supplier: updated });
+    }
+
+    const entity = await resolveContactEntity({ supplierId: id });
+    const { contact, pushed } = await updateContactDetails(
+      supplier.xeroContactId,
+      changes,
+      entity.xeroTenantId
+    );
+
+    logger.info("SUPPLIERS", "Supplier contact details updated", {
+      supplierId: id,
+      xeroContactId: supplier.xeroContactId,
+      fields: Object.keys(changes),
+      pushedToXero: pushed,
+    });
+
+    return NextResponse.json({ success: true, contact, pushedToXero: pushed });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Invalid contact details", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("SUPPLIERS", "Error updating supplier", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to update supplier" }, { status: 500 });
+  }
+}
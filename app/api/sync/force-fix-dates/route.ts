@@ -16,6 +16,7 @@ import { sales } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getValidTokens } from '@/lib/xero-auth';
 import * as logger from '@/lib/logger';
+import { xeroApiBaseUrl } from '@/lib/xero-endpoints';
 
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
 
@@ -120,7 +121,7 @@ export async function POST(request: Request) {
     let hasMorePages = true;
 
     while (hasMorePages) {
-      const xeroUrl = `https://api.xero.com/api.xro/2.0/Invoices?page=${page}`;
+      const xeroUrl = `${xeroApiBaseUrl()}/Invoices?page=${page}`;
 
       logger.info('FORCE_FIX_DATES', 'Fetching page', { page });
 
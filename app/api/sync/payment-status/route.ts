@@ -17,8 +17,10 @@ import { getValidTokens } from '@/lib/xero-auth';
 import * as logger from '@/lib/logger';
 import {
   mapXeroInvoiceToSaleFields,
+  mappedFxColumns,
   xeroAmountsChanged,
 } from '@/lib/xero-invoice-mapping';
+import { xeroApiBaseUrl } from '@/lib/xero-endpoints';
 
 // ORIGINAL XATA: import { getXataClient } from '@/src/xata';
 
@@ -31,6 +33,9 @@ interface XeroInvoice {
   AmountDue: number;
   AmountPaid: number;
   UpdatedDateUTC: string;
+  CurrencyCode?: string;
+  CurrencyRate?: number;
+  Payments?: { Amount: number; CurrencyRate?: number }[];
 }
 
 interface XeroInvoicesResponse {
@@ -135,7 +140,7 @@ export async function POST() {
           invoiceId: sale.xeroInvoiceId
         });
 
-        const xeroUrl = `https://api.xero.com/api.xro/2.0/Invoices/${sale.xeroInvoiceId}`;
+        const xeroUrl = `${xeroApiBaseUrl()}/Invoices/${sale.xeroInvoiceId}`;
 
         const xeroResponse = await fetch(xeroUrl, {
           headers: {
@@ -201,6 +206,7 @@ export async function POST() {
               xeroAmountPaid: mapped.xeroAmountPaid,
               xeroAmountDue: mapped.xeroAmountDue,
               xeroAmountCredited: mapped.xeroAmountCredited,
+              ...mappedFxColumns(mapped),
             })
             .where(eq(sales.id, sale.id));
 
@@ -2,7 +2,12 @@
  * Club 19 Sales OS - Xero Invoice Sync API
  *
  * POST endpoint to sync invoices from Xero
- * Fetches invoices updated in last 7 days and creates/updates Sales records
+ * Fetches invoices modified since the `invoices` watermark in sync_state
+ * (If-Modified-Since) and creates/updates Sales records. With no watermark
+ * yet it falls back to invoices dated in the last 60 days.
+ *
+ * POST ?full=true is the full resync: every invoice in Xero, ignoring the
+ * watermark.
  *
  * Auth: Superadmin, Operations, or Founder only
  *
@@ -12,7 +17,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getUserRole } from '@/lib/getUserRole';
-import { getValidTokens } from '@/lib/xero-auth';
+import { withXeroClient, XeroApiError } from '@/lib/xero-client';
 import * as logger from '@/lib/logger';
 
 // Drizzle imports
@@ -23,11 +28,21 @@ import {
   calculateMargins,
   toNumber,
 } from '@/lib/economics';
+import { loadBrandingThemeRegistry } from '@/lib/branding-themes';
 import {
   mapXeroInvoiceToSaleFields,
+  mappedFxColumns,
+  newSaleFxColumns,
   xeroAmountsChanged,
 } from '@/lib/xero-invoice-mapping';
 import { roundCurrency } from '@/lib/utils/currency';
+import { toBaseCurrency } from '@/lib/calculations/fx';
+import {
+  getSyncWatermark,
+  nextSyncWatermark,
+  recordSyncFailure,
+  recordSyncRun,
+} from '@/lib/sync-state';
 
 // ORIGINAL XATA:
 // import { getXataClient } from '@/src/xata';
@@ -122,6 +137,9 @@ interface XeroInvoice {
   AmountPaid: number;
   AmountCredited: number;
   UpdatedDateUTC: string;
+  CurrencyCode?: string;
+  CurrencyRate?: number;
+  Payments?: Array<{ Amount: number; CurrencyRate?: number }>;
   Contact?: {
     ContactID: string;
     Name: string;
@@ -135,10 +153,6 @@ interface XeroInvoice {
   }>;
 }
 
-interface XeroInvoicesResponse {
-  Invoices: XeroInvoice[];
-}
-
 export async function POST(request: Request) {
   const startTime = Date.now();
 
@@ -168,7 +182,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Forbidden - requires superadmin, operations, or founder role' }, { status: 403 });
     }
 
-    // 2. Get integration user's Xero tokens
+    // 2. Xero calls run as the integration user
     const integrationUserId = process.env.XERO_INTEGRATION_CLERK_USER_ID;
     if (!integrationUserId) {
       logger.error('XERO_SYNC', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
@@ -179,28 +193,15 @@ export async function POST(request: Request) {
 
     logger.info('XERO_SYNC', 'Using integration user', { integrationUserId });
 
-    // 2a. Get Xero tokens (with detailed error handling)
-    logger.info('XERO_SYNC', 'Attempting to get Xero tokens...');
-    let tokens;
-    try {
-      tokens = await getValidTokens(integrationUserId);
-      logger.info('XERO_SYNC', 'Successfully got valid Xero tokens');
-    } catch (tokenError) {
-      logger.error('XERO_SYNC', 'Failed to get Xero tokens', {
-        message: tokenError instanceof Error ? tokenError.message : String(tokenError),
-        stack: tokenError instanceof Error ? tokenError.stack : undefined,
-        name: tokenError instanceof Error ? tokenError.name : undefined,
-      });
-      throw tokenError; // Re-throw to be caught by outer try-catch
-    }
-
     // 3. Fetch all invoices from Xero with pagination
     // Include ALL statuses (DRAFT, SUBMITTED, AUTHORISED, PAID, etc.)
-    // Conditional date filter based on fullSync parameter
+    // Incremental from the watermark; full sync and the very first run don't
+    // have one
     let dateFilter = '';
     let fromDate = null;
+    const watermark = fullSync ? null : await getSyncWatermark('invoices');
 
-    if (!fullSync) {
+    if (!fullSync && !watermark) {
       // Only fetch invoices from last 60 days (default)
       const sixtyDaysAgo = new Date();
       sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
@@ -210,70 +211,35 @@ export async function POST(request: Request) {
 
     logger.info('XERO_SYNC', 'Fetching invoices with pagination', {
       fullSync,
-      dateFilter: dateFilter || 'NONE (fetching all invoices)',
-      from: fromDate || 'ALL TIME'
+      modifiedSince: watermark?.toISOString() || 'NONE',
+      dateFilter: dateFilter || 'NONE',
+      from: fromDate || (watermark ? 'WATERMARK' : 'ALL TIME')
     });
 
-    const allInvoices: XeroInvoice[] = [];
-    let page = 1;
-    let hasMorePages = true;
-
-    while (hasMorePages) {
-      // Build URL with conditional date filter
-      const xeroUrl = dateFilter
-        ? `https://api.xero.com/api.xro/2.0/Invoices?where=${encodeURIComponent(dateFilter)}&page=${page}`
-        : `https://api.xero.com/api.xro/2.0/Invoices?page=${page}`;
-
-      logger.info('XERO_SYNC', 'Fetching page from Xero API', { page, url: xeroUrl });
-
-      let xeroResponse;
-      try {
-        xeroResponse = await fetch(xeroUrl, {
-          headers: {
-            'Authorization': `Bearer ${tokens.accessToken}`,
-            'Xero-Tenant-Id': tokens.tenantId,
-            'Accept': 'application/json',
+    // The client pages, honours Xero's rate limits and retries 429/5xx
+    let invoices: XeroInvoice[];
+    try {
+      invoices = await withXeroClient(integrationUserId, (client) =>
+        client.getAllPages<XeroInvoice>(
+          'Invoices',
+          'Invoices',
+          {
+            query: { where: dateFilter || undefined },
+            headers: watermark ? { 'If-Modified-Since': watermark.toUTCString() } : undefined,
           },
-        });
-        logger.info('XERO_SYNC', 'Xero API response received', {
-          page,
-          status: xeroResponse.status,
-          ok: xeroResponse.ok
-        });
-      } catch (fetchError) {
-        logger.error('XERO_SYNC', 'Xero API fetch failed', {
-          page,
-          message: fetchError instanceof Error ? fetchError.message : String(fetchError),
-          stack: fetchError instanceof Error ? fetchError.stack : undefined,
-          name: fetchError instanceof Error ? fetchError.name : undefined,
-        });
-        throw fetchError;
-      }
-
-      if (!xeroResponse.ok) {
-        const errorText = await xeroResponse.text();
-        logger.error('XERO_SYNC', 'Xero API error', { status: xeroResponse.status, details: errorText });
-        return NextResponse.json({
-          error: 'Xero API error',
-          details: errorText
-        }, { status: 500 });
-      }
-
-      const xeroData: XeroInvoicesResponse = await xeroResponse.json();
-      const invoices = xeroData.Invoices || [];
-
-      logger.info('XERO_SYNC', 'Page fetched', { page, count: invoices.length });
-
-      if (invoices.length === 0) {
-        hasMorePages = false;
-      } else {
-        allInvoices.push(...invoices);
-        page++;
-      }
+          fullSync ? 1000 : undefined
+        )
+      );
+    } catch (xeroError) {
+      if (!(xeroError instanceof XeroApiError)) throw xeroError;
+      await recordSyncFailure('invoices', xeroError.message);
+      return NextResponse.json({
+        error: 'Xero API error',
+        details: xeroError.details
+      }, { status: 500 });
     }
 
-    const invoices = allInvoices;
-    logger.info('XERO_SYNC', 'All invoices fetched', { total: invoices.length, pages: page - 1 });
+    logger.info('XERO_SYNC', 'All invoices fetched', { total: invoices.length });
 
     // 4. Process each invoice
     // ORIGINAL XATA: const xata = getXataClient();
@@ -281,7 +247,9 @@ export async function POST(request: Request) {
     let updatedCount = 0;
     let skippedCount = 0;
     const errors: Array<{ invoiceNumber: string; error: string }> = [];
+    const failedUpdatedDates: (Date | null)[] = [];
 
+    await loadBrandingThemeRegistry();
     for (const invoice of invoices) {
       try {
         // Only process ACCREC (sales) invoices, not ACCPAY (bills)
@@ -371,13 +339,14 @@ export async function POST(request: Request) {
             }
             if (amountsChanged) {
               const newIncVat = mapped.saleAmountIncVat;
-              const newExVat = roundCurrency(invoice.SubTotal || (newIncVat / 1.2));
+              const newExVat = roundCurrency(mapped.saleAmountExVat || (newIncVat / 1.2));
 
               updates.saleAmountIncVat = newIncVat;
               updates.saleAmountExVat = newExVat;
               updates.xeroAmountPaid = mapped.xeroAmountPaid;
               updates.xeroAmountDue = mapped.xeroAmountDue;
               updates.xeroAmountCredited = mapped.xeroAmountCredited;
+              Object.assign(updates, mappedFxColumns(mapped));
               // Status logic depends on amounts (CREDITED is amount-derived),
               // so always refresh status when amounts change.
               updates.invoiceStatus = mapped.invoiceStatus;
@@ -524,11 +493,11 @@ export async function POST(request: Request) {
               invoiceStatus: insertMapped.invoiceStatus,
               saleDate: saleDate, // Use invoice date from Xero (validated above)
               saleAmountIncVat: insertMapped.saleAmountIncVat,
-              saleAmountExVat: invoice.SubTotal || (insertMapped.saleAmountIncVat / 1.2), // Use SubTotal or assume 20% VAT
+              saleAmountExVat: insertMapped.saleAmountExVat || (insertMapped.saleAmountIncVat / 1.2), // Use SubTotal or assume 20% VAT
               xeroAmountPaid: insertMapped.xeroAmountPaid,
               xeroAmountDue: insertMapped.xeroAmountDue,
               xeroAmountCredited: insertMapped.xeroAmountCredited,
-              currency: 'GBP',
+              ...newSaleFxColumns(insertMapped),
               source: 'xero_import', // Xero sync origin
               needsAllocation: true, // Requires shopper assignment
               buyerId: buyer ? buyer.id : null,
@@ -552,8 +521,8 @@ export async function POST(request: Request) {
                 lineNumber: i + 1,
                 description: li.Description || 'Imported from Xero',
                 quantity: li.Quantity || 1,
-                sellPrice: li.UnitAmount || 0,
-                lineTotal: li.LineAmount || 0,
+                sellPrice: toBaseCurrency(li.UnitAmount || 0, insertMapped.fxRate),
+                lineTotal: toBaseCurrency(li.LineAmount || 0, insertMapped.fxRate),
                 brand: 'Unknown',
                 category: 'Unknown',
                 buyPrice: 0,
@@ -580,9 +549,21 @@ export async function POST(request: Request) {
           invoiceNumber: invoice.InvoiceNumber || invoice.InvoiceID,
           error: errorMessage
         });
+        failedUpdatedDates.push(safeDate(invoice.UpdatedDateUTC));
       }
     }
 
+    // 5. Advance the watermark (held back before any invoice that failed)
+    await recordSyncRun('invoices', {
+      watermark: nextSyncWatermark(
+        invoices.map((invoice) => safeDate(invoice.UpdatedDateUTC)),
+        failedUpdatedDates
+      ),
+      itemCount: invoices.length,
+      errorCount: errors.length,
+      full: fullSync,
+    });
+
     const duration = Date.now() - startTime;
     logger.info('XERO_SYNC', 'Sync completed', {
       duration: `${duration}ms`,
@@ -617,6 +598,12 @@ export async function POST(request: Request) {
       type: typeof error,
     });
 
+    try {
+      await recordSyncFailure('invoices', errorMessage);
+    } catch {
+      // Ignore logging errors
+    }
+
     return NextResponse.json({
       error: 'Sync failed',
       details: errorMessage,
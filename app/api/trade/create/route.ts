@@ -9,9 +9,13 @@ import { TradeSchema } from "@/lib/schemas/trade";
 import { ZodError } from "zod";
 import { auth } from "@clerk/nextjs/server";
 import * as logger from "@/lib/logger";
-import { XERO_BRANDING_THEMES, resolveBrandingThemeForPayment } from "@/lib/branding-theme-mappings";
+import { listBrandingThemeMappings, resolveBrandingThemeForPayment } from "@/lib/branding-theme-mappings";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
 import { getValidTokens } from "@/lib/xero-auth";
-import { createXeroInvoice } from "@/lib/xero";
+import { getBrandingThemeId } from "@/lib/xero-branding-themes";
+import { resolveEntity, mapAccountCode, mapBrandingTheme } from "@/lib/entities";
+import { isAppError } from "@/lib/errors";
+import { createXeroInvoice } from "@/lib/xero-invoices";
 import { calculateMargins } from "@/lib/economics";
 import { calculateVAT } from "@/lib/calculations/vat";
 import { roundCurrency, addCurrency } from "@/lib/utils/currency";
@@ -20,6 +24,7 @@ import { roundCurrency, addCurrency } from "@/lib/utils/currency";
 import { db } from "@/db";
 import { sales, buyers, suppliers } from "@/db/schema";
 import { eq, desc } from "drizzle-orm";
+import { xeroApiBaseUrl } from "@/lib/xero-endpoints";
 
 // ORIGINAL XATA:
 // import { XataClient } from "@/src/xata";
@@ -61,7 +66,11 @@ async function generateSaleReference(): Promise<string> {
  * Searches Xero for invoice matching the sale reference and updates the Sales record
  * Does not throw errors - logs failures and continues
  */
-async function autoSyncXeroInvoice(saleId: string, saleReference: string): Promise<void> {
+async function autoSyncXeroInvoice(
+  saleId: string,
+  saleReference: string,
+  xeroTenantId: string
+): Promise<void> {
   try {
     logger.info('AUTO_SYNC', 'Starting auto-sync for sale', { saleId, saleReference });
 
@@ -75,11 +84,11 @@ async function autoSyncXeroInvoice(saleId: string, saleReference: string): Promi
     // Wait 3 seconds for Xero to process the invoice
     await new Promise(resolve => setTimeout(resolve, 3000));
 
-    const tokens = await getValidTokens(integrationUserId);
+    const tokens = await getValidTokens(integrationUserId, xeroTenantId);
     logger.info('AUTO_SYNC', 'Got valid Xero tokens');
 
     // Search for invoice with reference matching sale_reference
-    const searchUrl = `https://api.xero.com/api.xro/2.0/Invoices?where=Reference=="${encodeURIComponent(saleReference)}"`;
+    const searchUrl = `${xeroApiBaseUrl()}/Invoices?where=Reference=="${encodeURIComponent(saleReference)}"`;
 
     const xeroResponse = await fetch(searchUrl, {
       headers: {
@@ -308,10 +317,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    logger.info('TRADE_CREATE', 'Getting Xero tokens via integration user');
+    let entity;
+    try {
+      entity = await resolveEntity(trade.entityId);
+    } catch (error) {
+      if (isAppError(error)) {
+        return NextResponse.json(
+          { error: "VALIDATION_ERROR", message: error.message },
+          { status: 400 },
+        );
+      }
+      throw error;
+    }
+
+    logger.info('TRADE_CREATE', 'Getting Xero tokens via integration user', { entity: entity.name });
     let xeroTokens;
     try {
-      xeroTokens = await getValidTokens(integrationUserId);
+      xeroTokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
       logger.info('TRADE_CREATE', 'Xero tokens obtained successfully');
     } catch (error: any) {
       logger.error("TRADE_CREATE", "Failed to get Xero tokens", {
@@ -343,11 +365,12 @@ export async function POST(request: NextRequest) {
 
     // Get branding theme and tax info from first item. Swap to the No-Link variant
     // when the buyer is paying by bank transfer (no 2.4% card fee was priced in).
+    await loadBrandingThemeRegistry();
     const brandingThemeMapping = resolveBrandingThemeForPayment(firstItem.brandTheme, trade.paymentMethod);
     if (!brandingThemeMapping) {
       logger.error('TRADE_CREATE', 'Unknown branding theme - cannot create invoice', {
         brandTheme: firstItem.brandTheme,
-        availableThemes: Object.keys(XERO_BRANDING_THEMES)
+        availableThemes: listBrandingThemeMappings().map((t) => t.name)
       });
       return NextResponse.json(
         {
@@ -383,6 +406,16 @@ export async function POST(request: NextRequest) {
       taxType: firstItem.taxType,
     });
 
+    // The registry's theme IDs belong to the default organisation; other
+    // entities look up their own theme by (mapped) name
+    const invoiceThemeId = entity.isDefault
+      ? brandingThemeMapping.id
+      : await getBrandingThemeId(
+          integrationUserId,
+          mapBrandingTheme(entity, brandingThemeMapping.name),
+          entity.xeroTenantId
+        );
+
     let xeroInvoice;
     try {
       xeroInvoice = await createXeroInvoice(
@@ -392,9 +425,9 @@ export async function POST(request: NextRequest) {
           buyerContactId: trade.buyer.xeroContactId,
           description: invoiceDescription,
           finalPrice: totalSellPrice,
-          accountCode: brandingThemeMapping.accountCode,
+          accountCode: mapAccountCode(entity, brandingThemeMapping.accountCode),
           taxType: firstItem.taxType,
-          brandingThemeId: brandingThemeMapping.id,
+          brandingThemeId: invoiceThemeId,
           currency: firstItem.sellCurrency || 'GBP',
           lineAmountType: firstItem.lineAmountTypes,
         }
@@ -558,6 +591,7 @@ export async function POST(request: NextRequest) {
           saleDate: new Date(), // Date the invoice is created (today)
           status: 'active',
           source: 'atelier', // Sales Atelier origin
+          entityId: entity.id,
 
           // Buyer (link to Buyers table) - only if buyer exists
           buyerId: buyer?.id || undefined,
@@ -616,7 +650,7 @@ export async function POST(request: NextRequest) {
 
       // Auto-sync Xero invoice details (non-blocking - logs errors but doesn't fail)
       // This happens in the background after the response is sent
-      autoSyncXeroInvoice(saleRecord.id, saleReference).catch(err => {
+      autoSyncXeroInvoice(saleRecord.id, saleReference, entity.xeroTenantId).catch(err => {
         logger.error('TRADE_CREATE', 'Auto-sync promise rejected', {
           saleId: saleRecord.id,
           error: err instanceof Error ? err.message : 'Unknown error'
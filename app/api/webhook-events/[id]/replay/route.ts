@@ -0,0 +1,50 @@
+/**
+ * POST /api/webhook-events/[id]/replay
+ *
+ * Run a queued Xero webhook event again — failed events that have run out
+ * of automatic retries, or any processed event that needs re-applying. The
+ * invoice is re-fetched from Xero, so replaying is safe.
+ *
+ * Superadmin/admin only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import { replayWebhookEvent } from "@/lib/webhook-events";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "admin"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const event = await replayWebhookEvent(id);
+
+    logger.info("WEBHOOK_EVENTS", "Replay requested", { eventId: id, userId, status: event.status });
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("WEBHOOK_EVENTS", "Error replaying webhook event", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to replay webhook event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Club 19 Sales OS - Webhook Event Queue
+ *
+ * GET /api/webhook-events[?status=failed]
+ * Queued Xero webhook events, newest first, with a count per status.
+ *
+ * Superadmin/admin only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRole } from "@/lib/getUserRole";
+import {
+  countWebhookEventsByStatus,
+  listWebhookEvents,
+  type WebhookEventStatus,
+} from "@/lib/webhook-events";
+import { isAppError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await getUserRole();
+    if (!["superadmin", "admin"].includes(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const status = (request.nextUrl.searchParams.get("status") || undefined) as
+      | WebhookEventStatus
+      | undefined;
+
+    const [events, counts] = await Promise.all([
+      listWebhookEvents(status),
+      countWebhookEventsByStatus(),
+    ]);
+
+    return NextResponse.json({ events, counts });
+  } catch (error) {
+    if (isAppError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    logger.error("WEBHOOK_EVENTS", "Error loading webhook events", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return NextResponse.json({ error: "Failed to load webhook events" }, { status: 500 });
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { getAllXeroContacts, clearContactsCache } from "@/lib/xero-contacts-cache";
+import { getAllXeroContacts } from "@/lib/xero-contacts-cache";
 import { searchBuyers } from "@/lib/search";
 import { withRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { getDefaultEntity, getEntity } from "@/lib/entities";
 import * as logger from "@/lib/logger";
 
 export const dynamic = "force-dynamic";
@@ -23,15 +24,15 @@ interface NormalizedContact {
 /**
  * GET /api/xero/contacts/buyers
  *
- * Cached Buyer/Customer Contact Search (OPTIMIZED HYBRID)
+ * Buyer/Customer Contact Search (OPTIMIZED HYBRID)
  *
  * This endpoint:
- * 1. Fetches ALL Xero contacts once and caches them (10 min TTL)
- * 2. Performs local fuzzy search on cached contacts
+ * 1. Loads active Xero contacts from the xero_contacts mirror
+ * 2. Performs local fuzzy search on those contacts
  * 3. Classifies contacts as buyers using intelligent rules
  * 4. Returns top 15 ranked results
  *
- * PERFORMANCE: First search may take 2-5s (cache warm), subsequent searches <100ms (cache hit).
+ * The mirror is kept fresh by CONTACT webhooks and the sync-contacts cron.
  * Fuzzy matching finds "Bettina" when searching "bet" (better than Xero's exact substring matching).
  */
 export async function GET(request: NextRequest) {
@@ -91,19 +92,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    logger.info("XERO_CONTACTS", "Searching for buyers with cached fuzzy matching", { query, userId });
+    logger.info("XERO_CONTACTS", "Searching for buyers with fuzzy matching", { query, userId });
 
-    // 3. Get all contacts from cache (or fetch if needed) - HYBRID APPROACH
+    // 3. Get all contacts from the mirror (or fetch if it is still empty)
     let allContacts;
     try {
       const fetchStartTime = Date.now();
-      allContacts = await getAllXeroContacts(integrationUserId);
+      // Only the sale entity's organisation (?entityId=, default otherwise)
+      const entityId = searchParams.get("entityId");
+      const entity = entityId ? await getEntity(entityId) : await getDefaultEntity();
+      allContacts = await getAllXeroContacts(
+        integrationUserId,
+        entity ? { tenantId: entity.xeroTenantId, isDefault: entity.isDefault } : undefined
+      );
       fetchDuration = Date.now() - fetchStartTime;
 
-      logger.info("XERO_CONTACTS", "Loaded contacts from cache", {
+      logger.info("XERO_CONTACTS", "Loaded contacts", {
         count: allContacts.length,
         fetchDuration,
-        cacheHit: fetchDuration < 100, // < 100ms suggests cache hit
       });
     } catch (error: any) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -135,7 +141,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // 4. Perform local fuzzy search with buyer classification on cached contacts
+    // 4. Perform local fuzzy search with buyer classification on mirrored contacts
     // This finds "Bettina" when searching "bet" (better than Xero's exact matching)
     const searchStartTime = Date.now();
     const results = searchBuyers(query, allContacts, 15);
@@ -157,10 +163,7 @@ export async function GET(request: NextRequest) {
         })),
       });
     } else {
-      // Cache may be stale — contact could have been added to Xero recently.
-      // Clear cache so the next search triggers a fresh fetch.
-      clearContactsCache(integrationUserId);
-      logger.info("XERO_CONTACTS", "No buyer matches found, cleared cache for next search", { query });
+      logger.info("XERO_CONTACTS", "No buyer matches found", { query });
     }
 
     // 6. Convert to UI format
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { getValidTokens } from "@/lib/xero-auth";
 import * as logger from "@/lib/logger";
+import { xeroApiBaseUrl } from "@/lib/xero-endpoints";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -82,7 +83,7 @@ export async function GET(request: NextRequest) {
     const sanitizedQuery = query.replace(/"/g, '\\"');
     const whereClause = `Name.Contains("${sanitizedQuery}")`;
     const encodedWhere = encodeURIComponent(whereClause);
-    const xeroUrl = `https://api.xero.com/api.xro/2.0/Contacts?where=${encodedWhere}`;
+    const xeroUrl = `${xeroApiBaseUrl()}/Contacts?where=${encodedWhere}`;
 
     logger.info("XERO_CONTACTS", "Calling Xero API", { whereClause });
 
@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import { getSupplierContacts } from "@/lib/xero-contacts-cache";
 import { searchSuppliers } from "@/lib/search";
 import { withRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { getDefaultEntity, getEntity } from "@/lib/entities";
 import * as logger from "@/lib/logger";
 
 export const dynamic = "force-dynamic";
@@ -29,7 +30,7 @@ interface NormalizedContact {
  * Make-Style Fuzzy Search for Supplier/Vendor Contacts (STRICT MODE)
  *
  * This endpoint:
- * 1. Fetches ALL Xero contacts (cached for 10 min)
+ * 1. Loads active Xero contacts from the xero_contacts mirror
  * 2. Performs local multi-field fuzzy search
  * 3. Classifies contacts as suppliers using STRICT rules
  * 4. Returns top 15 ranked supplier results ONLY
@@ -93,7 +94,7 @@ export async function GET(request: NextRequest) {
     logger.info("XERO_CONTACTS", "Searching for suppliers", { query, userId });
 
     // 2.5. Check search cache first
-    const cacheKey = `${integrationUserId}:${query.toLowerCase()}`;
+    const cacheKey = `${integrationUserId}:${searchParams.get("entityId") ?? ""}:${query.toLowerCase()}`;
     const cached = searchCache.get(cacheKey);
 
     if (cached && Date.now() - cached.timestamp < SEARCH_CACHE_TTL) {
@@ -105,10 +106,16 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ contacts: cached.results });
     }
 
-    // 3. Get supplier contacts from cache (or fetch if needed)
+    // 3. Get supplier contacts from the mirror (or fetch if it is still empty)
     let supplierContacts;
     try {
-      supplierContacts = await getSupplierContacts(integrationUserId);
+      // Only the sale entity's organisation (?entityId=, default otherwise)
+      const entityId = searchParams.get("entityId");
+      const entity = entityId ? await getEntity(entityId) : await getDefaultEntity();
+      supplierContacts = await getSupplierContacts(
+        integrationUserId,
+        entity ? { tenantId: entity.xeroTenantId, isDefault: entity.isDefault } : undefined
+      );
       logger.info("XERO_CONTACTS", "Loaded supplier contacts", {
         count: supplierContacts.length,
       });
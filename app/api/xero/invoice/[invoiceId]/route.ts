@@ -8,8 +8,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { getValidTokens } from "@/lib/xero-auth";
+import { resolveInvoiceEntity } from "@/lib/entities";
 import { getUserRole } from "@/lib/getUserRole";
 import * as logger from "@/lib/logger";
+import { xeroApiBaseUrl } from "@/lib/xero-endpoints";
 
 export const dynamic = "force-dynamic";
 
@@ -44,7 +46,8 @@ export async function GET(
       );
     }
 
-    const tokens = await getValidTokens(integrationUserId);
+    const entity = await resolveInvoiceEntity(invoiceId);
+    const tokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
     if (!tokens) {
       return NextResponse.json(
         { error: "Xero not connected" },
@@ -54,7 +57,7 @@ export async function GET(
 
     // Fetch invoice from Xero
     const xeroResponse = await fetch(
-      `https://api.xero.com/api.xro/2.0/Invoices/${invoiceId}`,
+      `${xeroApiBaseUrl()}/Invoices/${invoiceId}`,
       {
         headers: {
           Authorization: `Bearer ${tokens.accessToken}`,
@@ -1,84 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { getValidTokens } from "@/lib/xero-auth";
-import { createXeroInvoice } from "@/lib/xero";
+import { createXeroInvoice } from "@/lib/xero-invoices";
 import { getBrandingThemeId } from "@/lib/xero-branding-themes";
 import { resolveBrandingThemeForPayment } from "@/lib/branding-theme-mappings";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
 import { syncSaleToMake, buildSalePayload } from "@/lib/make-sync";
 import { syncInvoiceAndAppDataToXata, saveLineItems } from "@/lib/xata-sales";
+import { raiseSupplierBills } from "@/lib/supplier-bills";
 import { pushSaleToShopperSheet } from "@/lib/google-sheets";
+import { resolveEntity, mapAccountCode, mapBrandingTheme, type EntityDetail } from "@/lib/entities";
+import { deleteDealDraft } from "@/lib/deal-drafts";
+import {
+  claimQuote,
+  markQuoteAccepted,
+  quotedInvoicePayload,
+  releaseQuote,
+  QUOTE_MANAGER_ROLES,
+} from "@/lib/quotes";
+import { getUserRole } from "@/lib/getUserRole";
+import { isAppError } from "@/lib/errors";
 import { db } from "@/db";
 import { sales, lineItems as lineItemsTable, errors } from "@/db/schema";
 import { eq, asc } from "drizzle-orm";
+import {
+  BASE_CURRENCY,
+  isSupportedCurrency,
+  isValidFxRate,
+  toBaseCurrency,
+} from "@/lib/calculations/fx";
+import { multiplyCurrency, subtractCurrency } from "@/lib/utils/currency";
+import type { CreateInvoicePayload } from "@/lib/types/invoice";
 import * as logger from "@/lib/logger";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-/**
- * Line item for multi-line invoices
- */
-interface LineItemPayload {
-  lineNumber: number;
-  brand: string;
-  category: string;
-  description: string;
-  quantity: number;
-  buyPrice: number;
-  sellPrice: number;
-  lineTotal: number;
-  lineMargin: number;
-  supplierName?: string;
-}
-
-/**
- * Invoice creation payload from frontend
- * Supports both single-line (legacy) and multi-line invoices
- */
-interface CreateInvoicePayload {
-  buyerContactId: string;
-  // Single-line (legacy) fields
-  description?: string;
-  finalPrice?: number;
-  // Multi-line fields
-  lineItems?: LineItemPayload[];
-  // Common fields
-  accountCode: string;
-  taxType: string;
-  brandingThemeId?: string;
-  currency: string;
-  lineAmountType: string; // "Inclusive" | "Exclusive" | "NoTax"
-
-  // Summary fields (for multi-line)
-  totalSellPrice?: number;
-  totalBuyPrice?: number;
-
-  // Additional fields for Make.com sync (19-field payload)
-  supplierName?: string;
-  brand?: string;
-  category?: string;
-  itemTitle?: string;
-  quantity?: number;
-  buyPrice?: number;
-  cardFees?: number;
-  shippingCost?: number;
-  impliedShipping?: number;
-  grossMargin?: number;
-  commissionableMargin?: number;
-  paymentMethod?: string;
-  notes?: string;
-
-  // Phase 2 wizard fields
-  isNewClient?: boolean;
-  hasIntroducer?: boolean;
-  introducerName?: string;
-  introducerCommission?: number;
-  introducerFeeType?: "percent" | "flat";
-  introducerFeePercent?: number;
-  introducerFeeFlat?: number;
-  entrupyFee?: number;
-}
-
 /**
  * Invoice response to frontend
  */
@@ -90,6 +47,9 @@ interface InvoiceResponse {
   amountDue: number;
   invoiceUrl: string;
   saleId?: string;
+  // Set when supplier bills were requested
+  supplierBillsRaised?: number;
+  supplierBillsSkipped?: string[];
 }
 
 /**
@@ -116,6 +76,9 @@ interface InvoiceResponse {
  *   lineAmountType: string
  * }
  *
+ * Or, to accept a quote: { quoteId: string, raiseSupplierBills?: boolean } —
+ * the quote's stored payload is invoiced (see lib/quotes.ts).
+ *
  * Response:
  * {
  *   invoiceId: string,
@@ -158,6 +121,7 @@ export async function POST(request: NextRequest) {
         accountCode: payload.accountCode,
         taxType: payload.taxType,
         currency: payload.currency,
+        currencyRate: payload.currencyRate,
         lineAmountType: payload.lineAmountType,
       });
     } catch (error) {
@@ -168,6 +132,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 2b. Accepting a quote invoices exactly what was quoted
+    if (payload.quoteId) {
+      try {
+        const role = await getUserRole();
+        const quoted = await quotedInvoicePayload(payload.quoteId, {
+          userId,
+          canManageAll: QUOTE_MANAGER_ROLES.includes(role),
+        });
+        payload = {
+          ...quoted,
+          quoteId: payload.quoteId,
+          raiseSupplierBills: payload.raiseSupplierBills,
+        };
+      } catch (error) {
+        if (isAppError(error)) {
+          return NextResponse.json(
+            { error: "Quote unavailable", message: error.message },
+            { status: error.statusCode }
+          );
+        }
+        throw error;
+      }
+    }
+
     // 3. Validate required fields
     // For multi-line invoices, we need lineItems instead of description/finalPrice
     const isMultiLine = payload.lineItems && payload.lineItems.length > 0;
@@ -190,6 +178,23 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Foreign-currency invoices need a rate so GBP margin can be stored
+    if (!isSupportedCurrency(payload.currency)) {
+      logger.error("XERO_INVOICES", "Unsupported currency", { currency: payload.currency });
+      return NextResponse.json(
+        { error: "Validation error", message: `Unsupported currency: ${payload.currency}` },
+        { status: 400 }
+      );
+    }
+    if (!isValidFxRate(payload.currency, payload.currencyRate)) {
+      logger.error("XERO_INVOICES", "Missing FX rate", { currency: payload.currency });
+      return NextResponse.json(
+        { error: "Validation error", message: `An FX rate is required for ${payload.currency} invoices` },
+        { status: 400 }
+      );
+    }
+    const fxRate = payload.currency === BASE_CURRENCY ? undefined : payload.currencyRate;
+
     // Validate multi-line OR single-line fields
     if (isMultiLine) {
       // Multi-line: validate each line item
@@ -226,12 +231,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let entity: EntityDetail;
+    try {
+      entity = await resolveEntity(payload.entityId);
+    } catch (error) {
+      if (isAppError(error)) {
+        return NextResponse.json(
+          { error: "Validation error", message: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
     let accessToken: string;
     let tenantId: string;
 
     try {
-      logger.info("XERO_INVOICES", "Fetching valid tokens via integration user...");
-      const tokens = await getValidTokens(integrationUserId);
+      logger.info("XERO_INVOICES", "Fetching valid tokens via integration user...", {
+        entity: entity.name,
+      });
+      const tokens = await getValidTokens(integrationUserId, entity.xeroTenantId);
       accessToken = tokens.accessToken;
       tenantId = tokens.tenantId;
       logger.info("XERO_INVOICES", "Valid tokens obtained", { tenantId });
@@ -249,34 +269,36 @@ export async function POST(request: NextRequest) {
 
     // 5. Resolve branding theme name to GUID (if provided), then apply paymentMethod
     //    swap so bank-transfer invoices land on the No-Link variant.
-    let resolvedBrandingThemeId: string | undefined = payload.brandingThemeId;
+    //    Theme names are first mapped to the entity's own theme (if configured).
+    const requestedTheme = mapBrandingTheme(entity, payload.brandingThemeId);
+    let resolvedBrandingThemeId: string | undefined = requestedTheme;
 
-    if (payload.brandingThemeId) {
+    if (requestedTheme) {
       try {
-        logger.info("XERO_INVOICES", "Resolving branding theme", { brandingThemeId: payload.brandingThemeId });
+        logger.info("XERO_INVOICES", "Resolving branding theme", { brandingThemeId: requestedTheme });
 
         // Check if it's already a GUID (contains dashes) or a name
-        const isGuid = payload.brandingThemeId.includes("-");
+        const isGuid = requestedTheme.includes("-");
 
         if (!isGuid) {
           // It's a name, need to resolve to GUID
           logger.info("XERO_INVOICES", "Branding theme appears to be a name, fetching GUID...");
-          resolvedBrandingThemeId = await getBrandingThemeId(integrationUserId, payload.brandingThemeId);
+          resolvedBrandingThemeId = await getBrandingThemeId(integrationUserId, requestedTheme, entity.xeroTenantId);
 
           if (resolvedBrandingThemeId) {
             logger.info("XERO_INVOICES", "Resolved branding theme", {
-              name: payload.brandingThemeId,
+              name: requestedTheme,
               guid: resolvedBrandingThemeId
             });
           } else {
             logger.warn("XERO_INVOICES", "Branding theme not found, will omit from invoice", {
-              brandingThemeId: payload.brandingThemeId
+              brandingThemeId: requestedTheme
             });
             resolvedBrandingThemeId = undefined;
           }
         } else {
           logger.info("XERO_INVOICES", "Branding theme is already a GUID", {
-            brandingThemeId: payload.brandingThemeId
+            brandingThemeId: requestedTheme
           });
         }
       } catch (error: any) {
@@ -287,6 +309,7 @@ export async function POST(request: NextRequest) {
       }
 
       if (resolvedBrandingThemeId) {
+        await loadBrandingThemeRegistry();
         const finalTheme = resolveBrandingThemeForPayment(resolvedBrandingThemeId, payload.paymentMethod);
         if (finalTheme && finalTheme.id !== resolvedBrandingThemeId) {
           logger.info("XERO_INVOICES", "Swapped to No-Link branding theme for bank transfer", {
@@ -303,14 +326,36 @@ export async function POST(request: NextRequest) {
     // Update payload with resolved GUID
     const resolvedPayload = {
       ...payload,
+      accountCode: mapAccountCode(entity, payload.accountCode),
       brandingThemeId: resolvedBrandingThemeId,
+      currencyRate: fxRate,
     };
 
-    // 6. Create invoice in Xero
+    // 6. Create invoice in Xero. A quote is claimed first so a second accept
+    //    can't invoice it too; the key makes a retried post return the same invoice.
+    if (payload.quoteId) {
+      try {
+        await claimQuote(payload.quoteId);
+      } catch (error) {
+        if (isAppError(error)) {
+          return NextResponse.json(
+            { error: "Quote unavailable", message: error.message },
+            { status: error.statusCode }
+          );
+        }
+        throw error;
+      }
+    }
+
     logger.info("XERO_INVOICES", "Creating invoice in Xero...");
     let invoice;
     try {
-      invoice = await createXeroInvoice(tenantId, accessToken, resolvedPayload);
+      invoice = await createXeroInvoice(
+        tenantId,
+        accessToken,
+        resolvedPayload,
+        payload.quoteId ? `quote-${payload.quoteId}` : undefined
+      );
       logger.info("XERO_INVOICES", "Invoice created successfully", {
         invoiceId: invoice.InvoiceID,
         invoiceNumber: invoice.InvoiceNumber,
@@ -319,6 +364,7 @@ export async function POST(request: NextRequest) {
       });
     } catch (error: any) {
       logger.error("XERO_INVOICES", "Failed to create invoice", { error: error as any });
+      if (payload.quoteId) await releaseQuote(payload.quoteId);
 
       // Check if it's an auth error
       if (error.message.includes("401") || error.message.includes("403")) {
@@ -355,6 +401,32 @@ export async function POST(request: NextRequest) {
     const duration = Date.now() - startTime;
     logger.info("XERO_INVOICES", "Invoice creation completed", { duration_ms: duration, response: response as any });
 
+    // The invoice exists now, so neither the quote nor the draft may be
+    // submitted again
+    if (payload.quoteId) {
+      try {
+        await markQuoteAccepted(payload.quoteId, invoice.InvoiceID, userId);
+      } catch (quoteErr) {
+        // Still claimed, so it can't be invoiced twice; once the claim is
+        // stale, accepting again gets the same invoice back and marks it
+        logger.error("XERO_INVOICES", "Failed to mark quote accepted", {
+          quoteId: payload.quoteId,
+          invoiceId: invoice.InvoiceID,
+          error: quoteErr instanceof Error ? quoteErr.message : "unknown",
+        });
+      }
+    }
+    if (payload.draftId) {
+      try {
+        await deleteDealDraft(payload.draftId, { userId, canManageAll: false });
+      } catch (draftErr) {
+        logger.warn("XERO_INVOICES", "Could not delete deal draft (non-fatal)", {
+          draftId: payload.draftId,
+          error: draftErr instanceof Error ? draftErr.message : "unknown",
+        });
+      }
+    }
+
     // 8. Sync sale to Make.com/Airtable (non-blocking)
     // Get user details for shopper name
     let shopperName = "Unknown";
@@ -379,8 +451,8 @@ export async function POST(request: NextRequest) {
       itemTitle: payload.itemTitle || payload.description || "",
       quantity: payload.quantity ?? 1,
 
-      // Financials
-      saleAmount: response.total,
+      // Financials (the sheet is kept in GBP)
+      saleAmount: toBaseCurrency(response.total, fxRate),
       buyPrice: payload.buyPrice ?? 0,
       cardFees: payload.cardFees ?? 0,
       shippingCost: payload.shippingCost ?? 0,
@@ -391,7 +463,7 @@ export async function POST(request: NextRequest) {
       commissionableMargin: payload.commissionableMargin ?? 0,
 
       // Misc
-      currency: payload.currency || "GBP",
+      currency: BASE_CURRENCY,
       brandingTheme: payload.brandingThemeId || "Standard",
       notes: payload.notes || "",
     });
@@ -419,6 +491,7 @@ export async function POST(request: NextRequest) {
           Total: invoice.Total,
           BrandingThemeID: resolvedBrandingThemeId,
           CurrencyCode: invoice.CurrencyCode,
+          CurrencyRate: invoice.CurrencyRate ?? fxRate,
           Contact: {
             Name: invoice.Contact?.Name || response.contactName,
             ContactID: invoice.Contact?.ContactID || payload.buyerContactId,
@@ -429,6 +502,7 @@ export async function POST(request: NextRequest) {
         formData: {
           // Absolutely required
           shopperName,
+          entityId: entity.id,
           shopperEmail,
           shopperClerkUserId: userId,
 
@@ -447,8 +521,8 @@ export async function POST(request: NextRequest) {
           //   manually (Phase B, May 2026 — replaces the prior upsert).
           // - introducerNameFreeText also populates sales.introducer_name for
           //   sheet display and as the orphan-state label when the FK is null.
-          // - introducerCommission is the £ amount from the wizard. The V1
-          //   commission engine still consumes it; Phase 4 replaces the engine.
+          // - introducerCommission is the £ amount from the wizard. The V2
+          //   commission engine deducts it as a cost before banding.
           introducerName:
             payload.hasIntroducer && payload.introducerName
               ? payload.introducerName
@@ -465,6 +539,7 @@ export async function POST(request: NextRequest) {
           buyPrice: totalBuyPrice,
           cardFees: payload.cardFees || 0,
           shippingCost: payload.shippingCost || 0,
+          impliedShippingRoute: payload.impliedShippingRoute,
 
           // Payment
           paymentMethod: payload.paymentMethod,
@@ -489,6 +564,7 @@ export async function POST(request: NextRequest) {
             payload.hasIntroducer && payload.introducerFeeType !== "flat"
               ? payload.introducerFeePercent ?? undefined
               : undefined,
+          fxRateSource: fxRate ? payload.fxRateSource : undefined,
         },
       });
 
@@ -501,13 +577,42 @@ export async function POST(request: NextRequest) {
 
       // Save line items if multi-line invoice
       if (sale && isMultiLine && payload.lineItems && payload.lineItems.length > 0) {
-        await saveLineItems(sale.id, payload.lineItems);
+        // Line items are stored in GBP like the sale
+        const gbpLineItems = fxRate
+          ? payload.lineItems.map((item) => {
+              const sellPrice = toBaseCurrency(item.sellPrice, fxRate);
+              return {
+                ...item,
+                sellPrice,
+                lineTotal: toBaseCurrency(item.lineTotal, fxRate),
+                lineMargin: multiplyCurrency(subtractCurrency(sellPrice, item.buyPrice), item.quantity),
+              };
+            })
+          : payload.lineItems;
+        await saveLineItems(sale.id, gbpLineItems);
         logger.info("XATA", "Line items saved", {
           saleId: sale.id,
           lineItemCount: payload.lineItems.length,
         });
       }
 
+      // Draft supplier bills — non-fatal, they can be raised again from the
+      // sale page
+      if (sale?.id && payload.raiseSupplierBills) {
+        try {
+          const bills = await raiseSupplierBills(sale.id, userId);
+          response.supplierBillsRaised = bills.raised.length;
+          response.supplierBillsSkipped = bills.skipped.map((s) =>
+            s.supplierName ? `${s.supplierName}: ${s.reason}` : s.reason
+          );
+        } catch (billsErr) {
+          logger.error("SUPPLIER_BILLS", "Failed to raise bills (non-fatal)", {
+            saleId: sale.id,
+            error: billsErr instanceof Error ? billsErr.message : "unknown",
+          });
+        }
+      }
+
       // Phase 2 Workstream 2: push to the shopper's Google Sheet.
       // Fire-and-forget — failures are caught here, logged to the errors table,
       // and never bubble up. The Xero invoice and DB row are the source of truth;
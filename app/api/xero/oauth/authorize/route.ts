@@ -1,6 +1,7 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
 import * as logger from "@/lib/logger";
+import { xeroAuthorizeUrl } from "@/lib/xero-endpoints";
 
 export const dynamic = "force-dynamic";
 
@@ -41,7 +42,7 @@ export async function GET(request: NextRequest) {
     const scope = "openid profile email accounting.contacts accounting.transactions accounting.settings offline_access";
     const state = userId; // Use userId as state for security verification
 
-    const authUrl = new URL("https://login.xero.com/identity/connect/authorize");
+    const authUrl = new URL(xeroAuthorizeUrl());
     authUrl.searchParams.append("response_type", "code");
     authUrl.searchParams.append("client_id", clientId);
     authUrl.searchParams.append("redirect_uri", redirectUri);
@@ -1,6 +1,9 @@
-import { auth, clerkClient } from "@clerk/nextjs/server";
+import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
 import * as logger from "@/lib/logger";
+import { xeroConnectionsUrl, xeroTokenUrl } from "@/lib/xero-endpoints";
+import { saveTokens } from "@/lib/xero-auth";
+import { recordConnectedTenants } from "@/lib/entities";
 
 export const dynamic = "force-dynamic";
 
@@ -35,7 +38,8 @@ interface XeroConnection {
 /**
  * GET /api/xero/oauth/callback
  * Handles OAuth 2.0 callback from Xero
- * STAGE 1: Stores tokens in integration user's Clerk privateMetadata
+ * STAGE 1: Stores tokens in integration user's Clerk privateMetadata,
+ * one entry per authorised organisation
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -109,7 +113,7 @@ export async function GET(request: NextRequest) {
 
     // 4. Exchange authorization code for access token
     logger.info("XERO_OAUTH", "Exchanging code for tokens...");
-    const tokenResponse = await fetch("https://identity.xero.com/connect/token", {
+    const tokenResponse = await fetch(xeroTokenUrl(), {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -140,7 +144,7 @@ export async function GET(request: NextRequest) {
 
     // 5. Fetch tenant/organization information
     logger.info("XERO_OAUTH", "Fetching Xero tenant connections...");
-    const connectionsResponse = await fetch("https://api.xero.com/connections", {
+    const connectionsResponse = await fetch(xeroConnectionsUrl(), {
       method: "GET",
       headers: {
         Authorization: `Bearer ${tokens.access_token}`,
@@ -168,17 +172,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const primaryConnection = connections[0];
-    logger.info("XERO_OAUTH", "Tenant found", {
-      tenantName: primaryConnection.tenantName,
-      tenantId: primaryConnection.tenantId
+    // Only organisations (not practice-manager tenants) can be traded as
+    const organisations = connections.filter((c) => c.tenantType === "ORGANISATION");
+    const tenants = organisations.length > 0 ? organisations : connections;
+    logger.info("XERO_OAUTH", "Tenants found", {
+      tenants: tenants.map((c) => ({ tenantName: c.tenantName, tenantId: c.tenantId })),
     });
 
     // 6. Calculate token expiration timestamp
     const expiresAt = Date.now() + tokens.expires_in * 1000;
 
     // 7. STAGE 1: Store tokens in INTEGRATION USER's Clerk privateMetadata
-    // This allows any user to reconnect, but tokens are centralized
+    // This allows any user to reconnect, but tokens are centralized.
+    // Every authorised organisation shares this grant's tokens; ones
+    // connected earlier in other grants are kept.
     const targetUserId = INTEGRATION_USER_ID || userId;
 
     if (!INTEGRATION_USER_ID) {
@@ -190,26 +197,27 @@ export async function GET(request: NextRequest) {
       isIntegrationUser: !!INTEGRATION_USER_ID,
     });
 
-    await clerkClient.users.updateUser(targetUserId, {
-      privateMetadata: {
-        xero: {
-          accessToken: tokens.access_token,
-          refreshToken: tokens.refresh_token,
-          expiresAt: expiresAt,
-          tenantId: primaryConnection.tenantId,
-          tenantName: primaryConnection.tenantName,
-          connectedAt: Date.now(),
-          refreshedAt: Date.now(), // Track initial save as refresh point
-        },
-      },
-    });
+    await saveTokens(
+      targetUserId,
+      tenants.map((tenant) => ({
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt,
+        tenantId: tenant.tenantId,
+        tenantName: tenant.tenantName,
+      }))
+    );
+
+    // Each organisation is a trading entity (the first ever is the default)
+    await recordConnectedTenants(
+      tenants.map((tenant) => ({ tenantId: tenant.tenantId, tenantName: tenant.tenantName }))
+    );
 
     const duration = Date.now() - startTime;
     logger.info("XERO_OAUTH", "SUCCESS! Xero connected", {
       duration_ms: duration,
       targetUserId,
-      tenantId: primaryConnection.tenantId,
-      tenantName: primaryConnection.tenantName,
+      tenantIds: tenants.map((c) => c.tenantId),
       expiresIn: tokens.expires_in,
       architecture: 'stage1-integration-user',
     });
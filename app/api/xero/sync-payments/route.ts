@@ -17,8 +17,9 @@ import { db } from "@/db";
 import { sales, errors } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { updateSalePaymentStatusFromXero } from "@/lib/xata-sales";
-import { mapXeroInvoiceToSaleFields } from "@/lib/xero-invoice-mapping";
+import { mapXeroInvoiceToSaleFields, mappedFxColumns } from "@/lib/xero-invoice-mapping";
 import { getValidTokens } from "@/lib/xero-auth";
+import { createXeroClient, XeroApiError } from "@/lib/xero-client";
 import { ERROR_TYPES, ERROR_TRIGGERED_BY } from "@/lib/error-types";
 import { withRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import * as logger from "@/lib/logger";
@@ -102,6 +103,7 @@ export async function GET(req: NextRequest) {
         { status: 401 }
       );
     }
+    const xero = createXeroClient({ tokens });
 
     // STEP 3: Process each sale
     let checkedCount = 0;
@@ -126,21 +128,14 @@ export async function GET(req: NextRequest) {
         });
 
         // Fetch invoice from Xero
-        const invoiceResponse = await fetch(
-          `https://api.xero.com/api.xro/2.0/Invoices/${sale.xeroInvoiceId}`,
-          {
-            headers: {
-              Authorization: `Bearer ${tokens.accessToken}`,
-              "xero-tenant-id": tokens.tenantId || "",
-              Accept: "application/json",
-            },
-          }
-        );
-
-        if (!invoiceResponse.ok) {
+        let invoiceData: { Invoices?: any[] };
+        try {
+          invoiceData = await xero.get(`Invoices/${sale.xeroInvoiceId}`);
+        } catch (fetchError) {
+          if (!(fetchError instanceof XeroApiError)) throw fetchError;
           logger.error("XERO_SYNC", "Failed to fetch invoice", {
             invoiceId: sale.xeroInvoiceId,
-            status: invoiceResponse.status,
+            status: fetchError.status,
           });
 
           // Log error
@@ -159,7 +154,7 @@ export async function GET(req: NextRequest) {
             severity: "medium",
             source: "xero-sync",
             message: [
-              `Failed to fetch invoice from Xero: ${invoiceResponse.status} ${invoiceResponse.statusText}`,
+              `Failed to fetch invoice from Xero: ${fetchError.message}`,
             ],
             timestamp: new Date(),
             resolved: false,
@@ -169,7 +164,6 @@ export async function GET(req: NextRequest) {
           continue;
         }
 
-        const invoiceData = await invoiceResponse.json();
         const invoice = invoiceData.Invoices?.[0];
 
         if (!invoice) {
@@ -211,6 +205,13 @@ export async function GET(req: NextRequest) {
             saleId: sale.id,
             invoiceNumber: invoice.InvoiceNumber,
           });
+          // Foreign-currency sale: record the realised FX gain/loss
+          if (mapped.fxGainLoss !== null) {
+            await db
+              .update(sales)
+              .set(mappedFxColumns(mapped))
+              .where(eq(sales.id, sale.id));
+          }
           updatedCount++;
         } else {
           logger.error("XERO_SYNC", "Failed to update sale", {
@@ -0,0 +1,225 @@
+/**
+ * Club 19 Sales OS - Admin Webhook Events
+ *
+ * The durable Xero webhook queue: every event received, its processing
+ * status, attempts and last error. Failed events can be replayed; the
+ * invoice is re-fetched from Xero, so replaying a processed event is safe.
+ */
+
+"use client";
+
+import { useEffect, useState, useCallback, Fragment } from "react";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { PageHeader } from "@/components/ui/PageHeader";
+import { LoadingBlock } from "@/components/ui/LoadingBlock";
+import { ErrorBlock } from "@/components/ui/ErrorBlock";
+import { ChevronDown, ChevronUp, Loader2, RotateCcw } from "lucide-react";
+import type { WebhookEventDetail, WebhookEventStatus } from "@/lib/webhook-events";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const STATUS_FILTERS: { value: WebhookEventStatus | ""; label: string }[] = [
+  { value: "failed", label: "Failed" },
+  { value: "pending", label: "Pending" },
+  { value: "processing", label: "Processing" },
+  { value: "processed", label: "Processed" },
+  { value: "skipped", label: "Skipped" },
+  { value: "rejected", label: "Rejected" },
+  { value: "", label: "All" },
+];
+
+const STATUS_STYLES: Record<WebhookEventStatus, string> = {
+  pending: "text-blue-700 bg-blue-50",
+  processing: "text-blue-700 bg-blue-50",
+  processed: "text-green-700 bg-green-50",
+  skipped: "text-gray-600 bg-gray-100",
+  failed: "text-red-700 bg-red-50",
+  rejected: "text-orange-700 bg-orange-50",
+};
+
+function formatDateTime(dateStr: string | null): string {
+  if (!dateStr) return "—";
+  return new Date(dateStr).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function AdminWebhooksPage() {
+  const [events, setEvents] = useState<WebhookEventDetail[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<WebhookEventStatus | "">("failed");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/webhook-events${status ? `?status=${status}` : ""}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to load webhook events");
+      }
+      const data = await res.json();
+      setEvents(data.events);
+      setCounts(data.counts);
+    } catch (err: any) {
+      setError(err.message || "Failed to load webhook events");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleReplay = async (event: WebhookEventDetail) => {
+    setReplaying(event.id);
+    try {
+      const res = await fetch(`/api/webhook-events/${event.id}/replay`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to replay event");
+      }
+      if (data.event.status === "failed") {
+        alert(`Replay failed: ${data.event.lastError}`);
+      }
+      await fetchData();
+    } catch (err: any) {
+      alert(err.message || "Failed to replay event");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div>
+      <Breadcrumbs
+        items={[
+          { label: "Dashboard", href: "/staff/admin/dashboard" },
+          { label: "Webhooks" },
+        ]}
+      />
+      <PageHeader
+        title="Webhook Events"
+        subtitle="Xero webhook deliveries and their processing status"
+      />
+
+      {/* Status filter */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.label}
+            onClick={() => setStatus(filter.value)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${
+              status === filter.value
+                ? "bg-gray-900 text-white border-gray-900"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            {filter.label}
+            {filter.value && counts[filter.value] ? ` (${counts[filter.value]})` : ""}
+          </button>
+        ))}
+      </div>
+
+      {loading && <LoadingBlock message="Loading webhook events..." />}
+
+      {error && <ErrorBlock message={error} onRetry={fetchData} />}
+
+      {!loading && !error && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          {events.length === 0 ? (
+            <p className="px-6 py-8 text-sm text-center text-gray-500">No events to show.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Received</th>
+                    <th className="px-3 py-2 text-left font-medium">Event</th>
+                    <th className="px-3 py-2 text-left font-medium">Resource</th>
+                    <th className="px-3 py-2 text-left font-medium">Status</th>
+                    <th className="px-3 py-2 text-right font-medium">Attempts</th>
+                    <th className="px-3 py-2 text-left font-medium">Last error</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {events.map((event) => (
+                    <Fragment key={event.id}>
+                      <tr>
+                        <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatDateTime(event.receivedAt)}</td>
+                        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                          {event.eventCategory ? `${event.eventCategory} ${event.eventType ?? ""}` : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 font-mono text-xs">{event.resourceId || "—"}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[event.status]}`}>
+                            {event.status}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">{event.attempts}</td>
+                        <td className="px-3 py-2 text-xs text-gray-600 max-w-[280px] truncate" title={event.lastError ?? ""}>
+                          {event.lastError || "—"}
+                        </td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap">
+                          {event.signatureValid && event.status !== "pending" && event.status !== "processing" && (
+                            <button
+                              onClick={() => handleReplay(event)}
+                              disabled={replaying === event.id}
+                              className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              {replaying === event.id ? (
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                              ) : (
+                                <RotateCcw className="w-3 h-3" />
+                              )}
+                              Replay
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                            className="ml-2 p-1 text-gray-400 hover:text-gray-700"
+                            title="Show payload"
+                          >
+                            {expanded === event.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                          </button>
+                        </td>
+                      </tr>
+                      {expanded === event.id && (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-3 bg-gray-50">
+                            <p className="text-xs text-gray-500 mb-1">
+                              Signature {event.signatureValid ? "verified" : "failed"} · Event date{" "}
+                              {formatDateTime(event.eventDate)} · Processed {formatDateTime(event.processedAt)}
+                            </p>
+                            <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all">
+                              {JSON.stringify(event.payload, null, 2)}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
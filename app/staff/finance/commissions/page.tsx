@@ -1,9 +1,19 @@
 /**
  * Club 19 Sales OS — Finance Commissions Page (WS4)
  *
- * Per-shopper commission breakdown with flat-rate band calculation.
- * Shows cumulative profit, current band, commission amount, new client
- * bonus, and per-sale detail table with running total.
+ * Per-shopper commission breakdown with flat-rate or marginal band
+ * calculation (per scheme). Shows cumulative profit, current band,
+ * commission amount, new client bonus, and per-sale detail table with
+ * running total — plus the per-tier split of each sale on marginal schemes.
+ *
+ * Finance approves each shopper's month as an immutable statement. Once
+ * approved, the card shows the approved figure and any delta caused by
+ * later edits; re-approving creates the next statement version.
+ *
+ * Clawbacks of already-paid commission sit on the shopper's ledger and are
+ * netted against the month's total; the card shows the net figure payable.
+ * Credit notes on locked or paid sales raise clawback proposals, listed at
+ * the top of the page for finance to approve or reject.
  */
 
 "use client";
@@ -21,8 +31,12 @@ import {
   Award,
   Truck,
   AlertCircle,
+  CheckCircle,
+  Loader2,
 } from "lucide-react";
-import type { CommissionResult, SaleCommissionDetail, CommissionBand } from "@/lib/calculations/commission";
+import type { SaleCommissionDetail, CommissionBand } from "@/lib/calculations/commission";
+import type { CommissionWithStatement } from "@/lib/commission-statements";
+import type { ClawbackProposalDetail } from "@/lib/commission-ledger";
 
 // ============================================================================
 // TYPES
@@ -30,7 +44,7 @@ import type { CommissionResult, SaleCommissionDetail, CommissionBand } from "@/l
 
 interface CommissionsResponse {
   month: string;
-  shoppers: CommissionResult[];
+  shoppers: CommissionWithStatement[];
 }
 
 // ============================================================================
@@ -62,9 +76,14 @@ function monthLabel(monthStr: string): string {
   return d.toLocaleDateString("en-GB", { month: "long", year: "numeric" });
 }
 
+function formatDelta(value: number): string {
+  return `${value > 0 ? "+" : ""}${formatGBP(value)}`;
+}
+
 function bandLabel(band: CommissionBand): string {
   const min = band.min >= 1000 ? `£${(band.min / 1000).toFixed(0)}K` : `£${band.min}`;
-  if (band.max === Infinity) return `${min}+`;
+  // Top band's Infinity arrives as null once serialised to JSON
+  if (band.max === Infinity || band.max === null) return `${min}+`;
   const max = band.max >= 1000 ? `£${(band.max / 1000).toFixed(0)}K` : `£${band.max}`;
   return `${min}–${max}`;
 }
@@ -73,7 +92,253 @@ function bandLabel(band: CommissionBand): string {
 // COMPONENTS
 // ============================================================================
 
-function ShopperCard({ result }: { result: CommissionResult }) {
+function StatementPanel({
+  result,
+  onApproved,
+}: {
+  result: CommissionWithStatement;
+  onApproved: () => void;
+}) {
+  const [approving, setApproving] = useState(false);
+  const { statement, delta } = result;
+
+  const handleApprove = async () => {
+    const label = statement ? `version ${statement.version + 1}` : "this statement";
+    if (!confirm(`Approve ${label} for ${result.shopperName} at ${formatGBP(result.totalPayable)}?`)) {
+      return;
+    }
+    setApproving(true);
+    try {
+      const res = await fetch("/api/finance/commissions/statements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ shopperId: result.shopperId, month: result.month }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to approve statement");
+      }
+      onApproved();
+    } catch (err: any) {
+      alert(err.message || "Failed to approve statement");
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const approveButton = (
+    <button
+      onClick={handleApprove}
+      disabled={approving}
+      className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+    >
+      {approving && <Loader2 className="w-3 h-3 animate-spin" />}
+      {statement ? `Re-approve as v${statement.version + 1}` : "Approve statement"}
+    </button>
+  );
+
+  if (!statement) {
+    return (
+      <div className="mt-3 flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
+        <span className="text-sm text-gray-600">Not yet approved — figures are live</span>
+        {approveButton}
+      </div>
+    );
+  }
+
+  const approvedOn = new Date(statement.approvedAt).toLocaleDateString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+  if (!delta?.hasChanges) {
+    return (
+      <div className="mt-3 flex items-center gap-2 p-3 bg-green-50 rounded-lg border border-green-200 text-sm text-green-800">
+        <CheckCircle className="w-4 h-4" />
+        Approved v{statement.version} on {approvedOn} at {formatGBP(statement.totalPayable)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-amber-50 rounded-lg border border-amber-200 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-amber-900">
+          <span className="font-medium">Changed since approval</span> — v{statement.version} approved on{" "}
+          {approvedOn} at {formatGBP(statement.totalPayable)}; live figure{" "}
+          {formatGBP(result.totalPayable)}{" "}
+          <span className={delta.totalPayableDelta >= 0 ? "text-green-700 font-semibold" : "text-red-600 font-semibold"}>
+            ({formatDelta(delta.totalPayableDelta)})
+          </span>
+        </div>
+        {approveButton}
+      </div>
+      {delta.saleChanges.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-amber-800">
+          {delta.saleChanges.map((change) => (
+            <li key={change.saleId}>
+              {change.invoiceNumber}:{" "}
+              {change.change === "added" && <>added since approval ({formatGBP(change.after ?? 0)} comm. profit)</>}
+              {change.change === "removed" && <>no longer in this month ({formatGBP(change.before ?? 0)} comm. profit)</>}
+              {change.change === "changed" && (
+                <>
+                  comm. profit {formatGBP(change.before ?? 0)} → {formatGBP(change.after ?? 0)} ({formatDelta(change.profitDelta)})
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {delta.rateChanged && (
+        <p className="mt-1 text-xs text-amber-800">Band rate has changed since approval.</p>
+      )}
+    </div>
+  );
+}
+
+function LedgerPanel({ ledger }: { ledger: CommissionWithStatement["ledger"] }) {
+  if (!ledger.settled && ledger.broughtForward === 0) return null;
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <div className="text-xs text-gray-500 mb-0.5">Brought Forward</div>
+          <div className={ledger.broughtForward < 0 ? "font-semibold text-red-600" : "font-semibold text-gray-900"}>
+            {formatGBP(ledger.broughtForward)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 mb-0.5">{ledger.settled ? "Net Paid" : "Net Payable"}</div>
+          <div className="font-semibold text-green-700">{formatGBP(ledger.netPayable)}</div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 mb-0.5">Carried Forward</div>
+          <div className={ledger.carriedForward < 0 ? "font-semibold text-red-600" : "font-semibold text-gray-900"}>
+            {formatGBP(ledger.carriedForward)}
+          </div>
+        </div>
+      </div>
+      {ledger.broughtForward < 0 && !ledger.settled && (
+        <p className="mt-2 text-xs text-gray-500">
+          Clawed-back commission is deducted from this month&apos;s payment.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ClawbackProposalsPanel({ onReviewed }: { onReviewed: () => void }) {
+  const [proposals, setProposals] = useState<ClawbackProposalDetail[]>([]);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  const fetchProposals = useCallback(async () => {
+    try {
+      const res = await fetch("/api/finance/commissions/clawbacks?status=pending");
+      if (!res.ok) return;
+      const json = await res.json();
+      setProposals(json.proposals);
+    } catch {
+      // The panel is secondary — leave it empty rather than block the page
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
+
+  const handleReview = async (proposal: ClawbackProposalDetail, action: "approve" | "reject") => {
+    const invoice = proposal.invoiceNumber || proposal.saleReference || "this sale";
+    const message =
+      action === "approve"
+        ? `Claw back ${formatGBP(proposal.proposedAmount)} from ${proposal.shopperName || "the shopper"} for ${invoice}?`
+        : `Reject the clawback for ${invoice}? The commission stays as paid.`;
+    if (!confirm(message)) return;
+
+    setReviewing(proposal.id);
+    try {
+      const res = await fetch(`/api/finance/commissions/clawbacks/${proposal.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to review proposal");
+      }
+      await fetchProposals();
+      onReviewed();
+    } catch (err: any) {
+      alert(err.message || "Failed to review proposal");
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+      <p className="font-medium text-amber-900 mb-2">
+        Clawback proposals ({proposals.length}) — credit notes on locked or paid commission
+      </p>
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-amber-800">
+            <th className="py-1 pr-3 font-medium">Invoice</th>
+            <th className="py-1 pr-3 font-medium">Shopper</th>
+            <th className="py-1 pr-3 font-medium">Credit Note</th>
+            <th className="py-1 pr-3 font-medium text-right">Credited</th>
+            <th className="py-1 pr-3 font-medium text-right">Commission</th>
+            <th className="py-1 pr-3 font-medium text-right">Clawback</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody className="text-amber-900">
+          {proposals.map((proposal) => (
+            <tr key={proposal.id} className="border-t border-amber-200">
+              <td className="py-1.5 pr-3 font-medium">{proposal.invoiceNumber || proposal.saleReference || "—"}</td>
+              <td className="py-1.5 pr-3">{proposal.shopperName || "—"}</td>
+              <td className="py-1.5 pr-3">{proposal.creditNoteNumber || "—"}</td>
+              <td className="py-1.5 pr-3 text-right">
+                {formatGBP(proposal.creditedAmount)} of {formatGBP(proposal.saleTotal)}
+              </td>
+              <td className="py-1.5 pr-3 text-right">{formatGBP(proposal.commissionBase)}</td>
+              <td className="py-1.5 pr-3 text-right font-semibold text-red-600">
+                {formatGBP(-proposal.proposedAmount)}
+              </td>
+              <td className="py-1.5 text-right whitespace-nowrap">
+                <button
+                  onClick={() => handleReview(proposal, "approve")}
+                  disabled={reviewing === proposal.id}
+                  className="px-2 py-1 font-medium text-white bg-gray-900 rounded hover:bg-gray-800 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleReview(proposal, "reject")}
+                  disabled={reviewing === proposal.id}
+                  className="ml-1.5 px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ShopperCard({
+  result,
+  onApproved,
+}: {
+  result: CommissionWithStatement;
+  onApproved: () => void;
+}) {
   const [expanded, setExpanded] = useState(false);
 
   return (
@@ -106,7 +371,9 @@ function ShopperCard({ result }: { result: CommissionResult }) {
             </div>
           </div>
           <div>
-            <div className="text-xs text-gray-500 mb-1">Current Band</div>
+            <div className="text-xs text-gray-500 mb-1">
+              {result.bandMode === "marginal" ? "Top Tier (marginal)" : "Current Band"}
+            </div>
             <div className="text-lg font-bold text-gray-900">
               {result.currentBand ? (
                 <>
@@ -146,6 +413,10 @@ function ShopperCard({ result }: { result: CommissionResult }) {
             {formatGBP(result.totalPayable)}
           </span>
         </div>
+
+        <LedgerPanel ledger={result.ledger} />
+
+        <StatementPanel result={result} onApproved={onApproved} />
       </div>
 
       {/* Expand toggle */}
@@ -213,6 +484,20 @@ function ShopperCard({ result }: { result: CommissionResult }) {
                       <span className={sale.commissionableProfit > 0 ? "text-green-700" : "text-red-600"}>
                         {formatGBP(sale.commissionableProfit)}
                       </span>
+                      {sale.creditRatio !== undefined && (
+                        <div className="text-[11px] font-normal text-gray-500">
+                          {formatPercent(sale.creditRatio)} credited
+                        </div>
+                      )}
+                      {sale.tiers && sale.tiers.length > 0 && (
+                        <div className="text-[11px] font-normal text-gray-500">
+                          {sale.tiers.map((tier) => (
+                            <div key={tier.band.min}>
+                              {formatGBP(tier.profit)} @ {formatPercent(tier.band.rate)} = {formatGBP(tier.commission)}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="px-3 py-2 text-right font-semibold text-blue-700 whitespace-nowrap">
                       {formatGBP(sale.cumulativeProfit)}
@@ -280,7 +565,7 @@ export default function FinanceCommissionsPage() {
     <div>
       <PageHeader
         title="Commissions"
-        subtitle="Per-shopper commission calculation — flat-rate bands on cumulative monthly profit"
+        subtitle="Per-shopper commission calculation — bands on cumulative monthly profit"
       />
 
       {/* Month selector */}
@@ -308,8 +593,10 @@ export default function FinanceCommissionsPage() {
 
       {!loading && !error && data && (
         <div className="space-y-6">
+          <ClawbackProposalsPanel onReviewed={fetchData} />
+
           {data.shoppers.map((result) => (
-            <ShopperCard key={result.shopperId} result={result} />
+            <ShopperCard key={result.shopperId} result={result} onApproved={fetchData} />
           ))}
 
           {/* Delivery gate info */}
@@ -319,10 +606,12 @@ export default function FinanceCommissionsPage() {
               <p className="font-medium mb-1">Commission rules</p>
               <ul className="list-disc list-inside space-y-0.5 text-xs">
                 <li>Only delivered sales (delivery confirmed) are included in commission calculations.</li>
-                <li>Commission rate is flat — the band the cumulative total falls into applies to the entire amount.</li>
-                <li>New client bonus: 10% of commissionable profit on first-purchase sales.</li>
-                <li>MC: commission on net profit (VAT due on margin scheme sales is deducted).</li>
-                <li>Hope: commission on gross profit (VAT is not deducted).</li>
+                <li>Flat schemes: the band the cumulative total falls into applies to the entire amount. Marginal schemes: each slice of the total is paid at its own band&apos;s rate.</li>
+                <li>New client bonus: a percentage of commissionable profit on first-purchase sales, set per scheme.</li>
+                <li>Approved statements are frozen; later edits appear as a delta until the month is re-approved.</li>
+                <li>Clawed-back sales earn no commission. If already paid, the amount is deducted from the next payment; any shortfall carries forward.</li>
+                <li>Credit notes reduce a sale&apos;s commissionable profit by the share of the invoice credited. Once commission is locked or paid, a credit note instead raises a clawback proposal; approved proposals are deducted through the ledger.</li>
+                <li>Bands, VAT treatment and bonus rate come from the shopper&apos;s commission scheme version in force for the month (Admin → Commission Schemes).</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,273 @@
+/**
+ * Club 19 Sales OS — FX Rates Page
+ *
+ * The local rate table foreign-currency sales and purchases default to. One
+ * rate per currency per day, in units of the currency per £1 (Xero's
+ * convention); the wizard uses the latest rate on or before the sale date,
+ * for the invoice currency and each item's buy currency. Saving a rate
+ * for a day that already has one replaces it. Sales already created keep
+ * the rate they were booked at.
+ */
+
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { PageHeader } from "@/components/ui/PageHeader";
+import { LoadingBlock } from "@/components/ui/LoadingBlock";
+import { ErrorBlock } from "@/components/ui/ErrorBlock";
+import { AlertCircle, Loader2, Plus, Trash2 } from "lucide-react";
+import { CURRENCIES } from "@/lib/constants";
+import { BASE_CURRENCY } from "@/lib/calculations/fx";
+import type { FxRateDetail } from "@/lib/fx-rates";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const FOREIGN_CURRENCIES = CURRENCIES.filter((c) => c.code !== BASE_CURRENCY);
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function FxRatesPage() {
+  const [rates, setRates] = useState<FxRateDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+
+  // Add form
+  const [currency, setCurrency] = useState<string>(FOREIGN_CURRENCIES[0]?.code ?? "USD");
+  const [rateDate, setRateDate] = useState(today);
+  const [rate, setRate] = useState("");
+  const [source, setSource] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/fx-rates${filter ? `?currency=${filter}` : ""}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to load FX rates");
+      }
+      const data = await res.json();
+      setRates(data.rates);
+    } catch (err: any) {
+      setError(err.message || "Failed to load FX rates");
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/fx-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          currency,
+          rateDate,
+          rate: parseFloat(rate),
+          source: source.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to save FX rate");
+      }
+      setRate("");
+      await fetchData();
+    } catch (err: any) {
+      setFormError(err.message || "Failed to save FX rate");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (fxRate: FxRateDetail) => {
+    if (!confirm(`Delete the ${fxRate.currency} rate for ${formatDate(fxRate.rateDate)}?`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/fx-rates/${fxRate.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to delete FX rate");
+      }
+      await fetchData();
+    } catch (err: any) {
+      alert(err.message || "Failed to delete FX rate");
+    }
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="FX Rates"
+        subtitle="Default exchange rates for sales invoiced in other currencies"
+      />
+
+      <div className="space-y-6">
+        <form
+          onSubmit={handleAdd}
+          className="bg-white rounded-xl border border-gray-200 shadow-sm p-6"
+        >
+          <h2 className="text-base font-semibold text-gray-900 mb-4">Add a rate</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Currency</label>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {FOREIGN_CURRENCIES.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.code} ({c.symbol})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Date</label>
+              <input
+                type="date"
+                value={rateDate}
+                onChange={(e) => setRateDate(e.target.value)}
+                required
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{currency} per £1</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={rate}
+                onChange={(e) => {
+                  if (e.target.value === "" || /^\d*\.?\d*$/.test(e.target.value)) {
+                    setRate(e.target.value);
+                  }
+                }}
+                placeholder="e.g. 1.2700"
+                required
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Source (optional)</label>
+              <input
+                type="text"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="e.g. Bank of England"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !rate}
+              className="inline-flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Save rate
+            </button>
+          </div>
+          {formError && <p className="mt-3 text-sm text-red-600">{formError}</p>}
+        </form>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+            <h2 className="text-base font-semibold text-gray-900">Rate table</h2>
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="border border-gray-300 rounded-md px-2 py-1 text-xs"
+            >
+              <option value="">All currencies</option>
+              {FOREIGN_CURRENCIES.map((c) => (
+                <option key={c.code} value={c.code}>
+                  {c.code}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {loading && <LoadingBlock message="Loading FX rates..." />}
+
+          {error && <ErrorBlock message={error} onRetry={fetchData} />}
+
+          {!loading && !error && rates.length === 0 && (
+            <p className="px-6 py-8 text-sm text-center text-gray-500">No rates yet.</p>
+          )}
+
+          {!loading && !error && rates.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500">
+                  <tr>
+                    <th className="px-6 py-2 text-left font-medium">Date</th>
+                    <th className="px-3 py-2 text-left font-medium">Currency</th>
+                    <th className="px-3 py-2 text-right font-medium">Per £1</th>
+                    <th className="px-3 py-2 text-left font-medium">Source</th>
+                    <th className="px-6 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rates.map((fxRate) => (
+                    <tr key={fxRate.id}>
+                      <td className="px-6 py-2 text-gray-600 whitespace-nowrap">{formatDate(fxRate.rateDate)}</td>
+                      <td className="px-3 py-2 font-medium text-gray-900">{fxRate.currency}</td>
+                      <td className="px-3 py-2 text-right text-gray-900">{fxRate.rate}</td>
+                      <td className="px-3 py-2 text-gray-500">{fxRate.source || "—"}</td>
+                      <td className="px-6 py-2 text-right">
+                        <button
+                          onClick={() => handleDelete(fxRate)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete rate"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-blue-700">
+            <p className="font-medium mb-1">How rates are used</p>
+            <ul className="list-disc list-inside space-y-0.5 text-xs">
+              <li>New sales in another currency default to the latest rate on or before the sale date.</li>
+              <li>Shoppers can enter a different rate by hand; the sale records which was used.</li>
+              <li>Realised FX gains and losses come from the rates Xero applies to each payment.</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
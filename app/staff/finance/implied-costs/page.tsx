@@ -0,0 +1,463 @@
+/**
+ * Club 19 Sales OS — Implied Costs Page
+ *
+ * The rules new deals are costed with: which shipping region each country
+ * is in, the average cost of each route between regions, the card fee rate
+ * per payment method and default Entrupy fees per item category. Saving a
+ * rule for a key that already has one replaces it; a rule type with no rows
+ * uses the built-in defaults.
+ *
+ * Below the rules, each route's implied cost is set against the average
+ * logistics costs entered on the sales costed on it, and each category's
+ * Entrupy default against the fees paid, so the averages can be
+ * recalibrated from real sales in one click.
+ */
+
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { PageHeader } from "@/components/ui/PageHeader";
+import { LoadingBlock } from "@/components/ui/LoadingBlock";
+import { ErrorBlock } from "@/components/ui/ErrorBlock";
+import { AlertCircle, Loader2, Plus, Trash2 } from "lucide-react";
+import type { ImpliedCostRules } from "@/lib/implied-costs";
+import type { ImpliedCostReport, ImpliedCostRuleDetail } from "@/lib/implied-cost-rules";
+import type { ImpliedCostRuleType } from "@/lib/schemas/implied-cost-rule";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const RULE_TYPES: { value: ImpliedCostRuleType; label: string; keyLabel: string; keyPlaceholder: string }[] = [
+  { value: "region", label: "Region", keyLabel: "Country", keyPlaceholder: "e.g. Monaco" },
+  { value: "route", label: "Shipping route", keyLabel: "Route", keyPlaceholder: "e.g. EU_UK or DEFAULT" },
+  { value: "card_fee", label: "Card fee", keyLabel: "Payment method", keyPlaceholder: "CARD" },
+  { value: "entrupy", label: "Entrupy fee", keyLabel: "Category", keyPlaceholder: "e.g. bag or default" },
+];
+
+function formatGBP(value: number): string {
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: "GBP",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatRuleValue(rule: ImpliedCostRuleDetail): string {
+  if (rule.ruleType === "region") return rule.region ?? "—";
+  if (rule.amount === null) return "—";
+  if (rule.ruleType === "card_fee") return `${parseFloat((rule.amount * 100).toFixed(2))}%`;
+  return formatGBP(rule.amount);
+}
+
+function formatRoute(route: string): string {
+  return route.replace("_", " → ");
+}
+
+function twelveMonthsAgo(): string {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function ImpliedCostsPage() {
+  const [entries, setEntries] = useState<ImpliedCostRuleDetail[]>([]);
+  const [rules, setRules] = useState<ImpliedCostRules | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add form
+  const [ruleType, setRuleType] = useState<ImpliedCostRuleType>("route");
+  const [key, setKey] = useState("");
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Calibration report
+  const [since, setSince] = useState(twelveMonthsAgo);
+  const [report, setReport] = useState<ImpliedCostReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(true);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch("/api/implied-cost-rules?view=table");
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to load implied cost rules");
+      }
+      const data = await res.json();
+      setEntries(data.entries);
+      setRules(data.rules);
+    } catch (err: any) {
+      setError(err.message || "Failed to load implied cost rules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setReportLoading(true);
+      setReportError(null);
+      const res = await fetch(`/api/finance/implied-costs?since=${since}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to load implied cost report");
+      }
+      setReport(await res.json());
+    } catch (err: any) {
+      setReportError(err.message || "Failed to load implied cost report");
+    } finally {
+      setReportLoading(false);
+    }
+  }, [since]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const saveRule = async (body: Record<string, unknown>) => {
+    const res = await fetch("/api/implied-cost-rules", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      throw new Error(err.error || "Failed to save rule");
+    }
+    await Promise.all([fetchRules(), fetchReport()]);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const amount = parseFloat(value);
+      await saveRule(
+        ruleType === "region"
+          ? { ruleType, key: key.trim(), region: value.trim() }
+          : {
+              ruleType,
+              key: ruleType === "card_fee" ? key.trim().toUpperCase() : key.trim(),
+              // Card fees are typed as a percentage and stored as a fraction
+              amount: ruleType === "card_fee" ? amount / 100 : amount,
+            }
+      );
+      setKey("");
+      setValue("");
+    } catch (err: any) {
+      setFormError(err.message || "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecalibrate = async (body: Record<string, unknown>, label: string) => {
+    if (!confirm(`Set ${label}?`)) return;
+    try {
+      await saveRule(body);
+    } catch (err: any) {
+      alert(err.message || "Failed to save rule");
+    }
+  };
+
+  const handleDelete = async (rule: ImpliedCostRuleDetail) => {
+    if (!confirm(`Delete the ${rule.ruleType.replace("_", " ")} rule for ${rule.key}?`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/implied-cost-rules/${rule.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to delete rule");
+      }
+      await Promise.all([fetchRules(), fetchReport()]);
+    } catch (err: any) {
+      alert(err.message || "Failed to delete rule");
+    }
+  };
+
+  const selectedType = RULE_TYPES.find((t) => t.value === ruleType)!;
+
+  return (
+    <div>
+      <PageHeader
+        title="Implied Costs"
+        subtitle="Shipping, card fee and Entrupy defaults new deals are costed with"
+      />
+
+      <div className="space-y-6">
+        <form
+          onSubmit={handleAdd}
+          className="bg-white rounded-xl border border-gray-200 shadow-sm p-6"
+        >
+          <h2 className="text-base font-semibold text-gray-900 mb-4">Add or update a rule</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Rule</label>
+              <select
+                value={ruleType}
+                onChange={(e) => setRuleType(e.target.value as ImpliedCostRuleType)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {RULE_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{selectedType.keyLabel}</label>
+              <input
+                type="text"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                placeholder={selectedType.keyPlaceholder}
+                required
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                {ruleType === "region" ? "Region" : ruleType === "card_fee" ? "Fee %" : "Amount (£)"}
+              </label>
+              <input
+                type="text"
+                inputMode={ruleType === "region" ? "text" : "decimal"}
+                value={value}
+                onChange={(e) => {
+                  if (ruleType === "region" || e.target.value === "" || /^\d*\.?\d*$/.test(e.target.value)) {
+                    setValue(e.target.value);
+                  }
+                }}
+                placeholder={ruleType === "region" ? "e.g. EU" : ruleType === "card_fee" ? "e.g. 2.4" : "e.g. 140"}
+                required
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving || !key || !value}
+              className="inline-flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Save rule
+            </button>
+          </div>
+          {formError && <p className="mt-3 text-sm text-red-600">{formError}</p>}
+        </form>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-100">
+            <h2 className="text-base font-semibold text-gray-900">Rules</h2>
+          </div>
+
+          {loading && <LoadingBlock message="Loading implied cost rules..." />}
+
+          {error && <ErrorBlock message={error} onRetry={fetchRules} />}
+
+          {!loading && !error && (
+            <div className="divide-y divide-gray-100">
+              {RULE_TYPES.map((type) => {
+                const rows = entries.filter((rule) => rule.ruleType === type.value);
+                return (
+                  <div key={type.value} className="px-6 py-4">
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">{type.label}</h3>
+                    {rows.length === 0 ? (
+                      <p className="text-xs text-gray-500">No rules — using the built-in defaults.</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {rows.map((rule) => (
+                          <span
+                            key={rule.id}
+                            className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs bg-gray-50 border border-gray-200 rounded-md"
+                          >
+                            <span className="text-gray-600">
+                              {rule.ruleType === "route" ? formatRoute(rule.key) : rule.key}
+                            </span>
+                            <span className="font-medium text-gray-900">{formatRuleValue(rule)}</span>
+                            <button
+                              onClick={() => handleDelete(rule)}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Delete rule"
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+            <h2 className="text-base font-semibold text-gray-900">Implied vs actual shipping</h2>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              Sales since
+              <input
+                type="date"
+                value={since}
+                onChange={(e) => e.target.value && setSince(e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1 text-xs"
+              />
+            </label>
+          </div>
+
+          {reportLoading && <LoadingBlock message="Loading report..." />}
+
+          {reportError && <ErrorBlock message={reportError} onRetry={fetchReport} />}
+
+          {!reportLoading && !reportError && report && (
+            <>
+              {report.shipping.length === 0 ? (
+                <p className="px-6 py-8 text-sm text-center text-gray-500">
+                  No sales with logistics costs recorded yet.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-xs text-gray-500">
+                      <tr>
+                        <th className="px-6 py-2 text-left font-medium">Route</th>
+                        <th className="px-3 py-2 text-right font-medium">Sales</th>
+                        <th className="px-3 py-2 text-right font-medium">Implied</th>
+                        <th className="px-3 py-2 text-right font-medium">Avg estimate</th>
+                        <th className="px-3 py-2 text-right font-medium">Avg actual</th>
+                        <th className="px-3 py-2 text-right font-medium">Variance</th>
+                        <th className="px-6 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {report.shipping.map((row) => (
+                        <tr key={row.route}>
+                          <td className="px-6 py-2 font-medium text-gray-900">{formatRoute(row.route)}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">{row.sales}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatGBP(row.impliedCost)}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">
+                            {row.averageEstimate === null ? "—" : formatGBP(row.averageEstimate)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatGBP(row.averageActual)}</td>
+                          <td
+                            className={`px-3 py-2 text-right font-medium ${
+                              row.variance > 0 ? "text-red-600" : row.variance < 0 ? "text-green-600" : "text-gray-600"
+                            }`}
+                          >
+                            {row.variance > 0 ? "+" : ""}
+                            {formatGBP(row.variance)}
+                          </td>
+                          <td className="px-6 py-2 text-right">
+                            {row.variance !== 0 && (
+                              <button
+                                onClick={() =>
+                                  handleRecalibrate(
+                                    { ruleType: "route", key: row.route, amount: Math.round(row.averageActual) },
+                                    `${formatRoute(row.route)} to ${formatGBP(Math.round(row.averageActual))}`
+                                  )
+                                }
+                                className="text-xs font-medium text-purple-600 hover:text-purple-800 whitespace-nowrap"
+                              >
+                                Use actual
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {report.awaitingCosts > 0 && (
+                <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-100">
+                  {report.awaitingCosts} costed sale{report.awaitingCosts === 1 ? "" : "s"} still
+                  awaiting logistics costs.
+                </p>
+              )}
+
+              <div className="px-6 py-4 border-t border-gray-100">
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Entrupy fees</h3>
+                {report.entrupy.length === 0 ? (
+                  <p className="text-xs text-gray-500">No Entrupy fees recorded in the period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-xs text-gray-500">
+                      <tr>
+                        <th className="py-1 text-left font-medium">Category</th>
+                        <th className="px-3 py-1 text-right font-medium">Sales</th>
+                        <th className="px-3 py-1 text-right font-medium">Default per unit</th>
+                        <th className="px-3 py-1 text-right font-medium">Avg paid per unit</th>
+                        <th className="py-1" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {report.entrupy.map((row) => (
+                        <tr key={row.category}>
+                          <td className="py-2 font-medium text-gray-900 capitalize">{row.category}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">{row.sales}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatGBP(row.defaultFee)}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{formatGBP(row.averageFee)}</td>
+                          <td className="py-2 text-right">
+                            {row.averageFee !== row.defaultFee && (
+                              <button
+                                onClick={() =>
+                                  handleRecalibrate(
+                                    { ruleType: "entrupy", key: row.category, amount: row.averageFee },
+                                    `the ${row.category} Entrupy fee to ${formatGBP(row.averageFee)}`
+                                  )
+                                }
+                                className="text-xs font-medium text-purple-600 hover:text-purple-800 whitespace-nowrap"
+                              >
+                                Use actual
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-blue-700">
+            <p className="font-medium mb-1">How implied costs are used</p>
+            <ul className="list-disc list-inside space-y-0.5 text-xs">
+              <li>
+                Countries with no region rule ship as &quot;Other&quot;; routes with no rule cost the DEFAULT
+                route{rules ? ` (${formatGBP(rules.defaultShipping)})` : ""}.
+              </li>
+              <li>A deal with several items is costed on its dearest route.</li>
+              <li>The wizard suggests the route cost and Entrupy default; shoppers can change either.</li>
+              <li>Actual costs are the DHL, Addison Lee, taxi, hand delivery and other costs entered on the sale.</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
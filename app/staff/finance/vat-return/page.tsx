@@ -0,0 +1,268 @@
+/**
+ * Club 19 Sales OS — VAT Return Page
+ *
+ * The sales side of the quarterly VAT return in HMRC's nine-box layout:
+ * standard-rated output VAT, zero-rated exports and margin scheme sales
+ * (with VAT on the margin), plus every sale behind the figures. Sales whose
+ * stored VAT disagrees with their branding theme are flagged for checking
+ * before the return is filed. Each entity files its own return; the picker
+ * limits the figures to one. Exports as CSV.
+ */
+
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useSearchParams } from "next/navigation";
+import { PageHeader } from "@/components/ui/PageHeader";
+import { EntityPicker } from "@/components/ui/EntityPicker";
+import { LoadingBlock } from "@/components/ui/LoadingBlock";
+import { ErrorBlock } from "@/components/ui/ErrorBlock";
+import { ChevronLeft, ChevronRight, AlertCircle, AlertTriangle, Download } from "lucide-react";
+import type { VatReturn, VatTreatment } from "@/lib/vat-return";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatGBP(value: number): string {
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: "GBP",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function currentQuarter(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-Q${Math.floor(now.getMonth() / 3) + 1}`;
+}
+
+function shiftQuarter(quarter: string, delta: number): string {
+  const [y, q] = quarter.split("-Q").map(Number);
+  const index = y * 4 + (q - 1) + delta;
+  return `${Math.floor(index / 4)}-Q${(index % 4) + 1}`;
+}
+
+const TREATMENT_LABELS: Record<VatTreatment, string> = {
+  standard: "Standard 20%",
+  zero_rated: "Zero-rated export",
+  margin_scheme: "Margin scheme",
+  unclassified: "Unknown theme",
+};
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function VatReturnPage() {
+  const entity = useSearchParams().get("entity");
+  const [entities, setEntities] = useState<Array<{ id: string; name: string }>>([]);
+  const [data, setData] = useState<VatReturn | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [quarter, setQuarter] = useState(currentQuarter);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const query = `quarter=${quarter}${entity ? `&entity=${entity}` : ""}`;
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/finance/vat-return?${query}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to load VAT return");
+      }
+      setData(await res.json());
+    } catch (err: any) {
+      setError(err.message || "Failed to load VAT return");
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    fetch("/api/entities")
+      .then((res) => (res.ok ? res.json() : { entities: [] }))
+      .then((body) => setEntities(body.entities))
+      .catch(() => setEntities([]));
+  }, []);
+
+  const visibleSales = data ? data.sales.filter((sale) => !flaggedOnly || sale.flags.length > 0) : [];
+
+  return (
+    <div>
+      <PageHeader
+        title="VAT Return"
+        subtitle="Quarterly VAT figures from sales — nine-box layout"
+      />
+
+      {/* Quarter and entity selectors */}
+      <div className="flex items-center justify-center gap-4 mb-6">
+        <button
+          onClick={() => setQuarter(shiftQuarter(quarter, -1))}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <ChevronLeft className="w-5 h-5 text-gray-600" />
+        </button>
+        <span className="text-lg font-semibold text-gray-900 min-w-[180px] text-center">
+          {quarter.replace("-", " ")}
+        </span>
+        <button
+          onClick={() => setQuarter(shiftQuarter(quarter, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          <ChevronRight className="w-5 h-5 text-gray-600" />
+        </button>
+        <EntityPicker entities={entities} />
+      </div>
+
+      {loading && <LoadingBlock message="Building VAT return..." />}
+
+      {error && <ErrorBlock message={error} onRetry={fetchData} />}
+
+      {!loading && !error && data && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+              <div>
+                <h2 className="text-base font-semibold text-gray-900">Nine-box summary</h2>
+                <p className="text-xs text-gray-500">
+                  {data.entity ? `${data.entity.name} · ` : ""}
+                  {formatDate(data.periodStart)} – {formatDate(data.periodEnd)} · {data.sales.length} sales
+                </p>
+              </div>
+              <a
+                href={`/api/finance/vat-return?${query}&format=csv`}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800"
+              >
+                <Download className="w-3 h-3" />
+                Export CSV
+              </a>
+            </div>
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {data.boxes.map((box) => (
+                  <tr key={box.box}>
+                    <td className="px-6 py-2 font-medium text-gray-500 whitespace-nowrap">Box {box.box}</td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {box.label}
+                      {box.note && <span className="block text-xs text-gray-400">{box.note}</span>}
+                    </td>
+                    <td className="px-6 py-2 text-right font-semibold text-gray-900 whitespace-nowrap">
+                      {box.box >= 6 ? `£${box.amount.toLocaleString("en-GB")}` : formatGBP(box.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm">
+              <p className="text-xs font-medium text-gray-500">Standard-rated</p>
+              <p className="text-lg font-semibold text-gray-900">{formatGBP(data.summary.standardNet)}</p>
+              <p className="text-xs text-gray-500">VAT {formatGBP(data.summary.standardVat)}</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm">
+              <p className="text-xs font-medium text-gray-500">Zero-rated exports</p>
+              <p className="text-lg font-semibold text-gray-900">{formatGBP(data.summary.zeroRatedNet)}</p>
+              <p className="text-xs text-gray-500">No VAT due</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm">
+              <p className="text-xs font-medium text-gray-500">Margin scheme</p>
+              <p className="text-lg font-semibold text-gray-900">{formatGBP(data.summary.marginSchemeSales)}</p>
+              <p className="text-xs text-gray-500">VAT on margin {formatGBP(data.summary.marginSchemeVat)}</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+              <h2 className="text-base font-semibold text-gray-900">Sales</h2>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={flaggedOnly}
+                  onChange={(e) => setFlaggedOnly(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Flagged only ({data.flaggedCount})
+              </label>
+            </div>
+            {visibleSales.length === 0 ? (
+              <p className="px-6 py-8 text-sm text-center text-gray-500">No sales to show.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Date</th>
+                      <th className="px-3 py-2 text-left font-medium">Invoice</th>
+                      <th className="px-3 py-2 text-left font-medium">Buyer</th>
+                      <th className="px-3 py-2 text-left font-medium">Treatment</th>
+                      <th className="px-3 py-2 text-right font-medium">Box 6</th>
+                      <th className="px-3 py-2 text-right font-medium">Box 1</th>
+                      <th className="px-3 py-2 text-right font-medium">Stored VAT</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleSales.map((sale) => (
+                      <tr key={sale.saleId} className={sale.flags.length > 0 ? "bg-amber-50/60" : ""}>
+                        <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{formatDate(sale.saleDate)}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <a href={`/sales/${sale.saleId}`} className="font-medium text-gray-900 hover:underline">
+                            {sale.invoiceNumber || sale.saleReference || "—"}
+                          </a>
+                          {sale.items.length > 0 && (
+                            <div className="text-[11px] text-gray-500 max-w-[220px] truncate">{sale.items.join(", ")}</div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600 whitespace-nowrap max-w-[140px] truncate">{sale.buyerName}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {TREATMENT_LABELS[sale.treatment]}
+                          {sale.flags.map((flag) => (
+                            <div key={flag} className="flex items-start gap-1 text-[11px] text-amber-800">
+                              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                              {flag}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-900 whitespace-nowrap">{formatGBP(sale.netValue)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900 whitespace-nowrap">
+                          {sale.outputVat !== 0 ? formatGBP(sale.outputVat) : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-500 whitespace-nowrap">{formatGBP(sale.storedVat)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-blue-700">
+              <p className="font-medium mb-1">How the figures are built</p>
+              <ul className="list-disc list-inside space-y-0.5 text-xs">
+                <li>Only issued invoices (submitted, awaiting payment or paid) dated in the quarter are included.</li>
+                <li>Margin scheme sales add 1/6 of each positive margin to Box 1 and the selling price less that VAT to Box 6.</li>
+                <li>Boxes 4 and 7 need purchase figures from Xero; Box 5 here is before input VAT.</li>
+                <li>Sales on an unknown branding theme are left out of the totals until the theme is configured.</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
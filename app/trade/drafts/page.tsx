@@ -0,0 +1,256 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useUser } from "@clerk/nextjs";
+import { ArrowRightLeft, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface DraftRow {
+  id: string;
+  ownerUserId: string;
+  ownerName: string | null;
+  title: string;
+  itemCount: number;
+  handedOverBy: string | null;
+  handedOverAt: string | null;
+  updatedAt: string;
+}
+
+interface Recipient {
+  userId: string;
+  name: string;
+}
+
+type Scope = "mine" | "all";
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * My Drafts — New Sale wizard drafts saved on the server. Resume one on any
+ * device, discard it, or hand it to a colleague. Managers also get an
+ * "Everyone" tab (the API answers 403 for everyone else, which hides it).
+ */
+export default function DraftsPage() {
+  const { user } = useUser();
+  const [scope, setScope] = useState<Scope>("mine");
+  const [drafts, setDrafts] = useState<DraftRow[]>([]);
+  const [canSeeAll, setCanSeeAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [handOverId, setHandOverId] = useState<string | null>(null);
+  const [handOverTo, setHandOverTo] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadDrafts = useCallback(async (which: Scope) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(which === "all" ? "/api/deal-drafts?scope=all" : "/api/deal-drafts");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load drafts");
+      setDrafts(data.drafts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load drafts");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDrafts(scope);
+  }, [scope, loadDrafts]);
+
+  useEffect(() => {
+    fetch("/api/deal-drafts?scope=all")
+      .then((res) => setCanSeeAll(res.ok))
+      .catch(() => setCanSeeAll(false));
+    fetch("/api/deal-drafts/recipients")
+      .then((res) => (res.ok ? res.json() : { recipients: [] }))
+      .then((data) => setRecipients(data.recipients))
+      .catch(() => setRecipients([]));
+  }, []);
+
+  const handleDelete = async (draft: DraftRow) => {
+    if (!confirm(`Discard "${draft.title}"? This can't be undone.`)) return;
+    setBusyId(draft.id);
+    try {
+      const res = await fetch(`/api/deal-drafts/${draft.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || "Failed to discard draft");
+        return;
+      }
+      setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
+    } catch {
+      alert("Failed to discard draft");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleHandOver = async (draft: DraftRow) => {
+    if (!handOverTo) return;
+    setBusyId(draft.id);
+    try {
+      const res = await fetch(`/api/deal-drafts/${draft.id}/handover`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ toUserId: handOverTo }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to hand over draft");
+        return;
+      }
+      setDrafts((prev) =>
+        scope === "mine"
+          ? prev.filter((d) => d.id !== draft.id)
+          : prev.map((d) => (d.id === draft.id ? data.draft : d))
+      );
+      setHandOverId(null);
+      setHandOverTo("");
+    } catch {
+      alert("Failed to hand over draft");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-xl sm:text-3xl font-bold text-gray-900">My Drafts</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Deals in progress in the New Sale wizard. Drafts are saved as you go and kept until the sale is created or the draft is discarded.
+          </p>
+        </div>
+        <Link
+          href="/trade/new"
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors whitespace-nowrap"
+        >
+          <Plus size={16} />
+          New Deal
+        </Link>
+      </div>
+
+      {canSeeAll && (
+        <div className="flex gap-2 mb-4">
+          {(["mine", "all"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setScope(value)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                scope === value ? "bg-purple-100 text-purple-800" : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {value === "mine" ? "Mine" : "Everyone"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12 text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : drafts.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-12 text-center">
+          <h3 className="text-sm font-medium text-gray-900">No drafts</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Start a deal in the New Sale wizard and it&apos;s saved here automatically.
+          </p>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg border border-gray-200 shadow-sm divide-y divide-gray-200">
+          {drafts.map((draft) => {
+            const isMine = draft.ownerUserId === user?.id;
+            return (
+              <li key={draft.id} className="p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{draft.title}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {draft.itemCount} item{draft.itemCount !== 1 ? "s" : ""} · saved {formatTime(draft.updatedAt)}
+                      {!isMine && draft.ownerName && ` · ${draft.ownerName}`}
+                      {draft.handedOverBy && ` · handed over by ${draft.handedOverBy}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm font-medium">
+                    {isMine && (
+                      <Link href={`/trade/new?draft=${draft.id}`} className="text-purple-600 hover:text-purple-900">
+                        Resume
+                      </Link>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setHandOverId(handOverId === draft.id ? null : draft.id);
+                        setHandOverTo("");
+                      }}
+                      className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-900"
+                    >
+                      <ArrowRightLeft className="w-4 h-4" />
+                      Hand over
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(draft)}
+                      disabled={busyId === draft.id}
+                      className="inline-flex items-center gap-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Discard
+                    </button>
+                  </div>
+                </div>
+
+                {handOverId === draft.id && (
+                  <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                    <select
+                      value={handOverTo}
+                      onChange={(e) => setHandOverTo(e.target.value)}
+                      className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                    >
+                      <option value="">Hand over to…</option>
+                      {recipients
+                        .filter((r) => r.userId !== draft.ownerUserId)
+                        .map((r) => (
+                          <option key={r.userId} value={r.userId}>
+                            {r.name}
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleHandOver(draft)}
+                      disabled={!handOverTo || busyId === draft.id}
+                      className="inline-flex items-center justify-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      {busyId === draft.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Hand Over
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ function SuccessContent() {
   const currency = searchParams.get("currency") || "GBP";
   const invoiceUrl = searchParams.get("url") || "";
   const saleId = searchParams.get("saleId") || "";
+  const supplierBills = searchParams.get("supplierBills");
 
   const [pdfLoading, setPdfLoading] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
@@ -165,6 +166,15 @@ function SuccessContent() {
                 </div>
               </div>
 
+              {supplierBills !== null && (
+                <div className="pt-4 border-t border-gray-100">
+                  <p className="text-sm font-medium text-gray-500 mb-1">Supplier Bills</p>
+                  <p className="text-sm text-gray-700">
+                    {supplierBills === "1" ? "1 draft bill" : `${supplierBills} draft bills`} raised in Xero
+                  </p>
+                </div>
+              )}
+
               {/* Invoice ID - Full Width */}
               <div className="pt-4 border-t border-gray-100">
                 <p className="text-sm font-medium text-gray-500 mb-1">Invoice ID</p>
@@ -36,6 +36,7 @@ import {
   Trash2,
   TrendingUp,
   Handshake,
+  ClipboardList,
   MoreHorizontal,
 } from "lucide-react";
 
@@ -55,6 +56,7 @@ const iconMap: Record<string, React.ElementType> = {
   Trash2,
   TrendingUp,
   Handshake,
+  ClipboardList,
 };
 
 interface TabConfig {
@@ -30,6 +30,7 @@ import {
   Trash2,
   TrendingUp,
   Handshake,
+  ClipboardList,
 } from "lucide-react";
 
 /**
@@ -72,6 +73,7 @@ const iconMap = {
   Trash2,
   TrendingUp,
   Handshake,
+  ClipboardList,
 };
 
 interface SidebarProps {
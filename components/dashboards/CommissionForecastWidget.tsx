@@ -0,0 +1,252 @@
+'use client';
+
+/**
+ * Club 19 Sales OS - Commission Forecast Widget
+ *
+ * Shopper dashboard card for the current month: cumulative commissionable
+ * profit, the next band boundary and how much more profit reaches it, plus a
+ * "what if I close this deal" calculator backed by
+ * /api/shoppers/[id]/commission-forecast.
+ */
+
+import { useEffect, useState } from 'react';
+import { Loader2, TrendingUp } from 'lucide-react';
+import { MoneyInput } from '@/components/ui/MoneyInput';
+import { useBrandingThemes } from '@/lib/hooks/useBrandingThemes';
+import type { CommissionForecast } from '@/lib/calculations/commission';
+
+interface CommissionForecastWidgetProps {
+  shopperId: string;
+}
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+const formatChange = (amount: number) =>
+  `${amount >= 0 ? '+' : '−'}${formatCurrency(Math.abs(amount))}`;
+
+export function CommissionForecastWidget({ shopperId }: CommissionForecastWidgetProps) {
+  const [forecast, setForecast] = useState<CommissionForecast | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [forecasting, setForecasting] = useState(false);
+  const [forecastError, setForecastError] = useState<string | null>(null);
+
+  const [sellPrice, setSellPrice] = useState('');
+  const [buyPrice, setBuyPrice] = useState('');
+  const [costs, setCosts] = useState('');
+  // Only the active "with link" themes — the VAT treatment is all that matters here
+  const themeOptions = useBrandingThemes().filter((theme) => theme.noLinkVariantId !== null);
+  const [brandingTheme, setBrandingTheme] = useState(themeOptions[0]?.id ?? '');
+  const [isNewClient, setIsNewClient] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/shoppers/${shopperId}/commission-forecast`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load forecast');
+        if (!cancelled) setForecast(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load forecast');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shopperId]);
+
+  const handleForecast = async () => {
+    if (!sellPrice || !buyPrice) {
+      setForecastError('Enter a sell and buy price');
+      return;
+    }
+    setForecasting(true);
+    setForecastError(null);
+    try {
+      const res = await fetch(`/api/shoppers/${shopperId}/commission-forecast`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sellPrice: parseFloat(sellPrice),
+          buyPrice: parseFloat(buyPrice),
+          costs: costs ? parseFloat(costs) : 0,
+          brandingTheme: brandingTheme || null,
+          isNewClient,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to forecast deal');
+      setForecast(data);
+    } catch (err) {
+      setForecastError(err instanceof Error ? err.message : 'Failed to forecast deal');
+    } finally {
+      setForecasting(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Commission Forecast</h2>
+        <p className="text-sm text-gray-500">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (!forecast) {
+    return (
+      <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading commission forecast...
+      </div>
+    );
+  }
+
+  const { current, nextBand, profitToNextBand, projection } = forecast;
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+      <div className="flex items-start gap-3 mb-4">
+        <TrendingUp className="w-5 h-5 text-purple-600 flex-shrink-0 mt-0.5" />
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Commission Forecast</h2>
+          <p className="text-sm text-gray-500">
+            {forecast.month} · assumes every sale this month is delivered
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Commissionable Profit</h3>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(current.cumulativeProfit)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {current.currentBand
+              ? `${formatRate(current.commissionRate)} band${forecast.bandMode === 'marginal' ? ' (top slice)' : ''}`
+              : 'No band reached'}
+          </p>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Commission</h3>
+          <p className="text-2xl font-bold text-purple-600">{formatCurrency(current.totalPayable)}</p>
+          <p className="text-xs text-gray-500 mt-1">Including new client bonus</p>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Next Band</h3>
+          {nextBand && profitToNextBand !== null ? (
+            <>
+              <p className="text-2xl font-bold text-green-600">{formatCurrency(profitToNextBand)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                more profit reaches {formatRate(nextBand.rate)} at {formatCurrency(nextBand.min)}
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-2xl font-bold text-gray-900">—</p>
+              <p className="text-xs text-gray-500 mt-1">You&apos;re in the top band</p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">What if I close this deal?</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-3">
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Sell (ex VAT)</span>
+            <MoneyInput
+              value={sellPrice}
+              onChange={setSellPrice}
+              className="mt-1 w-full py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Buy</span>
+            <MoneyInput
+              value={buyPrice}
+              onChange={setBuyPrice}
+              className="mt-1 w-full py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Costs</span>
+            <MoneyInput
+              value={costs}
+              onChange={setCosts}
+              className="mt-1 w-full py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Theme</span>
+            <select
+              value={brandingTheme}
+              onChange={(e) => setBrandingTheme(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {themeOptions.map((theme) => (
+                <option key={theme.id} value={theme.id}>
+                  {theme.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isNewClient}
+              onChange={(e) => setIsNewClient(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            New client
+          </label>
+          <button
+            onClick={handleForecast}
+            disabled={forecasting}
+            className="px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {forecasting ? 'Forecasting...' : 'Forecast'}
+          </button>
+        </div>
+        {forecastError && <p className="mt-2 text-sm text-red-600">{forecastError}</p>}
+
+        {projection && (
+          <div className="mt-4 p-4 rounded-lg bg-purple-50 border border-purple-200">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Deal profit</p>
+                <p className="font-semibold text-gray-900">{formatCurrency(projection.dealProfit)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Commission on deal</p>
+                <p className="font-semibold text-gray-900">{formatChange(projection.dealCommission)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Uplift on rest of month</p>
+                <p className="font-semibold text-green-700">{formatChange(projection.retroactiveUplift)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Month total</p>
+                <p className="font-semibold text-purple-700">
+                  {formatCurrency(projection.projected.totalPayable)}{' '}
+                  <span className="text-xs font-normal text-gray-500">
+                    ({formatChange(projection.commissionChange)})
+                  </span>
+                </p>
+              </div>
+            </div>
+            {projection.bandChanged && projection.projected.currentBand && (
+              <p className="text-xs text-purple-800 mt-3">
+                This deal moves you into the {formatRate(projection.projected.commissionRate)} band
+                {forecast.bandMode === 'flat' ? ', which applies to the whole month.' : '.'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,14 +13,19 @@ import { db } from "@/db";
 import { sales, shoppers, buyers } from "@/db/schema";
 import { eq, and, or, gte, lte, desc, ne, isNull, isNotNull } from "drizzle-orm";
 import { MonthPicker } from "@/components/ui/MonthPicker";
+import { EntityPicker } from "@/components/ui/EntityPicker";
 import { getMonthDateRange, formatMonthLabel } from "@/lib/dateUtils";
 import { effectiveInvoiceValue } from "@/lib/economics";
+import { listEntities, entitySalesFilter } from "@/lib/entities";
+import { getQuoteConversion } from "@/lib/quotes";
+import { QuoteConversionSection } from "@/components/dashboards/QuoteConversionSection";
 import * as logger from '@/lib/logger';
 
 // ORIGINAL XATA: const xata = new XataClient();
 
 interface FounderDashboardProps {
   monthParam?: string;
+  entityParam?: string;
 }
 
 interface ShopperPerformance {
@@ -39,7 +44,7 @@ interface TopClient {
   purchaseCount: number;
 }
 
-export async function FounderDashboard({ monthParam = "current" }: FounderDashboardProps) {
+export async function FounderDashboard({ monthParam = "current", entityParam }: FounderDashboardProps) {
   try {
     logger.info('DASHBOARD', 'Rendering FounderDashboard', { monthParam });
 
@@ -84,19 +89,27 @@ export async function FounderDashboard({ monthParam = "current" }: FounderDashbo
     // }
     // const allSalesRaw = await salesQuery.sort('sale_date', 'desc').getMany({ pagination: { size: 200 } });
 
+    const [entityList, entityFilter] = await Promise.all([
+      listEntities(),
+      entitySalesFilter(entityParam),
+    ]);
+
     // Commission timing: prefer completedAt, fall back to saleDate for legacy data
-    const whereConditions = dateRange
-      ? or(
-          and(gte(sales.completedAt, dateRange.start), lte(sales.completedAt, dateRange.end)),
-          and(isNull(sales.completedAt), gte(sales.saleDate, dateRange.start), lte(sales.saleDate, dateRange.end))
-        )
-      : undefined;
+    const whereConditions = and(
+      dateRange
+        ? or(
+            and(gte(sales.completedAt, dateRange.start), lte(sales.completedAt, dateRange.end)),
+            and(isNull(sales.completedAt), gte(sales.saleDate, dateRange.start), lte(sales.saleDate, dateRange.end))
+          )
+        : undefined,
+      entityFilter
+    );
 
   const now = new Date();
   const ytdStart = new Date(now.getFullYear(), 0, 1);
 
   // Run both queries in parallel
-  const [allSalesRaw, ytdSalesRaw] = await Promise.all([
+  const [allSalesRaw, ytdSalesRaw, quoteConversion] = await Promise.all([
     db.query.sales.findMany({
       where: whereConditions,
       with: { shopper: true, buyer: true },
@@ -104,13 +117,17 @@ export async function FounderDashboard({ monthParam = "current" }: FounderDashbo
       limit: 200,
     }),
     db.query.sales.findMany({
-      where: or(
-        and(gte(sales.completedAt, ytdStart), lte(sales.completedAt, now)),
-        and(isNull(sales.completedAt), gte(sales.saleDate, ytdStart), lte(sales.saleDate, now))
+      where: and(
+        or(
+          and(gte(sales.completedAt, ytdStart), lte(sales.completedAt, now)),
+          and(isNull(sales.completedAt), gte(sales.saleDate, ytdStart), lte(sales.saleDate, now))
+        ),
+        entityFilter
       ),
       with: { shopper: true },
       limit: 500,
     }),
+    getQuoteConversion(dateRange),
   ]);
 
   // Filter out xero_import, deleted, ongoing, and CREDITED/DRAFT/VOIDED.
@@ -272,6 +289,7 @@ export async function FounderDashboard({ monthParam = "current" }: FounderDashbo
           </p>
         </div>
         <div className="flex items-center gap-4">
+          <EntityPicker entities={entityList} />
           <MonthPicker />
           <a
             href={`/api/export/monthly-sales?month=${monthParam}`}
@@ -343,6 +361,8 @@ export async function FounderDashboard({ monthParam = "current" }: FounderDashbo
         </div>
       </div>
 
+      <QuoteConversionSection rows={quoteConversion} periodLabel={monthLabel} />
+
       {/* Month Status Section */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
@@ -11,14 +11,17 @@ import { sales, shoppers, buyers } from "@/db/schema";
 import { eq, and, gte, lte, desc, asc, isNotNull, isNull, or, sql } from "drizzle-orm";
 import Link from "next/link";
 import { MonthPicker } from "@/components/ui/MonthPicker";
+import { EntityPicker } from "@/components/ui/EntityPicker";
 import { getMonthDateRange, formatMonthLabel } from "@/lib/dateUtils";
 import { effectiveInvoiceValue } from "@/lib/economics";
+import { listEntities, entitySalesFilter } from "@/lib/entities";
 // import { DashboardClientWrapper } from "./DashboardClientWrapper"; // Temporarily disabled
 
 // ORIGINAL XATA: const xata = new XataClient();
 
 interface OperationsDashboardProps {
   monthParam?: string;
+  entityParam?: string;
 }
 
 // Helper to format currency
@@ -48,6 +51,7 @@ const formatDate = (date: Date | null | string | undefined) => {
 
 export async function OperationsDashboard({
   monthParam = "current",
+  entityParam,
 }: OperationsDashboardProps) {
   // Use shared date utility — handles "current", "last", "YYYY-MM", and "all"
   // Fall back to current month if null (all time) since this dashboard needs concrete date boundaries
@@ -75,10 +79,18 @@ export async function OperationsDashboard({
   // Floor date: exclude all legacy data before 2026
   const dataFloorDate = new Date(2026, 0, 1);
 
+  const [entityList, entityFilter] = await Promise.all([
+    listEntities(),
+    entitySalesFilter(entityParam),
+  ]);
+
   // Commission timing helper: prefer completedAt, fall back to saleDate for legacy data
-  const commissionDateFilter = (start: Date, end: Date) => or(
-    and(gte(sales.completedAt, start), lte(sales.completedAt, end)),
-    and(isNull(sales.completedAt), gte(sales.saleDate, start), lte(sales.saleDate, end))
+  const commissionDateFilter = (start: Date, end: Date) => and(
+    or(
+      and(gte(sales.completedAt, start), lte(sales.completedAt, end)),
+      and(isNull(sales.completedAt), gte(sales.saleDate, start), lte(sales.saleDate, end))
+    ),
+    entityFilter
   );
 
   // Run ALL queries in parallel to avoid sequential timeout
@@ -115,7 +127,7 @@ export async function OperationsDashboard({
     }),
     // 4. Recent invoices (2026 onwards only)
     db.query.sales.findMany({
-      where: and(isNotNull(sales.xeroInvoiceNumber), gte(sales.saleDate, dataFloorDate)),
+      where: and(isNotNull(sales.xeroInvoiceNumber), gte(sales.saleDate, dataFloorDate), entityFilter),
       orderBy: [desc(sales.saleDate)],
       limit: 500,
     }),
@@ -128,7 +140,8 @@ export async function OperationsDashboard({
         eq(sales.needsAllocation, true),
         isNull(sales.deletedAt),
         or(eq(sales.dismissed, false), isNull(sales.dismissed)),
-        gte(sales.saleDate, dataFloorDate)
+        gte(sales.saleDate, dataFloorDate),
+        entityFilter
       )
     ),
     // 7. Pipeline: incomplete count (SQL COUNT instead of fetching all rows)
@@ -144,7 +157,8 @@ export async function OperationsDashboard({
           isNull(sales.supplierId),
           isNull(sales.brand),
           eq(sales.brand, "Unknown")
-        )
+        ),
+        entityFilter
       )
     ),
     // 8. Pipeline: completed today count (SQL COUNT instead of fetching all rows)
@@ -152,11 +166,13 @@ export async function OperationsDashboard({
       and(
         isNull(sales.deletedAt),
         gte(sales.completedAt, todayStart),
-        lte(sales.completedAt, todayEnd)
+        lte(sales.completedAt, todayEnd),
+        entityFilter
       )
     ),
     // 9. All sales for buyer analysis
     db.query.sales.findMany({
+      where: entityFilter,
       with: { buyer: true },
       orderBy: [asc(sales.saleDate)],
       limit: 1000,
@@ -183,7 +199,8 @@ export async function OperationsDashboard({
             isNull(sales.supplierId),
             isNull(sales.brand),
             eq(sales.brand, "Unknown")
-          )
+          ),
+          entityFilter
         )
       )
       .groupBy(sales.shopperId, shoppers.name)
@@ -541,7 +558,10 @@ export async function OperationsDashboard({
             </Link>
           </p>
         </div>
-        <MonthPicker />
+        <div className="flex items-center gap-4">
+          <EntityPicker entities={entityList} />
+          <MonthPicker />
+        </div>
       </div>
 
       {/* PIPELINE SUMMARY */}
@@ -0,0 +1,69 @@
+import Link from "next/link";
+import type { QuoteConversionRow } from "@/lib/calculations/quotes";
+
+/**
+ * Club 19 Sales OS - Quote Conversion
+ *
+ * Dashboard table of quotes raised in the period per shopper and how many
+ * became sales. Rows come from getQuoteConversion() in lib/quotes.ts.
+ */
+
+interface QuoteConversionSectionProps {
+  rows: QuoteConversionRow[];
+  periodLabel: string;
+}
+
+export function formatConversionRate(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+export function QuoteConversionSection({ rows, periodLabel }: QuoteConversionSectionProps) {
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Quote Conversion</h2>
+        <Link href="/quotes" className="text-sm font-medium text-purple-600 hover:text-purple-900">
+          View quotes →
+        </Link>
+      </div>
+      {rows.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6 text-sm text-gray-500">
+          No quotes for {periodLabel}.
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shopper</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quoted</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Accepted</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Declined</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expired</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Open</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Conversion</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map((row) => (
+                  <tr key={row.shopperId ?? "unassigned"}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.shopperName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{row.quoted}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{row.accepted}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{row.declined}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{row.expired}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{row.open}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 text-right">
+                      {formatConversionRate(row.conversionRate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,8 +10,11 @@ import { sales, shoppers, buyers } from "@/db/schema";
 import { eq, and, gte, lte, desc, ilike, isNull, or, ne } from "drizzle-orm";
 import { getCurrentUser } from "@/lib/getCurrentUser";
 import { MonthPicker } from "@/components/ui/MonthPicker";
-import { getMonthDateRange } from "@/lib/dateUtils";
+import { getMonthDateRange, formatMonthLabel } from "@/lib/dateUtils";
 import { effectiveInvoiceValue } from "@/lib/economics";
+import { CommissionForecastWidget } from "@/components/dashboards/CommissionForecastWidget";
+import { QuoteConversionSection } from "@/components/dashboards/QuoteConversionSection";
+import { getQuoteConversion } from "@/lib/quotes";
 
 interface ShopperDashboardProps {
   monthParam?: string;
@@ -106,8 +109,8 @@ export async function ShopperDashboard({
       )
     : eq(sales.shopperId, shopperResult.id);
 
-  // Run all 3 queries in parallel
-  const [allSalesRaw, incompleteSales, ongoingSales] = await Promise.all([
+  // Run all 4 queries in parallel
+  const [allSalesRaw, incompleteSales, ongoingSales, quoteConversion] = await Promise.all([
     db.query.sales.findMany({
       where: whereConditions,
       with: { buyer: true },
@@ -142,6 +145,7 @@ export async function ShopperDashboard({
       with: { buyer: true },
       orderBy: [desc(sales.saleDate)],
     }),
+    getQuoteConversion(dateRange, shopperResult.id),
   ]);
 
   // Filter out xero_import, deleted, ongoing, and CREDITED/DRAFT/VOIDED sales.
@@ -439,6 +443,13 @@ export async function ShopperDashboard({
         </div>
       </div>
 
+      {/* Commission Forecast (current month) */}
+      <div className="mb-8">
+        <CommissionForecastWidget shopperId={shopperResult.id} />
+      </div>
+
+      <QuoteConversionSection rows={quoteConversion} periodLabel={formatMonthLabel(monthParam)} />
+
       {/* Commission Overview */}
       <div className="mb-8">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Commission Status</h2>
@@ -5,9 +5,13 @@ import { db } from "@/db";
 import { sales, shoppers, buyers, suppliers, introducers } from "@/db/schema";
 import { eq, and, or, gte, lte, desc, ne, isNull, isNotNull } from "drizzle-orm";
 import { MonthPicker } from "@/components/ui/MonthPicker";
+import { EntityPicker } from "@/components/ui/EntityPicker";
 import { ViewAsSelector } from "@/components/ui/ViewAsSelector";
-import { getMonthDateRange } from "@/lib/dateUtils";
+import { getMonthDateRange, formatMonthLabel } from "@/lib/dateUtils";
 import { effectiveInvoiceValue } from "@/lib/economics";
+import { listEntities, entitySalesFilter } from "@/lib/entities";
+import { getQuoteConversion } from "@/lib/quotes";
+import { QuoteConversionSection } from "@/components/dashboards/QuoteConversionSection";
 // import { DashboardClientWrapper } from "./DashboardClientWrapper"; // Temporarily disabled
 
 /**
@@ -20,9 +24,10 @@ import { effectiveInvoiceValue } from "@/lib/economics";
 
 interface SuperadminDashboardProps {
   monthParam?: string;
+  entityParam?: string;
 }
 
-export async function SuperadminDashboard({ monthParam = "current" }: SuperadminDashboardProps) {
+export async function SuperadminDashboard({ monthParam = "current", entityParam }: SuperadminDashboardProps) {
   // Get date range for filtering
   const dateRange = getMonthDateRange(monthParam);
 
@@ -75,13 +80,21 @@ export async function SuperadminDashboard({ monthParam = "current" }: Superadmin
   // }
   // const allSalesRaw = await salesQuery.sort('sale_date', 'desc').getMany({ pagination: { size: 200 } });
 
+  const [entityList, entityFilter] = await Promise.all([
+    listEntities(),
+    entitySalesFilter(entityParam),
+  ]);
+
   // Commission timing: prefer completedAt, fall back to saleDate for legacy data
-  const whereConditions = dateRange
-    ? or(
-        and(gte(sales.completedAt, dateRange.start), lte(sales.completedAt, dateRange.end)),
-        and(isNull(sales.completedAt), gte(sales.saleDate, dateRange.start), lte(sales.saleDate, dateRange.end))
-      )
-    : undefined;
+  const whereConditions = and(
+    dateRange
+      ? or(
+          and(gte(sales.completedAt, dateRange.start), lte(sales.completedAt, dateRange.end)),
+          and(isNull(sales.completedAt), gte(sales.saleDate, dateRange.start), lte(sales.saleDate, dateRange.end))
+        )
+      : undefined,
+    entityFilter
+  );
 
   // Pre-compute last month date range for parallel query
   const needsLastMonth = monthParam === "current" || !monthParam;
@@ -90,7 +103,7 @@ export async function SuperadminDashboard({ monthParam = "current" }: Superadmin
   const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
 
   // Run both queries in parallel
-  const [allSalesRaw, lastMonthSalesRaw] = await Promise.all([
+  const [allSalesRaw, lastMonthSalesRaw, quoteConversion] = await Promise.all([
     db.query.sales.findMany({
       where: whereConditions,
       with: { shopper: true, buyer: true, supplier: true, introducer: true },
@@ -99,13 +112,17 @@ export async function SuperadminDashboard({ monthParam = "current" }: Superadmin
     }),
     needsLastMonth
       ? db.query.sales.findMany({
-          where: or(
-            and(gte(sales.completedAt, lastMonthStart), lte(sales.completedAt, lastMonthEnd)),
-            and(isNull(sales.completedAt), gte(sales.saleDate, lastMonthStart), lte(sales.saleDate, lastMonthEnd))
+          where: and(
+            or(
+              and(gte(sales.completedAt, lastMonthStart), lte(sales.completedAt, lastMonthEnd)),
+              and(isNull(sales.completedAt), gte(sales.saleDate, lastMonthStart), lte(sales.saleDate, lastMonthEnd))
+            ),
+            entityFilter
           ),
           limit: 1000,
         })
       : Promise.resolve([]),
+    getQuoteConversion(dateRange),
   ]);
 
   // Filter out xero_import, deleted, needs_allocation, dismissed, and ongoing
@@ -362,6 +379,7 @@ export async function SuperadminDashboard({ monthParam = "current" }: Superadmin
         </div>
         <div className="flex items-center gap-4">
           <ViewAsSelector />
+          <EntityPicker entities={entityList} />
           <MonthPicker />
           <Link
             href="/trade/new"
@@ -859,6 +877,8 @@ export async function SuperadminDashboard({ monthParam = "current" }: Superadmin
         </div>
       </div>
 
+      <QuoteConversionSection rows={quoteConversion} periodLabel={formatMonthLabel(monthParam)} />
+
       {/* System Status - Compact Status Bar */}
       <div className="pt-4 border-t border-gray-200">
         <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
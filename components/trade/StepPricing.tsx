@@ -2,16 +2,35 @@
 
 import React, { useState, useEffect } from "react";
 import { useTrade } from "@/contexts/TradeContext";
-import { PaymentMethod } from "@/lib/types/invoice";
+import { PaymentMethod, type TradeItem } from "@/lib/types/invoice";
 import { roundCurrency, subtractCurrency, multiplyCurrency, addCurrency } from '@/lib/utils/currency';
+import {
+  BASE_CURRENCY,
+  buyPriceToBase,
+  currencySymbol,
+  isBuyRateReady,
+  isValidFxRate,
+  toBaseCurrency,
+} from '@/lib/calculations/fx';
+import { CURRENCIES } from "@/lib/constants";
 import { MoneyInput } from "@/components/ui/MoneyInput";
+import { getCardFeePercent, getDefaultEntrupyFee, getTradeShippingRoute } from "@/lib/implied-costs";
+import { useImpliedCostRules } from "@/lib/hooks/useImpliedCostRules";
 
 /**
  * Step 3 — Pricing (Phase 2 reordered wizard)
  *
- * Captures: per-item buy/sell prices, payment method, optional Estimated
- * Shipping Cost, optional Entrupy fee. Suppliers + supplier invoice ref +
- * date purchased moved to Step 2 (Supplier & Item).
+ * Captures: invoice currency + FX rate, per-item buy/sell prices, payment
+ * method, optional Estimated Shipping Cost, optional Entrupy fee. Suppliers +
+ * supplier invoice ref + date purchased moved to Step 2 (Supplier & Item).
+ *
+ * Sell prices are in the invoice currency; each buy price is in its
+ * supplier's currency (GBP unless changed); shipping and fees are GBP.
+ * Both sides default their rate from the FX rate table and can be typed in
+ * by hand. Margins are shown in GBP.
+ *
+ * The card fee rate, typical shipping cost for the route and default Entrupy
+ * fee come from the implied cost rules finance maintains.
  */
 export function StepPricing() {
   const {
@@ -20,8 +39,221 @@ export function StepPricing() {
     setShippingCost,
     setEntrupyFee,
     setCurrentPaymentMethod,
+    setSaleCurrency,
+    setSaleFxRate,
   } = useTrade();
 
+  const isForeign = state.saleCurrency !== BASE_CURRENCY;
+  const sellSymbol = currencySymbol(state.saleCurrency);
+  const fxReady = isValidFxRate(state.saleCurrency, state.saleFxRate);
+  const fxRate = isForeign ? state.saleFxRate : null;
+
+  // FX rate local state (mirrors context) + the rate table's default
+  const [localFxRate, setLocalFxRate] = useState(
+    state.saleFxRate ? state.saleFxRate.toString() : ""
+  );
+  const [tableRate, setTableRate] = useState<{ rate: number; rateDate: string } | null>(null);
+  const [rateLookup, setRateLookup] = useState<"idle" | "loading" | "done">("idle");
+
+  // Look up the table rate for the sale date whenever the currency changes.
+  // A hand-typed rate is kept; otherwise the table rate becomes the default.
+  useEffect(() => {
+    if (!isForeign) {
+      setTableRate(null);
+      setRateLookup("idle");
+      return;
+    }
+    let cancelled = false;
+    setRateLookup("loading");
+    fetch(`/api/fx-rates?currency=${state.saleCurrency}&date=${state.saleDate}`)
+      .then((res) => (res.ok ? res.json() : { rate: null }))
+      .then((data) => {
+        if (cancelled) return;
+        const found = data.rate ? { rate: data.rate.rate as number, rateDate: data.rate.rateDate as string } : null;
+        setTableRate(found);
+        setRateLookup("done");
+        if (found && state.saleFxRateSource !== "manual") {
+          setSaleFxRate(found.rate, "table");
+          setLocalFxRate(found.rate.toString());
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setRateLookup("done");
+      });
+    return () => {
+      cancelled = true;
+    };
+    // saleFxRateSource is read once per lookup, not a trigger
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isForeign, state.saleCurrency, state.saleDate, setSaleFxRate]);
+
+  const handleCurrencyChange = (currency: string) => {
+    setLocalFxRate("");
+    setSaleCurrency(currency);
+  };
+
+  const handleFxRateBlur = () => {
+    const parsed = parseFloat(localFxRate);
+    if (!isNaN(parsed) && parsed > 0) {
+      setSaleFxRate(parsed, tableRate && parsed === tableRate.rate ? "table" : "manual");
+    } else {
+      setSaleFxRate(null, null);
+    }
+  };
+
+  const applyTableRate = () => {
+    if (!tableRate) return;
+    setLocalFxRate(tableRate.rate.toString());
+    setSaleFxRate(tableRate.rate, "table");
+  };
+
+  // Table rates for the buy currencies in use, on the sale date (null when
+  // the table has none), and hand-typed buy rates still being edited
+  const [buyTableRates, setBuyTableRates] = useState<Record<string, { rate: number; rateDate: string } | null>>({});
+  const [localBuyRates, setLocalBuyRates] = useState<Record<string, string>>({});
+  const buyCurrencyKey = Array.from(
+    new Set(state.items.map((item) => item.buyCurrency).filter((c) => c && c !== BASE_CURRENCY))
+  ).sort().join(",");
+
+  useEffect(() => {
+    if (!buyCurrencyKey) return;
+    let cancelled = false;
+    for (const currency of buyCurrencyKey.split(",")) {
+      fetch(`/api/fx-rates?currency=${currency}&date=${state.saleDate}`)
+        .then((res) => (res.ok ? res.json() : { rate: null }))
+        .then((data) => {
+          if (cancelled) return;
+          const found = data.rate ? { rate: data.rate.rate as number, rateDate: data.rate.rateDate as string } : null;
+          setBuyTableRates((prev) => ({ ...prev, [currency]: found }));
+        })
+        .catch(() => {
+          if (!cancelled) setBuyTableRates((prev) => ({ ...prev, [currency]: null }));
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [buyCurrencyKey, state.saleDate]);
+
+  // The table rate is each line's default until a rate is typed in by hand
+  useEffect(() => {
+    for (const item of state.items) {
+      const tableBuyRate = buyTableRates[item.buyCurrency];
+      if (
+        item.buyCurrency !== BASE_CURRENCY &&
+        tableBuyRate &&
+        item.fxRateSource !== "manual" &&
+        item.fxRate !== tableBuyRate.rate
+      ) {
+        updateItem(item.id, { fxRate: tableBuyRate.rate, fxRateSource: "table" });
+      }
+    }
+  }, [buyTableRates, state.items, updateItem]);
+
+  const handleBuyCurrencyChange = (itemId: string, currency: string) => {
+    setLocalBuyRates((prev) => ({ ...prev, [itemId]: "" }));
+    updateItem(itemId, { buyCurrency: currency, fxRate: undefined, fxRateSource: undefined });
+  };
+
+  const handleBuyRateBlur = (item: TradeItem) => {
+    const typed = localBuyRates[item.id];
+    if (typed === undefined) return;
+    const parsed = parseFloat(typed);
+    const tableBuyRate = buyTableRates[item.buyCurrency];
+    if (!isNaN(parsed) && parsed > 0) {
+      updateItem(item.id, {
+        fxRate: parsed,
+        fxRateSource: tableBuyRate && parsed === tableBuyRate.rate ? "table" : "manual",
+      });
+    } else {
+      updateItem(item.id, { fxRate: undefined, fxRateSource: undefined });
+    }
+    setLocalBuyRates((prev) => {
+      const next = { ...prev };
+      delete next[item.id];
+      return next;
+    });
+  };
+
+  const applyBuyTableRate = (item: TradeItem) => {
+    const tableBuyRate = buyTableRates[item.buyCurrency];
+    if (!tableBuyRate) return;
+    updateItem(item.id, { fxRate: tableBuyRate.rate, fxRateSource: "table" });
+  };
+
+  // GBP margin figures can't be shown until every foreign amount has a rate
+  const buyRatesReady = state.items.every(isBuyRateReady);
+  const ratesReady = fxReady && buyRatesReady;
+  const formatMargin = (value: number, decimals: number, ready = ratesReady) =>
+    ready ? `£${value.toFixed(decimals)}` : "—";
+
+  // Unit buy price in GBP, from the price being typed
+  const buyGBP = (item: TradeItem, typed: string | undefined) =>
+    buyPriceToBase({
+      buyPrice: roundCurrency(typed ? parseFloat(typed) || 0 : 0),
+      buyCurrency: item.buyCurrency,
+      fxRate: item.fxRate,
+    });
+
+  // Buy currency picker, plus the rate for a foreign buy currency
+  const renderBuyCurrency = (item: TradeItem) => {
+    const currency = item.buyCurrency || BASE_CURRENCY;
+    const tableBuyRate = buyTableRates[currency];
+    return (
+      <div className="mt-1.5 space-y-1">
+        <select
+          value={currency}
+          onChange={(e) => handleBuyCurrencyChange(item.id, e.target.value)}
+          aria-label="Buy currency"
+          className="w-full border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-700 focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          {CURRENCIES.map((c) => (
+            <option key={c.code} value={c.code}>
+              {c.code} ({c.symbol})
+            </option>
+          ))}
+        </select>
+        {currency !== BASE_CURRENCY && (
+          <>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={localBuyRates[item.id] ?? (item.fxRate ? item.fxRate.toString() : "")}
+              onChange={(e) => {
+                if (e.target.value === "" || /^\d*\.?\d*$/.test(e.target.value)) {
+                  setLocalBuyRates((prev) => ({ ...prev, [item.id]: e.target.value }));
+                }
+              }}
+              onBlur={() => handleBuyRateBlur(item)}
+              placeholder={`${currency} per £1`}
+              aria-label={`Rate (${currency} per £1)`}
+              autoComplete="off"
+              className="w-full border border-gray-300 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <p className="text-[11px] text-gray-500">
+              {item.fxRateSource === "table" && tableBuyRate
+                ? `${currency} per £1, rate table (${tableBuyRate.rateDate})`
+                : item.fxRateSource === "manual"
+                ? `${currency} per £1, entered by hand`
+                : tableBuyRate === null
+                ? `No ${currency} rate in the rate table — enter one`
+                : `${currency} per £1`}
+              {tableBuyRate && item.fxRateSource === "manual" && (
+                <button
+                  type="button"
+                  onClick={() => applyBuyTableRate(item)}
+                  className="ml-1 text-purple-600 hover:text-purple-800 font-medium"
+                >
+                  Use {tableBuyRate.rate}
+                </button>
+              )}
+            </p>
+          </>
+        )}
+      </div>
+    );
+  };
+
   // Local state for each item's prices (keyed by item ID)
   const [localPrices, setLocalPrices] = useState<Record<string, { buyPrice: string; sellPrice: string }>>({});
 
@@ -35,6 +267,12 @@ export function StepPricing() {
     state.entrupyFee > 0 ? state.entrupyFee.toString() : ""
   );
 
+  // Implied cost rules
+  const impliedCostRules = useImpliedCostRules();
+  const cardFeePercent = parseFloat((getCardFeePercent(PaymentMethod.CARD, impliedCostRules) * 100).toFixed(2));
+  const shippingRoute = getTradeShippingRoute(state.items, state.deliveryCountry, impliedCostRules);
+  const defaultEntrupyFee = getDefaultEntrupyFee(state.items, impliedCostRules);
+
   // Payment method local state (mirrors context)
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(
     state.currentPaymentMethod || PaymentMethod.CARD
@@ -86,21 +324,24 @@ export function StepPricing() {
     }
   };
 
-  // Calculate totals with currency rounding to prevent floating point errors
+  // Calculate totals with currency rounding to prevent floating point errors.
+  // totalSell is in the invoice currency; everything else is GBP.
   const totals = state.items.reduce((acc, item) => {
-    const buy = roundCurrency(localPrices[item.id]?.buyPrice ? parseFloat(localPrices[item.id].buyPrice) || 0 : 0);
+    const buy = buyGBP(item, localPrices[item.id]?.buyPrice);
     const sell = roundCurrency(localPrices[item.id]?.sellPrice ? parseFloat(localPrices[item.id].sellPrice) || 0 : 0);
+    const sellGBP = toBaseCurrency(sell, fxRate);
     const qty = item.quantity || 1;
 
     return {
       totalBuy: addCurrency(acc.totalBuy, multiplyCurrency(buy, qty)),
       totalSell: addCurrency(acc.totalSell, multiplyCurrency(sell, qty)),
-      totalMargin: addCurrency(acc.totalMargin, multiplyCurrency(subtractCurrency(sell, buy), qty)),
+      totalSellGBP: addCurrency(acc.totalSellGBP, multiplyCurrency(sellGBP, qty)),
+      totalMargin: addCurrency(acc.totalMargin, multiplyCurrency(subtractCurrency(sellGBP, buy), qty)),
     };
-  }, { totalBuy: 0, totalSell: 0, totalMargin: 0 });
+  }, { totalBuy: 0, totalSell: 0, totalSellGBP: 0, totalMargin: 0 });
 
-  const marginPercentage = totals.totalSell > 0
-    ? roundCurrency((totals.totalMargin / totals.totalSell) * 100).toFixed(1)
+  const marginPercentage = ratesReady && totals.totalSellGBP > 0
+    ? roundCurrency((totals.totalMargin / totals.totalSellGBP) * 100).toFixed(1)
     : "0.0";
 
   return (
@@ -115,6 +356,73 @@ export function StepPricing() {
         </p>
       </div>
 
+      {/* Invoice Currency */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-1">Invoice Currency</h3>
+          <p className="text-xs text-gray-500">
+            Sell prices are entered and invoiced in this currency. Buy prices are in each supplier&apos;s currency (set per item); shipping and fees stay in GBP.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="w-full sm:w-40">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Currency</label>
+            <select
+              value={state.saleCurrency}
+              onChange={(e) => handleCurrencyChange(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {CURRENCIES.map((c) => (
+                <option key={c.code} value={c.code}>
+                  {c.code} ({c.symbol})
+                </option>
+              ))}
+            </select>
+          </div>
+          {isForeign && (
+            <div className="w-full sm:w-48">
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Rate ({state.saleCurrency} per £1)
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={localFxRate}
+                onChange={(e) => {
+                  if (e.target.value === "" || /^\d*\.?\d*$/.test(e.target.value)) {
+                    setLocalFxRate(e.target.value);
+                  }
+                }}
+                onBlur={handleFxRateBlur}
+                placeholder="e.g. 1.2700"
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+          )}
+        </div>
+        {isForeign && (
+          <p className="text-xs text-gray-600">
+            {rateLookup === "loading"
+              ? "Looking up the rate table…"
+              : state.saleFxRateSource === "table" && tableRate
+              ? `From the rate table (${tableRate.rateDate}).`
+              : state.saleFxRateSource === "manual"
+              ? "Entered by hand."
+              : `No ${state.saleCurrency} rate in the rate table — enter one to continue.`}
+            {tableRate && state.saleFxRateSource === "manual" && (
+              <button
+                type="button"
+                onClick={applyTableRate}
+                className="ml-2 text-purple-600 hover:text-purple-800 font-medium"
+              >
+                Use table rate ({tableRate.rate})
+              </button>
+            )}
+          </p>
+        )}
+      </div>
+
       {/* Pricing Cards — mobile only (md:hidden).
           The desktop table below crams 5 columns into ~390px on iPhone, making
           the buy/sell inputs unusably narrow. On mobile, render each item as a
@@ -122,9 +430,10 @@ export function StepPricing() {
       <div className="md:hidden space-y-3">
         {state.items.map((item) => {
           const prices = localPrices[item.id] || { buyPrice: "", sellPrice: "" };
-          const buyNum = roundCurrency(parseFloat(prices.buyPrice) || 0);
-          const sellNum = roundCurrency(parseFloat(prices.sellPrice) || 0);
+          const buyNum = buyGBP(item, prices.buyPrice);
+          const sellNum = toBaseCurrency(roundCurrency(parseFloat(prices.sellPrice) || 0), fxRate);
           const lineMargin = multiplyCurrency(subtractCurrency(sellNum, buyNum), item.quantity);
+          const lineReady = fxReady && isBuyRateReady(item);
 
           return (
             <div
@@ -149,9 +458,10 @@ export function StepPricing() {
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs font-medium text-gray-600 mb-1">
-                    Buy (£)
+                    Buy ({currencySymbol(item.buyCurrency || BASE_CURRENCY)})
                   </label>
                   <MoneyInput
+                    symbol={currencySymbol(item.buyCurrency || BASE_CURRENCY)}
                     value={prices.buyPrice}
                     onChange={(v) => handlePriceChange(item.id, "buyPrice", v)}
                     onBlur={() => handlePriceBlur(item.id, "buyPrice")}
@@ -160,12 +470,14 @@ export function StepPricing() {
                     max={10000000}
                     className="w-full border border-gray-300 rounded-md pr-2 py-2 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
                   />
+                  {renderBuyCurrency(item)}
                 </div>
                 <div>
                   <label className="block text-xs font-medium text-gray-600 mb-1">
-                    Sell (£)
+                    Sell ({sellSymbol})
                   </label>
                   <MoneyInput
+                    symbol={sellSymbol}
                     value={prices.sellPrice}
                     onChange={(v) => handlePriceChange(item.id, "sellPrice", v)}
                     onBlur={() => handlePriceBlur(item.id, "sellPrice")}
@@ -185,7 +497,7 @@ export function StepPricing() {
                     lineMargin >= 0 ? "text-green-600" : "text-red-600"
                   }`}
                 >
-                  £{lineMargin.toFixed(0)}
+                  {formatMargin(lineMargin, 0, lineReady)}
                 </span>
               </div>
             </div>
@@ -204,11 +516,11 @@ export function StepPricing() {
               <th scope="col" className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider w-14">
                 Qty
               </th>
-              <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-28">
+              <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-36">
                 Buy
               </th>
               <th scope="col" className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-32">
-                Sell (product only)
+                Sell (product only{isForeign ? `, ${state.saleCurrency}` : ""})
               </th>
               <th scope="col" className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider w-24">
                 Margin
@@ -218,9 +530,10 @@ export function StepPricing() {
           <tbody className="bg-white divide-y divide-gray-200">
             {state.items.map((item, index) => {
               const prices = localPrices[item.id] || { buyPrice: "", sellPrice: "" };
-              const buyNum = roundCurrency(parseFloat(prices.buyPrice) || 0);
-              const sellNum = roundCurrency(parseFloat(prices.sellPrice) || 0);
+              const buyNum = buyGBP(item, prices.buyPrice);
+              const sellNum = toBaseCurrency(roundCurrency(parseFloat(prices.sellPrice) || 0), fxRate);
               const lineMargin = multiplyCurrency(subtractCurrency(sellNum, buyNum), item.quantity);
+              const lineReady = fxReady && isBuyRateReady(item);
 
               return (
                 <tr key={item.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
@@ -240,8 +553,9 @@ export function StepPricing() {
                   <td className="px-3 py-3 text-center text-sm text-gray-900">
                     {item.quantity}
                   </td>
-                  <td className="px-3 py-3">
+                  <td className="px-3 py-3 align-top">
                     <MoneyInput
+                      symbol={currencySymbol(item.buyCurrency || BASE_CURRENCY)}
                       value={prices.buyPrice}
                       onChange={(v) => handlePriceChange(item.id, 'buyPrice', v)}
                       onBlur={() => handlePriceBlur(item.id, 'buyPrice')}
@@ -250,9 +564,11 @@ export function StepPricing() {
                       max={10000000}
                       className="w-full border border-gray-300 rounded-md pr-1 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
                     />
+                    {renderBuyCurrency(item)}
                   </td>
                   <td className="px-3 py-3">
                     <MoneyInput
+                      symbol={sellSymbol}
                       value={prices.sellPrice}
                       onChange={(v) => handlePriceChange(item.id, 'sellPrice', v)}
                       onBlur={() => handlePriceBlur(item.id, 'sellPrice')}
@@ -264,7 +580,7 @@ export function StepPricing() {
                   </td>
                   <td className="px-3 py-3 text-right">
                     <span className={`text-sm font-medium ${lineMargin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      £{lineMargin.toFixed(0)}
+                      {formatMargin(lineMargin, 0, lineReady)}
                     </span>
                   </td>
                 </tr>
@@ -280,14 +596,14 @@ export function StepPricing() {
                 {state.items.reduce((sum, item) => sum + item.quantity, 0)}
               </td>
               <td className="px-3 py-3 text-sm font-medium text-gray-900">
-                £{totals.totalBuy.toFixed(0)}
+                {buyRatesReady ? `£${totals.totalBuy.toFixed(0)}` : "—"}
               </td>
               <td className="px-3 py-3 text-sm font-medium text-gray-900">
-                £{totals.totalSell.toFixed(0)}
+                {sellSymbol}{totals.totalSell.toFixed(0)}
               </td>
               <td className="px-3 py-3 text-right">
                 <span className={`text-sm font-semibold ${totals.totalMargin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  £{totals.totalMargin.toFixed(0)}
+                  {formatMargin(totals.totalMargin, 0)}
                 </span>
               </td>
             </tr>
@@ -300,19 +616,22 @@ export function StepPricing() {
         <h3 className="text-sm font-semibold text-blue-900 mb-3">Gross Margin Summary</h3>
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
-            <p className="text-blue-700">Total Buy Price</p>
-            <p className="text-lg font-semibold text-gray-900">£{totals.totalBuy.toFixed(2)}</p>
+            <p className="text-blue-700">Total Buy Price (GBP)</p>
+            <p className="text-lg font-semibold text-gray-900">{buyRatesReady ? `£${totals.totalBuy.toFixed(2)}` : "—"}</p>
           </div>
           <div>
             <p className="text-blue-700">Total Sell Price (product only)</p>
-            <p className="text-lg font-semibold text-gray-900">£{totals.totalSell.toFixed(2)}</p>
+            <p className="text-lg font-semibold text-gray-900">{sellSymbol}{totals.totalSell.toFixed(2)}</p>
+            {isForeign && fxReady && (
+              <p className="text-xs text-blue-700">≈ £{totals.totalSellGBP.toFixed(2)} at {state.saleFxRate}</p>
+            )}
           </div>
           <div className="col-span-2 pt-2 border-t border-blue-200">
             <div className="flex justify-between items-center">
               <div>
                 <p className="text-blue-700">Gross Margin</p>
                 <p className={`text-xl font-bold ${totals.totalMargin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  £{totals.totalMargin.toFixed(2)}
+                  {formatMargin(totals.totalMargin, 2)}
                 </p>
               </div>
               <div className="text-right">
@@ -339,7 +658,7 @@ export function StepPricing() {
               onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
               className="mr-2"
             />
-            <span className="text-sm text-gray-700">Card (2.4% handling fee billed to client)</span>
+            <span className="text-sm text-gray-700">Card ({cardFeePercent}% handling fee billed to client)</span>
           </label>
           <label className="flex items-center">
             <input
@@ -373,6 +692,23 @@ export function StepPricing() {
             className="w-full h-12 text-base border border-gray-300 rounded-lg pr-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
           />
         </div>
+        {shippingRoute && (
+          <p className="text-xs text-gray-500 mt-2">
+            Typical for {shippingRoute.route.replace("_", " → ")}: £{shippingRoute.cost.toFixed(2)}
+            {state.shippingCost !== shippingRoute.cost && (
+              <button
+                type="button"
+                onClick={() => {
+                  setLocalShippingCost(shippingRoute.cost.toString());
+                  setShippingCost(shippingRoute.cost);
+                }}
+                className="ml-2 text-purple-600 hover:text-purple-800 font-medium"
+              >
+                Use
+              </button>
+            )}
+          </p>
+        )}
       </div>
 
       {/* Entrupy Fee (Optional) */}
@@ -394,6 +730,23 @@ export function StepPricing() {
             className="w-full h-12 text-base border border-gray-300 rounded-lg pr-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
           />
         </div>
+        {defaultEntrupyFee > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            Default for these items: £{defaultEntrupyFee.toFixed(2)}
+            {state.entrupyFee !== defaultEntrupyFee && (
+              <button
+                type="button"
+                onClick={() => {
+                  setLocalEntrupyFee(defaultEntrupyFee.toString());
+                  setEntrupyFee(defaultEntrupyFee);
+                }}
+                className="ml-2 text-purple-600 hover:text-purple-800 font-medium"
+              >
+                Use
+              </button>
+            )}
+          </p>
+        )}
       </div>
     </div>
   );
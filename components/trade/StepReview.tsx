@@ -2,10 +2,14 @@
 
 import React, { useState, useEffect, useMemo } from "react";
 import { useTrade } from "@/contexts/TradeContext";
-import { FileText, CheckCircle, Loader2 } from "lucide-react";
+import { FileText, CheckCircle, ClipboardList, Loader2 } from "lucide-react";
 import * as logger from '@/lib/logger';
 import { roundCurrency, subtractCurrency, multiplyCurrency, addCurrency } from '@/lib/utils/currency';
-import { PaymentMethod } from "@/lib/types/invoice";
+import { BASE_CURRENCY, buyPriceToBase, currencySymbol, fromBaseCurrency, toBaseCurrency } from '@/lib/calculations/fx';
+import { calculateIntroducerFee } from "@/lib/economics";
+import { addDays, QUOTE_VALIDITY_DAYS } from "@/lib/calculations/quotes";
+import { getCardFeePercent, getTradeShippingRoute } from "@/lib/implied-costs";
+import { useImpliedCostRules } from "@/lib/hooks/useImpliedCostRules";
 
 export function StepReview() {
   const {
@@ -16,10 +20,16 @@ export function StepReview() {
     setError,
     resetWizard,
     goToStep,
-    updateItem
+    updateItem,
+    draftId
   } = useTrade();
 
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [raiseSupplierBills, setRaiseSupplierBills] = useState(false);
+  const [quoteExpiry, setQuoteExpiry] = useState(() =>
+    addDays(new Date().toISOString().split("T")[0], QUOTE_VALIDITY_DAYS)
+  );
+  const [savingQuote, setSavingQuote] = useState(false);
   const [successData, setSuccessData] = useState<{
     invoiceNumber: string;
     invoiceUrl: string;
@@ -69,54 +79,66 @@ export function StepReview() {
             taxLabel: state.taxScenario!.taxLabel,
             lineAmountTypes: state.taxScenario!.lineAmountTypes,
             brandTheme: state.taxScenario!.brandTheme,
-            buyCurrency: "GBP",
-            sellCurrency: "GBP",
+            sellCurrency: state.saleCurrency,
           });
         }
       });
     }
-  }, [state.taxScenario, state.items, updateItem]);
+  }, [state.taxScenario, state.items, state.saleCurrency, updateItem]);
+
+  // Sell prices are in the invoice currency, buy prices in each supplier's
+  // currency (converted to GBP here); everything else is GBP
+  const isForeign = state.saleCurrency !== BASE_CURRENCY;
+  const fxRate = isForeign ? state.saleFxRate : null;
+  const sellSymbol = currencySymbol(state.saleCurrency);
 
   // Calculate totals and margins with currency rounding to prevent floating point errors
-  const { totalBuyGBP, totalSellGBP, grossMarginGBP } = useMemo(() => {
+  const { totalBuyGBP, totalSellGBP, totalSellInvoice, grossMarginGBP } = useMemo(() => {
     let buyTotal = 0;
     let sellTotal = 0;
 
     for (const item of state.items) {
-      if (item.buyCurrency === "GBP") {
-        buyTotal += multiplyCurrency(roundCurrency(item.buyPrice), item.quantity);
-      }
-      if (item.sellCurrency === "GBP") {
-        sellTotal += multiplyCurrency(roundCurrency(item.sellPrice), item.quantity);
-      }
+      buyTotal += multiplyCurrency(buyPriceToBase(item), item.quantity);
+      sellTotal += multiplyCurrency(roundCurrency(item.sellPrice), item.quantity);
     }
 
-    const grossMargin = subtractCurrency(sellTotal, buyTotal);
+    const sellTotalGBP = toBaseCurrency(sellTotal, fxRate);
+    const grossMargin = subtractCurrency(sellTotalGBP, buyTotal);
 
     return {
       totalBuyGBP: roundCurrency(buyTotal),
-      totalSellGBP: roundCurrency(sellTotal),
+      totalSellGBP: sellTotalGBP,
+      totalSellInvoice: roundCurrency(sellTotal),
       grossMarginGBP: roundCurrency(grossMargin),
     };
-  }, [state.items]);
+  }, [state.items, fxRate]);
 
   // Calculate handling/shipping line item for invoice
-  const CARD_FEE_RATE = 0.024; // 2.4%
+  const impliedCostRules = useImpliedCostRules();
+  const cardFeeRate = getCardFeePercent(state.currentPaymentMethod, impliedCostRules);
+  const cardFeeLabel = `${parseFloat((cardFeeRate * 100).toFixed(2))}%`;
 
   const handlingLineItem = useMemo(() => {
     const shippingAmount = state.shippingCost || 0;
-    const isCardPayment = state.currentPaymentMethod === PaymentMethod.CARD;
     const cardFeeBase = addCurrency(totalSellGBP, shippingAmount);
-    const cardFee = isCardPayment ? roundCurrency(cardFeeBase * CARD_FEE_RATE) : 0;
+    const cardFee = cardFeeRate > 0 ? roundCurrency(cardFeeBase * cardFeeRate) : 0;
     const total = addCurrency(shippingAmount, cardFee);
     const label = shippingAmount > 0 && cardFee > 0 ? 'Handling + Shipping'
       : shippingAmount > 0 ? 'Shipping'
       : cardFee > 0 ? 'Handling' : null;
-    return { cardFee, shippingAmount, total, label };
-  }, [totalSellGBP, state.shippingCost, state.currentPaymentMethod]);
+    // The invoice line is raised in the invoice currency
+    const totalInvoice = fromBaseCurrency(total, fxRate);
+    return { cardFee, shippingAmount, total, totalInvoice, label };
+  }, [totalSellGBP, state.shippingCost, cardFeeRate, fxRate]);
+
+  // Route the deal is costed on, recorded for the implied vs actual report
+  const shippingRoute = useMemo(
+    () => getTradeShippingRoute(state.items, state.deliveryCountry, impliedCostRules),
+    [state.items, state.deliveryCountry, impliedCostRules]
+  );
 
-  // Invoice total = product sell prices + handling/shipping line item
-  const invoiceTotal = addCurrency(totalSellGBP, handlingLineItem.total);
+  // Invoice total (invoice currency) = product sell prices + handling/shipping line item
+  const invoiceTotal = addCurrency(totalSellInvoice, handlingLineItem.totalInvoice);
 
   // Implied costs: handling/shipping are now billed to the client (invoice line item),
   // so they're NOT deducted from commissionable margin. Only import VAT and
@@ -153,14 +175,12 @@ export function StepReview() {
   // deductions.
   const introducerFeeGBP = useMemo(() => {
     if (!state.hasIntroducer) return 0;
-    if (state.introducerFeeType === "flat") {
-      const flat = state.introducerFeeFlat ?? 0;
-      if (flat <= 0) return 0;
-      return roundCurrency(flat);
-    }
-    const percent = state.introducerFeePercent ?? 0;
-    if (percent <= 0 || netBeforeIntroducerGBP <= 0) return 0;
-    return roundCurrency(netBeforeIntroducerGBP * (percent / 100));
+    return calculateIntroducerFee({
+      feeType: state.introducerFeeType,
+      percent: state.introducerFeePercent,
+      flatAmount: state.introducerFeeFlat,
+      netBeforeIntroducer: netBeforeIntroducerGBP,
+    });
   }, [
     state.hasIntroducer,
     state.introducerFeeType,
@@ -174,106 +194,139 @@ export function StepReview() {
     return subtractCurrency(netBeforeIntroducerGBP, introducerFeeGBP);
   }, [netBeforeIntroducerGBP, introducerFeeGBP]);
 
-  // Handle invoice creation via native Xero API
-  const handleCreateInvoice = async () => {
-    if (!state.buyer || !state.taxScenario || state.items.length === 0) {
-      setError("Missing required data. Please complete all steps.");
-      return;
-    }
-
-    if (!state.buyer.xeroContactId) {
-      setError("Client must be selected from Xero. Please go back and select a Xero contact.");
-      return;
-    }
-
-    setSubmitting(true);
-    setError(null);
-
-    try {
-      // Get tax scenario from first item (all items should have same tax scenario)
-      const firstItem = state.items[0];
-
-      // Build line items array for multi-line invoice
-      // CRITICAL: Round all currency values to prevent floating point errors (e.g., 24999.96 instead of 25000)
-      const lineItems = state.items.map((item, index) => ({
+  // Invoice payload for /api/xero/invoices. A quote stores the same payload,
+  // so accepting it later invoices exactly what was quoted.
+  const buildInvoicePayload = (buyerContactId: string) => {
+    // Get tax scenario from first item (all items should have same tax scenario)
+    const firstItem = state.items[0];
+
+    // Build line items array for multi-line invoice
+    // CRITICAL: Round all currency values to prevent floating point errors (e.g., 24999.96 instead of 25000)
+    // buyPrice is GBP; a foreign buy keeps its original amount and rate alongside
+    const lineItems = state.items.map((item, index) => {
+      const buyForeign = !!item.buyCurrency && item.buyCurrency !== BASE_CURRENCY;
+      return {
         lineNumber: index + 1,
         brand: item.brand,
         category: item.category,
         description: item.description,
         quantity: item.quantity,
-        buyPrice: roundCurrency(item.buyPrice),
+        buyPrice: buyPriceToBase(item),
         sellPrice: roundCurrency(item.sellPrice),
         lineTotal: multiplyCurrency(roundCurrency(item.sellPrice), item.quantity),
-        lineMargin: multiplyCurrency(subtractCurrency(roundCurrency(item.sellPrice), roundCurrency(item.buyPrice)), item.quantity),
+        lineMargin: multiplyCurrency(subtractCurrency(roundCurrency(item.sellPrice), buyPriceToBase(item)), item.quantity),
         supplierName: item.supplier?.name || state.currentSupplier?.name,
         supplierInvoiceRef: item.supplierInvoiceRef || undefined,
         datePurchased: item.datePurchased || undefined,
-      }));
-
-      // Add handling/shipping line item if applicable
-      if (handlingLineItem.label && handlingLineItem.total > 0) {
-        lineItems.push({
-          lineNumber: lineItems.length + 1,
-          brand: '',
-          category: '',
-          description: handlingLineItem.label,
-          quantity: 1,
-          buyPrice: 0,
-          sellPrice: handlingLineItem.total,
-          lineTotal: handlingLineItem.total,
-          lineMargin: 0,
-          supplierName: '',
-          supplierInvoiceRef: undefined,
-          datePurchased: undefined,
-        });
-      }
+        buyCurrency: buyForeign ? item.buyCurrency : undefined,
+        buyPriceOriginal: buyForeign ? roundCurrency(item.buyPrice) : undefined,
+        buyFxRate: buyForeign ? item.fxRate : undefined,
+        buyFxRateSource: buyForeign ? item.fxRateSource : undefined,
+      };
+    });
+
+    // Add handling/shipping line item if applicable
+    if (handlingLineItem.label && handlingLineItem.total > 0) {
+      lineItems.push({
+        lineNumber: lineItems.length + 1,
+        brand: '',
+        category: '',
+        description: handlingLineItem.label,
+        quantity: 1,
+        buyPrice: 0,
+        sellPrice: handlingLineItem.totalInvoice,
+        lineTotal: handlingLineItem.totalInvoice,
+        lineMargin: 0,
+        supplierName: '',
+        supplierInvoiceRef: undefined,
+        datePurchased: undefined,
+        buyCurrency: undefined,
+        buyPriceOriginal: undefined,
+        buyFxRate: undefined,
+        buyFxRateSource: undefined,
+      });
+    }
+
+    // Create invoice payload for native Xero API with multi-line items
+    return {
+      buyerContactId,
+      lineItems, // Array of line items for Xero
+      accountCode: firstItem.accountCode,
+      taxType: firstItem.taxType,
+      brandingThemeId: firstItem.brandTheme || undefined,
+      currency: state.saleCurrency,
+      currencyRate: fxRate ?? undefined,
+      fxRateSource: state.saleFxRateSource ?? undefined,
+      lineAmountType: firstItem.lineAmountTypes,
+
+      // Summary fields for Sales record (GBP)
+      totalSellPrice: totalSellGBP,
+      totalBuyPrice: totalBuyGBP,
+      grossMargin: grossMarginGBP,
+      commissionableMargin: commissionableMarginGBP,
+      cardFees: handlingLineItem.cardFee,
+      shippingCost: state.shippingCost || 0,
+      impliedShippingRoute: shippingRoute?.route,
+      paymentMethod: state.currentPaymentMethod,
+      notes: state.notes || undefined,
+
+      // Phase 2 wizard fields
+      isNewClient: state.isNewClient,
+      hasIntroducer: state.hasIntroducer || false,
+      introducerName: state.hasIntroducer ? state.introducerName : undefined,
+      introducerCommission: introducerFeeGBP,
+      introducerFeeType: state.hasIntroducer ? state.introducerFeeType : undefined,
+      introducerFeePercent:
+        state.hasIntroducer && state.introducerFeeType === "percent"
+          ? state.introducerFeePercent ?? 0
+          : 0,
+      introducerFeeFlat:
+        state.hasIntroducer && state.introducerFeeType === "flat"
+          ? state.introducerFeeFlat ?? 0
+          : 0,
+      entrupyFee: state.entrupyFee || 0,
+      entityId: state.entityId ?? undefined,
+
+      // Legacy fields for backward compatibility (use first item)
+      supplierName: firstItem.supplier?.name || state.currentSupplier?.name,
+      brand: firstItem.brand,
+      category: firstItem.category,
+      itemTitle: firstItem.description,
+      quantity: state.items.reduce((sum, item) => sum + item.quantity, 0),
+    };
+  };
+
+  // Anything stopping the deal being invoiced or quoted
+  const missingDataError = (): string | null => {
+    if (!state.buyer || !state.taxScenario || state.items.length === 0) {
+      return "Missing required data. Please complete all steps.";
+    }
+    if (!state.buyer.xeroContactId) {
+      return "Client must be selected from Xero. Please go back and select a Xero contact.";
+    }
+    return null;
+  };
+
+  // Handle invoice creation via native Xero API
+  const handleCreateInvoice = async () => {
+    const missing = missingDataError();
+    if (missing || !state.buyer?.xeroContactId) {
+      setError(missing);
+      return;
+    }
 
-      // Create invoice payload for native Xero API with multi-line items
+    setSubmitting(true);
+    setError(null);
+
+    try {
       const invoicePayload = {
-        buyerContactId: state.buyer.xeroContactId,
-        lineItems, // Array of line items for Xero
-        accountCode: firstItem.accountCode,
-        taxType: firstItem.taxType,
-        brandingThemeId: firstItem.brandTheme || undefined,
-        currency: "GBP",
-        lineAmountType: firstItem.lineAmountTypes,
-
-        // Summary fields for Sales record
-        totalSellPrice: totalSellGBP,
-        totalBuyPrice: totalBuyGBP,
-        grossMargin: grossMarginGBP,
-        commissionableMargin: commissionableMarginGBP,
-        cardFees: handlingLineItem.cardFee,
-        shippingCost: state.shippingCost || 0,
-        paymentMethod: state.currentPaymentMethod,
-        notes: state.notes || undefined,
-
-        // Phase 2 wizard fields
-        isNewClient: state.isNewClient,
-        hasIntroducer: state.hasIntroducer || false,
-        introducerName: state.hasIntroducer ? state.introducerName : undefined,
-        introducerCommission: introducerFeeGBP,
-        introducerFeeType: state.hasIntroducer ? state.introducerFeeType : undefined,
-        introducerFeePercent:
-          state.hasIntroducer && state.introducerFeeType === "percent"
-            ? state.introducerFeePercent ?? 0
-            : 0,
-        introducerFeeFlat:
-          state.hasIntroducer && state.introducerFeeType === "flat"
-            ? state.introducerFeeFlat ?? 0
-            : 0,
-        entrupyFee: state.entrupyFee || 0,
-
-        // Legacy fields for backward compatibility (use first item)
-        supplierName: firstItem.supplier?.name || state.currentSupplier?.name,
-        brand: firstItem.brand,
-        category: firstItem.category,
-        itemTitle: firstItem.description,
-        quantity: state.items.reduce((sum, item) => sum + item.quantity, 0),
+        ...buildInvoicePayload(state.buyer.xeroContactId),
+        raiseSupplierBills,
+        draftId: draftId ?? undefined,
       };
 
       logger.info('TRADE_UI', 'Sending multi-line invoice to Xero API', {
-        itemCount: lineItems.length,
+        itemCount: invoicePayload.lineItems.length,
         totalSell: totalSellGBP,
         totalBuy: totalBuyGBP,
       });
@@ -305,16 +358,17 @@ export function StepReview() {
         invoiceNumber: data.invoiceNumber,
         contact: data.contactName || state.buyer.name,
         amount: data.total.toString(),
-        currency: "GBP",
+        currency: state.saleCurrency,
         url: data.invoiceUrl,
       };
       if (data.saleId) {
         successParams.saleId = data.saleId;
       }
+      if (data.supplierBillsRaised !== undefined) {
+        successParams.supplierBills = String(data.supplierBillsRaised);
+      }
       const successUrl = new URLSearchParams(successParams);
 
-      // Clear draft before navigating away
-      try { localStorage.removeItem("club19_trade_draft"); } catch { /* ignore */ }
       window.location.href = `/trade/success?${successUrl.toString()}`;
     } catch (err) {
       const message = err instanceof Error ? err.message : "An unexpected error occurred";
@@ -323,6 +377,40 @@ export function StepReview() {
     }
   };
 
+  // Save the deal as a quote for the client instead of invoicing it now
+  const handleSaveQuote = async () => {
+    const missing = missingDataError();
+    if (missing || !state.buyer?.xeroContactId) {
+      setError(missing);
+      return;
+    }
+
+    setSavingQuote(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: buildInvoicePayload(state.buyer.xeroContactId),
+          expiryDate: quoteExpiry,
+          draftId: draftId ?? undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Quote creation failed");
+      }
+
+      logger.info('TRADE_UI', 'Quote created', { quoteId: data.quote.id });
+      window.location.href = "/quotes";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      setSavingQuote(false);
+    }
+  };
+
   const handleConfirmReset = () => {
     resetWizard();
     goToStep(0);
@@ -403,16 +491,24 @@ export function StepReview() {
                       </p>
                       <p className="text-xs text-gray-600 mt-0.5">{item.description}</p>
                       <p className="text-xs text-gray-500 mt-1">
-                        Qty: {item.quantity} × £{item.sellPrice.toFixed(2)}
+                        Qty: {item.quantity} × {sellSymbol}{item.sellPrice.toFixed(2)}
                         <span className="mx-1">·</span>
                         Supplier: {item.supplier.name}
                       </p>
+                      {item.buyCurrency && item.buyCurrency !== BASE_CURRENCY && (
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          Bought at {currencySymbol(item.buyCurrency)}{roundCurrency(item.buyPrice).toFixed(2)}
+                          {" "}({item.buyCurrency} at {item.fxRate} per £1
+                          {item.fxRateSource === "manual" ? ", entered by hand" : ", rate table"})
+                          {" "}≈ £{buyPriceToBase(item).toFixed(2)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
                 <div className="text-right ml-3 flex-shrink-0">
                   <span className="text-sm font-semibold text-gray-900">
-                    £{multiplyCurrency(roundCurrency(item.sellPrice), item.quantity).toFixed(2)}
+                    {sellSymbol}{multiplyCurrency(roundCurrency(item.sellPrice), item.quantity).toFixed(2)}
                   </span>
                   <button
                     type="button"
@@ -434,15 +530,15 @@ export function StepReview() {
                     <p className="text-sm font-medium text-gray-900">{handlingLineItem.label}</p>
                     <p className="text-xs text-gray-500 mt-0.5">
                       {handlingLineItem.cardFee > 0 && handlingLineItem.shippingAmount > 0
-                        ? `Shipping £${handlingLineItem.shippingAmount.toFixed(2)} + Card handling (2.4%) £${handlingLineItem.cardFee.toFixed(2)}`
+                        ? `Shipping £${handlingLineItem.shippingAmount.toFixed(2)} + Card handling (${cardFeeLabel}) £${handlingLineItem.cardFee.toFixed(2)}`
                         : handlingLineItem.cardFee > 0
-                        ? `Card handling (2.4%) on £${addCurrency(totalSellGBP, handlingLineItem.shippingAmount).toFixed(2)}`
+                        ? `Card handling (${cardFeeLabel}) on £${addCurrency(totalSellGBP, handlingLineItem.shippingAmount).toFixed(2)}`
                         : `Shipping cost`}
                     </p>
                   </div>
                 </div>
                 <span className="text-sm font-semibold text-gray-900 ml-3 flex-shrink-0">
-                  £{handlingLineItem.total.toFixed(2)}
+                  {sellSymbol}{handlingLineItem.totalInvoice.toFixed(2)}
                 </span>
               </div>
             )}
@@ -451,20 +547,29 @@ export function StepReview() {
             <div className="bg-gray-50 p-3 rounded-lg space-y-2 text-sm">
               <div className="flex justify-between">
                 <span className="text-gray-700">Product total:</span>
-                <span className="font-semibold text-gray-900">£{totalSellGBP.toFixed(2)}</span>
+                <span className="font-semibold text-gray-900">{sellSymbol}{totalSellInvoice.toFixed(2)}</span>
               </div>
               {handlingLineItem.label && handlingLineItem.total > 0 && (
                 <div className="flex justify-between">
                   <span className="text-gray-700">{handlingLineItem.label}:</span>
-                  <span className="font-semibold text-gray-900">£{handlingLineItem.total.toFixed(2)}</span>
+                  <span className="font-semibold text-gray-900">{sellSymbol}{handlingLineItem.totalInvoice.toFixed(2)}</span>
                 </div>
               )}
               <div className="flex justify-between pt-2 border-t border-gray-300">
                 <span className="font-semibold text-gray-900">Invoice Total:</span>
                 <span className="font-bold text-gray-900 text-base">
-                  £{invoiceTotal.toFixed(2)}
+                  {sellSymbol}{invoiceTotal.toFixed(2)}
                 </span>
               </div>
+              {isForeign && (
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>
+                    {state.saleCurrency} at {state.saleFxRate} per £1
+                    {state.saleFxRateSource === "manual" ? " (entered by hand)" : " (rate table)"}
+                  </span>
+                  <span>≈ £{toBaseCurrency(invoiceTotal, fxRate).toFixed(2)}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -696,6 +801,23 @@ export function StepReview() {
         </div>
       )}
 
+      {/* Supplier bills option */}
+      <label className="flex items-start gap-3 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={raiseSupplierBills}
+          onChange={(e) => setRaiseSupplierBills(e.target.checked)}
+          disabled={state.isSubmitting || !!successData}
+          className="mt-0.5 h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+        />
+        <span>
+          Also raise draft supplier bills in Xero
+          <span className="block text-xs text-gray-500">
+            One bill per supplier, from the buy prices above. Finance approves them in Xero.
+          </span>
+        </span>
+      </label>
+
       {/* CREATE INVOICE BUTTON */}
       <div className="mt-6 space-y-3">
         {/* Discard & start new deal button */}
@@ -714,6 +836,7 @@ export function StepReview() {
             !state.buyer ||
             !state.dueDate ||
             state.isSubmitting ||
+            savingQuote ||
             !!successData ||
             state.items.length === 0
           }
@@ -755,6 +878,45 @@ export function StepReview() {
         )}
       </div>
 
+      {/* SAVE AS QUOTE */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div>
+          <h3 className="font-semibold text-gray-900">Not ready to invoice?</h3>
+          <p className="text-sm text-gray-600">
+            Save a quote instead. The client gets a branded PDF from Xero, and accepting it later creates the sale and invoice at these prices.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="min-w-0 sm:flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Quote valid until
+            </label>
+            <input
+              type="date"
+              value={quoteExpiry}
+              onChange={(e) => setQuoteExpiry(e.target.value)}
+              className="block w-full max-w-full appearance-none border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleSaveQuote}
+            disabled={
+              !state.buyer ||
+              !quoteExpiry ||
+              savingQuote ||
+              state.isSubmitting ||
+              !!successData ||
+              state.items.length === 0
+            }
+            className="flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg border border-gray-900 text-gray-900 font-medium hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {savingQuote ? <Loader2 className="w-4 h-4 animate-spin" /> : <ClipboardList className="w-4 h-4" />}
+            {savingQuote ? "Saving quote…" : "Save as Quote"}
+          </button>
+        </div>
+      </div>
+
       {/* Reset Confirmation Modal */}
       {showResetConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
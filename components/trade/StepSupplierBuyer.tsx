@@ -18,6 +18,7 @@ import * as logger from '@/lib/logger';
 export function StepSupplierBuyer() {
   const {
     state,
+    setEntity,
     setBuyer,
     setIsNewClient,
     setDeliveryCountry,
@@ -41,6 +42,9 @@ export function StepSupplierBuyer() {
   const buyerDebounceTimer = useRef<NodeJS.Timeout | null>(null);
   const buyerAbortController = useRef<AbortController | null>(null);
 
+  // === ENTITY STATE (only shown when several Xero organisations are connected) ===
+  const [entities, setEntities] = useState<Array<{ id: string; name: string; isDefault: boolean }>>([]);
+
   // === SHARED XERO STATE ===
   const [xeroError, setXeroError] = useState<string | null>(null);
   const [showXeroSuccess, setShowXeroSuccess] = useState(false);
@@ -129,6 +133,27 @@ export function StepSupplierBuyer() {
     }
   }, []);
 
+  useEffect(() => {
+    fetch("/api/entities")
+      .then((res) => (res.ok ? res.json() : { entities: [] }))
+      .then((data) => setEntities(data.entities || []))
+      .catch((error) => {
+        logger.error('TRADE_UI', 'Failed to load entities', { error: error as any });
+      });
+  }, []);
+
+  // === ENTITY HANDLER ===
+  // Clients are Xero contacts, so switching organisation clears the client
+  const handleEntityChange = (value: string) => {
+    const selected = entities.find((e) => e.id === value);
+    setEntity(!selected || selected.isDefault ? null : selected.id);
+    setBuyerName("");
+    setXeroContactId("");
+    setBuyerType("");
+    setBuyerDropdownResults([]);
+    setBuyerNotFound(false);
+  };
+
   // === BUYER HANDLERS (Xero integration) ===
   const handleBuyerInput = async (value: string) => {
     setBuyerName(value);
@@ -151,7 +176,7 @@ export function StepSupplierBuyer() {
         setBuyerNotFound(false); // Clear while searching
 
         try {
-          const results = await fetchXeroBuyers(value);
+          const results = await fetchXeroBuyers(value, state.entityId);
 
           // Update both results and active state together
           setBuyerDropdownResults(results);
@@ -403,6 +428,29 @@ export function StepSupplierBuyer() {
       <div className="border-t-4 border-purple-600 bg-purple-50 p-4 rounded-lg space-y-4">
         <h3 className="font-semibold text-gray-900">Client (Sale Details)</h3>
 
+        {/* Entity - which Xero organisation invoices the sale */}
+        {entities.length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Invoicing entity
+            </label>
+            <select
+              value={state.entityId ?? entities.find((e) => e.isDefault)?.id ?? ""}
+              onChange={(e) => handleEntityChange(e.target.value)}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {entities.map((entity) => (
+                <option key={entity.id} value={entity.id}>
+                  {entity.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-600 mt-1">
+              The Xero organisation the invoice is raised in
+            </p>
+          </div>
+        )}
+
         {/* Buyer Name with Xero Search */}
         <div className="relative">
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1,21 +1,39 @@
 "use client";
 
 import React, { useEffect } from "react";
-import { useTrade } from "@/contexts/TradeContext";
+import Link from "next/link";
+import { useTrade, type DraftSaveStatus } from "@/contexts/TradeContext";
 import { WizardStep } from "@/lib/types/invoice";
-import { RotateCcw } from "lucide-react";
+import { FileText, RotateCcw } from "lucide-react";
 
 // Phase 2 step order: Client → Supplier & Item → Pricing → VAT & Logistics → Review
 const STEP_LABELS = ["Client", "Supplier & Item", "Pricing", "VAT & Logistics", "Review & Create"];
 
 const STEP_LABELS_SHORT = ["Client", "Item", "Price", "Tax", "Review"];
 
+const DRAFT_STATUS_LABELS: Record<DraftSaveStatus, string> = {
+  idle: "",
+  saving: "Saving draft…",
+  saved: "Draft saved",
+  error: "Draft not saved — retrying on next change",
+  unavailable: "",
+};
+
+function formatDraftTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
 type WizardShellProps = {
   children: React.ReactNode;
 };
 
 export function WizardShell({ children }: WizardShellProps) {
-  const { state, canGoNext, canGoPrev, nextStep, prevStep, goToStep, canGoToStep, resetWizard, draftPrompt, resumeDraft, discardDraft } = useTrade();
+  const { state, canGoNext, canGoPrev, nextStep, prevStep, goToStep, canGoToStep, resetWizard, draftStatus, draftPrompt, resumeDraft, discardDraft } = useTrade();
   const [showResetConfirm, setShowResetConfirm] = React.useState(false);
 
   // Scroll to top on step change — backup pass.
@@ -83,7 +101,20 @@ export function WizardShell({ children }: WizardShellProps) {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">New Sale</h1>
             <p className="hidden sm:block text-gray-600 mt-1">Create a new sale record with Xero invoice</p>
+            {DRAFT_STATUS_LABELS[draftStatus] && (
+              <p className={`text-xs mt-1 ${draftStatus === "error" ? "text-amber-700" : "text-gray-400"}`}>
+                {DRAFT_STATUS_LABELS[draftStatus]}
+              </p>
+            )}
           </div>
+          <div className="flex items-center gap-1">
+          <Link
+            href="/trade/drafts"
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <FileText size={16} />
+            <span className="hidden sm:inline">My Drafts</span>
+          </Link>
           <button
             type="button"
             onClick={() => setShowResetConfirm(true)}
@@ -92,29 +123,55 @@ export function WizardShell({ children }: WizardShellProps) {
             <RotateCcw size={16} />
             <span className="hidden sm:inline">Start Over</span>
           </button>
+          </div>
         </div>
       </div>
 
+      {/* Draft Handed Over / Discarded Elsewhere */}
+      {draftStatus === "unavailable" && (
+        <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          This draft has been handed to someone else or discarded, so changes here are no longer saved.
+        </div>
+      )}
+
       {/* Draft Resume Prompt */}
       {draftPrompt && (
         <div className="mb-6 rounded-xl border border-purple-200 bg-purple-50 p-4">
           <p className="text-sm font-medium text-purple-900 mb-3">
-            You have an unsaved draft ({draftPrompt.state.items?.length || 0} item{(draftPrompt.state.items?.length || 0) !== 1 ? "s" : ""}). Resume where you left off?
+            You have {draftPrompt.length} saved draft{draftPrompt.length !== 1 ? "s" : ""}. Resume one, or start a new deal?
           </p>
+          <ul className="mb-3 space-y-2">
+            {draftPrompt.slice(0, 3).map((draft) => (
+              <li key={draft.id}>
+                <button
+                  type="button"
+                  onClick={() => resumeDraft(draft.id)}
+                  className="w-full flex items-center justify-between gap-3 rounded-lg border border-purple-200 bg-white px-3 py-2 text-left hover:bg-purple-100 transition-colors"
+                >
+                  <span className="text-sm font-medium text-gray-900 truncate">{draft.title}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {draft.handedOverBy ? `From ${draft.handedOverBy} · ` : ""}
+                    {formatDraftTime(draft.updatedAt)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
           <div className="flex gap-3">
-            <button
-              type="button"
-              onClick={resumeDraft}
-              className="flex-1 bg-purple-600 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-purple-700 transition-colors"
-            >
-              Resume Draft
-            </button>
+            {draftPrompt.length > 3 && (
+              <Link
+                href="/trade/drafts"
+                className="flex-1 text-center border border-purple-300 text-purple-700 text-sm font-medium py-2 px-4 rounded-lg hover:bg-purple-100 transition-colors"
+              >
+                All Drafts
+              </Link>
+            )}
             <button
               type="button"
               onClick={discardDraft}
               className="flex-1 border border-purple-300 text-purple-700 text-sm font-medium py-2 px-4 rounded-lg hover:bg-purple-100 transition-colors"
             >
-              Start Fresh
+              Start New Deal
             </button>
           </div>
         </div>
@@ -0,0 +1,68 @@
+/**
+ * Club 19 Sales OS - Entity Picker Component
+ *
+ * Client component for filtering by legal entity (Xero organisation)
+ * Uses the `entity` searchParam; renders nothing with a single entity
+ */
+
+"use client";
+
+import { useRouter, useSearchParams, usePathname } from "next/navigation";
+import { ChevronDown } from "lucide-react";
+
+interface EntityPickerProps {
+  entities: Array<{ id: string; name: string }>;
+  className?: string;
+}
+
+export function EntityPicker({ entities, className = "" }: EntityPickerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  if (entities.length < 2) return null;
+
+  const currentEntity = searchParams.get("entity") || "all";
+
+  const handleEntityChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    if (value === "all") {
+      params.delete("entity");
+    } else {
+      params.set("entity", value);
+    }
+
+    router.push(`${pathname}?${params.toString()}`);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <select
+        value={currentEntity}
+        onChange={(e) => handleEntityChange(e.target.value)}
+        className="
+          appearance-none
+          h-10 pl-4 pr-10 py-2 min-w-[180px]
+          bg-white border border-gray-200 rounded-lg
+          text-sm font-medium text-gray-700
+          hover:bg-gray-50 hover:border-gray-400
+          focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent
+          transition-colors
+          cursor-pointer
+        "
+      >
+        <option value="all">All Entities</option>
+        {entities.map((entity) => (
+          <option key={entity.id} value={entity.id}>
+            {entity.name}
+          </option>
+        ))}
+      </select>
+      <ChevronDown
+        className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-gray-500"
+        size={16}
+      />
+    </div>
+  );
+}
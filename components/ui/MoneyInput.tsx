@@ -55,6 +55,8 @@ export interface MoneyInputProps {
   allowNegative?: boolean;
   /** "money" → £ prefix; "percent" → % suffix, default max=100. Default: money. */
   mode?: MoneyInputMode;
+  /** Currency symbol shown in "money" mode. Default "£". */
+  symbol?: string;
   "aria-label"?: string;
   autoComplete?: string;
 }
@@ -75,12 +77,14 @@ export function MoneyInput({
   required,
   allowNegative = false,
   mode = "money",
+  symbol = "£",
   "aria-label": ariaLabel,
   autoComplete,
 }: MoneyInputProps) {
   const effectiveMax = max ?? (mode === "percent" ? 100 : undefined);
   const pattern = allowNegative ? SIGNED_PATTERN : POSITIVE_PATTERN;
-  const paddingClass = mode === "percent" ? "pr-7" : "pl-7";
+  // Multi-letter symbols (e.g. CHF) need more room than £/$/€
+  const paddingClass = mode === "percent" ? "pr-7" : symbol.length > 1 ? "pl-12" : "pl-7";
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     const next = e.target.value;
@@ -112,7 +116,7 @@ export function MoneyInput({
     <div className="relative">
       {mode === "money" && (
         <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-500 pointer-events-none">
-          £
+          {symbol}
         </span>
       )}
       <input
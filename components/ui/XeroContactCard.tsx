@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { XeroContactDetail } from "@/lib/xero-contacts";
+
+interface XeroContactCardProps {
+  contact: XeroContactDetail;
+  /** PATCH endpoint that saves contact details, e.g. /api/clients/{id} */
+  endpoint: string;
+  canEdit: boolean;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "name",
+  email: "email",
+  phone: "phone",
+  taxNumber: "tax number",
+};
+
+/**
+ * Contact details mirrored from Xero, with inline editing. Saved edits are
+ * pushed to Xero; if Xero hasn't accepted them yet the card says so.
+ */
+export function XeroContactCard({ contact, endpoint, canEdit }: XeroContactCardProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    email: contact.email ?? "",
+    phone: contact.phone ?? "",
+    taxNumber: contact.taxNumber ?? "",
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Only send what changed, so untouched fields aren't pushed to Xero
+      const changes = Object.fromEntries(
+        Object.entries(form).filter(
+          ([key, value]) => value.trim() !== ((contact[key as keyof typeof form] as string | null) ?? "")
+        )
+      );
+      if (Object.keys(changes).length > 0) {
+        const response = await fetch(endpoint, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(changes),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save contact details");
+        }
+      }
+      setIsEditing(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save contact details");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rows: Array<{ key: keyof typeof form; label: string; type: string }> = [
+    { key: "email", label: "Email", type: "email" },
+    { key: "phone", label: "Phone", type: "tel" },
+    { key: "taxNumber", label: "Tax Number", type: "text" },
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm mb-10">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold text-gray-900">Contact Details</h2>
+          {contact.archived && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+              Archived in Xero
+            </span>
+          )}
+        </div>
+        {canEdit && !isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="text-sm font-medium text-purple-600 hover:text-purple-700"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {contact.pendingFields.length > 0 && (
+        <div className="mb-4 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+          Waiting to update {contact.pendingFields.map((f) => FIELD_LABELS[f] ?? f).join(", ")} in Xero
+          {contact.pushError && <span className="block text-xs mt-1">Xero said: {contact.pushError}</span>}
+        </div>
+      )}
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        {rows.map((row) => (
+          <div key={row.key}>
+            <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">{row.label}</dt>
+            <dd className="mt-1 text-sm text-gray-900">
+              {isEditing ? (
+                <input
+                  type={row.type}
+                  value={form[row.key]}
+                  onChange={(e) => setForm({ ...form, [row.key]: e.target.value })}
+                  disabled={isSaving}
+                  className="w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-purple-500 focus:ring-purple-500"
+                />
+              ) : (
+                contact[row.key] || <span className="text-gray-400">—</span>
+              )}
+            </dd>
+          </div>
+        ))}
+        {contact.addresses.map((address, index) => (
+          <div key={`${address.type}-${index}`}>
+            <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {address.type === "STREET" ? "Street Address" : "Postal Address"}
+            </dt>
+            <dd className="mt-1 text-sm text-gray-900 whitespace-pre-line">
+              {[...address.lines, [address.city, address.region].filter(Boolean).join(", "), address.postalCode, address.country]
+                .filter(Boolean)
+                .join("\n")}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {isEditing && (
+        <div className="mt-5 flex items-center gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? "Saving..." : "Save & Update Xero"}
+          </button>
+          <button
+            onClick={() => {
+              setIsEditing(false);
+              setError(null);
+              setForm({ email: contact.email ?? "", phone: contact.phone ?? "", taxNumber: contact.taxNumber ?? "" });
+            }}
+            disabled={isSaving}
+            className="text-sm font-medium text-gray-500 hover:text-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
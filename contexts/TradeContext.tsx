@@ -12,81 +12,74 @@ import {
   WizardStep,
   WizardState,
 } from "@/lib/types/invoice";
+import { isBuyRateReady, isValidFxRate, type FxRateSource } from "@/lib/calculations/fx";
 import { v4 as uuidv4 } from "uuid";
 
 // ============================================================================
 // DRAFT PERSISTENCE
 // ============================================================================
-
-const DRAFT_KEY = "club19_trade_draft";
-const DRAFT_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-interface DraftEnvelope {
-  savedAt: number; // timestamp
-  state: Partial<WizardState>;
+// Drafts are saved server-side (/api/deal-drafts, lib/deal-drafts.ts) so they
+// follow the shopper across devices and can be handed to a colleague. The
+// open draft's ID is kept in the URL (?draft=) so a refresh resumes it.
+
+const DRAFT_SAVE_DEBOUNCE_MS = 1000;
+
+export interface DraftSummary {
+  id: string;
+  title: string;
+  itemCount: number;
+  ownerName: string | null;
+  handedOverBy: string | null;
+  handedOverAt: string | null;
+  updatedAt: string;
 }
 
-function saveDraft(state: WizardState): void {
-  try {
-    const draft: DraftEnvelope = {
-      savedAt: Date.now(),
-      state: {
-        currentStep: state.currentStep,
-        saleDate: state.saleDate,
-        items: state.items,
-        buyer: state.buyer,
-        isNewClient: state.isNewClient,
-        currentPaymentMethod: state.currentPaymentMethod,
-        deliveryCountry: state.deliveryCountry,
-        shippingCost: state.shippingCost,
-        entrupyFee: state.entrupyFee,
-        taxScenario: state.taxScenario,
-        itemLocation: state.itemLocation,
-        clientLocation: state.clientLocation,
-        purchaseType: state.purchaseType,
-        directShip: state.directShip,
-        landedDelivery: state.landedDelivery,
-        hasDeliveryCost: state.hasDeliveryCost,
-        hasIntroducer: state.hasIntroducer,
-        introducerName: state.introducerName,
-        introducerFeeType: state.introducerFeeType,
-        introducerFeePercent: state.introducerFeePercent,
-        introducerFeeFlat: state.introducerFeeFlat,
-        dueDate: state.dueDate,
-        notes: state.notes,
-        estimatedImportExportGBP: state.estimatedImportExportGBP,
-        importVAT: state.importVAT,
-      },
-    };
-    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
-  } catch {
-    // localStorage full or unavailable — silently ignore
-  }
+// "unavailable": the draft was handed to someone else or discarded elsewhere,
+// so this wizard stops saving over it
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error" | "unavailable";
+
+function draftSnapshot(state: WizardState): Partial<WizardState> {
+  return {
+    currentStep: state.currentStep,
+    saleDate: state.saleDate,
+    entityId: state.entityId,
+    items: state.items,
+    buyer: state.buyer,
+    isNewClient: state.isNewClient,
+    currentPaymentMethod: state.currentPaymentMethod,
+    deliveryCountry: state.deliveryCountry,
+    shippingCost: state.shippingCost,
+    entrupyFee: state.entrupyFee,
+    saleCurrency: state.saleCurrency,
+    saleFxRate: state.saleFxRate,
+    saleFxRateSource: state.saleFxRateSource,
+    taxScenario: state.taxScenario,
+    itemLocation: state.itemLocation,
+    clientLocation: state.clientLocation,
+    purchaseType: state.purchaseType,
+    directShip: state.directShip,
+    landedDelivery: state.landedDelivery,
+    hasDeliveryCost: state.hasDeliveryCost,
+    hasIntroducer: state.hasIntroducer,
+    introducerName: state.introducerName,
+    introducerFeeType: state.introducerFeeType,
+    introducerFeePercent: state.introducerFeePercent,
+    introducerFeeFlat: state.introducerFeeFlat,
+    dueDate: state.dueDate,
+    notes: state.notes,
+    estimatedImportExportGBP: state.estimatedImportExportGBP,
+    importVAT: state.importVAT,
+  };
 }
 
-function loadDraft(): DraftEnvelope | null {
-  try {
-    const raw = localStorage.getItem(DRAFT_KEY);
-    if (!raw) return null;
-    const draft: DraftEnvelope = JSON.parse(raw);
-    if (Date.now() - draft.savedAt > DRAFT_MAX_AGE_MS) {
-      localStorage.removeItem(DRAFT_KEY);
-      return null;
-    }
-    // Require at least one item to consider it a meaningful draft
-    if (!draft.state.items || draft.state.items.length === 0) {
-      localStorage.removeItem(DRAFT_KEY);
-      return null;
-    }
-    return draft;
-  } catch {
-    localStorage.removeItem(DRAFT_KEY);
-    return null;
+function setDraftParam(draftId: string | null): void {
+  const url = new URL(window.location.href);
+  if (draftId) {
+    url.searchParams.set("draft", draftId);
+  } else {
+    url.searchParams.delete("draft");
   }
-}
-
-export function clearDraft(): void {
-  try { localStorage.removeItem(DRAFT_KEY); } catch { /* ignore */ }
+  window.history.replaceState({}, "", url.toString());
 }
 
 type TradeContextType = {
@@ -126,12 +119,19 @@ type TradeContextType = {
   // Shipping cost
   setShippingCost: (cost: number) => void;
 
+  // Invoice currency + FX rate
+  setSaleCurrency: (currency: string) => void;
+  setSaleFxRate: (rate: number | null, source: FxRateSource | null) => void;
+
   // Items
   addItem: (item: TradeItem) => void;
   updateItem: (itemId: string, item: Partial<TradeItem>) => void;
   removeItem: (itemId: string) => void;
   startEditingItem: (itemId: string | "new") => void;
 
+  // Entity (clears the buyer, whose contact belongs to the other organisation)
+  setEntity: (entityId: string | null) => void;
+
   // Buyer
   setBuyer: (buyer: Buyer) => void;
   setIsNewClient: (value: boolean) => void;
@@ -163,9 +163,11 @@ type TradeContextType = {
   resetWizard: () => void;
 
   // Draft persistence
-  draftPrompt: DraftEnvelope | null;
-  resumeDraft: () => void;
-  discardDraft: () => void;
+  draftId: string | null;
+  draftStatus: DraftSaveStatus;
+  draftPrompt: DraftSummary[] | null; // Saved drafts offered on opening a blank wizard
+  resumeDraft: (draftId: string) => Promise<void>;
+  discardDraft: () => void; // Dismiss the prompt and start a new deal
 };
 
 const TradeContext = createContext<TradeContextType | undefined>(undefined);
@@ -174,6 +176,7 @@ const TradeContext = createContext<TradeContextType | undefined>(undefined);
 const createInitialState = (): WizardState => ({
   currentStep: 0,
   saleDate: new Date().toISOString().split("T")[0], // Today
+  entityId: null,
   taxScenario: null,
   currentItem: null,
   currentSupplier: null,
@@ -187,6 +190,9 @@ const createInitialState = (): WizardState => ({
   hasDeliveryCost: null,
   shippingCost: 0,
   entrupyFee: 0,
+  saleCurrency: "GBP",
+  saleFxRate: null,
+  saleFxRateSource: null,
   items: [],
   editingItemId: null,
   buyer: null,
@@ -211,31 +217,123 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<WizardState>(createInitialState);
   const [navigationDirection, setNavigationDirection] = useState<"forward" | "back">("forward");
   const [resetKey, setResetKey] = useState(0);
-  const [draftPrompt, setDraftPrompt] = useState<DraftEnvelope | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftStatus, setDraftStatus] = useState<DraftSaveStatus>("idle");
+  const [draftPrompt, setDraftPrompt] = useState<DraftSummary[] | null>(null);
   const draftTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const draftIdRef = useRef<string | null>(null);
+  // Saves run one after another so a new draft's ID is known before the next
+  // save; bumping the generation drops saves queued for a previous draft
+  const draftQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const draftGenerationRef = useRef(0);
+  const draftLockedRef = useRef(false);
+
+  const openDraft = useCallback((id: string | null) => {
+    draftGenerationRef.current += 1;
+    draftIdRef.current = id;
+    draftLockedRef.current = false;
+    setDraftId(id);
+    setDraftStatus(id ? "saved" : "idle");
+    setDraftParam(id);
+  }, []);
+
+  const persistDraft = useCallback((snapshot: Partial<WizardState>) => {
+    const generation = draftGenerationRef.current;
+    draftQueueRef.current = draftQueueRef.current.then(async () => {
+      if (generation !== draftGenerationRef.current || draftLockedRef.current) return;
+      setDraftStatus("saving");
+      try {
+        const id = draftIdRef.current;
+        const response = await fetch(id ? `/api/deal-drafts/${id}` : "/api/deal-drafts", {
+          method: id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ state: snapshot }),
+        });
+        if (generation !== draftGenerationRef.current) return;
+        if (response.status === 403 || response.status === 404) {
+          draftLockedRef.current = true;
+          setDraftStatus("unavailable");
+          return;
+        }
+        if (!response.ok) {
+          setDraftStatus("error");
+          return;
+        }
+        const data = await response.json();
+        if (!id) {
+          draftIdRef.current = data.draft.id;
+          setDraftId(data.draft.id);
+          setDraftParam(data.draft.id);
+        }
+        setDraftStatus("saved");
+      } catch {
+        if (generation === draftGenerationRef.current) setDraftStatus("error");
+      }
+    });
+  }, []);
 
-  // Check for saved draft on mount
-  useEffect(() => {
-    const draft = loadDraft();
-    if (draft) {
-      setDraftPrompt(draft);
+  // Load a saved draft into the wizard. Step components are remounted so
+  // their local fields pick up the loaded state.
+  const resumeDraft = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/deal-drafts/${id}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setState((prev) => ({ ...prev, error: data.error || "Could not open the draft" }));
+        setDraftParam(null);
+        return;
+      }
+      const data = await response.json();
+      setState({
+        ...createInitialState(),
+        ...(data.draft.state as Partial<WizardState>),
+        // Reset UI state
+        isSubmitting: false,
+        error: null,
+        editingItemId: null,
+        currentItem: null,
+        currentSupplier: null,
+        impliedCosts: null,
+      });
+      setResetKey((prev) => prev + 1);
+      setDraftPrompt(null);
+      openDraft(id);
+    } catch {
+      setState((prev) => ({ ...prev, error: "Could not open the draft" }));
     }
-  }, []);
+  }, [openDraft]);
 
-  // Auto-save draft on state changes (debounced 500ms)
+  // On mount: open the draft named in the URL, or offer the user's saved drafts
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get("draft");
+    if (requested) {
+      void resumeDraft(requested);
+      return;
+    }
+    fetch("/api/deal-drafts")
+      .then((response) => (response.ok ? response.json() : { drafts: [] }))
+      .then((data) => {
+        if (data.drafts?.length > 0) setDraftPrompt(data.drafts);
+      })
+      .catch(() => {
+        // Drafts list unavailable — start a fresh deal
+      });
+  }, [resumeDraft]);
+
+  // Auto-save draft on state changes (debounced)
   useEffect(() => {
-    // Don't save if submitting or if there are no items yet
-    if (state.isSubmitting || state.items.length === 0) return;
+    // Don't save if submitting or before there's a client or an item
+    if (state.isSubmitting || (state.items.length === 0 && !state.buyer)) return;
 
     if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
     draftTimerRef.current = setTimeout(() => {
-      saveDraft(state);
-    }, 500);
+      persistDraft(draftSnapshot(state));
+    }, DRAFT_SAVE_DEBOUNCE_MS);
 
     return () => {
       if (draftTimerRef.current) clearTimeout(draftTimerRef.current);
     };
-  }, [state]);
+  }, [state, persistDraft]);
 
   // Scrolls every plausible scroll container to the top. Called synchronously
   // from goToStep/nextStep/prevStep so the reset happens at the moment of user
@@ -325,9 +423,11 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
       (item) =>
         item.buyPrice !== undefined &&
         item.buyPrice >= 0 &&
+        isBuyRateReady(item) &&
         item.sellPrice !== undefined &&
         item.sellPrice > 0
     ) &&
+    isValidFxRate(s.saleCurrency, s.saleFxRate) &&
     s.currentPaymentMethod !== null;
 
   const validateLogisticsStep = (s: WizardState): boolean =>
@@ -438,10 +538,25 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     setState((prev) => ({ ...prev, shippingCost: cost }));
   }, []);
 
+  const setSaleCurrency = useCallback((currency: string) => {
+    // A new currency needs a new rate; sell prices are re-read as that currency
+    setState((prev) => ({
+      ...prev,
+      saleCurrency: currency,
+      saleFxRate: null,
+      saleFxRateSource: null,
+      items: prev.items.map((item) => ({ ...item, sellCurrency: currency })),
+    }));
+  }, []);
+
+  const setSaleFxRate = useCallback((rate: number | null, source: FxRateSource | null) => {
+    setState((prev) => ({ ...prev, saleFxRate: rate, saleFxRateSource: source }));
+  }, []);
+
   const addItem = useCallback((item: TradeItem) => {
     setState((prev) => ({
       ...prev,
-      items: [...prev.items, item],
+      items: [...prev.items, { ...item, sellCurrency: prev.saleCurrency }],
       editingItemId: null,
     }));
   }, []);
@@ -469,6 +584,12 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     setState((prev) => ({ ...prev, editingItemId: itemId }));
   }, []);
 
+  const setEntity = useCallback((entityId: string | null) => {
+    setState((prev) =>
+      prev.entityId === entityId ? prev : { ...prev, entityId, buyer: null }
+    );
+  }, []);
+
   const setBuyer = useCallback((buyer: Buyer) => {
     setState((prev) => ({ ...prev, buyer }));
   }, []);
@@ -543,33 +664,22 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     setState((prev) => ({ ...prev, error }));
   }, []);
 
+  // Start over: the open draft is discarded
   const resetWizard = useCallback(() => {
+    const id = draftIdRef.current;
+    openDraft(null);
+    if (id) {
+      fetch(`/api/deal-drafts/${id}`, { method: "DELETE" }).catch(() => {
+        // Left in the drafts list to discard by hand
+      });
+    }
     setState(createInitialState());
     setNavigationDirection("forward");
     setResetKey((prev) => prev + 1); // Force remount of all step components
-    clearDraft();
-  }, []);
-
-  // Resume a saved draft
-  const resumeDraft = useCallback(() => {
-    if (!draftPrompt?.state) return;
-    setState((prev) => ({
-      ...prev,
-      ...draftPrompt.state,
-      // Reset UI state
-      isSubmitting: false,
-      error: null,
-      editingItemId: null,
-      currentItem: null,
-      currentSupplier: null,
-      impliedCosts: null,
-    }));
-    setDraftPrompt(null);
-  }, [draftPrompt]);
+  }, [openDraft]);
 
-  // Discard draft and start fresh
+  // Keep saved drafts for later and start a new deal
   const discardDraft = useCallback(() => {
-    clearDraft();
     setDraftPrompt(null);
   }, []);
 
@@ -595,10 +705,13 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     setLandedDelivery,
     setHasDeliveryCost,
     setShippingCost,
+    setSaleCurrency,
+    setSaleFxRate,
     addItem,
     updateItem,
     removeItem,
     startEditingItem,
+    setEntity,
     setBuyer,
     setIsNewClient,
     setHasIntroducer,
@@ -615,6 +728,8 @@ export function TradeProvider({ children }: { children: React.ReactNode }) {
     setSubmitting,
     setError,
     resetWizard,
+    draftId,
+    draftStatus,
     draftPrompt,
     resumeDraft,
     discardDraft,
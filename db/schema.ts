@@ -3,8 +3,12 @@
  *
  * This schema mirrors the existing Xata database structure.
  * Tables: shoppers, buyers, suppliers, introducers, commissionBands,
- *         sales, errors, paymentSchedule, lineItems,
- *         legacySuppliers, legacyClients, legacyTrades
+ *         xeroContacts, commissionSchemes, commissionStatements,
+ *         commissionLedger, commissionClawbackProposals, brandingThemes,
+ *         fxRates, entities, sales,
+ *         errors, syncState, webhookEvents, creditNotes, paymentSchedule,
+ *         payments, supplierBills, dealDrafts, quotes, lineItems, legacySuppliers,
+ *         legacyClients, legacyTrades
  *
  * Migration from Xata SDK to Drizzle ORM (Feb 2026 deadline)
  */
@@ -121,6 +125,80 @@ export const suppliersRelations = relations(suppliers, ({ many }) => ({
   lineItems: many(lineItems, { relationName: "supplierLineItems" }),
 }));
 
+// ============================================================================
+// XERO CONTACTS (mirror of Xero contacts)
+// ============================================================================
+// One row per Xero contact, customers and suppliers alike, kept fresh by
+// CONTACT webhooks and the sync-contacts cron. Buyer/supplier search reads
+// from here instead of calling Xero. `buyers`/`suppliers` still link by
+// `xero_contact_id`; their name and email follow this row.
+//
+// Edits made in the OS are written here at once and queued in
+// `pending_changes` until Xero accepts them; `push_error` holds the last
+// rejection. While changes are pending, syncs don't overwrite those fields.
+// `xero_tenant_id` is the organisation the contact lives in (null = the
+// default entity's). See lib/xero-contacts.ts.
+export const xeroContacts = pgTable(
+  "xero_contacts",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    xeroContactId: text("xero_contact_id").notNull(),
+    xeroTenantId: text("xero_tenant_id"),
+    name: text("name").notNull(),
+    firstName: text("first_name"),
+    lastName: text("last_name"),
+    email: text("email"),
+    phone: text("phone"),
+    accountNumber: text("account_number"),
+    contactNumber: text("contact_number"),
+    taxNumber: text("tax_number"),
+    // POBOX (postal) and STREET addresses
+    addresses: jsonb("addresses").$type<
+      {
+        type: string;
+        lines: string[];
+        city: string | null;
+        region: string | null;
+        postalCode: string | null;
+        country: string | null;
+      }[]
+    >(),
+    contactPersons: jsonb("contact_persons").$type<
+      { firstName: string | null; lastName: string | null; email: string | null }[]
+    >(),
+    isCustomer: boolean("is_customer").notNull().default(false),
+    isSupplier: boolean("is_supplier").notNull().default(false),
+    defaultSalesCode: text("default_sales_code"),
+    defaultPurchaseCode: text("default_purchase_code"),
+    defaultCurrency: text("default_currency"),
+    // ACTIVE | ARCHIVED | GDPRREQUEST
+    contactStatus: text("contact_status").notNull().default("ACTIVE"),
+    pendingChanges: jsonb("pending_changes").$type<{
+      name?: string;
+      email?: string | null;
+      phone?: string | null;
+      taxNumber?: string | null;
+    }>(),
+    pushError: text("push_error"),
+    pushedAt: timestamp("pushed_at", { withTimezone: true }),
+    xeroUpdatedAt: timestamp("xero_updated_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("xero_contacts_xero_contact_id_idx").on(table.xeroContactId),
+    index("xero_contacts_name_idx").on(table.name),
+    index("xero_contacts_contact_status_idx").on(table.contactStatus),
+    index("xero_contacts_xero_tenant_id_idx").on(table.xeroTenantId),
+  ]
+);
+
 // ============================================================================
 // INTRODUCERS
 // ============================================================================
@@ -158,6 +236,338 @@ export const commissionBandsRelations = relations(
   })
 );
 
+// ============================================================================
+// COMMISSION SCHEMES (V2 engine configuration)
+// ============================================================================
+// One row per *version* of a scheme. `scheme_key` is what
+// `shoppers.commission_scheme` points at; several rows can share a key with
+// non-overlapping [effective_from, effective_to) windows so recalculating a
+// past month still uses the bands that were in force at the time. A NULL
+// `effective_to` marks the currently open version. Band `max: null` means
+// "no upper limit" (JSON has no Infinity) — lib/commission-schemes.ts
+// converts it on read. `band_mode` is "flat" (one rate on the whole monthly
+// total) or "marginal" (each slice at its own rate). Resolution lives in
+// lib/calculations/commission.ts.
+export const commissionSchemes = pgTable(
+  "commission_schemes",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    schemeKey: text("scheme_key").notNull(),
+    name: text("name").notNull(),
+    bands: jsonb("bands")
+      .$type<{ min: number; max: number | null; rate: number }[]>()
+      .notNull(),
+    bandMode: text("band_mode")
+      .$type<"flat" | "marginal">()
+      .notNull()
+      .default("flat"),
+    deductVatFromProfit: boolean("deduct_vat_from_profit")
+      .notNull()
+      .default(false),
+    newClientBonusRate: doublePrecision("new_client_bonus_rate")
+      .notNull()
+      .default(0),
+    effectiveFrom: timestamp("effective_from", { withTimezone: true }).notNull(),
+    effectiveTo: timestamp("effective_to", { withTimezone: true }),
+    notes: text("notes"),
+    createdBy: text("created_by"),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("commission_schemes_scheme_key_idx").on(table.schemeKey),
+    index("commission_schemes_effective_from_idx").on(table.effectiveFrom),
+  ]
+);
+
+// ============================================================================
+// COMMISSION STATEMENTS (immutable monthly snapshots)
+// ============================================================================
+// One row per approval of a shopper's monthly commission. Rows are never
+// updated or deleted: re-approving a month after sales change inserts the
+// next `version`, and the latest version is the statement of record.
+// `snapshot` holds the full CommissionResult (per-sale SaleCommissionDetail
+// rows, band, bonuses) as it stood at approval — the live calculation is
+// diffed against it to show later edits as a delta. The scalar totals are
+// duplicated out of the snapshot for querying.
+export const commissionStatements = pgTable(
+  "commission_statements",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    shopperId: text("shopper_id").notNull(),
+    month: text("month").notNull(), // "YYYY-MM"
+    version: integer("version").notNull(),
+    schemeId: text("scheme_id"),
+    cumulativeProfit: doublePrecision("cumulative_profit").notNull(),
+    commissionRate: doublePrecision("commission_rate").notNull(),
+    commissionAmount: doublePrecision("commission_amount").notNull(),
+    newClientBonusAmount: doublePrecision("new_client_bonus_amount").notNull(),
+    totalPayable: doublePrecision("total_payable").notNull(),
+    snapshot: jsonb("snapshot").notNull(),
+    notes: text("notes"),
+    approvedBy: text("approved_by").notNull(),
+    approvedAt: timestamp("approved_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("commission_statements_shopper_month_version_idx").on(
+      table.shopperId,
+      table.month,
+      table.version
+    ),
+    index("commission_statements_month_idx").on(table.month),
+  ]
+);
+
+// ============================================================================
+// COMMISSION LEDGER (per-shopper running balance)
+// ============================================================================
+// Signed entries: positive = owed to the shopper, negative = owed back.
+//   statement  +  statement total on the month's locked sales, posted when
+//                 it is paid; again for the difference if more sales lock or
+//                 the statement is re-approved
+//   payment    −  the net amount actually paid out for that month
+//   clawback   −  commission already paid on a sale that was later clawed back
+//   adjustment ±  manual correction
+// A shopper's balance is the sum of their entries. It is zero after a month
+// is paid unless clawbacks exceeded that month's statement, in which case the
+// negative remainder carries forward and is deducted from the next payment.
+// Entries are insert-only. See lib/commission-ledger.ts.
+export const commissionLedger = pgTable(
+  "commission_ledger",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    shopperId: text("shopper_id").notNull(),
+    month: text("month").notNull(), // "YYYY-MM" the entry belongs to
+    entryType: text("entry_type")
+      .$type<"statement" | "payment" | "clawback" | "adjustment">()
+      .notNull(),
+    amount: doublePrecision("amount").notNull(),
+    saleId: text("sale_id"),
+    statementId: text("statement_id"),
+    description: text("description"),
+    createdBy: text("created_by").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("commission_ledger_shopper_id_idx").on(table.shopperId),
+    index("commission_ledger_month_idx").on(table.month),
+    // A sale is clawed back once
+    uniqueIndex("commission_ledger_clawback_sale_idx")
+      .on(table.saleId)
+      .where(sql`entry_type = 'clawback'`),
+  ]
+);
+
+// ============================================================================
+// COMMISSION CLAWBACK PROPOSALS (credit notes after lock)
+// ============================================================================
+// Raised automatically when a credit note lands on a sale whose commission is
+// already locked or paid. `credited_amount` is the new credit (GBP) since the
+// last proposal for that credit note and `proposed_amount` is the same share
+// of the sale's commission. Nothing moves until finance reviews it: approving
+// posts `−proposed_amount` to commission_ledger as an `adjustment`;
+// rejecting leaves the commission as paid. Keyed on the credit note's
+// cumulative applied amount so two syncs seeing the same credit can't both
+// propose. See lib/commission-ledger.ts.
+export const commissionClawbackProposals = pgTable(
+  "commission_clawback_proposals",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    saleId: uuid("sale_id")
+      .notNull()
+      .references(() => sales.id),
+    creditNoteId: text("credit_note_id").notNull(),
+    shopperId: text("shopper_id").notNull(),
+    appliedAmount: doublePrecision("applied_amount").notNull(),
+    creditedAmount: doublePrecision("credited_amount").notNull(),
+    saleTotal: doublePrecision("sale_total").notNull(),
+    commissionBase: doublePrecision("commission_base").notNull(),
+    proposedAmount: doublePrecision("proposed_amount").notNull(),
+    status: text("status")
+      .$type<"pending" | "approved" | "rejected">()
+      .notNull()
+      .default("pending"),
+    reviewedBy: text("reviewed_by"),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    reviewNotes: text("review_notes"),
+    ledgerEntryId: text("ledger_entry_id"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("commission_clawback_proposals_credit_applied_idx").on(
+      table.creditNoteId,
+      table.appliedAmount
+    ),
+    index("commission_clawback_proposals_sale_id_idx").on(table.saleId),
+    index("commission_clawback_proposals_status_idx").on(table.status),
+  ]
+);
+
+// ============================================================================
+// BRANDING THEMES (Xero theme registry)
+// ============================================================================
+// One row per Xero branding theme. POST /api/branding-themes/sync refreshes
+// name / sort order from Xero's BrandingThemes endpoint and marks themes no
+// longer returned as `in_xero = false`; everything else is assigned by an
+// admin. A theme is only used for VAT once `account_code`, `treatment` and
+// `expected_vat` are all set — until then it is unknown and
+// getVATRateForBrandingTheme() refuses to guess. `no_link_variant_id` is the
+// Xero GUID of the paired bank-transfer theme. `xero_tenant_id` is the
+// organisation the theme belongs to (null = the default entity's). See
+// lib/branding-themes.ts.
+export const brandingThemes = pgTable(
+  "branding_themes",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    xeroBrandingThemeId: text("xero_branding_theme_id").notNull(),
+    xeroTenantId: text("xero_tenant_id"),
+    name: text("name").notNull(),
+    sortOrder: integer("sort_order"),
+    accountCode: text("account_code"),
+    treatment: text("treatment"),
+    explanation: text("explanation"),
+    expectedVat: doublePrecision("expected_vat"), // percentage, e.g. 20
+    noLinkVariantId: text("no_link_variant_id"),
+    inXero: boolean("in_xero").notNull().default(true),
+    lastSyncedAt: timestamp("last_synced_at", { withTimezone: true }),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("branding_themes_xero_id_idx").on(table.xeroBrandingThemeId),
+  ]
+);
+
+// ============================================================================
+// FX RATES (local rate table)
+// ============================================================================
+// One rate per currency per day, maintained by finance on
+// /staff/finance/fx-rates. `rate` is units of `currency` per £1 — the same
+// convention as Xero's CurrencyRate. The wizard defaults a foreign-currency
+// sale to the latest rate on or before the sale date; shoppers can override
+// it by hand. See lib/fx-rates.ts.
+export const fxRates = pgTable(
+  "fx_rates",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    currency: text("currency").notNull(),
+    rateDate: timestamp("rate_date", { withTimezone: true }).notNull(),
+    rate: doublePrecision("rate").notNull(),
+    source: text("source"),
+    createdBy: text("created_by"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("fx_rates_currency_date_idx").on(table.currency, table.rateDate),
+  ]
+);
+
+// ============================================================================
+// IMPLIED COST RULES (shipping, card fee and Entrupy defaults)
+// ============================================================================
+// Maintained by finance on /staff/finance/implied-costs. One row per rule,
+// keyed by (`rule_type`, `key`):
+//   region         key = lower-case country,  `region` = its shipping region
+//   route          key = "EU_UK" ("DEFAULT" for the fallback), `amount` = £
+//   card_fee       key = payment method,      `amount` = fraction (0.024)
+//   entrupy        key = lower-case category ("default" for the fallback),
+//                  `amount` = £ per unit
+// A rule type with no rows falls back to the built-in defaults in
+// lib/implied-costs.ts. See lib/implied-cost-rules.ts.
+export const impliedCostRules = pgTable(
+  "implied_cost_rules",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    ruleType: text("rule_type").notNull(),
+    key: text("key").notNull(),
+    region: text("region"),
+    amount: doublePrecision("amount"),
+    updatedBy: text("updated_by"),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("implied_cost_rules_type_key_idx").on(table.ruleType, table.key),
+  ]
+);
+
+// ============================================================================
+// ENTITIES (trading entities, one per Xero organisation)
+// ============================================================================
+// One row per legal entity the OS trades as, each with its own Xero tenant.
+// Rows are created when an organisation is connected through Xero OAuth;
+// exactly one is the default, and sales with no `entity_id` belong to it.
+//
+// Charts of accounts and branding themes differ between organisations, so
+// each entity maps the OS's codes onto its own: `account_mappings` (OS
+// account code → tenant account code) and `branding_theme_mappings` (OS
+// theme name → tenant theme name or GUID). Codes with no mapping are used
+// as-is. Tokens themselves live in Clerk, keyed by tenant (lib/xero-auth.ts).
+// See lib/entities.ts.
+export const entities = pgTable(
+  "entities",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    name: text("name").notNull(),
+    xeroTenantId: text("xero_tenant_id").notNull(),
+    xeroTenantName: text("xero_tenant_name"),
+    isDefault: boolean("is_default").notNull().default(false),
+    accountMappings: jsonb("account_mappings")
+      .$type<Record<string, string>>()
+      .notNull()
+      .default({}),
+    brandingThemeMappings: jsonb("branding_theme_mappings")
+      .$type<Record<string, string>>()
+      .notNull()
+      .default({}),
+    // Purchases account for supplier bills when the supplier has no default
+    purchaseAccountCode: text("purchase_account_code"),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [uniqueIndex("entities_xero_tenant_id_idx").on(table.xeroTenantId)]
+);
+
 // ============================================================================
 // SALES (Master Table - ~50 columns)
 // ============================================================================
@@ -179,6 +589,8 @@ export const sales = pgTable(
       () => commissionBands.id
     ),
     ownerId: uuid("owner_id").references(() => shoppers.id),
+    // Trading entity (Xero organisation); null = the default entity
+    entityId: text("entity_id").references(() => entities.id),
 
     // Item Details
     brand: text("brand"),
@@ -201,11 +613,28 @@ export const sales = pgTable(
     xeroAmountPaid: numeric("xero_amount_paid", { precision: 10, scale: 2 }),
     xeroAmountDue: numeric("xero_amount_due", { precision: 10, scale: 2 }),
     xeroAmountCredited: numeric("xero_amount_credited", { precision: 10, scale: 2 }),
+    // Multi-currency sales. Every money column above stays in GBP (the Xero
+    // base currency) so margin, commission and reporting are unchanged; for
+    // a non-GBP invoice they hold the GBP equivalent at `fx_rate`, and
+    // `invoice_amount_inc_vat` keeps the total as invoiced in `currency`.
+    //   fx_rate            = invoice-currency units per £1 (Xero CurrencyRate)
+    //   fx_rate_source     = "table" | "manual" | "xero"
+    //   fx_payment_rate    = rate Xero applied to the payment(s)
+    //   fx_gain_loss       = realised GBP gain (+) / loss (−) once paid
+    // Null for GBP sales. See lib/calculations/fx.ts.
+    fxRate: doublePrecision("fx_rate"),
+    fxRateSource: text("fx_rate_source"),
+    invoiceAmountIncVat: doublePrecision("invoice_amount_inc_vat"),
+    fxPaymentRate: doublePrecision("fx_payment_rate"),
+    fxGainLoss: doublePrecision("fx_gain_loss"),
     buyPrice: doublePrecision("buy_price"),
     cardFees: doublePrecision("card_fees"),
     shippingCost: doublePrecision("shipping_cost"),
     directCosts: doublePrecision("direct_costs"),
     impliedShipping: doublePrecision("implied_shipping"),
+    // Implied cost route ("EU_UK") the wizard costed the sale on, compared
+    // with the logistics costs below on /staff/finance/implied-costs
+    impliedShippingRoute: text("implied_shipping_route"),
     grossMargin: doublePrecision("gross_margin"),
     commissionableMargin: doublePrecision("commissionable_margin"),
 
@@ -264,6 +693,11 @@ export const sales = pgTable(
     // New client tracking (Phase 2 — first delivered sale for this buyer at time of creation)
     isNewClient: boolean("is_new_client").default(false),
 
+    // Margin scheme stock eligibility — null = not assessed (treated as
+    // eligible), false = VAT was charged on the purchase, so standard-rate
+    // VAT is due on the full price. See lib/calculations/margin-scheme.ts
+    marginSchemeEligible: boolean("margin_scheme_eligible"),
+
     // Ancillary costs (Phase 2)
     entrupyFee: doublePrecision("entrupy_fee"),
 
@@ -339,6 +773,7 @@ export const sales = pgTable(
     index("sales_completed_at_idx").on(table.completedAt),
     index("sales_xero_invoice_number_idx").on(table.xeroInvoiceNumber),
     index("sales_sale_reference_idx").on(table.saleReference),
+    index("sales_entity_id_idx").on(table.entityId),
   ]
 );
 
@@ -413,6 +848,121 @@ export const errorsRelations = relations(errors, ({ one }) => ({
   }),
 }));
 
+// ============================================================================
+// SYNC STATE (incremental Xero sync watermarks)
+// ============================================================================
+// One row per Xero resource the OS pulls (invoices, credit_notes, payments,
+// contacts). `watermark` is the latest UpdatedDateUTC the last successful
+// run saw; the next run sends it as If-Modified-Since so only changes come
+// back. It only moves forward, and never past a record that failed to sync.
+// A full resync ignores it. Entities other than the default keep their own
+// rows, keyed "<resource>@<tenant id>". See lib/sync-state.ts.
+export const syncState = pgTable(
+  "sync_state",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    resource: text("resource").notNull(),
+    watermark: timestamp("watermark", { withTimezone: true }),
+    lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+    lastSuccessAt: timestamp("last_success_at", { withTimezone: true }),
+    lastFullSyncAt: timestamp("last_full_sync_at", { withTimezone: true }),
+    lastStatus: text("last_status"), // "success" | "partial" | "failed"
+    lastError: text("last_error"),
+    lastItemCount: integer("last_item_count"),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [uniqueIndex("sync_state_resource_idx").on(table.resource)]
+);
+
+// ============================================================================
+// WEBHOOK EVENTS (durable Xero webhook queue)
+// ============================================================================
+// One row per event Xero delivers, written before any processing so nothing
+// is lost if the Xero fetch or the DB update fails. `dedupe_key` stops a
+// redelivered event being queued twice. Deliveries that fail signature
+// verification are kept as a single `rejected` row with the raw body and are
+// never processed. Status: pending → processing → processed | skipped |
+// failed. Failed events are retried by the cron worker up to a limit and can
+// be replayed from /staff/admin/webhooks. See lib/webhook-events.ts.
+export const webhookEvents = pgTable(
+  "webhook_events",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    source: text("source").notNull().default("xero"),
+    dedupeKey: text("dedupe_key"),
+    eventCategory: text("event_category"),
+    eventType: text("event_type"),
+    resourceId: text("resource_id"),
+    tenantId: text("tenant_id"),
+    eventDate: timestamp("event_date", { withTimezone: true }),
+    payload: jsonb("payload").notNull(),
+    signatureValid: boolean("signature_valid").notNull(),
+    status: text("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    receivedAt: timestamp("received_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("webhook_events_dedupe_key_idx").on(table.dedupeKey),
+    index("webhook_events_status_idx").on(table.status),
+    index("webhook_events_received_at_idx").on(table.receivedAt),
+  ]
+);
+
+// ============================================================================
+// CREDIT NOTES (Xero ACCRECCREDIT allocations)
+// ============================================================================
+// One row per credit note per sale it is allocated to. `applied_amount` is
+// the total of that credit note applied to the sale, in GBP at the invoice's
+// rate, so the rows for a sale add up to its `xero_amount_credited`. Rows are
+// upserted from invoice payloads (webhook) and the CreditNotes endpoint
+// (cron); a credit note voided in Xero keeps its row at `applied_amount = 0`.
+// See lib/credit-notes.ts.
+export const creditNotes = pgTable(
+  "credit_notes",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    xeroCreditNoteId: text("xero_credit_note_id").notNull(),
+    creditNoteNumber: text("credit_note_number"),
+    saleId: uuid("sale_id")
+      .notNull()
+      .references(() => sales.id),
+    xeroInvoiceId: text("xero_invoice_id"),
+    status: text("status"),
+    currency: text("currency"),
+    total: doublePrecision("total"),
+    appliedAmount: doublePrecision("applied_amount").notNull(),
+    creditNoteDate: timestamp("credit_note_date", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("credit_notes_credit_note_sale_idx").on(
+      table.xeroCreditNoteId,
+      table.saleId
+    ),
+    index("credit_notes_sale_id_idx").on(table.saleId),
+  ]
+);
+
 // ============================================================================
 // INTRODUCER COMMISSION EDITS (audit log)
 // ============================================================================
@@ -501,6 +1051,191 @@ export const paymentScheduleRelations = relations(
   })
 );
 
+// ============================================================================
+// PAYMENTS (Xero customer payments)
+// ============================================================================
+// One row per Xero payment against a sale's invoice (or an instalment's own
+// invoice). `amount` is in the invoice currency; `amount_gbp` is what landed
+// in GBP at the payment's own rate. `payment_schedule_id` is the instalment
+// the payment settles, worked out by lib/calculations/payments.ts. Payments
+// deleted in Xero keep their row with `status = 'DELETED'`. Written by the
+// sync-payments cron and the invoice webhook — see lib/payments.ts.
+export const payments = pgTable(
+  "payments",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    xeroPaymentId: text("xero_payment_id").notNull(),
+    saleId: uuid("sale_id")
+      .notNull()
+      .references(() => sales.id),
+    paymentScheduleId: uuid("payment_schedule_id").references(() => paymentSchedule.id),
+    xeroInvoiceId: text("xero_invoice_id"),
+    paymentDate: timestamp("payment_date", { withTimezone: true }),
+    amount: doublePrecision("amount").notNull(),
+    currency: text("currency"),
+    currencyRate: doublePrecision("currency_rate"),
+    amountGbp: doublePrecision("amount_gbp").notNull(),
+    status: text("status").notNull().default("AUTHORISED"),
+    paymentType: text("payment_type"),
+    reference: text("reference"),
+    bankAccountId: text("bank_account_id"),
+    bankAccountCode: text("bank_account_code"),
+    bankAccountName: text("bank_account_name"),
+    isReconciled: boolean("is_reconciled"),
+    xeroUpdatedAt: timestamp("xero_updated_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("payments_xero_payment_id_idx").on(table.xeroPaymentId),
+    index("payments_sale_id_idx").on(table.saleId),
+    index("payments_payment_date_idx").on(table.paymentDate),
+  ]
+);
+
+// ============================================================================
+// SUPPLIER BILLS (Xero ACCPAY bills raised from a sale's line items)
+// ============================================================================
+// One row per supplier and buy currency per sale: the draft bill raised in
+// Xero for what the sale bought from that supplier in that currency.
+// `expected_total` is the buy prices the OS recorded, in `currency` (the
+// original amounts for items bought abroad), when the bill was raised; `total`, `amount_paid` and
+// `status` follow the bill in Xero (webhook and sync-payments cron) so
+// payables can be reconciled against them. A bill voided or deleted in Xero
+// can be raised again, reusing the row. While the bill is being posted to
+// Xero the row is claimed with status RAISING and `xero_bill_id` holds the
+// request's idempotency key. See lib/supplier-bills.ts.
+export const supplierBills = pgTable(
+  "supplier_bills",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    saleId: uuid("sale_id")
+      .notNull()
+      .references(() => sales.id),
+    supplierId: uuid("supplier_id")
+      .notNull()
+      .references(() => suppliers.id),
+    xeroBillId: text("xero_bill_id").notNull(),
+    // The supplier's invoice number, as entered on the bill
+    billNumber: text("bill_number"),
+    reference: text("reference"),
+    status: text("status").notNull(),
+    currency: text("currency").notNull().default("GBP"),
+    expectedTotal: doublePrecision("expected_total").notNull(),
+    total: doublePrecision("total"),
+    amountPaid: doublePrecision("amount_paid").notNull().default(0),
+    amountDue: doublePrecision("amount_due"),
+    paidDate: timestamp("paid_date", { withTimezone: true }),
+    lineItemIds: jsonb("line_item_ids").$type<string[]>().notNull(),
+    createdBy: text("created_by"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("supplier_bills_sale_supplier_currency_idx").on(
+      table.saleId,
+      table.supplierId,
+      table.currency
+    ),
+    uniqueIndex("supplier_bills_xero_bill_id_idx").on(table.xeroBillId),
+    index("supplier_bills_status_idx").on(table.status),
+  ]
+);
+
+// ============================================================================
+// DEAL DRAFTS
+// ============================================================================
+// A New Sale wizard in progress, saved server-side so it can be finished on
+// another device or handed to a colleague. `state` is the wizard state
+// snapshot (see contexts/TradeContext.tsx); `title` and `item_count` are
+// derived from it for the drafts list. Deleted once the sale is created or
+// the draft is discarded. See lib/deal-drafts.ts.
+export const dealDrafts = pgTable(
+  "deal_drafts",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    ownerUserId: text("owner_user_id").notNull(),
+    ownerName: text("owner_name"),
+    title: text("title").notNull(),
+    itemCount: integer("item_count").notNull().default(0),
+    state: jsonb("state").$type<Record<string, unknown>>().notNull(),
+    handedOverBy: text("handed_over_by"),
+    handedOverAt: timestamp("handed_over_at", { withTimezone: true }),
+    createdBy: text("created_by").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("deal_drafts_owner_user_id_idx").on(table.ownerUserId)]
+);
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+// A deal quoted to the client before it's invoiced: a Xero quote (for the
+// branded PDF) plus the wizard's invoice payload, so accepting it invoices
+// exactly what was quoted. `status` is open, accepting (claimed while its
+// invoice is posted), accepted or declined; an open quote past `expiry_date`
+// counts as expired. See lib/quotes.ts.
+export const quotes = pgTable(
+  "quotes",
+  {
+    id: text("id")
+      .primaryKey()
+      .default(sql`('rec_'::text || (xata_private.xid())::text)`),
+    xeroQuoteId: text("xero_quote_id").notNull(),
+    xeroQuoteNumber: text("xero_quote_number"),
+    entityId: text("entity_id").references(() => entities.id),
+    shopperId: uuid("shopper_id").references(() => shoppers.id),
+    xeroContactId: text("xero_contact_id").notNull(),
+    buyerName: text("buyer_name"),
+    currency: text("currency").notNull().default("GBP"),
+    // Quote currency, as Xero totalled it
+    total: doublePrecision("total").notNull(),
+    // GBP economics at the time of quoting
+    saleAmountGbp: doublePrecision("sale_amount_gbp"),
+    grossMarginGbp: doublePrecision("gross_margin_gbp"),
+    commissionableMarginGbp: doublePrecision("commissionable_margin_gbp"),
+    expiryDate: timestamp("expiry_date", { withTimezone: true }).notNull(),
+    status: text("status").notNull().default("open"),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    xeroInvoiceId: text("xero_invoice_id"),
+    acceptedBy: text("accepted_by"),
+    acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+    declinedBy: text("declined_by"),
+    declinedAt: timestamp("declined_at", { withTimezone: true }),
+    createdBy: text("created_by").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("quotes_xero_quote_id_idx").on(table.xeroQuoteId),
+    index("quotes_shopper_id_idx").on(table.shopperId),
+    index("quotes_status_idx").on(table.status),
+  ]
+);
+
 // ============================================================================
 // LINE ITEMS
 // ============================================================================
@@ -521,6 +1256,13 @@ export const lineItems = pgTable(
     lineMargin: doublePrecision("line_margin"),
     supplierInvoiceRef: text("supplier_invoice_ref"),
     datePurchased: timestamp("date_purchased", { withTimezone: true }),
+    // Bought in another currency: buy_price is the GBP figure every margin
+    // uses; the supplier-currency amount and rate (currency per £1) are kept
+    // for reference. Null for GBP purchases.
+    buyCurrency: text("buy_currency"),
+    buyPriceOriginal: doublePrecision("buy_price_original"),
+    buyFxRate: doublePrecision("buy_fx_rate"),
+    buyFxRateSource: text("buy_fx_rate_source"),
     source: text("source").default("atelier"),
     createdAt: timestamp("xata.createdAt", { withTimezone: true }).defaultNow(),
     updatedAt: timestamp("xata.updatedAt", { withTimezone: true }).defaultNow(),
@@ -632,18 +1374,48 @@ export type NewBuyer = typeof buyers.$inferInsert;
 export type Supplier = typeof suppliers.$inferSelect;
 export type NewSupplier = typeof suppliers.$inferInsert;
 
+export type XeroContactRecord = typeof xeroContacts.$inferSelect;
+export type NewXeroContactRecord = typeof xeroContacts.$inferInsert;
+
 export type Introducer = typeof introducers.$inferSelect;
 export type NewIntroducer = typeof introducers.$inferInsert;
 
 export type CommissionBand = typeof commissionBands.$inferSelect;
 export type NewCommissionBand = typeof commissionBands.$inferInsert;
 
+export type CommissionSchemeRecord = typeof commissionSchemes.$inferSelect;
+export type NewCommissionSchemeRecord = typeof commissionSchemes.$inferInsert;
+
+export type CommissionStatementRecord = typeof commissionStatements.$inferSelect;
+export type NewCommissionStatementRecord = typeof commissionStatements.$inferInsert;
+export type CommissionLedgerEntry = typeof commissionLedger.$inferSelect;
+export type NewCommissionLedgerEntry = typeof commissionLedger.$inferInsert;
+export type CommissionClawbackProposal = typeof commissionClawbackProposals.$inferSelect;
+export type NewCommissionClawbackProposal = typeof commissionClawbackProposals.$inferInsert;
+
+export type BrandingThemeRecord = typeof brandingThemes.$inferSelect;
+export type NewBrandingThemeRecord = typeof brandingThemes.$inferInsert;
+
+export type FxRateRecord = typeof fxRates.$inferSelect;
+export type NewFxRateRecord = typeof fxRates.$inferInsert;
+
+export type ImpliedCostRuleRecord = typeof impliedCostRules.$inferSelect;
+
 export type Sale = typeof sales.$inferSelect;
 export type NewSale = typeof sales.$inferInsert;
 
 export type Error = typeof errors.$inferSelect;
 export type NewError = typeof errors.$inferInsert;
 
+export type SyncStateRecord = typeof syncState.$inferSelect;
+export type NewSyncStateRecord = typeof syncState.$inferInsert;
+
+export type WebhookEventRecord = typeof webhookEvents.$inferSelect;
+export type NewWebhookEventRecord = typeof webhookEvents.$inferInsert;
+
+export type CreditNoteRecord = typeof creditNotes.$inferSelect;
+export type NewCreditNoteRecord = typeof creditNotes.$inferInsert;
+
 export type IntroducerCommissionEdit =
   typeof introducerCommissionEdits.$inferSelect;
 export type NewIntroducerCommissionEdit =
@@ -652,6 +1424,21 @@ export type NewIntroducerCommissionEdit =
 export type PaymentScheduleRecord = typeof paymentSchedule.$inferSelect;
 export type NewPaymentScheduleRecord = typeof paymentSchedule.$inferInsert;
 
+export type PaymentRecord = typeof payments.$inferSelect;
+export type NewPaymentRecord = typeof payments.$inferInsert;
+
+export type EntityRecord = typeof entities.$inferSelect;
+export type NewEntityRecord = typeof entities.$inferInsert;
+
+export type SupplierBillRecord = typeof supplierBills.$inferSelect;
+export type NewSupplierBillRecord = typeof supplierBills.$inferInsert;
+
+export type DealDraftRecord = typeof dealDrafts.$inferSelect;
+export type NewDealDraftRecord = typeof dealDrafts.$inferInsert;
+
+export type QuoteRecord = typeof quotes.$inferSelect;
+export type NewQuoteRecord = typeof quotes.$inferInsert;
+
 export type LineItem = typeof lineItems.$inferSelect;
 export type NewLineItem = typeof lineItems.$inferInsert;
 
@@ -25,12 +25,27 @@ export default defineConfig({
     "shoppers",
     "buyers",
     "suppliers",
+    "xero_contacts",
     "introducers",
     "commission_bands",
+    "commission_schemes",
+    "commission_statements",
+    "commission_ledger",
+    "commission_clawback_proposals",
+    "branding_themes",
+    "fx_rates",
+    "entities",
     "sales",
     "errors",
+    "sync_state",
+    "webhook_events",
+    "credit_notes",
     "introducer_commission_edits",
     "payment_schedule",
+    "payments",
+    "supplier_bills",
+    "deal_drafts",
+    "quotes",
     "line_items",
     "legacy_suppliers",
     "legacy_clients",
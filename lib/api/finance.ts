@@ -31,11 +31,25 @@ export interface PayCommissionResult {
   error?: string;
 }
 
+export interface CommissionPayoutResult {
+  shopper_id: string;
+  month: string;
+  status: "paid" | "unsettled";
+  statement_id?: string;
+  statement_total?: number;
+  brought_forward?: number;
+  net_paid?: number;
+  carried_forward?: number;
+  error?: string;
+}
+
 export interface PayCommissionsResponse {
   total_locked: number;
   total_commission_paid: number;
   total_failed: number;
+  total_net_paid: number;
   results: PayCommissionResult[];
+  payouts: CommissionPayoutResult[];
 }
 
 export interface ErrorRecord {
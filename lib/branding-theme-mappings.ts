@@ -4,6 +4,13 @@
  * Maps Xero's internal branding theme GUIDs to friendly names and tax treatments.
  * These IDs are fetched from Xero and stored in the Sales.branding_theme field.
  *
+ * The themes themselves live in the `branding_themes` table (refreshed from Xero
+ * and configured by admins — see lib/branding-themes.ts). This module holds the
+ * active registry in memory so VAT lookups stay synchronous on both server and
+ * client: server code loads it with loadBrandingThemeRegistry(), client
+ * components with useBrandingThemes(). XERO_BRANDING_THEMES below is the
+ * built-in set the table was seeded from and is used until a load completes.
+ *
  * Each VAT treatment has a "with link" theme (Square payment link embedded — used when
  * the buyer is paying by card, since the 2.4% Square fee is already priced into Handling)
  * and a paired "no link" theme (used for bank transfer, where no card fee was priced in
@@ -27,6 +34,7 @@ export interface BrandingThemeMapping {
   noLinkVariantId: string | null;
 }
 
+/** Built-in themes — seed data for `branding_themes` (scripts/add-branding-themes.ts). */
 export const XERO_BRANDING_THEMES: Record<string, BrandingThemeMapping> = {
   // CN 20% VAT - UK Domestic Sales (Account 425) - with payment link
   "d68f1fb5-ab36-48f5-809d-2752a2a1d940": {
@@ -109,6 +117,35 @@ export const XERO_BRANDING_THEMES: Record<string, BrandingThemeMapping> = {
   },
 };
 
+// ============================================================================
+// ACTIVE REGISTRY
+// ============================================================================
+
+let registry: Record<string, BrandingThemeMapping> = XERO_BRANDING_THEMES;
+let unknownThemeListener: ((themeIdOrName: string) => void) | null = null;
+
+/**
+ * Replace the active registry with the configured themes from
+ * `branding_themes`. Unconfigured themes must not be passed in — they have
+ * no VAT treatment to look up.
+ */
+export function setBrandingThemeRegistry(themes: BrandingThemeMapping[]): void {
+  registry = Object.fromEntries(themes.map((theme) => [theme.id, theme]));
+}
+
+/** Every theme in the active registry. */
+export function listBrandingThemeMappings(): BrandingThemeMapping[] {
+  return Object.values(registry);
+}
+
+/**
+ * Register a callback for theme IDs/names the registry can't resolve. The
+ * server uses it to raise an `errors` row (lib/branding-themes.ts).
+ */
+export function onUnknownBrandingTheme(listener: (themeIdOrName: string) => void): void {
+  unknownThemeListener = listener;
+}
+
 /**
  * Get branding theme mapping by ID or friendly name
  */
@@ -117,14 +154,17 @@ export function getBrandingThemeMapping(
 ): BrandingThemeMapping | null {
   if (!themeIdOrName) return null;
 
-  if (XERO_BRANDING_THEMES[themeIdOrName]) {
-    return XERO_BRANDING_THEMES[themeIdOrName];
+  if (registry[themeIdOrName]) {
+    return registry[themeIdOrName];
   }
 
-  const byName = Object.values(XERO_BRANDING_THEMES).find(
+  const byName = Object.values(registry).find(
     (theme) => theme.name === themeIdOrName
   );
 
+  if (!byName) {
+    unknownThemeListener?.(themeIdOrName);
+  }
   return byName || null;
 }
 
@@ -155,7 +195,7 @@ export function resolveBrandingThemeForPayment(
   if (!base) return null;
 
   if (paymentMethod === PaymentMethod.BANK_TRANSFER && base.noLinkVariantId) {
-    return XERO_BRANDING_THEMES[base.noLinkVariantId] ?? base;
+    return registry[base.noLinkVariantId] ?? base;
   }
   return base;
 }
@@ -0,0 +1,451 @@
+/**
+ * Club 19 Sales OS - Branding Theme Registry Store
+ *
+ * Loads and writes the Xero branding themes in `branding_themes`, and feeds
+ * the configured ones into the in-memory registry that
+ * lib/branding-theme-mappings.ts (and so every VAT lookup) reads from.
+ *
+ * - syncBrandingThemesFromXero() refreshes names / sort order from Xero's
+ *   BrandingThemes endpoint, for every connected organisation (each theme
+ *   row records its tenant). New themes arrive unconfigured.
+ * - updateBrandingTheme() is the admin edit: account code, treatment,
+ *   expected VAT and the no-link pair.
+ * - Any theme the registry can't resolve raises an `errors` row (once per
+ *   theme while unresolved). VAT falls back to 20% for it, and routes that
+ *   store economics flag the sale with flagUnknownBrandingTheme().
+ *
+ * Server code that computes VAT should `await loadBrandingThemeRegistry()`
+ * first; it is cached for REGISTRY_TTL_MS. A lookup made before any load
+ * loads the table before reporting the theme, so a path that skipped it
+ * doesn't raise errors for themes configured there.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { brandingThemes, errors, sales, type BrandingThemeRecord } from "@/db/schema";
+import { and, asc, eq, isNotNull, sql } from "drizzle-orm";
+import {
+  getBrandingThemeMapping,
+  listBrandingThemeMappings,
+  onUnknownBrandingTheme,
+  setBrandingThemeRegistry,
+  type BrandingThemeMapping,
+} from "@/lib/branding-theme-mappings";
+import {
+  clearBrandingThemesCache,
+  getBrandingThemes,
+  type BrandingTheme,
+} from "@/lib/xero-branding-themes";
+import { listSyncTargets } from "@/lib/entities";
+import type { UpdateBrandingThemeInput } from "@/lib/schemas/branding-theme";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A theme row as the admin UI shows it. */
+export interface BrandingThemeDetail {
+  id: string;
+  xeroBrandingThemeId: string;
+  /** Organisation the theme belongs to; null = the default */
+  xeroTenantId: string | null;
+  name: string;
+  sortOrder: number | null;
+  accountCode: string | null;
+  treatment: string | null;
+  explanation: string | null;
+  expectedVat: number | null;
+  noLinkVariantId: string | null;
+  inXero: boolean;
+  /** Has everything needed to be used for VAT */
+  configured: boolean;
+  lastSyncedAt: string | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface BrandingThemeSyncResult {
+  fetched: number;
+  added: number;
+  updated: number;
+  /** Themes no longer returned by Xero (now in_xero = false) */
+  removed: number;
+  /** Themes still waiting for an admin to configure them */
+  unconfigured: number;
+  /** Theme values on sales that the registry still can't resolve */
+  unknownInSales: string[];
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+const ERROR_SOURCE = "branding-themes";
+const REGISTRY_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+function isConfigured(row: BrandingThemeRecord): boolean {
+  return row.accountCode !== null && row.treatment !== null && row.expectedVat !== null;
+}
+
+function toMapping(row: BrandingThemeRecord): BrandingThemeMapping | null {
+  if (!isConfigured(row)) return null;
+  return {
+    id: row.xeroBrandingThemeId,
+    name: row.name,
+    accountCode: row.accountCode!,
+    treatment: row.treatment!,
+    explanation: row.explanation ?? "",
+    expectedVAT: row.expectedVat!,
+    noLinkVariantId: row.noLinkVariantId,
+  };
+}
+
+function toDetail(row: BrandingThemeRecord): BrandingThemeDetail {
+  return {
+    id: row.id,
+    xeroBrandingThemeId: row.xeroBrandingThemeId,
+    xeroTenantId: row.xeroTenantId,
+    name: row.name,
+    sortOrder: row.sortOrder,
+    accountCode: row.accountCode,
+    treatment: row.treatment,
+    explanation: row.explanation,
+    expectedVat: row.expectedVat,
+    noLinkVariantId: row.noLinkVariantId,
+    inXero: row.inXero,
+    configured: isConfigured(row),
+    lastSyncedAt: row.lastSyncedAt ? row.lastSyncedAt.toISOString() : null,
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// UNKNOWN THEMES
+// ============================================================================
+
+// Themes already reported by this instance — the errors table check below
+// covers other instances.
+const reportedUnknownThemes = new Set<string>();
+
+/**
+ * Raise an `errors` row for a theme the registry can't resolve. Skipped if an
+ * unresolved row for the same theme already exists. Never throws.
+ */
+export async function recordUnknownBrandingTheme(
+  themeIdOrName: string,
+  name?: string
+): Promise<void> {
+  const message = `Unknown branding theme "${themeIdOrName}"${
+    name && name !== themeIdOrName ? ` (${name})` : ""
+  } — configure it in Admin → Branding Themes`;
+  try {
+    const [existing] = await db
+      .select({ id: errors.id })
+      .from(errors)
+      .where(
+        and(
+          eq(errors.source, ERROR_SOURCE),
+          eq(errors.resolved, false),
+          sql`${errors.message} @> ${JSON.stringify([message])}::jsonb`
+        )
+      )
+      .limit(1);
+    if (existing) return;
+
+    await db.insert(errors).values({
+      severity: "high",
+      source: ERROR_SOURCE,
+      message: [message],
+      timestamp: new Date(),
+      resolved: false,
+    });
+    logger.warn("BRANDING_THEMES", "Unknown branding theme reported", { themeIdOrName });
+  } catch (error) {
+    logger.error("BRANDING_THEMES", "Failed to record unknown branding theme", {
+      themeIdOrName,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Flag a sale whose branding theme the registry can't resolve, so its VAT
+ * (taken at the 20% fallback) is checked: adds a message to the sale's
+ * error_flag / error_message and raises an `errors` row for it, once. Call
+ * after storing economics. No-op for a known or missing theme; never throws.
+ *
+ * @returns Whether the sale was flagged
+ */
+export async function flagUnknownBrandingTheme(
+  saleId: string,
+  brandingTheme: string | null | undefined
+): Promise<boolean> {
+  if (!brandingTheme || getBrandingThemeMapping(brandingTheme)) return false;
+
+  const message = `Unknown branding theme "${brandingTheme}" — VAT taken at 20% until it is configured in Admin → Branding Themes`;
+  const messageJson = JSON.stringify([message]);
+  try {
+    const flagged = await db
+      .update(sales)
+      .set({
+        errorFlag: true,
+        errorMessage: sql`coalesce(${sales.errorMessage}, '[]'::jsonb) || ${messageJson}::jsonb`,
+      })
+      .where(
+        and(
+          eq(sales.id, saleId),
+          sql`not coalesce(${sales.errorMessage}, '[]'::jsonb) @> ${messageJson}::jsonb`
+        )
+      )
+      .returning({ id: sales.id });
+    if (flagged.length === 0) return false;
+
+    await db.insert(errors).values({
+      saleId,
+      severity: "high",
+      source: ERROR_SOURCE,
+      message: [message],
+      timestamp: new Date(),
+      resolved: false,
+    });
+    logger.warn("BRANDING_THEMES", "Sale flagged for unknown branding theme", { saleId, brandingTheme });
+    return true;
+  } catch (error) {
+    logger.error("BRANDING_THEMES", "Failed to flag sale for unknown branding theme", {
+      saleId,
+      brandingTheme,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
+
+/** Report a theme the registry missed, once the table has been loaded. */
+async function reportUnknownBrandingTheme(themeIdOrName: string): Promise<void> {
+  if (registryLoadedAt === 0) {
+    try {
+      await loadBrandingThemeRegistry();
+    } catch (error) {
+      logger.error("BRANDING_THEMES", "Failed to load branding themes", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+    const known = listBrandingThemeMappings().some(
+      (theme) => theme.id === themeIdOrName || theme.name === themeIdOrName
+    );
+    if (known) return;
+    reportedUnknownThemes.add(themeIdOrName);
+  }
+  await recordUnknownBrandingTheme(themeIdOrName);
+}
+
+onUnknownBrandingTheme((themeIdOrName) => {
+  if (reportedUnknownThemes.has(themeIdOrName)) return;
+  reportedUnknownThemes.add(themeIdOrName);
+  void reportUnknownBrandingTheme(themeIdOrName);
+});
+
+// ============================================================================
+// READS
+// ============================================================================
+
+let registryLoadedAt = 0;
+
+/** Every theme, in Xero's sort order. */
+export async function listBrandingThemes(): Promise<BrandingThemeDetail[]> {
+  const rows = await db
+    .select()
+    .from(brandingThemes)
+    .orderBy(asc(brandingThemes.sortOrder), asc(brandingThemes.name));
+  return rows.map(toDetail);
+}
+
+/**
+ * Load the configured themes into the in-memory registry. Cached for
+ * REGISTRY_TTL_MS unless `force` is set. An empty table (migration not yet
+ * run) leaves the built-in themes in place.
+ */
+export async function loadBrandingThemeRegistry(
+  options: { force?: boolean } = {}
+): Promise<BrandingThemeMapping[]> {
+  if (!options.force && Date.now() - registryLoadedAt < REGISTRY_TTL_MS) {
+    return listBrandingThemeMappings();
+  }
+
+  const rows = await db.select().from(brandingThemes);
+  registryLoadedAt = Date.now();
+  if (rows.length === 0) {
+    logger.warn("BRANDING_THEMES", "branding_themes is empty — using built-in themes");
+  } else {
+    setBrandingThemeRegistry(
+      rows.map(toMapping).filter((m): m is BrandingThemeMapping => m !== null)
+    );
+    reportedUnknownThemes.clear();
+  }
+  return listBrandingThemeMappings();
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+/**
+ * Refresh the table from each organisation's BrandingThemes endpoint.
+ * Existing themes get their name and sort order updated; new ones are
+ * inserted unconfigured and reported via the errors table; themes Xero no
+ * longer returns are marked `in_xero = false` (kept, since historical sales
+ * still reference them). Finally checks every distinct theme on `sales`
+ * still resolves.
+ */
+export async function syncBrandingThemesFromXero(
+  userId: string
+): Promise<BrandingThemeSyncResult> {
+  const targets = await listSyncTargets();
+  const xeroThemes: Array<{ tenantId: string; theme: BrandingTheme }> = [];
+  for (const target of targets) {
+    clearBrandingThemesCache(userId, target.tenantId);
+    const themes = await getBrandingThemes(userId, target.tenantId);
+    xeroThemes.push(...themes.map((theme) => ({ tenantId: target.tenantId, theme })));
+  }
+  const defaultTenantId = targets.find((t) => t.isDefault)?.tenantId ?? null;
+
+  const existing = await db.select().from(brandingThemes);
+  const byXeroId = new Map(existing.map((row) => [row.xeroBrandingThemeId, row]));
+  const seen = new Set<string>();
+  const now = new Date();
+  const result: BrandingThemeSyncResult = {
+    fetched: xeroThemes.length,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unconfigured: 0,
+    unknownInSales: [],
+  };
+
+  for (const { tenantId, theme } of xeroThemes) {
+    seen.add(theme.BrandingThemeID);
+    const row = byXeroId.get(theme.BrandingThemeID);
+    if (!row) {
+      await db.insert(brandingThemes).values({
+        xeroBrandingThemeId: theme.BrandingThemeID,
+        xeroTenantId: tenantId,
+        name: theme.Name,
+        sortOrder: theme.SortOrder ?? null,
+        inXero: true,
+        lastSyncedAt: now,
+        updatedBy: userId,
+      });
+      await recordUnknownBrandingTheme(theme.BrandingThemeID, theme.Name);
+      result.added++;
+      continue;
+    }
+
+    await db
+      .update(brandingThemes)
+      .set({
+        name: theme.Name,
+        xeroTenantId: tenantId,
+        sortOrder: theme.SortOrder ?? row.sortOrder,
+        inXero: true,
+        lastSyncedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(brandingThemes.id, row.id));
+    result.updated++;
+  }
+
+  // Only organisations that were fetched can say a theme has gone
+  const fetchedTenants = new Set(targets.map((t) => t.tenantId));
+  for (const row of existing) {
+    const rowTenant = row.xeroTenantId ?? defaultTenantId;
+    if (row.inXero && rowTenant && fetchedTenants.has(rowTenant) && !seen.has(row.xeroBrandingThemeId)) {
+      await db
+        .update(brandingThemes)
+        .set({ inXero: false, updatedAt: now })
+        .where(eq(brandingThemes.id, row.id));
+      result.removed++;
+    }
+  }
+
+  const themes = await listBrandingThemes();
+  result.unconfigured = themes.filter((t) => !t.configured).length;
+  await loadBrandingThemeRegistry({ force: true });
+
+  // Every theme value sales actually carry must resolve — the lookup raises
+  // an errors row for any that don't
+  const saleThemes = await db
+    .selectDistinct({ brandingTheme: sales.brandingTheme })
+    .from(sales)
+    .where(isNotNull(sales.brandingTheme));
+  result.unknownInSales = saleThemes
+    .map((row) => row.brandingTheme!)
+    .filter((theme) => !getBrandingThemeMapping(theme));
+
+  logger.info("BRANDING_THEMES", "Branding themes synced from Xero", { ...result, userId });
+  return result;
+}
+
+/**
+ * Assign a theme's VAT configuration. The no-link pair must be another
+ * theme in the table.
+ */
+export async function updateBrandingTheme(
+  id: string,
+  input: UpdateBrandingThemeInput,
+  userId: string
+): Promise<BrandingThemeDetail> {
+  const [current] = await db
+    .select()
+    .from(brandingThemes)
+    .where(eq(brandingThemes.id, id))
+    .limit(1);
+  if (!current) {
+    throw new NotFoundError("Branding theme", { id });
+  }
+
+  if (input.noLinkVariantId) {
+    if (input.noLinkVariantId === current.xeroBrandingThemeId) {
+      throw new ValidationError("A theme cannot be its own no-link variant", { id });
+    }
+    const [variant] = await db
+      .select({ id: brandingThemes.id })
+      .from(brandingThemes)
+      .where(eq(brandingThemes.xeroBrandingThemeId, input.noLinkVariantId))
+      .limit(1);
+    if (!variant) {
+      throw new ValidationError("No-link variant must be a known branding theme", {
+        id,
+        noLinkVariantId: input.noLinkVariantId,
+      });
+    }
+  }
+
+  const [row] = await db
+    .update(brandingThemes)
+    .set({
+      ...(input.accountCode !== undefined && { accountCode: input.accountCode }),
+      ...(input.treatment !== undefined && { treatment: input.treatment }),
+      ...(input.explanation !== undefined && { explanation: input.explanation || null }),
+      ...(input.expectedVat !== undefined && { expectedVat: input.expectedVat }),
+      ...(input.noLinkVariantId !== undefined && { noLinkVariantId: input.noLinkVariantId }),
+      updatedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(eq(brandingThemes.id, id))
+    .returning();
+
+  await loadBrandingThemeRegistry({ force: true });
+
+  logger.info("BRANDING_THEMES", "Branding theme updated", {
+    id,
+    xeroBrandingThemeId: row.xeroBrandingThemeId,
+    fields: Object.keys(input),
+    userId,
+  });
+
+  return toDetail(row);
+}
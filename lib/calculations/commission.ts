@@ -3,13 +3,25 @@
  *
  * SINGLE SOURCE OF TRUTH for shopper commission calculation.
  *
- * Core mechanic: flat-rate bands on cumulative monthly total.
- * NOT marginal/tiered — the rate for the band the cumulative monthly profit
- * falls into applies to the ENTIRE cumulative amount.
+ * Core mechanic: bands on cumulative monthly total, in one of two modes
+ * chosen per scheme (`bandMode`):
  *
- * Example: MC hits £25K cumulative profit → £20K-£30K band → 15% × £25K = £3,750.
+ *   flat     — the rate for the band the cumulative monthly profit falls into
+ *              applies to the ENTIRE cumulative amount.
+ *              Example: MC hits £25K → £20K-£30K band → 15% × £25K = £3,750.
+ *   marginal — each slice of the cumulative total is paid at its own band's
+ *              rate (like income tax). Each band runs from its `min` up to the
+ *              next band's `min`. Per-sale `tiers` show how much of each
+ *              sale's profit fell in each band.
+ *              Example: bands 0-£10K @ 10%, £10K+ @ 20%; £25K →
+ *              £1,000 + £3,000 = £4,000.
  *
- * Per-shopper VAT treatment:
+ * Schemes (bands, VAT treatment, new client bonus) are stored in the
+ * `commission_schemes` table with effective dates and linked to shoppers via
+ * `shoppers.commission_scheme` — see lib/commission-schemes.ts for loading.
+ * This module stays pure: no DB access.
+ *
+ * Per-shopper VAT treatment (as configured at time of writing):
  *   Hope: commission on gross profit (sell - buy - costs). VAT is irrelevant.
  *   MC:   commission on net profit (gross profit minus VAT due). VAT reduces
  *         her commissionable amount.
@@ -29,7 +41,7 @@
  */
 
 import { roundCurrency, subtractCurrency, addCurrency, multiplyCurrency } from "@/lib/utils/currency";
-import { getVATRateForBrandingTheme } from "@/lib/economics";
+import { calculateMarginSchemeVAT, isMarginSchemeTheme } from "@/lib/calculations/margin-scheme";
 
 // ============================================================================
 // TYPES
@@ -42,10 +54,15 @@ export interface CommissionBand {
   rate: number;
 }
 
+/** How band rates apply to the cumulative total — see header. */
+export type BandMode = "flat" | "marginal";
+
 export interface ShopperCommissionConfig {
   shopperId: string;
   name: string;
   bands: CommissionBand[];
+  /** Defaults to "flat" when omitted */
+  bandMode?: BandMode;
   /**
    * If true, VAT due is deducted from gross profit before commission calc.
    *
@@ -57,6 +74,8 @@ export interface ShopperCommissionConfig {
   deductVatFromProfit: boolean;
   /** Decimal rate for new client bonus, e.g. 0.10 for 10% */
   newClientBonusRate: number;
+  /** `commission_schemes.id` this config was resolved from, if any. */
+  schemeId?: string | null;
 }
 
 /** Minimal sale shape needed by the commission engine. */
@@ -79,7 +98,14 @@ export interface SaleForCommission {
   otherLogisticsCost: number | null;
   deliveryConfirmed: boolean | null;
   isNewClient: boolean | null;
+  /** Margin scheme stock eligibility — null is treated as eligible */
+  marginSchemeEligible: boolean | null;
   buyerName?: string | null;
+  /**
+   * Share of the invoice credited by credit notes (0–1, see creditRatio in
+   * lib/economics.ts). Commissionable profit is reduced in proportion.
+   */
+  creditRatio?: number;
 }
 
 /** Per-sale breakdown in the result. */
@@ -96,6 +122,22 @@ export interface SaleCommissionDetail {
   commissionableProfit: number;
   isNewClient: boolean;
   cumulativeProfit: number;
+  /** Present when credit notes reduced the profit — the share credited */
+  creditRatio?: number;
+  /**
+   * Marginal schemes only: the sale's commissionable profit split across the
+   * bands it straddled on the cumulative total, in band order.
+   */
+  tiers?: SaleTierSlice[];
+}
+
+/** The part of one sale's profit that fell in one marginal band. */
+export interface SaleTierSlice {
+  band: CommissionBand;
+  /** Commissionable profit falling in this band */
+  profit: number;
+  /** profit × band.rate */
+  commission: number;
 }
 
 /** Per-shopper result for a month. */
@@ -103,10 +145,14 @@ export interface CommissionResult {
   shopperId: string;
   shopperName: string;
   month: string; // "YYYY-MM"
+  /** Scheme version applied — null if none was in force for the month. */
+  schemeId: string | null;
+  bandMode: BandMode;
   deliveredSaleCount: number;
   totalSales: number; // count before delivery filter
   cumulativeProfit: number;
   currentBand: CommissionBand | null;
+  /** Rate of currentBand — in marginal mode, the rate on the top slice only */
   commissionRate: number;
   commissionAmount: number;
   newClientBonusAmount: number;
@@ -114,64 +160,107 @@ export interface CommissionResult {
   sales: SaleCommissionDetail[];
 }
 
-// ============================================================================
-// SHOPPER CONFIGS (code constants — two shoppers, not DB-dynamic)
-// ============================================================================
+/** How one sale moved between an approved statement and the live calculation. */
+export interface SaleCommissionChange {
+  saleId: string;
+  invoiceNumber: string;
+  change: "added" | "removed" | "changed";
+  /** Commissionable profit on the approved statement (null if added since) */
+  before: number | null;
+  /** Commissionable profit now (null if removed since) */
+  after: number | null;
+  profitDelta: number;
+}
+
+/** Live calculation minus an approved statement. Positive = owed more. */
+export interface CommissionDelta {
+  cumulativeProfitDelta: number;
+  commissionAmountDelta: number;
+  newClientBonusDelta: number;
+  totalPayableDelta: number;
+  rateChanged: boolean;
+  saleChanges: SaleCommissionChange[];
+  hasChanges: boolean;
+}
 
 /**
- * MC — Mary Clair Bromfield
- * Commission on NET profit (gross profit minus VAT due).
+ * A dated version of a commission scheme, as stored in `commission_schemes`.
+ * `effectiveTo` is exclusive: the version is in force for a month when
+ * effectiveFrom <= first day of the month < effectiveTo (or effectiveTo null).
  */
-const MC_CONFIG: ShopperCommissionConfig = {
-  shopperId: "rec_d5dt9i185bnc3iimglfg",
-  name: "MC",
-  bands: [
-    { min: 0, max: 999.99, rate: 0 },
-    { min: 1000, max: 19999.99, rate: 0.10 },
-    { min: 20000, max: 29999.99, rate: 0.15 },
-    { min: 30000, max: 55000, rate: 0.20 },
-    { min: 55000.01, max: Infinity, rate: 0.25 },
-  ],
-  deductVatFromProfit: true,
-  newClientBonusRate: 0.10,
-};
+export interface CommissionScheme {
+  id: string;
+  schemeKey: string;
+  name: string;
+  bands: CommissionBand[];
+  bandMode: BandMode;
+  deductVatFromProfit: boolean;
+  newClientBonusRate: number;
+  effectiveFrom: string; // ISO timestamp
+  effectiveTo: string | null; // ISO timestamp, exclusive
+}
 
 /**
- * Hope — Hope Peverell
- * Commission on GROSS profit (VAT is irrelevant to her calc).
+ * A shopper together with every version of the scheme they are linked to via
+ * `shoppers.commission_scheme`. Passing this (rather than a resolved config)
+ * to calculateShopperCommission lets the engine pick the version in force
+ * for the month being calculated.
  */
-const HOPE_CONFIG: ShopperCommissionConfig = {
-  shopperId: "rec_d4u06nkgmio87vvfila0",
-  name: "Hope",
-  bands: [
-    { min: 0, max: 999.99, rate: 0 },
-    { min: 1000, max: 9999.99, rate: 0.10 },
-    { min: 10000, max: 19999.99, rate: 0.12 },
-    { min: 20000, max: 29999.99, rate: 0.18 },
-    { min: 30000, max: 55000, rate: 0.20 },
-    { min: 55000.01, max: Infinity, rate: 0.25 },
-  ],
-  deductVatFromProfit: false,
-  newClientBonusRate: 0.10,
-};
-
-const SHOPPER_CONFIGS: ShopperCommissionConfig[] = [MC_CONFIG, HOPE_CONFIG];
+export interface ShopperCommissionProfile {
+  shopperId: string;
+  name: string;
+  schemes: CommissionScheme[];
+}
 
 // ============================================================================
 // PUBLIC API
 // ============================================================================
 
 /**
- * Get the commission config for a shopper by ID.
- * Returns null if the shopper has no commission config (e.g. Sophie, Alys).
+ * Find the scheme version in force for a "YYYY-MM" month.
+ * Returns null if no version covers the month (e.g. before the shopper's
+ * first scheme started).
  */
-export function getShopperConfig(shopperId: string): ShopperCommissionConfig | null {
-  return SHOPPER_CONFIGS.find((c) => c.shopperId === shopperId) ?? null;
+export function findSchemeForMonth(
+  schemes: CommissionScheme[],
+  month: string
+): CommissionScheme | null {
+  const [y, m] = month.split("-").map(Number);
+  const monthStart = Date.UTC(y, m - 1, 1);
+
+  let match: CommissionScheme | null = null;
+  for (const scheme of schemes) {
+    const from = new Date(scheme.effectiveFrom).getTime();
+    const to = scheme.effectiveTo ? new Date(scheme.effectiveTo).getTime() : Infinity;
+    if (from <= monthStart && monthStart < to) {
+      // Overlaps are rejected on write, but prefer the latest start if one slips in
+      if (!match || from > new Date(match.effectiveFrom).getTime()) {
+        match = scheme;
+      }
+    }
+  }
+  return match;
 }
 
-/** Returns all shopper configs that have commission bands defined. */
-export function getAllShopperConfigs(): ShopperCommissionConfig[] {
-  return SHOPPER_CONFIGS;
+/**
+ * Resolve a shopper's commission config for a month.
+ * Returns null if no scheme version was in force for that month.
+ */
+export function resolveShopperConfig(
+  profile: ShopperCommissionProfile,
+  month: string
+): ShopperCommissionConfig | null {
+  const scheme = findSchemeForMonth(profile.schemes, month);
+  if (!scheme) return null;
+  return {
+    shopperId: profile.shopperId,
+    name: profile.name,
+    bands: scheme.bands,
+    bandMode: scheme.bandMode,
+    deductVatFromProfit: scheme.deductVatFromProfit,
+    newClientBonusRate: scheme.newClientBonusRate,
+    schemeId: scheme.id,
+  };
 }
 
 /**
@@ -186,14 +275,33 @@ export function getAllShopperConfigs(): ShopperCommissionConfig[] {
  *    commissionable = gross_profit - costs - vat_due
  * 3. Sum to cumulative total (only positive-profit sales contribute)
  * 4. Look up band for cumulative total
- * 5. Apply flat rate to entire cumulative total
+ * 5. Flat: apply that band's rate to the entire cumulative total.
+ *    Marginal: apply each band's rate to the slice of the total within it,
+ *    and record per-sale tier slices.
  * 6. Add new client bonus (bonus rate × commissionable profit per new-client sale)
+ *
+ * Pass a ShopperCommissionProfile to have the scheme version in force for
+ * `month` resolved here — recalculating a past month then uses that month's
+ * bands. If no version covers the month, nothing is payable.
  */
 export function calculateShopperCommission(
   allSales: SaleForCommission[],
-  config: ShopperCommissionConfig,
+  shopper: ShopperCommissionConfig | ShopperCommissionProfile,
   month: string
 ): CommissionResult {
+  const config: ShopperCommissionConfig =
+    "schemes" in shopper
+      ? resolveShopperConfig(shopper, month) ?? {
+          shopperId: shopper.shopperId,
+          name: shopper.name,
+          bands: [],
+          bandMode: "flat",
+          deductVatFromProfit: false,
+          newClientBonusRate: 0,
+          schemeId: null,
+        }
+      : shopper;
+
   // Step 1: filter to delivered only
   const deliveredSales = allSales.filter((s) => s.deliveryConfirmed === true);
 
@@ -202,11 +310,19 @@ export function calculateShopperCommission(
   let cumulativeProfit = 0;
   let newClientBonusTotal = 0;
 
+  const bandMode = config.bandMode ?? "flat";
+
   for (const sale of deliveredSales) {
     const detail = computeSaleProfit(sale, config);
     // Only positive-profit sales contribute to cumulative total
     if (detail.commissionableProfit > 0) {
+      const start = cumulativeProfit;
       cumulativeProfit = roundCurrency(cumulativeProfit + detail.commissionableProfit);
+      if (bandMode === "marginal") {
+        detail.tiers = sliceByBand(start, cumulativeProfit, config.bands);
+      }
+    } else if (bandMode === "marginal") {
+      detail.tiers = [];
     }
     detail.cumulativeProfit = cumulativeProfit;
     saleDetails.push(detail);
@@ -224,8 +340,11 @@ export function calculateShopperCommission(
   const band = findBand(cumulativeProfit, config.bands);
   const rate = band?.rate ?? 0;
 
-  // Step 5: flat rate on entire cumulative total
-  const commissionAmount = multiplyCurrency(cumulativeProfit, rate);
+  // Step 5: flat rate on entire cumulative total, or each slice at its own rate
+  const commissionAmount =
+    bandMode === "marginal"
+      ? addCurrency(...sliceByBand(0, cumulativeProfit, config.bands).map((t) => t.commission))
+      : multiplyCurrency(cumulativeProfit, rate);
 
   // Step 6: total payable
   const totalPayable = addCurrency(commissionAmount, newClientBonusTotal);
@@ -234,6 +353,8 @@ export function calculateShopperCommission(
     shopperId: config.shopperId,
     shopperName: config.name,
     month,
+    schemeId: config.schemeId ?? null,
+    bandMode,
     deliveredSaleCount: deliveredSales.length,
     totalSales: allSales.length,
     cumulativeProfit,
@@ -246,10 +367,282 @@ export function calculateShopperCommission(
   };
 }
 
+/**
+ * Compare the live calculation for a month against the approved (frozen)
+ * statement for the same shopper and month.
+ *
+ * Sales are matched by ID. A sale counts as "changed" when its commissionable
+ * profit or new-client flag differs; sales that dropped out of the month
+ * (deleted, re-dated, undelivered) are "removed".
+ */
+export function diffCommissionResults(
+  frozen: CommissionResult,
+  live: CommissionResult
+): CommissionDelta {
+  const frozenById = new Map(frozen.sales.map((s) => [s.saleId, s]));
+  const liveById = new Map(live.sales.map((s) => [s.saleId, s]));
+  const saleChanges: SaleCommissionChange[] = [];
+
+  for (const sale of live.sales) {
+    const before = frozenById.get(sale.saleId);
+    if (!before) {
+      saleChanges.push({
+        saleId: sale.saleId,
+        invoiceNumber: sale.invoiceNumber,
+        change: "added",
+        before: null,
+        after: sale.commissionableProfit,
+        profitDelta: sale.commissionableProfit,
+      });
+    } else if (
+      before.commissionableProfit !== sale.commissionableProfit ||
+      before.isNewClient !== sale.isNewClient
+    ) {
+      saleChanges.push({
+        saleId: sale.saleId,
+        invoiceNumber: sale.invoiceNumber,
+        change: "changed",
+        before: before.commissionableProfit,
+        after: sale.commissionableProfit,
+        profitDelta: subtractCurrency(sale.commissionableProfit, before.commissionableProfit),
+      });
+    }
+  }
+  for (const sale of frozen.sales) {
+    if (!liveById.has(sale.saleId)) {
+      saleChanges.push({
+        saleId: sale.saleId,
+        invoiceNumber: sale.invoiceNumber,
+        change: "removed",
+        before: sale.commissionableProfit,
+        after: null,
+        profitDelta: -sale.commissionableProfit,
+      });
+    }
+  }
+
+  const totalPayableDelta = subtractCurrency(live.totalPayable, frozen.totalPayable);
+  const rateChanged = live.commissionRate !== frozen.commissionRate;
+
+  return {
+    cumulativeProfitDelta: subtractCurrency(live.cumulativeProfit, frozen.cumulativeProfit),
+    commissionAmountDelta: subtractCurrency(live.commissionAmount, frozen.commissionAmount),
+    newClientBonusDelta: subtractCurrency(live.newClientBonusAmount, frozen.newClientBonusAmount),
+    totalPayableDelta,
+    rateChanged,
+    saleChanges,
+    hasChanges: saleChanges.length > 0 || totalPayableDelta !== 0 || rateChanged,
+  };
+}
+
+/**
+ * The part of a month's total payable attributable to one sale: the month's
+ * rate on the sale's commissionable profit (or, on marginal schemes, its tier
+ * slices), plus its pro-rata share of the new-client bonus. Used to size a
+ * clawback against an approved statement.
+ *
+ * Returns null if the sale isn't in the result; 0 for sales that made no
+ * positive contribution.
+ */
+export function saleCommissionShare(result: CommissionResult, saleId: string): number | null {
+  const detail = result.sales.find((s) => s.saleId === saleId);
+  if (!detail) return null;
+  if (detail.commissionableProfit <= 0) return 0;
+
+  const commission = detail.tiers
+    ? addCurrency(...detail.tiers.map((t) => t.commission))
+    : multiplyCurrency(detail.commissionableProfit, result.commissionRate);
+  if (!detail.isNewClient || result.newClientBonusAmount === 0) {
+    return commission;
+  }
+
+  const newClientProfit = result.sales
+    .filter((s) => s.isNewClient && s.commissionableProfit > 0)
+    .reduce((sum, s) => addCurrency(sum, s.commissionableProfit), 0);
+  const bonusShare = roundCurrency(
+    (result.newClientBonusAmount * detail.commissionableProfit) / newClientProfit
+  );
+  return addCurrency(commission, bonusShare);
+}
+
+/** Outcome of netting a month's statement against the shopper's ledger balance. */
+export interface CommissionNetting {
+  /** Ledger balance before this month (negative = unrecovered clawbacks) */
+  broughtForward: number;
+  statementTotal: number;
+  /** Amount to pay out — never negative */
+  netPayable: number;
+  /** Balance left after paying (negative = still owed back) */
+  carriedForward: number;
+}
+
+/**
+ * Net a statement total against the balance brought forward. Payments are
+ * never negative: if clawbacks exceed the statement, nothing is paid and the
+ * shortfall carries forward to the next month.
+ */
+export function netCommissionPayable(
+  statementTotal: number,
+  broughtForward: number
+): CommissionNetting {
+  const available = addCurrency(broughtForward, statementTotal);
+  const netPayable = Math.max(0, available);
+  return {
+    broughtForward,
+    statementTotal,
+    netPayable,
+    carriedForward: subtractCurrency(available, netPayable),
+  };
+}
+
+/** A deal a shopper is considering, as entered on the forecast widget. */
+export interface HypotheticalDeal {
+  /** Sell price ex VAT */
+  sellPrice: number;
+  buyPrice: number;
+  /** Every deductible cost (introducer, card fees, Entrupy, logistics) as one figure */
+  costs: number;
+  brandingTheme: string | null;
+  isNewClient: boolean;
+}
+
+/** Where a month stands: cumulative profit, band and what it pays. */
+export interface CommissionPosition {
+  cumulativeProfit: number;
+  currentBand: CommissionBand | null;
+  commissionRate: number;
+  totalPayable: number;
+}
+
+/** The month with a hypothetical deal added. */
+export interface CommissionProjection {
+  /** The deal's commissionable profit (after costs and, where the scheme deducts it, VAT) */
+  dealProfit: number;
+  projected: CommissionPosition;
+  /** projected.totalPayable − current.totalPayable */
+  commissionChange: number;
+  /** The deal's own share of the projected total */
+  dealCommission: number;
+  /**
+   * The rest of the change: the month's existing profit re-rated because the
+   * deal moved a flat scheme into a higher band. Always 0 on marginal schemes.
+   */
+  retroactiveUplift: number;
+  bandChanged: boolean;
+}
+
+export interface CommissionForecast {
+  month: string;
+  schemeId: string | null;
+  bandMode: BandMode;
+  current: CommissionPosition;
+  /** First band above the current cumulative profit — null at the top band */
+  nextBand: CommissionBand | null;
+  /** Further commissionable profit needed to reach nextBand */
+  profitToNextBand: number | null;
+  /** Null when no deal was given */
+  projection: CommissionProjection | null;
+}
+
+/** Sale ID given to the hypothetical deal inside the projected result. */
+export const HYPOTHETICAL_SALE_ID = "hypothetical";
+
+/**
+ * Forecast a shopper's month: where the cumulative profit sits, how far it
+ * is to the next band and, given a hypothetical deal, how the month's
+ * commission would change.
+ *
+ * Every sale is treated as delivered — the forecast is what the month pays
+ * once everything in it has been delivered. The deal is added after the
+ * month's existing sales, so on marginal schemes it fills the top slices.
+ */
+export function forecastCommission(
+  monthSales: SaleForCommission[],
+  shopper: ShopperCommissionConfig | ShopperCommissionProfile,
+  month: string,
+  deal?: HypotheticalDeal | null
+): CommissionForecast {
+  const config = "schemes" in shopper ? resolveShopperConfig(shopper, month) : shopper;
+  const bands = config?.bands ?? [];
+  const delivered = monthSales.map((s) => ({ ...s, deliveryConfirmed: true }));
+
+  const result = calculateShopperCommission(delivered, shopper, month);
+  const current = toPosition(result);
+  const nextBand = bands.find((b) => b.min > result.cumulativeProfit) ?? null;
+
+  let projection: CommissionProjection | null = null;
+  if (deal) {
+    const projectedResult = calculateShopperCommission(
+      [...delivered, toHypotheticalSale(deal)],
+      shopper,
+      month
+    );
+    const detail = projectedResult.sales.find((s) => s.saleId === HYPOTHETICAL_SALE_ID);
+    const commissionChange = subtractCurrency(projectedResult.totalPayable, result.totalPayable);
+    const dealCommission = saleCommissionShare(projectedResult, HYPOTHETICAL_SALE_ID) ?? 0;
+    projection = {
+      dealProfit: detail?.commissionableProfit ?? 0,
+      projected: toPosition(projectedResult),
+      commissionChange,
+      dealCommission,
+      retroactiveUplift: subtractCurrency(commissionChange, dealCommission),
+      bandChanged: projectedResult.currentBand?.min !== result.currentBand?.min,
+    };
+  }
+
+  return {
+    month,
+    schemeId: result.schemeId,
+    bandMode: result.bandMode,
+    current,
+    nextBand,
+    profitToNextBand: nextBand ? subtractCurrency(nextBand.min, result.cumulativeProfit) : null,
+    projection,
+  };
+}
+
 // ============================================================================
 // INTERNALS
 // ============================================================================
 
+function toPosition(result: CommissionResult): CommissionPosition {
+  return {
+    cumulativeProfit: result.cumulativeProfit,
+    currentBand: result.currentBand,
+    commissionRate: result.commissionRate,
+    totalPayable: result.totalPayable,
+  };
+}
+
+/**
+ * A hypothetical deal as a sale. Costs go in as one lump — only their total
+ * matters to computeSaleProfit.
+ */
+function toHypotheticalSale(deal: HypotheticalDeal): SaleForCommission {
+  return {
+    id: HYPOTHETICAL_SALE_ID,
+    xeroInvoiceNumber: null,
+    saleDate: null,
+    saleAmountIncVat: null,
+    saleAmountExVat: deal.sellPrice,
+    buyPrice: deal.buyPrice,
+    brandingTheme: deal.brandingTheme,
+    introducerCommission: null,
+    cardFees: null,
+    entrupyFee: null,
+    shippingCost: null,
+    dhlCost: null,
+    addisonLeeCost: null,
+    taxiCost: null,
+    handDeliveryCost: null,
+    otherLogisticsCost: deal.costs,
+    deliveryConfirmed: true,
+    isNewClient: deal.isNewClient,
+    marginSchemeEligible: null,
+    buyerName: "Hypothetical deal",
+  };
+}
+
 /**
  * Compute the commissionable profit for a single sale.
  */
@@ -279,36 +672,31 @@ function computeSaleProfit(
 
   const totalCosts = addCurrency(introducerFee, ccFee, entrupyFee, logistics);
 
-  // VAT deduction (MC only)
+  // VAT deduction (MC only). Only margin scheme sales owe VAT out of the
+  // profit: on 20% VAT sales saleAmountExVat is already net, and exports are
+  // zero-rated. Matches the Google Sheets formula =IF(G="Margin Scheme", J/6, 0),
+  // plus the eligibility and negative-margin rules in margin-scheme.ts.
   let vatDue = 0;
-  if (config.deductVatFromProfit && grossProfit > 0) {
-    // For Margin Scheme sales, VAT due = margin / 6 (1/6 of the margin)
-    // For Export/zero-rated, VAT due = 0
-    // For 20% VAT sales, VAT has already been separated (saleAmountExVat is net)
-    // so the "VAT due on profit" concept applies mainly to Margin Scheme
-    const vatRate = getVATRateForBrandingTheme(sale.brandingTheme);
-    if (sale.brandingTheme) {
-      // Margin Scheme: VAT on the margin = gross_profit / 6
-      // This matches the Google Sheets formula: =IF(G="Margin Scheme", J/6, 0)
-      const themeName = sale.brandingTheme.toLowerCase();
-      // Check if it's margin scheme (either by name or by the GUID)
-      const isMarginScheme = themeName.includes("margin") ||
-        themeName === "8173b901-4ea8-498b-a4ba-52a8446ec43f";
-      if (isMarginScheme) {
-        vatDue = roundCurrency(grossProfit / 6);
-      } else if (vatRate > 0) {
-        // Standard 20% VAT — VAT is already excluded from saleAmountExVat,
-        // so no additional deduction needed
-        vatDue = 0;
-      }
-    }
+  if (config.deductVatFromProfit && isMarginSchemeTheme(sale.brandingTheme)) {
+    vatDue = calculateMarginSchemeVAT({
+      sellingPrice: sellPrice,
+      buyPrice,
+      eligible: sale.marginSchemeEligible,
+    }).vatDue;
   }
 
-  const commissionableProfit = subtractCurrency(
+  let commissionableProfit = subtractCurrency(
     subtractCurrency(grossProfit, totalCosts),
     vatDue
   );
 
+  // A partial credit note gives back that share of the sale, so that share
+  // of the profit no longer earns commission. Fully credited sales earn none.
+  const creditRatio = Math.min(1, Math.max(0, sale.creditRatio ?? 0));
+  if (creditRatio > 0) {
+    commissionableProfit = multiplyCurrency(commissionableProfit, 1 - creditRatio);
+  }
+
   return {
     saleId: sale.id,
     invoiceNumber: sale.xeroInvoiceNumber || "—",
@@ -324,9 +712,29 @@ function computeSaleProfit(
     commissionableProfit,
     isNewClient: sale.isNewClient === true,
     cumulativeProfit: 0, // filled in by caller
+    ...(creditRatio > 0 ? { creditRatio } : {}),
   };
 }
 
+/**
+ * Split the cumulative-profit range [from, to) across marginal bands. Band i
+ * covers [bands[i].min, bands[i+1].min) and the last band is open-ended, so
+ * the 0.01 gaps between flat-rate band definitions don't lose any profit.
+ * Bands with no overlap are omitted.
+ */
+function sliceByBand(from: number, to: number, bands: CommissionBand[]): SaleTierSlice[] {
+  const slices: SaleTierSlice[] = [];
+  bands.forEach((band, i) => {
+    const lower = band.min;
+    const upper = i + 1 < bands.length ? bands[i + 1].min : Infinity;
+    const profit = roundCurrency(Math.max(0, Math.min(to, upper) - Math.max(from, lower)));
+    if (profit > 0) {
+      slices.push({ band, profit, commission: multiplyCurrency(profit, band.rate) });
+    }
+  });
+  return slices;
+}
+
 /**
  * Find the band that the cumulative profit falls into.
  * Flat-rate: the entire amount gets the rate of the matched band.
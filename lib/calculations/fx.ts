@@ -0,0 +1,143 @@
+/**
+ * FX CONVERSION - SINGLE SOURCE OF TRUTH
+ *
+ * Club 19's books are kept in GBP (the Xero base currency). A sale can be
+ * invoiced in another currency, in which case every money column on the
+ * sale holds the GBP equivalent and margin / commission are worked out on
+ * that — the invoice-currency amounts are only kept for reference.
+ *
+ * RATE CONVENTION (same as Xero's CurrencyRate):
+ *
+ *   rate = units of the invoice currency per £1
+ *   GBP  = amount / rate          e.g. $12,700 at 1.27 = £10,000
+ *
+ * BUY CURRENCY: a wizard line can be bought in the supplier's currency. Its
+ * rate follows the same convention (supplier-currency units per £1) and
+ * comes from the same rate table; the line's buy price is converted to GBP
+ * before any margin is worked out, and the original amount is kept on the
+ * line item for reference.
+ *
+ * REALISED FX: the sale is booked at the rate on the sale date. When the
+ * client pays, Xero converts the payment at that day's rate; the difference
+ * between the two GBP figures is a realised gain (+) or loss (−). It is
+ * reported on the sale but doesn't change margin or commission.
+ */
+
+import { CURRENCIES } from "@/lib/constants";
+import { roundCurrency, divideCurrency, addCurrency, subtractCurrency } from "@/lib/utils/currency";
+
+/** The currency every stored amount is in. */
+export const BASE_CURRENCY = "GBP";
+
+/** Where a sale's FX rate came from. */
+export type FxRateSource = "table" | "manual" | "xero";
+
+export type CurrencyCode = (typeof CURRENCIES)[number]["code"];
+
+/** Is this a currency the OS can invoice in? */
+export function isSupportedCurrency(code: string | null | undefined): code is CurrencyCode {
+  return CURRENCIES.some((c) => c.code === code);
+}
+
+/** Display symbol for a currency code, falling back to the code itself. */
+export function currencySymbol(code: string | null | undefined): string {
+  return CURRENCIES.find((c) => c.code === code)?.symbol ?? code ?? "£";
+}
+
+/**
+ * Is a rate usable? GBP needs none; anything else needs a positive rate.
+ */
+export function isValidFxRate(currency: string, rate: number | null | undefined): boolean {
+  if (currency === BASE_CURRENCY) return true;
+  return typeof rate === "number" && isFinite(rate) && rate > 0;
+}
+
+/**
+ * Convert an invoice-currency amount to GBP.
+ * GBP amounts (or a missing rate) pass through unchanged.
+ */
+export function toBaseCurrency(amount: number, rate: number | null | undefined): number {
+  if (!rate || rate <= 0 || rate === 1) return roundCurrency(amount);
+  return divideCurrency(amount, rate);
+}
+
+/**
+ * Convert a GBP amount to the invoice currency.
+ * GBP (or a missing rate) passes through unchanged.
+ */
+export function fromBaseCurrency(amountGBP: number, rate: number | null | undefined): number {
+  if (!rate || rate <= 0 || rate === 1) return roundCurrency(amountGBP);
+  return roundCurrency(amountGBP * rate);
+}
+
+/** The buy side of a wizard line, in the supplier's currency. */
+export interface BuyPrice {
+  buyPrice: number;
+  buyCurrency: string;
+  /** Supplier-currency units per £1; not needed for GBP */
+  fxRate?: number | null;
+}
+
+/**
+ * Unit buy price in GBP. GBP lines (and lines with no currency set) pass
+ * through; others are converted at the line's rate.
+ */
+export function buyPriceToBase(line: BuyPrice): number {
+  if (!line.buyCurrency || line.buyCurrency === BASE_CURRENCY) return roundCurrency(line.buyPrice);
+  return toBaseCurrency(line.buyPrice, line.fxRate);
+}
+
+/** Does the line have the rate its buy currency needs? */
+export function isBuyRateReady(line: BuyPrice): boolean {
+  return isValidFxRate(line.buyCurrency || BASE_CURRENCY, line.fxRate);
+}
+
+export interface FxPayment {
+  /** Payment amount in the invoice currency */
+  amount: number;
+  /** Rate Xero applied to the payment (invoice-currency units per £1) */
+  rate: number | null | undefined;
+}
+
+export interface RealisedFxResult {
+  /** Payments in the invoice currency */
+  amountPaid: number;
+  /** The same payments at the sale-date rate */
+  bookedGBP: number;
+  /** The payments as actually received in GBP */
+  receivedGBP: number;
+  /** Single rate equivalent to all payments (received-weighted) */
+  paymentRate: number;
+  /** receivedGBP − bookedGBP: positive is a gain, negative a loss */
+  gainLoss: number;
+}
+
+/**
+ * Work out the realised FX gain or loss on the payments against a sale.
+ *
+ * @param saleRate - Rate the sale was booked at
+ * @param payments - Payments in the invoice currency with their rates
+ * @returns The gain/loss, or null when there is nothing to measure
+ *          (no rate, no payments, or a payment without a rate)
+ */
+export function calculateRealisedFx(
+  saleRate: number | null | undefined,
+  payments: FxPayment[]
+): RealisedFxResult | null {
+  if (!saleRate || saleRate <= 0 || payments.length === 0) return null;
+  if (payments.some((p) => !p.rate || p.rate <= 0)) return null;
+
+  const amountPaid = addCurrency(...payments.map((p) => p.amount));
+  if (amountPaid === 0) return null;
+
+  const bookedGBP = toBaseCurrency(amountPaid, saleRate);
+  const receivedGBP = addCurrency(...payments.map((p) => toBaseCurrency(p.amount, p.rate)));
+
+  return {
+    amountPaid,
+    bookedGBP,
+    receivedGBP,
+    paymentRate: receivedGBP > 0 ? Number((amountPaid / receivedGBP).toFixed(6)) : saleRate,
+    gainLoss: subtractCurrency(receivedGBP, bookedGBP),
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * MARGIN SCHEME VAT - SINGLE SOURCE OF TRUTH
+ *
+ * UK second-hand margin scheme: the invoice shows no VAT (the "CN Margin
+ * Scheme" themes are 0% in Xero), but VAT is still due to HMRC at the
+ * standard rate on the margin. Because the selling price is VAT-inclusive,
+ * that is 20/120 = 1/6 of the margin:
+ *
+ *   margin  = selling price - purchase price
+ *   VAT due = margin / 6   (only when margin > 0)
+ *
+ * RULES:
+ * - Each item is assessed on its own. A negative margin means no VAT is due
+ *   on that item, and the loss can NOT be offset against other margin
+ *   scheme sales.
+ * - Only eligible stock may use the scheme: goods bought without VAT being
+ *   charged or reclaimed (private sellers, other margin scheme dealers), with
+ *   a purchase record. Ineligible stock sold on a margin scheme invoice still
+ *   owes standard-rate VAT on the full selling price (1/6 of it).
+ *
+ * Used by calculateVAT(), calculateMargins() and the commission engine so the
+ * VAT Analysis panel and commission figures always agree.
+ */
+
+import {
+  getBrandingThemeMapping,
+  BrandingThemeMapping,
+} from "@/lib/branding-theme-mappings";
+import { roundCurrency, subtractCurrency, divideCurrency } from "@/lib/utils/currency";
+
+/** Treatment carried by every margin scheme branding theme. */
+export const MARGIN_SCHEME_TREATMENT = "VAT Margin Scheme";
+
+/** VAT fraction of a VAT-inclusive amount at the 20% standard rate (20/120). */
+export const MARGIN_SCHEME_VAT_DIVISOR = 6;
+
+export interface MarginSchemeInputs {
+  /** Selling price as invoiced (VAT-inclusive — no VAT is shown on the invoice) */
+  sellingPrice: number;
+  /** What we paid for the item */
+  buyPrice: number | null;
+  /**
+   * Stock eligibility as recorded on the sale. Null means not assessed and
+   * is treated as eligible; false means VAT was charged or reclaimed on the
+   * purchase.
+   */
+  eligible?: boolean | null;
+}
+
+export interface MarginSchemeResult {
+  eligible: boolean;
+  /** Why the stock can't use the scheme, when it can't */
+  ineligibleReason: string | null;
+  sellingPrice: number;
+  buyPrice: number;
+  /** Selling price minus purchase price — can be negative */
+  margin: number;
+  isNegativeMargin: boolean;
+  /** The amount VAT is charged on: the positive margin, or the full price when ineligible */
+  vatableAmount: number;
+  vatDue: number;
+  /** Margin after VAT due */
+  netMargin: number;
+}
+
+/**
+ * Is this branding theme a margin scheme theme? Matches on the configured
+ * treatment, so both the with-link and no-link themes count.
+ */
+export function isMarginSchemeTheme(
+  themeIdOrName: string | BrandingThemeMapping | null | undefined
+): boolean {
+  if (!themeIdOrName) return false;
+  const mapping =
+    typeof themeIdOrName === "string" ? getBrandingThemeMapping(themeIdOrName) : themeIdOrName;
+  return mapping?.treatment === MARGIN_SCHEME_TREATMENT;
+}
+
+/**
+ * Calculate the VAT due on a margin scheme sale.
+ *
+ * @param inputs - Selling price, purchase price and recorded eligibility
+ * @returns Margin, VAT due and eligibility
+ */
+export function calculateMarginSchemeVAT(inputs: MarginSchemeInputs): MarginSchemeResult {
+  const sellingPrice = roundCurrency(inputs.sellingPrice);
+  const buyPrice = roundCurrency(inputs.buyPrice ?? 0);
+  const margin = subtractCurrency(sellingPrice, buyPrice);
+  const isNegativeMargin = margin < 0;
+
+  let ineligibleReason: string | null = null;
+  if (inputs.eligible === false) {
+    ineligibleReason = "VAT was charged on the purchase, so the item is not eligible for the margin scheme";
+  } else if (buyPrice <= 0) {
+    ineligibleReason = "No purchase price recorded — the margin scheme needs a purchase record for every item";
+  }
+  const eligible = ineligibleReason === null;
+
+  const vatableAmount = eligible ? Math.max(0, margin) : Math.max(0, sellingPrice);
+  const vatDue = divideCurrency(vatableAmount, MARGIN_SCHEME_VAT_DIVISOR);
+
+  return {
+    eligible,
+    ineligibleReason,
+    sellingPrice,
+    buyPrice,
+    margin,
+    isNegativeMargin,
+    vatableAmount,
+    vatDue,
+    netMargin: subtractCurrency(margin, vatDue),
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * PAYMENT → INSTALMENT ALLOCATION
+ *
+ * Works out which payment-plan instalment each Xero payment settles, and
+ * which instalments are now paid. Pure — lib/payments.ts loads the rows and
+ * writes the result.
+ *
+ * Two shapes of payment plan:
+ *
+ *   - Instalment invoiced on its own (`xeroInvoiceId` set): payments on that
+ *     invoice go to that instalment.
+ *   - One invoice for the whole sale: the remaining payments, oldest first,
+ *     fill the remaining instalments in instalment order. A payment larger
+ *     than one instalment can settle several; a short one leaves the
+ *     instalment open until the next payment tops it up.
+ *
+ * A payment is linked to the last instalment it completes, or the one it
+ * part-pays if it completes none. All amounts are GBP at the invoice rate so
+ * they compare with the instalment amounts.
+ */
+
+import { addCurrency, roundCurrency, subtractCurrency } from "@/lib/utils/currency";
+
+/** Anything within a penny is paid — Xero and the plan may round differently. */
+const PAID_TOLERANCE = 0.01;
+
+export interface InstalmentForAllocation {
+  id: string;
+  instalmentNumber: number | null;
+  amount: number | null;
+  xeroInvoiceId: string | null;
+}
+
+export interface PaymentForAllocation {
+  id: string;
+  xeroInvoiceId: string | null;
+  /** GBP at the invoice rate */
+  amount: number;
+  paymentDate: Date | null;
+}
+
+export interface InstalmentPaidState {
+  paidAmount: number;
+  paid: boolean;
+  /** Date of the payment that completed it */
+  paidDate: Date | null;
+}
+
+export interface PaymentAllocation {
+  /** Payment ID → the instalment it settles (null if none) */
+  payments: Map<string, string | null>;
+  /** Instalment ID → what has been paid against it */
+  instalments: Map<string, InstalmentPaidState>;
+}
+
+function byDate(a: PaymentForAllocation, b: PaymentForAllocation): number {
+  return (a.paymentDate?.getTime() ?? 0) - (b.paymentDate?.getTime() ?? 0);
+}
+
+/**
+ * Allocate payments to instalments.
+ *
+ * @param instalments - The sale's payment schedule
+ * @param payments - Live (not deleted) payments on the sale's invoices
+ */
+export function allocatePaymentsToInstalments(
+  instalments: InstalmentForAllocation[],
+  payments: PaymentForAllocation[]
+): PaymentAllocation {
+  const allocation: PaymentAllocation = { payments: new Map(), instalments: new Map() };
+  for (const instalment of instalments) {
+    allocation.instalments.set(instalment.id, { paidAmount: 0, paid: false, paidDate: null });
+  }
+
+  const invoiced = new Map<string, InstalmentForAllocation>();
+  for (const instalment of instalments) {
+    if (instalment.xeroInvoiceId) invoiced.set(instalment.xeroInvoiceId, instalment);
+  }
+
+  // Instalments with their own invoice
+  const pooled: PaymentForAllocation[] = [];
+  for (const payment of [...payments].sort(byDate)) {
+    const instalment = payment.xeroInvoiceId ? invoiced.get(payment.xeroInvoiceId) : undefined;
+    if (!instalment) {
+      pooled.push(payment);
+      continue;
+    }
+    const state = allocation.instalments.get(instalment.id)!;
+    state.paidAmount = addCurrency(state.paidAmount, payment.amount);
+    if (!state.paid && subtractCurrency(roundCurrency(instalment.amount ?? 0), state.paidAmount) <= PAID_TOLERANCE) {
+      state.paid = true;
+      state.paidDate = payment.paymentDate;
+    }
+    allocation.payments.set(payment.id, instalment.id);
+  }
+
+  // The rest share the sale's invoice, filled in instalment order
+  const queue = instalments
+    .filter((i) => !i.xeroInvoiceId)
+    .sort((a, b) => (a.instalmentNumber ?? 0) - (b.instalmentNumber ?? 0));
+  let index = 0;
+  for (const payment of pooled) {
+    let remaining = roundCurrency(payment.amount);
+    let settles: string | null = null;
+    let partPays: string | null = null;
+
+    while (remaining > 0 && index < queue.length) {
+      const instalment = queue[index];
+      const state = allocation.instalments.get(instalment.id)!;
+      const outstanding = subtractCurrency(roundCurrency(instalment.amount ?? 0), state.paidAmount);
+      const applied = Math.min(remaining, outstanding);
+      state.paidAmount = addCurrency(state.paidAmount, applied);
+      remaining = subtractCurrency(remaining, applied);
+
+      if (subtractCurrency(outstanding, applied) <= PAID_TOLERANCE) {
+        state.paid = true;
+        state.paidDate = payment.paymentDate;
+        settles = instalment.id;
+        index++;
+      } else {
+        partPays ??= instalment.id;
+        break;
+      }
+    }
+    allocation.payments.set(payment.id, settles ?? partPays);
+  }
+
+  return allocation;
+}
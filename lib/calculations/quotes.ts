@@ -0,0 +1,97 @@
+/**
+ * QUOTES — OUTCOMES AND CONVERSION
+ *
+ * Where a quote stands (open, accepted, declined or expired) and how many of
+ * a shopper's quotes turned into sales. Pure — lib/quotes.ts loads the
+ * quotes.
+ *
+ * Conversion rate is accepted ÷ decided, where decided is accepted + declined
+ * + expired. Quotes still open don't count either way yet.
+ */
+
+/** How long a new quote is valid for unless the shopper picks a date. */
+export const QUOTE_VALIDITY_DAYS = 14;
+
+export type QuoteOutcome = "open" | "accepted" | "declined" | "expired";
+
+export interface QuoteOutcomeInput {
+  /** Stored status: open, accepting (being invoiced), accepted or declined */
+  status: string;
+  /** Last day the quote can be accepted, YYYY-MM-DD */
+  expiryDate: string;
+}
+
+export interface ConversionQuote extends QuoteOutcomeInput {
+  shopperId: string | null;
+  shopperName: string | null;
+}
+
+export interface QuoteConversionRow {
+  shopperId: string | null;
+  shopperName: string;
+  quoted: number;
+  open: number;
+  accepted: number;
+  declined: number;
+  expired: number;
+  /** 0–1; null until at least one quote is decided */
+  conversionRate: number | null;
+}
+
+/**
+ * A quote is valid through its expiry date and expired from the day after.
+ * Accepted and declined quotes keep their outcome whatever the date.
+ *
+ * @param today - YYYY-MM-DD
+ */
+export function quoteOutcome(quote: QuoteOutcomeInput, today: string): QuoteOutcome {
+  if (quote.status === "accepted" || quote.status === "declined") return quote.status;
+  return quote.expiryDate < today ? "expired" : "open";
+}
+
+/** YYYY-MM-DD, `days` after `from` (also YYYY-MM-DD). */
+export function addDays(from: string, days: number): string {
+  const date = new Date(`${from}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Quote counts and conversion rate per shopper, most quotes first. Quotes
+ * without a shopper are grouped as "Unassigned".
+ *
+ * @param today - YYYY-MM-DD
+ */
+export function summariseQuoteConversion(
+  quotes: ConversionQuote[],
+  today: string
+): QuoteConversionRow[] {
+  const rows = new Map<string, QuoteConversionRow>();
+
+  for (const quote of quotes) {
+    const key = quote.shopperId ?? "unassigned";
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        shopperId: quote.shopperId,
+        shopperName: quote.shopperName || "Unassigned",
+        quoted: 0,
+        open: 0,
+        accepted: 0,
+        declined: 0,
+        expired: 0,
+        conversionRate: null,
+      };
+      rows.set(key, row);
+    }
+    row.quoted += 1;
+    row[quoteOutcome(quote, today)] += 1;
+  }
+
+  return Array.from(rows.values())
+    .map((row) => {
+      const decided = row.accepted + row.declined + row.expired;
+      return { ...row, conversionRate: decided > 0 ? row.accepted / decided : null };
+    })
+    .sort((a, b) => b.quoted - a.quoted || a.shopperName.localeCompare(b.shopperName));
+}
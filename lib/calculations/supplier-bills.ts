@@ -0,0 +1,100 @@
+/**
+ * SUPPLIER BILLS — GROUPING AND RECONCILIATION
+ *
+ * Turns a sale's purchase lines into one Xero bill (ACCPAY) per supplier and
+ * buy currency, and checks a bill against the buy prices the OS recorded.
+ * Pure — lib/supplier-bills.ts loads the lines and talks to Xero.
+ *
+ * Buy prices are per unit in the currency the item was bought in (the
+ * original amount on `line_items`, so the bill matches the supplier's
+ * invoice); a line's cost is unit price × quantity.
+ */
+
+import { addCurrency, multiplyCurrency, roundCurrency, subtractCurrency } from "@/lib/utils/currency";
+
+/** Anything within a penny matches — Xero and the OS may round differently. */
+const MATCH_TOLERANCE = 0.01;
+
+export interface BillSourceLine {
+  /** Null when the sale has no line items and the line is the sale itself */
+  lineItemId: string | null;
+  supplierId: string | null;
+  description: string;
+  quantity: number;
+  /** ISO code the item was bought in */
+  currency: string;
+  /** Per unit, in `currency` */
+  unitBuyPrice: number;
+  supplierInvoiceRef: string | null;
+  datePurchased: Date | null;
+}
+
+export interface SupplierBillDraft {
+  supplierId: string;
+  /** The bill's currency: every line was bought in it */
+  currency: string;
+  lines: BillSourceLine[];
+  /** What the OS recorded as paid to this supplier for the sale, in `currency` */
+  expectedTotal: number;
+  /** The supplier's invoice number(s), becomes the bill number in Xero */
+  supplierInvoiceRef: string | null;
+  /** Earliest purchase date on the lines */
+  billDate: Date | null;
+  lineItemIds: string[];
+}
+
+export interface BillReconciliation {
+  /** Bill total minus recorded buy prices (positive = billed more) */
+  variance: number;
+  matches: boolean;
+}
+
+/**
+ * Group purchase lines into one bill draft per supplier and currency, in the
+ * order they first appear. Lines with no supplier or no cost can't be billed
+ * and come back in `unbillable`.
+ */
+export function groupLinesBySupplier(lines: BillSourceLine[]): {
+  drafts: SupplierBillDraft[];
+  unbillable: BillSourceLine[];
+} {
+  const bySupplier = new Map<string, { supplierId: string; currency: string; lines: BillSourceLine[] }>();
+  const unbillable: BillSourceLine[] = [];
+
+  for (const line of lines) {
+    if (!line.supplierId || roundCurrency(line.unitBuyPrice) <= 0 || line.quantity <= 0) {
+      unbillable.push(line);
+      continue;
+    }
+    const key = `${line.supplierId}:${line.currency}`;
+    const group = bySupplier.get(key) ?? { supplierId: line.supplierId, currency: line.currency, lines: [] };
+    group.lines.push(line);
+    bySupplier.set(key, group);
+  }
+
+  const drafts = [...bySupplier.values()].map(({ supplierId, currency, lines: supplierLines }) => {
+    const refs = [...new Set(supplierLines.map((l) => l.supplierInvoiceRef?.trim()).filter((r): r is string => !!r))];
+    const dates = supplierLines
+      .map((l) => l.datePurchased)
+      .filter((d): d is Date => d !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return {
+      supplierId,
+      currency,
+      lines: supplierLines,
+      expectedTotal: addCurrency(...supplierLines.map((l) => multiplyCurrency(l.unitBuyPrice, l.quantity))),
+      supplierInvoiceRef: refs.length > 0 ? refs.join(", ") : null,
+      billDate: dates[0] ?? null,
+      lineItemIds: supplierLines.map((l) => l.lineItemId).filter((id): id is string => id !== null),
+    };
+  });
+
+  return { drafts, unbillable };
+}
+
+/** Compare a bill's total in Xero with the buy prices recorded in the OS. */
+export function reconcileBill(expectedTotal: number, billTotal: number): BillReconciliation {
+  const variance = subtractCurrency(roundCurrency(billTotal), roundCurrency(expectedTotal));
+  return { variance, matches: Math.abs(variance) <= MATCH_TOLERANCE };
+}
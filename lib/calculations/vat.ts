@@ -9,6 +9,7 @@
  * - Export sales (CN Export VAT / legacy CN Export Sales / CN Export No Link) = 0% VAT
  * - UK domestic sales (CN 20% VAT / CN 20% VAT No link) = 20% VAT
  * - Margin scheme sales (CN Margin Scheme / CN Margin Scheme No Link) = 0% VAT
+ *   on the invoice, but VAT is due on the margin — see ./margin-scheme.ts
  */
 
 import {
@@ -16,6 +17,11 @@ import {
   BrandingThemeMapping,
 } from "@/lib/branding-theme-mappings";
 import { toNumber } from "@/lib/economics";
+import {
+  calculateMarginSchemeVAT,
+  isMarginSchemeTheme,
+  MarginSchemeResult,
+} from "@/lib/calculations/margin-scheme";
 import {
   roundCurrency,
   multiplyCurrency,
@@ -26,6 +32,10 @@ import {
 export interface VATInputs {
   brandTheme: string;
   saleAmountExVat: number | string | null | undefined;
+  /** Margin scheme sales only — needed to work out the VAT due on the margin */
+  buyPrice?: number | string | null | undefined;
+  /** Margin scheme sales only — the sale's recorded stock eligibility */
+  marginSchemeEligible?: boolean | null;
 }
 
 export interface VATResult {
@@ -36,6 +46,11 @@ export interface VATResult {
   vatAmount: number;
   saleAmountIncVat: number;
   isZeroRated: boolean;
+  /**
+   * VAT due on the margin for margin scheme sales (not shown on the
+   * invoice, so not part of vatAmount). Null for every other treatment.
+   */
+  marginScheme: MarginSchemeResult | null;
 }
 
 /**
@@ -98,6 +113,13 @@ export function calculateVAT(inputs: VATInputs): VATResult {
     }
   }
 
+  const marginScheme = isMarginSchemeTheme(mapping)
+    ? calculateMarginSchemeVAT({
+        sellingPrice: saleAmountIncVat,
+        buyPrice: toNumber(inputs.buyPrice),
+        eligible: inputs.marginSchemeEligible,
+      })
+    : null;
 
   return {
     brandingTheme: mapping,
@@ -107,6 +129,7 @@ export function calculateVAT(inputs: VATInputs): VATResult {
     vatAmount,
     saleAmountIncVat,
     isZeroRated,
+    marginScheme,
   };
 }
 
@@ -0,0 +1,42 @@
+/**
+ * Club 19 Sales OS - Commission Forecast
+ *
+ * Loads a shopper's current month for forecastCommission() (pure, in
+ * lib/calculations/commission.ts): where their cumulative profit sits, how
+ * far it is to the next band, and what a hypothetical deal would add —
+ * including the uplift on the rest of the month when a flat band is crossed.
+ *
+ * Read-only. Nothing here is stored or paid; approved statements still
+ * decide what the month pays.
+ */
+
+import "server-only";
+import {
+  forecastCommission,
+  type CommissionForecast,
+  type HypotheticalDeal,
+} from "@/lib/calculations/commission";
+import { getCommissionProfile } from "@/lib/commission-schemes";
+import { loadSalesForCommission } from "@/lib/commission-statements";
+
+/** "YYYY-MM" for the current UTC month. */
+function currentMonth(): string {
+  const now = new Date();
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Forecast a shopper's month (the current month by default). Returns null if
+ * the shopper has no commission scheme.
+ */
+export async function getCommissionForecast(
+  shopperId: string,
+  deal: HypotheticalDeal | null = null,
+  month: string = currentMonth()
+): Promise<CommissionForecast | null> {
+  const profile = await getCommissionProfile(shopperId);
+  if (!profile) return null;
+
+  const monthSales = await loadSalesForCommission(shopperId, month);
+  return forecastCommission(monthSales, profile, month, deal);
+}
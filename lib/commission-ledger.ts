@@ -0,0 +1,701 @@
+/**
+ * Club 19 Sales OS - Commission Ledger
+ *
+ * Per-shopper running balance of commission owed, in `commission_ledger`.
+ *
+ * - recordCommissionClawback() flags a sale as clawed back. If commission on
+ *   that sale has already been paid, the sale's share of the paid statement
+ *   is posted as a negative `clawback` entry. Unpaid sales simply drop out of
+ *   the live calculation (see loadSalesForCommission).
+ * - proposeCreditNoteClawback() is called when a credit note lands on a sale
+ *   whose commission is locked or paid. It raises a pending proposal for the
+ *   credited share of that commission; approveClawbackProposal() posts it to
+ *   the ledger as a negative `adjustment`, rejectClawbackProposal() drops it.
+ * - settleCommissionMonth() is called by pay-commissions: it credits what the
+ *   month's latest approved statement owes on its locked sales, less earlier
+ *   settlements of the month, nets that against the balance brought forward
+ *   and posts the net payment. Clawbacks larger than the credit leave a
+ *   negative balance that carries into the next month.
+ * - getLedgerPositions() gives the finance page the brought-forward / net /
+ *   carried-forward figures for each shopper in a month.
+ *
+ * Entries are insert-only.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import {
+  sales,
+  shoppers,
+  creditNotes,
+  commissionLedger,
+  commissionStatements,
+  commissionClawbackProposals,
+  type CommissionLedgerEntry,
+  type CommissionClawbackProposal,
+} from "@/db/schema";
+import { and, asc, desc, eq, gte, isNull, lt } from "drizzle-orm";
+import {
+  netCommissionPayable,
+  saleCommissionShare,
+  type CommissionNetting,
+  type CommissionResult,
+} from "@/lib/calculations/commission";
+import { addCurrency, roundCurrency, subtractCurrency } from "@/lib/utils/currency";
+import { monthToDate } from "@/lib/commission-schemes";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A shopper's ledger figures for one month. */
+export interface CommissionLedgerPosition extends CommissionNetting {
+  /** True once pay-commissions has posted this month */
+  settled: boolean;
+}
+
+export interface CommissionPayout extends CommissionNetting {
+  shopperId: string;
+  month: string;
+  statementId: string;
+}
+
+export interface CommissionClawbackResult {
+  saleId: string;
+  /** Commission recovered through the ledger — null if none had been paid */
+  clawbackAmount: number | null;
+  entry: CommissionLedgerEntry | null;
+}
+
+export interface CreditNoteClawbackInput {
+  saleId: string;
+  /** `credit_notes.id` */
+  creditNoteId: string;
+  /** Total of the credit note now applied to the sale, GBP */
+  appliedAmount: number;
+  /** Credit applied since the credit note was last seen, GBP */
+  creditedAmount: number;
+}
+
+/** A proposal with the sale, shopper and credit note it refers to. */
+export interface ClawbackProposalDetail extends CommissionClawbackProposal {
+  invoiceNumber: string | null;
+  saleReference: string | null;
+  shopperName: string | null;
+  creditNoteNumber: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function monthOf(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function isCommissionLocked(sale: {
+  commissionLocked?: boolean | null;
+  commissionPaid: boolean | null;
+  status: string | null;
+}): boolean {
+  return (
+    sale.commissionLocked === true ||
+    sale.commissionPaid === true ||
+    sale.status === "locked" ||
+    sale.status === "commission_paid"
+  );
+}
+
+function sumAmounts(entries: { amount: number }[]): number {
+  return entries.reduce((sum, e) => addCurrency(sum, e.amount), 0);
+}
+
+/**
+ * A month's position from a shopper's entries (oldest first). Unsettled
+ * months are projected from the current balance and `statementTotal`;
+ * settled months total every statement and payment entry posted for them.
+ */
+function positionFromEntries(
+  entries: CommissionLedgerEntry[],
+  month: string,
+  statementTotal: number
+): CommissionLedgerPosition {
+  const settlementIndex = entries.findIndex(
+    (e) => e.entryType === "statement" && e.month === month
+  );
+  if (settlementIndex === -1) {
+    return { ...netCommissionPayable(statementTotal, sumAmounts(entries)), settled: false };
+  }
+
+  const settlements = entries.filter((e) => e.entryType === "statement" && e.month === month);
+  const broughtForward = sumAmounts(entries.slice(0, settlementIndex));
+  const settledTotal = sumAmounts(settlements);
+  const payments = entries.filter((e) => e.entryType === "payment" && e.month === month);
+  const netPayable = -sumAmounts(payments);
+  return {
+    broughtForward,
+    statementTotal: settledTotal,
+    netPayable,
+    carriedForward: roundCurrency(broughtForward + settledTotal - netPayable),
+    settled: true,
+  };
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/** Every entry for a shopper, oldest first. */
+export async function listLedgerEntries(shopperId: string): Promise<CommissionLedgerEntry[]> {
+  return db
+    .select()
+    .from(commissionLedger)
+    .where(eq(commissionLedger.shopperId, shopperId))
+    .orderBy(asc(commissionLedger.createdAt));
+}
+
+/**
+ * Ledger figures for a month, keyed by shopper ID. `statementTotals` is the
+ * figure each shopper would be paid on (approved statement, or live total if
+ * not yet approved). Settled months report what was actually posted.
+ */
+export async function getLedgerPositions(
+  month: string,
+  statementTotals: Map<string, number>
+): Promise<Map<string, CommissionLedgerPosition>> {
+  const rows = await db.select().from(commissionLedger).orderBy(asc(commissionLedger.createdAt));
+
+  const byShopper = new Map<string, CommissionLedgerEntry[]>();
+  for (const row of rows) {
+    const list = byShopper.get(row.shopperId) ?? [];
+    list.push(row);
+    byShopper.set(row.shopperId, list);
+  }
+
+  const positions = new Map<string, CommissionLedgerPosition>();
+  for (const [shopperId, total] of statementTotals) {
+    positions.set(shopperId, positionFromEntries(byShopper.get(shopperId) ?? [], month, total));
+  }
+  return positions;
+}
+
+// ============================================================================
+// CLAWBACKS
+// ============================================================================
+
+/**
+ * Work out how much commission was paid on a sale. Prefers the statement
+ * its month was last settled against; falls back to the latest approved
+ * statement, then the sale's stored commissionAmount, for sales marked paid
+ * before the ledger existed. Returns null if the sale wasn't paid — a
+ * settled month only pays the sales that were locked when it was settled.
+ *
+ * With `includeLocked`, a sale whose commission is locked but not yet paid
+ * counts too — the amount it is due to be paid.
+ */
+async function findPaidCommission(
+  sale: {
+    id: string;
+    shopperId: string;
+    saleDate: Date;
+    commissionPaid: boolean | null;
+    commissionLocked?: boolean | null;
+    status: string | null;
+    commissionAmount: number | null;
+  },
+  options: { includeLocked?: boolean } = {}
+): Promise<{ amount: number; statementId: string | null } | null> {
+  const month = monthOf(sale.saleDate);
+
+  const [settlement] = await db
+    .select({ statementId: commissionLedger.statementId })
+    .from(commissionLedger)
+    .where(
+      and(
+        eq(commissionLedger.shopperId, sale.shopperId),
+        eq(commissionLedger.month, month),
+        eq(commissionLedger.entryType, "statement")
+      )
+    )
+    .orderBy(desc(commissionLedger.createdAt))
+    .limit(1);
+
+  const markedPaid =
+    sale.commissionPaid === true ||
+    sale.status === "commission_paid" ||
+    (options.includeLocked === true && isCommissionLocked(sale));
+  if (!markedPaid) return null;
+
+  const statementQuery = db
+    .select({ id: commissionStatements.id, snapshot: commissionStatements.snapshot })
+    .from(commissionStatements);
+  const [statement] = settlement?.statementId
+    ? await statementQuery.where(eq(commissionStatements.id, settlement.statementId)).limit(1)
+    : await statementQuery
+        .where(
+          and(
+            eq(commissionStatements.shopperId, sale.shopperId),
+            eq(commissionStatements.month, month)
+          )
+        )
+        .orderBy(desc(commissionStatements.version))
+        .limit(1);
+
+  if (statement) {
+    const share = saleCommissionShare(statement.snapshot as CommissionResult, sale.id);
+    if (share !== null) return { amount: share, statementId: statement.id };
+  }
+
+  if (sale.commissionAmount) {
+    return { amount: roundCurrency(sale.commissionAmount), statementId: null };
+  }
+  return null;
+}
+
+/**
+ * Mark a sale's commission as clawed back and, if it had already been paid,
+ * post the paid amount to the shopper's ledger as a negative entry so it is
+ * deducted from their next payment.
+ */
+export async function recordCommissionClawback(
+  saleId: string,
+  reason: string,
+  createdBy: string,
+  clawbackDate: Date = new Date()
+): Promise<CommissionClawbackResult> {
+  const [sale] = await db
+    .select({
+      id: sales.id,
+      shopperId: sales.shopperId,
+      saleDate: sales.saleDate,
+      saleReference: sales.saleReference,
+      xeroInvoiceNumber: sales.xeroInvoiceNumber,
+      status: sales.status,
+      commissionPaid: sales.commissionPaid,
+      commissionAmount: sales.commissionAmount,
+      commissionClawback: sales.commissionClawback,
+    })
+    .from(sales)
+    .where(eq(sales.id, saleId))
+    .limit(1);
+
+  if (!sale) {
+    throw new NotFoundError("Sale", { saleId });
+  }
+  if (sale.commissionClawback) {
+    throw new ValidationError("Commission has already been clawed back for this sale", { saleId });
+  }
+
+  const paid =
+    sale.shopperId && sale.saleDate
+      ? await findPaidCommission({ ...sale, shopperId: sale.shopperId, saleDate: sale.saleDate })
+      : null;
+
+  const entry = await db.transaction(async (tx) => {
+    await tx
+      .update(sales)
+      .set({
+        commissionClawback: true,
+        commissionClawbackDate: clawbackDate,
+        commissionClawbackReason: reason,
+      })
+      .where(eq(sales.id, saleId));
+
+    if (!paid || paid.amount <= 0 || !sale.shopperId) return null;
+
+    const [inserted] = await tx
+      .insert(commissionLedger)
+      .values({
+        shopperId: sale.shopperId,
+        month: monthOf(clawbackDate),
+        entryType: "clawback",
+        amount: -paid.amount,
+        saleId,
+        statementId: paid.statementId,
+        description: `Clawback ${sale.xeroInvoiceNumber || sale.saleReference || saleId}: ${reason}`,
+        createdBy,
+      })
+      .returning();
+    return inserted;
+  });
+
+  logger.info("COMMISSION_LEDGER", "Commission clawback recorded", {
+    saleId,
+    shopperId: sale.shopperId,
+    clawbackAmount: entry ? paid?.amount : null,
+    createdBy,
+  });
+
+  return { saleId, clawbackAmount: entry ? paid?.amount ?? null : null, entry };
+}
+
+// ============================================================================
+// CREDIT NOTE CLAWBACK PROPOSALS
+// ============================================================================
+
+/**
+ * Propose clawing back the credited share of a sale's commission after a
+ * credit note. Only sales whose commission is locked or paid get one —
+ * before that the credit simply reduces the live calculation. Returns null
+ * when no proposal is needed or one already exists for this credit.
+ */
+export async function proposeCreditNoteClawback(
+  input: CreditNoteClawbackInput
+): Promise<CommissionClawbackProposal | null> {
+  if (input.creditedAmount <= 0) return null;
+
+  const [sale] = await db
+    .select({
+      id: sales.id,
+      shopperId: sales.shopperId,
+      saleDate: sales.saleDate,
+      status: sales.status,
+      saleAmountIncVat: sales.saleAmountIncVat,
+      commissionLocked: sales.commissionLocked,
+      commissionPaid: sales.commissionPaid,
+      commissionAmount: sales.commissionAmount,
+      commissionClawback: sales.commissionClawback,
+    })
+    .from(sales)
+    .where(eq(sales.id, input.saleId))
+    .limit(1);
+
+  if (!sale || !sale.shopperId || !sale.saleDate) return null;
+  if (sale.commissionClawback || !isCommissionLocked(sale)) return null;
+
+  const saleTotal = roundCurrency(sale.saleAmountIncVat ?? 0);
+  if (saleTotal <= 0) return null;
+
+  const base = await findPaidCommission(
+    { ...sale, shopperId: sale.shopperId, saleDate: sale.saleDate },
+    { includeLocked: true }
+  );
+  if (!base || base.amount <= 0) return null;
+
+  const share = Math.min(1, input.creditedAmount / saleTotal);
+  const proposedAmount = roundCurrency(base.amount * share);
+  if (proposedAmount <= 0) return null;
+
+  const [proposal] = await db
+    .insert(commissionClawbackProposals)
+    .values({
+      saleId: sale.id,
+      creditNoteId: input.creditNoteId,
+      shopperId: sale.shopperId,
+      appliedAmount: input.appliedAmount,
+      creditedAmount: input.creditedAmount,
+      saleTotal,
+      commissionBase: base.amount,
+      proposedAmount,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (proposal) {
+    logger.info("COMMISSION_LEDGER", "Credit note clawback proposed", {
+      proposalId: proposal.id,
+      saleId: sale.id,
+      shopperId: sale.shopperId,
+      creditedAmount: input.creditedAmount,
+      proposedAmount,
+    });
+  }
+  return proposal ?? null;
+}
+
+/** Proposals newest first, optionally only those with `status`. */
+export async function listClawbackProposals(
+  status?: CommissionClawbackProposal["status"]
+): Promise<ClawbackProposalDetail[]> {
+  const rows = await db
+    .select({
+      proposal: commissionClawbackProposals,
+      invoiceNumber: sales.xeroInvoiceNumber,
+      saleReference: sales.saleReference,
+      shopperName: shoppers.name,
+      creditNoteNumber: creditNotes.creditNoteNumber,
+    })
+    .from(commissionClawbackProposals)
+    .leftJoin(sales, eq(commissionClawbackProposals.saleId, sales.id))
+    .leftJoin(shoppers, eq(sales.shopperId, shoppers.id))
+    .leftJoin(creditNotes, eq(commissionClawbackProposals.creditNoteId, creditNotes.id))
+    .where(status ? eq(commissionClawbackProposals.status, status) : undefined)
+    .orderBy(desc(commissionClawbackProposals.createdAt));
+
+  return rows.map(({ proposal, ...rest }) => ({ ...proposal, ...rest }));
+}
+
+/**
+ * Approve a pending proposal: post the proposed amount to the shopper's
+ * ledger as a negative adjustment, deducted from their next payment.
+ */
+export async function approveClawbackProposal(
+  proposalId: string,
+  reviewedBy: string,
+  notes?: string,
+  approvedAt: Date = new Date()
+): Promise<CommissionClawbackProposal> {
+  const proposal = await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(commissionClawbackProposals)
+      .set({
+        status: "approved",
+        reviewedBy,
+        reviewedAt: approvedAt,
+        reviewNotes: notes || null,
+      })
+      .where(
+        and(
+          eq(commissionClawbackProposals.id, proposalId),
+          eq(commissionClawbackProposals.status, "pending")
+        )
+      )
+      .returning();
+    if (!claimed) return null;
+
+    const [context] = await tx
+      .select({
+        invoiceNumber: sales.xeroInvoiceNumber,
+        saleReference: sales.saleReference,
+        creditNoteNumber: creditNotes.creditNoteNumber,
+      })
+      .from(sales)
+      .leftJoin(creditNotes, eq(creditNotes.id, claimed.creditNoteId))
+      .where(eq(sales.id, claimed.saleId))
+      .limit(1);
+
+    const [entry] = await tx
+      .insert(commissionLedger)
+      .values({
+        shopperId: claimed.shopperId,
+        month: monthOf(approvedAt),
+        entryType: "adjustment",
+        amount: -claimed.proposedAmount,
+        saleId: claimed.saleId,
+        description: `Credit note ${context?.creditNoteNumber || claimed.creditNoteId} on ${
+          context?.invoiceNumber || context?.saleReference || claimed.saleId
+        }`,
+        createdBy: reviewedBy,
+      })
+      .returning();
+
+    const [updated] = await tx
+      .update(commissionClawbackProposals)
+      .set({ ledgerEntryId: entry.id })
+      .where(eq(commissionClawbackProposals.id, proposalId))
+      .returning();
+    return updated;
+  });
+
+  if (!proposal) {
+    throw await reviewError(proposalId);
+  }
+
+  logger.info("COMMISSION_LEDGER", "Credit note clawback approved", {
+    proposalId,
+    saleId: proposal.saleId,
+    shopperId: proposal.shopperId,
+    amount: proposal.proposedAmount,
+    reviewedBy,
+  });
+  return proposal;
+}
+
+/** Reject a pending proposal. The commission stands as paid. */
+export async function rejectClawbackProposal(
+  proposalId: string,
+  reviewedBy: string,
+  notes?: string
+): Promise<CommissionClawbackProposal> {
+  const [proposal] = await db
+    .update(commissionClawbackProposals)
+    .set({
+      status: "rejected",
+      reviewedBy,
+      reviewedAt: new Date(),
+      reviewNotes: notes || null,
+    })
+    .where(
+      and(
+        eq(commissionClawbackProposals.id, proposalId),
+        eq(commissionClawbackProposals.status, "pending")
+      )
+    )
+    .returning();
+
+  if (!proposal) {
+    throw await reviewError(proposalId);
+  }
+
+  logger.info("COMMISSION_LEDGER", "Credit note clawback rejected", {
+    proposalId,
+    saleId: proposal.saleId,
+    reviewedBy,
+  });
+  return proposal;
+}
+
+/** Why a proposal couldn't be reviewed: missing, or already reviewed. */
+async function reviewError(proposalId: string): Promise<Error> {
+  const [existing] = await db
+    .select({ status: commissionClawbackProposals.status })
+    .from(commissionClawbackProposals)
+    .where(eq(commissionClawbackProposals.id, proposalId))
+    .limit(1);
+  return existing
+    ? new ValidationError(`Proposal has already been ${existing.status}`, { proposalId })
+    : new NotFoundError("Clawback proposal", { proposalId });
+}
+
+// ============================================================================
+// PAYMENT
+// ============================================================================
+
+/**
+ * Post a shopper's month to the ledger: credit what the latest approved
+ * statement owes on the month's locked and paid sales, less whatever earlier
+ * settlements already credited, and debit the net amount paid. A month can
+ * be settled more than once — sales locked since, or a re-approved statement,
+ * are paid as a further `statement` entry for the difference. Sales clawed
+ * back before they were paid are left out.
+ *
+ * Returns null if the month has no approved statement. The figures returned
+ * are for this settlement only: all zero if there was nothing new to pay.
+ */
+export async function settleCommissionMonth(
+  shopperId: string,
+  month: string,
+  createdBy: string
+): Promise<CommissionPayout | null> {
+  const [statement] = await db
+    .select({
+      id: commissionStatements.id,
+      totalPayable: commissionStatements.totalPayable,
+      snapshot: commissionStatements.snapshot,
+    })
+    .from(commissionStatements)
+    .where(
+      and(eq(commissionStatements.shopperId, shopperId), eq(commissionStatements.month, month))
+    )
+    .orderBy(desc(commissionStatements.version))
+    .limit(1);
+
+  if (!statement) return null;
+
+  const monthStart = monthToDate(month);
+  const monthEnd = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+  const snapshot = statement.snapshot as CommissionResult;
+
+  const payout = await db.transaction(async (tx) => {
+    // One settlement per shopper at a time, so two runs can't both pay a delta
+    await tx
+      .select({ id: shoppers.id })
+      .from(shoppers)
+      .where(eq(shoppers.id, shopperId))
+      .for("update");
+
+    const entries = await tx
+      .select()
+      .from(commissionLedger)
+      .where(eq(commissionLedger.shopperId, shopperId))
+      .orderBy(asc(commissionLedger.createdAt));
+
+    const monthSales = await tx
+      .select({
+        id: sales.id,
+        status: sales.status,
+        commissionLocked: sales.commissionLocked,
+        commissionPaid: sales.commissionPaid,
+        commissionClawback: sales.commissionClawback,
+      })
+      .from(sales)
+      .where(
+        and(
+          eq(sales.shopperId, shopperId),
+          isNull(sales.deletedAt),
+          gte(sales.saleDate, monthStart),
+          lt(sales.saleDate, monthEnd)
+        )
+      );
+
+    // A sale clawed back after it was paid stays in: its clawback entry
+    // recovers what it was credited
+    const recovered = new Set(
+      entries.filter((e) => e.entryType === "clawback" && e.saleId).map((e) => e.saleId)
+    );
+    const settleable = new Set(
+      monthSales
+        .filter(
+          (sale) =>
+            isCommissionLocked(sale) && (sale.commissionClawback !== true || recovered.has(sale.id))
+        )
+        .map((sale) => sale.id)
+    );
+    // Once every sale on the statement is settleable, credit its total so
+    // per-sale rounding doesn't leave pennies behind
+    const complete = snapshot.sales.every(
+      (detail) => detail.commissionableProfit <= 0 || settleable.has(detail.saleId)
+    );
+    const due = complete
+      ? statement.totalPayable
+      : addCurrency(...[...settleable].map((saleId) => saleCommissionShare(snapshot, saleId)));
+
+    const previous = entries.filter((e) => e.entryType === "statement" && e.month === month);
+    const credit = subtractCurrency(due, sumAmounts(previous));
+    const balance = sumAmounts(entries);
+
+    // Nothing new since the last settlement (or nothing locked yet)
+    if (credit === 0 && (previous.length > 0 || settleable.size === 0)) {
+      return {
+        broughtForward: balance,
+        statementTotal: 0,
+        netPayable: 0,
+        carriedForward: balance,
+        shopperId,
+        month,
+        statementId: statement.id,
+      };
+    }
+
+    const netting = netCommissionPayable(credit, balance);
+
+    await tx.insert(commissionLedger).values({
+      shopperId,
+      month,
+      entryType: "statement",
+      amount: credit,
+      statementId: statement.id,
+      description:
+        previous.length > 0
+          ? `Commission statement ${month} (further settlement)`
+          : `Commission statement ${month}`,
+      createdBy,
+    });
+    if (netting.netPayable > 0) {
+      await tx.insert(commissionLedger).values({
+        shopperId,
+        month,
+        entryType: "payment",
+        amount: -netting.netPayable,
+        statementId: statement.id,
+        description: `Commission paid ${month}`,
+        createdBy,
+      });
+    }
+
+    return { ...netting, shopperId, month, statementId: statement.id };
+  });
+
+  logger.info("COMMISSION_LEDGER", "Commission month settled", {
+    shopperId,
+    month,
+    statementTotal: payout.statementTotal,
+    broughtForward: payout.broughtForward,
+    netPayable: payout.netPayable,
+    carriedForward: payout.carriedForward,
+  });
+
+  return payout;
+}
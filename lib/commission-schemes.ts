@@ -0,0 +1,304 @@
+/**
+ * Club 19 Sales OS - Commission Scheme Store
+ *
+ * Loads and writes the dated commission scheme versions in
+ * `commission_schemes`. The V2 engine (lib/calculations/commission.ts) is
+ * pure; this module is the only place that turns DB rows into the
+ * CommissionScheme / ShopperCommissionProfile shapes it consumes.
+ *
+ * Versioning rules:
+ * - Every version starts on the first of a month (effective_from).
+ * - effective_to is exclusive and NULL for the open version.
+ * - Versions of the same scheme_key never overlap. Creating a new version
+ *   closes the open one at the new version's start date.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { commissionSchemes, shoppers, type CommissionSchemeRecord } from "@/db/schema";
+import { and, asc, eq, isNotNull, isNull, ne } from "drizzle-orm";
+import type {
+  CommissionBand,
+  CommissionScheme,
+  ShopperCommissionProfile,
+} from "@/lib/calculations/commission";
+import type {
+  CreateCommissionSchemeInput,
+  UpdateCommissionSchemeInput,
+} from "@/lib/schemas/commission-scheme";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Scheme version plus the audit fields the management UI shows. */
+export interface CommissionSchemeDetail extends CommissionScheme {
+  notes: string | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/** "YYYY-MM" → first instant of that month (UTC). */
+export function monthToDate(month: string): Date {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, 1));
+}
+
+function toBands(raw: CommissionSchemeRecord["bands"]): CommissionBand[] {
+  return raw.map((b) => ({
+    min: b.min,
+    max: b.max === null ? Infinity : b.max,
+    rate: b.rate,
+  }));
+}
+
+function toCommissionScheme(row: CommissionSchemeRecord): CommissionSchemeDetail {
+  return {
+    id: row.id,
+    schemeKey: row.schemeKey,
+    name: row.name,
+    bands: toBands(row.bands),
+    bandMode: row.bandMode,
+    deductVatFromProfit: row.deductVatFromProfit,
+    newClientBonusRate: row.newClientBonusRate,
+    effectiveFrom: row.effectiveFrom.toISOString(),
+    effectiveTo: row.effectiveTo ? row.effectiveTo.toISOString() : null,
+    notes: row.notes,
+    createdBy: row.createdBy,
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// READS
+// ============================================================================
+
+/** Every scheme version, grouped by key and ordered oldest-first. */
+export async function listCommissionSchemes(): Promise<CommissionSchemeDetail[]> {
+  const rows = await db
+    .select()
+    .from(commissionSchemes)
+    .orderBy(asc(commissionSchemes.schemeKey), asc(commissionSchemes.effectiveFrom));
+  return rows.map(toCommissionScheme);
+}
+
+/**
+ * Commission profiles for every shopper linked to a scheme that has at least
+ * one version. Shoppers on an unknown key (e.g. the legacy "standard"
+ * default) have no commission config and are skipped, as before.
+ *
+ * @param shopperId - Optional: restrict to a single shopper
+ */
+export async function getCommissionProfiles(
+  shopperId?: string
+): Promise<ShopperCommissionProfile[]> {
+  const linkedShoppers = await db
+    .select({
+      id: shoppers.id,
+      name: shoppers.name,
+      commissionScheme: shoppers.commissionScheme,
+    })
+    .from(shoppers)
+    .where(
+      shopperId
+        ? and(eq(shoppers.id, shopperId), isNotNull(shoppers.commissionScheme))
+        : isNotNull(shoppers.commissionScheme)
+    )
+    .orderBy(asc(shoppers.name));
+
+  if (linkedShoppers.length === 0) return [];
+
+  const schemes = await listCommissionSchemes();
+  const byKey = new Map<string, CommissionScheme[]>();
+  for (const scheme of schemes) {
+    const list = byKey.get(scheme.schemeKey) ?? [];
+    list.push(scheme);
+    byKey.set(scheme.schemeKey, list);
+  }
+
+  const profiles: ShopperCommissionProfile[] = [];
+  for (const shopper of linkedShoppers) {
+    const versions = byKey.get(shopper.commissionScheme!);
+    if (!versions || versions.length === 0) continue;
+    profiles.push({
+      shopperId: shopper.id,
+      name: shopper.name || "Unknown",
+      schemes: versions,
+    });
+  }
+  return profiles;
+}
+
+/** Single shopper's profile, or null if they have no configured scheme. */
+export async function getCommissionProfile(
+  shopperId: string
+): Promise<ShopperCommissionProfile | null> {
+  const [profile] = await getCommissionProfiles(shopperId);
+  return profile ?? null;
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+function toStoredBands(bands: CreateCommissionSchemeInput["bands"]) {
+  return bands.map((b) => ({ min: b.min, max: b.max, rate: b.rate }));
+}
+
+/**
+ * Create a new version of a scheme (or the first version of a new scheme).
+ *
+ * The new version must start after every existing version of the same key.
+ * The currently open version is closed at the new start date so the two
+ * never overlap. To change a past version's bands, edit it instead.
+ */
+export async function createCommissionSchemeVersion(
+  input: CreateCommissionSchemeInput,
+  userId: string
+): Promise<CommissionSchemeDetail> {
+  const effectiveFrom = monthToDate(input.effectiveFrom);
+
+  const created = await db.transaction(async (tx) => {
+    const existing = await tx
+      .select()
+      .from(commissionSchemes)
+      .where(eq(commissionSchemes.schemeKey, input.schemeKey));
+
+    const conflict = existing.find(
+      (v) =>
+        v.effectiveFrom >= effectiveFrom ||
+        (v.effectiveTo !== null && v.effectiveTo > effectiveFrom)
+    );
+    if (conflict) {
+      throw new ValidationError(
+        `Scheme "${input.schemeKey}" already has a version in force from ${input.effectiveFrom} onwards — edit that version instead`,
+        { conflictingId: conflict.id }
+      );
+    }
+
+    await tx
+      .update(commissionSchemes)
+      .set({ effectiveTo: effectiveFrom, updatedBy: userId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(commissionSchemes.schemeKey, input.schemeKey),
+          isNull(commissionSchemes.effectiveTo)
+        )
+      );
+
+    const [row] = await tx
+      .insert(commissionSchemes)
+      .values({
+        schemeKey: input.schemeKey,
+        name: input.name,
+        bands: toStoredBands(input.bands),
+        bandMode: input.bandMode,
+        deductVatFromProfit: input.deductVatFromProfit,
+        newClientBonusRate: input.newClientBonusRate,
+        effectiveFrom,
+        notes: input.notes || null,
+        createdBy: userId,
+        updatedBy: userId,
+      })
+      .returning();
+    return row;
+  });
+
+  logger.info("COMMISSION_SCHEMES", "Scheme version created", {
+    id: created.id,
+    schemeKey: created.schemeKey,
+    effectiveFrom: input.effectiveFrom,
+    userId,
+  });
+
+  return toCommissionScheme(created);
+}
+
+/**
+ * Edit an existing scheme version in place.
+ *
+ * Editing a version that covers already-paid months changes what a
+ * recalculation of those months produces — the UI warns about this.
+ */
+export async function updateCommissionSchemeVersion(
+  id: string,
+  input: UpdateCommissionSchemeInput,
+  userId: string
+): Promise<CommissionSchemeDetail> {
+  const updated = await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(commissionSchemes)
+      .where(eq(commissionSchemes.id, id))
+      .limit(1);
+    if (!current) {
+      throw new NotFoundError("Commission scheme", { id });
+    }
+
+    let effectiveTo = current.effectiveTo;
+    if (input.effectiveTo !== undefined) {
+      effectiveTo = input.effectiveTo === null ? null : monthToDate(input.effectiveTo);
+      if (effectiveTo !== null && effectiveTo <= current.effectiveFrom) {
+        throw new ValidationError("End month must be after the start month", { id });
+      }
+
+      const siblings = await tx
+        .select()
+        .from(commissionSchemes)
+        .where(
+          and(
+            eq(commissionSchemes.schemeKey, current.schemeKey),
+            ne(commissionSchemes.id, id)
+          )
+        );
+      const overlap = siblings.find(
+        (v) =>
+          v.effectiveFrom > current.effectiveFrom &&
+          (effectiveTo === null || v.effectiveFrom < effectiveTo)
+      );
+      if (overlap) {
+        throw new ValidationError(
+          "Version would overlap a later version of the same scheme",
+          { id, conflictingId: overlap.id }
+        );
+      }
+    }
+
+    const [row] = await tx
+      .update(commissionSchemes)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.bands !== undefined && { bands: toStoredBands(input.bands) }),
+        ...(input.bandMode !== undefined && { bandMode: input.bandMode }),
+        ...(input.deductVatFromProfit !== undefined && {
+          deductVatFromProfit: input.deductVatFromProfit,
+        }),
+        ...(input.newClientBonusRate !== undefined && {
+          newClientBonusRate: input.newClientBonusRate,
+        }),
+        ...(input.notes !== undefined && { notes: input.notes || null }),
+        effectiveTo,
+        updatedBy: userId,
+        updatedAt: new Date(),
+      })
+      .where(eq(commissionSchemes.id, id))
+      .returning();
+    return row;
+  });
+
+  logger.info("COMMISSION_SCHEMES", "Scheme version updated", {
+    id,
+    fields: Object.keys(input),
+    userId,
+  });
+
+  return toCommissionScheme(updated);
+}
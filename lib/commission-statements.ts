@@ -0,0 +1,332 @@
+/**
+ * Club 19 Sales OS - Commission Statements
+ *
+ * Monthly commission runs and their frozen statements.
+ *
+ * - calculateMonthlyCommissions() is the live V2 calculation the finance
+ *   commissions page has always shown (loads the month's sales, resolves the
+ *   scheme in force, runs calculateShopperCommission).
+ * - approveCommissionStatement() freezes the live result for one shopper and
+ *   month into `commission_statements` as the next version. Statements are
+ *   insert-only: nothing in the app updates or deletes them.
+ * - getMonthlyCommissionsWithStatements() pairs each live result with its
+ *   latest approved statement and the delta between them, so a sale edited
+ *   after approval shows up as a change rather than silently rewriting what
+ *   was paid. Each result also carries the shopper's ledger position
+ *   (clawbacks brought forward, net payable) from lib/commission-ledger.ts.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import {
+  sales,
+  buyers,
+  commissionStatements,
+  commissionClawbackProposals,
+  type CommissionStatementRecord,
+} from "@/db/schema";
+import { and, asc, desc, eq, gte, lt, inArray, isNull, or, sql } from "drizzle-orm";
+import {
+  calculateShopperCommission,
+  diffCommissionResults,
+  type CommissionDelta,
+  type CommissionResult,
+  type SaleForCommission,
+} from "@/lib/calculations/commission";
+import { getCommissionProfile, getCommissionProfiles, monthToDate } from "@/lib/commission-schemes";
+import { getLedgerPositions, type CommissionLedgerPosition } from "@/lib/commission-ledger";
+import { creditRatio } from "@/lib/economics";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
+import { NotFoundError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Statement header without the (large) snapshot payload. */
+export interface CommissionStatementSummary {
+  id: string;
+  shopperId: string;
+  month: string;
+  version: number;
+  schemeId: string | null;
+  cumulativeProfit: number;
+  commissionRate: number;
+  commissionAmount: number;
+  newClientBonusAmount: number;
+  totalPayable: number;
+  notes: string | null;
+  approvedBy: string;
+  approvedAt: string;
+}
+
+export interface CommissionStatement extends CommissionStatementSummary {
+  /** CommissionResult as approved. Band `max: Infinity` was stored as null. */
+  snapshot: CommissionResult;
+}
+
+/** Live result for a shopper plus its latest approved statement, if any. */
+export interface CommissionWithStatement extends CommissionResult {
+  statement: CommissionStatementSummary | null;
+  delta: CommissionDelta | null;
+  /** Netted against the approved statement, or the live total if unapproved */
+  ledger: CommissionLedgerPosition;
+}
+
+// ============================================================================
+// LIVE CALCULATION
+// ============================================================================
+
+/**
+ * All non-deleted sales for a shopper dated within a "YYYY-MM" month.
+ * Clawed-back sales earn nothing and are left out; if their commission was
+ * already paid it is recovered through the ledger instead. Credit notes
+ * reduce a sale's profit by the share credited, except credit that raised a
+ * clawback proposal — finance settles that through the ledger.
+ */
+export async function loadSalesForCommission(
+  shopperId: string,
+  month: string
+): Promise<SaleForCommission[]> {
+  const monthStart = monthToDate(month);
+  const monthEnd = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+  // The commission maths looks up each sale's theme (margin scheme VAT)
+  await loadBrandingThemeRegistry();
+
+  const salesData = await db
+    .select({
+      id: sales.id,
+      xeroInvoiceNumber: sales.xeroInvoiceNumber,
+      saleDate: sales.saleDate,
+      saleAmountIncVat: sales.saleAmountIncVat,
+      saleAmountExVat: sales.saleAmountExVat,
+      buyPrice: sales.buyPrice,
+      brandingTheme: sales.brandingTheme,
+      introducerCommission: sales.introducerCommission,
+      cardFees: sales.cardFees,
+      entrupyFee: sales.entrupyFee,
+      shippingCost: sales.shippingCost,
+      dhlCost: sales.dhlCost,
+      addisonLeeCost: sales.addisonLeeCost,
+      taxiCost: sales.taxiCost,
+      handDeliveryCost: sales.handDeliveryCost,
+      otherLogisticsCost: sales.otherLogisticsCost,
+      deliveryConfirmed: sales.deliveryConfirmed,
+      isNewClient: sales.isNewClient,
+      marginSchemeEligible: sales.marginSchemeEligible,
+      buyerName: buyers.name,
+      xeroAmountPaid: sales.xeroAmountPaid,
+      xeroAmountDue: sales.xeroAmountDue,
+      xeroAmountCredited: sales.xeroAmountCredited,
+    })
+    .from(sales)
+    .leftJoin(buyers, eq(sales.buyerId, buyers.id))
+    .where(
+      and(
+        eq(sales.shopperId, shopperId),
+        isNull(sales.deletedAt),
+        or(isNull(sales.commissionClawback), eq(sales.commissionClawback, false)),
+        gte(sales.saleDate, monthStart),
+        lt(sales.saleDate, monthEnd)
+      )
+    )
+    .orderBy(sales.saleDate);
+
+  const credited = salesData.filter((s) => Number(s.xeroAmountCredited) > 0).map((s) => s.id);
+  const proposed = credited.length
+    ? await db
+        .select({
+          saleId: commissionClawbackProposals.saleId,
+          creditedAmount: sql<number>`sum(${commissionClawbackProposals.creditedAmount})`.mapWith(Number),
+        })
+        .from(commissionClawbackProposals)
+        .where(inArray(commissionClawbackProposals.saleId, credited))
+        .groupBy(commissionClawbackProposals.saleId)
+    : [];
+  const proposedBySale = new Map(proposed.map((p) => [p.saleId, p.creditedAmount]));
+
+  return salesData.map(({ xeroAmountPaid, xeroAmountDue, xeroAmountCredited, ...sale }) => {
+    const ratio = creditRatio(
+      { xeroAmountPaid, xeroAmountDue, xeroAmountCredited },
+      proposedBySale.get(sale.id) ?? 0
+    );
+    return ratio > 0 ? { ...sale, creditRatio: ratio } : sale;
+  });
+}
+
+/** Live V2 calculation for every shopper on a commission scheme. */
+export async function calculateMonthlyCommissions(month: string): Promise<CommissionResult[]> {
+  const profiles = await getCommissionProfiles();
+  const results: CommissionResult[] = [];
+  for (const profile of profiles) {
+    const salesToCalc = await loadSalesForCommission(profile.shopperId, month);
+    results.push(calculateShopperCommission(salesToCalc, profile, month));
+  }
+  return results;
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+function toSummary(row: CommissionStatementRecord): CommissionStatementSummary {
+  return {
+    id: row.id,
+    shopperId: row.shopperId,
+    month: row.month,
+    version: row.version,
+    schemeId: row.schemeId,
+    cumulativeProfit: row.cumulativeProfit,
+    commissionRate: row.commissionRate,
+    commissionAmount: row.commissionAmount,
+    newClientBonusAmount: row.newClientBonusAmount,
+    totalPayable: row.totalPayable,
+    notes: row.notes,
+    approvedBy: row.approvedBy,
+    approvedAt: row.approvedAt.toISOString(),
+  };
+}
+
+function toStatement(row: CommissionStatementRecord): CommissionStatement {
+  return { ...toSummary(row), snapshot: row.snapshot as CommissionResult };
+}
+
+/** Latest approved statement per shopper for a month, keyed by shopper ID. */
+export async function getLatestStatements(
+  month: string
+): Promise<Map<string, CommissionStatement>> {
+  const rows = await db
+    .select()
+    .from(commissionStatements)
+    .where(eq(commissionStatements.month, month))
+    .orderBy(asc(commissionStatements.version));
+
+  // Ascending order → later versions overwrite earlier ones
+  const latest = new Map<string, CommissionStatement>();
+  for (const row of rows) {
+    latest.set(row.shopperId, toStatement(row));
+  }
+  return latest;
+}
+
+/** A single statement version, including its snapshot. */
+export async function getCommissionStatement(id: string): Promise<CommissionStatement | null> {
+  const [row] = await db
+    .select()
+    .from(commissionStatements)
+    .where(eq(commissionStatements.id, id))
+    .limit(1);
+  return row ? toStatement(row) : null;
+}
+
+/** Every approved version for a shopper and month, newest first. */
+export async function listStatementVersions(
+  shopperId: string,
+  month: string
+): Promise<CommissionStatementSummary[]> {
+  const rows = await db
+    .select()
+    .from(commissionStatements)
+    .where(
+      and(eq(commissionStatements.shopperId, shopperId), eq(commissionStatements.month, month))
+    )
+    .orderBy(desc(commissionStatements.version));
+  return rows.map(toSummary);
+}
+
+/**
+ * Live results for a month, each paired with its latest approved statement
+ * and the delta (live − approved). `delta` is null when nothing is approved.
+ */
+export async function getMonthlyCommissionsWithStatements(
+  month: string
+): Promise<CommissionWithStatement[]> {
+  const [results, statements] = await Promise.all([
+    calculateMonthlyCommissions(month),
+    getLatestStatements(month),
+  ]);
+
+  const totals = new Map(
+    results.map((r) => [r.shopperId, statements.get(r.shopperId)?.totalPayable ?? r.totalPayable])
+  );
+  const positions = await getLedgerPositions(month, totals);
+
+  return results.map((result) => {
+    const ledger = positions.get(result.shopperId)!;
+    const statement = statements.get(result.shopperId);
+    if (!statement) {
+      return { ...result, statement: null, delta: null, ledger };
+    }
+    const { snapshot, ...summary } = statement;
+    return {
+      ...result,
+      statement: summary,
+      delta: diffCommissionResults(snapshot, result),
+      ledger,
+    };
+  });
+}
+
+/**
+ * Freeze the current live calculation for a shopper and month as the next
+ * statement version. Always recalculates server-side — the client never
+ * supplies the figures being approved.
+ */
+export async function approveCommissionStatement(
+  shopperId: string,
+  month: string,
+  approvedBy: string,
+  notes?: string
+): Promise<CommissionStatementSummary> {
+  const profile = await getCommissionProfile(shopperId);
+  if (!profile) {
+    throw new NotFoundError("Commission scheme for shopper", { shopperId });
+  }
+
+  const salesToCalc = await loadSalesForCommission(shopperId, month);
+  const result = calculateShopperCommission(salesToCalc, profile, month);
+
+  const row = await db.transaction(async (tx) => {
+    const [previous] = await tx
+      .select({ version: commissionStatements.version })
+      .from(commissionStatements)
+      .where(
+        and(eq(commissionStatements.shopperId, shopperId), eq(commissionStatements.month, month))
+      )
+      .orderBy(desc(commissionStatements.version))
+      .limit(1);
+
+    const [inserted] = await tx
+      .insert(commissionStatements)
+      .values({
+        shopperId,
+        month,
+        version: (previous?.version ?? 0) + 1,
+        schemeId: result.schemeId,
+        cumulativeProfit: result.cumulativeProfit,
+        commissionRate: result.commissionRate,
+        commissionAmount: result.commissionAmount,
+        newClientBonusAmount: result.newClientBonusAmount,
+        totalPayable: result.totalPayable,
+        // JSON round-trip so the stored snapshot is exactly what we read back
+        // (Infinity → null on the top band)
+        snapshot: JSON.parse(JSON.stringify(result)),
+        notes: notes || null,
+        approvedBy,
+      })
+      .returning();
+    return inserted;
+  });
+
+  logger.info("COMMISSION_STATEMENTS", "Statement approved", {
+    statementId: row.id,
+    shopperId,
+    month,
+    version: row.version,
+    totalPayable: row.totalPayable,
+    approvedBy,
+  });
+
+  return toSummary(row);
+}
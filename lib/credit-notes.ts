@@ -0,0 +1,287 @@
+/**
+ * Club 19 Sales OS - Xero Credit Notes
+ *
+ * Credit notes as records in `credit_notes`, one row per credit note per
+ * sale it is allocated to, rather than only the `xero_amount_credited` total
+ * on the sale.
+ *
+ * - recordInvoiceCreditNotes() takes a full invoice payload (webhook path):
+ *   its `CreditNotes` array is every credit note applied to that invoice, so
+ *   rows missing from it are zeroed.
+ * - recordCreditNote() takes a CreditNotes payload (cron path) and updates
+ *   the row for every sale it is allocated to.
+ *
+ * Whenever the credit applied to a sale goes up, the increase is passed to
+ * proposeCreditNoteClawback(), which raises a proposal for finance only if
+ * that sale's commission is already locked or paid. Recording the same
+ * payload twice changes nothing.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { creditNotes, sales, type CreditNoteRecord } from "@/db/schema";
+import { and, asc, eq, gt, notInArray } from "drizzle-orm";
+import { toBaseCurrency } from "@/lib/calculations/fx";
+import { proposeCreditNoteClawback } from "@/lib/commission-ledger";
+import { roundCurrency } from "@/lib/utils/currency";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One credit note entry on a Xero invoice payload. */
+export interface XeroInvoiceCreditNote {
+  CreditNoteID?: string;
+  CreditNoteNumber?: string;
+  Total?: number;
+  AppliedAmount?: number;
+  Date?: string;
+}
+
+/** Subset of Xero's CreditNote resource we record. */
+export interface XeroCreditNote {
+  CreditNoteID: string;
+  CreditNoteNumber?: string;
+  Type?: string;
+  Status?: string;
+  Date?: string;
+  Total?: number;
+  CurrencyCode?: string;
+  CurrencyRate?: number;
+  UpdatedDateUTC?: string;
+  Allocations?: Array<{
+    Amount?: number;
+    Date?: string;
+    Invoice?: { InvoiceID?: string; InvoiceNumber?: string };
+  }>;
+}
+
+interface SaleForCreditNotes {
+  id: string;
+  xeroInvoiceId: string | null;
+  fxRate: number | null;
+}
+
+/** A credit note's position on one sale, amounts in invoice currency. */
+interface CreditNoteOnSale {
+  xeroCreditNoteId: string;
+  creditNoteNumber: string | null;
+  status: string | null;
+  currency: string | null;
+  total: number | null;
+  applied: number;
+  date: Date | null;
+}
+
+export interface CreditNoteSyncResult {
+  /** Rows whose applied amount changed */
+  changed: number;
+  /** Clawback proposals raised */
+  proposals: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function parseXeroDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((-?\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Upsert one credit note's row for a sale and propose a clawback if more
+ * credit was applied than last time. Amounts are converted to GBP at the
+ * invoice's rate, matching `xero_amount_credited`.
+ */
+async function upsertCreditNote(
+  sale: SaleForCreditNotes,
+  note: CreditNoteOnSale
+): Promise<CreditNoteSyncResult> {
+  const appliedAmount = toBaseCurrency(note.applied, sale.fxRate);
+
+  const [existing] = await db
+    .select({ appliedAmount: creditNotes.appliedAmount })
+    .from(creditNotes)
+    .where(
+      and(
+        eq(creditNotes.xeroCreditNoteId, note.xeroCreditNoteId),
+        eq(creditNotes.saleId, sale.id)
+      )
+    )
+    .limit(1);
+  const previous = existing ? roundCurrency(existing.appliedAmount) : 0;
+
+  const fields = {
+    creditNoteNumber: note.creditNoteNumber,
+    xeroInvoiceId: sale.xeroInvoiceId,
+    ...(note.status ? { status: note.status } : {}),
+    ...(note.currency ? { currency: note.currency } : {}),
+    ...(note.total != null ? { total: toBaseCurrency(note.total, sale.fxRate) } : {}),
+    ...(note.date ? { creditNoteDate: note.date } : {}),
+    appliedAmount,
+    updatedAt: new Date(),
+  };
+  const [row] = await db
+    .insert(creditNotes)
+    .values({ xeroCreditNoteId: note.xeroCreditNoteId, saleId: sale.id, ...fields })
+    .onConflictDoUpdate({
+      target: [creditNotes.xeroCreditNoteId, creditNotes.saleId],
+      set: fields,
+    })
+    .returning();
+
+  if (existing && previous === appliedAmount) {
+    return { changed: 0, proposals: 0 };
+  }
+
+  logger.info("CREDIT_NOTES", "Credit note recorded", {
+    saleId: sale.id,
+    creditNoteNumber: note.creditNoteNumber,
+    previous,
+    appliedAmount,
+  });
+
+  const proposal =
+    appliedAmount > previous
+      ? await proposeCreditNoteClawback({
+          saleId: sale.id,
+          creditNoteId: row.id,
+          appliedAmount,
+          creditedAmount: roundCurrency(appliedAmount - previous),
+        })
+      : null;
+
+  return { changed: 1, proposals: proposal ? 1 : 0 };
+}
+
+function addResults(a: CreditNoteSyncResult, b: CreditNoteSyncResult): CreditNoteSyncResult {
+  return { changed: a.changed + b.changed, proposals: a.proposals + b.proposals };
+}
+
+// ============================================================================
+// RECORD
+// ============================================================================
+
+/**
+ * Record the credit notes on a full invoice payload against its sale. Credit
+ * notes the sale has rows for but the invoice no longer lists were voided or
+ * unallocated in Xero and drop to zero. Payloads without a `CreditNotes`
+ * array (list endpoints) are ignored.
+ */
+export async function recordInvoiceCreditNotes(
+  sale: SaleForCreditNotes,
+  invoice: { CreditNotes?: XeroInvoiceCreditNote[] }
+): Promise<CreditNoteSyncResult> {
+  if (!Array.isArray(invoice.CreditNotes)) return { changed: 0, proposals: 0 };
+
+  // A credit note allocated in several goes appears once per allocation
+  const byId = new Map<string, CreditNoteOnSale>();
+  for (const entry of invoice.CreditNotes) {
+    if (!entry.CreditNoteID) continue;
+    const current = byId.get(entry.CreditNoteID);
+    byId.set(entry.CreditNoteID, {
+      xeroCreditNoteId: entry.CreditNoteID,
+      creditNoteNumber: entry.CreditNoteNumber ?? current?.creditNoteNumber ?? null,
+      status: null,
+      currency: null,
+      total: entry.Total ?? current?.total ?? null,
+      applied: (current?.applied ?? 0) + (entry.AppliedAmount ?? 0),
+      date: current?.date ?? parseXeroDate(entry.Date),
+    });
+  }
+
+  let result: CreditNoteSyncResult = { changed: 0, proposals: 0 };
+  for (const note of byId.values()) {
+    result = addResults(result, await upsertCreditNote(sale, note));
+  }
+
+  const removed = await db
+    .update(creditNotes)
+    .set({ appliedAmount: 0, updatedAt: new Date() })
+    .where(
+      and(
+        eq(creditNotes.saleId, sale.id),
+        gt(creditNotes.appliedAmount, 0),
+        ...(byId.size > 0 ? [notInArray(creditNotes.xeroCreditNoteId, [...byId.keys()])] : [])
+      )
+    )
+    .returning({ id: creditNotes.id });
+
+  return { ...result, changed: result.changed + removed.length };
+}
+
+/**
+ * Record a credit note from Xero's CreditNotes endpoint against every sale
+ * it is allocated to. Supplier credit notes (ACCPAYCREDIT) are skipped, as
+ * are allocations to invoices the OS has no sale for.
+ */
+export async function recordCreditNote(creditNote: XeroCreditNote): Promise<CreditNoteSyncResult> {
+  if (creditNote.Type && creditNote.Type !== "ACCRECCREDIT") {
+    return { changed: 0, proposals: 0 };
+  }
+
+  const byInvoice = new Map<string, number>();
+  for (const allocation of creditNote.Allocations ?? []) {
+    const invoiceId = allocation.Invoice?.InvoiceID;
+    if (!invoiceId) continue;
+    byInvoice.set(invoiceId, (byInvoice.get(invoiceId) ?? 0) + (allocation.Amount ?? 0));
+  }
+
+  let result: CreditNoteSyncResult = { changed: 0, proposals: 0 };
+  const saleIds: string[] = [];
+  for (const [invoiceId, applied] of byInvoice) {
+    const [sale] = await db
+      .select({ id: sales.id, xeroInvoiceId: sales.xeroInvoiceId, fxRate: sales.fxRate })
+      .from(sales)
+      .where(eq(sales.xeroInvoiceId, invoiceId))
+      .limit(1);
+    if (!sale) continue;
+
+    saleIds.push(sale.id);
+    result = addResults(
+      result,
+      await upsertCreditNote(sale, {
+        xeroCreditNoteId: creditNote.CreditNoteID,
+        creditNoteNumber: creditNote.CreditNoteNumber ?? null,
+        status: creditNote.Status ?? null,
+        currency: creditNote.CurrencyCode ?? null,
+        total: creditNote.Total ?? null,
+        applied,
+        date: parseXeroDate(creditNote.Date),
+      })
+    );
+  }
+
+  // Allocations removed in Xero (e.g. before voiding the credit note)
+  const removed = await db
+    .update(creditNotes)
+    .set({ appliedAmount: 0, status: creditNote.Status ?? null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(creditNotes.xeroCreditNoteId, creditNote.CreditNoteID),
+        gt(creditNotes.appliedAmount, 0),
+        ...(saleIds.length > 0 ? [notInArray(creditNotes.saleId, saleIds)] : [])
+      )
+    )
+    .returning({ id: creditNotes.id });
+
+  return { ...result, changed: result.changed + removed.length };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/** Every credit note recorded against a sale, oldest first. */
+export async function listSaleCreditNotes(saleId: string): Promise<CreditNoteRecord[]> {
+  return db
+    .select()
+    .from(creditNotes)
+    .where(eq(creditNotes.saleId, saleId))
+    .orderBy(asc(creditNotes.creditNoteDate));
+}
@@ -0,0 +1,425 @@
+/**
+ * Club 19 Sales OS - Deal Drafts
+ *
+ * New Sale wizard drafts, stored server-side per staff member so a deal
+ * started on one device can be finished on another. A staff member can have
+ * several drafts at once; they don't expire, and are deleted when the sale
+ * is created or the draft discarded. The owner can hand a draft to a
+ * colleague, who then owns it. Managers (superadmin, founder, operations)
+ * see and can hand over everyone's drafts.
+ *
+ * The wizard state is stored as the snapshot the wizard sends; only the
+ * title and item count are derived from it here, for the drafts list.
+ * "Create similar deal" builds that snapshot from an existing sale instead
+ * (createDraftFromSale).
+ */
+
+import "server-only";
+import { clerkClient } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { dealDrafts, sales, lineItems, type DealDraftRecord } from "@/db/schema";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import type { HandOverDealDraftInput } from "@/lib/schemas/deal-draft";
+import {
+  PaymentMethod,
+  TaxRegime,
+  normalizeIntroducerFeeType,
+  type BuyerType,
+  type TradeItem,
+  type WizardState,
+} from "@/lib/types/invoice";
+import { BASE_CURRENCY, fromBaseCurrency } from "@/lib/calculations/fx";
+import { getBrandingThemeMapping } from "@/lib/branding-theme-mappings";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
+import { getInvoiceResult } from "@/lib/constants";
+import { divideCurrency } from "@/lib/utils/currency";
+import { ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DealDraftSummary {
+  id: string;
+  ownerUserId: string;
+  ownerName: string | null;
+  title: string;
+  itemCount: number;
+  handedOverBy: string | null;
+  handedOverAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DealDraftDetail extends DealDraftSummary {
+  state: Record<string, unknown>;
+}
+
+/** Who is acting on a draft, and whether they may act on other people's. */
+export interface DraftActor {
+  userId: string;
+  canManageAll: boolean;
+}
+
+export interface DraftRecipient {
+  userId: string;
+  name: string;
+}
+
+export const DRAFT_MANAGER_ROLES = ["superadmin", "founder", "operations"];
+
+function toSummary(row: DealDraftRecord): DealDraftSummary {
+  return {
+    id: row.id,
+    ownerUserId: row.ownerUserId,
+    ownerName: row.ownerName,
+    title: row.title,
+    itemCount: row.itemCount,
+    handedOverBy: row.handedOverBy,
+    handedOverAt: row.handedOverAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toDetail(row: DealDraftRecord): DealDraftDetail {
+  return { ...toSummary(row), state: row.state };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** "Client · first item (+N more)", from whatever the wizard has so far. */
+export function draftTitle(state: Record<string, unknown>): string {
+  const buyer = state.buyer as { name?: string } | null | undefined;
+  const items = Array.isArray(state.items)
+    ? (state.items as Array<{ brand?: string; description?: string }>)
+    : [];
+
+  const parts: string[] = [];
+  if (buyer?.name?.trim()) parts.push(buyer.name.trim());
+  if (items.length > 0) {
+    const first = [items[0].brand, items[0].description].filter(Boolean).join(" ").trim();
+    const more = items.length > 1 ? ` (+${items.length - 1} more)` : "";
+    if (first) parts.push(`${first}${more}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : "Untitled deal";
+}
+
+function draftItemCount(state: Record<string, unknown>): number {
+  return Array.isArray(state.items) ? state.items.length : 0;
+}
+
+async function staffName(userId: string): Promise<string | null> {
+  try {
+    const client = await clerkClient();
+    const user = await client.users.getUser(userId);
+    return user.fullName || user.emailAddresses[0]?.emailAddress || null;
+  } catch {
+    return null;
+  }
+}
+
+type SaleForClone = NonNullable<Awaited<ReturnType<typeof loadSaleForClone>>>;
+
+async function loadSaleForClone(saleId: string) {
+  return db.query.sales.findFirst({
+    where: eq(sales.id, saleId),
+    with: {
+      buyer: true,
+      supplier: true,
+      lineItems: { with: { supplier: true }, orderBy: [asc(lineItems.lineNumber)] },
+    },
+  });
+}
+
+/**
+ * Wizard items from a sale: its line items, or the sale itself for legacy
+ * single-line sales. Line sell prices are stored in GBP and go back into
+ * the sale's currency at the rate it was invoiced at; buy prices keep the
+ * supplier's currency and pick up a fresh rate in the wizard.
+ */
+function cloneItems(sale: SaleForClone, currency: string): TradeItem[] {
+  const rate = currency === BASE_CURRENCY ? null : sale.fxRate;
+  const tax = { accountCode: "", taxType: "", taxLabel: "", lineAmountTypes: "", brandTheme: "" };
+  const supplierOf = (supplier: { id: string; name: string | null } | null) => ({
+    name: supplier?.name ?? "",
+    country: "United Kingdom",
+    taxRegime: TaxRegime.UK_VAT,
+    xataId: supplier?.id,
+  });
+
+  if (sale.lineItems.length > 0) {
+    return sale.lineItems.map((line) => ({
+      id: crypto.randomUUID(),
+      brand: line.brand ?? "",
+      category: line.category ?? "",
+      description: line.description ?? "",
+      quantity: line.quantity || 1,
+      supplier: supplierOf(line.supplier ?? sale.supplier),
+      // Bought in another currency: same amount again, at today's rate
+      ...(line.buyCurrency && line.buyPriceOriginal != null
+        ? { buyPrice: line.buyPriceOriginal, buyCurrency: line.buyCurrency }
+        : { buyPrice: line.buyPrice ?? 0, buyCurrency: BASE_CURRENCY }),
+      sellPrice: fromBaseCurrency(line.sellPrice ?? 0, rate),
+      sellCurrency: currency,
+      ...tax,
+    }));
+  }
+
+  const quantity = sale.quantity || 1;
+  return [
+    {
+      id: crypto.randomUUID(),
+      brand: sale.brand ?? "",
+      category: sale.category ?? "",
+      description: sale.itemTitle ?? "",
+      quantity,
+      supplier: supplierOf(sale.supplier),
+      buyPrice: divideCurrency(sale.buyPrice ?? 0, quantity),
+      buyCurrency: BASE_CURRENCY,
+      sellPrice: fromBaseCurrency(divideCurrency(sale.saleAmountIncVat ?? 0, quantity), rate),
+      sellCurrency: currency,
+      ...tax,
+    },
+  ];
+}
+
+/**
+ * VAT & Logistics answers that lead to the sale's branding theme, and the
+ * tax scenario they give. Sales don't store the answers, so they're read
+ * back from the theme's account code with the cloned supplier in the UK:
+ * 425 a UK retail sale, 424 margin scheme, 423 an export. The shopper can
+ * change them on that step. Unknown themes leave the questions unanswered.
+ */
+function taxAnswersFromTheme(
+  brandingTheme: string | null
+): Pick<
+  WizardState,
+  "itemLocation" | "clientLocation" | "purchaseType" | "directShip" | "landedDelivery" | "taxScenario"
+> {
+  const accountCode = getBrandingThemeMapping(brandingTheme)?.accountCode;
+  const clientLocation = accountCode === "423" ? "outside" : "uk";
+  const purchaseType = accountCode === "424" ? "margin" : "retail";
+  const result =
+    accountCode === "423" || accountCode === "424" || accountCode === "425"
+      ? getInvoiceResult("uk", clientLocation, purchaseType)
+      : null;
+  if (!result) {
+    return {
+      itemLocation: null,
+      clientLocation: null,
+      purchaseType: null,
+      directShip: null,
+      landedDelivery: null,
+      taxScenario: null,
+    };
+  }
+
+  return {
+    itemLocation: "uk",
+    clientLocation,
+    purchaseType,
+    directShip: null,
+    landedDelivery: null,
+    taxScenario: {
+      accountCode: result.accountCode,
+      taxType: result.taxType,
+      taxLabel: result.taxLabel,
+      lineAmountTypes: result.amountsAre === "Inclusive" ? "Inclusive" : "Exclusive",
+      brandTheme: result.brandTheme,
+      amountsAre: result.amountsAre,
+      taxLiability: result.taxLiability,
+      vatReclaim: result.vatReclaim,
+    },
+  };
+}
+
+/**
+ * Wizard snapshot for a new deal like `sale`: same client, entity, items,
+ * suppliers, currency, payment method, delivery costs, introducer and tax
+ * treatment (taxAnswersFromTheme). Invoice-specific fields (dates, notes,
+ * supplier refs, FX rate) start fresh.
+ */
+function draftStateFromSale(sale: SaleForClone): Partial<WizardState> {
+  const today = new Date().toISOString().split("T")[0];
+  const currency = sale.currency || BASE_CURRENCY;
+  const feeType = normalizeIntroducerFeeType(sale.introducerFeeType) ?? "percent";
+  const hasIntroducer = !!sale.hasIntroducer && !!sale.introducerName;
+  const paymentMethod = Object.values(PaymentMethod).find((m) => m === sale.paymentMethod);
+  const buyerType: BuyerType | undefined =
+    sale.buyerType === "b2b" || sale.buyerType === "end_client" ? sale.buyerType : undefined;
+
+  return {
+    currentStep: 0,
+    saleDate: today,
+    entityId: sale.entityId,
+    buyer: sale.buyer?.name
+      ? {
+          name: sale.buyer.name,
+          xeroContactId: sale.buyer.xeroContactId ?? undefined,
+          buyer_type: buyerType,
+        }
+      : null,
+    isNewClient: false,
+    items: cloneItems(sale, currency),
+    currentPaymentMethod: paymentMethod ?? PaymentMethod.CARD,
+    saleCurrency: currency,
+    saleFxRate: null,
+    saleFxRateSource: null,
+    shippingCost: sale.shippingCost ?? 0,
+    entrupyFee: sale.entrupyFee ?? 0,
+    ...taxAnswersFromTheme(sale.brandingTheme),
+    hasIntroducer,
+    introducerName: hasIntroducer ? sale.introducerName ?? "" : "",
+    introducerFeeType: hasIntroducer ? feeType : "percent",
+    introducerFeePercent: hasIntroducer && feeType === "percent" ? sale.introducerFeePercent ?? 0 : 0,
+    introducerFeeFlat: hasIntroducer && feeType === "flat" ? sale.introducerCommission ?? 0 : 0,
+    dueDate: today,
+    notes: "",
+  };
+}
+
+async function loadDraft(id: string, actor: DraftActor): Promise<DealDraftRecord> {
+  const [row] = await db.select().from(dealDrafts).where(eq(dealDrafts.id, id)).limit(1);
+  if (!row) throw new NotFoundError("Draft", { id });
+  if (row.ownerUserId !== actor.userId && !actor.canManageAll) {
+    throw new ForbiddenError("This draft belongs to someone else", { id });
+  }
+  return row;
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Drafts, most recently saved first.
+ * @param ownerUserId - Only this staff member's drafts, when given
+ */
+export async function listDealDrafts(ownerUserId?: string): Promise<DealDraftSummary[]> {
+  const rows = await db
+    .select()
+    .from(dealDrafts)
+    .where(ownerUserId ? eq(dealDrafts.ownerUserId, ownerUserId) : undefined)
+    .orderBy(desc(dealDrafts.updatedAt));
+  return rows.map(toSummary);
+}
+
+export async function getDealDraft(id: string, actor: DraftActor): Promise<DealDraftDetail> {
+  return toDetail(await loadDraft(id, actor));
+}
+
+/** Active staff a draft can be handed to. */
+export async function listDraftRecipients(): Promise<DraftRecipient[]> {
+  const client = await clerkClient();
+  const users = await client.users.getUserList({ limit: 100 });
+  return users.data
+    .filter((user) => !user.banned)
+    .map((user) => ({
+      userId: user.id,
+      name:
+        `${user.firstName || ""} ${user.lastName || ""}`.trim() ||
+        user.emailAddresses[0]?.emailAddress ||
+        "Unnamed User",
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+export async function createDealDraft(
+  state: Record<string, unknown>,
+  userId: string
+): Promise<DealDraftDetail> {
+  const [row] = await db
+    .insert(dealDrafts)
+    .values({
+      ownerUserId: userId,
+      ownerName: await staffName(userId),
+      title: draftTitle(state),
+      itemCount: draftItemCount(state),
+      state,
+      createdBy: userId,
+    })
+    .returning();
+  return toDetail(row);
+}
+
+/**
+ * "Create similar deal": a new draft for `userId` prefilled from an existing
+ * sale, for repeat clients buying near-identical items.
+ */
+export async function createDraftFromSale(saleId: string, userId: string): Promise<DealDraftDetail> {
+  const sale = await loadSaleForClone(saleId);
+  if (!sale || sale.deletedAt) throw new NotFoundError("Sale", { saleId });
+  // The tax answers are read back from the sale's branding theme
+  await loadBrandingThemeRegistry();
+  return createDealDraft(draftStateFromSale(sale), userId);
+}
+
+/**
+ * Save the wizard state over a draft. Only the owner saves: once a draft is
+ * handed over, the previous owner's open wizard gets a ForbiddenError — also
+ * when the hand-over lands between the ownership check and the write.
+ */
+export async function saveDealDraft(
+  id: string,
+  state: Record<string, unknown>,
+  userId: string
+): Promise<DealDraftSummary> {
+  await loadDraft(id, { userId, canManageAll: false });
+  const [row] = await db
+    .update(dealDrafts)
+    .set({
+      title: draftTitle(state),
+      itemCount: draftItemCount(state),
+      state,
+      updatedAt: sql`now()`,
+    })
+    .where(and(eq(dealDrafts.id, id), eq(dealDrafts.ownerUserId, userId)))
+    .returning();
+  if (!row) throw new ForbiddenError("This draft belongs to someone else", { id });
+  return toSummary(row);
+}
+
+export async function deleteDealDraft(id: string, actor: DraftActor): Promise<void> {
+  await loadDraft(id, actor);
+  await db.delete(dealDrafts).where(eq(dealDrafts.id, id));
+}
+
+/**
+ * Give a draft to another staff member. They own it from now on and find it
+ * in their drafts list.
+ */
+export async function handOverDealDraft(
+  id: string,
+  input: HandOverDealDraftInput,
+  actor: DraftActor
+): Promise<DealDraftSummary> {
+  const draft = await loadDraft(id, actor);
+  if (draft.ownerUserId === input.toUserId) {
+    throw new ValidationError("The draft already belongs to them", { id });
+  }
+
+  const recipient = (await listDraftRecipients()).find((r) => r.userId === input.toUserId);
+  if (!recipient) {
+    throw new ValidationError("Unknown staff member", { toUserId: input.toUserId });
+  }
+
+  const [row] = await db
+    .update(dealDrafts)
+    .set({
+      ownerUserId: recipient.userId,
+      ownerName: recipient.name,
+      handedOverBy: (await staffName(actor.userId)) ?? actor.userId,
+      handedOverAt: sql`now()`,
+      updatedAt: sql`now()`,
+    })
+    .where(eq(dealDrafts.id, id))
+    .returning();
+  return toSummary(row);
+}
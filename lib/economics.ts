@@ -7,7 +7,8 @@
  * CRITICAL: VAT rate MUST be derived from branding theme, NOT hardcoded!
  * - Export sales (CN Export Sales) = 0% VAT
  * - UK domestic sales (CN 20% VAT) = 20% VAT
- * - Margin scheme sales (CN Margin Scheme) = 0% VAT
+ * - Margin scheme sales (CN Margin Scheme) = 0% VAT on the invoice; VAT is
+ *   due on the margin instead (lib/calculations/margin-scheme.ts)
  *
  * CRITICAL FORMULAS:
  * - Gross Margin = Sale Price (ex VAT) - Buy Price ONLY
@@ -15,6 +16,11 @@
  */
 
 import { getBrandingThemeMapping } from "@/lib/branding-theme-mappings";
+import {
+  calculateMarginSchemeVAT,
+  isMarginSchemeTheme,
+  type MarginSchemeResult,
+} from "@/lib/calculations/margin-scheme";
 import {
   roundCurrency,
   subtractCurrency,
@@ -44,6 +50,8 @@ export function getVATRateForBrandingTheme(brandingTheme: string | null | undefi
     return 0.2;
   }
 
+  // On the server the lookup raises an `errors` row for an unknown theme, and
+  // callers that store the result flag the sale (flagUnknownBrandingTheme)
   const mapping = getBrandingThemeMapping(brandingTheme);
   if (!mapping) {
     console.warn(`[ECONOMICS] Unknown branding theme "${brandingTheme}", defaulting to 20% VAT`);
@@ -93,6 +101,33 @@ export function effectiveInvoiceValue(sale: {
   return roundCurrency(toNumber(sale.saleAmountIncVat));
 }
 
+/**
+ * Share of an invoice that has been credited, 0–1.
+ *
+ *     ratio = (AmountCredited − excluded) / (AmountPaid + AmountDue + AmountCredited)
+ *
+ * A partial credit note reduces a sale's margin in this proportion (see the
+ * commission engine). `excludedCredit` is credit already dealt with another
+ * way — a clawback proposal — so it isn't taken off the margin twice.
+ *
+ * Returns 0 for rows with nothing credited or not yet re-synced.
+ */
+export function creditRatio(
+  sale: {
+    xeroAmountPaid?: string | number | null;
+    xeroAmountDue?: string | number | null;
+    xeroAmountCredited?: string | number | null;
+  },
+  excludedCredit = 0
+): number {
+  const credited = toNumber(sale.xeroAmountCredited);
+  if (credited <= 0) return 0;
+  const total = toNumber(sale.xeroAmountPaid) + toNumber(sale.xeroAmountDue) + credited;
+  const counted = credited - excludedCredit;
+  if (total <= 0 || counted <= 0) return 0;
+  return Math.min(1, counted / total);
+}
+
 /**
  * Calculate amount excluding VAT from amount including VAT
  *
@@ -182,6 +217,10 @@ export interface MarginInputs {
   cardFees?: number | string | null | undefined;
   directCosts?: number | string | null | undefined;
   introducerCommission?: number | string | null | undefined;
+  /** When a margin scheme theme, the VAT due on the margin is worked out too */
+  brandingTheme?: string | null;
+  /** Margin scheme stock eligibility recorded on the sale */
+  marginSchemeEligible?: boolean | null;
 }
 
 /**
@@ -190,6 +229,12 @@ export interface MarginInputs {
 export interface MarginResult {
   grossMargin: number;
   commissionableMargin: number;
+  /**
+   * Margin scheme VAT due (0 for other treatments). Reported, not deducted —
+   * whether it reduces commission is the shopper's scheme's decision.
+   */
+  marginSchemeVat: number;
+  marginScheme: MarginSchemeResult | null;
   breakdown: {
     saleAmountExVat: number;
     buyPrice: number;
@@ -207,6 +252,7 @@ export interface MarginResult {
  * CRITICAL FORMULAS:
  * - Gross Margin = Sale Price (ex VAT) - Buy Price ONLY
  * - Commissionable Margin = Gross Margin - Shipping - Card Fees - Direct Costs - Introducer Commission
+ * - Margin Scheme VAT = positive margin / 6 (pass brandingTheme to get it)
  *
  * This is the SINGLE SOURCE OF TRUTH for margin calculations.
  * All other code should use this function.
@@ -230,9 +276,21 @@ export function calculateMargins(inputs: MarginInputs): MarginResult {
   const totalDeductions = addCurrency(shippingCost, cardFees, directCosts, introducerCommission);
   const commissionableMargin = subtractCurrency(grossMargin, totalDeductions);
 
+  // Margin scheme: the sale price carries no VAT on the invoice, so it is the
+  // VAT-inclusive selling price the margin is measured from
+  const marginScheme = isMarginSchemeTheme(inputs.brandingTheme)
+    ? calculateMarginSchemeVAT({
+        sellingPrice: saleAmountExVat,
+        buyPrice,
+        eligible: inputs.marginSchemeEligible,
+      })
+    : null;
+
   return {
     grossMargin,
     commissionableMargin,
+    marginSchemeVat: marginScheme?.vatDue ?? 0,
+    marginScheme,
     breakdown: {
       saleAmountExVat,
       buyPrice,
@@ -278,6 +336,41 @@ export function calculateCommissionableMargin(
   return subtractCurrency(margin, totalDeductions);
 }
 
+/**
+ * Input for the introducer fee — captured on the wizard either as a % of
+ * net-before-introducer or as a flat £ amount
+ */
+export interface IntroducerFeeInputs {
+  /** "flat" uses flatAmount; anything else (incl. legacy null) uses percent */
+  feeType: "percent" | "flat" | null | undefined;
+  percent?: number | string | null | undefined;
+  flatAmount?: number | string | null | undefined;
+  /**
+   * Gross margin minus every cost deduction EXCEPT the introducer fee, so the
+   * introducer's share scales with real costs
+   */
+  netBeforeIntroducer: number | string | null | undefined;
+}
+
+/**
+ * Calculate the introducer fee in £
+ *
+ * - Flat: the captured amount, whatever the margin
+ * - Percent: percent × net-before-introducer, and nothing on a loss
+ *
+ * @param inputs - Fee basis and the net it is taken from
+ * @returns Introducer fee (never negative)
+ */
+export function calculateIntroducerFee(inputs: IntroducerFeeInputs): number {
+  if (inputs.feeType === "flat") {
+    return Math.max(0, roundCurrency(toNumber(inputs.flatAmount)));
+  }
+  const percent = toNumber(inputs.percent);
+  const net = toNumber(inputs.netBeforeIntroducer);
+  if (percent <= 0 || net <= 0) return 0;
+  return roundCurrency(net * (percent / 100));
+}
+
 /**
  * Calculate margin percentage
  *
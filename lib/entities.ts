@@ -0,0 +1,305 @@
+/**
+ * Club 19 Sales OS - Trading Entities
+ *
+ * Each legal entity the OS trades as has its own Xero organisation. A sale
+ * belongs to one entity (`sales.entity_id`, null = the default), and every
+ * Xero call for it — invoice creation, PDFs, bills, status syncs — goes to
+ * that entity's tenant. The sync crons run once per entity.
+ *
+ * - recordConnectedTenants() is called by the OAuth callback with the
+ *   organisations the user authorised and creates an entity for each new one.
+ * - resolveEntity() turns a sale's entity_id into the entity to use.
+ * - mapAccountCode() / mapBrandingTheme() translate the OS's codes (the
+ *   original organisation's chart of accounts and theme names) into an
+ *   entity's own.
+ *
+ * Tokens are stored per tenant in lib/xero-auth.ts.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { entities, sales, type EntityRecord } from "@/db/schema";
+import { asc, desc, eq, isNull, ne, or, type SQL } from "drizzle-orm";
+import { listXeroConnections, setDefaultXeroTenant } from "@/lib/xero-auth";
+import type { UpdateEntityInput } from "@/lib/schemas/entity";
+import { NotFoundError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EntityDetail {
+  id: string;
+  name: string;
+  xeroTenantId: string;
+  xeroTenantName: string | null;
+  isDefault: boolean;
+  accountMappings: Record<string, string>;
+  brandingThemeMappings: Record<string, string>;
+  purchaseAccountCode: string | null;
+  updatedAt: string;
+}
+
+/** One organisation for a sync cron to run against. */
+export interface SyncTarget {
+  entityId: string;
+  entityName: string;
+  tenantId: string;
+  isDefault: boolean;
+  /** Passed to lib/sync-state.ts — null for the default entity */
+  syncTenantId: string | null;
+}
+
+function toDetail(row: EntityRecord): EntityDetail {
+  return {
+    id: row.id,
+    name: row.name,
+    xeroTenantId: row.xeroTenantId,
+    xeroTenantName: row.xeroTenantName,
+    isDefault: row.isDefault,
+    accountMappings: row.accountMappings ?? {},
+    brandingThemeMappings: row.brandingThemeMappings ?? {},
+    purchaseAccountCode: row.purchaseAccountCode,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Every entity, default first. If none exist yet but Xero is connected (a
+ * connection made before entities), they are created from the connections.
+ */
+export async function listEntities(): Promise<EntityDetail[]> {
+  let rows = await db.select().from(entities).orderBy(asc(entities.createdAt));
+  if (rows.length === 0) {
+    const connections = await listXeroConnections();
+    if (connections.length === 0) return [];
+    await recordConnectedTenants(
+      [...connections]
+        .sort((a, b) => Number(b.isDefault) - Number(a.isDefault))
+        .map((c) => ({ tenantId: c.tenantId, tenantName: c.tenantName ?? null }))
+    );
+    rows = await db.select().from(entities).orderBy(asc(entities.createdAt));
+  }
+  return rows.map(toDetail).sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+export async function getEntity(id: string): Promise<EntityDetail> {
+  const [row] = await db.select().from(entities).where(eq(entities.id, id)).limit(1);
+  if (!row) throw new NotFoundError("Entity", { id });
+  return toDetail(row);
+}
+
+export async function getEntityByTenantId(tenantId: string): Promise<EntityDetail | null> {
+  const [row] = await db.select().from(entities).where(eq(entities.xeroTenantId, tenantId)).limit(1);
+  return row ? toDetail(row) : null;
+}
+
+/** The default entity, or null if no Xero organisation is connected. */
+export async function getDefaultEntity(): Promise<EntityDetail | null> {
+  const all = await listEntities();
+  return all.find((e) => e.isDefault) ?? all[0] ?? null;
+}
+
+/**
+ * The entity a sale belongs to: the one named, or the default for a sale
+ * with none.
+ *
+ * @throws NotFoundError if the entity doesn't exist, or there's no default
+ */
+export async function resolveEntity(entityId: string | null | undefined): Promise<EntityDetail> {
+  if (entityId) return getEntity(entityId);
+  const entity = await getDefaultEntity();
+  if (!entity) throw new NotFoundError("Default entity — connect Xero first");
+  return entity;
+}
+
+/** The entity of a sale, by sale ID. */
+export async function resolveSaleEntity(saleId: string): Promise<EntityDetail> {
+  const [sale] = await db
+    .select({ entityId: sales.entityId })
+    .from(sales)
+    .where(eq(sales.id, saleId))
+    .limit(1);
+  if (!sale) throw new NotFoundError("Sale", { saleId });
+  return resolveEntity(sale.entityId);
+}
+
+/**
+ * The entity a client or supplier trades with: that of their latest sale,
+ * or the default when they have none. Their Xero contact lives in its
+ * organisation.
+ */
+export async function resolveContactEntity(
+  party: { buyerId: string } | { supplierId: string }
+): Promise<EntityDetail> {
+  const [sale] = await db
+    .select({ entityId: sales.entityId })
+    .from(sales)
+    .where("buyerId" in party ? eq(sales.buyerId, party.buyerId) : eq(sales.supplierId, party.supplierId))
+    .orderBy(desc(sales.createdAt))
+    .limit(1);
+  return resolveEntity(sale?.entityId);
+}
+
+/**
+ * The entity whose organisation issued a Xero invoice, taken from the sale
+ * recording it (an unallocated import, for the adopt flow). The default
+ * entity when no sale has it yet.
+ */
+export async function resolveInvoiceEntity(xeroInvoiceId: string): Promise<EntityDetail> {
+  const [sale] = await db
+    .select({ entityId: sales.entityId })
+    .from(sales)
+    .where(eq(sales.xeroInvoiceId, xeroInvoiceId))
+    .limit(1);
+  return resolveEntity(sale?.entityId);
+}
+
+/** The organisations a sync cron should run against, default first. */
+export async function listSyncTargets(): Promise<SyncTarget[]> {
+  const all = await listEntities();
+  return all.map((entity) => ({
+    entityId: entity.id,
+    entityName: entity.name,
+    tenantId: entity.xeroTenantId,
+    isDefault: entity.isDefault,
+    // The default keeps the watermarks it had before there were several
+    syncTenantId: entity.isDefault ? null : entity.xeroTenantId,
+  }));
+}
+
+/**
+ * Filter for an entity's sales. The default entity also owns sales with no
+ * entity_id.
+ */
+export function saleBelongsTo(entity: { entityId: string; isDefault: boolean }): SQL | undefined {
+  return entity.isDefault
+    ? or(eq(sales.entityId, entity.entityId), isNull(sales.entityId))
+    : eq(sales.entityId, entity.entityId);
+}
+
+/**
+ * Sales filter for a dashboard's `?entity=` param. Undefined (every sale)
+ * when the param is missing or names no entity.
+ */
+export async function entitySalesFilter(entityParam: string | undefined): Promise<SQL | undefined> {
+  if (!entityParam) return undefined;
+  const [row] = await db
+    .select({ id: entities.id, isDefault: entities.isDefault })
+    .from(entities)
+    .where(eq(entities.id, entityParam))
+    .limit(1);
+  return row ? saleBelongsTo({ entityId: row.id, isDefault: row.isDefault }) : undefined;
+}
+
+// ============================================================================
+// MAPPINGS
+// ============================================================================
+
+/** The entity's account code for an OS account code; unmapped codes pass through. */
+export function mapAccountCode(entity: EntityDetail, code: string): string;
+export function mapAccountCode(entity: EntityDetail, code: string | undefined): string | undefined;
+export function mapAccountCode(entity: EntityDetail, code: string | undefined): string | undefined {
+  if (!code) return code;
+  return entity.accountMappings[code] || code;
+}
+
+/** The entity's branding theme for an OS theme name; unmapped names pass through. */
+export function mapBrandingTheme(entity: EntityDetail, theme: string): string;
+export function mapBrandingTheme(entity: EntityDetail, theme: string | undefined): string | undefined;
+export function mapBrandingTheme(entity: EntityDetail, theme: string | undefined): string | undefined {
+  if (!theme) return theme;
+  return entity.brandingThemeMappings[theme] || theme;
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Create an entity for each newly connected organisation and refresh the
+ * names of ones already known. The first entity ever created is the default,
+ * and sales from before entities existed are assigned to it.
+ */
+export async function recordConnectedTenants(
+  tenants: Array<{ tenantId: string; tenantName: string | null }>
+): Promise<EntityDetail[]> {
+  const recorded: EntityDetail[] = [];
+
+  for (const tenant of tenants) {
+    const [hasDefault] = await db
+      .select({ id: entities.id })
+      .from(entities)
+      .where(eq(entities.isDefault, true))
+      .limit(1);
+
+    const [row] = await db
+      .insert(entities)
+      .values({
+        name: tenant.tenantName || "Xero organisation",
+        xeroTenantId: tenant.tenantId,
+        xeroTenantName: tenant.tenantName,
+        isDefault: !hasDefault,
+      })
+      .onConflictDoUpdate({
+        target: entities.xeroTenantId,
+        set: { xeroTenantName: tenant.tenantName, updatedAt: new Date() },
+      })
+      .returning();
+
+    if (!hasDefault) {
+      const backfilled = await db
+        .update(sales)
+        .set({ entityId: row.id })
+        .where(isNull(sales.entityId))
+        .returning({ id: sales.id });
+      logger.info("ENTITIES", "Default entity created", {
+        entityId: row.id,
+        tenantId: tenant.tenantId,
+        salesAssigned: backfilled.length,
+      });
+    }
+    recorded.push(toDetail(row));
+  }
+
+  return recorded;
+}
+
+/**
+ * Edit an entity's name and mappings, or make it the default. The default
+ * moves in Clerk too so Xero calls with no tenant follow it.
+ */
+export async function updateEntity(
+  id: string,
+  input: UpdateEntityInput,
+  userId: string
+): Promise<EntityDetail> {
+  const current = await getEntity(id);
+
+  if (input.isDefault && !current.isDefault) {
+    await setDefaultXeroTenant(current.xeroTenantId);
+    await db.update(entities).set({ isDefault: false, updatedAt: new Date() }).where(ne(entities.id, id));
+  }
+
+  const [row] = await db
+    .update(entities)
+    .set({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.isDefault && { isDefault: true }),
+      ...(input.accountMappings !== undefined && { accountMappings: input.accountMappings }),
+      ...(input.brandingThemeMappings !== undefined && { brandingThemeMappings: input.brandingThemeMappings }),
+      ...(input.purchaseAccountCode !== undefined && { purchaseAccountCode: input.purchaseAccountCode }),
+      updatedBy: userId,
+      updatedAt: new Date(),
+    })
+    .where(eq(entities.id, id))
+    .returning();
+
+  logger.info("ENTITIES", "Entity updated", { entityId: id, fields: Object.keys(input) });
+  return toDetail(row);
+}
@@ -0,0 +1,131 @@
+/**
+ * Club 19 Sales OS - FX Rate Table
+ *
+ * The local rate table finance maintains in `fx_rates`: one rate per
+ * currency per day, in invoice-currency units per £1. The wizard defaults a
+ * foreign-currency sale to the latest rate on or before the sale date
+ * (getFxRate); the shopper can override it by hand, and the sale records
+ * which it was in `fx_rate_source`. Items bought in another currency default
+ * the same way, recorded per line item (`buy_fx_rate_source`).
+ *
+ * Conversion maths lives in lib/calculations/fx.ts.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { fxRates, type FxRateRecord } from "@/db/schema";
+import { and, desc, eq, lte, sql } from "drizzle-orm";
+import type { CreateFxRateInput } from "@/lib/schemas/fx-rate";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { BASE_CURRENCY } from "@/lib/calculations/fx";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FxRateDetail {
+  id: string;
+  currency: string;
+  /** YYYY-MM-DD */
+  rateDate: string;
+  rate: number;
+  source: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+function toDetail(row: FxRateRecord): FxRateDetail {
+  return {
+    id: row.id,
+    currency: row.currency,
+    rateDate: row.rateDate.toISOString().slice(0, 10),
+    rate: row.rate,
+    source: row.source,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/** Parse YYYY-MM-DD as midnight UTC — rates are stored per calendar day. */
+function parseRateDate(date: string): Date {
+  const parsed = new Date(`${date}T00:00:00.000Z`);
+  if (isNaN(parsed.getTime())) {
+    throw new ValidationError("Date must be YYYY-MM-DD", { date });
+  }
+  return parsed;
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Rates in the table, newest first.
+ * @param currency - Only this currency, when given
+ */
+export async function listFxRates(currency?: string, limit = 200): Promise<FxRateDetail[]> {
+  const rows = await db
+    .select()
+    .from(fxRates)
+    .where(currency ? eq(fxRates.currency, currency) : undefined)
+    .orderBy(desc(fxRates.rateDate), fxRates.currency)
+    .limit(limit);
+  return rows.map(toDetail);
+}
+
+/**
+ * The rate to use for a sale in `currency` dated `date`: the latest rate on
+ * or before that day. Null when the table has nothing for the currency yet.
+ *
+ * @param date - YYYY-MM-DD
+ */
+export async function getFxRate(currency: string, date: string): Promise<FxRateDetail | null> {
+  if (currency === BASE_CURRENCY) return null;
+  const [row] = await db
+    .select()
+    .from(fxRates)
+    .where(and(eq(fxRates.currency, currency), lte(fxRates.rateDate, parseRateDate(date))))
+    .orderBy(desc(fxRates.rateDate))
+    .limit(1);
+  return row ? toDetail(row) : null;
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Add a rate, replacing any existing rate for the same currency and day.
+ */
+export async function upsertFxRate(input: CreateFxRateInput, userId: string): Promise<FxRateDetail> {
+  if (input.currency === BASE_CURRENCY) {
+    throw new ValidationError("GBP is the base currency and has no rate");
+  }
+  const [row] = await db
+    .insert(fxRates)
+    .values({
+      currency: input.currency,
+      rateDate: parseRateDate(input.rateDate),
+      rate: input.rate,
+      source: input.source ?? null,
+      createdBy: userId,
+    })
+    .onConflictDoUpdate({
+      target: [fxRates.currency, fxRates.rateDate],
+      set: {
+        rate: input.rate,
+        source: input.source ?? null,
+        createdBy: userId,
+        createdAt: sql`now()`,
+      },
+    })
+    .returning();
+  return toDetail(row);
+}
+
+export async function deleteFxRate(id: string): Promise<void> {
+  const deleted = await db.delete(fxRates).where(eq(fxRates.id, id)).returning({ id: fxRates.id });
+  if (deleted.length === 0) {
+    throw new NotFoundError("FX rate", { id });
+  }
+}
@@ -193,6 +193,10 @@ function syntheticLineItemFromSale(sale: SaleWithRelations): LineItemWithSupplie
     lineMargin: null,
     supplierInvoiceRef: null,
     datePurchased: null,
+    buyCurrency: null,
+    buyPriceOriginal: null,
+    buyFxRate: null,
+    buyFxRateSource: null,
     source: sale.source ?? "atelier",
     createdAt: sale.createdAt,
     updatedAt: sale.updatedAt,
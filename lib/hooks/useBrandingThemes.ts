@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  listBrandingThemeMappings,
+  setBrandingThemeRegistry,
+  type BrandingThemeMapping,
+} from "@/lib/branding-theme-mappings";
+
+// Shared by every component on the page — the registry is loaded once.
+let registryLoad: Promise<void> | null = null;
+
+function loadRegistry(): Promise<void> {
+  registryLoad ??= fetch("/api/branding-themes")
+    .then(async (res) => {
+      if (!res.ok) throw new Error(`Failed to load branding themes: ${res.status}`);
+      const data: { themes: BrandingThemeMapping[] } = await res.json();
+      setBrandingThemeRegistry(data.themes);
+    })
+    .catch((err) => {
+      // Keep the built-in themes and allow a retry on the next mount
+      console.error("[BRANDING_THEMES]", err);
+      registryLoad = null;
+    });
+  return registryLoad;
+}
+
+/**
+ * The configured branding themes from `branding_themes`. Also installs them
+ * in the client-side registry, so calculateSaleEconomics() and
+ * getBrandingThemeMapping() resolve themes added since the last deploy.
+ * Re-renders the caller once loaded.
+ */
+export function useBrandingThemes(): BrandingThemeMapping[] {
+  const [themes, setThemes] = useState(listBrandingThemeMappings);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRegistry().then(() => {
+      if (!cancelled) setThemes(listBrandingThemeMappings());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return themes;
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DEFAULT_IMPLIED_COST_RULES, type ImpliedCostRules } from "@/lib/implied-costs";
+
+// Shared by every wizard step — the rules are loaded once per page.
+let rulesLoad: Promise<ImpliedCostRules | null> | null = null;
+
+function loadRules(): Promise<ImpliedCostRules | null> {
+  rulesLoad ??= fetch("/api/implied-cost-rules")
+    .then(async (res) => {
+      if (!res.ok) throw new Error(`Failed to load implied cost rules: ${res.status}`);
+      const data: { rules: ImpliedCostRules } = await res.json();
+      return data.rules;
+    })
+    .catch((err) => {
+      // Keep the built-in defaults and allow a retry on the next mount
+      console.error("[IMPLIED_COSTS]", err);
+      rulesLoad = null;
+      return null;
+    });
+  return rulesLoad;
+}
+
+/**
+ * The implied cost rules finance maintains in `implied_cost_rules`. The
+ * built-in defaults until they load (or if loading fails).
+ */
+export function useImpliedCostRules(): ImpliedCostRules {
+  const [rules, setRules] = useState(DEFAULT_IMPLIED_COST_RULES);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRules().then((loaded) => {
+      if (loaded && !cancelled) setRules(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return rules;
+}
@@ -0,0 +1,218 @@
+/**
+ * Club 19 Sales OS - Implied Cost Rules
+ *
+ * The rules finance maintains in `implied_cost_rules`: which shipping region
+ * each country is in, the average cost of each route, the card fee rate per
+ * payment method and default Entrupy fees. The wizard costs new deals with
+ * them (getImpliedCostRules) and records the route on the sale, so the
+ * calibration report can set each route's rule against the DHL, Addison Lee
+ * and other logistics costs entered once the sale is delivered.
+ *
+ * The maths lives in lib/implied-costs.ts.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { impliedCostRules, sales, type ImpliedCostRuleRecord } from "@/db/schema";
+import { and, asc, eq, gt, gte, isNotNull, isNull, sql } from "drizzle-orm";
+import {
+  DEFAULT_IMPLIED_COST_RULES,
+  summariseEntrupyCalibration,
+  summariseShippingCalibration,
+  type EntrupyCalibrationRow,
+  type ImpliedCostRules,
+  type ShippingCalibrationRow,
+} from "@/lib/implied-costs";
+import type { ImpliedCostRuleInput, ImpliedCostRuleType } from "@/lib/schemas/implied-cost-rule";
+import type { PaymentMethod } from "@/lib/types/invoice";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ImpliedCostRuleDetail {
+  id: string;
+  ruleType: ImpliedCostRuleType;
+  key: string;
+  region: string | null;
+  amount: number | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface ImpliedCostReport {
+  /** YYYY-MM-DD — sales dated on or after */
+  since: string;
+  shipping: ShippingCalibrationRow[];
+  /** Sales costed on a route with no logistics costs entered yet */
+  awaitingCosts: number;
+  entrupy: EntrupyCalibrationRow[];
+}
+
+function toDetail(row: ImpliedCostRuleRecord): ImpliedCostRuleDetail {
+  return {
+    id: row.id,
+    ruleType: row.ruleType as ImpliedCostRuleType,
+    key: row.key,
+    region: row.region,
+    amount: row.amount,
+    updatedBy: row.updatedBy,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * The table as ImpliedCostRules. Each rule type with no rows keeps the
+ * built-in defaults, so an empty table costs deals as before.
+ */
+function rulesFromRows(rows: ImpliedCostRuleRecord[]): ImpliedCostRules {
+  const ofType = (type: ImpliedCostRuleType) => rows.filter((row) => row.ruleType === type);
+  const rules: ImpliedCostRules = { ...DEFAULT_IMPLIED_COST_RULES };
+
+  const regions = ofType("region").filter((row) => row.region);
+  if (regions.length > 0) {
+    rules.regions = Object.fromEntries(regions.map((row) => [row.key, row.region!]));
+  }
+
+  const routes = ofType("route").filter((row) => row.amount !== null);
+  const namedRoutes = routes.filter((row) => row.key !== "DEFAULT");
+  if (namedRoutes.length > 0) {
+    rules.routes = Object.fromEntries(namedRoutes.map((row) => [row.key, row.amount!]));
+  }
+  const fallback = routes.find((row) => row.key === "DEFAULT");
+  if (fallback) rules.defaultShipping = fallback.amount!;
+
+  const cardFees = ofType("card_fee").filter((row) => row.amount !== null);
+  if (cardFees.length > 0) {
+    rules.cardFeePercent = Object.fromEntries(
+      cardFees.map((row) => [row.key as PaymentMethod, row.amount!])
+    );
+  }
+
+  const entrupy = ofType("entrupy").filter((row) => row.amount !== null);
+  rules.entrupyFees = Object.fromEntries(
+    entrupy.filter((row) => row.key !== "default").map((row) => [row.key, row.amount!])
+  );
+  rules.defaultEntrupyFee =
+    entrupy.find((row) => row.key === "default")?.amount ?? DEFAULT_IMPLIED_COST_RULES.defaultEntrupyFee;
+
+  return rules;
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/** Every rule in the table, by type then key. */
+export async function listImpliedCostRules(): Promise<ImpliedCostRuleDetail[]> {
+  const rows = await db
+    .select()
+    .from(impliedCostRules)
+    .orderBy(asc(impliedCostRules.ruleType), asc(impliedCostRules.key));
+  return rows.map(toDetail);
+}
+
+/** The rules new deals are costed with. */
+export async function getImpliedCostRules(): Promise<ImpliedCostRules> {
+  return rulesFromRows(await db.select().from(impliedCostRules));
+}
+
+/**
+ * Implied against actual costs for sales dated on or after `since`: per
+ * shipping route, the current rule next to the average logistics cost
+ * recorded; per category, the default Entrupy fee next to the average paid.
+ *
+ * @param since - YYYY-MM-DD
+ */
+export async function buildImpliedCostReport(since: string): Promise<ImpliedCostReport> {
+  const sinceDate = new Date(`${since}T00:00:00.000Z`);
+  if (isNaN(sinceDate.getTime())) {
+    throw new ValidationError("Date must be YYYY-MM-DD", { since });
+  }
+
+  const actualShipping = sql<number>`coalesce(${sales.dhlCost}, 0) + coalesce(${sales.addisonLeeCost}, 0)
+    + coalesce(${sales.taxiCost}, 0) + coalesce(${sales.handDeliveryCost}, 0)
+    + coalesce(${sales.otherLogisticsCost}, 0)`;
+  const inPeriod = and(isNull(sales.deletedAt), gte(sales.saleDate, sinceDate));
+
+  const [rules, routed, entrupy] = await Promise.all([
+    getImpliedCostRules(),
+    db
+      .select({
+        route: sales.impliedShippingRoute,
+        estimatedShipping: sales.shippingCost,
+        actualShipping,
+      })
+      .from(sales)
+      .where(and(inPeriod, isNotNull(sales.impliedShippingRoute))),
+    db
+      .select({
+        category: sales.category,
+        quantity: sales.quantity,
+        entrupyFee: sales.entrupyFee,
+      })
+      .from(sales)
+      .where(and(inPeriod, gt(sales.entrupyFee, 0))),
+  ]);
+
+  const samples = routed.map((row) => ({
+    route: row.route!,
+    estimatedShipping: row.estimatedShipping,
+    actualShipping: Number(row.actualShipping),
+  }));
+
+  return {
+    since,
+    shipping: summariseShippingCalibration(samples, rules),
+    awaitingCosts: samples.filter((sample) => !(sample.actualShipping > 0)).length,
+    entrupy: summariseEntrupyCalibration(
+      entrupy.map((row) => ({
+        category: row.category ?? "",
+        quantity: row.quantity ?? 1,
+        entrupyFee: row.entrupyFee ?? 0,
+      })),
+      rules
+    ),
+  };
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Add a rule, replacing any existing rule of the same type and key.
+ */
+export async function upsertImpliedCostRule(
+  input: ImpliedCostRuleInput,
+  userId: string
+): Promise<ImpliedCostRuleDetail> {
+  const region = input.ruleType === "region" ? input.region : null;
+  const amount = input.ruleType === "region" ? null : input.amount;
+  const [row] = await db
+    .insert(impliedCostRules)
+    .values({
+      ruleType: input.ruleType,
+      key: input.key,
+      region,
+      amount,
+      updatedBy: userId,
+    })
+    .onConflictDoUpdate({
+      target: [impliedCostRules.ruleType, impliedCostRules.key],
+      set: { region, amount, updatedBy: userId, updatedAt: sql`now()` },
+    })
+    .returning();
+  return toDetail(row);
+}
+
+export async function deleteImpliedCostRule(id: string): Promise<void> {
+  const deleted = await db
+    .delete(impliedCostRules)
+    .where(eq(impliedCostRules.id, id))
+    .returning({ id: impliedCostRules.id });
+  if (deleted.length === 0) {
+    throw new NotFoundError("Implied cost rule", { id });
+  }
+}
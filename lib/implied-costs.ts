@@ -1,74 +1,146 @@
 import { TradeItem, PaymentMethod } from "@/lib/types/invoice";
 
 /**
- * Map a country string to a shipping region
+ * Implied cost rules
+ *
+ * Finance maintains these in `implied_cost_rules` (/staff/finance/implied-costs);
+ * lib/implied-cost-rules.ts loads them. The defaults below are the averages
+ * the wizard shipped with and are used for any rule type the table has no
+ * rows for.
  */
-function mapCountryToRegion(
-  country: string,
-): "UK" | "EU" | "US" | "Asia" | "Other" {
-  const normalized = country.toLowerCase();
-
-  if (normalized === "uk" || normalized === "united kingdom") {
-    return "UK";
-  }
+export interface ImpliedCostRules {
+  /** Lower-case country name → shipping region */
+  regions: Record<string, string>;
+  /** "<supplier region>_<delivery region>" → average shipping cost in GBP */
+  routes: Record<string, number>;
+  /** Shipping cost for routes with no rule, and countries in no region */
+  defaultShipping: number;
+  /** Card processing fee by payment method, as a fraction (0.024 = 2.4%) */
+  cardFeePercent: Partial<Record<PaymentMethod, number>>;
+  /** Entrupy authentication fee per unit in GBP, by lower-case item category */
+  entrupyFees: Record<string, number>;
+  /** Entrupy fee per unit for categories with no rule */
+  defaultEntrupyFee: number;
+}
 
-  if (
-    ["france", "italy", "switzerland", "germany", "spain"].includes(normalized)
-  ) {
-    return "EU";
-  }
+/** Countries in no region ship at the default cost. */
+export const OTHER_REGION = "Other";
 
-  if (["usa", "united states", "us"].includes(normalized)) {
-    return "US";
-  }
+const EU_COUNTRIES = [
+  "france", "italy", "switzerland", "germany", "spain", "monaco", "netherlands",
+  "belgium", "austria", "portugal", "ireland", "luxembourg", "denmark", "sweden",
+  "greece",
+];
 
-  if (["japan", "hong kong", "singapore", "uae"].includes(normalized)) {
-    return "Asia";
-  }
+export const DEFAULT_IMPLIED_COST_RULES: ImpliedCostRules = {
+  regions: {
+    uk: "UK",
+    "united kingdom": "UK",
+    ...Object.fromEntries(EU_COUNTRIES.map((country) => [country, "EU"])),
+    usa: "US",
+    "united states": "US",
+    us: "US",
+    japan: "Asia",
+    "hong kong": "Asia",
+    singapore: "Asia",
+    uae: "Asia",
+  },
+  routes: {
+    UK_UK: 40,
+    EU_UK: 140,
+    Asia_UK: 180,
+    US_UK: 160,
+    UK_EU: 150,
+    EU_EU: 100,
+    Asia_EU: 200,
+    US_EU: 180,
+    UK_US: 170,
+    EU_US: 190,
+    Asia_US: 150,
+    US_US: 80,
+    UK_Asia: 180,
+    EU_Asia: 200,
+    Asia_Asia: 120,
+    US_Asia: 150,
+  },
+  defaultShipping: 130,
+  cardFeePercent: {
+    [PaymentMethod.CARD]: 0.024, // 2.4%
+    [PaymentMethod.BANK_TRANSFER]: 0,
+  },
+  entrupyFees: {},
+  defaultEntrupyFee: 0,
+};
 
-  return "Other";
+/**
+ * Map a country string to a shipping region
+ */
+export function mapCountryToRegion(
+  country: string,
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
+): string {
+  return rules.regions[country.trim().toLowerCase()] ?? OTHER_REGION;
 }
 
 /**
- * Shipping cost averages (in GBP) by supplier region → delivery region
+ * Shipping route from supplier country to delivery country, and its cost
  */
-const SHIPPING_COSTS_GBP: Record<string, number> = {
-  UK_UK: 40,
-  EU_UK: 140,
-  Asia_UK: 180,
-  US_UK: 160,
-  UK_EU: 150,
-  EU_EU: 100,
-  Asia_EU: 200,
-  US_EU: 180,
-  UK_US: 170,
-  EU_US: 190,
-  Asia_US: 150,
-  US_US: 80,
-  UK_Asia: 180,
-  EU_Asia: 200,
-  Asia_Asia: 120,
-  US_Asia: 150,
-  DEFAULT: 130,
-};
+export function getShippingRoute(
+  supplierCountry: string,
+  deliveryCountry: string,
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
+): { route: string; cost: number } {
+  const supplierRegion = mapCountryToRegion(supplierCountry, rules);
+  const deliveryRegion = mapCountryToRegion(deliveryCountry, rules);
+
+  const route = `${supplierRegion}_${deliveryRegion}`;
+  return { route, cost: rules.routes[route] ?? rules.defaultShipping };
+}
 
 /**
- * Card fee configuration
+ * The route a trade ships on: the dearest across its items, since a
+ * multi-item trade is costed as one shipment. Null with no items.
  */
-const CARD_FEE_PERCENT = 0.024; // 2.4%
+export function getTradeShippingRoute(
+  items: TradeItem[],
+  deliveryCountry: string,
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
+): { route: string; cost: number } | null {
+  let dearest: { route: string; cost: number } | null = null;
+  for (const item of items) {
+    const route = getShippingRoute(item.supplier.country, deliveryCountry, rules);
+    if (!dearest || route.cost > dearest.cost) dearest = route;
+  }
+  return dearest;
+}
 
 /**
- * Derive shipping route key from supplier country and delivery country
+ * Card fee rate for a payment method (0 when it has none)
  */
-function getShippingCost(
-  supplierCountry: string,
-  deliveryCountry: string,
+export function getCardFeePercent(
+  paymentMethod: PaymentMethod | null,
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
 ): number {
-  const supplierRegion = mapCountryToRegion(supplierCountry);
-  const deliveryRegion = mapCountryToRegion(deliveryCountry);
+  if (!paymentMethod) return 0;
+  return rules.cardFeePercent[paymentMethod] ?? 0;
+}
 
-  const routeKey = `${supplierRegion}_${deliveryRegion}`;
-  return SHIPPING_COSTS_GBP[routeKey] || SHIPPING_COSTS_GBP.DEFAULT;
+/**
+ * Default Entrupy fee for a trade: the per-unit fee for each item's
+ * category, times its quantity
+ */
+export function getDefaultEntrupyFee(
+  items: TradeItem[],
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
+): number {
+  let total = 0;
+  for (const item of items) {
+    const fee =
+      rules.entrupyFees[item.category.trim().toLowerCase()] ??
+      rules.defaultEntrupyFee;
+    total += fee * item.quantity;
+  }
+  return parseFloat(total.toFixed(2));
 }
 
 /**
@@ -80,27 +152,26 @@ export function calculateImpliedCosts(params: {
   items: TradeItem[];
   paymentMethod: PaymentMethod;
   deliveryCountry: string;
+  rules?: ImpliedCostRules;
 }): {
   shipping: number;
   cardFees: number;
   total: number;
 } {
-  const { items, paymentMethod, deliveryCountry } = params;
+  const {
+    items,
+    paymentMethod,
+    deliveryCountry,
+    rules = DEFAULT_IMPLIED_COST_RULES,
+  } = params;
 
   // Calculate shipping: use the maximum shipping cost across all items
-  let maxShipping = 0;
-  for (const item of items) {
-    const shippingCost = getShippingCost(
-      item.supplier.country,
-      deliveryCountry,
-    );
-    maxShipping = Math.max(maxShipping, shippingCost);
-  }
+  const shipping = getTradeShippingRoute(items, deliveryCountry, rules)?.cost ?? 0;
 
-  // Calculate card fees if payment method is CARD
+  // Card fees on the GBP sell amounts (v2 is GBP-only)
   let cardFees = 0;
-  if (paymentMethod === PaymentMethod.CARD) {
-    // Sum GBP sell amounts (v2 is GBP-only)
+  const cardFeePercent = getCardFeePercent(paymentMethod, rules);
+  if (cardFeePercent > 0) {
     let totalSellGBP = 0;
     for (const item of items) {
       totalSellGBP += item.sellPrice * item.quantity;
@@ -108,13 +179,124 @@ export function calculateImpliedCosts(params: {
 
     // Apply card fee formula
     if (totalSellGBP > 0) {
-      cardFees = totalSellGBP * CARD_FEE_PERCENT;
+      cardFees = totalSellGBP * cardFeePercent;
     }
   }
 
   return {
-    shipping: maxShipping,
+    shipping,
     cardFees: parseFloat(cardFees.toFixed(2)),
-    total: parseFloat((maxShipping + cardFees).toFixed(2)),
+    total: parseFloat((shipping + cardFees).toFixed(2)),
   };
 }
+
+// ============================================================================
+// CALIBRATION
+// ============================================================================
+
+/** A sale's implied route next to what its logistics actually cost. */
+export interface ShippingCostSample {
+  /** Route recorded when the sale was created */
+  route: string;
+  /** Shipping the shopper estimated in the wizard, GBP */
+  estimatedShipping: number | null;
+  /** DHL + Addison Lee + taxi + hand delivery + other, GBP */
+  actualShipping: number;
+}
+
+export interface ShippingCalibrationRow {
+  route: string;
+  sales: number;
+  /** The route's cost under the current rules */
+  impliedCost: number;
+  /** Average shopper estimate, over sales that had one */
+  averageEstimate: number | null;
+  averageActual: number;
+  /** averageActual − impliedCost: positive when the rule is too low */
+  variance: number;
+}
+
+/**
+ * Compare each route's implied cost with the logistics costs recorded on
+ * sales that shipped on it, busiest routes first. Samples with no actual
+ * cost recorded yet are left out.
+ */
+export function summariseShippingCalibration(
+  samples: ShippingCostSample[],
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
+): ShippingCalibrationRow[] {
+  const groups = new Map<string, ShippingCostSample[]>();
+  for (const sample of samples) {
+    if (!(sample.actualShipping > 0)) continue;
+    const group = groups.get(sample.route) ?? [];
+    group.push(sample);
+    groups.set(sample.route, group);
+  }
+
+  const average = (values: number[]): number =>
+    parseFloat((values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(2));
+
+  return Array.from(groups.entries())
+    .map(([route, group]) => {
+      const impliedCost = rules.routes[route] ?? rules.defaultShipping;
+      const estimates = group
+        .map((s) => s.estimatedShipping)
+        .filter((v): v is number => v !== null && v > 0);
+      const averageActual = average(group.map((s) => s.actualShipping));
+      return {
+        route,
+        sales: group.length,
+        impliedCost,
+        averageEstimate: estimates.length > 0 ? average(estimates) : null,
+        averageActual,
+        variance: parseFloat((averageActual - impliedCost).toFixed(2)),
+      };
+    })
+    .sort((a, b) => b.sales - a.sales || a.route.localeCompare(b.route));
+}
+
+/** A sale with an Entrupy fee recorded. */
+export interface EntrupyFeeSample {
+  category: string;
+  quantity: number;
+  entrupyFee: number;
+}
+
+export interface EntrupyCalibrationRow {
+  /** Lower-case item category */
+  category: string;
+  sales: number;
+  /** Per-unit fee under the current rules */
+  defaultFee: number;
+  /** Average recorded fee per unit */
+  averageFee: number;
+}
+
+/**
+ * Compare each category's default Entrupy fee with the fees recorded on
+ * sales, most sales first. Sales without a fee are left out.
+ */
+export function summariseEntrupyCalibration(
+  samples: EntrupyFeeSample[],
+  rules: ImpliedCostRules = DEFAULT_IMPLIED_COST_RULES,
+): EntrupyCalibrationRow[] {
+  const groups = new Map<string, { sales: number; units: number; fees: number }>();
+  for (const sample of samples) {
+    if (!(sample.entrupyFee > 0)) continue;
+    const category = sample.category.trim().toLowerCase() || "uncategorised";
+    const group = groups.get(category) ?? { sales: 0, units: 0, fees: 0 };
+    group.sales += 1;
+    group.units += Math.max(sample.quantity, 1);
+    group.fees += sample.entrupyFee;
+    groups.set(category, group);
+  }
+
+  return Array.from(groups.entries())
+    .map(([category, group]) => ({
+      category,
+      sales: group.sales,
+      defaultFee: rules.entrupyFees[category] ?? rules.defaultEntrupyFee,
+      averageFee: parseFloat((group.fees / group.units).toFixed(2)),
+    }))
+    .sort((a, b) => b.sales - a.sales || a.category.localeCompare(b.category));
+}
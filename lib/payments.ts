@@ -0,0 +1,275 @@
+/**
+ * Club 19 Sales OS - Xero Payments
+ *
+ * Individual customer payments in `payments`, so a sale shows when each
+ * deposit or instalment arrived, into which bank account and with what
+ * reference — not just the `xero_amount_paid` total.
+ *
+ * - recordXeroPayment() takes a payment from Xero's Payments endpoint (the
+ *   sync-payments cron): the full record, including the bank account.
+ * - recordInvoicePayments() takes a full invoice payload (webhook path). Its
+ *   `Payments` array carries date, amount, rate and reference only, so it
+ *   never overwrites the bank account; payments missing from it were
+ *   deleted in Xero.
+ *
+ * Either way the sale's payment plan is re-allocated afterwards
+ * (lib/calculations/payments.ts): each payment is linked to the instalment
+ * it settles and settled instalments are marked paid. Instalments are only
+ * ever marked paid automatically — never un-marked — so an instalment
+ * finance marked paid by hand is left alone.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { payments, paymentSchedule, sales, type PaymentRecord } from "@/db/schema";
+import { and, asc, eq, ne, notInArray } from "drizzle-orm";
+import { toBaseCurrency } from "@/lib/calculations/fx";
+import { allocatePaymentsToInstalments } from "@/lib/calculations/payments";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Subset of Xero's Payment resource we record. */
+export interface XeroPayment {
+  PaymentID: string;
+  Date?: string;
+  Amount?: number;
+  CurrencyRate?: number;
+  BankAmount?: number;
+  PaymentType?: string;
+  Status?: string;
+  Reference?: string;
+  IsReconciled?: boolean;
+  UpdatedDateUTC?: string;
+  Account?: { AccountID?: string; Code?: string; Name?: string };
+  Invoice?: { InvoiceID?: string; InvoiceNumber?: string; CurrencyCode?: string };
+}
+
+/** One entry of a Xero invoice payload's `Payments` array. */
+export interface XeroInvoicePayment {
+  PaymentID?: string;
+  Date?: string;
+  Amount?: number;
+  CurrencyRate?: number;
+  Reference?: string;
+}
+
+interface SaleForPayments {
+  id: string;
+  fxRate: number | null;
+  currency: string | null;
+}
+
+export interface PaymentSyncResult {
+  recorded: number;
+  /** Instalments newly marked paid */
+  instalmentsPaid: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function parseXeroDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((-?\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * The sale a payment belongs to: the sale on that invoice, or the sale whose
+ * payment plan has an instalment invoiced separately on it.
+ */
+async function findSaleForInvoice(
+  xeroInvoiceId: string
+): Promise<SaleForPayments | null> {
+  const saleColumns = { id: sales.id, fxRate: sales.fxRate, currency: sales.currency };
+
+  const [sale] = await db
+    .select(saleColumns)
+    .from(sales)
+    .where(eq(sales.xeroInvoiceId, xeroInvoiceId))
+    .limit(1);
+  if (sale) return sale;
+
+  const [viaInstalment] = await db
+    .select(saleColumns)
+    .from(paymentSchedule)
+    .innerJoin(sales, eq(paymentSchedule.saleId, sales.id))
+    .where(eq(paymentSchedule.xeroInvoiceId, xeroInvoiceId))
+    .limit(1);
+  return viaInstalment ?? null;
+}
+
+/**
+ * Re-run the payment → instalment allocation for a sale, link each payment
+ * to its instalment and mark newly settled instalments paid. Returns how
+ * many instalments were marked paid.
+ */
+export async function settleInstalments(saleId: string): Promise<number> {
+  const [instalments, salePayments] = await Promise.all([
+    db.select().from(paymentSchedule).where(eq(paymentSchedule.saleId, saleId)),
+    db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.saleId, saleId), ne(payments.status, "DELETED"))),
+  ]);
+  if (instalments.length === 0) return 0;
+
+  const [sale] = await db
+    .select({ fxRate: sales.fxRate })
+    .from(sales)
+    .where(eq(sales.id, saleId))
+    .limit(1);
+
+  const allocation = allocatePaymentsToInstalments(
+    instalments,
+    salePayments.map((p) => ({
+      id: p.id,
+      xeroInvoiceId: p.xeroInvoiceId,
+      amount: toBaseCurrency(p.amount, sale?.fxRate),
+      paymentDate: p.paymentDate,
+    }))
+  );
+
+  for (const payment of salePayments) {
+    const instalmentId = allocation.payments.get(payment.id) ?? null;
+    if (payment.paymentScheduleId !== instalmentId) {
+      await db
+        .update(payments)
+        .set({ paymentScheduleId: instalmentId, updatedAt: new Date() })
+        .where(eq(payments.id, payment.id));
+    }
+  }
+
+  let marked = 0;
+  for (const instalment of instalments) {
+    const state = allocation.instalments.get(instalment.id);
+    if (!state?.paid || instalment.status === "paid") continue;
+    await db
+      .update(paymentSchedule)
+      .set({ status: "paid", paidDate: instalment.paidDate ?? state.paidDate ?? new Date() })
+      .where(eq(paymentSchedule.id, instalment.id));
+    marked++;
+    logger.info("PAYMENTS", "Instalment marked paid", {
+      saleId,
+      instalmentId: instalment.id,
+      instalmentNumber: instalment.instalmentNumber,
+      paidAmount: state.paidAmount,
+    });
+  }
+  return marked;
+}
+
+// ============================================================================
+// RECORD
+// ============================================================================
+
+/**
+ * Record a payment from Xero's Payments endpoint. Supplier payments and
+ * payments on invoices the OS has no sale for are skipped.
+ */
+export async function recordXeroPayment(
+  payment: XeroPayment
+): Promise<PaymentSyncResult> {
+  const invoiceId = payment.Invoice?.InvoiceID;
+  if (!invoiceId || (payment.PaymentType && payment.PaymentType !== "ACCRECPAYMENT")) {
+    return { recorded: 0, instalmentsPaid: 0 };
+  }
+
+  const sale = await findSaleForInvoice(invoiceId);
+  if (!sale) return { recorded: 0, instalmentsPaid: 0 };
+
+  const amount = payment.Amount ?? 0;
+  const fields = {
+    saleId: sale.id,
+    xeroInvoiceId: invoiceId,
+    paymentDate: parseXeroDate(payment.Date),
+    amount,
+    currency: payment.Invoice?.CurrencyCode ?? sale.currency,
+    currencyRate: payment.CurrencyRate ?? null,
+    amountGbp: toBaseCurrency(amount, payment.CurrencyRate ?? sale.fxRate),
+    status: payment.Status ?? "AUTHORISED",
+    paymentType: payment.PaymentType ?? null,
+    reference: payment.Reference || null,
+    bankAccountId: payment.Account?.AccountID ?? null,
+    bankAccountCode: payment.Account?.Code ?? null,
+    bankAccountName: payment.Account?.Name ?? null,
+    isReconciled: payment.IsReconciled ?? null,
+    xeroUpdatedAt: parseXeroDate(payment.UpdatedDateUTC),
+    updatedAt: new Date(),
+  };
+
+  await db
+    .insert(payments)
+    .values({ xeroPaymentId: payment.PaymentID, ...fields })
+    .onConflictDoUpdate({ target: payments.xeroPaymentId, set: fields });
+
+  return { recorded: 1, instalmentsPaid: await settleInstalments(sale.id) };
+}
+
+/**
+ * Record the payments on a full invoice payload against its sale. Payments
+ * the invoice no longer lists are marked DELETED. Payloads without a
+ * `Payments` array (list endpoints) are ignored.
+ */
+export async function recordInvoicePayments(
+  sale: SaleForPayments,
+  invoice: { InvoiceID: string; CurrencyCode?: string; Payments?: XeroInvoicePayment[] }
+): Promise<PaymentSyncResult> {
+  if (!Array.isArray(invoice.Payments)) return { recorded: 0, instalmentsPaid: 0 };
+
+  const seen: string[] = [];
+  for (const payment of invoice.Payments) {
+    if (!payment.PaymentID) continue;
+    seen.push(payment.PaymentID);
+
+    const amount = payment.Amount ?? 0;
+    const fields = {
+      saleId: sale.id,
+      xeroInvoiceId: invoice.InvoiceID,
+      paymentDate: parseXeroDate(payment.Date),
+      amount,
+      currency: invoice.CurrencyCode ?? sale.currency,
+      currencyRate: payment.CurrencyRate ?? null,
+      amountGbp: toBaseCurrency(amount, payment.CurrencyRate ?? sale.fxRate),
+      status: "AUTHORISED",
+      ...(payment.Reference ? { reference: payment.Reference } : {}),
+      updatedAt: new Date(),
+    };
+    await db
+      .insert(payments)
+      .values({ xeroPaymentId: payment.PaymentID, paymentType: "ACCRECPAYMENT", ...fields })
+      .onConflictDoUpdate({ target: payments.xeroPaymentId, set: fields });
+  }
+
+  await db
+    .update(payments)
+    .set({ status: "DELETED", updatedAt: new Date() })
+    .where(
+      and(
+        eq(payments.xeroInvoiceId, invoice.InvoiceID),
+        ne(payments.status, "DELETED"),
+        ...(seen.length > 0 ? [notInArray(payments.xeroPaymentId, seen)] : [])
+      )
+    );
+
+  return { recorded: seen.length, instalmentsPaid: await settleInstalments(sale.id) };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/** Every payment recorded against a sale, oldest first (deleted included). */
+export async function listSalePayments(saleId: string): Promise<PaymentRecord[]> {
+  return db
+    .select()
+    .from(payments)
+    .where(eq(payments.saleId, saleId))
+    .orderBy(asc(payments.paymentDate));
+}
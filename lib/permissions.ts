@@ -90,6 +90,10 @@ export const ROUTE_PERMISSIONS: Record<string, {
     allowedRoles: ["superadmin", "founder", "operations", "shopper"],
     description: "New Sale creation wizard",
   },
+  "/quotes": {
+    allowedRoles: ["superadmin", "founder", "operations", "shopper"],
+    description: "Quotes raised from the New Sale wizard",
+  },
   "/xero-health": {
     allowedRoles: ["superadmin", "founder", "operations", "admin"],
     description: "Xero integration health dashboard",
@@ -135,6 +139,10 @@ export const ROUTE_PERMISSIONS: Record<string, {
     allowedRoles: ["superadmin", "admin"],
     description: "Error tracking and resolution",
   },
+  "/staff/admin/webhooks": {
+    allowedRoles: ["superadmin", "admin"],
+    description: "Xero webhook event queue and replay",
+  },
   "/staff/finance/dashboard": {
     allowedRoles: ["superadmin", "finance"],
     description: "Finance staff dashboard",
@@ -147,6 +155,18 @@ export const ROUTE_PERMISSIONS: Record<string, {
     allowedRoles: ["superadmin", "finance"],
     description: "Overdue payments tracking",
   },
+  "/staff/finance/vat-return": {
+    allowedRoles: ["superadmin", "finance"],
+    description: "Quarterly VAT return preparation",
+  },
+  "/staff/finance/fx-rates": {
+    allowedRoles: ["superadmin", "finance"],
+    description: "FX rate table for foreign-currency sales",
+  },
+  "/staff/finance/implied-costs": {
+    allowedRoles: ["superadmin", "finance"],
+    description: "Implied cost rules and calibration against actual costs",
+  },
   "/staff/superadmin/tools": {
     allowedRoles: ["superadmin"],
     description: "Superadmin system tools",
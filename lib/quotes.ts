@@ -0,0 +1,497 @@
+/**
+ * Club 19 Sales OS - Quotes
+ *
+ * A quote is a deal offered to the client before it's committed. The New
+ * Sale wizard saves the same invoice payload it would post to
+ * /api/xero/invoices, and a Xero quote is raised from it in the entity's
+ * organisation, with the deal's branding theme, for the PDF the client
+ * receives.
+ *
+ * Accepting a quote posts its stored payload through /api/xero/invoices, so
+ * the sale and invoice carry the quoted prices, FX rate and margins rather
+ * than anything recalculated since. The route claims the quote (open →
+ * accepting) before posting, so two accepts can't both invoice it. A quote
+ * left accepting by an accept that died can be accepted again once the
+ * claim is stale: the invoice is posted under the same idempotency key, so
+ * Xero hands back the invoice if the first post got through. An open
+ * quote can be accepted until the end of its expiry date; after that it
+ * counts as expired.
+ *
+ * Shoppers see and act on their own quotes; managers (superadmin, founder,
+ * operations) on everyone's.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { quotes, sales, shoppers, type QuoteRecord } from "@/db/schema";
+import { and, desc, eq, gte, lt, lte, or, type SQL } from "drizzle-orm";
+import { withXeroClient, type XeroClient } from "@/lib/xero-client";
+import { getBrandingThemeId } from "@/lib/xero-branding-themes";
+import { resolveBrandingThemeForPayment } from "@/lib/branding-theme-mappings";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
+import { mapAccountCode, mapBrandingTheme, resolveEntity, type EntityDetail } from "@/lib/entities";
+import { getOrCreateShopperByName } from "@/lib/xata-sales";
+import { roundCurrency } from "@/lib/utils/currency";
+import type { DateRange } from "@/lib/dateUtils";
+import { QuotePayloadSchema, type CreateQuoteInput, type QuotePayload } from "@/lib/schemas/quote";
+import type { CreateInvoicePayload } from "@/lib/types/invoice";
+import {
+  quoteOutcome,
+  summariseQuoteConversion,
+  type QuoteConversionRow,
+  type QuoteOutcome,
+} from "@/lib/calculations/quotes";
+import { ExternalServiceError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QuoteSummary {
+  id: string;
+  xeroQuoteId: string;
+  xeroQuoteNumber: string | null;
+  entityId: string | null;
+  shopperId: string | null;
+  shopperName: string | null;
+  buyerName: string | null;
+  currency: string;
+  total: number;
+  saleAmountGbp: number | null;
+  grossMarginGbp: number | null;
+  commissionableMarginGbp: number | null;
+  /** YYYY-MM-DD */
+  expiryDate: string;
+  outcome: QuoteOutcome;
+  /** The sale created on acceptance, once it's been saved */
+  saleId: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+/** Who is acting on a quote, and whether they may act on other people's. */
+export interface QuoteActor {
+  userId: string;
+  canManageAll: boolean;
+}
+
+/** Subset of Xero's Quote resource we read back. */
+interface XeroQuote {
+  QuoteID: string;
+  QuoteNumber?: string;
+  Status?: string;
+  Total?: number;
+  Contact?: { ContactID: string; Name?: string };
+}
+
+export const QUOTE_MANAGER_ROLES = ["superadmin", "founder", "operations"];
+
+/** Held while the quote's invoice is being posted to Xero. */
+const ACCEPTING_STATUS = "accepting";
+
+/**
+ * An accepting claim older than this was left by an accept that died before
+ * the quote was marked accepted; accepting again takes it over.
+ */
+const STALE_ACCEPTING_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function integrationUserId(): string {
+  const userId = process.env.XERO_INTEGRATION_CLERK_USER_ID;
+  if (!userId) {
+    throw new ExternalServiceError("Xero", "XERO_INTEGRATION_CLERK_USER_ID not configured");
+  }
+  return userId;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+type QuoteRow = QuoteRecord & { shopperName: string | null; saleId: string | null };
+
+function toSummary(row: QuoteRow, asOf = today()): QuoteSummary {
+  const expiryDate = toDateString(row.expiryDate);
+  return {
+    id: row.id,
+    xeroQuoteId: row.xeroQuoteId,
+    xeroQuoteNumber: row.xeroQuoteNumber,
+    entityId: row.entityId,
+    shopperId: row.shopperId,
+    shopperName: row.shopperName,
+    buyerName: row.buyerName,
+    currency: row.currency,
+    total: row.total,
+    saleAmountGbp: row.saleAmountGbp,
+    grossMarginGbp: row.grossMarginGbp,
+    commissionableMarginGbp: row.commissionableMarginGbp,
+    expiryDate,
+    outcome: quoteOutcome({ status: row.status, expiryDate }, asOf),
+    saleId: row.saleId,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function selectQuotes(where?: SQL) {
+  return db
+    .select({ quote: quotes, shopperName: shoppers.name, saleId: sales.id })
+    .from(quotes)
+    .leftJoin(shoppers, eq(quotes.shopperId, shoppers.id))
+    .leftJoin(sales, eq(sales.xeroInvoiceId, quotes.xeroInvoiceId))
+    .where(where)
+    .orderBy(desc(quotes.createdAt));
+}
+
+async function loadQuote(id: string, actor: QuoteActor): Promise<QuoteRow> {
+  const [row] = await selectQuotes(eq(quotes.id, id)).limit(1);
+  if (!row) throw new NotFoundError("Quote", { id });
+  if (row.quote.createdBy !== actor.userId && !actor.canManageAll) {
+    throw new ForbiddenError("This quote belongs to someone else", { id });
+  }
+  return { ...row.quote, shopperName: row.shopperName, saleId: row.saleId };
+}
+
+function staleAcceptingBefore(): Date {
+  return new Date(Date.now() - STALE_ACCEPTING_MS);
+}
+
+function assertOpen(row: QuoteRow): void {
+  if (row.status === ACCEPTING_STATUS) {
+    // A stale claim is finished by accepting again, even past expiry: the
+    // client accepted while the quote was open
+    if (row.updatedAt < staleAcceptingBefore()) return;
+    throw new ValidationError("This quote is already being accepted", { id: row.id });
+  }
+  const outcome = quoteOutcome({ status: row.status, expiryDate: toDateString(row.expiryDate) }, today());
+  if (outcome === "expired") {
+    throw new ValidationError(`This quote expired on ${toDateString(row.expiryDate)}`, { id: row.id });
+  }
+  if (outcome !== "open") {
+    throw new ValidationError(`This quote has already been ${outcome}`, { id: row.id });
+  }
+}
+
+/**
+ * The deal's branding theme as a GUID in the entity's organisation, swapped
+ * to the No-Link variant for bank transfers — as /api/xero/invoices does.
+ */
+async function resolveQuoteTheme(
+  entity: EntityDetail,
+  theme: string | undefined,
+  paymentMethod: string | undefined
+): Promise<string | undefined> {
+  const requested = mapBrandingTheme(entity, theme);
+  if (!requested) return undefined;
+
+  let themeId: string | undefined = requested;
+  if (!requested.includes("-")) {
+    try {
+      themeId = await getBrandingThemeId(integrationUserId(), requested, entity.xeroTenantId);
+    } catch (error) {
+      logger.warn("QUOTES", "Failed to resolve branding theme, will omit", {
+        theme: requested,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+      themeId = undefined;
+    }
+  }
+  if (!themeId) return undefined;
+
+  await loadBrandingThemeRegistry();
+  return resolveBrandingThemeForPayment(themeId, paymentMethod)?.id ?? themeId;
+}
+
+function toXeroQuote(
+  payload: QuotePayload,
+  fields: { accountCode: string; brandingThemeId: string | undefined; expiryDate: string }
+) {
+  return {
+    Contact: { ContactID: payload.buyerContactId },
+    Date: today(),
+    ExpiryDate: fields.expiryDate,
+    Status: "SENT",
+    LineAmountTypes: payload.lineAmountType,
+    LineItems: payload.lineItems.map((item) => ({
+      Description: item.description,
+      Quantity: item.quantity,
+      UnitAmount: roundCurrency(item.sellPrice),
+      AccountCode: fields.accountCode,
+      TaxType: payload.taxType,
+    })),
+    CurrencyCode: payload.currency,
+    ...(payload.currencyRate && { CurrencyRate: payload.currencyRate }),
+    ...(fields.brandingThemeId && { BrandingThemeID: fields.brandingThemeId }),
+  };
+}
+
+/**
+ * Move the Xero quote along (ACCEPTED, INVOICED, DECLINED). Xero wants the
+ * contact and date on every update. Failures are logged, not thrown: the
+ * OS's own status is what counts.
+ */
+async function setXeroQuoteStatus(row: QuoteRecord, statuses: string[]): Promise<void> {
+  try {
+    const entity = await resolveEntity(row.entityId);
+    await withXeroClient(
+      integrationUserId(),
+      async (client: XeroClient) => {
+        for (const status of statuses) {
+          await client.post(`Quotes/${row.xeroQuoteId}`, {
+            Quotes: [
+              {
+                QuoteID: row.xeroQuoteId,
+                Contact: { ContactID: row.xeroContactId },
+                Date: toDateString(row.createdAt),
+                Status: status,
+              },
+            ],
+          });
+        }
+      },
+      { tenantId: entity.xeroTenantId }
+    );
+  } catch (error) {
+    logger.warn("QUOTES", "Could not update quote status in Xero (non-fatal)", {
+      quoteId: row.id,
+      statuses,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Quotes, newest first.
+ * @param createdBy - Only this staff member's quotes, when given
+ */
+export async function listQuotes(createdBy?: string): Promise<QuoteSummary[]> {
+  const rows = await selectQuotes(createdBy ? eq(quotes.createdBy, createdBy) : undefined);
+  const asOf = today();
+  return rows.map((row) => toSummary({ ...row.quote, shopperName: row.shopperName, saleId: row.saleId }, asOf));
+}
+
+export async function getQuote(id: string, actor: QuoteActor): Promise<QuoteSummary> {
+  return toSummary(await loadQuote(id, actor));
+}
+
+/**
+ * The invoice payload to post when the client accepts. Throws a
+ * ValidationError unless the quote is still open.
+ */
+export async function quotedInvoicePayload(
+  id: string,
+  actor: QuoteActor
+): Promise<CreateInvoicePayload> {
+  const row = await loadQuote(id, actor);
+  assertOpen(row);
+  const parsed = QuotePayloadSchema.safeParse(row.payload);
+  if (!parsed.success) {
+    throw new ValidationError("This quote can't be invoiced — re-quote the deal", {
+      id,
+      issues: parsed.error.issues.map((issue) => issue.message),
+    });
+  }
+  return { ...parsed.data, entityId: row.entityId ?? undefined };
+}
+
+/** The branded quote PDF, from Xero. */
+export async function getQuotePdf(
+  id: string,
+  actor: QuoteActor
+): Promise<{ pdf: ArrayBuffer; filename: string }> {
+  const row = await loadQuote(id, actor);
+  const entity = await resolveEntity(row.entityId);
+  const pdf = await withXeroClient(
+    integrationUserId(),
+    (client) => client.getBinary(`Quotes/${row.xeroQuoteId}`, "application/pdf"),
+    { tenantId: entity.xeroTenantId }
+  );
+  return { pdf, filename: `Club19-${row.xeroQuoteNumber || row.id}.pdf` };
+}
+
+/**
+ * Quote counts and conversion rate per shopper for quotes raised in `range`
+ * (all time when null), optionally for one shopper only.
+ */
+export async function getQuoteConversion(
+  range: DateRange | null,
+  shopperId?: string
+): Promise<QuoteConversionRow[]> {
+  const rows = await db
+    .select({
+      status: quotes.status,
+      expiryDate: quotes.expiryDate,
+      shopperId: quotes.shopperId,
+      shopperName: shoppers.name,
+    })
+    .from(quotes)
+    .leftJoin(shoppers, eq(quotes.shopperId, shoppers.id))
+    .where(
+      and(
+        range ? and(gte(quotes.createdAt, range.start), lte(quotes.createdAt, range.end)) : undefined,
+        shopperId ? eq(quotes.shopperId, shopperId) : undefined
+      )
+    );
+
+  return summariseQuoteConversion(
+    rows.map((row) => ({ ...row, expiryDate: toDateString(row.expiryDate) })),
+    today()
+  );
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Raise the quote in Xero and save it.
+ *
+ * @param shopperName - The quoting staff member's name, to attribute the
+ *   quote to their shopper record
+ */
+export async function createQuote(
+  input: CreateQuoteInput,
+  userId: string,
+  shopperName: string
+): Promise<QuoteSummary> {
+  const { payload, expiryDate } = input;
+  if (expiryDate < today()) {
+    throw new ValidationError("The expiry date can't be in the past", { expiryDate });
+  }
+
+  const entity = await resolveEntity(payload.entityId);
+  const accountCode = mapAccountCode(entity, payload.accountCode);
+  const brandingThemeId = await resolveQuoteTheme(entity, payload.brandingThemeId, payload.paymentMethod);
+
+  const response = await withXeroClient(
+    integrationUserId(),
+    (client) =>
+      client.post<{ Quotes?: XeroQuote[] }>("Quotes", {
+        Quotes: [toXeroQuote(payload, { accountCode, brandingThemeId, expiryDate })],
+      }),
+    { tenantId: entity.xeroTenantId }
+  );
+  const xeroQuote = response.Quotes?.[0];
+  if (!xeroQuote?.QuoteID) {
+    throw new ExternalServiceError("Xero", "Quote not returned");
+  }
+
+  const shopper = await getOrCreateShopperByName(shopperName, userId);
+  const [row] = await db
+    .insert(quotes)
+    .values({
+      xeroQuoteId: xeroQuote.QuoteID,
+      xeroQuoteNumber: xeroQuote.QuoteNumber ?? null,
+      entityId: entity.id,
+      shopperId: shopper.id,
+      xeroContactId: payload.buyerContactId,
+      buyerName: xeroQuote.Contact?.Name ?? null,
+      currency: payload.currency,
+      total: xeroQuote.Total ?? 0,
+      saleAmountGbp: payload.totalSellPrice ?? null,
+      grossMarginGbp: payload.grossMargin ?? null,
+      commissionableMarginGbp: payload.commissionableMargin ?? null,
+      expiryDate: new Date(`${expiryDate}T00:00:00Z`),
+      payload,
+      createdBy: userId,
+    })
+    .returning();
+
+  logger.info("QUOTES", "Quote raised in Xero", {
+    quoteId: row.id,
+    xeroQuoteNumber: row.xeroQuoteNumber,
+    entity: entity.name,
+    expiryDate,
+  });
+
+  return toSummary({ ...row, shopperName: shopper.name, saleId: null });
+}
+
+/**
+ * Claim an open quote for invoicing: open → accepting, in one update, so a
+ * second accept fails here instead of posting another invoice. A stale
+ * accepting claim is taken over the same way. Release the claim if the
+ * invoice isn't created.
+ *
+ * @throws ValidationError if the quote is no longer open
+ */
+export async function claimQuote(id: string): Promise<void> {
+  const [row] = await db
+    .update(quotes)
+    .set({ status: ACCEPTING_STATUS, updatedAt: new Date() })
+    .where(
+      and(
+        eq(quotes.id, id),
+        or(
+          eq(quotes.status, "open"),
+          and(eq(quotes.status, ACCEPTING_STATUS), lt(quotes.updatedAt, staleAcceptingBefore()))
+        )
+      )
+    )
+    .returning({ id: quotes.id });
+  if (!row) {
+    throw new ValidationError("This quote is already being accepted", { id });
+  }
+}
+
+/** Put a claimed quote back to open, after its invoice failed. */
+export async function releaseQuote(id: string): Promise<void> {
+  await db
+    .update(quotes)
+    .set({ status: "open", updatedAt: new Date() })
+    .where(and(eq(quotes.id, id), eq(quotes.status, ACCEPTING_STATUS)));
+}
+
+/**
+ * Record that the claimed quote was accepted and invoiced. Called by
+ * /api/xero/invoices once the invoice exists.
+ */
+export async function markQuoteAccepted(
+  id: string,
+  xeroInvoiceId: string,
+  userId: string
+): Promise<void> {
+  const [row] = await db
+    .update(quotes)
+    .set({
+      status: "accepted",
+      xeroInvoiceId,
+      acceptedBy: userId,
+      acceptedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(quotes.id, id), eq(quotes.status, ACCEPTING_STATUS)))
+    .returning();
+  if (!row) return;
+
+  await setXeroQuoteStatus(row, ["ACCEPTED", "INVOICED"]);
+}
+
+export async function declineQuote(id: string, actor: QuoteActor): Promise<QuoteSummary> {
+  const current = await loadQuote(id, actor);
+  assertOpen(current);
+
+  const [row] = await db
+    .update(quotes)
+    .set({ status: "declined", declinedBy: actor.userId, declinedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(quotes.id, id), eq(quotes.status, "open")))
+    .returning();
+  if (!row) {
+    throw new ValidationError("This quote is already being accepted", { id });
+  }
+
+  await setXeroQuoteStatus(row, ["DECLINED"]);
+  return toSummary({ ...row, shopperName: current.shopperName, saleId: null });
+}
@@ -43,7 +43,7 @@ export const ROLE_CONFIG: Record<UserRole, RoleConfig> = {
   admin: {
     allowedRoutes: [
       '/staff', '/staff/admin/dashboard', '/staff/admin/sales',
-      '/staff/admin/analytics', '/staff/admin/errors',
+      '/staff/admin/analytics', '/staff/admin/errors', '/staff/admin/webhooks',
       '/staff/shopper/dashboard', '/staff/shopper/sales',
     ],
     homepage: getHomepageForRole('admin'),
@@ -53,6 +53,8 @@ export const ROLE_CONFIG: Record<UserRole, RoleConfig> = {
     allowedRoutes: [
       '/staff', '/staff/finance/dashboard',
       '/staff/finance/commissions', '/staff/finance/overdue',
+      '/staff/finance/vat-return', '/staff/finance/fx-rates',
+      '/staff/finance/implied-costs',
     ],
     readOnlyRoutes: ['/staff/admin/sales'],
     homepage: getHomepageForRole('finance'),
@@ -70,8 +72,9 @@ export const ROLE_CONFIG: Record<UserRole, RoleConfig> = {
     allowedRoutes: [
       '/staff', '/staff/shopper/dashboard', '/staff/shopper/sales',
       '/staff/admin/dashboard', '/staff/admin/sales', '/staff/admin/analytics',
-      '/staff/admin/errors', '/staff/finance/dashboard', '/staff/finance/commissions',
-      '/staff/finance/overdue', '/staff/superadmin/tools', '/shoppers',
+      '/staff/admin/errors', '/staff/admin/webhooks', '/staff/finance/dashboard', '/staff/finance/commissions',
+      '/staff/finance/overdue', '/staff/finance/vat-return', '/staff/finance/fx-rates', '/staff/finance/implied-costs',
+      '/staff/superadmin/tools', '/shoppers',
       '/dashboard', '/sales', '/clients', '/suppliers', '/invoices',
       '/finance', '/legacy', '/trade',
     ],
@@ -161,6 +164,7 @@ export function getNavigationItems(role: UserRole): NavItem[] {
         { label: 'All Sales', href: '/staff/admin/sales' },
         { label: 'Analytics', href: '/staff/admin/analytics' },
         { label: 'Errors', href: '/staff/admin/errors' },
+        { label: 'Webhooks', href: '/staff/admin/webhooks' },
       ],
     });
   }
@@ -175,6 +179,9 @@ export function getNavigationItems(role: UserRole): NavItem[] {
         { label: 'Dashboard', href: '/staff/finance/dashboard' },
         { label: 'Commissions', href: '/staff/finance/commissions' },
         { label: 'Overdue', href: '/staff/finance/overdue' },
+        { label: 'VAT Return', href: '/staff/finance/vat-return' },
+        { label: 'FX Rates', href: '/staff/finance/fx-rates' },
+        { label: 'Implied Costs', href: '/staff/finance/implied-costs' },
       ],
     });
   }
@@ -0,0 +1,209 @@
+/**
+ * Club 19 Sales OS - Provisional Per-Sale Commission
+ *
+ * `sales.commission_amount` used to be written by commission engine V1
+ * (commission bands × margin), which never matched what the V2 monthly
+ * engine pays. It now holds a *provisional* V2 figure: the sale's share of
+ * its month's commission (saleCommissionShare), calculated as if every sale
+ * in the month were delivered. The delivery gate is applied when the month
+ * is approved, and the approved statement — not this column — is what pays.
+ *
+ * The figure moves as the month's total crosses bands, so whenever a sale is
+ * created, adopted or allocated every unlocked sale in its shopper-month is
+ * refreshed. Locked and paid sales keep the figure they were locked at: a
+ * clawback falls back to it when no statement covers the sale. V2 pays introducers their fee out of the margin before
+ * commission, so the V1 split columns record the whole figure as the
+ * shopper's.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { sales, shoppers } from "@/db/schema";
+import { and, asc, eq, inArray, isNotNull, isNull, or } from "drizzle-orm";
+import {
+  calculateShopperCommission,
+  saleCommissionShare,
+  type SaleForCommission,
+} from "@/lib/calculations/commission";
+import { getCommissionProfile, getCommissionProfiles } from "@/lib/commission-schemes";
+import { loadSalesForCommission } from "@/lib/commission-statements";
+import { roundCurrency, subtractCurrency } from "@/lib/utils/currency";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CommissionReconciliationRow {
+  saleId: string;
+  saleReference: string | null;
+  invoiceNumber: string | null;
+  shopperName: string | null;
+  month: string;
+  storedAmount: number | null;
+  v2Amount: number;
+  /** v2Amount − storedAmount (null stored counts as 0) */
+  difference: number;
+  note: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function monthOf(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function asDelivered(monthSales: SaleForCommission[]): SaleForCommission[] {
+  return monthSales.map((s) => ({ ...s, deliveryConfirmed: true }));
+}
+
+function provisionalColumns(commissionAmount: number) {
+  return {
+    commissionAmount,
+    commissionSplitShopper: commissionAmount,
+    commissionSplitIntroducer: 0,
+    introducerSharePercent: 0,
+  };
+}
+
+// ============================================================================
+// PROVISIONAL COMMISSION
+// ============================================================================
+
+/**
+ * Recalculate and store the provisional commission of every unlocked sale in
+ * this sale's shopper-month, since a band crossing changes each one's share.
+ * Returns this sale's amount — as stored, if it is locked or paid.
+ */
+export async function storeProvisionalCommission(saleId: string): Promise<number> {
+  const [sale] = await db
+    .select({
+      shopperId: sales.shopperId,
+      saleDate: sales.saleDate,
+      commissionAmount: sales.commissionAmount,
+    })
+    .from(sales)
+    .where(eq(sales.id, saleId))
+    .limit(1);
+
+  const amounts = new Map<string, number>([[saleId, 0]]);
+  if (sale?.shopperId && sale.saleDate) {
+    const month = monthOf(sale.saleDate);
+    const [profile, monthSales] = await Promise.all([
+      getCommissionProfile(sale.shopperId),
+      loadSalesForCommission(sale.shopperId, month),
+    ]);
+    const result = profile ? calculateShopperCommission(asDelivered(monthSales), profile, month) : null;
+    for (const monthSale of monthSales) {
+      amounts.set(monthSale.id, result ? (saleCommissionShare(result, monthSale.id) ?? 0) : 0);
+    }
+  }
+
+  const locked = await db
+    .select({ id: sales.id })
+    .from(sales)
+    .where(
+      and(
+        inArray(sales.id, [...amounts.keys()]),
+        or(
+          eq(sales.commissionLocked, true),
+          eq(sales.commissionPaid, true),
+          inArray(sales.status, ["locked", "commission_paid"])
+        )
+      )
+    );
+  for (const { id } of locked) amounts.delete(id);
+
+  await db.transaction(async (tx) => {
+    for (const [id, commissionAmount] of amounts) {
+      await tx.update(sales).set(provisionalColumns(commissionAmount)).where(eq(sales.id, id));
+    }
+  });
+
+  const commissionAmount = amounts.get(saleId) ?? roundCurrency(sale?.commissionAmount ?? 0);
+  logger.info("SALE_COMMISSION", "Provisional commission stored", {
+    saleId,
+    commissionAmount,
+    monthSales: amounts.size,
+  });
+  return commissionAmount;
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Every non-deleted, allocated sale whose stored commission_amount differs
+ * from its provisional V2 figure. Read-only.
+ */
+export async function reconcileStoredCommissions(): Promise<{
+  checked: number;
+  mismatches: CommissionReconciliationRow[];
+}> {
+  const rows = await db
+    .select({
+      id: sales.id,
+      saleReference: sales.saleReference,
+      xeroInvoiceNumber: sales.xeroInvoiceNumber,
+      shopperId: sales.shopperId,
+      shopperName: shoppers.name,
+      saleDate: sales.saleDate,
+      commissionAmount: sales.commissionAmount,
+      commissionClawback: sales.commissionClawback,
+    })
+    .from(sales)
+    .leftJoin(shoppers, eq(sales.shopperId, shoppers.id))
+    .where(and(isNull(sales.deletedAt), isNotNull(sales.shopperId), isNotNull(sales.saleDate)))
+    .orderBy(asc(sales.saleDate));
+
+  const profiles = new Map((await getCommissionProfiles()).map((p) => [p.shopperId, p]));
+
+  // One V2 run per shopper-month
+  const groups = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = `${row.shopperId}|${monthOf(row.saleDate!)}`;
+    const list = groups.get(key) ?? [];
+    list.push(row);
+    groups.set(key, list);
+  }
+
+  const mismatches: CommissionReconciliationRow[] = [];
+  for (const [key, groupRows] of groups) {
+    const [shopperId, month] = key.split("|");
+    const profile = profiles.get(shopperId);
+    const result = profile
+      ? calculateShopperCommission(
+          asDelivered(await loadSalesForCommission(shopperId, month)),
+          profile,
+          month
+        )
+      : null;
+
+    for (const row of groupRows) {
+      const v2Amount = result ? (saleCommissionShare(result, row.id) ?? 0) : 0;
+      const difference = subtractCurrency(v2Amount, row.commissionAmount ?? 0);
+      if (difference === 0) continue;
+
+      mismatches.push({
+        saleId: row.id,
+        saleReference: row.saleReference,
+        invoiceNumber: row.xeroInvoiceNumber,
+        shopperName: row.shopperName,
+        month,
+        storedAmount: row.commissionAmount === null ? null : roundCurrency(row.commissionAmount),
+        v2Amount,
+        difference,
+        note: !profile
+          ? "Shopper has no commission scheme"
+          : row.commissionClawback
+            ? "Commission clawed back"
+            : null,
+      });
+    }
+  }
+
+  return { checked: rows.length, mismatches };
+}
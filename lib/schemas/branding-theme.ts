@@ -0,0 +1,25 @@
+/**
+ * Club 19 Sales OS - Branding Theme Validation Schemas
+ *
+ * Used by /api/branding-themes/[id] to validate the VAT configuration an
+ * admin assigns to a Xero branding theme.
+ */
+
+import { z } from "zod";
+
+export const UpdateBrandingThemeSchema = z.object({
+  accountCode: z.string().trim().min(1, "Account code is required").nullable().optional(),
+  treatment: z.string().trim().min(1, "Treatment is required").nullable().optional(),
+  explanation: z.string().trim().nullable().optional(),
+  /** Percentage, e.g. 20 for 20% */
+  expectedVat: z
+    .number()
+    .min(0, "Expected VAT must be between 0 and 100")
+    .max(100, "Expected VAT must be between 0 and 100")
+    .nullable()
+    .optional(),
+  /** Xero GUID of the paired bank-transfer ("no link") theme */
+  noLinkVariantId: z.string().trim().min(1).nullable().optional(),
+});
+
+export type UpdateBrandingThemeInput = z.infer<typeof UpdateBrandingThemeSchema>;
@@ -0,0 +1,20 @@
+/**
+ * Club 19 Sales OS - Commission Forecast Validation Schema
+ *
+ * Used by /api/shoppers/[id]/commission-forecast to validate the
+ * hypothetical deal a shopper enters on the dashboard forecast widget.
+ */
+
+import { z } from "zod";
+
+export const HypotheticalDealSchema = z.object({
+  /** Sell price ex VAT */
+  sellPrice: z.number().min(0, "Sell price must be non-negative"),
+  buyPrice: z.number().min(0, "Buy price must be non-negative"),
+  costs: z.number().min(0, "Costs must be non-negative").default(0),
+  /** Xero branding theme ID or name — decides whether margin-scheme VAT is deducted */
+  brandingTheme: z.string().trim().min(1).nullable().default(null),
+  isNewClient: z.boolean().default(false),
+});
+
+export type HypotheticalDealInput = z.infer<typeof HypotheticalDealSchema>;
@@ -0,0 +1,95 @@
+/**
+ * Club 19 Sales OS - Commission Scheme Validation Schemas
+ *
+ * Used by /api/commission-schemes to validate scheme versions before they
+ * reach the `commission_schemes` table.
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// BANDS
+// ============================================================================
+
+export const CommissionSchemeBandSchema = z.object({
+  min: z.number().min(0, "Band minimum must be non-negative"),
+  /** null = no upper limit (top band) */
+  max: z.number().positive().nullable(),
+  /** Decimal rate, e.g. 0.10 for 10% */
+  rate: z.number().min(0).max(1, "Rate must be a decimal between 0 and 1"),
+});
+
+export const CommissionSchemeBandsSchema = z
+  .array(CommissionSchemeBandSchema)
+  .min(1, "At least one band is required")
+  .superRefine((bands, ctx) => {
+    for (let i = 0; i < bands.length; i++) {
+      const band = bands[i];
+      const isLast = i === bands.length - 1;
+      if (band.max === null && !isLast) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Only the top band can have no upper limit",
+          path: [i, "max"],
+        });
+      }
+      if (band.max !== null && band.max < band.min) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Band maximum must be at least its minimum",
+          path: [i, "max"],
+        });
+      }
+      if (i > 0) {
+        const prev = bands[i - 1];
+        if (prev.max === null || band.min <= prev.max) {
+          ctx.addIssue({
+            code: "custom",
+            message: "Bands must be in ascending order and must not overlap",
+            path: [i, "min"],
+          });
+        }
+      }
+    }
+  });
+
+/** "flat" = one rate on the whole monthly total; "marginal" = per-slice rates. */
+export const BandModeSchema = z.enum(["flat", "marginal"]);
+
+// ============================================================================
+// SCHEME VERSION
+// ============================================================================
+
+/** "YYYY-MM" — schemes always take effect from the first of a month. */
+const MonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format");
+
+export const CreateCommissionSchemeSchema = z.object({
+  schemeKey: z
+    .string()
+    .trim()
+    .min(1, "Scheme key is required")
+    .regex(/^[a-z0-9-]+$/, "Scheme key may only contain a-z, 0-9 and dashes"),
+  name: z.string().trim().min(1, "Name is required"),
+  bands: CommissionSchemeBandsSchema,
+  bandMode: BandModeSchema.default("flat"),
+  deductVatFromProfit: z.boolean(),
+  newClientBonusRate: z.number().min(0).max(1),
+  effectiveFrom: MonthSchema,
+  notes: z.string().trim().optional(),
+});
+
+export const UpdateCommissionSchemeSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  bands: CommissionSchemeBandsSchema.optional(),
+  bandMode: BandModeSchema.optional(),
+  deductVatFromProfit: z.boolean().optional(),
+  newClientBonusRate: z.number().min(0).max(1).optional(),
+  /** null re-opens the version (no end date) */
+  effectiveTo: MonthSchema.nullable().optional(),
+  notes: z.string().trim().optional(),
+});
+
+export type CreateCommissionSchemeInput = z.infer<typeof CreateCommissionSchemeSchema>;
+export type UpdateCommissionSchemeInput = z.infer<typeof UpdateCommissionSchemeSchema>;
@@ -0,0 +1,36 @@
+/**
+ * Club 19 Sales OS - Contact Edit Validation Schemas
+ *
+ * Used by PATCH /api/clients/[id] and /api/suppliers/[id] to validate
+ * contact details edited in the OS before they are pushed to Xero. An empty
+ * string clears a field; the name can't be cleared.
+ */
+
+import { z } from "zod";
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .transform((value) => value || null)
+    .nullable()
+    .optional();
+
+export const ContactChangesSchema = z.object({
+  name: z.string().trim().min(1, "Name can't be empty").max(255).optional(),
+  email: z
+    .string()
+    .trim()
+    .max(255)
+    .refine((value) => value === "" || z.string().email().safeParse(value).success, {
+      message: "Email address is not valid",
+    })
+    .transform((value) => value || null)
+    .nullable()
+    .optional(),
+  phone: optionalText(50),
+  taxNumber: optionalText(50),
+});
+
+export type ContactChangesInput = z.infer<typeof ContactChangesSchema>;
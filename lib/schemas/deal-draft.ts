@@ -0,0 +1,21 @@
+/**
+ * Club 19 Sales OS - Deal Draft Validation Schemas
+ *
+ * Used by /api/deal-drafts to validate saved wizard drafts and hand-overs.
+ * The wizard state itself is stored as-is: it's only ever read back by the
+ * wizard, which validates the finished sale on submit.
+ */
+
+import { z } from "zod";
+
+export const SaveDealDraftSchema = z.object({
+  state: z.record(z.string(), z.unknown()),
+});
+
+export const HandOverDealDraftSchema = z.object({
+  /** Clerk user ID of the staff member taking the draft over */
+  toUserId: z.string().trim().min(1, "Choose who to hand the draft to"),
+});
+
+export type SaveDealDraftInput = z.infer<typeof SaveDealDraftSchema>;
+export type HandOverDealDraftInput = z.infer<typeof HandOverDealDraftSchema>;
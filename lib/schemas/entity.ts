@@ -0,0 +1,31 @@
+/**
+ * Club 19 Sales OS - Entity Validation Schemas
+ *
+ * Used by PATCH /api/entities/[id] to validate edits to a trading entity:
+ * its display name, default flag and how the OS's account codes and
+ * branding themes map onto its Xero organisation.
+ */
+
+import { z } from "zod";
+
+/** OS code/name → the organisation's own; blank values are dropped. */
+const MappingSchema = z
+  .record(z.string().trim().min(1), z.string().trim())
+  .transform((mapping) =>
+    Object.fromEntries(Object.entries(mapping).filter(([, value]) => value.length > 0))
+  );
+
+export const UpdateEntitySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  isDefault: z.literal(true).optional(),
+  accountMappings: MappingSchema.optional(),
+  brandingThemeMappings: MappingSchema.optional(),
+  purchaseAccountCode: z
+    .string()
+    .trim()
+    .regex(/^\S+$/, "Account code can't contain spaces")
+    .nullable()
+    .optional(),
+});
+
+export type UpdateEntityInput = z.infer<typeof UpdateEntitySchema>;
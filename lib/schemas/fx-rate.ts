@@ -0,0 +1,25 @@
+/**
+ * Club 19 Sales OS - FX Rate Validation Schemas
+ *
+ * Used by /api/fx-rates to validate rates finance adds to the local rate
+ * table. Rates are invoice-currency units per £1 (Xero's convention).
+ */
+
+import { z } from "zod";
+import { CURRENCIES } from "@/lib/constants";
+import { BASE_CURRENCY } from "@/lib/calculations/fx";
+
+const FOREIGN_CURRENCIES = CURRENCIES.map((c) => c.code).filter((code) => code !== BASE_CURRENCY);
+
+export const CreateFxRateSchema = z.object({
+  currency: z.string().refine((code) => FOREIGN_CURRENCIES.includes(code as never), {
+    message: `Currency must be one of ${FOREIGN_CURRENCIES.join(", ")}`,
+  }),
+  /** YYYY-MM-DD */
+  rateDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Rate date must be YYYY-MM-DD"),
+  /** Units of `currency` per £1 */
+  rate: z.number().positive("Rate must be greater than 0"),
+  source: z.string().trim().min(1).nullable().optional(),
+});
+
+export type CreateFxRateInput = z.infer<typeof CreateFxRateSchema>;
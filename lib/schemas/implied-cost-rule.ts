@@ -0,0 +1,55 @@
+/**
+ * Club 19 Sales OS - Implied Cost Rule Validation Schemas
+ *
+ * Used by /api/implied-cost-rules to validate rules finance saves to
+ * `implied_cost_rules`. Keys are normalised here: countries and categories
+ * lower-case, route regions as typed.
+ */
+
+import { z } from "zod";
+import { PaymentMethod } from "@/lib/types/invoice";
+
+const lowerKey = z.string().trim().min(1, "Key is required").transform((key) => key.toLowerCase());
+
+const RegionRuleSchema = z.object({
+  ruleType: z.literal("region"),
+  /** Country name as the wizard records it */
+  key: lowerKey,
+  region: z.string().trim().min(1, "Region is required"),
+});
+
+const RouteRuleSchema = z.object({
+  ruleType: z.literal("route"),
+  /** "<supplier region>_<delivery region>", or DEFAULT */
+  key: z
+    .string()
+    .trim()
+    .regex(/^(DEFAULT|[^_]+_[^_]+)$/, "Route must be <supplier region>_<delivery region> or DEFAULT"),
+  /** Average shipping cost in GBP */
+  amount: z.number().nonnegative("Cost can't be negative"),
+});
+
+const CardFeeRuleSchema = z.object({
+  ruleType: z.literal("card_fee"),
+  key: z.nativeEnum(PaymentMethod),
+  /** Fraction of the sell price: 0.024 = 2.4% */
+  amount: z.number().min(0).max(0.2, "Card fee must be a fraction, e.g. 0.024 for 2.4%"),
+});
+
+const EntrupyRuleSchema = z.object({
+  ruleType: z.literal("entrupy"),
+  /** Item category, or "default" */
+  key: lowerKey,
+  /** GBP per unit */
+  amount: z.number().nonnegative("Fee can't be negative"),
+});
+
+export const ImpliedCostRuleSchema = z.discriminatedUnion("ruleType", [
+  RegionRuleSchema,
+  RouteRuleSchema,
+  CardFeeRuleSchema,
+  EntrupyRuleSchema,
+]);
+
+export type ImpliedCostRuleInput = z.infer<typeof ImpliedCostRuleSchema>;
+export type ImpliedCostRuleType = ImpliedCostRuleInput["ruleType"];
@@ -0,0 +1,53 @@
+/**
+ * Club 19 Sales OS - Quote Validation Schemas
+ *
+ * Used by /api/quotes to validate quotes saved from the New Sale wizard. A
+ * quote carries the same invoice payload the wizard posts to
+ * /api/xero/invoices; only the fields the Xero quote and the invoice lines
+ * are built from are checked here; the rest is kept as-is and validated by
+ * the invoice route when the quote is accepted.
+ */
+
+import { z } from "zod";
+
+const QuoteLineSchema = z.looseObject({
+  lineNumber: z.number().int().positive(),
+  brand: z.string(),
+  category: z.string(),
+  description: z.string().min(1, "Every line needs a description"),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  /** Unit price, in the quote currency */
+  sellPrice: z.number().positive("Sell price must be greater than 0"),
+  /** GBP, per unit */
+  buyPrice: z.number(),
+  lineTotal: z.number(),
+  lineMargin: z.number(),
+});
+
+export const QuotePayloadSchema = z.looseObject({
+  buyerContactId: z.string().min(1, "Client must be selected from Xero"),
+  lineItems: z.array(QuoteLineSchema).min(1, "A quote needs at least one item"),
+  accountCode: z.string().min(1),
+  taxType: z.string().min(1),
+  lineAmountType: z.string().min(1),
+  currency: z.string().length(3),
+  currencyRate: z.number().positive().optional(),
+  brandingThemeId: z.string().optional(),
+  paymentMethod: z.string().optional(),
+  entityId: z.string().optional(),
+  /** GBP summary fields, kept on the quote for lists and conversion */
+  totalSellPrice: z.number().optional(),
+  grossMargin: z.number().optional(),
+  commissionableMargin: z.number().optional(),
+});
+
+export const CreateQuoteSchema = z.object({
+  payload: QuotePayloadSchema,
+  /** Last day the client can accept, YYYY-MM-DD */
+  expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expiry date must be YYYY-MM-DD"),
+  /** Wizard draft the quote was built from, deleted once quoted */
+  draftId: z.string().optional(),
+});
+
+export type QuotePayload = z.infer<typeof QuotePayloadSchema>;
+export type CreateQuoteInput = z.infer<typeof CreateQuoteSchema>;
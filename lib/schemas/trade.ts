@@ -45,7 +45,8 @@ export const TradeItemSchema = z.object({
   supplier: SupplierSchema,
   buyPrice: z.number().min(0, "Buy price must be non-negative"),
   buyCurrency: z.string().length(3, "Currency must be 3 characters"),
-  fxRate: z.number().positive().optional(),
+  fxRate: z.number().positive().optional(), // buyCurrency per £1
+  fxRateSource: z.enum(["table", "manual", "xero"]).optional(),
 
   // Buyer side
   sellPrice: z.number().min(0, "Sell price must be non-negative"),
@@ -66,8 +67,10 @@ export const TradeItemSchema = z.object({
   buyPriceGBP: z.number().optional(),
   sellPriceGBP: z.number().optional(),
   grossMarginGBP: z.number().optional(),
+}).refine((item) => item.buyCurrency === "GBP" || item.fxRate !== undefined, {
+  message: "An FX rate is required when the buy currency isn't GBP",
+  path: ["fxRate"],
 });
-// NOTE: FX rate refinement removed - v2 is GBP-only, multi-currency deprecated
 
 // ============================================================================
 // BUYER
@@ -110,6 +113,9 @@ export const TradeSchema = z.object({
   createdAt: z.string().datetime(),
   source: TradeSourceSchema,
 
+  // Legal entity the trade is invoiced from; omitted means the default
+  entityId: z.string().uuid().optional(),
+
   // Participants
   buyer: BuyerSchema,
   items: z
@@ -38,6 +38,11 @@ const ALL_SIDEBAR_ITEMS: SidebarItem[] = [
     href: "/trade/new",
     icon: "PlusCircle",
   },
+  {
+    label: "Quotes",
+    href: "/quotes",
+    icon: "ClipboardList",
+  },
   {
     label: "Sales",
     href: "/sales",
@@ -112,6 +117,7 @@ export function getSidebarItemsForRole(role: StaffRole): SidebarItem[] {
   if (role === "shopper") {
     return [
       { label: "New Sale", href: "/trade/new", icon: "PlusCircle" },
+      { label: "My Quotes", href: "/quotes", icon: "ClipboardList" },
       { label: "My Sales", href: "/sales", icon: "Briefcase" },
     ];
   }
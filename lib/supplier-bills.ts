@@ -0,0 +1,479 @@
+/**
+ * Club 19 Sales OS - Supplier Bills
+ *
+ * Draft Xero bills (ACCPAY) raised from a sale's line items — one per
+ * supplier — so payables are entered from the buy prices the OS already
+ * holds instead of being keyed in again from the supplier's invoice.
+ *
+ * - raiseSupplierBills() groups the sale's line items by supplier and buy
+ *   currency (lib/calculations/supplier-bills.ts) and creates a DRAFT bill in
+ *   Xero for each that doesn't have one yet. Items bought in another currency
+ *   are billed at the original amount in that currency, as the supplier
+ *   invoiced them. A sale without line items is billed from its own supplier
+ *   and GBP buy price.
+ * - recordSupplierBill() takes a bill payload from Xero (webhook or
+ *   sync-payments cron) and updates status, total and amount paid.
+ *
+ * Bills are raised as drafts for finance to check against the supplier's
+ * invoice and approve in Xero. A bill voided or deleted in Xero can be
+ * raised again. They go to the Xero organisation of the sale's entity
+ * (lib/entities.ts).
+ */
+
+import "server-only";
+import { db } from "@/db";
+import {
+  lineItems,
+  sales,
+  supplierBills,
+  suppliers,
+  xeroContacts,
+  type SupplierBillRecord,
+} from "@/db/schema";
+import { and, asc, eq, inArray, lt, notInArray, or } from "drizzle-orm";
+import { withXeroClient } from "@/lib/xero-client";
+import { resolveEntity, saleBelongsTo } from "@/lib/entities";
+import { ExternalServiceError, NotFoundError } from "@/lib/errors";
+import { BASE_CURRENCY } from "@/lib/calculations/fx";
+import {
+  groupLinesBySupplier,
+  reconcileBill,
+  type BillReconciliation,
+  type BillSourceLine,
+  type SupplierBillDraft,
+} from "@/lib/calculations/supplier-bills";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Subset of Xero's Invoice resource we record for bills. */
+export interface XeroBill {
+  InvoiceID: string;
+  Type?: string;
+  InvoiceNumber?: string;
+  Reference?: string;
+  Status?: string;
+  CurrencyCode?: string;
+  Total?: number;
+  AmountPaid?: number;
+  AmountDue?: number;
+  FullyPaidOnDate?: string;
+}
+
+/** Bill statuses that no longer count — the supplier can be billed again. */
+const INACTIVE_STATUSES = ["VOIDED", "DELETED"];
+
+/**
+ * Status of a row claimed while its bill is being posted to Xero, so a second
+ * "Raise bills" for the same sale skips the supplier instead of raising a
+ * duplicate. Replaced by Xero's status once the bill exists.
+ */
+const RAISING_STATUS = "RAISING";
+
+/**
+ * A RAISING claim older than this was left by a raise that died before Xero
+ * answered (or before the answer was saved); the next raise takes it over.
+ */
+const STALE_RAISING_MS = 10 * 60 * 1000;
+
+/**
+ * Purchases account used when neither the supplier's Xero contact nor the
+ * entity has a default.
+ */
+const DEFAULT_PURCHASE_ACCOUNT = "310";
+
+export interface RaiseSupplierBillsResult {
+  raised: SupplierBillRecord[];
+  /** Suppliers not billed, with why */
+  skipped: Array<{ supplierId: string | null; supplierName: string | null; reason: string }>;
+}
+
+export interface SupplierBillView extends SupplierBillRecord {
+  supplierName: string | null;
+  /** Null until Xero has reported the bill's total */
+  reconciliation: BillReconciliation | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function parseXeroDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((-?\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function integrationUserId(): string {
+  const userId = process.env.XERO_INTEGRATION_CLERK_USER_ID;
+  if (!userId) {
+    throw new ExternalServiceError("Xero", "XERO_INTEGRATION_CLERK_USER_ID not configured");
+  }
+  return userId;
+}
+
+/** Fields every bill payload carries, as columns. */
+function billColumns(bill: XeroBill) {
+  return {
+    billNumber: bill.InvoiceNumber || null,
+    reference: bill.Reference || null,
+    status: bill.Status ?? "DRAFT",
+    currency: bill.CurrencyCode ?? "GBP",
+    total: bill.Total ?? null,
+    amountPaid: bill.AmountPaid ?? 0,
+    amountDue: bill.AmountDue ?? null,
+    paidDate: parseXeroDate(bill.FullyPaidOnDate),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * The sale's purchase lines: its line items, or — for a single-item sale
+ * recorded without them — one line for the whole sale.
+ */
+async function loadBillSourceLines(saleId: string) {
+  const [sale] = await db
+    .select({
+      id: sales.id,
+      saleReference: sales.saleReference,
+      saleDate: sales.saleDate,
+      entityId: sales.entityId,
+      supplierId: sales.supplierId,
+      buyPrice: sales.buyPrice,
+      brand: sales.brand,
+      itemTitle: sales.itemTitle,
+    })
+    .from(sales)
+    .where(eq(sales.id, saleId))
+    .limit(1);
+  if (!sale) throw new NotFoundError("Sale", { saleId });
+
+  const items = await db
+    .select()
+    .from(lineItems)
+    .where(eq(lineItems.saleId, saleId))
+    .orderBy(asc(lineItems.lineNumber));
+
+  const lines: BillSourceLine[] =
+    items.length > 0
+      ? items.map((item) => {
+          const foreign =
+            !!item.buyCurrency && item.buyCurrency !== BASE_CURRENCY && item.buyPriceOriginal !== null;
+          return {
+            lineItemId: item.id,
+            supplierId: item.supplierId,
+            description: [item.brand, item.description].filter(Boolean).join(" — ") || "Purchase",
+            quantity: item.quantity ?? 1,
+            currency: foreign ? item.buyCurrency! : BASE_CURRENCY,
+            unitBuyPrice: (foreign ? item.buyPriceOriginal : item.buyPrice) ?? 0,
+            supplierInvoiceRef: item.supplierInvoiceRef,
+            datePurchased: item.datePurchased,
+          };
+        })
+      : [
+          {
+            lineItemId: null,
+            supplierId: sale.supplierId,
+            description: [sale.brand, sale.itemTitle].filter(Boolean).join(" — ") || "Purchase",
+            // sales.buy_price is the whole purchase, not per unit
+            quantity: 1,
+            currency: BASE_CURRENCY,
+            unitBuyPrice: sale.buyPrice ?? 0,
+            supplierInvoiceRef: null,
+            datePurchased: null,
+          },
+        ];
+
+  return { sale, lines };
+}
+
+function toXeroBill(
+  draft: SupplierBillDraft,
+  contact: { xeroContactId: string; purchaseCode: string },
+  sale: { saleReference: string | null; saleDate: Date | null }
+) {
+  const date = draft.billDate ?? sale.saleDate ?? new Date();
+  return {
+    Type: "ACCPAY",
+    Status: "DRAFT",
+    Contact: { ContactID: contact.xeroContactId },
+    Date: date.toISOString().split("T")[0],
+    ...(draft.supplierInvoiceRef ? { InvoiceNumber: draft.supplierInvoiceRef } : {}),
+    ...(sale.saleReference ? { Reference: sale.saleReference } : {}),
+    CurrencyCode: draft.currency,
+    LineAmountTypes: "NoTax",
+    LineItems: draft.lines.map((line) => ({
+      Description: line.description,
+      Quantity: line.quantity,
+      UnitAmount: line.unitBuyPrice,
+      AccountCode: contact.purchaseCode,
+      TaxType: "NONE",
+    })),
+  };
+}
+
+/** A RAISING row whose raise died part way. */
+function isStaleRaising(bill: SupplierBillRecord): boolean {
+  return bill.status === RAISING_STATUS && bill.updatedAt.getTime() < Date.now() - STALE_RAISING_MS;
+}
+
+/**
+ * Claim the sale's row for this supplier before posting its bill: insert it,
+ * or take over a voided/deleted one or a stale RAISING one. Null if another
+ * raise got there first or a live bill exists. Until Xero answers,
+ * `xero_bill_id` holds the idempotency key.
+ */
+async function claimSupplierBill(
+  saleId: string,
+  draft: SupplierBillDraft,
+  userId: string | null,
+  idempotencyKey: string
+): Promise<SupplierBillRecord | null> {
+  const fields = {
+    xeroBillId: idempotencyKey,
+    status: RAISING_STATUS,
+    billNumber: null,
+    reference: null,
+    total: null,
+    amountPaid: 0,
+    amountDue: null,
+    paidDate: null,
+    expectedTotal: draft.expectedTotal,
+    lineItemIds: draft.lineItemIds,
+    createdBy: userId,
+    updatedAt: new Date(),
+  };
+  const [row] = await db
+    .insert(supplierBills)
+    .values({ saleId, supplierId: draft.supplierId, currency: draft.currency, ...fields })
+    .onConflictDoUpdate({
+      target: [supplierBills.saleId, supplierBills.supplierId, supplierBills.currency],
+      set: fields,
+      setWhere: or(
+        inArray(supplierBills.status, INACTIVE_STATUSES),
+        and(
+          eq(supplierBills.status, RAISING_STATUS),
+          lt(supplierBills.updatedAt, new Date(Date.now() - STALE_RAISING_MS))
+        )
+      ),
+    })
+    .returning();
+  return row ?? null;
+}
+
+/** Undo a claim whose bill wasn't raised: put back the voided bill it replaced, or remove it. */
+async function releaseSupplierBill(claimId: string, previous: SupplierBillRecord | null): Promise<void> {
+  try {
+    if (previous) {
+      const { id: _id, saleId: _saleId, supplierId: _supplierId, ...restore } = previous;
+      await db.update(supplierBills).set(restore).where(eq(supplierBills.id, claimId));
+    } else {
+      await db.delete(supplierBills).where(eq(supplierBills.id, claimId));
+    }
+  } catch (error) {
+    logger.error("SUPPLIER_BILLS", "Failed to release bill claim", {
+      claimId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// ============================================================================
+// RAISE
+// ============================================================================
+
+/**
+ * Create draft bills in Xero for a sale's purchases, one per supplier and
+ * buy currency.
+ * Suppliers that already have a live bill for the sale, or aren't linked to
+ * a Xero contact in the sale entity's organisation, are skipped. A failure for one supplier doesn't stop the
+ * others — it is reported in `skipped`.
+ *
+ * Each supplier's row is claimed (status RAISING) before the bill is posted
+ * and the post carries an idempotency key, so concurrent or retried raises
+ * create one bill. A failed post releases the claim. A claim left RAISING
+ * by a raise that died is taken over once stale, and posted again under its
+ * stored key so Xero returns the bill if the first post got through.
+ *
+ * @throws NotFoundError if the sale doesn't exist
+ */
+export async function raiseSupplierBills(
+  saleId: string,
+  userId: string | null
+): Promise<RaiseSupplierBillsResult> {
+  const { sale, lines } = await loadBillSourceLines(saleId);
+  const { drafts, unbillable } = groupLinesBySupplier(lines);
+  const result: RaiseSupplierBillsResult = { raised: [], skipped: [] };
+
+  for (const line of unbillable) {
+    result.skipped.push({
+      supplierId: line.supplierId,
+      supplierName: null,
+      reason: line.supplierId ? `No buy price on "${line.description}"` : `No supplier on "${line.description}"`,
+    });
+  }
+  if (drafts.length === 0) return result;
+
+  const entity = await resolveEntity(sale.entityId);
+  const [existing, supplierRows] = await Promise.all([
+    db.select().from(supplierBills).where(eq(supplierBills.saleId, saleId)),
+    db
+      .select({
+        id: suppliers.id,
+        name: suppliers.name,
+        xeroContactId: suppliers.xeroContactId,
+        defaultPurchaseCode: xeroContacts.defaultPurchaseCode,
+        contactTenantId: xeroContacts.xeroTenantId,
+      })
+      .from(suppliers)
+      .leftJoin(xeroContacts, eq(suppliers.xeroContactId, xeroContacts.xeroContactId))
+      .where(inArray(suppliers.id, drafts.map((d) => d.supplierId))),
+  ]);
+
+  for (const draft of drafts) {
+    const supplier = supplierRows.find((s) => s.id === draft.supplierId);
+    const supplierName = supplier?.name ?? null;
+    const current = existing.find((b) => b.supplierId === draft.supplierId && b.currency === draft.currency);
+
+    const stale = current ? isStaleRaising(current) : false;
+    if (current && !stale && !INACTIVE_STATUSES.includes(current.status)) {
+      result.skipped.push({
+        supplierId: draft.supplierId,
+        supplierName,
+        reason: current.status === RAISING_STATUS ? "Bill is being raised" : "Bill already raised",
+      });
+      continue;
+    }
+    if (!supplier?.xeroContactId) {
+      result.skipped.push({ supplierId: draft.supplierId, supplierName, reason: "Supplier not linked to Xero" });
+      continue;
+    }
+    if (supplier.contactTenantId && supplier.contactTenantId !== entity.xeroTenantId) {
+      result.skipped.push({
+        supplierId: draft.supplierId,
+        supplierName,
+        reason: `Supplier's Xero contact isn't in ${entity.name}'s organisation`,
+      });
+      continue;
+    }
+
+    // A bill raised again after a void needs a new key, or Xero would replay
+    // the voided one; a stale claim keeps the key it was posted with
+    const idempotencyKey = !current
+      ? `bill-${saleId}-${draft.supplierId}-${draft.currency}`
+      : stale
+        ? current.xeroBillId
+        : `bill-${saleId}-${draft.supplierId}-${draft.currency}-${current.xeroBillId}`;
+    const claim = await claimSupplierBill(saleId, draft, userId, idempotencyKey);
+    if (!claim) {
+      result.skipped.push({ supplierId: draft.supplierId, supplierName, reason: "Bill already raised" });
+      continue;
+    }
+
+    try {
+      const purchaseCode =
+        supplier.defaultPurchaseCode || entity.purchaseAccountCode || DEFAULT_PURCHASE_ACCOUNT;
+      const response = await withXeroClient(
+        integrationUserId(),
+        (client) =>
+          client.post<{ Invoices?: XeroBill[] }>(
+            "Invoices",
+            {
+              Invoices: [toXeroBill(draft, { xeroContactId: supplier.xeroContactId!, purchaseCode }, sale)],
+            },
+            { idempotencyKey }
+          ),
+        { tenantId: entity.xeroTenantId }
+      );
+      const bill = response.Invoices?.[0];
+      if (!bill?.InvoiceID) {
+        throw new ExternalServiceError("Xero", "Bill not returned", { saleId, supplierId: draft.supplierId });
+      }
+
+      const [row] = await db
+        .update(supplierBills)
+        .set({ xeroBillId: bill.InvoiceID, ...billColumns(bill) })
+        .where(eq(supplierBills.id, claim.id))
+        .returning();
+      result.raised.push(row);
+
+      logger.info("SUPPLIER_BILLS", "Draft bill raised in Xero", {
+        saleId,
+        supplierId: draft.supplierId,
+        xeroBillId: bill.InvoiceID,
+        expectedTotal: draft.expectedTotal,
+      });
+    } catch (error) {
+      await releaseSupplierBill(claim.id, current ?? null);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("SUPPLIER_BILLS", "Failed to raise bill", { saleId, supplierId: draft.supplierId, message });
+      result.skipped.push({ supplierId: draft.supplierId, supplierName, reason: message });
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// FROM XERO
+// ============================================================================
+
+/**
+ * Update a bill the OS raised from Xero's copy of it. Bills the OS didn't
+ * raise are ignored.
+ *
+ * @returns The updated bill, or null if it isn't one of ours
+ */
+export async function recordSupplierBill(bill: XeroBill): Promise<SupplierBillRecord | null> {
+  const [row] = await db
+    .update(supplierBills)
+    .set(billColumns(bill))
+    .where(eq(supplierBills.xeroBillId, bill.InvoiceID))
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Xero IDs of an entity's bills that may still change: not paid, voided or
+ * deleted.
+ */
+export async function listOpenSupplierBillIds(entity: {
+  entityId: string;
+  isDefault: boolean;
+}): Promise<string[]> {
+  const rows = await db
+    .select({ xeroBillId: supplierBills.xeroBillId })
+    .from(supplierBills)
+    .innerJoin(sales, eq(supplierBills.saleId, sales.id))
+    .where(
+      and(
+        notInArray(supplierBills.status, ["PAID", RAISING_STATUS, ...INACTIVE_STATUSES]),
+        saleBelongsTo(entity)
+      )
+    );
+  return rows.map((r) => r.xeroBillId);
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/** A sale's bills with supplier names and how each compares to the buy prices. */
+export async function listSaleSupplierBills(saleId: string): Promise<SupplierBillView[]> {
+  const rows = await db
+    .select({ bill: supplierBills, supplierName: suppliers.name })
+    .from(supplierBills)
+    .leftJoin(suppliers, eq(supplierBills.supplierId, suppliers.id))
+    .where(eq(supplierBills.saleId, saleId))
+    .orderBy(asc(supplierBills.createdAt));
+
+  return rows.map(({ bill, supplierName }) => ({
+    ...bill,
+    supplierName,
+    reconciliation: bill.total === null ? null : reconcileBill(bill.expectedTotal, bill.total),
+  }));
+}
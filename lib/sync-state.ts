@@ -0,0 +1,194 @@
+/**
+ * Club 19 Sales OS - Incremental Sync State
+ *
+ * Per-resource watermarks in `sync_state` so the Xero sync paths only pull
+ * what changed since their last successful run (If-Modified-Since) instead
+ * of re-fetching a fixed window every time.
+ *
+ * - getSyncWatermark() is what a run sends as If-Modified-Since (null on the
+ *   first run — callers fall back to their old window).
+ * - nextSyncWatermark() works out where the next run should start: the
+ *   latest UpdatedDateUTC seen, held back to just before the earliest record
+ *   that failed so it gets fetched again.
+ * - recordSyncRun() / recordSyncFailure() update the row; the watermark only
+ *   moves forward.
+ *
+ * Re-fetching a record is always safe — every sync path upserts.
+ *
+ * Each Xero organisation syncs on its own watermark. The default
+ * organisation's row is keyed by the bare resource name (as before there were
+ * several); others are keyed "<resource>@<tenant id>" — pass the tenant ID
+ * for anything but the default.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { syncState, type SyncStateRecord } from "@/db/schema";
+import { asc, eq, sql } from "drizzle-orm";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SYNC_RESOURCES = ["invoices", "credit_notes", "payments", "contacts"] as const;
+
+export type SyncResource = (typeof SYNC_RESOURCES)[number];
+
+export interface SyncStateDetail {
+  resource: SyncResource;
+  /** Null for the default organisation */
+  tenantId: string | null;
+  watermark: string | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastFullSyncAt: string | null;
+  lastStatus: "success" | "partial" | "failed" | null;
+  lastError: string | null;
+  lastItemCount: number | null;
+}
+
+/** The sync_state key for a resource in an organisation. */
+function stateKey(resource: SyncResource, tenantId?: string | null): string {
+  return tenantId ? `${resource}@${tenantId}` : resource;
+}
+
+function toDetail(
+  resource: SyncResource,
+  row: SyncStateRecord | undefined,
+  tenantId: string | null = null
+): SyncStateDetail {
+  return {
+    resource,
+    tenantId,
+    watermark: row?.watermark?.toISOString() ?? null,
+    lastRunAt: row?.lastRunAt?.toISOString() ?? null,
+    lastSuccessAt: row?.lastSuccessAt?.toISOString() ?? null,
+    lastFullSyncAt: row?.lastFullSyncAt?.toISOString() ?? null,
+    lastStatus: (row?.lastStatus as SyncStateDetail["lastStatus"]) ?? null,
+    lastError: row?.lastError ?? null,
+    lastItemCount: row?.lastItemCount ?? null,
+  };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Every resource's state for the default organisation, including ones that
+ * have never run, followed by the rows other organisations have written.
+ */
+export async function listSyncStates(): Promise<SyncStateDetail[]> {
+  const rows = await db.select().from(syncState).orderBy(asc(syncState.resource));
+  const byResource = new Map(rows.map((row) => [row.resource, row]));
+  const scoped = rows.flatMap((row) => {
+    const [resource, tenantId] = row.resource.split("@");
+    if (!tenantId || !SYNC_RESOURCES.includes(resource as SyncResource)) return [];
+    return [toDetail(resource as SyncResource, row, tenantId)];
+  });
+  return [...SYNC_RESOURCES.map((resource) => toDetail(resource, byResource.get(resource))), ...scoped];
+}
+
+/** Where the next incremental run starts, or null if there's no watermark yet. */
+export async function getSyncWatermark(
+  resource: SyncResource,
+  tenantId?: string | null
+): Promise<Date | null> {
+  const [row] = await db
+    .select({ watermark: syncState.watermark })
+    .from(syncState)
+    .where(eq(syncState.resource, stateKey(resource, tenantId)))
+    .limit(1);
+  return row?.watermark ?? null;
+}
+
+// ============================================================================
+// WATERMARK
+// ============================================================================
+
+/**
+ * The watermark a run has earned.
+ *
+ * @param synced - UpdatedDateUTC of every record fetched
+ * @param failed - UpdatedDateUTC of records that failed to sync
+ * @returns The latest synced date, but never at or past the earliest
+ *          failure; null if nothing dated was fetched
+ */
+export function nextSyncWatermark(
+  synced: (Date | null)[],
+  failed: (Date | null)[] = []
+): Date | null {
+  const times = synced.filter((d): d is Date => d !== null).map((d) => d.getTime());
+  if (times.length === 0) return null;
+  let watermark = Math.max(...times);
+
+  const failedTimes = failed.filter((d): d is Date => d !== null).map((d) => d.getTime());
+  if (failedTimes.length > 0) {
+    watermark = Math.min(watermark, Math.min(...failedTimes) - 1000);
+  }
+  return new Date(watermark);
+}
+
+// ============================================================================
+// WRITE
+// ============================================================================
+
+/**
+ * Record a completed run. Failed records make it "partial" but still let the
+ * watermark advance up to the first of them.
+ */
+export async function recordSyncRun(
+  resource: SyncResource,
+  run: { watermark: Date | null; itemCount: number; errorCount: number; full: boolean },
+  tenantId?: string | null
+): Promise<void> {
+  const now = new Date();
+  const status = run.errorCount > 0 ? "partial" : "success";
+  const lastError = run.errorCount > 0 ? `${run.errorCount} record(s) failed to sync` : null;
+
+  await db
+    .insert(syncState)
+    .values({
+      resource: stateKey(resource, tenantId),
+      watermark: run.watermark,
+      lastRunAt: now,
+      lastSuccessAt: now,
+      lastFullSyncAt: run.full ? now : null,
+      lastStatus: status,
+      lastError,
+      lastItemCount: run.itemCount,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: syncState.resource,
+      set: {
+        // Only ever move forward
+        watermark: run.watermark
+          ? sql`GREATEST(${syncState.watermark}, ${run.watermark.toISOString()}::timestamptz)`
+          : sql`${syncState.watermark}`,
+        lastRunAt: now,
+        lastSuccessAt: now,
+        ...(run.full && { lastFullSyncAt: now }),
+        lastStatus: status,
+        lastError,
+        lastItemCount: run.itemCount,
+        updatedAt: now,
+      },
+    });
+}
+
+/** Record a run that failed outright. The watermark is left alone. */
+export async function recordSyncFailure(
+  resource: SyncResource,
+  message: string,
+  tenantId?: string | null
+): Promise<void> {
+  const now = new Date();
+  await db
+    .insert(syncState)
+    .values({ resource: stateKey(resource, tenantId), lastRunAt: now, lastStatus: "failed", lastError: message, updatedAt: now })
+    .onConflictDoUpdate({
+      target: syncState.resource,
+      set: { lastRunAt: now, lastStatus: "failed", lastError: message, updatedAt: now },
+    });
+}
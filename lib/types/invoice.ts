@@ -5,6 +5,8 @@
  * Used by wizard UI, API routes, and Make.com payload builder.
  */
 
+import type { FxRateSource } from "@/lib/calculations/fx";
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -76,15 +78,17 @@ export type TradeItem = {
   description: string;
   quantity: number; // Default 1
 
-  // Supplier side economics
+  // Supplier side economics. The buy price is in the supplier's currency;
+  // margins use it converted to GBP (buyPriceToBase in lib/calculations/fx).
   supplier: Supplier;
   buyPrice: number;
   buyCurrency: string; // "GBP", "EUR", "USD", etc.
-  fxRate?: number; // Required if buyCurrency !== sellCurrency
+  fxRate?: number; // buyCurrency per £1 — required unless buyCurrency is GBP
+  fxRateSource?: FxRateSource; // Rate table default or typed in by hand
 
   // Buyer side economics
   sellPrice: number;
-  sellCurrency: string; // Typically "GBP"
+  sellCurrency: string; // The sale's invoice currency (WizardState.saleCurrency)
 
   // Tax fields (from existing VAT wizard logic)
   accountCode: string;
@@ -136,6 +140,7 @@ export type Trade = {
   tradeId: string; // UUID generated client-side
   createdAt: string; // ISO timestamp
   source: TradeSource; // Always DEAL_STUDIO_V2
+  entityId?: string; // Legal entity invoicing the trade; default when omitted
 
   // Participants
   buyer: Buyer;
@@ -180,6 +185,99 @@ export type MakeResponse = {
   commissionableMarginGBP?: number;
 };
 
+// ============================================================================
+// INVOICE PAYLOAD
+// ============================================================================
+
+/**
+ * Line item for multi-line invoices
+ */
+export interface InvoiceLinePayload {
+  lineNumber: number;
+  brand: string;
+  category: string;
+  description: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  lineTotal: number;
+  lineMargin: number;
+  supplierName?: string;
+  // Bought in another currency: buyPrice above is the GBP conversion of
+  // buyPriceOriginal at buyFxRate (buyCurrency per £1)
+  buyCurrency?: string;
+  buyPriceOriginal?: number;
+  buyFxRate?: number;
+  buyFxRateSource?: FxRateSource;
+}
+
+/**
+ * Invoice creation payload the wizard posts to /api/xero/invoices (and a
+ * quote stores). Supports both single-line (legacy) and multi-line invoices
+ */
+export interface CreateInvoicePayload {
+  buyerContactId: string;
+  // Single-line (legacy) fields
+  description?: string;
+  finalPrice?: number;
+  // Multi-line fields
+  lineItems?: InvoiceLinePayload[];
+  // Common fields
+  accountCode: string;
+  taxType: string;
+  brandingThemeId?: string;
+  currency: string;
+  // Non-GBP invoices: units of `currency` per £1, and where it came from.
+  // Line sell prices are in `currency`; buy prices and every other £ field
+  // in the payload are GBP.
+  currencyRate?: number;
+  fxRateSource?: FxRateSource;
+  lineAmountType: string; // "Inclusive" | "Exclusive" | "NoTax"
+
+  // Summary fields (for multi-line)
+  totalSellPrice?: number;
+  totalBuyPrice?: number;
+
+  // Additional fields for Make.com sync (19-field payload)
+  supplierName?: string;
+  brand?: string;
+  category?: string;
+  itemTitle?: string;
+  quantity?: number;
+  buyPrice?: number;
+  cardFees?: number;
+  shippingCost?: number;
+  impliedShipping?: number;
+  /** Implied cost route the deal was costed on, e.g. "EU_UK" */
+  impliedShippingRoute?: string;
+  grossMargin?: number;
+  commissionableMargin?: number;
+  paymentMethod?: string;
+  notes?: string;
+
+  // Phase 2 wizard fields
+  isNewClient?: boolean;
+  hasIntroducer?: boolean;
+  introducerName?: string;
+  introducerCommission?: number;
+  introducerFeeType?: "percent" | "flat";
+  introducerFeePercent?: number;
+  introducerFeeFlat?: number;
+  entrupyFee?: number;
+
+  // Raise draft supplier bills in Xero once the sale is saved
+  raiseSupplierBills?: boolean;
+
+  // Legal entity the sale is booked under; omitted means the default entity
+  entityId?: string;
+
+  // Server-side wizard draft this sale was built from, deleted once invoiced
+  draftId?: string;
+
+  // Accepting a quote: the quote's stored payload is invoiced instead of the body
+  quoteId?: string;
+}
+
 // ============================================================================
 // WIZARD STATE
 // ============================================================================
@@ -193,6 +291,10 @@ export type WizardState = {
   // Auto-set on creation; not user-editable in wizard
   saleDate: string; // ISO date
 
+  // Legal entity (Xero organisation) the sale is invoiced from (Step 0 —
+  // Client). Null means the default entity; only chosen when there are several.
+  entityId: string | null;
+
   // Tax scenario (from VAT engine, set on Step 3 — VAT & Logistics)
   taxScenario: {
     accountCode: string;
@@ -230,6 +332,13 @@ export type WizardState = {
   // Delivery cost
   hasDeliveryCost: boolean | null; // true = cost to be confirmed, false = free delivery
 
+  // Invoice currency (Step 2 — Pricing). Sell prices are entered in this
+  // currency; everything else stays GBP. Non-GBP sales need a rate (units
+  // per £1) — defaulted from the FX rate table or typed in by hand.
+  saleCurrency: string;
+  saleFxRate: number | null;
+  saleFxRateSource: FxRateSource | null;
+
   // Estimated shipping cost (Step 2 — Pricing)
   shippingCost: number; // Explicit shipping cost in GBP (0 = none)
 
@@ -0,0 +1,339 @@
+/**
+ * Club 19 Sales OS - Quarterly VAT Return Report
+ *
+ * Builds the sales side of a VAT return for one VAT quarter from `sales`,
+ * their branding theme and line items, in HMRC's nine-box layout:
+ *
+ *   Standard-rated (20%)  — Box 1 += VAT invoiced, Box 6 += net sale
+ *   Zero-rated exports    — Box 6 += net sale
+ *   Margin scheme         — Box 1 += VAT due on the margin (1/6),
+ *                           Box 6 += selling price less that VAT
+ *
+ * Boxes 4 and 7 (purchases) are not held in the OS and stay 0 — take them
+ * from Xero. Boxes 2, 8 and 9 (EU movements) are 0 for GB sales.
+ *
+ * Every sale is checked against calculateVAT() for its theme; sales whose
+ * stored VAT disagrees or whose theme is unknown are flagged. Unknown themes
+ * are left out of the totals. Credit notes reduce a sale's net value and
+ * output VAT by the share of the invoice credited (see creditRatio()), and
+ * the sale is flagged. Sale amounts are stored in GBP whatever the
+ * invoice currency; foreign-currency sales with no recorded FX rate are
+ * flagged for conversion. Each entity files its own return, so the report
+ * can be limited to one entity's sales. Read-only.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { buyers, lineItems, sales } from "@/db/schema";
+import { and, asc, eq, gte, inArray, isNull, lt } from "drizzle-orm";
+import { calculateVAT } from "@/lib/calculations/vat";
+import { calculateMarginSchemeVAT, isMarginSchemeTheme } from "@/lib/calculations/margin-scheme";
+import { getBrandingThemeMapping } from "@/lib/branding-theme-mappings";
+import { loadBrandingThemeRegistry } from "@/lib/branding-themes";
+import { creditRatio } from "@/lib/economics";
+import { addCurrency, multiplyCurrency, roundCurrency, subtractCurrency } from "@/lib/utils/currency";
+import { saleBelongsTo, type EntityDetail } from "@/lib/entities";
+import { ValidationError } from "@/lib/errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VatTreatment = "standard" | "zero_rated" | "margin_scheme" | "unclassified";
+
+/** One sale's contribution to the return. */
+export interface VatReturnSale {
+  saleId: string;
+  saleReference: string | null;
+  invoiceNumber: string | null;
+  saleDate: string;
+  buyerName: string;
+  themeName: string | null;
+  treatment: VatTreatment;
+  currency: string;
+  /** Box 6 contribution */
+  netValue: number;
+  /** Box 1 contribution */
+  outputVat: number;
+  /** VAT on the invoice as stored (inc − ex) */
+  storedVat: number;
+  /** VAT calculateVAT() expects on the invoice, or null for unknown themes */
+  calculatedVat: number | null;
+  /** Margin scheme only */
+  marginSchemeVat: number | null;
+  /** Share of the invoice credited by credit notes, 0–1 */
+  creditRatio: number;
+  items: string[];
+  flags: string[];
+}
+
+export interface VatReturnBox {
+  box: number;
+  label: string;
+  amount: number;
+  /** Sales behind the figure */
+  saleIds: string[];
+  note: string | null;
+}
+
+export interface VatReturn {
+  quarter: string;
+  /** The entity reported on, or null for every entity's sales */
+  entity: { id: string; name: string } | null;
+  periodStart: string;
+  /** Last day of the quarter */
+  periodEnd: string;
+  boxes: VatReturnBox[];
+  summary: {
+    standardNet: number;
+    standardVat: number;
+    zeroRatedNet: number;
+    marginSchemeSales: number;
+    marginSchemeVat: number;
+  };
+  sales: VatReturnSale[];
+  flaggedCount: number;
+}
+
+// ============================================================================
+// QUARTERS
+// ============================================================================
+
+/**
+ * First month (1-12) of Q1 in Club 19's VAT stagger. 1 = quarters ending
+ * Mar/Jun/Sep/Dec.
+ */
+const VAT_STAGGER_START_MONTH = 1;
+
+// Only invoices that have actually been issued create a tax point
+const ISSUED_STATUSES = ["SUBMITTED", "AUTHORISED", "PAID"];
+
+/** VAT quarter containing a date, as "YYYY-Qn". */
+export function vatQuarterOf(date: Date): string {
+  const offset = (date.getUTCMonth() - (VAT_STAGGER_START_MONTH - 1) + 12) % 12;
+  const year =
+    date.getUTCMonth() < VAT_STAGGER_START_MONTH - 1 ? date.getUTCFullYear() - 1 : date.getUTCFullYear();
+  return `${year}-Q${Math.floor(offset / 3) + 1}`;
+}
+
+/**
+ * Parse "YYYY-Qn" into the quarter's [start, end) dates.
+ * @throws ValidationError if the quarter isn't in that format
+ */
+export function vatQuarterRange(quarter: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-Q([1-4])$/.exec(quarter);
+  if (!match) {
+    throw new ValidationError("Quarter must be in the format YYYY-Qn", { quarter });
+  }
+  const year = Number(match[1]);
+  const startMonth = VAT_STAGGER_START_MONTH - 1 + (Number(match[2]) - 1) * 3;
+  return {
+    start: new Date(Date.UTC(year, startMonth, 1)),
+    end: new Date(Date.UTC(year, startMonth + 3, 1)),
+  };
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/** Boxes 6–9 are whole pounds on the return. */
+function wholePounds(amount: number): number {
+  return Math.trunc(amount);
+}
+
+/**
+ * Build the VAT return for a quarter. Includes non-deleted sales dated in the
+ * quarter whose invoice has been issued (SUBMITTED, AUTHORISED or PAID) and,
+ * given an entity, that belong to it.
+ */
+export async function buildVatReturn(
+  quarter: string,
+  entity: EntityDetail | null = null
+): Promise<VatReturn> {
+  const { start, end } = vatQuarterRange(quarter);
+  await loadBrandingThemeRegistry();
+
+  const rows = await db
+    .select({
+      id: sales.id,
+      saleReference: sales.saleReference,
+      xeroInvoiceNumber: sales.xeroInvoiceNumber,
+      saleDate: sales.saleDate,
+      buyerName: buyers.name,
+      brandingTheme: sales.brandingTheme,
+      currency: sales.currency,
+      fxRate: sales.fxRate,
+      saleAmountIncVat: sales.saleAmountIncVat,
+      saleAmountExVat: sales.saleAmountExVat,
+      buyPrice: sales.buyPrice,
+      marginSchemeEligible: sales.marginSchemeEligible,
+      xeroAmountPaid: sales.xeroAmountPaid,
+      xeroAmountDue: sales.xeroAmountDue,
+      xeroAmountCredited: sales.xeroAmountCredited,
+    })
+    .from(sales)
+    .leftJoin(buyers, eq(sales.buyerId, buyers.id))
+    .where(
+      and(
+        isNull(sales.deletedAt),
+        inArray(sales.invoiceStatus, ISSUED_STATUSES),
+        gte(sales.saleDate, start),
+        lt(sales.saleDate, end),
+        entity ? saleBelongsTo({ entityId: entity.id, isDefault: entity.isDefault }) : undefined
+      )
+    )
+    .orderBy(asc(sales.saleDate));
+
+  const items = rows.length
+    ? await db
+        .select({
+          saleId: lineItems.saleId,
+          description: lineItems.description,
+          quantity: lineItems.quantity,
+          sellPrice: lineItems.sellPrice,
+          buyPrice: lineItems.buyPrice,
+        })
+        .from(lineItems)
+        .where(inArray(lineItems.saleId, rows.map((row) => row.id)))
+        .orderBy(asc(lineItems.lineNumber))
+    : [];
+  const itemsBySale = new Map<string, typeof items>();
+  for (const item of items) {
+    const list = itemsBySale.get(item.saleId!) ?? [];
+    list.push(item);
+    itemsBySale.set(item.saleId!, list);
+  }
+
+  const reportSales: VatReturnSale[] = rows.map((row) => {
+    const saleItems = itemsBySale.get(row.id) ?? [];
+    const incVat = roundCurrency(row.saleAmountIncVat ?? 0);
+    const exVat = roundCurrency(row.saleAmountExVat ?? 0);
+    const storedVat = subtractCurrency(incVat, exVat);
+    const currency = row.currency || "GBP";
+    const credited = creditRatio(row);
+    const flags: string[] = [];
+
+    const mapping = getBrandingThemeMapping(row.brandingTheme);
+    let treatment: VatTreatment = "unclassified";
+    let calculatedVat: number | null = null;
+    let marginSchemeVat: number | null = null;
+    let netValue = 0;
+    let outputVat = 0;
+
+    if (!mapping) {
+      flags.push(
+        row.brandingTheme
+          ? `Unknown branding theme "${row.brandingTheme}" — left out of the totals`
+          : "No branding theme — left out of the totals"
+      );
+    } else {
+      calculatedVat = calculateVAT({ brandTheme: mapping.id, saleAmountExVat: exVat }).vatAmount;
+      if (Math.abs(storedVat - calculatedVat) > 0.01) {
+        flags.push(
+          `Stored VAT £${storedVat.toFixed(2)} does not match £${calculatedVat.toFixed(2)} for ${mapping.name}`
+        );
+      }
+
+      if (isMarginSchemeTheme(mapping)) {
+        // A credit note lowers the selling price, and with it the margin
+        const margin = calculateMarginSchemeVAT({
+          sellingPrice: multiplyCurrency(incVat, 1 - credited),
+          buyPrice: row.buyPrice,
+          eligible: row.marginSchemeEligible,
+        });
+        treatment = "margin_scheme";
+        marginSchemeVat = margin.vatDue;
+        outputVat = margin.vatDue;
+        netValue = subtractCurrency(multiplyCurrency(incVat, 1 - credited), margin.vatDue);
+        if (!margin.eligible) flags.push(`${margin.ineligibleReason} — VAT due on the full price`);
+        // Margins are per item: a loss on one line can't reduce VAT on another
+        if (saleItems.some((item) => (item.buyPrice ?? 0) > 0 && (item.sellPrice ?? 0) < (item.buyPrice ?? 0))) {
+          flags.push("Includes a loss-making item — check VAT per item, losses can't be offset");
+        }
+      } else if (mapping.expectedVAT > 0) {
+        treatment = "standard";
+        outputVat = multiplyCurrency(storedVat, 1 - credited);
+        netValue = multiplyCurrency(exVat, 1 - credited);
+      } else {
+        treatment = "zero_rated";
+        netValue = multiplyCurrency(exVat, 1 - credited);
+      }
+    }
+
+    if (credited > 0) {
+      flags.push(
+        `${(credited * 100).toFixed(0)}% of the invoice credited — net value and VAT reduced by that share`
+      );
+    }
+
+    // Foreign sales carry their GBP equivalent; older ones without a rate don't
+    if (currency !== "GBP" && !row.fxRate) {
+      flags.push(`Invoiced in ${currency} with no FX rate — convert to GBP before filing`);
+    }
+
+    return {
+      saleId: row.id,
+      saleReference: row.saleReference,
+      invoiceNumber: row.xeroInvoiceNumber,
+      saleDate: row.saleDate!.toISOString(),
+      buyerName: row.buyerName || "Unknown",
+      themeName: mapping?.name ?? null,
+      treatment,
+      currency,
+      netValue,
+      outputVat,
+      storedVat,
+      calculatedVat,
+      marginSchemeVat,
+      creditRatio: credited,
+      items: saleItems.map((item) =>
+        item.quantity && item.quantity > 1 ? `${item.quantity} × ${item.description}` : item.description || "—"
+      ),
+      flags,
+    };
+  });
+
+  const byTreatment = (treatment: VatTreatment) => reportSales.filter((s) => s.treatment === treatment);
+  const sum = (list: VatReturnSale[], field: "netValue" | "outputVat") =>
+    addCurrency(...list.map((s) => s[field]));
+
+  const standard = byTreatment("standard");
+  const zeroRated = byTreatment("zero_rated");
+  const marginScheme = byTreatment("margin_scheme");
+  const classified = [...standard, ...zeroRated, ...marginScheme];
+  const withVat = classified.filter((s) => s.outputVat !== 0);
+
+  const box1 = sum(withVat, "outputVat");
+  const box6 = sum(classified, "netValue");
+  const ids = (list: VatReturnSale[]) => list.map((s) => s.saleId);
+
+  const boxes: VatReturnBox[] = [
+    { box: 1, label: "VAT due on sales and other outputs", amount: box1, saleIds: ids(withVat), note: null },
+    { box: 2, label: "VAT due on acquisitions from EU member states", amount: 0, saleIds: [], note: "Not applicable to GB sales" },
+    { box: 3, label: "Total VAT due (Box 1 + Box 2)", amount: box1, saleIds: ids(withVat), note: null },
+    { box: 4, label: "VAT reclaimed on purchases and other inputs", amount: 0, saleIds: [], note: "Purchases are not held in the OS — take from Xero" },
+    { box: 5, label: "Net VAT to pay or reclaim (Box 3 − Box 4)", amount: box1, saleIds: ids(withVat), note: "Before Box 4 from Xero" },
+    { box: 6, label: "Total value of sales excluding VAT", amount: wholePounds(box6), saleIds: ids(classified), note: null },
+    { box: 7, label: "Total value of purchases excluding VAT", amount: 0, saleIds: [], note: "Purchases are not held in the OS — take from Xero" },
+    { box: 8, label: "Total value of supplies of goods to EU member states", amount: 0, saleIds: [], note: "Not applicable to GB sales" },
+    { box: 9, label: "Total value of acquisitions of goods from EU member states", amount: 0, saleIds: [], note: "Not applicable to GB sales" },
+  ];
+
+  return {
+    quarter,
+    entity: entity ? { id: entity.id, name: entity.name } : null,
+    periodStart: start.toISOString().slice(0, 10),
+    periodEnd: new Date(end.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    boxes,
+    summary: {
+      standardNet: sum(standard, "netValue"),
+      standardVat: sum(standard, "outputVat"),
+      zeroRatedNet: sum(zeroRated, "netValue"),
+      marginSchemeSales: addCurrency(...marginScheme.map((s) => addCurrency(s.netValue, s.outputVat))),
+      marginSchemeVat: sum(marginScheme, "outputVat"),
+    },
+    sales: reportSales,
+    flaggedCount: reportSales.filter((s) => s.flags.length > 0).length,
+  };
+}
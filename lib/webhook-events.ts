@@ -0,0 +1,354 @@
+/**
+ * Club 19 Sales OS - Durable Webhook Event Queue
+ *
+ * Every Xero webhook event is written to `webhook_events` before it is
+ * processed, so a failed Xero fetch or DB update leaves a `failed` row with
+ * the error instead of losing the event.
+ *
+ * - recordXeroWebhookDelivery() persists a verified delivery (one row per
+ *   event, duplicates ignored) or a rejected one (signature failed).
+ * - processWebhookEvent() claims one event and runs it through
+ *   handleXeroWebhookEvent(); the handler is idempotent.
+ * - processPendingWebhookEvents() is the cron worker: pending events, then
+ *   failed ones with attempts left.
+ * - replayWebhookEvent() is the admin "replay" button — runs any failed or
+ *   finished event again, regardless of attempts.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { errors, webhookEvents, type WebhookEventRecord } from "@/db/schema";
+import { and, asc, desc, eq, inArray, lt, or, sql } from "drizzle-orm";
+import { handleXeroWebhookEvent, type XeroWebhookEvent } from "@/lib/xero-webhook-handler";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WebhookEventStatus =
+  | "pending"
+  | "processing"
+  | "processed"
+  | "skipped"
+  | "failed"
+  | "rejected";
+
+/** An event row as the admin page shows it. */
+export interface WebhookEventDetail {
+  id: string;
+  source: string;
+  eventCategory: string | null;
+  eventType: string | null;
+  resourceId: string | null;
+  eventDate: string | null;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  payload: unknown;
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+export interface WebhookProcessSummary {
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+/** Automatic retries stop after this many attempts; replay ignores it. */
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+
+// A `processing` row older than this is assumed to belong to a worker that
+// died mid-event and may be claimed again.
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+function toDetail(row: WebhookEventRecord): WebhookEventDetail {
+  return {
+    id: row.id,
+    source: row.source,
+    eventCategory: row.eventCategory,
+    eventType: row.eventType,
+    resourceId: row.resourceId,
+    eventDate: row.eventDate ? row.eventDate.toISOString() : null,
+    signatureValid: row.signatureValid,
+    status: row.status as WebhookEventStatus,
+    attempts: row.attempts,
+    lastError: row.lastError,
+    payload: row.payload,
+    receivedAt: row.receivedAt.toISOString(),
+    processedAt: row.processedAt ? row.processedAt.toISOString() : null,
+  };
+}
+
+/** Same event, same key — Xero redeliveries collapse onto the first row. */
+function dedupeKey(event: XeroWebhookEvent): string {
+  return [
+    "xero",
+    event.tenantId ?? "",
+    event.eventCategory ?? "",
+    event.eventType ?? "",
+    event.resourceId ?? "",
+    event.eventDateUtc ?? "",
+  ].join(":");
+}
+
+// ============================================================================
+// RECORD
+// ============================================================================
+
+/**
+ * Persist the events of a signature-verified delivery. Events already in
+ * the queue are ignored.
+ *
+ * @returns IDs of the newly queued events, in delivery order
+ */
+export async function recordXeroWebhookDelivery(events: XeroWebhookEvent[]): Promise<string[]> {
+  if (events.length === 0) return [];
+
+  const rows = await db
+    .insert(webhookEvents)
+    .values(
+      events.map((event) => ({
+        source: "xero",
+        dedupeKey: dedupeKey(event),
+        eventCategory: event.eventCategory ?? null,
+        eventType: event.eventType ?? null,
+        resourceId: event.resourceId ?? null,
+        tenantId: event.tenantId ?? null,
+        eventDate: event.eventDateUtc ? new Date(event.eventDateUtc) : null,
+        payload: event,
+        signatureValid: true,
+        status: "pending",
+      }))
+    )
+    .onConflictDoNothing({ target: webhookEvents.dedupeKey })
+    .returning({ id: webhookEvents.id });
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Keep a delivery that failed signature verification, for the audit trail.
+ * Stored once per delivery with the raw body; never processed.
+ */
+export async function recordRejectedWebhookDelivery(rawBody: string): Promise<void> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    payload = { raw: rawBody };
+  }
+
+  await db.insert(webhookEvents).values({
+    source: "xero",
+    payload: payload ?? { raw: rawBody },
+    signatureValid: false,
+    status: "rejected",
+    lastError: "Invalid signature",
+  });
+}
+
+// ============================================================================
+// PROCESS
+// ============================================================================
+
+/**
+ * Claim an event for processing. Returns null if another worker holds it
+ * or it isn't in a claimable state.
+ */
+async function claimEvent(
+  id: string,
+  claimable: WebhookEventStatus[]
+): Promise<WebhookEventRecord | null> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+  const [row] = await db
+    .update(webhookEvents)
+    .set({
+      status: "processing",
+      attempts: sql`${webhookEvents.attempts} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(webhookEvents.id, id),
+        eq(webhookEvents.signatureValid, true),
+        or(
+          inArray(webhookEvents.status, claimable),
+          and(eq(webhookEvents.status, "processing"), lt(webhookEvents.updatedAt, staleBefore))
+        )
+      )
+    )
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Process one queued event. Failures are recorded on the row (and in
+ * `errors` once automatic retries run out) rather than thrown.
+ *
+ * @returns The event's status afterwards, or null if it couldn't be claimed
+ */
+export async function processWebhookEvent(
+  id: string,
+  claimable: WebhookEventStatus[] = ["pending", "failed"]
+): Promise<WebhookEventStatus | null> {
+  const row = await claimEvent(id, claimable);
+  if (!row) return null;
+
+  const event = row.payload as XeroWebhookEvent;
+
+  try {
+    const outcome = await handleXeroWebhookEvent(event);
+    const status: WebhookEventStatus = outcome.status;
+
+    await db
+      .update(webhookEvents)
+      .set({
+        status,
+        lastError: outcome.status === "skipped" ? outcome.reason : null,
+        processedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEvents.id, row.id));
+
+    return status;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    logger.error("WEBHOOK_EVENTS", "Event processing failed", {
+      eventId: row.id,
+      attempts: row.attempts,
+      resourceId: row.resourceId,
+      eventType: row.eventType,
+      error: message,
+    });
+
+    await db
+      .update(webhookEvents)
+      .set({ status: "failed", lastError: message, updatedAt: new Date() })
+      .where(eq(webhookEvents.id, row.id));
+
+    // Raise it for admins once the worker gives up on it
+    if (row.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      const isAuthError = message.includes("Xero session expired") || message.includes("reconnect Xero");
+      try {
+        await db.insert(errors).values({
+          severity: isAuthError ? "high" : "medium",
+          source: "xero-webhook",
+          message: [
+            `Event processing error: ${message}`,
+            `Event type: ${row.eventType}`,
+            `Invoice ID: ${row.resourceId}`,
+            `Gave up after ${row.attempts} attempts — replay from /staff/admin/webhooks`,
+            isAuthError ? "ACTION REQUIRED: Admin must reconnect Xero at /admin/xero" : "",
+          ].filter(Boolean),
+          timestamp: new Date(),
+          resolved: false,
+        });
+      } catch (logErr) {
+        logger.error("WEBHOOK_EVENTS", "Failed to log error", {
+          error: logErr instanceof Error ? logErr.message : "Unknown error",
+        });
+      }
+    }
+
+    return "failed";
+  }
+}
+
+/**
+ * Process a batch of events in order, one at a time.
+ */
+export async function processWebhookEvents(ids: string[]): Promise<WebhookProcessSummary> {
+  const summary: WebhookProcessSummary = { processed: 0, skipped: 0, failed: 0 };
+  for (const id of ids) {
+    const status = await processWebhookEvent(id);
+    if (status === "processed" || status === "skipped" || status === "failed") {
+      summary[status]++;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Worker pass: pending events, then failed events with attempts left (and
+ * events stuck in `processing`), oldest first.
+ */
+export async function processPendingWebhookEvents(limit = 50): Promise<WebhookProcessSummary> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+  const rows = await db
+    .select({ id: webhookEvents.id })
+    .from(webhookEvents)
+    .where(
+      and(
+        eq(webhookEvents.signatureValid, true),
+        or(
+          eq(webhookEvents.status, "pending"),
+          and(eq(webhookEvents.status, "failed"), lt(webhookEvents.attempts, MAX_WEBHOOK_ATTEMPTS)),
+          and(eq(webhookEvents.status, "processing"), lt(webhookEvents.updatedAt, staleBefore))
+        )
+      )
+    )
+    .orderBy(asc(webhookEvents.receivedAt))
+    .limit(limit);
+
+  return processWebhookEvents(rows.map((row) => row.id));
+}
+
+/**
+ * Run an event again on request, whatever its attempts.
+ * @throws NotFoundError if there is no such event
+ * @throws ValidationError if it was rejected or is being processed
+ */
+export async function replayWebhookEvent(id: string): Promise<WebhookEventDetail> {
+  const [existing] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id)).limit(1);
+  if (!existing) {
+    throw new NotFoundError("Webhook event", { id });
+  }
+  if (!existing.signatureValid) {
+    throw new ValidationError("Events that failed signature verification can't be replayed", { id });
+  }
+
+  const status = await processWebhookEvent(id, ["pending", "failed", "processed", "skipped"]);
+  if (status === null) {
+    throw new ValidationError("Event is already being processed", { id });
+  }
+
+  logger.info("WEBHOOK_EVENTS", "Event replayed", { eventId: id, status });
+
+  const [row] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id)).limit(1);
+  return toDetail(row);
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Events, newest first.
+ * @param status - Only events in this status, when given
+ */
+export async function listWebhookEvents(
+  status?: WebhookEventStatus,
+  limit = 200
+): Promise<WebhookEventDetail[]> {
+  const rows = await db
+    .select()
+    .from(webhookEvents)
+    .where(status ? eq(webhookEvents.status, status) : undefined)
+    .orderBy(desc(webhookEvents.receivedAt))
+    .limit(limit);
+  return rows.map(toDetail);
+}
+
+/** Count of events per status, for the admin page filters. */
+export async function countWebhookEventsByStatus(): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ status: webhookEvents.status, count: sql<number>`count(*)::int` })
+    .from(webhookEvents)
+    .groupBy(webhookEvents.status);
+  return Object.fromEntries(rows.map((row) => [row.status, row.count]));
+}
@@ -18,7 +18,6 @@ import {
   suppliers,
   introducers,
   introducerCommissionEdits,
-  commissionBands,
   sales,
   errors,
   lineItems,
@@ -56,7 +55,7 @@ export type CommissionBandsRecord = CommissionBand;
 export type SalesRecord = Sale;
 export type LineItemsRecord = LineItem;
 
-import { calculateCommission } from "./commission-engine";
+import { storeProvisionalCommission } from "./sale-commission";
 import { transitionSaleStatus } from "./deal-lifecycle";
 import { validateSaleInput, formatValidationErrors } from "./validation";
 import { ERROR_TYPES, ERROR_TRIGGERED_BY, ERROR_GROUPS } from "./error-types";
@@ -67,6 +66,8 @@ import {
   sanitizeOptional,
 } from "./sanitize";
 import { calculateSaleEconomics as calculateEconomics } from "./economics";
+import { flagUnknownBrandingTheme, loadBrandingThemeRegistry } from "./branding-themes";
+import { toBaseCurrency, type FxRateSource } from "./calculations/fx";
 import * as logger from "./logger";
 
 // ============================================================================
@@ -348,43 +349,6 @@ export async function getOrCreateIntroducer(
   return created;
 }
 
-// ============================================================================
-// UPSTREAM TABLE HELPERS - COMMISSION BANDS
-// ============================================================================
-
-export async function getCommissionBandForMargin(
-  margin: number
-): Promise<CommissionBand | null> {
-  // ORIGINAL XATA:
-  // const bands = await xata().db.CommissionBands.getAll();
-  //
-  // for (const band of bands) {
-  //   if (
-  //     margin >= (band.min_threshold || 0) &&
-  //     margin <= (band.max_threshold || Infinity)
-  //   ) {
-  //     return band;
-  //   }
-  // }
-  //
-  // return null;
-
-  // DRIZZLE:
-  // Find the band where margin falls between min and max threshold
-  const bands = await db.select().from(commissionBands);
-
-  for (const band of bands) {
-    if (
-      margin >= (band.minThreshold || 0) &&
-      margin <= (band.maxThreshold || Infinity)
-    ) {
-      return band;
-    }
-  }
-
-  return null;
-}
-
 // ============================================================================
 // SALE ECONOMICS CALCULATION
 // ============================================================================
@@ -489,9 +453,18 @@ export interface CreateSalePayload {
   buy_price: number;
   card_fees?: number;
   shipping_cost?: number;
+  /** Implied cost route the wizard costed the sale on, e.g. "EU_UK" */
+  implied_shipping_route?: string;
 
   // Xero metadata
+  /** Trading entity whose Xero organisation holds the invoice (null = default) */
+  entity_id?: string;
   currency?: string;
+  /** Non-GBP sales: rate the amounts above were converted at (units per £1) */
+  fx_rate?: number;
+  fx_rate_source?: FxRateSource;
+  /** Non-GBP sales: invoice total in `currency` */
+  invoice_amount_inc_vat?: number;
   branding_theme?: string;
   xero_invoice_number?: string;
   xero_invoice_id?: string;
@@ -594,6 +567,7 @@ export async function createSaleFromAppPayload(
 
   // B) COMPUTE ECONOMICS
   logger.info("XATA", "Computing economics");
+  await loadBrandingThemeRegistry();
 
   const economics = calculateSaleEconomics({
     sale_amount_inc_vat: sanitizedPayload.sale_amount_inc_vat,
@@ -612,46 +586,6 @@ export async function createSaleFromAppPayload(
     commissionableMargin: economics.commissionable_margin.toFixed(2)
   });
 
-  // Find commission band based on commissionable margin
-  const commissionBand = await getCommissionBandForMargin(
-    economics.commissionable_margin
-  );
-  if (commissionBand) {
-    logger.info("XATA", "Commission band found", {
-      bandType: commissionBand.bandType,
-      commissionPercent: commissionBand.commissionPercent
-    });
-  }
-
-  // C) CALCULATE COMMISSION
-  logger.info("XATA", "Calculating commission");
-
-  const commissionResult = await calculateCommission({
-    commissionable_margin: economics.commissionable_margin,
-    introducer: introducer && introducer.commissionPercent != null ? {
-      commission_percent: introducer.commissionPercent,
-    } : null,
-    commission_band: commissionBand && commissionBand.commissionPercent != null ? {
-      commission_percent: commissionBand.commissionPercent,
-    } : null,
-    admin_override_commission_percent: sanitizedPayload.admin_override_commission_percent ?? null,
-    admin_override_notes: sanitizedPayload.admin_override_notes ?? null,
-  });
-
-  logger.info("XATA", "Commission calculated", {
-    commissionAmount: commissionResult.commission_amount,
-    shopperCommission: commissionResult.commission_split_shopper,
-    introducerCommission: commissionResult.commission_split_introducer
-  });
-
-  // Check for commission calculation errors
-  const hasCommissionErrors = commissionResult.errors.length > 0;
-  if (hasCommissionErrors) {
-    logger.error("XATA", "Commission calculation errors", {
-      errors: commissionResult.errors.join("; ")
-    });
-  }
-
   // D) INSERT INTO SALES TABLE
   logger.info("XATA", "Creating sale record");
 
@@ -664,7 +598,6 @@ export async function createSaleFromAppPayload(
   //   buyer: buyer.id,
   //   supplier: supplier.id,
   //   introducer: introducer?.id,
-  //   commission_band: commissionBand?.id,
   //   ... (all other fields)
   // });
 
@@ -682,7 +615,6 @@ export async function createSaleFromAppPayload(
       buyerId: buyer.id,
       supplierId: supplier.id,
       introducerId: introducer?.id,
-      commissionBandId: commissionBand?.id,
 
       // Item metadata
       brand: sanitizedPayload.brand || "",
@@ -700,26 +632,28 @@ export async function createSaleFromAppPayload(
 
       // Economics
       impliedShipping: economics.implied_shipping,
+      impliedShippingRoute: sanitizedPayload.implied_shipping_route ?? null,
       grossMargin: economics.gross_margin,
       commissionableMargin: economics.commissionable_margin,
 
-      // Commission (from Commission Engine V1)
-      commissionAmount: commissionResult.commission_amount,
-      commissionSplitIntroducer: commissionResult.commission_split_introducer,
-      commissionSplitShopper: commissionResult.commission_split_shopper,
-      introducerSharePercent: commissionResult.introducer_share_percent,
-      adminOverrideCommissionPercent: commissionResult.admin_override_commission_percent,
-      adminOverrideNotes: commissionResult.admin_override_notes ? [commissionResult.admin_override_notes] : undefined,
+      // Commission: the provisional V2 figure is written straight after
+      // insert (it depends on the month's other sales, including this one).
+      // Overrides are recorded as entered; the V2 engine doesn't apply them.
+      adminOverrideCommissionPercent: sanitizedPayload.admin_override_commission_percent,
+      adminOverrideNotes: sanitizedPayload.admin_override_notes ? [sanitizedPayload.admin_override_notes] : undefined,
 
       // Status (default to "invoiced" for new sales)
       status: "invoiced",
 
-      // Error tracking
-      errorFlag: hasCommissionErrors,
-      errorMessage: hasCommissionErrors ? commissionResult.errors : undefined,
+      // Error tracking (validation errors are flagged below)
+      errorFlag: false,
 
       // Xero metadata
+      entityId: sanitizedPayload.entity_id ?? null,
       currency: sanitizedPayload.currency || "GBP",
+      fxRate: sanitizedPayload.fx_rate ?? null,
+      fxRateSource: sanitizedPayload.fx_rate_source ?? null,
+      invoiceAmountIncVat: sanitizedPayload.invoice_amount_inc_vat ?? null,
       brandingTheme: sanitizedPayload.branding_theme || "",
       xeroInvoiceNumber: sanitizedPayload.xero_invoice_number || "",
       xeroInvoiceId: sanitizedPayload.xero_invoice_id || "",
@@ -765,6 +699,18 @@ export async function createSaleFromAppPayload(
 
   logger.info("XATA", "Sale created", { saleId: sale.id });
 
+  // D2) PROVISIONAL COMMISSION (V2) — needs the inserted row
+  let commissionError: string | null = null;
+  try {
+    sale.commissionAmount = await storeProvisionalCommission(sale.id);
+  } catch (err) {
+    commissionError = err instanceof Error ? err.message : "Unknown error";
+    logger.error("XATA", "Provisional commission calculation failed", {
+      saleId: sale.id,
+      error: commissionError,
+    });
+  }
+
   // Phase B (May 2026): persist the auto-link decision to the audit log.
   // One row per linked sale, event_type='auto_link', linked_introducer_id
   // set to the resolved curated record. previous/new value left null —
@@ -847,9 +793,9 @@ export async function createSaleFromAppPayload(
   }
 
   // F) LOG COMMISSION ERRORS TO ERRORS TABLE
-  if (hasCommissionErrors) {
+  if (commissionError) {
     try {
-      const errorMessage = commissionResult.errors.join("; ");
+      const errorMessage = `Provisional commission calculation failed: ${commissionError}`;
 
       // ORIGINAL XATA:
       // await xata().db.Errors.create({
@@ -923,6 +869,9 @@ export async function createSaleFromAppPayload(
     }
   }
 
+  // Economics above took an unknown theme at 20% VAT
+  await flagUnknownBrandingTheme(sale.id, sanitizedPayload.branding_theme);
+
   // G) RETURN THE CREATED SALE RECORD
   return sale;
 }
@@ -940,6 +889,8 @@ export interface XeroInvoiceData {
     EmailAddress?: string;
   };
   CurrencyCode?: string;
+  /** Invoice-currency units per £1 — set for non-GBP invoices */
+  CurrencyRate?: number;
   BrandingThemeID?: string;
   InvoiceID: string;
   Status: string;
@@ -971,6 +922,7 @@ export interface AppFormData {
   buyPrice: number;
   cardFees?: number;
   shippingCost?: number;
+  impliedShippingRoute?: string;
 
   // Payment
   paymentMethod?: string;
@@ -994,6 +946,10 @@ export interface AppFormData {
   introducerFeePercent?: number;
   /** Whether the wizard captured the fee as % of profit or flat £. Stored on sales.introducer_fee_type. */
   introducerFeeType?: "percent" | "flat";
+  /** Non-GBP sales: whether the rate came from the rate table or was typed in. Stored on sales.fx_rate_source. */
+  fxRateSource?: FxRateSource;
+  /** Trading entity the invoice was raised under. Stored on sales.entity_id. */
+  entityId?: string;
 }
 
 export async function syncInvoiceAndAppDataToXata(params: {
@@ -1016,6 +972,12 @@ export async function syncInvoiceAndAppDataToXata(params: {
       return null;
     }
 
+    // Non-GBP invoices are stored in GBP at the invoice's rate
+    const fxRate =
+      params.xeroInvoice.CurrencyCode && params.xeroInvoice.CurrencyCode !== "GBP"
+        ? params.xeroInvoice.CurrencyRate
+        : undefined;
+
     const payload: CreateSalePayload = {
       // Core identifiers from Xero
       sale_reference: params.xeroInvoice.InvoiceNumber,
@@ -1041,16 +1003,21 @@ export async function syncInvoiceAndAppDataToXata(params: {
       quantity: params.formData.quantity,
 
       // Financial data
-      sale_amount_inc_vat: params.xeroInvoice.Total,
+      sale_amount_inc_vat: toBaseCurrency(params.xeroInvoice.Total, fxRate),
       buy_price: params.formData.buyPrice,
       card_fees: params.formData.cardFees,
       shipping_cost: params.formData.shippingCost,
+      implied_shipping_route: params.formData.impliedShippingRoute,
 
       // Payment
       payment_method: params.formData.paymentMethod,
 
       // Xero metadata
+      entity_id: params.formData.entityId,
       currency: params.xeroInvoice.CurrencyCode,
+      fx_rate: fxRate,
+      fx_rate_source: fxRate ? params.formData.fxRateSource ?? "xero" : undefined,
+      invoice_amount_inc_vat: fxRate ? params.xeroInvoice.Total : undefined,
       branding_theme: params.xeroInvoice.BrandingThemeID,
       xero_invoice_number: params.xeroInvoice.InvoiceNumber,
       xero_invoice_id: params.xeroInvoice.InvoiceID,
@@ -1101,6 +1068,11 @@ export interface LineItemData {
   supplierId?: string;
   supplierInvoiceRef?: string;
   datePurchased?: string;
+  /** Original buy currency, amount and rate; buyPrice is always GBP */
+  buyCurrency?: string;
+  buyPriceOriginal?: number;
+  buyFxRate?: number;
+  buyFxRateSource?: string;
 }
 
 /**
@@ -1161,6 +1133,10 @@ export async function saveLineItems(
           supplierId: item.supplierId || undefined,
           supplierInvoiceRef: item.supplierInvoiceRef || undefined,
           datePurchased: item.datePurchased ? new Date(item.datePurchased) : undefined,
+          buyCurrency: item.buyCurrency || undefined,
+          buyPriceOriginal: item.buyPriceOriginal,
+          buyFxRate: item.buyFxRate,
+          buyFxRateSource: item.buyFxRateSource,
         })
         .returning();
 
@@ -1200,6 +1176,9 @@ export interface LineItemLegacy {
   sell_price: number | null;
   line_total: number | null;
   line_margin: number | null;
+  buy_currency: string | null;
+  buy_price_original: number | null;
+  buy_fx_rate: number | null;
   supplier?: { id: string | null; name?: string | null } | null;
 }
 
@@ -1239,6 +1218,9 @@ export async function getLineItemsForSale(
     sell_price: item.sellPrice,
     line_total: item.lineTotal,
     line_margin: item.lineMargin,
+    buy_currency: item.buyCurrency,
+    buy_price_original: item.buyPriceOriginal,
+    buy_fx_rate: item.buyFxRate,
     supplier: item.supplierId ? { id: item.supplierId } : null,
   }));
 }
@@ -1,5 +1,6 @@
 import * as logger from './logger';
 import { clerkClient } from "@clerk/nextjs/server";
+import { xeroTokenUrl } from './xero-endpoints';
 
 /**
  * STAGE 1: Single Integration User Architecture
@@ -11,22 +12,39 @@ import { clerkClient } from "@clerk/nextjs/server";
  * - No user scanning (faster, more reliable)
  * - Single source of truth for tokens
  * - Cron-only refresh prevents race conditions
+ *
+ * MULTI-TENANT: the integration user holds tokens for every connected Xero
+ * organisation, keyed by tenant ID. Functions take an optional tenantId;
+ * without one they use the default tenant (the first connected, or the one
+ * set with setDefaultXeroTenant()). Tokens saved before multi-tenant support
+ * sit in the single `xero` slot — they are read as a tenant and moved into
+ * `xeroTenants` on the next save.
  */
 const INTEGRATION_USER_ID = process.env.XERO_INTEGRATION_CLERK_USER_ID;
 
+/**
+ * One tenant's tokens as stored in Clerk privateMetadata
+ */
+interface StoredXeroTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  tenantId: string;
+  tenantName?: string;
+  connectedAt?: number;
+  refreshedAt?: number; // Timestamp of last successful refresh
+}
+
 /**
  * Type-safe Xero metadata stored in Clerk privateMetadata
  */
 interface XeroMetadata {
-  xero?: {
-    accessToken: string;
-    refreshToken: string;
-    expiresAt: number;
-    tenantId: string;
-    tenantName?: string;
-    connectedAt?: number;
-    refreshedAt?: number; // Timestamp of last successful refresh
-  };
+  /** Single-tenant slot from before multi-tenant support */
+  xero?: StoredXeroTokens | null;
+  /** Connected tenants, keyed by tenant ID */
+  xeroTenants?: Record<string, StoredXeroTokens>;
+  /** Tenant used when a caller doesn't name one */
+  xeroDefaultTenantId?: string;
 }
 
 /**
@@ -41,6 +59,18 @@ export interface XeroTokens {
   refreshedAt?: number; // Timestamp of last successful refresh
 }
 
+/**
+ * A connected Xero organisation, without its tokens
+ */
+export interface XeroConnectionSummary {
+  tenantId: string;
+  tenantName?: string;
+  isDefault: boolean;
+  connectedAt?: number;
+  refreshedAt?: number;
+  expiresAt: number;
+}
+
 /**
  * Xero token refresh response
  */
@@ -51,6 +81,52 @@ interface XeroTokenResponse {
   token_type: string;
 }
 
+function isComplete(tokens: StoredXeroTokens | null | undefined): tokens is StoredXeroTokens {
+  return !!(tokens?.accessToken && tokens?.refreshToken && tokens?.tenantId);
+}
+
+/**
+ * Every connected tenant, including one still in the legacy `xero` slot
+ */
+function storedTenants(meta: XeroMetadata): Record<string, StoredXeroTokens> {
+  const tenants: Record<string, StoredXeroTokens> = {};
+  for (const [tenantId, tokens] of Object.entries(meta.xeroTenants ?? {})) {
+    if (isComplete(tokens)) tenants[tenantId] = tokens;
+  }
+  if (isComplete(meta.xero) && !tenants[meta.xero.tenantId]) {
+    tenants[meta.xero.tenantId] = meta.xero;
+  }
+  return tenants;
+}
+
+function defaultTenantId(meta: XeroMetadata): string | null {
+  const tenants = storedTenants(meta);
+  if (meta.xeroDefaultTenantId && tenants[meta.xeroDefaultTenantId]) {
+    return meta.xeroDefaultTenantId;
+  }
+  if (isComplete(meta.xero)) return meta.xero.tenantId;
+  return Object.keys(tenants)[0] ?? null;
+}
+
+/**
+ * A tenant's stored tokens — the default tenant's when none is named
+ */
+function storedTokensFor(meta: XeroMetadata, tenantId?: string): StoredXeroTokens | null {
+  const id = tenantId ?? defaultTenantId(meta);
+  return id ? storedTenants(meta)[id] ?? null : null;
+}
+
+function toXeroTokens(stored: StoredXeroTokens): XeroTokens {
+  return {
+    accessToken: stored.accessToken,
+    refreshToken: stored.refreshToken,
+    expiresAt: stored.expiresAt,
+    tenantId: stored.tenantId,
+    tenantName: stored.tenantName,
+    refreshedAt: stored.refreshedAt,
+  };
+}
+
 /**
  * Get Xero tokens from the designated integration user
  *
@@ -58,9 +134,10 @@ interface XeroTokenResponse {
  * This is faster, more reliable, and prevents race conditions.
  *
  * @param _userId - Ignored in Stage 1 (kept for API compatibility)
+ * @param tenantId - Xero organisation; the default tenant if omitted
  * @throws Error if integration user not configured or Xero not connected
  */
-export async function getTokens(_userId: string): Promise<XeroTokens> {
+export async function getTokens(_userId: string, tenantId?: string): Promise<XeroTokens> {
   // Stage 1: Use integration user directly
   if (!INTEGRATION_USER_ID) {
     logger.error('XERO_AUTH', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
@@ -70,18 +147,16 @@ export async function getTokens(_userId: string): Promise<XeroTokens> {
   logger.info('XERO_AUTH', `Getting tokens from integration user: ${INTEGRATION_USER_ID}`);
 
   const user = await clerkClient.users.getUser(INTEGRATION_USER_ID);
-  const meta = user.privateMetadata as XeroMetadata;
+  const stored = storedTokensFor(user.privateMetadata as XeroMetadata, tenantId);
 
-  if (meta.xero?.accessToken && meta.xero?.refreshToken && meta.xero?.tenantId) {
-    logger.info('XERO_AUTH', `Tokens found for integration user, tenant: ${meta.xero.tenantId}`);
-    return {
-      accessToken: meta.xero.accessToken,
-      refreshToken: meta.xero.refreshToken,
-      expiresAt: meta.xero.expiresAt,
-      tenantId: meta.xero.tenantId,
-      tenantName: meta.xero.tenantName,
-      refreshedAt: meta.xero.refreshedAt,
-    };
+  if (stored) {
+    logger.info('XERO_AUTH', `Tokens found for integration user, tenant: ${stored.tenantId}`);
+    return toXeroTokens(stored);
+  }
+
+  if (tenantId) {
+    logger.error('XERO_AUTH', 'Xero organisation not connected', { tenantId });
+    throw new Error("Xero organisation not connected. Please connect it in Xero settings.");
   }
 
   // Integration user exists but no Xero connection
@@ -90,40 +165,58 @@ export async function getTokens(_userId: string): Promise<XeroTokens> {
 }
 
 /**
- * Save Xero tokens to Clerk metadata
+ * Save Xero tokens to Clerk metadata. Other tenants' tokens are kept; the
+ * first tenant ever saved becomes the default.
  * @param userId - User ID to save tokens to (should be integration user)
- * @param tokens - Token data to save
+ * @param tokens - Token data to save, one entry per tenant
  * @param isRefresh - If true, updates refreshedAt instead of connectedAt
  */
-export async function saveTokens(userId: string, tokens: XeroTokens, isRefresh: boolean = false): Promise<void> {
-  logger.info('XERO_AUTH', `Saving tokens for user: ${userId} (isRefresh: ${isRefresh})`);
+export async function saveTokens(
+  userId: string,
+  tokens: XeroTokens | XeroTokens[],
+  isRefresh: boolean = false
+): Promise<void> {
+  const updates = Array.isArray(tokens) ? tokens : [tokens];
+  logger.info('XERO_AUTH', `Saving tokens for user: ${userId} (isRefresh: ${isRefresh})`, {
+    tenantIds: updates.map((t) => t.tenantId),
+  });
+  if (updates.length === 0) return;
 
   // Get existing metadata to preserve connectedAt on refresh
   const user = await clerkClient.users.getUser(userId);
   const existingMeta = user.privateMetadata as XeroMetadata;
-  const existingConnectedAt = existingMeta.xero?.connectedAt;
+  const tenants = storedTenants(existingMeta);
 
   const now = Date.now();
 
+  for (const update of updates) {
+    const existingConnectedAt = tenants[update.tenantId]?.connectedAt;
+    tenants[update.tenantId] = {
+      accessToken: update.accessToken,
+      refreshToken: update.refreshToken,
+      expiresAt: update.expiresAt,
+      tenantId: update.tenantId,
+      tenantName: update.tenantName,
+      // Preserve original connection date on refresh, set new one on initial connect
+      connectedAt: isRefresh && existingConnectedAt ? existingConnectedAt : now,
+      // Track when tokens were last refreshed
+      refreshedAt: now,
+    };
+  }
+
   await clerkClient.users.updateUser(userId, {
     privateMetadata: {
-      xero: {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        expiresAt: tokens.expiresAt,
-        tenantId: tokens.tenantId,
-        tenantName: tokens.tenantName,
-        // Preserve original connection date on refresh, set new one on initial connect
-        connectedAt: isRefresh && existingConnectedAt ? existingConnectedAt : now,
-        // Track when tokens were last refreshed
-        refreshedAt: now,
-      },
+      ...existingMeta,
+      // Moved into xeroTenants
+      xero: null,
+      xeroTenants: tenants,
+      xeroDefaultTenantId: defaultTenantId(existingMeta) ?? updates[0].tenantId,
     },
   });
 
   logger.info('XERO_AUTH', 'Tokens saved successfully', {
     refreshedAt: new Date(now).toISOString(),
-    expiresAt: new Date(tokens.expiresAt).toISOString(),
+    expiresAt: new Date(updates[0].expiresAt).toISOString(),
   });
 }
 
@@ -141,6 +234,8 @@ function getIntegrationUserId(): string | null {
 interface RefreshOptions {
   /** Set to true when called from cron job - ONLY cron can perform actual refresh */
   forceCron?: boolean;
+  /** Xero organisation; the default tenant if omitted */
+  tenantId?: string;
 }
 
 /**
@@ -151,6 +246,9 @@ interface RefreshOptions {
  * To prevent race conditions, only the cron job can actually refresh tokens.
  * API calls will just return existing tokens (which should be fresh from cron).
  *
+ * Tenants connected in the same OAuth grant share a refresh token, and
+ * refreshing rotates it — so every tenant holding the old one is updated.
+ *
  * @param userId - Ignored in Stage 1, uses integration user
  * @param options - Pass { forceCron: true } from cron job to allow actual refresh
  * @throws Error if refresh fails
@@ -160,13 +258,13 @@ export async function refreshTokens(userId: string, options?: RefreshOptions): P
   if (!options?.forceCron) {
     logger.info('XERO_AUTH', 'Token refresh skipped - only cron can refresh to prevent race conditions');
     // Return existing tokens instead of refreshing
-    return await getTokens(userId);
+    return await getTokens(userId, options?.tenantId);
   }
 
-  logger.info('XERO_AUTH', `Refreshing tokens (forceCron=true)`);
+  logger.info('XERO_AUTH', `Refreshing tokens (forceCron=true)`, { tenantId: options.tenantId });
 
   // Get current tokens from integration user
-  const currentTokens = await getTokens(userId);
+  const currentTokens = await getTokens(userId, options.tenantId);
 
   // Use integration user for saving refreshed tokens
   const integrationUserId = getIntegrationUserId();
@@ -187,7 +285,7 @@ export async function refreshTokens(userId: string, options?: RefreshOptions): P
 
   try {
     logger.info('XERO_AUTH', 'Calling Xero token refresh endpoint...');
-    const refreshResponse = await fetch("https://identity.xero.com/connect/token", {
+    const refreshResponse = await fetch(xeroTokenUrl(), {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -231,9 +329,15 @@ export async function refreshTokens(userId: string, options?: RefreshOptions): P
       refreshedAt: now,
     };
 
+    // Other tenants on the same grant get the rotated tokens too
+    const integrationUser = await clerkClient.users.getUser(integrationUserId);
+    const sameGrant = Object.values(storedTenants(integrationUser.privateMetadata as XeroMetadata))
+      .filter((t) => t.tenantId !== newTokens.tenantId && t.refreshToken === currentTokens.refreshToken)
+      .map((t) => ({ ...newTokens, tenantId: t.tenantId, tenantName: t.tenantName }));
+
     // Save to the integration user's account
     // Pass isRefresh=true to preserve original connectedAt timestamp
-    await saveTokens(integrationUserId, newTokens, true);
+    await saveTokens(integrationUserId, [newTokens, ...sameGrant], true);
     logger.info('XERO_AUTH', `Refreshed tokens saved to integration user: ${integrationUserId}`);
 
     return newTokens;
@@ -248,14 +352,15 @@ export async function refreshTokens(userId: string, options?: RefreshOptions): P
  * This is the main function to use in API routes
  *
  * @param userId - Clerk user ID
+ * @param tenantId - Xero organisation; the default tenant if omitted
  * @returns Valid access token and tenant ID
  * @throws Error if Xero is not connected or refresh fails
  */
-export async function getValidTokens(userId: string): Promise<XeroTokens> {
-  logger.info('XERO_AUTH', `Getting valid tokens for user: ${userId}`);
+export async function getValidTokens(userId: string, tenantId?: string): Promise<XeroTokens> {
+  logger.info('XERO_AUTH', `Getting valid tokens for user: ${userId}`, { tenantId });
 
   // Get current tokens
-  const tokens = await getTokens(userId);
+  const tokens = await getTokens(userId, tenantId);
 
   // Defensive check: if expiresAt is missing or invalid, force refresh
   if (!tokens.expiresAt || typeof tokens.expiresAt !== 'number') {
@@ -263,7 +368,7 @@ export async function getValidTokens(userId: string): Promise<XeroTokens> {
       expiresAt: tokens.expiresAt,
       type: typeof tokens.expiresAt,
     });
-    return await refreshTokens(userId);
+    return await refreshTokens(userId, { tenantId: tokens.tenantId });
   }
 
   // Check if token needs refresh (10 minutes before expiry for proactive refresh)
@@ -287,7 +392,7 @@ export async function getValidTokens(userId: string): Promise<XeroTokens> {
 
   // Token expired or about to expire, refresh it
   logger.info('XERO_AUTH', 'Token expiring soon, refreshing proactively...');
-  return await refreshTokens(userId);
+  return await refreshTokens(userId, { tenantId: tokens.tenantId });
 }
 
 /**
@@ -296,9 +401,10 @@ export async function getValidTokens(userId: string): Promise<XeroTokens> {
  * STAGE 1: Checks integration user directly instead of scanning all users.
  *
  * @param _userId - Ignored in Stage 1
+ * @param tenantId - Xero organisation; the default tenant if omitted
  * @returns true if integration user has valid Xero tokens
  */
-export async function hasXeroConnection(_userId: string): Promise<boolean> {
+export async function hasXeroConnection(_userId: string, tenantId?: string): Promise<boolean> {
   try {
     if (!INTEGRATION_USER_ID) {
       logger.info('XERO_AUTH', 'XERO_INTEGRATION_CLERK_USER_ID not configured');
@@ -306,12 +412,7 @@ export async function hasXeroConnection(_userId: string): Promise<boolean> {
     }
 
     const user = await clerkClient.users.getUser(INTEGRATION_USER_ID);
-    const meta = user.privateMetadata as XeroMetadata;
-    const hasConnection = !!(
-      meta.xero?.accessToken &&
-      meta.xero?.refreshToken &&
-      meta.xero?.tenantId
-    );
+    const hasConnection = !!storedTokensFor(user.privateMetadata as XeroMetadata, tenantId);
 
     logger.info('XERO_AUTH', `Integration user Xero connection: ${hasConnection}`);
     return hasConnection;
@@ -322,19 +423,83 @@ export async function hasXeroConnection(_userId: string): Promise<boolean> {
 }
 
 /**
- * Disconnect Xero account (clear all metadata)
+ * Disconnect Xero account — one organisation, or every one (clear all
+ * metadata) if no tenant is named
  * Useful for "Disconnect" button in UI
  */
-export async function disconnectXero(userId: string): Promise<void> {
-  logger.info('XERO_AUTH', `Disconnecting Xero for user: ${userId}`);
+export async function disconnectXero(userId: string, tenantId?: string): Promise<void> {
+  logger.info('XERO_AUTH', `Disconnecting Xero for user: ${userId}`, { tenantId });
+
+  if (!tenantId) {
+    await clerkClient.users.updateUser(userId, {
+      privateMetadata: {
+        xero: null,
+        xeroTenants: null,
+        xeroDefaultTenantId: null,
+      },
+    });
+    logger.info('XERO_AUTH', 'Xero disconnected successfully');
+    return;
+  }
+
+  const user = await clerkClient.users.getUser(userId);
+  const meta = user.privateMetadata as XeroMetadata;
+  const tenants = storedTenants(meta);
+  delete tenants[tenantId];
 
   await clerkClient.users.updateUser(userId, {
     privateMetadata: {
+      ...meta,
       xero: null,
+      xeroTenants: tenants,
+      xeroDefaultTenantId:
+        meta.xeroDefaultTenantId === tenantId ? Object.keys(tenants)[0] ?? null : defaultTenantId(meta),
     },
   });
 
-  logger.info('XERO_AUTH', 'Xero disconnected successfully');
+  logger.info('XERO_AUTH', 'Xero organisation disconnected successfully', { tenantId });
+}
+
+/**
+ * Every Xero organisation the integration user has tokens for (tokens
+ * themselves left out). Empty if the integration user isn't configured.
+ */
+export async function listXeroConnections(): Promise<XeroConnectionSummary[]> {
+  if (!INTEGRATION_USER_ID) return [];
+
+  const user = await clerkClient.users.getUser(INTEGRATION_USER_ID);
+  const meta = user.privateMetadata as XeroMetadata;
+  const defaultId = defaultTenantId(meta);
+
+  return Object.values(storedTenants(meta)).map((tokens) => ({
+    tenantId: tokens.tenantId,
+    tenantName: tokens.tenantName,
+    isDefault: tokens.tenantId === defaultId,
+    connectedAt: tokens.connectedAt,
+    refreshedAt: tokens.refreshedAt,
+    expiresAt: tokens.expiresAt,
+  }));
+}
+
+/**
+ * Make a connected organisation the one used when no tenant is named
+ * @throws Error if the integration user isn't configured or the tenant isn't connected
+ */
+export async function setDefaultXeroTenant(tenantId: string): Promise<void> {
+  if (!INTEGRATION_USER_ID) {
+    throw new Error("XERO_INTEGRATION_CLERK_USER_ID not configured");
+  }
+
+  const user = await clerkClient.users.getUser(INTEGRATION_USER_ID);
+  const meta = user.privateMetadata as XeroMetadata;
+  if (!storedTenants(meta)[tenantId]) {
+    throw new Error("Xero organisation not connected. Please connect it in Xero settings.");
+  }
+
+  await clerkClient.users.updateUser(INTEGRATION_USER_ID, {
+    privateMetadata: { ...meta, xeroDefaultTenantId: tenantId },
+  });
+  logger.info('XERO_AUTH', 'Default Xero organisation set', { tenantId });
 }
 
 /**
@@ -348,6 +513,7 @@ export async function disconnectXero(userId: string): Promise<void> {
  *
  * @param userId - Clerk user ID
  * @param apiCall - Function that makes the Xero API call
+ * @param tenantId - Xero organisation; the default tenant if omitted
  * @returns Result of the API call
  * @throws Error if Xero is not connected or API call fails after retry
  *
@@ -358,12 +524,13 @@ export async function disconnectXero(userId: string): Promise<void> {
  */
 export async function withFreshXeroToken<T>(
   userId: string,
-  apiCall: (tokens: XeroTokens) => Promise<T>
+  apiCall: (tokens: XeroTokens) => Promise<T>,
+  tenantId?: string
 ): Promise<T> {
-  logger.info('XERO_AUTH', 'withFreshXeroToken: Getting fresh tokens');
+  logger.info('XERO_AUTH', 'withFreshXeroToken: Getting fresh tokens', { tenantId });
 
   // Get fresh tokens (will proactively refresh if near expiry)
-  const tokens = await getValidTokens(userId);
+  const tokens = await getValidTokens(userId, tenantId);
 
   try {
     return await apiCall(tokens);
@@ -378,7 +545,7 @@ export async function withFreshXeroToken<T>(
       logger.warn('XERO_AUTH', 'withFreshXeroToken: Got 401, forcing token refresh and retrying');
 
       // Force refresh tokens
-      const freshTokens = await refreshTokens(userId);
+      const freshTokens = await refreshTokens(userId, { tenantId: tokens.tenantId });
 
       // Retry the API call with fresh tokens
       return await apiCall(freshTokens);
@@ -396,9 +563,10 @@ export async function withFreshXeroToken<T>(
  * STAGE 1: Checks integration user directly instead of scanning all users.
  *
  * @param _userId - Ignored in Stage 1
+ * @param tenantId - Xero organisation; the default tenant if omitted
  * @returns Health status object
  */
-export async function getXeroHealthStatus(_userId?: string): Promise<{
+export async function getXeroHealthStatus(_userId?: string, tenantId?: string): Promise<{
   status: 'connected' | 'disconnected' | 'expired' | 'expiring_soon';
   message: string;
   tokenAgeMinutes?: number;
@@ -416,13 +584,13 @@ export async function getXeroHealthStatus(_userId?: string): Promise<{
     }
 
     const user = await clerkClient.users.getUser(INTEGRATION_USER_ID);
-    const meta = user.privateMetadata as XeroMetadata;
+    const stored = storedTokensFor(user.privateMetadata as XeroMetadata, tenantId);
 
-    if (meta.xero?.accessToken && meta.xero?.refreshToken && meta.xero?.tenantId) {
+    if (stored) {
       const now = Date.now();
-      const expiresAt = meta.xero.expiresAt || 0;
-      const refreshedAt = meta.xero.refreshedAt || meta.xero.connectedAt || 0;
-      const connectedAt = meta.xero.connectedAt || 0;
+      const expiresAt = stored.expiresAt || 0;
+      const refreshedAt = stored.refreshedAt || stored.connectedAt || 0;
+      const connectedAt = stored.connectedAt || 0;
 
       const expiresInMs = expiresAt - now;
       const expiresInMinutes = Math.round(expiresInMs / 1000 / 60);
@@ -440,7 +608,7 @@ export async function getXeroHealthStatus(_userId?: string): Promise<{
           expiresInMinutes,
           refreshedAt: refreshedAt ? new Date(refreshedAt).toISOString() : undefined,
           connectedAt: connectedAt ? new Date(connectedAt).toISOString() : undefined,
-          tenantName: meta.xero.tenantName,
+          tenantName: stored.tenantName,
         };
       }
 
@@ -452,11 +620,11 @@ export async function getXeroHealthStatus(_userId?: string): Promise<{
           expiresInMinutes,
           refreshedAt: refreshedAt ? new Date(refreshedAt).toISOString() : undefined,
           connectedAt: connectedAt ? new Date(connectedAt).toISOString() : undefined,
-          tenantName: meta.xero.tenantName,
+          tenantName: stored.tenantName,
         };
       }
 
-      let message = `Connected to ${meta.xero.tenantName || 'Xero'}. Token valid for ${expiresInMinutes} minutes.`;
+      let message = `Connected to ${stored.tenantName || 'Xero'}. Token valid for ${expiresInMinutes} minutes.`;
       if (daysUntilRefreshExpiry < 7) {
         message += ` WARNING: Refresh token expires in ${daysUntilRefreshExpiry} days!`;
       }
@@ -468,7 +636,7 @@ export async function getXeroHealthStatus(_userId?: string): Promise<{
         expiresInMinutes,
         refreshedAt: refreshedAt ? new Date(refreshedAt).toISOString() : undefined,
         connectedAt: connectedAt ? new Date(connectedAt).toISOString() : undefined,
-        tenantName: meta.xero.tenantName,
+        tenantName: stored.tenantName,
       };
     }
 
@@ -3,10 +3,12 @@
  *
  * Fetches and caches branding themes from Xero with 10-minute TTL.
  * Branding themes are needed to map display names to GUIDs for invoice creation.
+ * Each Xero organisation has its own themes, so the cache is per tenant.
  */
 
 import * as logger from './logger';
 import { getValidTokens } from "./xero-auth";
+import { xeroApiBaseUrl } from './xero-endpoints';
 
 export interface BrandingTheme {
   BrandingThemeID: string;
@@ -25,8 +27,12 @@ interface CacheEntry {
   userId: string;
 }
 
-// In-memory cache: userId -> CacheEntry
+// In-memory cache: userId:tenantId -> CacheEntry
 const themesCache = new Map<string, CacheEntry>();
+
+function cacheKey(userId: string, tenantId?: string): string {
+  return `${userId}:${tenantId ?? "default"}`;
+}
 const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
 
 // Periodic cache cleanup to prevent memory leaks
@@ -35,11 +41,11 @@ setInterval(() => {
   const now = Date.now();
   let removedCount = 0;
 
-  for (const [userId, entry] of themesCache.entries()) {
+  for (const [key, entry] of themesCache.entries()) {
     if (now - entry.fetchedAt > CACHE_TTL_MS) {
-      themesCache.delete(userId);
+      themesCache.delete(key);
       removedCount++;
-      logger.info('XERO', `Branding cache cleanup: Removed expired cache for user ${userId}`);
+      logger.info('XERO', `Branding cache cleanup: Removed expired cache for user ${entry.userId}`);
     }
   }
 
@@ -52,9 +58,10 @@ setInterval(() => {
  * Fetch all branding themes from Xero
  *
  * @param userId - Clerk user ID for authentication
+ * @param xeroTenantId - Organisation to fetch from; the default if omitted
  * @returns Array of branding themes with IDs and names
  */
-async function fetchBrandingThemesFromXero(userId: string): Promise<BrandingTheme[]> {
+async function fetchBrandingThemesFromXero(userId: string, xeroTenantId?: string): Promise<BrandingTheme[]> {
   const startTime = Date.now();
   logger.info('XERO', 'Fetching branding themes from Xero');
 
@@ -63,7 +70,7 @@ async function fetchBrandingThemesFromXero(userId: string): Promise<BrandingThem
   let tenantId: string;
 
   try {
-    const tokens = await getValidTokens(userId);
+    const tokens = await getValidTokens(userId, xeroTenantId);
     accessToken = tokens.accessToken;
     tenantId = tokens.tenantId;
     logger.info('XERO', `Valid tokens obtained for tenant: ${tenantId}`);
@@ -73,7 +80,7 @@ async function fetchBrandingThemesFromXero(userId: string): Promise<BrandingThem
   }
 
   // Call Xero API
-  const xeroUrl = "https://api.xero.com/api.xro/2.0/BrandingThemes";
+  const xeroUrl = `${xeroApiBaseUrl()}/BrandingThemes`;
   logger.info('XERO', `Fetching from: ${xeroUrl}`);
 
   const response = await fetch(xeroUrl, {
@@ -117,13 +124,14 @@ async function fetchBrandingThemesFromXero(userId: string): Promise<BrandingThem
  * Otherwise, fetches fresh data from Xero API.
  *
  * @param userId - Clerk user ID for authentication
+ * @param tenantId - Xero organisation; the default if omitted
  * @returns Array of branding themes
  */
-export async function getBrandingThemes(userId: string): Promise<BrandingTheme[]> {
+export async function getBrandingThemes(userId: string, tenantId?: string): Promise<BrandingTheme[]> {
   const now = Date.now();
 
   // Check cache
-  const cached = themesCache.get(userId);
+  const cached = themesCache.get(cacheKey(userId, tenantId));
   if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
     const age = Math.round((now - cached.fetchedAt) / 1000);
     logger.info('XERO', `Using cached themes (${cached.themes.length} themes, ${age}s old)`);
@@ -132,10 +140,10 @@ export async function getBrandingThemes(userId: string): Promise<BrandingTheme[]
 
   // Cache miss or expired - fetch fresh data
   logger.info('XERO', 'Cache miss or expired, fetching fresh data...');
-  const themes = await fetchBrandingThemesFromXero(userId);
+  const themes = await fetchBrandingThemesFromXero(userId, tenantId);
 
   // Store in cache
-  themesCache.set(userId, {
+  themesCache.set(cacheKey(userId, tenantId), {
     themes,
     fetchedAt: now,
     userId,
@@ -149,10 +157,15 @@ export async function getBrandingThemes(userId: string): Promise<BrandingTheme[]
  *
  * @param userId - Clerk user ID for authentication
  * @param themeName - Display name of the branding theme (e.g., "CN 20% VAT")
+ * @param tenantId - Xero organisation; the default if omitted
  * @returns Branding theme GUID or undefined if not found
  */
-export async function getBrandingThemeId(userId: string, themeName: string): Promise<string | undefined> {
-  const themes = await getBrandingThemes(userId);
+export async function getBrandingThemeId(
+  userId: string,
+  themeName: string,
+  tenantId?: string
+): Promise<string | undefined> {
+  const themes = await getBrandingThemes(userId, tenantId);
   const theme = themes.find((t) => t.Name === themeName);
 
   if (theme) {
@@ -165,11 +178,11 @@ export async function getBrandingThemeId(userId: string, themeName: string): Pro
 }
 
 /**
- * Clear cache for a specific user (useful for testing)
+ * Clear cache for a specific user and tenant (useful for testing)
  */
-export function clearBrandingThemesCache(userId: string): void {
-  themesCache.delete(userId);
-  logger.info('XERO', `Cleared cache for user: ${userId}`);
+export function clearBrandingThemesCache(userId: string, tenantId?: string): void {
+  themesCache.delete(cacheKey(userId, tenantId));
+  logger.info('XERO', `Cleared cache for user: ${userId}`, { tenantId });
 }
 
 /**
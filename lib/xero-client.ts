@@ -0,0 +1,385 @@
+/**
+ * Club 19 Sales OS - Xero API Client
+ *
+ * One typed client for every call to the Xero Accounting API, so rate
+ * limits, retries and pagination are handled in one place.
+ *
+ * - Rate limits: Xero allows 60 calls/minute and 5,000/day per tenant. The
+ *   X-MinLimit-Remaining / X-DayLimit-Remaining headers of each response are
+ *   tracked per tenant; a call that would exceed the minute limit waits for
+ *   the window to reset, and one past the daily limit fails straight away.
+ * - Retries: 429s wait for Retry-After (or back off exponentially); 5xx and
+ *   network errors back off exponentially. Writes are only retried when
+ *   they carry an Idempotency-Key, so a retry can't create a second invoice.
+ * - Pagination: getAllPages() follows `page=` until a short page comes back.
+ * - Transport: fetch-compatible and swappable (per client or globally with
+ *   setXeroTransport()), and XERO_API_BASE_URL points every client at
+ *   another server (see lib/xero-endpoints.ts) — tests run against the
+ *   local fake Xero in lib/xero-fake this way.
+ *
+ * Use withXeroClient() in server code: it gets tokens for the integration
+ * user and retries once with refreshed tokens on a 401.
+ */
+
+import "server-only";
+import { withFreshXeroToken, type XeroTokens } from "@/lib/xero-auth";
+import { ExternalServiceError } from "@/lib/errors";
+import { xeroApiBaseUrl } from "@/lib/xero-endpoints";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Same shape as fetch(), so a fake can return plain Response objects. */
+export type XeroTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export type XeroQuery = Record<string, string | number | boolean | undefined | null>;
+
+export interface XeroRequestOptions {
+  query?: XeroQuery;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Defaults to application/json; application/pdf returns an ArrayBuffer. */
+  accept?: string;
+  /** Sent as Idempotency-Key and makes a POST/PUT safe to retry. */
+  idempotencyKey?: string;
+}
+
+export interface XeroClientOptions {
+  tokens: Pick<XeroTokens, "accessToken" | "tenantId">;
+  transport?: XeroTransport;
+  baseUrl?: string;
+  /** Retries after the first attempt (429, 5xx, network). */
+  maxRetries?: number;
+  /** Injected so tests don't have to wait for real backoff. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** Remaining calls as of the last response Xero sent for a tenant. */
+export interface XeroRateLimitState {
+  minuteRemaining: number | null;
+  dayRemaining: number | null;
+  observedAt: number;
+  /** Set when Xero reports the daily limit hit; calls fail until then. */
+  blockedUntil?: number;
+}
+
+/**
+ * A non-2xx response from Xero (after retries). `status` is Xero's HTTP
+ * status — withFreshXeroToken() looks for 401 to refresh and retry.
+ */
+export class XeroApiError extends ExternalServiceError {
+  public readonly status: number;
+  public readonly details: string;
+  public readonly rateLimitProblem: string | null;
+
+  constructor(
+    status: number,
+    statusText: string,
+    details: string,
+    context: Record<string, unknown> & { rateLimitProblem?: string | null } = {}
+  ) {
+    super("Xero", `API error: ${status} - ${statusText}`, { ...context, status });
+    this.status = status;
+    this.details = details;
+    this.rateLimitProblem = context.rateLimitProblem ?? null;
+  }
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/** Xero returns 100 records per page on paged endpoints. */
+export const XERO_PAGE_SIZE = 100;
+
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30_000;
+// Longer than this and we'd rather fail than hold a serverless function open
+const MAX_RETRY_WAIT_MS = 60_000;
+const MINUTE_WINDOW_MS = 60_000;
+
+let transportOverride: XeroTransport | null = null;
+
+/** Replace the transport for every client created after this (null restores fetch). */
+export function setXeroTransport(transport: XeroTransport | null): void {
+  transportOverride = transport;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// RATE LIMIT TRACKING
+// ============================================================================
+
+// Per tenant, per server instance — the headers on every response keep it honest
+const rateLimits = new Map<string, XeroRateLimitState>();
+
+export function getXeroRateLimitState(tenantId: string): XeroRateLimitState | null {
+  return rateLimits.get(tenantId) ?? null;
+}
+
+/** Forget tracked limits (tests, or after a tenant is reconnected). */
+export function resetXeroRateLimits(): void {
+  rateLimits.clear();
+}
+
+function readLimitHeader(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  if (value === null) return null;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function recordRateLimits(tenantId: string, headers: Headers): void {
+  const minuteRemaining = readLimitHeader(headers, "X-MinLimit-Remaining");
+  const dayRemaining = readLimitHeader(headers, "X-DayLimit-Remaining");
+  if (minuteRemaining === null && dayRemaining === null) return;
+  const blockedUntil = rateLimits.get(tenantId)?.blockedUntil;
+  rateLimits.set(tenantId, { minuteRemaining, dayRemaining, observedAt: Date.now(), blockedUntil });
+}
+
+function recordDailyBlock(tenantId: string, retryAfterMs: number | null): void {
+  const state = rateLimits.get(tenantId) ?? { minuteRemaining: null, dayRemaining: 0, observedAt: Date.now() };
+  // Without a Retry-After, try again in an hour rather than never
+  rateLimits.set(tenantId, { ...state, blockedUntil: Date.now() + (retryAfterMs ?? 60 * 60 * 1000) });
+}
+
+/**
+ * Retry-After in ms: delta-seconds or an HTTP date. Null if absent or
+ * unparseable.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Exponential backoff with jitter for retry `attempt` (0-based). */
+export function backoffDelay(attempt: number, random = Math.random): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export type XeroClient = ReturnType<typeof createXeroClient>;
+
+export function createXeroClient(options: XeroClientOptions) {
+  const { tokens } = options;
+  const transport = options.transport ?? transportOverride ?? fetch;
+  const baseUrl = (options.baseUrl ?? xeroApiBaseUrl()).replace(/\/$/, "");
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const sleep = options.sleep ?? defaultSleep;
+
+  function buildUrl(path: string, query?: XeroQuery): string {
+    const url = new URL(`${baseUrl}/${path.replace(/^\//, "")}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined && value !== null && value !== "") {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Hold off if the last response said this minute's calls are used up;
+   * fail fast if the daily limit has been hit.
+   */
+  async function waitForRateLimit(): Promise<void> {
+    const state = rateLimits.get(tokens.tenantId);
+    if (!state) return;
+
+    if (state.blockedUntil && state.blockedUntil > Date.now()) {
+      throw new XeroApiError(429, "Daily rate limit reached", "", {
+        tenantId: tokens.tenantId,
+        retryAt: new Date(state.blockedUntil).toISOString(),
+        rateLimitProblem: "day",
+      });
+    }
+
+    if (state.minuteRemaining !== null && state.minuteRemaining <= 0) {
+      const waitMs = state.observedAt + MINUTE_WINDOW_MS - Date.now();
+      if (waitMs > 0) {
+        logger.warn("XERO_CLIENT", "Minute rate limit reached, waiting", {
+          tenantId: tokens.tenantId,
+          waitMs,
+        });
+        await sleep(waitMs);
+      }
+      rateLimits.set(tokens.tenantId, { ...state, minuteRemaining: null });
+    }
+  }
+
+  async function send(
+    method: string,
+    path: string,
+    requestOptions: XeroRequestOptions = {}
+  ): Promise<Response> {
+    const url = buildUrl(path, requestOptions.query);
+    const accept = requestOptions.accept ?? "application/json";
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${tokens.accessToken}`,
+      "Xero-Tenant-Id": tokens.tenantId,
+      Accept: accept,
+      ...(requestOptions.body !== undefined && { "Content-Type": "application/json" }),
+      ...(requestOptions.idempotencyKey && { "Idempotency-Key": requestOptions.idempotencyKey }),
+      ...requestOptions.headers,
+    };
+    const body = requestOptions.body !== undefined ? JSON.stringify(requestOptions.body) : undefined;
+    // A write without an idempotency key may have landed even if we saw an error
+    const safeToRetry = method === "GET" || Boolean(requestOptions.idempotencyKey);
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForRateLimit();
+
+      let response: Response;
+      try {
+        response = await transport(url, { method, headers, body });
+      } catch (error) {
+        if (!safeToRetry || attempt >= maxRetries) {
+          throw new ExternalServiceError("Xero", error instanceof Error ? error.message : "Network error", {
+            method,
+            path,
+          });
+        }
+        const delay = backoffDelay(attempt);
+        logger.warn("XERO_CLIENT", "Network error, retrying", { method, path, attempt: attempt + 1, delay });
+        await sleep(delay);
+        continue;
+      }
+
+      recordRateLimits(tokens.tenantId, response.headers);
+
+      if (response.ok || response.status === 304) {
+        return response;
+      }
+
+      const rateLimitProblem = response.headers.get("X-Rate-Limit-Problem");
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+
+      if (response.status === 429 && rateLimitProblem === "day") {
+        recordDailyBlock(tokens.tenantId, retryAfter);
+      }
+
+      let delay: number | null = null;
+      if (response.status === 429 && rateLimitProblem !== "day") {
+        // Rejected before Xero did anything, so always safe to retry
+        delay = retryAfter ?? backoffDelay(attempt);
+      } else if (response.status >= 500 && safeToRetry) {
+        delay = retryAfter ?? backoffDelay(attempt);
+      }
+
+      if (delay !== null && attempt < maxRetries && delay <= MAX_RETRY_WAIT_MS) {
+        logger.warn("XERO_CLIENT", "Retrying Xero request", {
+          method,
+          path,
+          status: response.status,
+          rateLimitProblem,
+          attempt: attempt + 1,
+          delay,
+        });
+        await sleep(delay);
+        continue;
+      }
+
+      const details = await response.text();
+      logger.error("XERO_CLIENT", "Xero API error", {
+        method,
+        path,
+        status: response.status,
+        rateLimitProblem,
+        details,
+      });
+      throw new XeroApiError(response.status, response.statusText, details, {
+        method,
+        path,
+        rateLimitProblem,
+      });
+    }
+  }
+
+  async function request<T>(method: string, path: string, requestOptions?: XeroRequestOptions): Promise<T> {
+    const response = await send(method, path, requestOptions);
+    if (response.status === 304 || response.status === 204) {
+      return {} as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    tenantId: tokens.tenantId,
+
+    request,
+
+    get<T>(path: string, requestOptions?: Omit<XeroRequestOptions, "body">): Promise<T> {
+      return request<T>("GET", path, requestOptions);
+    },
+
+    post<T>(path: string, body: unknown, requestOptions?: Omit<XeroRequestOptions, "body">): Promise<T> {
+      return request<T>("POST", path, { ...requestOptions, body });
+    },
+
+    put<T>(path: string, body: unknown, requestOptions?: Omit<XeroRequestOptions, "body">): Promise<T> {
+      return request<T>("PUT", path, { ...requestOptions, body });
+    },
+
+    /** A binary resource, e.g. an invoice PDF with accept "application/pdf". */
+    async getBinary(path: string, accept: string): Promise<ArrayBuffer> {
+      const response = await send("GET", path, { accept });
+      return response.arrayBuffer();
+    },
+
+    /**
+     * Every page of a paged endpoint, concatenated.
+     *
+     * @param collection - Response key holding the records, e.g. "Invoices"
+     * @param maxPages - Safety stop for runaway pagination
+     */
+    async getAllPages<T>(
+      path: string,
+      collection: string,
+      requestOptions: Omit<XeroRequestOptions, "body"> = {},
+      maxPages = 100
+    ): Promise<T[]> {
+      const records: T[] = [];
+      for (let page = 1; page <= maxPages; page++) {
+        const data = await request<Record<string, unknown>>("GET", path, {
+          ...requestOptions,
+          query: { ...requestOptions.query, page },
+        });
+        const pageRecords = (data[collection] as T[] | undefined) ?? [];
+        records.push(...pageRecords);
+        if (pageRecords.length < XERO_PAGE_SIZE) {
+          return records;
+        }
+      }
+      logger.warn("XERO_CLIENT", "Stopped paginating at page limit", { path, maxPages });
+      return records;
+    },
+  };
+}
+
+/**
+ * Run `fn` with a client for one of the integration user's tenants — the
+ * default unless `options.tenantId` names another. Tokens are refreshed
+ * first if near expiry, and again on a 401.
+ */
+export async function withXeroClient<T>(
+  userId: string,
+  fn: (client: XeroClient) => Promise<T>,
+  options: Omit<XeroClientOptions, "tokens"> & { tenantId?: string | null } = {}
+): Promise<T> {
+  const { tenantId, ...clientOptions } = options;
+  return withFreshXeroToken(
+    userId,
+    (tokens) => fn(createXeroClient({ ...clientOptions, tokens })),
+    tenantId ?? undefined
+  );
+}
@@ -1,15 +1,30 @@
 /**
- * Xero Contacts Cache with Pagination
+ * Xero Contacts for Search
  *
- * This module fetches ALL contacts from Xero using pagination,
- * then caches them in memory for 10 minutes to avoid repeated API calls.
+ * Buyer and supplier search read contacts from the `xero_contacts` mirror
+ * (lib/xero-contacts.ts), which webhooks and the sync-contacts cron keep
+ * fresh, so search survives serverless cold starts without re-fetching
+ * every contact from Xero.
  *
- * This enables fast local fuzzy searching without hitting Xero API limits.
+ * Until the mirror has been populated (sync-contacts ?full=true) contacts
+ * are fetched from Xero with pagination, as before.
+ *
+ * Searches for a sale are limited to its entity's Xero organisation — a
+ * contact in one organisation can't be invoiced from another.
  */
 
 import { getValidTokens } from "./xero-auth";
 import { ExtendedContact, ContactPerson } from "./search";
 import * as logger from "./logger";
+import { xeroApiBaseUrl } from "./xero-endpoints";
+import { listXeroContacts } from "./xero-contacts";
+import type { XeroContactRecord } from "@/db/schema";
+
+/** Organisation whose contacts to read; the default also owns untagged contacts. */
+export interface ContactTenant {
+  tenantId: string;
+  isDefault: boolean;
+}
 
 interface XeroContactPerson {
   FirstName?: string;
@@ -38,50 +53,10 @@ interface XeroContactsResponse {
   Contacts: XeroContactFromAPI[];
 }
 
-interface CacheEntry {
-  contacts: ExtendedContact[];
-  fetchedAt: number;
-  userId: string;
-}
-
-// In-memory cache: userId -> CacheEntry
-const contactsCache = new Map<string, CacheEntry>();
-const supplierCache = new Map<string, CacheEntry>(); // Supplier-only cache
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-
-// Periodic cache cleanup to prevent memory leaks
-// Runs every 10 minutes to remove expired entries
-setInterval(() => {
-  const now = Date.now();
-  let removedCount = 0;
-
-  // Clean up all contacts cache
-  for (const [userId, entry] of contactsCache.entries()) {
-    if (now - entry.fetchedAt > CACHE_TTL_MS) {
-      contactsCache.delete(userId);
-      removedCount++;
-      logger.info("XERO_CACHE", "Removed expired contacts cache for user", { userId });
-    }
-  }
-
-  // Clean up supplier-only cache
-  for (const [userId, entry] of supplierCache.entries()) {
-    if (now - entry.fetchedAt > CACHE_TTL_MS) {
-      supplierCache.delete(userId);
-      removedCount++;
-      logger.info("XERO_CACHE", "Removed expired supplier cache for user", { userId });
-    }
-  }
-
-  if (removedCount > 0) {
-    logger.info("XERO_CACHE", "Cleaned up expired cache entries", { count: removedCount });
-  }
-}, CACHE_TTL_MS);
-
 /**
  * Normalize Xero API contact to ExtendedContact format
  *
- * PERFORMANCE OPTIMIZATION: Pre-classifies contacts as buyer/supplier at cache warm time
+ * PERFORMANCE OPTIMIZATION: Pre-classifies contacts as buyer/supplier at fetch time
  * This ensures classification is computed once, not on every search.
  */
 function normalizeContact(xeroContact: XeroContactFromAPI): ExtendedContact {
@@ -114,6 +89,31 @@ function normalizeContact(xeroContact: XeroContactFromAPI): ExtendedContact {
   };
 }
 
+/**
+ * Mirror row to ExtendedContact format (classification is stored on the row)
+ */
+function fromMirror(contact: XeroContactRecord): ExtendedContact {
+  const contactPersons: ContactPerson[] =
+    contact.contactPersons?.map((person) => ({
+      firstName: person.firstName ?? undefined,
+      lastName: person.lastName ?? undefined,
+      email: person.email ?? undefined,
+    })) || [];
+
+  return {
+    contactId: contact.xeroContactId,
+    name: contact.name,
+    email: contact.email ?? undefined,
+    accountNumber: contact.accountNumber ?? undefined,
+    reference: contact.contactNumber ?? undefined,
+    isCustomer: contact.isCustomer,
+    isSupplier: contact.isSupplier,
+    defaultPurchaseCode: contact.defaultPurchaseCode ?? undefined,
+    defaultSalesCode: contact.defaultSalesCode ?? undefined,
+    contactPersons: contactPersons.length > 0 ? contactPersons : undefined,
+  };
+}
+
 /**
  * Fetch contacts from Xero with pagination and optional server-side filtering
  *
@@ -125,9 +125,14 @@ function normalizeContact(xeroContact: XeroContactFromAPI): ExtendedContact {
  *
  * @param userId - Clerk user ID for authentication
  * @param searchTerm - Optional search term for server-side filtering
+ * @param xeroTenantId - Organisation to fetch from; the default if omitted
  * @returns Array of contacts matching search criteria (or all if no search term)
  */
-async function fetchAllContactsFromXero(userId: string, searchTerm?: string): Promise<ExtendedContact[]> {
+async function fetchAllContactsFromXero(
+  userId: string,
+  searchTerm?: string,
+  xeroTenantId?: string
+): Promise<ExtendedContact[]> {
   const startTime = Date.now();
   logger.info("XERO_CACHE", searchTerm ? "Fetching contacts with server-side search" : "Fetching ALL contacts from Xero", { searchTerm });
   logger.info("XERO_CACHE", "Requesting user", { userId });
@@ -138,7 +143,7 @@ async function fetchAllContactsFromXero(userId: string, searchTerm?: string): Pr
   let tenantId: string;
 
   try {
-    const tokens = await getValidTokens(userId);
+    const tokens = await getValidTokens(userId, xeroTenantId);
     accessToken = tokens.accessToken;
     tenantId = tokens.tenantId;
     logger.info("XERO_CACHE", "Valid tokens obtained for tenant", { tenantId });
@@ -153,7 +158,7 @@ async function fetchAllContactsFromXero(userId: string, searchTerm?: string): Pr
 
   while (hasMorePages) {
     // Build URL with optional where clause for server-side filtering
-    let xeroUrl = `https://api.xero.com/api.xro/2.0/Contacts?page=${page}`;
+    let xeroUrl = `${xeroApiBaseUrl()}/Contacts?page=${page}`;
 
     if (searchTerm && searchTerm.trim().length > 0) {
       // Use Xero's where clause for server-side search
@@ -218,40 +223,25 @@ async function fetchAllContactsFromXero(userId: string, searchTerm?: string): Pr
 }
 
 /**
- * Get all Xero contacts (cached)
+ * Get all active Xero contacts
  *
- * Returns cached contacts if available and fresh (< 10 minutes old).
- * Otherwise, fetches fresh data from Xero API with pagination.
+ * Reads the `xero_contacts` mirror. Falls back to fetching from the Xero API
+ * only while the mirror is empty.
  *
- * @param userId - Clerk user ID for authentication
- * @returns Array of all Xero contacts
+ * @param userId - Clerk user ID for authentication (fallback fetch only)
+ * @param tenant - Only this organisation's contacts, when given
+ * @returns Array of all active Xero contacts
  */
-export async function getAllXeroContacts(userId: string): Promise<ExtendedContact[]> {
-  const now = Date.now();
-
-  // Check cache
-  const cached = contactsCache.get(userId);
-  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
-    const age = Math.round((now - cached.fetchedAt) / 1000);
-    logger.info("XERO_CACHE", "Using cached contacts", {
-      count: cached.contacts.length,
-      ageSeconds: age
-    });
-    return cached.contacts;
+export async function getAllXeroContacts(userId: string, tenant?: ContactTenant): Promise<ExtendedContact[]> {
+  const mirrored = await listXeroContacts({ tenant });
+  if (mirrored.length > 0) {
+    return mirrored.map(fromMirror);
   }
 
-  // Cache miss or expired - fetch fresh data
-  logger.info("XERO_CACHE", "Cache miss or expired, fetching fresh data");
-  const contacts = await fetchAllContactsFromXero(userId);
-
-  // Store in cache
-  contactsCache.set(userId, {
-    contacts,
-    fetchedAt: now,
-    userId,
+  logger.warn("XERO_CACHE", "Contacts mirror is empty, fetching from Xero (run sync-contacts with ?full=true)", {
+    tenantId: tenant?.tenantId,
   });
-
-  return contacts;
+  return fetchAllContactsFromXero(userId, undefined, tenant?.tenantId);
 }
 
 /**
@@ -260,8 +250,7 @@ export async function getAllXeroContacts(userId: string): Promise<ExtendedContac
  * PERFORMANCE OPTIMIZATION: Uses Xero's where clause to filter server-side.
  * This avoids fetching all contacts and searching locally.
  *
- * This function does NOT use cache - it goes directly to Xero API with search filter.
- * For sub-2-second response times, we bypass the full contacts cache.
+ * This function does NOT use the mirror - it goes directly to Xero API with search filter.
  *
  * @param userId - Clerk user ID for authentication
  * @param searchTerm - Search term to filter by name
@@ -289,36 +278,17 @@ export async function searchXeroContacts(userId: string, searchTerm: string): Pr
 }
 
 /**
- * Get supplier-only Xero contacts (cached)
- *
- * PERFORMANCE OPTIMIZATION: Returns pre-filtered supplier contacts only.
- * This avoids filtering all contacts on every supplier search request.
+ * Get supplier-only Xero contacts
  *
- * Returns cached suppliers if available and fresh (< 10 minutes old).
- * Otherwise, fetches all contacts and filters to suppliers only.
+ * Active contacts classified as suppliers (isSupplier === true), so
+ * supplier search never offers a buyer.
  *
- * @param userId - Clerk user ID for authentication
- * @returns Array of supplier contacts only (isSupplier === true)
+ * @param userId - Clerk user ID for authentication (fallback fetch only)
+ * @param tenant - Only this organisation's contacts, when given
+ * @returns Array of supplier contacts only
  */
-export async function getSupplierContacts(userId: string): Promise<ExtendedContact[]> {
-  const now = Date.now();
-
-  // Check supplier cache first
-  const cached = supplierCache.get(userId);
-  if (cached && now - cached.fetchedAt < CACHE_TTL_MS) {
-    const age = Math.round((now - cached.fetchedAt) / 1000);
-    logger.info("XERO_CACHE", "Using cached suppliers", {
-      count: cached.contacts.length,
-      ageSeconds: age
-    });
-    return cached.contacts;
-  }
-
-  // Cache miss or expired - fetch all contacts and filter to suppliers
-  logger.info("XERO_CACHE", "Supplier cache miss or expired, fetching and filtering suppliers");
-  const allContacts = await getAllXeroContacts(userId);
-
-  // Filter to suppliers only (uses pre-computed isSupplier flag)
+export async function getSupplierContacts(userId: string, tenant?: ContactTenant): Promise<ExtendedContact[]> {
+  const allContacts = await getAllXeroContacts(userId, tenant);
   const suppliers = allContacts.filter((contact) => contact.isSupplier);
 
   logger.info("XERO_CACHE", "Filtered suppliers", {
@@ -326,29 +296,5 @@ export async function getSupplierContacts(userId: string): Promise<ExtendedConta
     totalContacts: allContacts.length
   });
 
-  // Store in supplier cache
-  supplierCache.set(userId, {
-    contacts: suppliers,
-    fetchedAt: now,
-    userId,
-  });
-
   return suppliers;
 }
-
-/**
- * Clear cache for a specific user (useful for testing or manual refresh)
- */
-export function clearContactsCache(userId: string): void {
-  contactsCache.delete(userId);
-  logger.info("XERO_CACHE", "Cleared cache for user", { userId });
-}
-
-/**
- * Clear all caches (useful for testing)
- */
-export function clearAllContactsCaches(): void {
-  contactsCache.clear();
-  supplierCache.clear();
-  logger.info("XERO_CACHE", "Cleared all caches (contacts + suppliers)");
-}
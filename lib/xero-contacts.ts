@@ -0,0 +1,406 @@
+/**
+ * Club 19 Sales OS - Xero Contacts Mirror
+ *
+ * Xero contacts mirrored into `xero_contacts` with email, phone, addresses,
+ * tax number and archived status, and edits made in the OS pushed back.
+ *
+ * - recordXeroContact() upserts a contact from Xero (webhook or
+ *   sync-contacts cron) and carries its name and email on to the
+ *   `buyers`/`suppliers` rows linked to it.
+ * - updateContactDetails() applies an edit made in the OS: the mirror and
+ *   linked rows change at once, the change is queued in `pending_changes`
+ *   and pushed to Xero. If Xero rejects it or can't be reached, the change
+ *   stays queued with the error in `push_error`, and pushPendingContactChanges()
+ *   (run by the cron) tries again.
+ *
+ * Pending changes win over incoming Xero data for the fields they cover, so
+ * a sync never reverts an edit Xero hasn't accepted yet.
+ *
+ * Each contact records the Xero organisation it came from (`xero_tenant_id`,
+ * null = the default), and edits are pushed back to that organisation.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { buyers, suppliers, xeroContacts, type XeroContactRecord } from "@/db/schema";
+import { and, eq, isNotNull, isNull, or } from "drizzle-orm";
+import { withXeroClient } from "@/lib/xero-client";
+import { ExternalServiceError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Subset of Xero's Contact resource we mirror. */
+export interface XeroContact {
+  ContactID: string;
+  ContactStatus?: string;
+  Name: string;
+  FirstName?: string;
+  LastName?: string;
+  EmailAddress?: string;
+  AccountNumber?: string;
+  ContactNumber?: string;
+  TaxNumber?: string;
+  IsCustomer?: boolean;
+  IsSupplier?: boolean;
+  DefaultCurrency?: string;
+  UpdatedDateUTC?: string;
+  Sales?: { DefaultAccountCode?: string };
+  Purchases?: { DefaultAccountCode?: string };
+  Addresses?: Array<{
+    AddressType?: string;
+    AddressLine1?: string;
+    AddressLine2?: string;
+    AddressLine3?: string;
+    AddressLine4?: string;
+    City?: string;
+    Region?: string;
+    PostalCode?: string;
+    Country?: string;
+  }>;
+  Phones?: Array<{
+    PhoneType?: string;
+    PhoneNumber?: string;
+    PhoneAreaCode?: string;
+    PhoneCountryCode?: string;
+  }>;
+  ContactPersons?: Array<{ FirstName?: string; LastName?: string; EmailAddress?: string }>;
+}
+
+/** Fields the OS can edit and push back to Xero. */
+export type ContactChanges = NonNullable<XeroContactRecord["pendingChanges"]>;
+
+/** A mirrored contact as pages and API routes show it. */
+export interface XeroContactDetail {
+  xeroContactId: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  taxNumber: string | null;
+  addresses: NonNullable<XeroContactRecord["addresses"]>;
+  archived: boolean;
+  /** Fields edited in the OS that Xero hasn't accepted yet */
+  pendingFields: string[];
+  pushError: string | null;
+  updatedAt: string;
+}
+
+export interface ContactUpdateResult {
+  contact: XeroContactRecord;
+  /** False if the change is still queued for Xero */
+  pushed: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Xero's /Date(ms+0000)/ or an ISO date; null if neither. */
+function parseXeroDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/\/Date\((-?\d+)([+-]\d{4})?\)\//);
+  const date = match ? new Date(parseInt(match[1], 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** The DEFAULT phone as one string, e.g. "+44 20 7946 0000". */
+function formatPhone(phones: XeroContact["Phones"]): string | null {
+  const phone = phones?.find((p) => p.PhoneType === "DEFAULT" && p.PhoneNumber);
+  if (!phone) return null;
+  const country = phone.PhoneCountryCode
+    ? `${phone.PhoneCountryCode.startsWith("+") ? "" : "+"}${phone.PhoneCountryCode}`
+    : "";
+  return [country, phone.PhoneAreaCode, phone.PhoneNumber].filter(Boolean).join(" ");
+}
+
+function mapXeroContact(contact: XeroContact) {
+  const addresses = (contact.Addresses ?? [])
+    .map((address) => ({
+      type: address.AddressType ?? "POBOX",
+      lines: [address.AddressLine1, address.AddressLine2, address.AddressLine3, address.AddressLine4].filter(
+        (line): line is string => !!line
+      ),
+      city: address.City || null,
+      region: address.Region || null,
+      postalCode: address.PostalCode || null,
+      country: address.Country || null,
+    }))
+    .filter((a) => a.lines.length > 0 || a.city || a.postalCode || a.country);
+
+  const defaultSalesCode = contact.Sales?.DefaultAccountCode || null;
+  const defaultPurchaseCode = contact.Purchases?.DefaultAccountCode || null;
+
+  return {
+    name: contact.Name,
+    firstName: contact.FirstName || null,
+    lastName: contact.LastName || null,
+    email: contact.EmailAddress || null,
+    phone: formatPhone(contact.Phones),
+    accountNumber: contact.AccountNumber || null,
+    contactNumber: contact.ContactNumber || null,
+    taxNumber: contact.TaxNumber || null,
+    addresses,
+    contactPersons: (contact.ContactPersons ?? []).map((person) => ({
+      firstName: person.FirstName || null,
+      lastName: person.LastName || null,
+      email: person.EmailAddress || null,
+    })),
+    // Same classification buyer/supplier search has always used
+    isCustomer: !!contact.IsCustomer || !!defaultSalesCode,
+    isSupplier: !!contact.IsSupplier || !!defaultPurchaseCode,
+    defaultSalesCode,
+    defaultPurchaseCode,
+    defaultCurrency: contact.DefaultCurrency || null,
+    contactStatus: contact.ContactStatus ?? "ACTIVE",
+    xeroUpdatedAt: parseXeroDate(contact.UpdatedDateUTC),
+  };
+}
+
+/** Name and email follow the mirror onto linked buyers and suppliers. */
+async function propagateToLinkedRecords(contact: XeroContactRecord): Promise<void> {
+  const fields = { name: contact.name, ...(contact.email ? { email: contact.email } : {}) };
+  await db.update(buyers).set(fields).where(eq(buyers.xeroContactId, contact.xeroContactId));
+  await db.update(suppliers).set(fields).where(eq(suppliers.xeroContactId, contact.xeroContactId));
+}
+
+/** Xero's Contact payload for a set of changes. Cleared fields are sent empty. */
+function toXeroContactUpdate(xeroContactId: string, changes: ContactChanges) {
+  return {
+    ContactID: xeroContactId,
+    ...(changes.name !== undefined ? { Name: changes.name } : {}),
+    ...(changes.email !== undefined ? { EmailAddress: changes.email ?? "" } : {}),
+    ...(changes.taxNumber !== undefined ? { TaxNumber: changes.taxNumber ?? "" } : {}),
+    ...(changes.phone !== undefined
+      ? {
+          Phones: [
+            { PhoneType: "DEFAULT", PhoneNumber: changes.phone ?? "", PhoneAreaCode: "", PhoneCountryCode: "" },
+          ],
+        }
+      : {}),
+  };
+}
+
+function integrationUserId(): string {
+  const userId = process.env.XERO_INTEGRATION_CLERK_USER_ID;
+  if (!userId) {
+    throw new ExternalServiceError("Xero", "XERO_INTEGRATION_CLERK_USER_ID not configured");
+  }
+  return userId;
+}
+
+// ============================================================================
+// FROM XERO
+// ============================================================================
+
+/**
+ * Mirror a contact from Xero. Fields with an edit still waiting to reach
+ * Xero keep the edited value.
+ *
+ * @param tenantId - Organisation the contact came from; null for the default
+ */
+export async function recordXeroContact(
+  contact: XeroContact,
+  tenantId: string | null = null
+): Promise<XeroContactRecord> {
+  const [existing] = await db
+    .select({ pendingChanges: xeroContacts.pendingChanges })
+    .from(xeroContacts)
+    .where(eq(xeroContacts.xeroContactId, contact.ContactID))
+    .limit(1);
+
+  const fields = {
+    ...mapXeroContact(contact),
+    ...(existing?.pendingChanges ?? {}),
+    ...(tenantId ? { xeroTenantId: tenantId } : {}),
+    updatedAt: new Date(),
+  };
+
+  const [row] = await db
+    .insert(xeroContacts)
+    .values({ xeroContactId: contact.ContactID, ...fields })
+    .onConflictDoUpdate({ target: xeroContacts.xeroContactId, set: fields })
+    .returning();
+
+  await propagateToLinkedRecords(row);
+  return row;
+}
+
+/**
+ * Fetch one contact from Xero and mirror it.
+ *
+ * @param tenantId - Organisation to fetch from; null for the default
+ * @throws ExternalServiceError if Xero can't be reached or has no such contact
+ */
+export async function syncXeroContact(
+  xeroContactId: string,
+  tenantId: string | null = null
+): Promise<XeroContactRecord> {
+  const data = await withXeroClient(
+    integrationUserId(),
+    (client) => client.get<{ Contacts?: XeroContact[] }>(`Contacts/${xeroContactId}`),
+    { tenantId }
+  );
+  const contact = data.Contacts?.[0];
+  if (!contact) {
+    throw new ExternalServiceError("Xero", "Contact not found", { contactId: xeroContactId });
+  }
+  return recordXeroContact(contact, tenantId);
+}
+
+// ============================================================================
+// TO XERO
+// ============================================================================
+
+/**
+ * Push a contact's queued changes to Xero. On success the mirror takes
+ * Xero's response and the queue is cleared; on failure the error is kept
+ * and the changes stay queued.
+ *
+ * @returns Whether Xero accepted the changes (true if nothing was queued)
+ */
+export async function pushContactChanges(xeroContactId: string): Promise<boolean> {
+  const [row] = await db
+    .select()
+    .from(xeroContacts)
+    .where(eq(xeroContacts.xeroContactId, xeroContactId))
+    .limit(1);
+  if (!row?.pendingChanges) return true;
+  const pending = row.pendingChanges;
+
+  try {
+    const response = await withXeroClient(
+      integrationUserId(),
+      (client) =>
+        client.post<{ Contacts?: XeroContact[] }>(`Contacts/${xeroContactId}`, {
+          Contacts: [toXeroContactUpdate(xeroContactId, pending)],
+        }),
+      { tenantId: row.xeroTenantId }
+    );
+
+    // Clear the queue first so the response isn't overlaid with it
+    await db
+      .update(xeroContacts)
+      .set({ pendingChanges: null, pushError: null, pushedAt: new Date(), updatedAt: new Date() })
+      .where(eq(xeroContacts.xeroContactId, xeroContactId));
+    const updated = response.Contacts?.[0];
+    if (updated) await recordXeroContact(updated, row.xeroTenantId);
+
+    logger.info("XERO_CONTACTS", "Contact changes pushed to Xero", {
+      xeroContactId,
+      fields: Object.keys(pending),
+    });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error("XERO_CONTACTS", "Failed to push contact changes", { xeroContactId, message });
+    await db
+      .update(xeroContacts)
+      .set({ pushError: message, updatedAt: new Date() })
+      .where(eq(xeroContacts.xeroContactId, xeroContactId));
+    return false;
+  }
+}
+
+/**
+ * Apply an edit made in the OS to a Xero contact and push it to Xero. The
+ * edit is saved even if the push fails — it stays queued. A contact not
+ * mirrored yet is fetched first, from the organisation `tenantId` (the
+ * default when null).
+ *
+ * @throws ExternalServiceError if an unmirrored contact can't be fetched
+ */
+export async function updateContactDetails(
+  xeroContactId: string,
+  changes: ContactChanges,
+  tenantId: string | null = null
+): Promise<ContactUpdateResult> {
+  const existing =
+    (await getXeroContact(xeroContactId)) ?? (await syncXeroContact(xeroContactId, tenantId));
+
+  const [row] = await db
+    .update(xeroContacts)
+    .set({
+      ...changes,
+      pendingChanges: { ...existing.pendingChanges, ...changes },
+      updatedAt: new Date(),
+    })
+    .where(eq(xeroContacts.xeroContactId, xeroContactId))
+    .returning();
+  await propagateToLinkedRecords(row);
+
+  const pushed = await pushContactChanges(xeroContactId);
+  const [contact] = await db
+    .select()
+    .from(xeroContacts)
+    .where(eq(xeroContacts.xeroContactId, xeroContactId))
+    .limit(1);
+  return { contact, pushed };
+}
+
+/** Retry every queued edit. Returns how many were pushed and how many failed. */
+export async function pushPendingContactChanges(): Promise<{ pushed: number; failed: number }> {
+  const pending = await db
+    .select({ xeroContactId: xeroContacts.xeroContactId })
+    .from(xeroContacts)
+    .where(isNotNull(xeroContacts.pendingChanges));
+
+  let pushed = 0;
+  for (const { xeroContactId } of pending) {
+    if (await pushContactChanges(xeroContactId)) pushed++;
+  }
+  return { pushed, failed: pending.length - pushed };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+export async function getXeroContact(xeroContactId: string): Promise<XeroContactRecord | null> {
+  const [row] = await db
+    .select()
+    .from(xeroContacts)
+    .where(eq(xeroContacts.xeroContactId, xeroContactId))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Mirrored contacts, active ones only unless `includeArchived`. With
+ * `tenant`, only that organisation's — the default also owns contacts with
+ * no tenant recorded.
+ */
+export async function listXeroContacts(
+  options: { includeArchived?: boolean; tenant?: { tenantId: string; isDefault: boolean } } = {}
+): Promise<XeroContactRecord[]> {
+  const { tenant } = options;
+  return db
+    .select()
+    .from(xeroContacts)
+    .where(
+      and(
+        options.includeArchived ? undefined : eq(xeroContacts.contactStatus, "ACTIVE"),
+        tenant === undefined
+          ? undefined
+          : tenant.isDefault
+            ? or(eq(xeroContacts.xeroTenantId, tenant.tenantId), isNull(xeroContacts.xeroTenantId))
+            : eq(xeroContacts.xeroTenantId, tenant.tenantId)
+      )
+    );
+}
+
+export function toContactDetail(contact: XeroContactRecord): XeroContactDetail {
+  return {
+    xeroContactId: contact.xeroContactId,
+    name: contact.name,
+    email: contact.email,
+    phone: contact.phone,
+    taxNumber: contact.taxNumber,
+    addresses: contact.addresses ?? [],
+    archived: contact.contactStatus !== "ACTIVE",
+    pendingFields: Object.keys(contact.pendingChanges ?? {}),
+    pushError: contact.pushError,
+    updatedAt: contact.updatedAt.toISOString(),
+  };
+}
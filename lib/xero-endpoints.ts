@@ -0,0 +1,40 @@
+/**
+ * Club 19 Sales OS - Xero Endpoint URLs
+ *
+ * Every Xero URL the app calls, overridable from the environment so a
+ * local fake Xero server (lib/xero-fake) can stand in for the real one:
+ *
+ *   XERO_API_BASE_URL    Accounting API  (https://api.xero.com/api.xro/2.0)
+ *   XERO_IDENTITY_URL    OAuth token endpoint host  (https://identity.xero.com)
+ *   XERO_LOGIN_URL       OAuth authorize page host  (https://login.xero.com)
+ *
+ * The connections endpoint lives on the same host as the Accounting API.
+ */
+
+export const XERO_API_BASE_URL = "https://api.xero.com/api.xro/2.0";
+const XERO_IDENTITY_URL = "https://identity.xero.com";
+const XERO_LOGIN_URL = "https://login.xero.com";
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/** Accounting API base, without a trailing slash. */
+export function xeroApiBaseUrl(): string {
+  return trimSlash(process.env.XERO_API_BASE_URL || XERO_API_BASE_URL);
+}
+
+/** GET — the tenants an access token is connected to. */
+export function xeroConnectionsUrl(): string {
+  return new URL("/connections", xeroApiBaseUrl()).toString();
+}
+
+/** POST — authorization_code and refresh_token grants. */
+export function xeroTokenUrl(): string {
+  return `${trimSlash(process.env.XERO_IDENTITY_URL || XERO_IDENTITY_URL)}/connect/token`;
+}
+
+/** Browser redirect — the consent page. */
+export function xeroAuthorizeUrl(): string {
+  return `${trimSlash(process.env.XERO_LOGIN_URL || XERO_LOGIN_URL)}/identity/connect/authorize`;
+}
@@ -0,0 +1,32 @@
+/**
+ * Fake Xero - date formats
+ *
+ * Xero's JSON carries dates two ways and the app parses both, so the fake
+ * emits both: `/Date(1700000000000+0000)/` (Date, UpdatedDateUTC, …) and a
+ * local ISO string without zone (DateString, DueDateString).
+ */
+
+/** .NET JSON date, as in UpdatedDateUTC. */
+export function toXeroDate(ms: number): string {
+  return `/Date(${ms}+0000)/`;
+}
+
+/** Calendar date as Xero's *DateString fields show it. */
+export function toXeroDateString(ms: number): string {
+  return `${new Date(ms).toISOString().slice(0, 10)}T00:00:00`;
+}
+
+/** Parse either Xero format, or a plain ISO date; null if neither. */
+export function parseXeroDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const dotNet = value.match(/^\/Date\((-?\d+)([+-]\d{4})?\)\/$/);
+  if (dotNet) return new Date(parseInt(dotNet[1], 10));
+  const parsed = Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) || value.length <= 10 ? value : `${value}Z`);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+/** Midnight UTC of a date given in any accepted format, defaulting to `fallback`. */
+export function calendarDay(value: string | null | undefined, fallback: number): number {
+  const date = parseXeroDate(value) ?? new Date(fallback);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
@@ -0,0 +1,178 @@
+/**
+ * Fake Xero - seed data
+ *
+ * A seed is plain Xero-shaped JSON: the same objects you'd PUT to the API,
+ * optionally with fixed IDs so tests can refer to them. Totals, AmountDue,
+ * payments and credit-note allocations are worked out by the store, so a
+ * seed only needs line items and the documents that act on them.
+ *
+ * DEFAULT_FAKE_XERO_SEED is a small organisation covering every path the
+ * sync code cares about: an open GBP invoice, a paid one, a USD invoice
+ * with a booked rate, a fully credited one and a supplier bill.
+ */
+
+import { XERO_BRANDING_THEMES } from "@/lib/branding-theme-mappings";
+
+type XeroRecord = Record<string, any>;
+
+export interface FakeXeroSeed {
+  tenant?: { tenantId: string; tenantName: string };
+  contacts?: XeroRecord[];
+  invoices?: XeroRecord[];
+  creditNotes?: XeroRecord[];
+  payments?: XeroRecord[];
+  brandingThemes?: XeroRecord[];
+  /** Access tokens accepted without going through OAuth. */
+  accessTokens?: string[];
+}
+
+/** Accepted by a default-seeded fake without an OAuth round trip. */
+export const FAKE_XERO_ACCESS_TOKEN = "fake-xero-access-token";
+
+export const FAKE_XERO_TENANT_ID = "0f6c3b3e-5d0a-4b1e-9c6f-5a1d2e3f4a5b";
+
+/** Fixed IDs in the default seed. */
+export const FAKE_XERO_IDS = {
+  buyer: "a1b2c3d4-0000-4000-8000-000000000001",
+  overseasBuyer: "a1b2c3d4-0000-4000-8000-000000000002",
+  supplier: "a1b2c3d4-0000-4000-8000-000000000003",
+  openInvoice: "b1b2c3d4-0000-4000-8000-000000000001",
+  paidInvoice: "b1b2c3d4-0000-4000-8000-000000000002",
+  usdInvoice: "b1b2c3d4-0000-4000-8000-000000000003",
+  creditedInvoice: "b1b2c3d4-0000-4000-8000-000000000004",
+  supplierBill: "b1b2c3d4-0000-4000-8000-000000000005",
+  creditNote: "c1b2c3d4-0000-4000-8000-000000000001",
+} as const;
+
+const UK_THEME_ID = "d68f1fb5-ab36-48f5-809d-2752a2a1d940";
+
+export const DEFAULT_FAKE_XERO_SEED: FakeXeroSeed = {
+  tenant: { tenantId: FAKE_XERO_TENANT_ID, tenantName: "Club 19 London (Fake)" },
+  accessTokens: [FAKE_XERO_ACCESS_TOKEN],
+
+  brandingThemes: Object.values(XERO_BRANDING_THEMES).map((theme) => ({
+    BrandingThemeID: theme.id,
+    Name: theme.name,
+  })),
+
+  contacts: [
+    {
+      ContactID: FAKE_XERO_IDS.buyer,
+      Name: "Harriet Ashworth",
+      EmailAddress: "harriet@example.com",
+      IsCustomer: true,
+      Sales: { DefaultAccountCode: "425" },
+    },
+    {
+      ContactID: FAKE_XERO_IDS.overseasBuyer,
+      Name: "Mei Lin Tan",
+      EmailAddress: "meilin@example.com",
+      IsCustomer: true,
+      DefaultCurrency: "USD",
+    },
+    {
+      ContactID: FAKE_XERO_IDS.supplier,
+      Name: "Maison Vintage Paris",
+      EmailAddress: "orders@maisonvintage.example",
+      IsSupplier: true,
+      Purchases: { DefaultAccountCode: "310" },
+    },
+  ],
+
+  invoices: [
+    {
+      InvoiceID: FAKE_XERO_IDS.openInvoice,
+      InvoiceNumber: "INV-3001",
+      Type: "ACCREC",
+      Status: "AUTHORISED",
+      Contact: { ContactID: FAKE_XERO_IDS.buyer },
+      Date: "2026-01-12",
+      DueDate: "2026-01-26",
+      LineAmountTypes: "Inclusive",
+      BrandingThemeID: UK_THEME_ID,
+      Reference: "C19-0101",
+      LineItems: [
+        { Description: "Hermès Birkin 30 Gold Togo", Quantity: 1, UnitAmount: 24000, AccountCode: "425", TaxType: "OUTPUT2" },
+      ],
+    },
+    {
+      InvoiceID: FAKE_XERO_IDS.paidInvoice,
+      InvoiceNumber: "INV-3002",
+      Type: "ACCREC",
+      Status: "AUTHORISED",
+      Contact: { ContactID: FAKE_XERO_IDS.buyer },
+      Date: "2026-01-05",
+      DueDate: "2026-01-19",
+      LineAmountTypes: "Inclusive",
+      BrandingThemeID: UK_THEME_ID,
+      Reference: "C19-0100",
+      LineItems: [
+        { Description: "Chanel Classic Flap Medium", Quantity: 1, UnitAmount: 9500, AccountCode: "425", TaxType: "OUTPUT2" },
+      ],
+    },
+    {
+      InvoiceID: FAKE_XERO_IDS.usdInvoice,
+      InvoiceNumber: "INV-3003",
+      Type: "ACCREC",
+      Status: "AUTHORISED",
+      Contact: { ContactID: FAKE_XERO_IDS.overseasBuyer },
+      Date: "2026-01-20",
+      DueDate: "2026-02-03",
+      LineAmountTypes: "NoTax",
+      CurrencyCode: "USD",
+      CurrencyRate: 1.25,
+      Reference: "C19-0102",
+      LineItems: [
+        { Description: "Hermès Kelly 25 Noir Epsom", Quantity: 1, UnitAmount: 31250, AccountCode: "425", TaxType: "ZERORATEDOUTPUT" },
+      ],
+    },
+    {
+      InvoiceID: FAKE_XERO_IDS.creditedInvoice,
+      InvoiceNumber: "INV-3004",
+      Type: "ACCREC",
+      Status: "AUTHORISED",
+      Contact: { ContactID: FAKE_XERO_IDS.buyer },
+      Date: "2026-01-08",
+      DueDate: "2026-01-22",
+      LineAmountTypes: "Inclusive",
+      BrandingThemeID: UK_THEME_ID,
+      Reference: "C19-0099",
+      LineItems: [
+        { Description: "Dior Saddle Bag", Quantity: 1, UnitAmount: 3200, AccountCode: "425", TaxType: "OUTPUT2" },
+      ],
+    },
+    {
+      InvoiceID: FAKE_XERO_IDS.supplierBill,
+      InvoiceNumber: "MVP-7781",
+      Type: "ACCPAY",
+      Status: "AUTHORISED",
+      Contact: { ContactID: FAKE_XERO_IDS.supplier },
+      Date: "2026-01-10",
+      DueDate: "2026-02-10",
+      LineAmountTypes: "NoTax",
+      LineItems: [
+        { Description: "Hermès Birkin 30 Gold Togo", Quantity: 1, UnitAmount: 18500, AccountCode: "310", TaxType: "NONE" },
+      ],
+    },
+  ],
+
+  creditNotes: [
+    {
+      CreditNoteID: FAKE_XERO_IDS.creditNote,
+      CreditNoteNumber: "CN-0001",
+      Type: "ACCRECCREDIT",
+      Status: "AUTHORISED",
+      Contact: { ContactID: FAKE_XERO_IDS.buyer },
+      Date: "2026-01-15",
+      LineAmountTypes: "Inclusive",
+      LineItems: [
+        { Description: "Return — Dior Saddle Bag", Quantity: 1, UnitAmount: 3200, AccountCode: "425", TaxType: "OUTPUT2" },
+      ],
+      Allocations: [{ Invoice: { InvoiceID: FAKE_XERO_IDS.creditedInvoice }, Amount: 3200, Date: "2026-01-15" }],
+    },
+  ],
+
+  payments: [
+    { Invoice: { InvoiceID: FAKE_XERO_IDS.paidInvoice }, Amount: 9500, Date: "2026-01-09", Account: { Code: "090" } },
+  ],
+};
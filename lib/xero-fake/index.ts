@@ -0,0 +1,13 @@
+/**
+ * Fake Xero
+ *
+ * A local stand-in for Xero's Accounting API, OAuth and webhooks — see
+ * ./server.ts for what it serves and scripts/fake-xero.ts to run it.
+ */
+
+export * from "./server";
+export * from "./store";
+export * from "./fixtures";
+export * from "./webhooks";
+export { compileWhere, FakeXeroWhereError } from "./where";
+export { toXeroDate, toXeroDateString, parseXeroDate } from "./dates";
@@ -0,0 +1,589 @@
+/**
+ * Fake Xero - request handler and server
+ *
+ * A stand-in for the parts of Xero the app talks to, usable in-process (as
+ * the Xero client's transport) or as a local HTTP server:
+ *
+ *   GET|PUT|POST /api.xro/2.0/Invoices[/{id}]        (Accept: application/pdf too)
+ *   GET|PUT|POST /api.xro/2.0/Contacts[/{id}]
+ *   GET|PUT|POST /api.xro/2.0/CreditNotes[/{id}]     PUT …/{id}/Allocations
+ *   GET|PUT      /api.xro/2.0/Payments[/{id}]
+ *   GET          /api.xro/2.0/BrandingThemes[/{id}]
+ *   GET          /connections
+ *   POST         /connect/token                    authorization_code, refresh_token
+ *   GET          /identity/connect/authorize       redirects straight back with a code
+ *
+ * Lists honour `page` (100 per page), `where` (see ./where.ts), IDs /
+ * InvoiceNumbers / ContactIDs / Statuses and If-Modified-Since. Every API
+ * response carries X-MinLimit-Remaining / X-DayLimit-Remaining, and going
+ * over the limits returns Xero's 429.
+ *
+ * Test controls — as methods, and over HTTP under /__fake:
+ *   GET  /__fake/state       everything in the store
+ *   POST /__fake/reset       reseed (body: a FakeXeroSeed, or empty for the default)
+ *   POST /__fake/webhooks    { eventCategory, eventType, resourceId } or { queued: true }
+ *   POST /__fake/faults      { status, times?, path?, headers?, body? }
+ */
+
+import http from "http";
+import { randomUUID } from "crypto";
+import {
+  createFakeXeroStore,
+  FakeXeroNotFoundError,
+  FakeXeroValidationError,
+  type FakeWebhookEvent,
+  type FakeXeroStore,
+} from "./store";
+import { DEFAULT_FAKE_XERO_SEED, type FakeXeroSeed } from "./fixtures";
+import { compileWhere, FakeXeroWhereError } from "./where";
+import { parseXeroDate, toXeroDate } from "./dates";
+import { buildWebhookDelivery, deliverWebhook, type FakeWebhookResult } from "./webhooks";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type XeroRecord = Record<string, any>;
+type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface FakeXeroOptions {
+  seed?: FakeXeroSeed;
+  /** Signs webhook deliveries; must match the app's XERO_WEBHOOK_SECRET. */
+  webhookKey?: string;
+  /** Where deliveries go, e.g. http://localhost:3000/api/xero/webhooks */
+  webhookUrl?: string;
+  /** How deliveries are sent — e.g. straight into the route handler in tests. */
+  webhookTransport?: Transport;
+  /** Queue the webhook events Xero would send for every write. */
+  autoWebhooks?: boolean;
+  rateLimits?: { perMinute?: number; perDay?: number };
+  /** Freeze the clock at this time. */
+  now?: number;
+}
+
+/** A canned response for the next matching request(s). */
+export interface FakeXeroFault {
+  status: number;
+  /** How many requests it applies to (default 1). */
+  times?: number;
+  /** Only requests whose path contains this. */
+  path?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface FakeXeroRequestLog {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+export type FakeWebhookTrigger = Pick<FakeWebhookEvent, "eventCategory" | "eventType" | "resourceId">;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const API_PREFIX = "/api.xro/2.0/";
+const PAGE_SIZE = 100;
+const DEFAULT_PER_MINUTE = 60;
+const DEFAULT_PER_DAY = 5000;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NOT_FOUND_TEXT = "The resource you're looking for cannot be found";
+
+/** URL segment (lower-cased) → response collection key. */
+const COLLECTIONS = {
+  invoices: "Invoices",
+  contacts: "Contacts",
+  creditnotes: "CreditNotes",
+  payments: "Payments",
+  brandingthemes: "BrandingThemes",
+} as const;
+
+type CollectionSegment = keyof typeof COLLECTIONS;
+
+const ID_FIELDS: Record<CollectionSegment, string> = {
+  invoices: "InvoiceID",
+  contacts: "ContactID",
+  creditnotes: "CreditNoteID",
+  payments: "PaymentID",
+  brandingthemes: "BrandingThemeID",
+};
+
+const WEBHOOK_PATHS: Record<FakeWebhookEvent["eventCategory"], string> = {
+  INVOICE: "Invoices",
+  CONTACT: "Contacts",
+  CREDITNOTE: "CreditNotes",
+  PAYMENT: "Payments",
+};
+
+// A minimal valid PDF — enough for the download proxy to stream
+const FAKE_PDF = Buffer.from(
+  "%PDF-1.4\n1 0 obj<</Type/Catalog/Pages 2 0 R>>endobj\n2 0 obj<</Type/Pages/Kids[]/Count 0>>endobj\n" +
+    "trailer<</Root 1 0 R>>\n%%EOF\n"
+);
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", ...headers },
+  });
+}
+
+function textResponse(status: number, text: string, headers: Record<string, string> = {}): Response {
+  return new Response(text, { status, headers: { "Content-Type": "text/plain", ...headers } });
+}
+
+function validationResponse(error: FakeXeroValidationError, headers: Record<string, string>): Response {
+  return jsonResponse(
+    400,
+    {
+      ErrorNumber: 10,
+      Type: "ValidationException",
+      Message: error.message,
+      Elements: [{ ValidationErrors: error.elements.map((Message) => ({ Message })) }],
+    },
+    headers
+  );
+}
+
+function unauthorisedResponse(detail: string): Response {
+  return jsonResponse(401, { Type: null, Title: "Unauthorized", Status: 401, Detail: detail, Instance: randomUUID() }, {
+    "WWW-Authenticate": 'Bearer error="invalid_token"',
+  });
+}
+
+// ============================================================================
+// FAKE
+// ============================================================================
+
+export type FakeXero = ReturnType<typeof createFakeXero>;
+
+export function createFakeXero(options: FakeXeroOptions = {}) {
+  const storeOptions = { autoWebhooks: options.autoWebhooks, now: options.now };
+  let store: FakeXeroStore = createFakeXeroStore(options.seed ?? DEFAULT_FAKE_XERO_SEED, storeOptions);
+  const perMinute = options.rateLimits?.perMinute ?? DEFAULT_PER_MINUTE;
+  const perDay = options.rateLimits?.perDay ?? DEFAULT_PER_DAY;
+
+  let faults: (FakeXeroFault & { remaining: number })[] = [];
+  let requests: FakeXeroRequestLog[] = [];
+  let minuteWindow = { start: 0, count: 0 };
+  let dayWindow = { start: 0, count: 0 };
+
+  // --------------------------------------------------------------------------
+  // Rate limits
+  // --------------------------------------------------------------------------
+
+  /** Count a call; returns the limit headers, or a 429 if it's over. */
+  function takeCall(): { headers: Record<string, string>; limited: Response | null } {
+    const now = store.now();
+    if (now - minuteWindow.start >= MINUTE_MS) minuteWindow = { start: now, count: 0 };
+    if (now - dayWindow.start >= DAY_MS) dayWindow = { start: now, count: 0 };
+
+    if (dayWindow.count >= perDay || minuteWindow.count >= perMinute) {
+      const daily = dayWindow.count >= perDay;
+      const resetAt = daily ? dayWindow.start + DAY_MS : minuteWindow.start + MINUTE_MS;
+      const headers = {
+        "Retry-After": String(Math.max(1, Math.ceil((resetAt - now) / 1000))),
+        "X-Rate-Limit-Problem": daily ? "day" : "minute",
+        "X-MinLimit-Remaining": String(Math.max(0, perMinute - minuteWindow.count)),
+        "X-DayLimit-Remaining": String(Math.max(0, perDay - dayWindow.count)),
+      };
+      return { headers, limited: textResponse(429, "Rate limit exceeded", headers) };
+    }
+
+    minuteWindow.count++;
+    dayWindow.count++;
+    return {
+      headers: {
+        "X-MinLimit-Remaining": String(perMinute - minuteWindow.count),
+        "X-DayLimit-Remaining": String(perDay - dayWindow.count),
+        "X-AppMinLimit-Remaining": "9999",
+      },
+      limited: null,
+    };
+  }
+
+  function takeFault(path: string): Response | null {
+    const index = faults.findIndex((fault) => !fault.path || path.includes(fault.path));
+    if (index === -1) return null;
+    const fault = faults[index];
+    fault.remaining--;
+    if (fault.remaining <= 0) faults.splice(index, 1);
+    const body = fault.body === undefined ? "" : typeof fault.body === "string" ? fault.body : JSON.stringify(fault.body);
+    return new Response(body, { status: fault.status, headers: fault.headers });
+  }
+
+  // --------------------------------------------------------------------------
+  // Accounting API
+  // --------------------------------------------------------------------------
+
+  function listFor(segment: CollectionSegment): XeroRecord[] {
+    switch (segment) {
+      case "invoices":
+        return store.listInvoices();
+      case "contacts":
+        return store.listContacts();
+      case "creditnotes":
+        return store.listCreditNotes();
+      case "payments":
+        return store.listPayments();
+      case "brandingthemes":
+        return store.listBrandingThemes();
+    }
+  }
+
+  function findFor(segment: CollectionSegment, id: string): XeroRecord | undefined {
+    switch (segment) {
+      case "invoices":
+        return store.getInvoice(id);
+      case "contacts":
+        return store.getContact(id);
+      case "creditnotes":
+        return store.getCreditNote(id);
+      case "payments":
+        return store.getPayment(id);
+      case "brandingthemes":
+        return store.listBrandingThemes().find((t) => t.BrandingThemeID.toLowerCase() === id.toLowerCase());
+    }
+  }
+
+  function filterList(segment: CollectionSegment, url: URL, headers: Headers): XeroRecord[] {
+    let records = listFor(segment);
+    const params = url.searchParams;
+
+    const inList = (param: string, field: string) => {
+      const values = params.get(param);
+      if (!values) return;
+      const wanted = new Set(values.split(",").map((v) => v.trim().toLowerCase()));
+      records = records.filter((r) => wanted.has(String(r[field] ?? "").toLowerCase()));
+    };
+    inList("IDs", ID_FIELDS[segment]);
+    inList("InvoiceNumbers", "InvoiceNumber");
+    inList("Statuses", "Status");
+    const contactIds = params.get("ContactIDs");
+    if (contactIds) {
+      const wanted = new Set(contactIds.split(",").map((v) => v.trim().toLowerCase()));
+      records = records.filter((r) => wanted.has(String(r.Contact?.ContactID ?? "").toLowerCase()));
+    }
+
+    const where = params.get("where");
+    if (where) {
+      records = records.filter(compileWhere(where));
+    }
+
+    const modifiedSince = headers.get("If-Modified-Since");
+    if (modifiedSince) {
+      const since = Date.parse(modifiedSince);
+      if (!Number.isNaN(since)) {
+        records = records.filter((r) => (parseXeroDate(r.UpdatedDateUTC)?.getTime() ?? 0) > since);
+      }
+    }
+
+    const page = params.get("page");
+    if (page) {
+      const pageNumber = Math.max(1, parseInt(page, 10) || 1);
+      records = records.slice((pageNumber - 1) * PAGE_SIZE, pageNumber * PAGE_SIZE);
+    }
+    return records;
+  }
+
+  function envelope(collection: string, records: XeroRecord[]) {
+    return {
+      Id: randomUUID(),
+      Status: "OK",
+      ProviderName: "Club 19 Sales OS",
+      DateTimeUTC: toXeroDate(store.now()),
+      [collection]: records,
+    };
+  }
+
+  async function readBody(request: Request): Promise<unknown> {
+    const text = await request.text();
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new FakeXeroValidationError("A validation exception occurred", ["Request body is not valid JSON"]);
+    }
+  }
+
+  async function handleApi(request: Request, url: URL, rest: string, headers: Record<string, string>): Promise<Response> {
+    const [rawSegment, id, sub] = rest.split("/").filter(Boolean);
+    const segment = rawSegment?.toLowerCase() as CollectionSegment;
+    const collection = COLLECTIONS[segment];
+    if (!collection) return textResponse(404, NOT_FOUND_TEXT, headers);
+    const method = request.method.toUpperCase();
+
+    if (method === "GET") {
+      if (!id) {
+        return jsonResponse(200, envelope(collection, filterList(segment, url, request.headers)), headers);
+      }
+      const record = findFor(segment, id);
+      if (!record) return textResponse(404, NOT_FOUND_TEXT, headers);
+      if (segment === "invoices" && request.headers.get("Accept")?.includes("application/pdf")) {
+        return new Response(FAKE_PDF, { status: 200, headers: { ...headers, "Content-Type": "application/pdf" } });
+      }
+      return jsonResponse(200, envelope(collection, [record]), headers);
+    }
+
+    if (method !== "PUT" && method !== "POST") {
+      return textResponse(405, "Method not allowed", headers);
+    }
+
+    const body = await readBody(request);
+    let saved: XeroRecord[];
+    switch (segment) {
+      case "invoices":
+        saved = id
+          ? [store.saveInvoice((body as XeroRecord)?.Invoices?.[0] ?? body ?? {}, id)]
+          : store.saveInvoices(body);
+        break;
+      case "contacts":
+        saved = id
+          ? [store.saveContact({ ...((body as XeroRecord)?.Contacts?.[0] ?? body ?? {}), ContactID: id })]
+          : store.saveContacts(body);
+        break;
+      case "creditnotes":
+        if (id && sub?.toLowerCase() === "allocations") {
+          return jsonResponse(200, envelope("Allocations", store.allocateCreditNote(id, body)), headers);
+        }
+        saved = id
+          ? [store.saveCreditNote((body as XeroRecord)?.CreditNotes?.[0] ?? body ?? {}, id)]
+          : store.saveCreditNotes(body);
+        break;
+      case "payments":
+        if (id) return textResponse(405, "Method not allowed", headers);
+        saved = store.savePayments(body);
+        break;
+      default:
+        return textResponse(405, "Method not allowed", headers);
+    }
+    return jsonResponse(200, envelope(collection, saved), headers);
+  }
+
+  // --------------------------------------------------------------------------
+  // OAuth and connections
+  // --------------------------------------------------------------------------
+
+  async function handleToken(request: Request): Promise<Response> {
+    const form = new URLSearchParams(await request.text());
+    const grant = form.get("grant_type");
+    const tokens =
+      grant === "authorization_code"
+        ? store.exchangeAuthCode(form.get("code") ?? "")
+        : grant === "refresh_token"
+          ? store.refresh(form.get("refresh_token") ?? "")
+          : null;
+    if (!tokens) return jsonResponse(400, { error: "invalid_grant" });
+    return jsonResponse(200, tokens);
+  }
+
+  function handleAuthorize(url: URL): Response {
+    const redirectUri = url.searchParams.get("redirect_uri");
+    if (!redirectUri) return jsonResponse(400, { error: "invalid_request" });
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", store.issueAuthCode());
+    const state = url.searchParams.get("state");
+    if (state) target.searchParams.set("state", state);
+    return new Response(null, { status: 302, headers: { Location: target.toString() } });
+  }
+
+  function bearer(request: Request): string | null {
+    const match = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1] : null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Controls
+  // --------------------------------------------------------------------------
+
+  function reset(seed: FakeXeroSeed = options.seed ?? DEFAULT_FAKE_XERO_SEED): void {
+    store = createFakeXeroStore(seed, storeOptions);
+    faults = [];
+    requests = [];
+    minuteWindow = { start: 0, count: 0 };
+    dayWindow = { start: 0, count: 0 };
+  }
+
+  function injectFault(fault: FakeXeroFault): void {
+    faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /** Sign and deliver events (or an intent-to-receive check if empty). */
+  async function fireWebhook(
+    events: (FakeWebhookEvent | FakeWebhookTrigger)[],
+    deliveryOptions: { signature?: "valid" | "invalid" } = {}
+  ): Promise<FakeWebhookResult> {
+    if (!options.webhookUrl || !options.webhookKey) {
+      throw new Error("Fake Xero: webhookUrl and webhookKey are required to fire webhooks");
+    }
+    const full: FakeWebhookEvent[] = events.map((event) => ({
+      resourceUrl: `https://api.xero.com/api.xro/2.0/${WEBHOOK_PATHS[event.eventCategory]}/${event.resourceId}`,
+      eventDateUtc: new Date(store.now()).toISOString(),
+      tenantId: store.tenant.tenantId,
+      tenantType: "ORGANISATION",
+      ...event,
+    }));
+    const delivery = buildWebhookDelivery(full, options.webhookKey, deliveryOptions);
+    return deliverWebhook(options.webhookUrl, delivery, options.webhookTransport);
+  }
+
+  /** Deliver everything writes have queued (autoWebhooks); null if nothing was. */
+  async function fireQueuedWebhooks(): Promise<FakeWebhookResult | null> {
+    const events = store.drainWebhookOutbox();
+    return events.length > 0 ? fireWebhook(events) : null;
+  }
+
+  async function handleControl(request: Request, action: string): Promise<Response> {
+    const body = (await readBody(request).catch(() => undefined)) as XeroRecord | undefined;
+    switch (`${request.method.toUpperCase()} ${action}`) {
+      case "GET state":
+        return jsonResponse(200, { ...store.snapshot(), requests: requests.length });
+      case "POST reset":
+        reset(body && Object.keys(body).length > 0 ? (body as FakeXeroSeed) : undefined);
+        return jsonResponse(200, { ok: true });
+      case "POST faults":
+        injectFault(body as FakeXeroFault);
+        return jsonResponse(200, { ok: true, pending: faults.length });
+      case "POST webhooks": {
+        const result = body?.queued
+          ? await fireQueuedWebhooks()
+          : await fireWebhook(body?.events ?? [body as FakeWebhookTrigger], { signature: body?.signature });
+        return jsonResponse(200, result ?? { delivered: 0 });
+      }
+      default:
+        return textResponse(404, NOT_FOUND_TEXT);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Entry point
+  // --------------------------------------------------------------------------
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    if (path.startsWith("/__fake/")) {
+      return handleControl(request, path.slice("/__fake/".length));
+    }
+
+    requests.push({
+      method: request.method.toUpperCase(),
+      path,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(request.headers),
+    });
+
+    try {
+      if (path === "/connect/token" && request.method.toUpperCase() === "POST") {
+        return await handleToken(request);
+      }
+      if (path === "/identity/connect/authorize") {
+        return handleAuthorize(url);
+      }
+
+      const fault = takeFault(path);
+      if (fault) return fault;
+
+      const token = bearer(request);
+      if (!token || !store.isValidAccessToken(token)) {
+        return unauthorisedResponse("AuthenticationUnsuccessful");
+      }
+
+      if (path === "/connections") {
+        return jsonResponse(200, [
+          {
+            id: randomUUID(),
+            tenantId: store.tenant.tenantId,
+            tenantType: "ORGANISATION",
+            tenantName: store.tenant.tenantName,
+            createdDateUtc: new Date(store.now()).toISOString(),
+            updatedDateUtc: new Date(store.now()).toISOString(),
+          },
+        ]);
+      }
+
+      if (!path.startsWith(API_PREFIX)) {
+        return textResponse(404, NOT_FOUND_TEXT);
+      }
+
+      const tenantId = request.headers.get("Xero-Tenant-Id");
+      if (!tenantId || tenantId.toLowerCase() !== store.tenant.tenantId.toLowerCase()) {
+        return jsonResponse(403, { Type: null, Title: "Forbidden", Status: 403, Detail: "AuthorizationUnsuccessful" });
+      }
+
+      const { headers, limited } = takeCall();
+      if (limited) return limited;
+
+      try {
+        return await handleApi(request, url, path.slice(API_PREFIX.length), headers);
+      } catch (error) {
+        if (error instanceof FakeXeroValidationError) return validationResponse(error, headers);
+        if (error instanceof FakeXeroWhereError) {
+          return validationResponse(new FakeXeroValidationError(error.message), headers);
+        }
+        if (error instanceof FakeXeroNotFoundError) return textResponse(404, NOT_FOUND_TEXT, headers);
+        throw error;
+      }
+    } catch (error) {
+      return jsonResponse(500, { Message: error instanceof Error ? error.message : "Fake Xero error" });
+    }
+  }
+
+  /** Serve over HTTP; resolves once listening. */
+  async function listen(port = 0): Promise<{ url: string; close: () => Promise<void> }> {
+    const server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (Array.isArray(value)) value.forEach((v) => headers.append(name, v));
+        else if (value !== undefined) headers.set(name, value);
+      }
+      const method = req.method ?? "GET";
+      const request = new Request(`http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`, {
+        method,
+        headers,
+        body: method === "GET" || method === "HEAD" ? undefined : Buffer.concat(chunks),
+      });
+      const response = await handle(request);
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, resolve));
+    const address = server.address();
+    const boundPort = typeof address === "object" && address ? address.port : port;
+    return {
+      url: `http://localhost:${boundPort}`,
+      close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+    };
+  }
+
+  return {
+    get store() {
+      return store;
+    },
+    /** Requests received since the last reset, oldest first. */
+    get requests(): readonly FakeXeroRequestLog[] {
+      return requests;
+    },
+    handle,
+    /** Drop-in for fetch — pass to createXeroClient({ transport }) or setXeroTransport(). */
+    transport: ((url: string, init: RequestInit) => handle(new Request(url, init))) as Transport,
+    listen,
+    reset,
+    injectFault,
+    fireWebhook,
+    fireQueuedWebhooks,
+  };
+}
@@ -0,0 +1,615 @@
+/**
+ * Fake Xero - in-memory organisation
+ *
+ * Holds one tenant's Contacts, Invoices, CreditNotes, Payments and
+ * BrandingThemes in Xero's own JSON shapes, and applies the side effects
+ * the app relies on:
+ *
+ * - invoice totals are recalculated from LineItems (Inclusive / Exclusive /
+ *   NoTax, tax by TaxType)
+ * - a payment or credit-note allocation moves AmountPaid / AmountCredited /
+ *   AmountDue, lists itself on the invoice, and flips a fully settled
+ *   AUTHORISED invoice to PAID (Xero keeps credited invoices PAID too — the
+ *   app derives CREDITED, see lib/xero-invoice-mapping.ts)
+ * - every write bumps UpdatedDateUTC from a controllable clock, so
+ *   If-Modified-Since behaves like Xero's
+ * - with `autoWebhooks`, writes queue the webhook events Xero would send
+ *
+ * Errors are thrown as FakeXeroValidationError / FakeXeroNotFoundError and
+ * turned into Xero-shaped responses by the handler.
+ */
+
+import { randomUUID } from "crypto";
+import { calendarDay, toXeroDate, toXeroDateString } from "./dates";
+import type { FakeXeroSeed } from "./fixtures";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type XeroRecord = Record<string, any>;
+
+export interface FakeXeroTenant {
+  tenantId: string;
+  tenantName: string;
+}
+
+export interface FakeWebhookEvent {
+  resourceUrl: string;
+  resourceId: string;
+  eventDateUtc: string;
+  eventType: "CREATE" | "UPDATE";
+  eventCategory: "INVOICE" | "CONTACT" | "CREDITNOTE" | "PAYMENT";
+  tenantId: string;
+  tenantType: "ORGANISATION";
+}
+
+export interface FakeXeroTokenSet {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  token_type: "Bearer";
+  id_token?: string;
+  scope: string;
+}
+
+export class FakeXeroValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly elements: string[] = []
+  ) {
+    super(message);
+  }
+}
+
+export class FakeXeroNotFoundError extends Error {}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Xero's rates for the tax types the app uses; anything else is untaxed. */
+const TAX_RATES: Record<string, number> = {
+  OUTPUT2: 0.2,
+  INPUT2: 0.2,
+  RROUTPUT: 0.05,
+  RRINPUT: 0.05,
+  ZERORATEDOUTPUT: 0,
+  ZERORATEDINPUT: 0,
+  EXEMPTOUTPUT: 0,
+  EXEMPTINPUT: 0,
+  NONE: 0,
+};
+
+const ACCESS_TOKEN_TTL_SECONDS = 30 * 60;
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function asArray(body: unknown, collection: string): XeroRecord[] {
+  if (body && typeof body === "object" && Array.isArray((body as XeroRecord)[collection])) {
+    return (body as XeroRecord)[collection];
+  }
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === "object") return [body as XeroRecord];
+  throw new FakeXeroValidationError("A validation exception occurred", ["Request body is empty"]);
+}
+
+function sameId(a: unknown, b: unknown): boolean {
+  return typeof a === "string" && typeof b === "string" && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Recalculate line and document totals the way Xero does.
+ * Line amounts are rounded per line, tax per line, then summed.
+ */
+function applyTotals(doc: XeroRecord): void {
+  const amountType: string = doc.LineAmountTypes || "Exclusive";
+  let subTotal = 0;
+  let totalTax = 0;
+
+  doc.LineItems = (doc.LineItems || []).map((line: XeroRecord) => {
+    const quantity = line.Quantity ?? 1;
+    const lineAmount = round2(line.LineAmount ?? quantity * (line.UnitAmount ?? 0));
+    const rate = amountType === "NoTax" ? 0 : TAX_RATES[line.TaxType] ?? 0;
+    const taxAmount =
+      amountType === "Inclusive" ? round2(lineAmount - lineAmount / (1 + rate)) : round2(lineAmount * rate);
+    subTotal += amountType === "Inclusive" ? lineAmount - taxAmount : lineAmount;
+    totalTax += taxAmount;
+    return {
+      LineItemID: line.LineItemID || randomUUID(),
+      ...line,
+      Quantity: quantity,
+      UnitAmount: line.UnitAmount ?? lineAmount / quantity,
+      LineAmount: lineAmount,
+      TaxAmount: taxAmount,
+    };
+  });
+
+  doc.SubTotal = round2(subTotal);
+  doc.TotalTax = round2(totalTax);
+  doc.Total = round2(subTotal + totalTax);
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export interface FakeXeroStoreOptions {
+  /** Queue webhook events for every write (deliver with fireQueuedWebhooks()). */
+  autoWebhooks?: boolean;
+  /** Freeze the clock at this time (tests); otherwise it follows real time. */
+  now?: number;
+}
+
+export type FakeXeroStore = ReturnType<typeof createFakeXeroStore>;
+
+export function createFakeXeroStore(seed: FakeXeroSeed, options: FakeXeroStoreOptions = {}) {
+  let clockOffset = 0;
+  const clock = () => (options.now ?? Date.now()) + clockOffset;
+  let lastStamp = 0;
+
+  const tenant: FakeXeroTenant = {
+    tenantId: seed.tenant?.tenantId ?? randomUUID(),
+    tenantName: seed.tenant?.tenantName ?? "Fake Xero Ltd",
+  };
+
+  const contacts = new Map<string, XeroRecord>();
+  const invoices = new Map<string, XeroRecord>();
+  const creditNotes = new Map<string, XeroRecord>();
+  const payments = new Map<string, XeroRecord>();
+  const brandingThemes: XeroRecord[] = [];
+  const webhookOutbox: FakeWebhookEvent[] = [];
+  const accessTokens = new Map<string, number>(); // token → expires at (ms)
+  const refreshTokens = new Set<string>();
+  const authCodes = new Set<string>();
+  let invoiceSequence = 0;
+  let creditNoteSequence = 0;
+  // While seeding, records may bring their own IDs
+  let seeding = true;
+
+  /** Strictly increasing write timestamp, so ordering by UpdatedDateUTC is total. */
+  function stamp(): number {
+    lastStamp = Math.max(clock(), lastStamp + 1);
+    return lastStamp;
+  }
+
+  function queueWebhook(eventCategory: FakeWebhookEvent["eventCategory"], eventType: FakeWebhookEvent["eventType"], resourceId: string, path: string) {
+    if (!options.autoWebhooks) return;
+    webhookOutbox.push({
+      resourceUrl: `https://api.xero.com/api.xro/2.0/${path}/${resourceId}`,
+      resourceId,
+      eventDateUtc: new Date(lastStamp).toISOString(),
+      eventType,
+      eventCategory,
+      tenantId: tenant.tenantId,
+      tenantType: "ORGANISATION",
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Contacts
+  // --------------------------------------------------------------------------
+
+  function findContact(ref: XeroRecord | undefined): XeroRecord | undefined {
+    if (!ref) return undefined;
+    if (ref.ContactID) {
+      return [...contacts.values()].find((c) => sameId(c.ContactID, ref.ContactID));
+    }
+    if (ref.Name) {
+      return [...contacts.values()].find((c) => c.Name.toLowerCase() === String(ref.Name).toLowerCase());
+    }
+    return undefined;
+  }
+
+  function saveContact(input: XeroRecord): XeroRecord {
+    const existing = input.ContactID ? findContact({ ContactID: input.ContactID }) : undefined;
+    if (input.ContactID && !existing && !seeding) {
+      throw new FakeXeroNotFoundError(`Contact ${input.ContactID} not found`);
+    }
+    if (!existing && !input.Name) {
+      throw new FakeXeroValidationError("A validation exception occurred", ["The contact name must be specified."]);
+    }
+    const clash = input.Name && [...contacts.values()].find(
+      (c) => c.Name.toLowerCase() === String(input.Name).toLowerCase() && c !== existing
+    );
+    if (clash) {
+      throw new FakeXeroValidationError("A validation exception occurred", [
+        `The contact name ${input.Name} is already assigned to another contact. The contact name must be unique across all active contacts.`,
+      ]);
+    }
+
+    const contact: XeroRecord = {
+      ContactStatus: "ACTIVE",
+      IsCustomer: false,
+      IsSupplier: false,
+      ...existing,
+      ...input,
+      ContactID: existing?.ContactID ?? input.ContactID ?? randomUUID(),
+      UpdatedDateUTC: toXeroDate(stamp()),
+    };
+    contacts.set(contact.ContactID, contact);
+    queueWebhook("CONTACT", existing ? "UPDATE" : "CREATE", contact.ContactID, "Contacts");
+    return contact;
+  }
+
+  /** The Contact block embedded in invoices; creates the contact by name like Xero. */
+  function contactRef(ref: XeroRecord | undefined): XeroRecord {
+    let contact = findContact(ref);
+    if (!contact && ref?.ContactID) {
+      throw new FakeXeroValidationError("A validation exception occurred", [
+        `The Contact with ID ${ref.ContactID} could not be found.`,
+      ]);
+    }
+    if (!contact) {
+      if (!ref?.Name) {
+        throw new FakeXeroValidationError("A validation exception occurred", ["A Contact must be specified"]);
+      }
+      contact = saveContact({ Name: ref.Name });
+    }
+    return { ContactID: contact.ContactID, Name: contact.Name };
+  }
+
+  // --------------------------------------------------------------------------
+  // Invoices
+  // --------------------------------------------------------------------------
+
+  function findInvoice(idOrNumber: string): XeroRecord | undefined {
+    return [...invoices.values()].find(
+      (i) => sameId(i.InvoiceID, idOrNumber) || i.InvoiceNumber === idOrNumber
+    );
+  }
+
+  function settleInvoice(invoice: XeroRecord): void {
+    invoice.AmountDue = round2(invoice.Total - (invoice.AmountPaid ?? 0) - (invoice.AmountCredited ?? 0));
+    if (invoice.Status === "AUTHORISED" && invoice.AmountDue <= 0 && invoice.Total > 0) {
+      invoice.Status = "PAID";
+      invoice.FullyPaidOnDate = toXeroDate(lastStamp);
+    }
+  }
+
+  function saveInvoice(input: XeroRecord, id?: string): XeroRecord {
+    const invoiceId = id ?? input.InvoiceID;
+    const existing = invoiceId ? findInvoice(invoiceId) : undefined;
+    if (invoiceId && !existing && !seeding) {
+      throw new FakeXeroNotFoundError(`Invoice ${invoiceId} not found`);
+    }
+    if (existing) {
+      const locked =
+        ["VOIDED", "DELETED"].includes(existing.Status) ||
+        (existing.Status === "PAID" && (input.LineItems || (input.Status && input.Status !== "PAID")));
+      if (locked) {
+        throw new FakeXeroValidationError("A validation exception occurred", [
+          `Invoice not of valid status for modification (${existing.Status})`,
+        ]);
+      }
+      if (input.Status === "VOIDED" && (existing.AmountPaid > 0 || existing.AmountCredited > 0)) {
+        throw new FakeXeroValidationError("A validation exception occurred", [
+          "Invoice with payments or credit notes allocated cannot be voided",
+        ]);
+      }
+    }
+    if (!existing && !input.LineItems?.length) {
+      throw new FakeXeroValidationError("A validation exception occurred", ["At least one line item must be specified"]);
+    }
+
+    const now = stamp();
+    const dateMs = calendarDay(input.Date ?? input.DateString ?? existing?.DateString, now);
+    const dueMs = calendarDay(input.DueDate ?? input.DueDateString ?? existing?.DueDateString, dateMs);
+    const number =
+      existing?.InvoiceNumber ??
+      input.InvoiceNumber ??
+      `INV-${String(++invoiceSequence).padStart(4, "0")}`;
+    const numbered = /^INV-(\d+)$/.exec(number);
+    if (numbered) invoiceSequence = Math.max(invoiceSequence, parseInt(numbered[1], 10));
+
+    const invoice: XeroRecord = {
+      Type: "ACCREC",
+      Status: "DRAFT",
+      LineAmountTypes: "Exclusive",
+      CurrencyCode: "GBP",
+      CurrencyRate: 1,
+      AmountPaid: 0,
+      AmountCredited: 0,
+      Payments: [],
+      CreditNotes: [],
+      HasAttachments: false,
+      ...existing,
+      ...input,
+      InvoiceID: existing?.InvoiceID ?? invoiceId ?? randomUUID(),
+      InvoiceNumber: number,
+      Contact: input.Contact ? contactRef(input.Contact) : existing?.Contact ?? contactRef(undefined),
+      Date: toXeroDate(dateMs),
+      DateString: toXeroDateString(dateMs),
+      DueDate: toXeroDate(dueMs),
+      DueDateString: toXeroDateString(dueMs),
+      UpdatedDateUTC: toXeroDate(now),
+    };
+    applyTotals(invoice);
+    settleInvoice(invoice);
+
+    invoices.set(invoice.InvoiceID, invoice);
+    queueWebhook("INVOICE", existing ? "UPDATE" : "CREATE", invoice.InvoiceID, "Invoices");
+    return invoice;
+  }
+
+  function touchInvoice(invoice: XeroRecord): void {
+    invoice.UpdatedDateUTC = toXeroDate(stamp());
+    settleInvoice(invoice);
+    queueWebhook("INVOICE", "UPDATE", invoice.InvoiceID, "Invoices");
+  }
+
+  // --------------------------------------------------------------------------
+  // Payments
+  // --------------------------------------------------------------------------
+
+  function savePayment(input: XeroRecord): XeroRecord {
+    const invoice = input.Invoice && (findInvoice(input.Invoice.InvoiceID ?? "") ?? findInvoice(input.Invoice.InvoiceNumber ?? ""));
+    if (!invoice) {
+      throw new FakeXeroValidationError("A validation exception occurred", ["Invoice could not be found"]);
+    }
+    if (invoice.Status !== "AUTHORISED") {
+      throw new FakeXeroValidationError("A validation exception occurred", [
+        "Payment cannot be applied: invoice is not AUTHORISED",
+      ]);
+    }
+    const amount = round2(Number(input.Amount));
+    if (!(amount > 0) || amount > invoice.AmountDue) {
+      throw new FakeXeroValidationError("A validation exception occurred", [
+        "Payment amount exceeds the amount outstanding on this document",
+      ]);
+    }
+
+    const now = stamp();
+    const dateMs = calendarDay(input.Date, now);
+    const payment: XeroRecord = {
+      PaymentID: randomUUID(),
+      Date: toXeroDate(dateMs),
+      Amount: amount,
+      CurrencyRate: input.CurrencyRate ?? invoice.CurrencyRate ?? 1,
+      PaymentType: invoice.Type === "ACCPAY" ? "ACCPAYPAYMENT" : "ACCRECPAYMENT",
+      Status: "AUTHORISED",
+      Reference: input.Reference ?? "",
+      Account: input.Account ?? { Code: "090" },
+      Invoice: {
+        InvoiceID: invoice.InvoiceID,
+        InvoiceNumber: invoice.InvoiceNumber,
+        Type: invoice.Type,
+        Contact: invoice.Contact,
+        CurrencyCode: invoice.CurrencyCode,
+      },
+      UpdatedDateUTC: toXeroDate(now),
+    };
+    payments.set(payment.PaymentID, payment);
+
+    invoice.AmountPaid = round2((invoice.AmountPaid ?? 0) + amount);
+    invoice.Payments = [
+      ...(invoice.Payments ?? []),
+      { PaymentID: payment.PaymentID, Date: payment.Date, Amount: amount, CurrencyRate: payment.CurrencyRate, Reference: payment.Reference },
+    ];
+    touchInvoice(invoice);
+    queueWebhook("PAYMENT", "CREATE", payment.PaymentID, "Payments");
+    return payment;
+  }
+
+  // --------------------------------------------------------------------------
+  // Credit notes
+  // --------------------------------------------------------------------------
+
+  function findCreditNote(idOrNumber: string): XeroRecord | undefined {
+    return [...creditNotes.values()].find(
+      (c) => sameId(c.CreditNoteID, idOrNumber) || c.CreditNoteNumber === idOrNumber
+    );
+  }
+
+  function allocateCreditNote(id: string, allocations: XeroRecord[]): XeroRecord[] {
+    const creditNote = findCreditNote(id);
+    if (!creditNote) throw new FakeXeroNotFoundError(`Credit note ${id} not found`);
+    if (creditNote.Status !== "AUTHORISED") {
+      throw new FakeXeroValidationError("A validation exception occurred", [
+        "Credit note must be AUTHORISED before it can be allocated",
+      ]);
+    }
+
+    return allocations.map((allocation) => {
+      const invoice = findInvoice(allocation.Invoice?.InvoiceID ?? allocation.Invoice?.InvoiceNumber ?? "");
+      if (!invoice) {
+        throw new FakeXeroValidationError("A validation exception occurred", ["Invoice could not be found"]);
+      }
+      const amount = round2(Number(allocation.Amount));
+      if (!(amount > 0) || amount > creditNote.RemainingCredit || amount > invoice.AmountDue) {
+        throw new FakeXeroValidationError("A validation exception occurred", [
+          "The amount allocated exceeds the remaining credit or the amount due",
+        ]);
+      }
+
+      const now = stamp();
+      const dateMs = calendarDay(allocation.Date, now);
+      const applied: XeroRecord = {
+        AllocationID: randomUUID(),
+        Amount: amount,
+        Date: toXeroDate(dateMs),
+        Invoice: { InvoiceID: invoice.InvoiceID, InvoiceNumber: invoice.InvoiceNumber },
+      };
+
+      creditNote.Allocations = [...(creditNote.Allocations ?? []), applied];
+      creditNote.RemainingCredit = round2(creditNote.RemainingCredit - amount);
+      if (creditNote.RemainingCredit <= 0) creditNote.Status = "PAID";
+      creditNote.UpdatedDateUTC = toXeroDate(now);
+      queueWebhook("CREDITNOTE", "UPDATE", creditNote.CreditNoteID, "CreditNotes");
+
+      invoice.AmountCredited = round2((invoice.AmountCredited ?? 0) + amount);
+      invoice.CreditNotes = [
+        ...(invoice.CreditNotes ?? []),
+        {
+          CreditNoteID: creditNote.CreditNoteID,
+          CreditNoteNumber: creditNote.CreditNoteNumber,
+          Total: creditNote.Total,
+          AppliedAmount: amount,
+          Date: applied.Date,
+        },
+      ];
+      touchInvoice(invoice);
+      return applied;
+    });
+  }
+
+  function saveCreditNote(input: XeroRecord, id?: string): XeroRecord {
+    const creditNoteId = id ?? input.CreditNoteID;
+    const existing = creditNoteId ? findCreditNote(creditNoteId) : undefined;
+    if (creditNoteId && !existing && !seeding) {
+      throw new FakeXeroNotFoundError(`Credit note ${creditNoteId} not found`);
+    }
+    if (!existing && !input.LineItems?.length) {
+      throw new FakeXeroValidationError("A validation exception occurred", ["At least one line item must be specified"]);
+    }
+
+    const { Allocations: allocations, ...fields } = input;
+    const now = stamp();
+    const dateMs = calendarDay(fields.Date ?? fields.DateString ?? existing?.DateString, now);
+    const creditNote: XeroRecord = {
+      Type: "ACCRECCREDIT",
+      Status: "DRAFT",
+      LineAmountTypes: "Exclusive",
+      CurrencyCode: "GBP",
+      CurrencyRate: 1,
+      Allocations: [],
+      ...existing,
+      ...fields,
+      CreditNoteID: existing?.CreditNoteID ?? creditNoteId ?? randomUUID(),
+      CreditNoteNumber:
+        existing?.CreditNoteNumber ?? fields.CreditNoteNumber ?? `CN-${String(++creditNoteSequence).padStart(4, "0")}`,
+      Contact: fields.Contact ? contactRef(fields.Contact) : existing?.Contact ?? contactRef(undefined),
+      Date: toXeroDate(dateMs),
+      DateString: toXeroDateString(dateMs),
+      UpdatedDateUTC: toXeroDate(now),
+    };
+    applyTotals(creditNote);
+    const allocated = (creditNote.Allocations as XeroRecord[]).reduce((sum, a) => sum + a.Amount, 0);
+    creditNote.RemainingCredit = round2(creditNote.Total - allocated);
+
+    creditNotes.set(creditNote.CreditNoteID, creditNote);
+    queueWebhook("CREDITNOTE", existing ? "UPDATE" : "CREATE", creditNote.CreditNoteID, "CreditNotes");
+
+    // Xero accepts allocations inline when the credit note is created AUTHORISED
+    if (Array.isArray(allocations) && allocations.length > 0) {
+      allocateCreditNote(creditNote.CreditNoteID, allocations);
+    }
+    return creditNote;
+  }
+
+  // --------------------------------------------------------------------------
+  // OAuth
+  // --------------------------------------------------------------------------
+
+  function issueTokens(): FakeXeroTokenSet {
+    const accessToken = `fake-access-${randomUUID()}`;
+    const refreshToken = `fake-refresh-${randomUUID()}`;
+    accessTokens.set(accessToken, clock() + ACCESS_TOKEN_TTL_SECONDS * 1000);
+    refreshTokens.add(refreshToken);
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      token_type: "Bearer",
+      scope: "openid profile email accounting.contacts accounting.transactions accounting.settings offline_access",
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Seed
+  // --------------------------------------------------------------------------
+
+  for (const theme of seed.brandingThemes ?? []) {
+    brandingThemes.push({ SortOrder: brandingThemes.length, CreatedDateUTC: toXeroDate(clock()), ...theme });
+  }
+  for (const contact of seed.contacts ?? []) saveContact(contact);
+  for (const invoice of seed.invoices ?? []) saveInvoice(invoice);
+  for (const creditNote of seed.creditNotes ?? []) saveCreditNote(creditNote);
+  for (const payment of seed.payments ?? []) savePayment(payment);
+  for (const token of seed.accessTokens ?? []) accessTokens.set(token, Number.MAX_SAFE_INTEGER);
+  webhookOutbox.length = 0; // seeding isn't something Xero would notify about
+  seeding = false;
+
+  return {
+    tenant,
+
+    // Clock
+    now: clock,
+    /** Move the fake clock (UpdatedDateUTC, token expiry). */
+    advanceClock(ms: number) {
+      clockOffset += ms;
+    },
+
+    // Contacts
+    listContacts: () => [...contacts.values()],
+    getContact: (id: string) => findContact({ ContactID: id }),
+    saveContact,
+    saveContacts: (body: unknown) => asArray(body, "Contacts").map((c) => saveContact(c)),
+
+    // Invoices
+    listInvoices: () => [...invoices.values()],
+    getInvoice: findInvoice,
+    saveInvoice,
+    saveInvoices: (body: unknown) => asArray(body, "Invoices").map((i) => saveInvoice(i)),
+
+    // Credit notes
+    listCreditNotes: () => [...creditNotes.values()],
+    getCreditNote: findCreditNote,
+    saveCreditNote,
+    saveCreditNotes: (body: unknown) => asArray(body, "CreditNotes").map((c) => saveCreditNote(c)),
+    allocateCreditNote: (id: string, body: unknown) => allocateCreditNote(id, asArray(body, "Allocations")),
+
+    // Payments
+    listPayments: () => [...payments.values()],
+    getPayment: (id: string) => [...payments.values()].find((p) => sameId(p.PaymentID, id)),
+    savePayments: (body: unknown) => asArray(body, "Payments").map((p) => savePayment(p)),
+
+    // Branding themes
+    listBrandingThemes: () => [...brandingThemes],
+
+    // Webhooks
+    /** Events queued by writes since the last drain (autoWebhooks only). */
+    drainWebhookOutbox(): FakeWebhookEvent[] {
+      return webhookOutbox.splice(0, webhookOutbox.length);
+    },
+
+    // OAuth
+    /** A one-time authorization code, as the consent page would hand back. */
+    issueAuthCode(): string {
+      const code = `fake-code-${randomUUID()}`;
+      authCodes.add(code);
+      return code;
+    },
+    exchangeAuthCode(code: string): FakeXeroTokenSet | null {
+      if (!authCodes.delete(code)) return null;
+      return issueTokens();
+    },
+    refresh(refreshToken: string): FakeXeroTokenSet | null {
+      // Xero refresh tokens are single use
+      if (!refreshTokens.delete(refreshToken)) return null;
+      return issueTokens();
+    },
+    isValidAccessToken(token: string): boolean {
+      const expiresAt = accessTokens.get(token);
+      return expiresAt !== undefined && expiresAt > clock();
+    },
+    /** Expire every access token, e.g. to exercise the 401 → refresh path. */
+    expireAccessTokens() {
+      for (const token of accessTokens.keys()) accessTokens.set(token, 0);
+    },
+
+    /** Everything, for the /__fake/state endpoint and assertions. */
+    snapshot() {
+      return {
+        tenant,
+        contacts: [...contacts.values()],
+        invoices: [...invoices.values()],
+        creditNotes: [...creditNotes.values()],
+        payments: [...payments.values()],
+        brandingThemes: [...brandingThemes],
+      };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Fake Xero - webhook deliveries
+ *
+ * Builds and signs deliveries exactly as Xero does — body
+ * `{ events, firstEventSequence, lastEventSequence, entropy }`, header
+ * `x-xero-signature` = base64 HMAC-SHA256 of the raw body with the webhook
+ * key — and POSTs them to the app's /api/xero/webhooks.
+ *
+ * An empty `events` array is Xero's "intent to receive" check; pass
+ * `signature: "invalid"` to exercise the 401 path.
+ */
+
+import crypto from "crypto";
+import type { FakeWebhookEvent } from "./store";
+
+export interface FakeWebhookDelivery {
+  body: string;
+  signature: string;
+}
+
+export interface FakeWebhookResult {
+  status: number;
+  body: string;
+  delivery: FakeWebhookDelivery;
+}
+
+let sequence = 0;
+
+/** base64 HMAC-SHA256, as in the x-xero-signature header. */
+export function signXeroWebhook(body: string, webhookKey: string): string {
+  return crypto.createHmac("sha256", webhookKey).update(body).digest("base64");
+}
+
+export function buildWebhookDelivery(
+  events: FakeWebhookEvent[],
+  webhookKey: string,
+  options: { signature?: "valid" | "invalid" } = {}
+): FakeWebhookDelivery {
+  const first = sequence + 1;
+  sequence += Math.max(events.length, 1);
+  const body = JSON.stringify({
+    events,
+    firstEventSequence: first,
+    lastEventSequence: sequence,
+    entropy: crypto.randomBytes(10).toString("hex").toUpperCase(),
+  });
+  const signature =
+    options.signature === "invalid"
+      ? signXeroWebhook(body, `${webhookKey}-wrong`)
+      : signXeroWebhook(body, webhookKey);
+  return { body, signature };
+}
+
+/**
+ * POST a delivery to the app.
+ * @param url - The app's webhook endpoint, e.g. http://localhost:3000/api/xero/webhooks
+ */
+export async function deliverWebhook(
+  url: string,
+  delivery: FakeWebhookDelivery,
+  transport: (url: string, init: RequestInit) => Promise<Response> = fetch
+): Promise<FakeWebhookResult> {
+  const response = await transport(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-xero-signature": delivery.signature,
+    },
+    body: delivery.body,
+  });
+  return { status: response.status, body: await response.text(), delivery };
+}
@@ -0,0 +1,145 @@
+/**
+ * Fake Xero - `where` filter
+ *
+ * Evaluates the subset of Xero's `where` query syntax the app sends:
+ *
+ *   Reference=="C19-0001"            Field==value / Field!=value
+ *   Type=="ACCREC" AND Status!="VOIDED"
+ *   Date>=DateTime(2026,1,15)        >, >=, <, <= against DateTime(y,m,d)
+ *   Contact.ContactID==Guid("…")     dotted paths, Guid("…")
+ *   Name.Contains("smith")           Contains / StartsWith / EndsWith
+ *                                    (case-insensitive, like Xero)
+ *
+ * Clauses join with AND / && or OR / ||; AND binds tighter. Anything else
+ * throws, so a query the fake doesn't understand fails loudly instead of
+ * silently matching everything.
+ */
+
+import { parseXeroDate } from "./dates";
+
+export class FakeXeroWhereError extends Error {}
+
+type Predicate = (record: Record<string, unknown>) => boolean;
+
+function readPath(record: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value && typeof value === "object") {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, record);
+}
+
+/** A literal on the right-hand side: string, Guid, DateTime, number, bool, null. */
+function parseLiteral(raw: string): unknown {
+  const text = raw.trim();
+  let match = text.match(/^"((?:[^"\\]|\\.)*)"$/);
+  if (match) return match[1].replace(/\\"/g, '"');
+  match = text.match(/^Guid\("([^"]*)"\)$/i);
+  if (match) return match[1].toLowerCase();
+  match = text.match(/^DateTime\((\d{4}),\s*(\d{1,2}),\s*(\d{1,2})(?:,\s*(\d{1,2}),\s*(\d{1,2}),\s*(\d{1,2}))?\)$/i);
+  if (match) {
+    const [, y, m, d, hh = "0", mm = "0", ss = "0"] = match;
+    return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === "true";
+  if (/^null$/i.test(text)) return null;
+  throw new FakeXeroWhereError(`Unsupported literal in where clause: ${text}`);
+}
+
+/** Normalise a record value so it compares with a parsed literal. */
+function comparable(value: unknown, literal: unknown): unknown {
+  if (literal instanceof Date) {
+    const date = typeof value === "string" ? parseXeroDate(value) : null;
+    return date ? date.getTime() : null;
+  }
+  if (typeof literal === "string" && typeof value === "string") {
+    return value.toLowerCase();
+  }
+  return value ?? null;
+}
+
+function parseClause(clause: string): Predicate {
+  const text = clause.trim().replace(/^\((.*)\)$/, "$1").trim();
+
+  const method = text.match(/^([\w.]+)\.(Contains|StartsWith|EndsWith)\((.+)\)$/i);
+  if (method) {
+    const [, path, op, arg] = method;
+    const needle = String(parseLiteral(arg)).toLowerCase();
+    return (record) => {
+      const value = readPath(record, path);
+      if (typeof value !== "string") return false;
+      const haystack = value.toLowerCase();
+      switch (op.toLowerCase()) {
+        case "contains":
+          return haystack.includes(needle);
+        case "startswith":
+          return haystack.startsWith(needle);
+        default:
+          return haystack.endsWith(needle);
+      }
+    };
+  }
+
+  const comparison = text.match(/^([\w.]+)\s*(==|!=|>=|<=|>|<)\s*(.+)$/);
+  if (comparison) {
+    const [, path, op, rawLiteral] = comparison;
+    const literal = parseLiteral(rawLiteral);
+    const expected = literal instanceof Date ? literal.getTime() : typeof literal === "string" ? literal.toLowerCase() : literal;
+    return (record) => {
+      const actual = comparable(readPath(record, path), literal);
+      switch (op) {
+        case "==":
+          return actual === expected;
+        case "!=":
+          return actual !== expected;
+        default: {
+          if (actual === null || expected === null) return false;
+          const a = actual as number | string;
+          const b = expected as number | string;
+          if (op === ">=") return a >= b;
+          if (op === "<=") return a <= b;
+          if (op === ">") return a > b;
+          return a < b;
+        }
+      }
+    };
+  }
+
+  throw new FakeXeroWhereError(`Unsupported where clause: ${text}`);
+}
+
+/** Split on a keyword/operator outside of quoted strings. */
+function splitOutsideQuotes(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' && text[i - 1] !== "\\") inQuotes = !inQuotes;
+    if (!inQuotes) {
+      const match = text.slice(i).match(separator);
+      if (match && match.index === 0) {
+        parts.push(current);
+        current = "";
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Compile a `where` expression into a record filter.
+ * @throws FakeXeroWhereError for syntax the fake doesn't support
+ */
+export function compileWhere(where: string): Predicate {
+  const alternatives = splitOutsideQuotes(where, /^(\s+OR\s+|\s*\|\|\s*)/i).map((alternative) =>
+    splitOutsideQuotes(alternative, /^(\s+AND\s+|\s*&&\s*)/i).map(parseClause)
+  );
+  return (record) => alternatives.some((clauses) => clauses.every((clause) => clause(record)));
+}
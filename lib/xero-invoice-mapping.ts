@@ -19,9 +19,16 @@
  *               = Total − AmountCredited
  *
  * See lib/economics.ts → effectiveInvoiceValue() for the read-side helper.
+ *
+ * MULTI-CURRENCY: every amount is persisted in GBP. For a non-GBP invoice
+ * the amounts are converted at the invoice's CurrencyRate (the sale-date
+ * rate), the invoiced total is kept in `invoiceAmountIncVat`, and once
+ * payments land the realised FX gain/loss is worked out from the rate Xero
+ * applied to each payment. See lib/calculations/fx.ts.
  */
 
 import { roundCurrency } from "@/lib/utils/currency";
+import { BASE_CURRENCY, calculateRealisedFx, toBaseCurrency } from "@/lib/calculations/fx";
 
 /** Raw status values Xero may return on an invoice. */
 export type XeroRawStatus =
@@ -47,10 +54,15 @@ export type AppInvoiceStatus =
 /** Subset of Xero's Invoice resource we need for the mapping. */
 export interface XeroInvoiceForMapping {
   Total?: number | null;
+  SubTotal?: number | null;
   AmountPaid?: number | null;
   AmountDue?: number | null;
   AmountCredited?: number | null;
   Status?: string | null;
+  CurrencyCode?: string | null;
+  /** Invoice-currency units per £1; absent or 1 for GBP invoices */
+  CurrencyRate?: number | null;
+  Payments?: { Amount?: number | null; CurrencyRate?: number | null }[] | null;
 }
 
 /**
@@ -65,10 +77,34 @@ export interface XeroInvoiceForMapping {
  */
 export interface MappedSaleFields {
   saleAmountIncVat: number;
+  /** SubTotal in GBP, or null when the payload doesn't carry it */
+  saleAmountExVat: number | null;
   xeroAmountPaid: string;
   xeroAmountDue: string;
   xeroAmountCredited: string;
   invoiceStatus: AppInvoiceStatus;
+  currency: string;
+  /** Null for GBP invoices */
+  fxRate: number | null;
+  /** Total as invoiced in `currency`; null for GBP invoices */
+  invoiceAmountIncVat: number | null;
+  /** Null until a foreign-currency payment with a rate has landed */
+  fxPaymentRate: number | null;
+  fxGainLoss: number | null;
+}
+
+/** GBP amounts from an invoice payload, converted at its CurrencyRate. */
+function baseAmounts(invoice: XeroInvoiceForMapping) {
+  const currency = invoice.CurrencyCode || BASE_CURRENCY;
+  const rate = currency === BASE_CURRENCY ? null : invoice.CurrencyRate ?? null;
+  return {
+    currency,
+    rate,
+    total: toBaseCurrency(invoice.Total ?? 0, rate),
+    paid: toBaseCurrency(invoice.AmountPaid ?? 0, rate),
+    due: toBaseCurrency(invoice.AmountDue ?? 0, rate),
+    credited: toBaseCurrency(invoice.AmountCredited ?? 0, rate),
+  };
 }
 
 /**
@@ -84,15 +120,13 @@ export interface MappedSaleFields {
  *   6. Anything else (SUBMITTED, unknown)
  *      → fall back to the raw Xero value (mostly AUTHORISED in practice)
  *
- * Values are rounded to pence so the columns store clean decimals.
+ * Values are converted to GBP and rounded to pence so the columns store
+ * clean decimals.
  */
 export function mapXeroInvoiceToSaleFields(
   invoice: XeroInvoiceForMapping
 ): MappedSaleFields {
-  const total = roundCurrency(invoice.Total ?? 0);
-  const paid = roundCurrency(invoice.AmountPaid ?? 0);
-  const due = roundCurrency(invoice.AmountDue ?? 0);
-  const credited = roundCurrency(invoice.AmountCredited ?? 0);
+  const { currency, rate, total, paid, due, credited } = baseAmounts(invoice);
   const rawStatus = (invoice.Status ?? "").toUpperCase() as XeroRawStatus;
 
   let invoiceStatus: AppInvoiceStatus;
@@ -113,12 +147,69 @@ export function mapXeroInvoiceToSaleFields(
     invoiceStatus = (rawStatus || "AUTHORISED") as AppInvoiceStatus;
   }
 
+  const realised = rate
+    ? calculateRealisedFx(
+        rate,
+        (invoice.Payments ?? []).map((p) => ({ amount: p.Amount ?? 0, rate: p.CurrencyRate }))
+      )
+    : null;
+
   return {
     saleAmountIncVat: total,
+    saleAmountExVat: invoice.SubTotal == null ? null : toBaseCurrency(invoice.SubTotal, rate),
     xeroAmountPaid: paid.toFixed(2),
     xeroAmountDue: due.toFixed(2),
     xeroAmountCredited: credited.toFixed(2),
     invoiceStatus,
+    currency,
+    fxRate: rate,
+    invoiceAmountIncVat: rate ? roundCurrency(invoice.Total ?? 0) : null,
+    fxPaymentRate: realised?.paymentRate ?? null,
+    fxGainLoss: realised?.gainLoss ?? null,
+  };
+}
+
+/**
+ * The FX columns to write on an existing sale from a mapped payload. The
+ * realised gain/loss is only included once it can be measured, so a list
+ * payload without Payments never wipes a figure an earlier sync recorded.
+ * `fx_rate_source` is left alone — it records how the sale was created.
+ */
+export function mappedFxColumns(mapped: MappedSaleFields): {
+  fxRate: number | null;
+  invoiceAmountIncVat: number | null;
+  fxPaymentRate?: number;
+  fxGainLoss?: number;
+} {
+  return {
+    fxRate: mapped.fxRate,
+    invoiceAmountIncVat: mapped.invoiceAmountIncVat,
+    ...(mapped.fxGainLoss !== null && {
+      fxPaymentRate: mapped.fxPaymentRate!,
+      fxGainLoss: mapped.fxGainLoss,
+    }),
+  };
+}
+
+/**
+ * The currency and FX columns for a sale being created from a Xero invoice.
+ * The rate is whatever Xero booked the invoice at.
+ */
+export function newSaleFxColumns(mapped: MappedSaleFields): {
+  currency: string;
+  fxRate: number | null;
+  fxRateSource: "xero" | null;
+  invoiceAmountIncVat: number | null;
+  fxPaymentRate: number | null;
+  fxGainLoss: number | null;
+} {
+  return {
+    currency: mapped.currency,
+    fxRate: mapped.fxRate,
+    fxRateSource: mapped.fxRate ? "xero" : null,
+    invoiceAmountIncVat: mapped.invoiceAmountIncVat,
+    fxPaymentRate: mapped.fxPaymentRate,
+    fxGainLoss: mapped.fxGainLoss,
   };
 }
 
@@ -133,7 +224,7 @@ export function mapXeroInvoiceToSaleFields(
  *
  * Drizzle returns NUMERIC as JS string, so existing.xero_amount_* may be
  * string|null; coerce with Number(). saleAmountIncVat is double precision
- * and returns number directly.
+ * and returns number directly. Both sides are compared in GBP.
  */
 export function xeroAmountsChanged(
   existing: {
@@ -144,10 +235,7 @@ export function xeroAmountsChanged(
   },
   invoice: XeroInvoiceForMapping
 ): boolean {
-  const total = roundCurrency(invoice.Total ?? 0);
-  const paid = roundCurrency(invoice.AmountPaid ?? 0);
-  const due = roundCurrency(invoice.AmountDue ?? 0);
-  const credited = roundCurrency(invoice.AmountCredited ?? 0);
+  const { total, paid, due, credited } = baseAmounts(invoice);
 
   if (roundCurrency(existing.saleAmountIncVat ?? 0) !== total) return true;
   // null on existing side counts as "different" so the first sync after this
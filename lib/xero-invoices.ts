@@ -0,0 +1,186 @@
+/**
+ * Club 19 Sales OS - Xero Invoice Creation
+ *
+ * Server-side: creates sales invoices through the Xero API client. Kept out
+ * of lib/xero.ts, which is also imported by client components.
+ */
+
+import "server-only";
+import * as logger from "./logger";
+import { roundCurrency } from "./utils/currency";
+import { createXeroClient } from "./xero-client";
+
+/**
+ * Xero Invoice from API Response
+ */
+interface XeroInvoice {
+  InvoiceID: string;
+  InvoiceNumber: string;
+  Type: string;
+  Contact: {
+    ContactID: string;
+    Name: string;
+  };
+  DateString?: string;
+  DueDateString?: string;
+  Status: string;
+  LineAmountTypes: string;
+  LineItems: Array<{
+    Description: string;
+    Quantity: number;
+    UnitAmount: number;
+    AccountCode: string;
+    TaxType: string;
+    TaxAmount: number;
+    LineAmount: number;
+  }>;
+  SubTotal: number;
+  TotalTax: number;
+  Total: number;
+  AmountDue: number;
+  CurrencyCode: string;
+  CurrencyRate?: number;
+  BrandingThemeID?: string;
+}
+
+interface XeroInvoiceResponse {
+  Invoices: XeroInvoice[];
+}
+
+/**
+ * Line item for multi-line invoices
+ */
+export interface InvoiceLineItem {
+  lineNumber: number;
+  brand: string;
+  category: string;
+  description: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  lineTotal: number;
+  lineMargin: number;
+  supplierName?: string;
+}
+
+/**
+ * Invoice creation payload
+ * Supports both single-line (legacy) and multi-line invoices
+ */
+interface CreateInvoicePayload {
+  buyerContactId: string;
+  // Single-line (legacy) fields
+  description?: string;
+  finalPrice?: number;
+  // Multi-line fields
+  lineItems?: InvoiceLineItem[];
+  // Common fields
+  accountCode: string;
+  taxType: string;
+  brandingThemeId?: string;
+  currency: string;
+  /** Invoice-currency units per £1; omit for GBP (Xero then uses its own day rate for foreign currencies) */
+  currencyRate?: number;
+  lineAmountType: string;
+}
+
+/**
+ * Create invoice directly in Xero using native API
+ *
+ * Features:
+ * - Auto-generated invoice numbers (Xero handles this)
+ * - Supports multi-line invoices (multiple items per invoice)
+ * - Falls back to single-line for legacy compatibility
+ * - Returns complete invoice object
+ *
+ * @param tenantId - Xero tenant/organization ID
+ * @param accessToken - Valid OAuth access token
+ * @param payload - Invoice creation payload
+ * @param idempotencyKey - Makes a retry return the first invoice instead of
+ *   creating another
+ * @returns Complete invoice object from Xero
+ * @throws XeroApiError (with `details`) if Xero rejects the invoice
+ */
+export async function createXeroInvoice(
+  tenantId: string,
+  accessToken: string,
+  payload: CreateInvoicePayload,
+  idempotencyKey?: string
+): Promise<XeroInvoice> {
+  // Determine if this is a multi-line or single-line invoice
+  const isMultiLine = payload.lineItems && payload.lineItems.length > 0;
+
+  logger.info('XERO', 'Creating invoice with payload', {
+    contactId: payload.buyerContactId,
+    isMultiLine,
+    lineItemCount: payload.lineItems?.length || 1,
+    currency: payload.currency,
+    currencyRate: payload.currencyRate,
+    accountCode: payload.accountCode,
+    taxType: payload.taxType,
+  });
+
+  // Build Xero line items array
+  let xeroLineItems;
+
+  if (isMultiLine && payload.lineItems) {
+    // Multi-line invoice: one line item per product
+    // CRITICAL: Round all currency values to prevent floating point errors (e.g., 24999.96 instead of 25000)
+    xeroLineItems = payload.lineItems.map(item => ({
+      Description: item.description,
+      Quantity: item.quantity,
+      UnitAmount: roundCurrency(item.sellPrice), // Unit price rounded to 2 decimal places
+      AccountCode: payload.accountCode,
+      TaxType: payload.taxType,
+    }));
+
+    logger.info('XERO', 'Multi-line invoice', {
+      lineCount: xeroLineItems.length,
+      totalAmount: roundCurrency(payload.lineItems.reduce((sum, item) => sum + roundCurrency(item.lineTotal), 0)),
+    });
+  } else {
+    // Single-line (legacy) invoice
+    // CRITICAL: Round all currency values to prevent floating point errors
+    xeroLineItems = [
+      {
+        Description: payload.description || '',
+        Quantity: 1,
+        UnitAmount: roundCurrency(payload.finalPrice || 0),
+        AccountCode: payload.accountCode,
+        TaxType: payload.taxType,
+      },
+    ];
+  }
+
+  // Build Xero invoice payload
+  // IMPORTANT: Do NOT include InvoiceNumber - Xero auto-generates it
+  const xeroPayload = {
+    Type: "ACCREC", // Accounts Receivable (sales invoice)
+    Contact: {
+      ContactID: payload.buyerContactId,
+    },
+    DueDate: new Date().toISOString().split("T")[0], // YYYY-MM-DD format (UTC today)
+    LineAmountTypes: payload.lineAmountType, // "Inclusive" | "Exclusive" | "NoTax"
+    LineItems: xeroLineItems,
+    CurrencyCode: payload.currency,
+    ...(payload.currencyRate && { CurrencyRate: payload.currencyRate }),
+    ...(payload.brandingThemeId && { BrandingThemeID: payload.brandingThemeId }),
+  };
+
+  logger.info('XERO', `Using due date: ${xeroPayload.DueDate}`);
+  logger.info('XERO', 'Payload sent to Xero', xeroPayload);
+
+  // Call Xero API
+  const client = createXeroClient({ tokens: { tenantId, accessToken } });
+  const data = await client.post<XeroInvoiceResponse>("Invoices", xeroPayload, { idempotencyKey });
+  logger.info('XERO', 'Response received', { invoice: data as any } as any);
+
+  if (!data.Invoices || data.Invoices.length === 0) {
+    throw new Error("No invoice returned from Xero API");
+  }
+
+  const invoice = data.Invoices[0];
+  logger.info('XERO', `Invoice created: ${invoice.InvoiceNumber} (ID: ${invoice.InvoiceID})`);
+
+  return invoice;
+}
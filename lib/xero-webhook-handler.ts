@@ -0,0 +1,394 @@
+/**
+ * Club 19 Sales OS - Xero Webhook Event Handler
+ *
+ * Applies one Xero webhook event to the database. Called by the webhook
+ * queue worker (lib/webhook-events.ts), never directly by the route, so
+ * every event is persisted before it is processed.
+ *
+ * For INVOICE events:
+ * 1. Fetch the full invoice from the Xero API
+ * 2. Find the matching Sale by xero_invoice_id (falling back to number)
+ * 3. Update status / amounts with the shared mapper, or
+ * 4. Create an unallocated xero_import sale for unknown ACCREC invoices
+ * 5. Record the invoice's credit notes (lib/credit-notes.ts), which may
+ *    propose a commission clawback, and its payments (lib/payments.ts),
+ *    which may settle payment-plan instalments
+ *
+ * Bills (ACCPAY) the OS raised are updated instead (lib/supplier-bills.ts).
+ *
+ * For CONTACT events the contact is fetched and mirrored into
+ * `xero_contacts` (lib/xero-contacts.ts).
+ *
+ * Resources are fetched from the organisation the event came from
+ * (`tenantId`), and sales it creates belong to that organisation's entity.
+ *
+ * Idempotent: the resource is always re-fetched, so processing an event twice
+ * (a retry, a replay, or Xero redelivering) leaves the sale or contact in
+ * the same state. Throws on failure so the queue records the error and retries.
+ */
+
+import "server-only";
+import { db } from "@/db";
+import { sales, buyers, lineItems } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { withXeroClient } from "@/lib/xero-client";
+import { ExternalServiceError, ValidationError } from "@/lib/errors";
+import * as logger from "@/lib/logger";
+import {
+  mapXeroInvoiceToSaleFields,
+  mappedFxColumns,
+  newSaleFxColumns,
+} from "@/lib/xero-invoice-mapping";
+import { toBaseCurrency } from "@/lib/calculations/fx";
+import { recordInvoiceCreditNotes } from "@/lib/credit-notes";
+import { recordInvoicePayments } from "@/lib/payments";
+import { syncXeroContact } from "@/lib/xero-contacts";
+import { recordSupplierBill } from "@/lib/supplier-bills";
+import { getDefaultEntity, getEntityByTenantId, saleBelongsTo, type EntityDetail } from "@/lib/entities";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One entry of a Xero webhook payload's `events` array. */
+export interface XeroWebhookEvent {
+  resourceUrl?: string;
+  resourceId?: string;
+  eventDateUtc?: string;
+  eventType?: string;
+  eventCategory?: string;
+  tenantId?: string;
+  tenantType?: string;
+}
+
+export type XeroWebhookOutcome =
+  | { status: "processed"; saleId: string; created: boolean }
+  | { status: "processed"; contactId: string }
+  | { status: "processed"; supplierBillId: string }
+  | { status: "skipped"; reason: string };
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+/**
+ * Process one Xero webhook event.
+ *
+ * @returns processed (with the sale or contact touched) or skipped (with why)
+ * @throws ExternalServiceError if Xero can't be reached or the invoice or
+ *         contact can't be fetched; ValidationError if the event is unusable
+ */
+export async function handleXeroWebhookEvent(event: XeroWebhookEvent): Promise<XeroWebhookOutcome> {
+  if (event.eventCategory === "CONTACT") {
+    return handleContactEvent(event);
+  }
+
+  // Otherwise only process invoice events
+  if (event.eventCategory !== "INVOICE") {
+    return { status: "skipped", reason: `Not an invoice event (${event.eventCategory ?? "none"})` };
+  }
+
+  const entity = await eventEntity(event);
+  if (!entity) {
+    return { status: "skipped", reason: `Organisation not connected (${event.tenantId ?? "none"})` };
+  }
+
+  const invoiceId = event.resourceId;
+  if (!invoiceId) {
+    throw new ValidationError("Event missing resourceId", { eventType: event.eventType });
+  }
+
+  logger.info("XERO_WEBHOOKS", "Processing invoice event", {
+    eventType: event.eventType,
+    resourceId: invoiceId,
+    eventDateUtc: event.eventDateUtc,
+  });
+
+  // Fetch full invoice details from Xero API
+  // Use integration user for webhook token access
+  const integrationUserId = process.env.XERO_INTEGRATION_CLERK_USER_ID;
+  if (!integrationUserId) {
+    throw new ExternalServiceError("Xero", "XERO_INTEGRATION_CLERK_USER_ID not configured");
+  }
+
+  const invoiceData = await withXeroClient(
+    integrationUserId,
+    (client) => client.get<{ Invoices?: any[] }>(`Invoices/${invoiceId}`),
+    { tenantId: entity.xeroTenantId }
+  );
+  const invoice = invoiceData.Invoices?.[0];
+
+  if (!invoice) {
+    throw new ExternalServiceError("Xero", "Invoice not found", { invoiceId });
+  }
+
+  logger.info("XERO_WEBHOOKS", "Invoice fetched", {
+    invoiceNumber: invoice.InvoiceNumber,
+    invoiceId: invoice.InvoiceID,
+    status: invoice.Status,
+    amountDue: invoice.AmountDue,
+  });
+
+  // Bills carry the supplier's invoice number, so never match them to a sale
+  if (invoice.Type === "ACCPAY") {
+    const bill = await recordSupplierBill(invoice);
+    if (!bill) {
+      return { status: "skipped", reason: "Bill not raised by the OS" };
+    }
+    logger.info("XERO_WEBHOOKS", "Supplier bill updated", {
+      supplierBillId: bill.id,
+      saleId: bill.saleId,
+      status: bill.status,
+    });
+    return { status: "processed", supplierBillId: bill.id };
+  }
+
+  // Find corresponding sale in database by xero_invoice_id (more reliable than invoice number)
+  const saleResults = await db
+    .select()
+    .from(sales)
+    .where(eq(sales.xeroInvoiceId, invoice.InvoiceID))
+    .limit(1);
+  let sale = saleResults[0] || null;
+
+  // Fallback: Try to find by invoice number if ID doesn't match. Numbers
+  // are only unique within an organisation.
+  if (!sale && invoice.InvoiceNumber) {
+    const fallbackResults = await db
+      .select()
+      .from(sales)
+      .where(
+        and(
+          eq(sales.xeroInvoiceNumber, invoice.InvoiceNumber),
+          saleBelongsTo({ entityId: entity.id, isDefault: entity.isDefault })
+        )
+      )
+      .limit(1);
+    sale = fallbackResults[0] || null;
+  }
+
+  if (!sale) {
+    // Only create for ACCREC (sales invoices), not ACCPAY (bills)
+    if (invoice.Type !== "ACCREC") {
+      return { status: "skipped", reason: `Not a sales invoice (${invoice.Type})` };
+    }
+    const newSaleId = await createSaleFromInvoice(invoice, entity.id);
+    return { status: "processed", saleId: newSaleId, created: true };
+  }
+
+  logger.info("XERO_WEBHOOKS", "Found matching sale", {
+    saleId: sale.id,
+    currentStatus: sale.invoiceStatus,
+    newStatus: invoice.Status,
+  });
+
+  // Update sale with latest invoice data — use the shared mapper so
+  // credit-note flips (PAID → CREDITED) and amount changes are handled
+  // consistently with the cron paths.
+  const mapped = mapXeroInvoiceToSaleFields(invoice);
+  const updateData: Partial<typeof sales.$inferInsert> = {
+    invoiceStatus: mapped.invoiceStatus,
+    xeroAmountPaid: mapped.xeroAmountPaid,
+    xeroAmountDue: mapped.xeroAmountDue,
+    xeroAmountCredited: mapped.xeroAmountCredited,
+    ...mappedFxColumns(mapped),
+  };
+
+  // If invoice is now paid, set the paid date
+  if (mapped.invoiceStatus === "PAID" && !sale.invoicePaidDate) {
+    updateData.invoicePaidDate = new Date();
+    logger.info("XERO_WEBHOOKS", "Marking invoice as paid", {
+      saleId: sale.id,
+      invoiceNumber: invoice.InvoiceNumber,
+    });
+  }
+
+  await db.update(sales).set(updateData).where(eq(sales.id, sale.id));
+  await recordInvoiceCreditNotes(
+    { id: sale.id, xeroInvoiceId: invoice.InvoiceID, fxRate: mapped.fxRate },
+    invoice
+  );
+  await recordInvoicePayments(
+    { id: sale.id, fxRate: mapped.fxRate, currency: mapped.currency },
+    invoice
+  );
+
+  logger.info("XERO_WEBHOOKS", "Sale updated successfully", {
+    saleId: sale.id,
+    invoiceNumber: invoice.InvoiceNumber,
+    oldStatus: sale.invoiceStatus,
+    newStatus: invoice.Status,
+  });
+
+  return { status: "processed", saleId: sale.id, created: false };
+}
+
+/**
+ * Mirror the contact a CONTACT event refers to.
+ */
+async function handleContactEvent(event: XeroWebhookEvent): Promise<XeroWebhookOutcome> {
+  const contactId = event.resourceId;
+  if (!contactId) {
+    throw new ValidationError("Event missing resourceId", { eventType: event.eventType });
+  }
+
+  const entity = await eventEntity(event);
+  if (!entity) {
+    return { status: "skipped", reason: `Organisation not connected (${event.tenantId ?? "none"})` };
+  }
+
+  const contact = await syncXeroContact(contactId, entity.xeroTenantId);
+  logger.info("XERO_WEBHOOKS", "Contact mirrored", {
+    eventType: event.eventType,
+    contactId,
+    status: contact.contactStatus,
+  });
+
+  return { status: "processed", contactId };
+}
+
+/**
+ * The entity for the organisation an event came from; the default entity if
+ * the event names none. Null for an organisation the OS isn't connected to.
+ */
+async function eventEntity(event: XeroWebhookEvent): Promise<EntityDetail | null> {
+  return event.tenantId ? getEntityByTenantId(event.tenantId) : getDefaultEntity();
+}
+
+/**
+ * Create an unallocated sale (plus buyer and line items) for a Xero
+ * invoice the OS hasn't seen. Returns the new sale's ID.
+ */
+async function createSaleFromInvoice(invoice: any, entityId: string): Promise<string> {
+  logger.info("XERO_WEBHOOKS", "Creating new unallocated sale from webhook", {
+    invoiceNumber: invoice.InvoiceNumber,
+    invoiceId: invoice.InvoiceID,
+    contactName: invoice.Contact?.Name,
+    total: invoice.Total,
+  });
+
+  // Find or create the buyer
+  let buyer = null;
+  if (invoice.Contact?.Name) {
+    const buyerResults = await db
+      .select()
+      .from(buyers)
+      .where(eq(buyers.name, invoice.Contact.Name))
+      .limit(1);
+    buyer = buyerResults[0] || null;
+
+    if (!buyer && invoice.Contact?.ContactID) {
+      // Check by Xero contact ID
+      const buyerByContactResults = await db
+        .select()
+        .from(buyers)
+        .where(eq(buyers.xeroContactId, invoice.Contact.ContactID))
+        .limit(1);
+      buyer = buyerByContactResults[0] || null;
+    }
+
+    if (!buyer) {
+      const [newBuyer] = await db
+        .insert(buyers)
+        .values({
+          name: invoice.Contact.Name,
+          xeroContactId: invoice.Contact?.ContactID || null,
+        })
+        .returning();
+      buyer = newBuyer;
+      logger.info("XERO_WEBHOOKS", "Created new buyer", {
+        buyerId: buyer.id,
+        buyerName: buyer.name,
+      });
+    }
+  }
+
+  // Parse invoice date safely
+  let saleDate: Date;
+  if (invoice.DateString) {
+    saleDate = new Date(invoice.DateString);
+  } else if (invoice.Date) {
+    // Handle Xero's /Date(timestamp)/ format
+    const match = invoice.Date.match(/\/Date\((\d+)\)\//);
+    saleDate = match ? new Date(parseInt(match[1])) : new Date();
+  } else {
+    saleDate = new Date();
+  }
+
+  // Get first line item description
+  const firstLineItem = invoice.LineItems?.[0];
+  const itemDescription = firstLineItem?.Description || "Imported from Xero";
+
+  const insertMapped = mapXeroInvoiceToSaleFields(invoice);
+  const xeroLineItems = invoice.LineItems || [];
+
+  // Sale and line items together: a retry finds the sale and skips it, so a
+  // sale saved without its lines would never get them
+  const newSale = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(sales)
+      .values({
+        xeroInvoiceId: invoice.InvoiceID,
+        xeroInvoiceNumber: invoice.InvoiceNumber,
+        xeroInvoiceUrl: `https://go.xero.com/AccountsReceivable/View.aspx?InvoiceID=${invoice.InvoiceID}`,
+        source: "xero_import",
+        needsAllocation: true,
+        entityId,
+        saleDate: saleDate,
+        buyerId: buyer?.id || null,
+        saleAmountIncVat: insertMapped.saleAmountIncVat,
+        saleAmountExVat: insertMapped.saleAmountExVat || (insertMapped.saleAmountIncVat / 1.2),
+        xeroAmountPaid: insertMapped.xeroAmountPaid,
+        xeroAmountDue: insertMapped.xeroAmountDue,
+        xeroAmountCredited: insertMapped.xeroAmountCredited,
+        ...newSaleFxColumns(insertMapped),
+        brand: "Unknown",
+        category: "Unknown",
+        itemTitle: itemDescription,
+        quantity: firstLineItem?.Quantity || 1,
+        buyPrice: 0,
+        grossMargin: 0,
+        invoiceStatus: insertMapped.invoiceStatus,
+        invoicePaidDate: insertMapped.invoiceStatus === "PAID" ? new Date() : null,
+        internalNotes: `Auto-imported via Xero webhook on ${new Date().toISOString()}. Client: ${invoice.Contact?.Name || "Unknown"}. Needs shopper allocation and cost details.`,
+      })
+      .returning();
+
+    for (let i = 0; i < xeroLineItems.length; i++) {
+      const li = xeroLineItems[i];
+      await tx.insert(lineItems).values({
+        saleId: created.id,
+        lineNumber: i + 1,
+        description: li.Description || "Imported from Xero",
+        quantity: li.Quantity || 1,
+        sellPrice: toBaseCurrency(li.UnitAmount || 0, insertMapped.fxRate),
+        lineTotal: toBaseCurrency(li.LineAmount || 0, insertMapped.fxRate),
+        brand: "Unknown",
+        category: "Unknown",
+        buyPrice: 0,
+        lineMargin: 0,
+        source: "xero_import",
+      });
+    }
+    return created;
+  });
+
+  await recordInvoiceCreditNotes(
+    { id: newSale.id, xeroInvoiceId: invoice.InvoiceID, fxRate: insertMapped.fxRate },
+    invoice
+  );
+  await recordInvoicePayments(
+    { id: newSale.id, fxRate: insertMapped.fxRate, currency: insertMapped.currency },
+    invoice
+  );
+
+  logger.info("XERO_WEBHOOKS", "Created unallocated sale from webhook", {
+    saleId: newSale.id,
+    invoiceNumber: invoice.InvoiceNumber,
+    buyerName: invoice.Contact?.Name,
+    total: invoice.Total,
+    lineItemCount: xeroLineItems.length,
+  });
+
+  return newSale.id;
+}
@@ -1,7 +1,6 @@
 import * as logger from './logger';
 import { WEBHOOKS } from "./constants";
 import { InvoiceScenario } from "./constants";
-import { roundCurrency } from "./utils/currency";
 
 /**
  * Xero contact result from search
@@ -27,11 +26,16 @@ export type NormalizedContact = {
 /**
  * Fetch Xero BUYER contacts (customers only)
  * @param query Search term (minimum 2 characters)
+ * @param entityId Entity whose Xero organisation to search (default when omitted)
  * @returns List of customer contacts
  */
-export async function fetchXeroBuyers(query: string): Promise<NormalizedContact[]> {
+export async function fetchXeroBuyers(
+  query: string,
+  entityId?: string | null
+): Promise<NormalizedContact[]> {
   try {
-    const response = await fetch(`/api/xero/contacts/buyers?query=${encodeURIComponent(query)}`, {
+    const entityParam = entityId ? `&entityId=${encodeURIComponent(entityId)}` : "";
+    const response = await fetch(`/api/xero/contacts/buyers?query=${encodeURIComponent(query)}${entityParam}`, {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
@@ -61,11 +65,16 @@ export async function fetchXeroBuyers(query: string): Promise<NormalizedContact[
 /**
  * Fetch Xero SUPPLIER contacts (suppliers only)
  * @param query Search term (minimum 2 characters)
+ * @param entityId Entity whose Xero organisation to search (default when omitted)
  * @returns List of supplier contacts
  */
-export async function fetchXeroSuppliers(query: string): Promise<NormalizedContact[]> {
+export async function fetchXeroSuppliers(
+  query: string,
+  entityId?: string | null
+): Promise<NormalizedContact[]> {
   try {
-    const response = await fetch(`/api/xero/contacts/suppliers?query=${encodeURIComponent(query)}`, {
+    const entityParam = entityId ? `&entityId=${encodeURIComponent(entityId)}` : "";
+    const response = await fetch(`/api/xero/contacts/suppliers?query=${encodeURIComponent(query)}${entityParam}`, {
       method: "GET",
       headers: {
         "Content-Type": "application/json",
@@ -151,199 +160,6 @@ const LINE_AMOUNT_TYPE_MAP: Record<string, string> = {
   None: "NoTax",
 };
 
-/**
- * Xero Invoice from API Response
- */
-interface XeroInvoice {
-  InvoiceID: string;
-  InvoiceNumber: string;
-  Type: string;
-  Contact: {
-    ContactID: string;
-    Name: string;
-  };
-  DateString?: string;
-  DueDateString?: string;
-  Status: string;
-  LineAmountTypes: string;
-  LineItems: Array<{
-    Description: string;
-    Quantity: number;
-    UnitAmount: number;
-    AccountCode: string;
-    TaxType: string;
-    TaxAmount: number;
-    LineAmount: number;
-  }>;
-  SubTotal: number;
-  TotalTax: number;
-  Total: number;
-  AmountDue: number;
-  CurrencyCode: string;
-  BrandingThemeID?: string;
-}
-
-interface XeroInvoiceResponse {
-  Invoices: XeroInvoice[];
-}
-
-/**
- * Line item for multi-line invoices
- */
-export interface InvoiceLineItem {
-  lineNumber: number;
-  brand: string;
-  category: string;
-  description: string;
-  quantity: number;
-  buyPrice: number;
-  sellPrice: number;
-  lineTotal: number;
-  lineMargin: number;
-  supplierName?: string;
-}
-
-/**
- * Invoice creation payload
- * Supports both single-line (legacy) and multi-line invoices
- */
-interface CreateInvoicePayload {
-  buyerContactId: string;
-  // Single-line (legacy) fields
-  description?: string;
-  finalPrice?: number;
-  // Multi-line fields
-  lineItems?: InvoiceLineItem[];
-  // Common fields
-  accountCode: string;
-  taxType: string;
-  brandingThemeId?: string;
-  currency: string;
-  lineAmountType: string;
-}
-
-/**
- * Create invoice directly in Xero using native API
- *
- * Features:
- * - Auto-generated invoice numbers (Xero handles this)
- * - Supports multi-line invoices (multiple items per invoice)
- * - Falls back to single-line for legacy compatibility
- * - Returns complete invoice object
- *
- * @param tenantId - Xero tenant/organization ID
- * @param accessToken - Valid OAuth access token
- * @param payload - Invoice creation payload
- * @returns Complete invoice object from Xero
- * @throws Error with structured message on failure
- */
-export async function createXeroInvoice(
-  tenantId: string,
-  accessToken: string,
-  payload: CreateInvoicePayload
-): Promise<XeroInvoice> {
-  // Determine if this is a multi-line or single-line invoice
-  const isMultiLine = payload.lineItems && payload.lineItems.length > 0;
-
-  logger.info('XERO', 'Creating invoice with payload', {
-    contactId: payload.buyerContactId,
-    isMultiLine,
-    lineItemCount: payload.lineItems?.length || 1,
-    currency: payload.currency,
-    accountCode: payload.accountCode,
-    taxType: payload.taxType,
-  });
-
-  // Build Xero line items array
-  let xeroLineItems;
-
-  if (isMultiLine && payload.lineItems) {
-    // Multi-line invoice: one line item per product
-    // CRITICAL: Round all currency values to prevent floating point errors (e.g., 24999.96 instead of 25000)
-    xeroLineItems = payload.lineItems.map(item => ({
-      Description: item.description,
-      Quantity: item.quantity,
-      UnitAmount: roundCurrency(item.sellPrice), // Unit price rounded to 2 decimal places
-      AccountCode: payload.accountCode,
-      TaxType: payload.taxType,
-    }));
-
-    logger.info('XERO', 'Multi-line invoice', {
-      lineCount: xeroLineItems.length,
-      totalAmount: roundCurrency(payload.lineItems.reduce((sum, item) => sum + roundCurrency(item.lineTotal), 0)),
-    });
-  } else {
-    // Single-line (legacy) invoice
-    // CRITICAL: Round all currency values to prevent floating point errors
-    xeroLineItems = [
-      {
-        Description: payload.description || '',
-        Quantity: 1,
-        UnitAmount: roundCurrency(payload.finalPrice || 0),
-        AccountCode: payload.accountCode,
-        TaxType: payload.taxType,
-      },
-    ];
-  }
-
-  // Build Xero invoice payload
-  // IMPORTANT: Do NOT include InvoiceNumber - Xero auto-generates it
-  const xeroPayload = {
-    Type: "ACCREC", // Accounts Receivable (sales invoice)
-    Contact: {
-      ContactID: payload.buyerContactId,
-    },
-    DueDate: new Date().toISOString().split("T")[0], // YYYY-MM-DD format (UTC today)
-    LineAmountTypes: payload.lineAmountType, // "Inclusive" | "Exclusive" | "NoTax"
-    LineItems: xeroLineItems,
-    CurrencyCode: payload.currency,
-    ...(payload.brandingThemeId && { BrandingThemeID: payload.brandingThemeId }),
-  };
-
-  logger.info('XERO', `Using due date: ${xeroPayload.DueDate}`);
-  logger.info('XERO', 'Payload sent to Xero', xeroPayload);
-
-  // Call Xero API
-  const xeroUrl = "https://api.xero.com/api.xro/2.0/Invoices";
-  const response = await fetch(xeroUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Xero-tenant-id": tenantId,
-      Accept: "application/json",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(xeroPayload),
-  });
-
-  logger.info('XERO', `Response status: ${response.status}`);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('XERO', 'Xero API error', {
-      status: response.status,
-      statusText: response.statusText,
-      error: errorText,
-    });
-
-    const error = new Error(`Xero API error: ${response.status} - ${response.statusText}`) as Error & { details?: string };
-    error.details = errorText;
-    throw error;
-  }
-
-  const data: XeroInvoiceResponse = await response.json();
-  logger.info('XERO', 'Response received', { invoice: data as any } as any);
-
-  if (!data.Invoices || data.Invoices.length === 0) {
-    throw new Error("No invoice returned from Xero API");
-  }
-
-  const invoice = data.Invoices[0];
-  logger.info('XERO', `Invoice created: ${invoice.InvoiceNumber} (ID: ${invoice.InvoiceID})`);
-
-  return invoice;
-}
-
 /**
  * Send invoice to Xero via Make webhook (LEGACY)
  * @deprecated Use createXeroInvoice() for direct API integration
@@ -0,0 +1,78 @@
+/**
+ * Create the `branding_themes` table — the Xero branding theme registry that
+ * replaces the hard-coded GUID map — and seed it with the themes currently in
+ * lib/branding-theme-mappings.ts. Afterwards, new themes arrive via
+ * Admin → Branding Themes → Sync from Xero.
+ *
+ * Idempotent: existing rows are never overwritten.
+ * Usage: npx tsx scripts/add-branding-themes.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+  const { XERO_BRANDING_THEMES } = await import("@/lib/branding-theme-mappings");
+
+  console.log("[branding-themes] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS branding_themes (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        xero_branding_theme_id text NOT NULL,
+        name text NOT NULL,
+        sort_order integer,
+        account_code text,
+        treatment text,
+        explanation text,
+        expected_vat double precision,
+        no_link_variant_id text,
+        in_xero boolean NOT NULL DEFAULT true,
+        last_synced_at timestamptz,
+        updated_by text,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS branding_themes_xero_id_idx
+      ON branding_themes(xero_branding_theme_id)
+    `);
+
+    for (const theme of Object.values(XERO_BRANDING_THEMES)) {
+      await tx.execute(sql`
+        INSERT INTO branding_themes
+          (xero_branding_theme_id, name, account_code, treatment, explanation,
+           expected_vat, no_link_variant_id, updated_by)
+        SELECT ${theme.id}, ${theme.name}, ${theme.accountCode}, ${theme.treatment},
+               ${theme.explanation}, ${theme.expectedVAT}, ${theme.noLinkVariantId}, 'migration'
+        WHERE NOT EXISTS (
+          SELECT 1 FROM branding_themes WHERE xero_branding_theme_id = ${theme.id}
+        )
+      `);
+    }
+  });
+  console.log("[branding-themes] table + index ensured, built-in themes seeded");
+
+  const result = await db.execute(sql`
+    SELECT name, treatment, account_code, expected_vat, no_link_variant_id IS NOT NULL AS has_no_link
+    FROM branding_themes
+    ORDER BY name
+  `);
+  console.table(result);
+
+  if ((result as unknown as unknown[]).length === 0) {
+    console.error("[branding-themes] FAIL — no themes found after migration");
+    process.exit(1);
+  }
+
+  console.log("[branding-themes] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[branding-themes] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+/**
+ * Add `band_mode` to `commission_schemes`.
+ *
+ * "flat" (default) keeps every existing scheme calculating exactly as before:
+ * the band the monthly total falls into applies to the whole total.
+ * "marginal" pays each slice of the total at its own band's rate.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-commission-band-mode.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[commission-band-mode] Running migration...");
+
+  await db.execute(sql`
+    ALTER TABLE commission_schemes
+    ADD COLUMN IF NOT EXISTS band_mode text NOT NULL DEFAULT 'flat'
+  `);
+
+  const result = await db.execute(sql`
+    SELECT scheme_key, band_mode, effective_from, effective_to
+    FROM commission_schemes
+    ORDER BY scheme_key, effective_from
+  `);
+  console.table(result);
+
+  console.log("[commission-band-mode] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[commission-band-mode] Error:", e.message);
+  process.exit(1);
+});
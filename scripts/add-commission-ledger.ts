@@ -0,0 +1,75 @@
+/**
+ * Create the `commission_ledger` table — per-shopper signed entries
+ * (statement credits, payments, clawbacks, adjustments) whose running sum is
+ * the commission balance carried between months.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-commission-ledger.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[commission-ledger] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS commission_ledger (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        shopper_id text NOT NULL,
+        month text NOT NULL,
+        entry_type text NOT NULL,
+        amount double precision NOT NULL,
+        sale_id text,
+        statement_id text,
+        description text,
+        created_by text NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_ledger_shopper_id_idx
+      ON commission_ledger(shopper_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_ledger_month_idx
+      ON commission_ledger(month)
+    `);
+    // A month can be settled again for sales locked since, so it may have
+    // several statement entries
+    await tx.execute(sql`
+      DROP INDEX IF EXISTS commission_ledger_statement_month_idx
+    `);
+    // A sale is clawed back once
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS commission_ledger_clawback_sale_idx
+      ON commission_ledger(sale_id)
+      WHERE entry_type = 'clawback'
+    `);
+  });
+  console.log("[commission-ledger] table + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT column_name, data_type, is_nullable
+    FROM information_schema.columns
+    WHERE table_name = 'commission_ledger'
+    ORDER BY ordinal_position
+  `);
+  console.table(result);
+
+  if ((result as unknown as unknown[]).length === 0) {
+    console.error("[commission-ledger] FAIL — table not found after migration");
+    process.exit(1);
+  }
+
+  console.log("[commission-ledger] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[commission-ledger] Error:", e.message);
+  process.exit(1);
+});
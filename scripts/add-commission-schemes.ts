@@ -0,0 +1,144 @@
+/**
+ * Create the `commission_schemes` table and seed it with the schemes that
+ * were previously hard-coded as MC_CONFIG / HOPE_CONFIG in
+ * lib/calculations/commission.ts.
+ *
+ * Atomic migration:
+ *   1. Create `commission_schemes` (one row per dated scheme version).
+ *   2. Seed the "mc" and "hope" schemes, effective from 2020-01 so every
+ *      historical month recalculates exactly as it did before.
+ *   3. Point MC's and Hope's `shoppers.commission_scheme` at those keys.
+ *
+ * Band `max: null` = no upper limit (the old `Infinity`).
+ *
+ * Idempotent — seeds are skipped when the key already has a version.
+ * Usage: npx tsx scripts/add-commission-schemes.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+const SEED_EFFECTIVE_FROM = "2020-01-01T00:00:00Z";
+
+const SEEDS = [
+  {
+    shopperId: "rec_d5dt9i185bnc3iimglfg",
+    schemeKey: "mc",
+    name: "MC",
+    bands: [
+      { min: 0, max: 999.99, rate: 0 },
+      { min: 1000, max: 19999.99, rate: 0.1 },
+      { min: 20000, max: 29999.99, rate: 0.15 },
+      { min: 30000, max: 55000, rate: 0.2 },
+      { min: 55000.01, max: null, rate: 0.25 },
+    ],
+    deductVatFromProfit: true,
+    newClientBonusRate: 0.1,
+    notes: "Commission on net profit (gross profit minus VAT due).",
+  },
+  {
+    shopperId: "rec_d4u06nkgmio87vvfila0",
+    schemeKey: "hope",
+    name: "Hope",
+    bands: [
+      { min: 0, max: 999.99, rate: 0 },
+      { min: 1000, max: 9999.99, rate: 0.1 },
+      { min: 10000, max: 19999.99, rate: 0.12 },
+      { min: 20000, max: 29999.99, rate: 0.18 },
+      { min: 30000, max: 55000, rate: 0.2 },
+      { min: 55000.01, max: null, rate: 0.25 },
+    ],
+    deductVatFromProfit: false,
+    newClientBonusRate: 0.1,
+    notes: "Commission on gross profit (VAT is irrelevant).",
+  },
+];
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[commission-schemes] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    // 1. Table. `id` is text with the Xata xid default to match
+    // introducer_commission_edits and the rest of the schema.
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS commission_schemes (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        scheme_key text NOT NULL,
+        name text NOT NULL,
+        bands jsonb NOT NULL,
+        deduct_vat_from_profit boolean NOT NULL DEFAULT false,
+        new_client_bonus_rate double precision NOT NULL DEFAULT 0,
+        effective_from timestamptz NOT NULL,
+        effective_to timestamptz,
+        notes text,
+        created_by text,
+        updated_by text,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_schemes_scheme_key_idx
+      ON commission_schemes(scheme_key)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_schemes_effective_from_idx
+      ON commission_schemes(effective_from)
+    `);
+    console.log("[commission-schemes] (1/3) table + indexes ensured");
+
+    // 2. Seeds
+    for (const seed of SEEDS) {
+      const inserted = await tx.execute(sql`
+        INSERT INTO commission_schemes
+          (scheme_key, name, bands, deduct_vat_from_profit, new_client_bonus_rate,
+           effective_from, notes, created_by, updated_by)
+        SELECT ${seed.schemeKey}, ${seed.name}, ${JSON.stringify(seed.bands)}::jsonb,
+               ${seed.deductVatFromProfit}, ${seed.newClientBonusRate},
+               ${SEED_EFFECTIVE_FROM}::timestamptz, ${seed.notes},
+               'migration', 'migration'
+        WHERE NOT EXISTS (
+          SELECT 1 FROM commission_schemes WHERE scheme_key = ${seed.schemeKey}
+        )
+        RETURNING id
+      `);
+      console.log(
+        `[commission-schemes] (2/3) ${seed.schemeKey}:`,
+        (inserted as unknown as unknown[]).length ? "seeded" : "already present"
+      );
+    }
+
+    // 3. Link shoppers
+    for (const seed of SEEDS) {
+      await tx.execute(sql`
+        UPDATE shoppers
+        SET commission_scheme = ${seed.schemeKey}
+        WHERE id = ${seed.shopperId}
+      `);
+    }
+    console.log("[commission-schemes] (3/3) shoppers linked");
+  });
+
+  const result = await db.execute(sql`
+    SELECT s.name AS shopper, cs.scheme_key, cs.effective_from, cs.effective_to
+    FROM shoppers s
+    JOIN commission_schemes cs ON cs.scheme_key = s.commission_scheme
+    ORDER BY s.name, cs.effective_from
+  `);
+  console.table(result);
+
+  if ((result as unknown as unknown[]).length < SEEDS.length) {
+    console.error("[commission-schemes] FAIL — expected every seeded shopper to be linked");
+    process.exit(1);
+  }
+
+  console.log("[commission-schemes] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[commission-schemes] Error:", e.message);
+  process.exit(1);
+});
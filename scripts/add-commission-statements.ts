@@ -0,0 +1,70 @@
+/**
+ * Create the `commission_statements` table.
+ *
+ * One insert-only row per approval of a shopper's monthly commission
+ * (see lib/commission-statements.ts). `snapshot` holds the full
+ * CommissionResult at approval; re-approving a month inserts the next
+ * `version` rather than updating the old row.
+ *
+ * Idempotent. Usage: npx tsx scripts/add-commission-statements.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[commission-statements] Creating table...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS commission_statements (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        shopper_id text NOT NULL,
+        month text NOT NULL,
+        version integer NOT NULL,
+        scheme_id text,
+        cumulative_profit double precision NOT NULL,
+        commission_rate double precision NOT NULL,
+        commission_amount double precision NOT NULL,
+        new_client_bonus_amount double precision NOT NULL,
+        total_payable double precision NOT NULL,
+        snapshot jsonb NOT NULL,
+        notes text,
+        approved_by text NOT NULL,
+        approved_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS commission_statements_shopper_month_version_idx
+      ON commission_statements(shopper_id, month, version)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_statements_month_idx
+      ON commission_statements(month)
+    `);
+  });
+
+  const result = await db.execute(sql`
+    SELECT column_name, data_type, is_nullable
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'commission_statements'
+    ORDER BY ordinal_position
+  `);
+  console.table(result);
+
+  if ((result as unknown as unknown[]).length === 0) {
+    console.error("[commission-statements] FAIL — table not found");
+    process.exit(1);
+  }
+
+  console.log("[commission-statements] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[commission-statements] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Credit notes as records: create `credit_notes` (one row per Xero credit
+ * note per sale it is allocated to) and `commission_clawback_proposals`
+ * (raised when a credit note lands on a sale whose commission is locked or
+ * paid). See lib/credit-notes.ts and lib/commission-ledger.ts.
+ *
+ * Existing credit notes are backfilled by running the credit-notes cron once
+ * with ?full=true. Backfilled credits on sales that were locked or paid long
+ * ago will raise proposals — reject any that were already settled by hand.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-credit-notes.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[credit-notes] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS credit_notes (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        xero_credit_note_id text NOT NULL,
+        credit_note_number text,
+        sale_id uuid NOT NULL REFERENCES sales(id),
+        xero_invoice_id text,
+        status text,
+        currency text,
+        total double precision,
+        applied_amount double precision NOT NULL,
+        credit_note_date timestamptz,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS credit_notes_credit_note_sale_idx
+      ON credit_notes(xero_credit_note_id, sale_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS credit_notes_sale_id_idx
+      ON credit_notes(sale_id)
+    `);
+
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS commission_clawback_proposals (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        sale_id uuid NOT NULL REFERENCES sales(id),
+        credit_note_id text NOT NULL,
+        shopper_id text NOT NULL,
+        applied_amount double precision NOT NULL,
+        credited_amount double precision NOT NULL,
+        sale_total double precision NOT NULL,
+        commission_base double precision NOT NULL,
+        proposed_amount double precision NOT NULL,
+        status text NOT NULL DEFAULT 'pending',
+        reviewed_by text,
+        reviewed_at timestamptz,
+        review_notes text,
+        ledger_entry_id text,
+        created_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS commission_clawback_proposals_credit_applied_idx
+      ON commission_clawback_proposals(credit_note_id, applied_amount)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_clawback_proposals_sale_id_idx
+      ON commission_clawback_proposals(sale_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS commission_clawback_proposals_status_idx
+      ON commission_clawback_proposals(status)
+    `);
+  });
+  console.log("[credit-notes] tables + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT 'credit_notes' AS table_name, COUNT(*) AS rows FROM credit_notes
+    UNION ALL
+    SELECT 'commission_clawback_proposals', COUNT(*) FROM commission_clawback_proposals
+  `);
+  console.table(result);
+
+  console.log("[credit-notes] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[credit-notes] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+/**
+ * Server-side deal drafts: create `deal_drafts`, which replaces the New Sale
+ * wizard's localStorage draft. See lib/deal-drafts.ts.
+ *
+ * Drafts left in browsers under the old `club19_trade_draft` key aren't
+ * migrated; they simply stop being offered.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-deal-drafts.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[deal-drafts] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS deal_drafts (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        owner_user_id text NOT NULL,
+        owner_name text,
+        title text NOT NULL,
+        item_count integer NOT NULL DEFAULT 0,
+        state jsonb NOT NULL,
+        handed_over_by text,
+        handed_over_at timestamptz,
+        created_by text NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS deal_drafts_owner_user_id_idx
+      ON deal_drafts(owner_user_id)
+    `);
+  });
+  console.log("[deal-drafts] table + index ensured");
+
+  const result = await db.execute(sql`
+    SELECT owner_name, COUNT(*) AS drafts
+    FROM deal_drafts GROUP BY owner_name ORDER BY drafts DESC
+  `);
+  console.table(result);
+
+  console.log("[deal-drafts] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[deal-drafts] Error:", e.message);
+  process.exit(1);
+});
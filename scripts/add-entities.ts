@@ -0,0 +1,84 @@
+/**
+ * Multiple legal entities: create `entities` (one row per connected Xero
+ * organisation, with its account code and branding theme mappings) and tag
+ * sales, branding themes and mirrored contacts with the entity/organisation
+ * they belong to. See lib/entities.ts.
+ *
+ * Entities are created from the stored Xero connections the first time
+ * they're listed (or on the next OAuth callback); the first becomes the
+ * default and existing sales are assigned to it. If a default already
+ * exists, this backfills any sales still without an entity.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-entities.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[entities] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS entities (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        name text NOT NULL,
+        xero_tenant_id text NOT NULL,
+        xero_tenant_name text,
+        is_default boolean NOT NULL DEFAULT false,
+        account_mappings jsonb NOT NULL DEFAULT '{}'::jsonb,
+        branding_theme_mappings jsonb NOT NULL DEFAULT '{}'::jsonb,
+        purchase_account_code text,
+        updated_by text,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS entities_xero_tenant_id_idx
+      ON entities(xero_tenant_id)
+    `);
+
+    await tx.execute(sql`
+      ALTER TABLE sales ADD COLUMN IF NOT EXISTS entity_id text REFERENCES entities(id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS sales_entity_id_idx ON sales(entity_id)
+    `);
+    await tx.execute(sql`
+      ALTER TABLE branding_themes ADD COLUMN IF NOT EXISTS xero_tenant_id text
+    `);
+    await tx.execute(sql`
+      ALTER TABLE xero_contacts ADD COLUMN IF NOT EXISTS xero_tenant_id text
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS xero_contacts_xero_tenant_id_idx
+      ON xero_contacts(xero_tenant_id)
+    `);
+
+    await tx.execute(sql`
+      UPDATE sales SET entity_id = e.id
+      FROM entities e
+      WHERE e.is_default AND sales.entity_id IS NULL
+    `);
+  });
+  console.log("[entities] table, columns + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT e.name, e.xero_tenant_id, e.is_default, COUNT(s.id) AS sales
+    FROM entities e LEFT JOIN sales s ON s.entity_id = e.id
+    GROUP BY e.id ORDER BY e.created_at
+  `);
+  console.table(result);
+
+  console.log("[entities] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[entities] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+/**
+ * Multi-currency sales: create the `fx_rates` table (the local rate table
+ * finance maintains on /staff/finance/fx-rates) and add the FX columns to
+ * `sales`:
+ *   fx_rate, fx_rate_source, invoice_amount_inc_vat, fx_payment_rate,
+ *   fx_gain_loss
+ *
+ * Existing rows get nulls. Non-GBP invoices synced before this change hold
+ * invoice-currency amounts; the next Xero sync converts them to GBP at the
+ * invoice's CurrencyRate and fills the new columns.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-fx-rates.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[fx-rates] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS fx_rates (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        currency text NOT NULL,
+        rate_date timestamptz NOT NULL,
+        rate double precision NOT NULL,
+        source text,
+        created_by text,
+        created_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS fx_rates_currency_date_idx
+      ON fx_rates(currency, rate_date)
+    `);
+
+    await tx.execute(sql`ALTER TABLE sales ADD COLUMN IF NOT EXISTS fx_rate double precision`);
+    await tx.execute(sql`ALTER TABLE sales ADD COLUMN IF NOT EXISTS fx_rate_source text`);
+    await tx.execute(sql`ALTER TABLE sales ADD COLUMN IF NOT EXISTS invoice_amount_inc_vat double precision`);
+    await tx.execute(sql`ALTER TABLE sales ADD COLUMN IF NOT EXISTS fx_payment_rate double precision`);
+    await tx.execute(sql`ALTER TABLE sales ADD COLUMN IF NOT EXISTS fx_gain_loss double precision`);
+  });
+  console.log("[fx-rates] table + index + sales columns ensured");
+
+  const result = await db.execute(sql`
+    SELECT COALESCE(currency, 'GBP') AS currency, COUNT(*) AS sales
+    FROM sales
+    WHERE deleted_at IS NULL
+    GROUP BY 1
+    ORDER BY 2 DESC
+  `);
+  console.table(result);
+
+  console.log("[fx-rates] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[fx-rates] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/**
+ * Implied cost rules: create `implied_cost_rules`, seed it with the built-in
+ * defaults from lib/implied-costs.ts (regions, routes, card fee rates,
+ * Entrupy fee), and add `sales.implied_shipping_route`.
+ *
+ * Seeding never overwrites a rule finance has already edited. Existing sales
+ * keep a null route and stay out of the calibration report.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-implied-cost-rules.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+  const { DEFAULT_IMPLIED_COST_RULES: defaults } = await import("@/lib/implied-costs");
+
+  const seed: { ruleType: string; key: string; region: string | null; amount: number | null }[] = [
+    ...Object.entries(defaults.regions).map(([key, region]) => ({ ruleType: "region", key, region, amount: null })),
+    ...Object.entries(defaults.routes).map(([key, amount]) => ({ ruleType: "route", key, region: null, amount })),
+    { ruleType: "route", key: "DEFAULT", region: null, amount: defaults.defaultShipping },
+    ...Object.entries(defaults.cardFeePercent).map(([key, amount]) => ({
+      ruleType: "card_fee",
+      key,
+      region: null,
+      amount: amount ?? 0,
+    })),
+    { ruleType: "entrupy", key: "default", region: null, amount: defaults.defaultEntrupyFee },
+  ];
+
+  console.log("[implied-costs] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS implied_cost_rules (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        rule_type text NOT NULL,
+        key text NOT NULL,
+        region text,
+        amount double precision,
+        updated_by text,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS implied_cost_rules_type_key_idx
+      ON implied_cost_rules(rule_type, key)
+    `);
+    for (const rule of seed) {
+      await tx.execute(sql`
+        INSERT INTO implied_cost_rules (rule_type, key, region, amount, updated_by)
+        VALUES (${rule.ruleType}, ${rule.key}, ${rule.region}, ${rule.amount}, 'migration')
+        ON CONFLICT (rule_type, key) DO NOTHING
+      `);
+    }
+    await tx.execute(sql`ALTER TABLE sales ADD COLUMN IF NOT EXISTS implied_shipping_route text`);
+  });
+  console.log("[implied-costs] implied_cost_rules ensured and seeded, sales column ensured");
+
+  const result = await db.execute(sql`
+    SELECT rule_type, COUNT(*) AS rules
+    FROM implied_cost_rules
+    GROUP BY rule_type
+    ORDER BY rule_type
+  `);
+  console.table(result);
+
+  console.log("[implied-costs] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[implied-costs] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+/**
+ * Buy-side FX: add the original purchase currency columns to `line_items`:
+ *   buy_currency, buy_price_original, buy_fx_rate, buy_fx_rate_source
+ *
+ * `buy_price` stays the GBP figure margins are worked out on. Existing rows
+ * were all bought in GBP and keep nulls.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-line-item-buy-currency.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[buy-currency] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`ALTER TABLE line_items ADD COLUMN IF NOT EXISTS buy_currency text`);
+    await tx.execute(sql`ALTER TABLE line_items ADD COLUMN IF NOT EXISTS buy_price_original double precision`);
+    await tx.execute(sql`ALTER TABLE line_items ADD COLUMN IF NOT EXISTS buy_fx_rate double precision`);
+    await tx.execute(sql`ALTER TABLE line_items ADD COLUMN IF NOT EXISTS buy_fx_rate_source text`);
+  });
+  console.log("[buy-currency] line_items columns ensured");
+
+  const result = await db.execute(sql`
+    SELECT COALESCE(buy_currency, 'GBP') AS buy_currency, COUNT(*) AS line_items
+    FROM line_items
+    GROUP BY 1
+    ORDER BY 2 DESC
+  `);
+  console.table(result);
+
+  console.log("[buy-currency] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[buy-currency] Error:", e.message);
+  process.exit(1);
+});
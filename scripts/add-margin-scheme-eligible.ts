@@ -0,0 +1,39 @@
+/**
+ * Add `margin_scheme_eligible` to `sales`.
+ *
+ * Null (every existing row) means "not assessed" and is treated as eligible,
+ * so margin scheme VAT stays at 1/6 of the margin. Set it false for stock
+ * bought with VAT — that stock owes standard-rate VAT on the full price.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-margin-scheme-eligible.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[margin-scheme-eligible] Running migration...");
+
+  await db.execute(sql`
+    ALTER TABLE sales
+    ADD COLUMN IF NOT EXISTS margin_scheme_eligible boolean
+  `);
+
+  const result = await db.execute(sql`
+    SELECT column_name, data_type, is_nullable
+    FROM information_schema.columns
+    WHERE table_name = 'sales' AND column_name = 'margin_scheme_eligible'
+  `);
+  console.table(result);
+
+  console.log("[margin-scheme-eligible] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[margin-scheme-eligible] Error:", e.message);
+  process.exit(1);
+});
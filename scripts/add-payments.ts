@@ -0,0 +1,73 @@
+/**
+ * Individual Xero payments: create `payments` (one row per Xero payment,
+ * linked to its sale and the payment-plan instalment it settles). See
+ * lib/payments.ts.
+ *
+ * Existing payments are backfilled by running the sync-payments cron once
+ * with ?full=true. That also marks any instalments they settle as paid.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-payments.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[payments] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS payments (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        xero_payment_id text NOT NULL,
+        sale_id uuid NOT NULL REFERENCES sales(id),
+        payment_schedule_id uuid REFERENCES payment_schedule(id),
+        xero_invoice_id text,
+        payment_date timestamptz,
+        amount double precision NOT NULL,
+        currency text,
+        currency_rate double precision,
+        amount_gbp double precision NOT NULL,
+        status text NOT NULL DEFAULT 'AUTHORISED',
+        payment_type text,
+        reference text,
+        bank_account_id text,
+        bank_account_code text,
+        bank_account_name text,
+        is_reconciled boolean,
+        xero_updated_at timestamptz,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS payments_xero_payment_id_idx
+      ON payments(xero_payment_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS payments_sale_id_idx
+      ON payments(sale_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS payments_payment_date_idx
+      ON payments(payment_date)
+    `);
+  });
+  console.log("[payments] table + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT COUNT(*) AS rows FROM payments
+  `);
+  console.table(result);
+
+  console.log("[payments] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[payments] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * Quotes: create `quotes`, the proforma stage before invoicing. Each row is
+ * a Xero quote raised from the New Sale wizard plus the invoice payload it
+ * turns into when accepted. See lib/quotes.ts.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-quotes.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[quotes] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS quotes (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        xero_quote_id text NOT NULL,
+        xero_quote_number text,
+        entity_id text REFERENCES entities(id),
+        shopper_id uuid REFERENCES shoppers(id),
+        xero_contact_id text NOT NULL,
+        buyer_name text,
+        currency text NOT NULL DEFAULT 'GBP',
+        total double precision NOT NULL,
+        sale_amount_gbp double precision,
+        gross_margin_gbp double precision,
+        commissionable_margin_gbp double precision,
+        expiry_date timestamptz NOT NULL,
+        status text NOT NULL DEFAULT 'open',
+        payload jsonb NOT NULL,
+        xero_invoice_id text,
+        accepted_by text,
+        accepted_at timestamptz,
+        declined_by text,
+        declined_at timestamptz,
+        created_by text NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS quotes_xero_quote_id_idx
+      ON quotes(xero_quote_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS quotes_shopper_id_idx
+      ON quotes(shopper_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS quotes_status_idx
+      ON quotes(status)
+    `);
+  });
+  console.log("[quotes] table + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT status, COUNT(*) AS quotes
+    FROM quotes GROUP BY status ORDER BY quotes DESC
+  `);
+  console.table(result);
+
+  console.log("[quotes] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[quotes] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+/**
+ * Supplier bills in the buy currency: key `supplier_bills` by sale, supplier
+ * and currency instead of sale and supplier, so a supplier paid in two
+ * currencies on one sale gets a bill for each.
+ *
+ * Existing rows are all GBP bills and keep their currency.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-supplier-bill-currency.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[supplier-bill-currency] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS supplier_bills_sale_supplier_currency_idx
+      ON supplier_bills(sale_id, supplier_id, currency)
+    `);
+    await tx.execute(sql`DROP INDEX IF EXISTS supplier_bills_sale_supplier_idx`);
+  });
+  console.log("[supplier-bill-currency] supplier_bills unique index replaced");
+
+  const result = await db.execute(sql`
+    SELECT currency, status, COUNT(*) AS bills
+    FROM supplier_bills
+    GROUP BY currency, status
+    ORDER BY currency, status
+  `);
+  console.table(result);
+
+  console.log("[supplier-bill-currency] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[supplier-bill-currency] Error:", e.message);
+  process.exit(1);
+});
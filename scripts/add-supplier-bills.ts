@@ -0,0 +1,68 @@
+/**
+ * Supplier bills: create `supplier_bills` (one row per supplier per sale,
+ * linking the draft ACCPAY bill raised in Xero). See lib/supplier-bills.ts.
+ *
+ * Nothing to backfill — bills are only tracked once the OS raises them.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-supplier-bills.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[supplier-bills] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS supplier_bills (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        sale_id uuid NOT NULL REFERENCES sales(id),
+        supplier_id uuid NOT NULL REFERENCES suppliers(id),
+        xero_bill_id text NOT NULL,
+        bill_number text,
+        reference text,
+        status text NOT NULL,
+        currency text NOT NULL DEFAULT 'GBP',
+        expected_total double precision NOT NULL,
+        total double precision,
+        amount_paid double precision NOT NULL DEFAULT 0,
+        amount_due double precision,
+        paid_date timestamptz,
+        line_item_ids jsonb NOT NULL,
+        created_by text,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS supplier_bills_sale_supplier_idx
+      ON supplier_bills(sale_id, supplier_id)
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS supplier_bills_xero_bill_id_idx
+      ON supplier_bills(xero_bill_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS supplier_bills_status_idx
+      ON supplier_bills(status)
+    `);
+  });
+  console.log("[supplier-bills] table + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT COUNT(*) AS rows FROM supplier_bills
+  `);
+  console.table(result);
+
+  console.log("[supplier-bills] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[supplier-bills] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+/**
+ * Incremental Xero sync: create the `sync_state` table holding one
+ * watermark per resource (see lib/sync-state.ts). Until a row exists the
+ * sync paths fall back to their fixed date window.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-sync-state.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[sync-state] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        resource text NOT NULL,
+        watermark timestamptz,
+        last_run_at timestamptz,
+        last_success_at timestamptz,
+        last_full_sync_at timestamptz,
+        last_status text,
+        last_error text,
+        last_item_count integer,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS sync_state_resource_idx
+      ON sync_state(resource)
+    `);
+  });
+  console.log("[sync-state] table + index ensured");
+
+  const result = await db.execute(sql`
+    SELECT resource, watermark, last_run_at, last_status
+    FROM sync_state
+    ORDER BY resource
+  `);
+  console.table(result);
+
+  console.log("[sync-state] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[sync-state] Error:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+/**
+ * Durable webhook queue: create the `webhook_events` table that
+ * app/api/xero/webhooks persists every Xero event to before processing it
+ * (see lib/webhook-events.ts).
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-webhook-events.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[webhook-events] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        source text NOT NULL DEFAULT 'xero',
+        dedupe_key text,
+        event_category text,
+        event_type text,
+        resource_id text,
+        tenant_id text,
+        event_date timestamptz,
+        payload jsonb NOT NULL,
+        signature_valid boolean NOT NULL,
+        status text NOT NULL DEFAULT 'pending',
+        attempts integer NOT NULL DEFAULT 0,
+        last_error text,
+        received_at timestamptz NOT NULL DEFAULT now(),
+        processed_at timestamptz,
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_dedupe_key_idx
+      ON webhook_events(dedupe_key)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS webhook_events_status_idx
+      ON webhook_events(status)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS webhook_events_received_at_idx
+      ON webhook_events(received_at)
+    `);
+  });
+  console.log("[webhook-events] table + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT status, COUNT(*) AS events
+    FROM webhook_events
+    GROUP BY status
+    ORDER BY status
+  `);
+  console.table(result);
+
+  console.log("[webhook-events] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[webhook-events] Error:", e.message);
+  process.exit(1);
+});
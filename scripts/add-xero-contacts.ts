@@ -0,0 +1,78 @@
+/**
+ * Xero contacts mirror: create `xero_contacts` (one row per Xero contact,
+ * with email, phone, addresses, tax number, archived status and any edits
+ * made in the OS still waiting to reach Xero). See lib/xero-contacts.ts.
+ *
+ * The mirror is populated by running the sync-contacts cron once with
+ * ?full=true. Until then buyer/supplier search falls back to fetching
+ * contacts from Xero.
+ *
+ * Idempotent.
+ * Usage: npx tsx scripts/add-xero-contacts.ts
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { db } = await import("@/db");
+  const { sql } = await import("drizzle-orm");
+
+  console.log("[xero-contacts] Running atomic migration...");
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS xero_contacts (
+        id text PRIMARY KEY DEFAULT ('rec_'::text || (xata_private.xid())::text),
+        xero_contact_id text NOT NULL,
+        name text NOT NULL,
+        first_name text,
+        last_name text,
+        email text,
+        phone text,
+        account_number text,
+        contact_number text,
+        tax_number text,
+        addresses jsonb,
+        contact_persons jsonb,
+        is_customer boolean NOT NULL DEFAULT false,
+        is_supplier boolean NOT NULL DEFAULT false,
+        default_sales_code text,
+        default_purchase_code text,
+        default_currency text,
+        contact_status text NOT NULL DEFAULT 'ACTIVE',
+        pending_changes jsonb,
+        push_error text,
+        pushed_at timestamptz,
+        xero_updated_at timestamptz,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS xero_contacts_xero_contact_id_idx
+      ON xero_contacts(xero_contact_id)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS xero_contacts_name_idx
+      ON xero_contacts(name)
+    `);
+    await tx.execute(sql`
+      CREATE INDEX IF NOT EXISTS xero_contacts_contact_status_idx
+      ON xero_contacts(contact_status)
+    `);
+  });
+  console.log("[xero-contacts] table + indexes ensured");
+
+  const result = await db.execute(sql`
+    SELECT contact_status, COUNT(*) AS rows FROM xero_contacts GROUP BY contact_status
+  `);
+  console.table(result);
+
+  console.log("[xero-contacts] Done.");
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error("[xero-contacts] Error:", e.message);
+  process.exit(1);
+});
@@ -17,6 +17,10 @@
  *   - stdout summary
  *   - /tmp/credit-note-backfill-report.txt — per-month delta table for Alys
  *
+ * This only fills the totals on `sales`. The per-credit-note records in
+ * `credit_notes` are backfilled by the credit-notes cron with ?full=true
+ * (see scripts/add-credit-notes.ts).
+ *
  * Usage:
  *   npx tsx scripts/backfill-xero-credit-notes.ts
  *
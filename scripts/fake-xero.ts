@@ -0,0 +1,56 @@
+/**
+ * Run the fake Xero server (lib/xero-fake) for local development.
+ *
+ * Point the app at it with:
+ *   XERO_API_BASE_URL=http://localhost:4010/api.xro/2.0
+ *   XERO_IDENTITY_URL=http://localhost:4010
+ *   XERO_LOGIN_URL=http://localhost:4010
+ *
+ * Webhooks are signed with XERO_WEBHOOK_SECRET and sent to
+ * FAKE_XERO_WEBHOOK_URL (default http://localhost:3000/api/xero/webhooks);
+ * fire them with POST /__fake/webhooks. Writes queue their events
+ * automatically — POST /__fake/webhooks {"queued":true} sends them.
+ *
+ * Usage: npx tsx scripts/fake-xero.ts [seed.json]
+ *   PORT=4010 by default. The seed file is a FakeXeroSeed; omit it for the
+ *   built-in fixtures (access token "fake-xero-access-token").
+ */
+import dotenv from "dotenv";
+import fs from "fs";
+dotenv.config({ path: ".env.local" });
+
+async function main() {
+  const { createFakeXero, DEFAULT_FAKE_XERO_SEED, FAKE_XERO_ACCESS_TOKEN } = await import("@/lib/xero-fake");
+
+  const port = parseInt(process.env.PORT || "4010", 10);
+  const seedPath = process.argv[2];
+  const seed = seedPath ? JSON.parse(fs.readFileSync(seedPath, "utf8")) : DEFAULT_FAKE_XERO_SEED;
+
+  const fake = createFakeXero({
+    seed,
+    autoWebhooks: true,
+    webhookKey: process.env.XERO_WEBHOOK_SECRET || "fake-xero-webhook-key",
+    webhookUrl: process.env.FAKE_XERO_WEBHOOK_URL || "http://localhost:3000/api/xero/webhooks",
+  });
+  const { url, close } = await fake.listen(port);
+
+  console.log(`[fake-xero] Listening on ${url}`);
+  console.log(`[fake-xero] Tenant ${fake.store.tenant.tenantName} (${fake.store.tenant.tenantId})`);
+  if (!seedPath) console.log(`[fake-xero] Access token: ${FAKE_XERO_ACCESS_TOKEN}`);
+  console.log("[fake-xero] Set in .env.local:");
+  console.log(`  XERO_API_BASE_URL=${url}/api.xro/2.0`);
+  console.log(`  XERO_IDENTITY_URL=${url}`);
+  console.log(`  XERO_LOGIN_URL=${url}`);
+
+  const shutdown = () => {
+    console.log("[fake-xero] Shutting down");
+    close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  console.error("[fake-xero] Failed:", err);
+  process.exit(1);
+});
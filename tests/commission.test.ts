@@ -0,0 +1,126 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateShopperCommission,
+  findSchemeForMonth,
+  forecastCommission,
+  resolveShopperConfig,
+  type CommissionScheme,
+  type ShopperCommissionProfile,
+} from "@/lib/calculations/commission";
+import { expectGolden } from "./helpers/golden";
+import { HOPE_SCHEME, JANUARY_SALES, MC_SCHEME, THEMES } from "./fixtures/scenarios";
+
+const MONTH = "2026-01";
+
+function profile(shopperId: string, name: string, schemes: CommissionScheme[]): ShopperCommissionProfile {
+  return { shopperId, name, schemes };
+}
+
+const mc = profile("shopper_mc", "MC", [MC_SCHEME]);
+const hope = profile("shopper_hope", "Hope", [HOPE_SCHEME]);
+
+describe("calculateShopperCommission", () => {
+  test("MC, January — VAT due on margin scheme sales reduces profit", () => {
+    const result = calculateShopperCommission(JANUARY_SALES, mc, MONTH);
+    expectGolden("commission/mc-january", result);
+
+    assert.equal(result.totalSales, 7);
+    assert.equal(result.deliveredSaleCount, 6);
+    assert.ok(result.sales.some((s) => s.vatDue > 0));
+  });
+
+  test("Hope, same sales — VAT is irrelevant", () => {
+    const result = calculateShopperCommission(JANUARY_SALES, hope, MONTH);
+    expectGolden("commission/hope-january", result);
+    assert.ok(result.sales.every((s) => s.vatDue === 0));
+  });
+
+  test("marginal bands on the same month", () => {
+    const marginal = profile("shopper_mc", "MC", [{ ...MC_SCHEME, bandMode: "marginal" }]);
+    const result = calculateShopperCommission(JANUARY_SALES, marginal, MONTH);
+    expectGolden("commission/mc-january-marginal", result);
+
+    const flat = calculateShopperCommission(JANUARY_SALES, mc, MONTH);
+    assert.equal(result.cumulativeProfit, flat.cumulativeProfit);
+    assert.ok(result.commissionAmount < flat.commissionAmount);
+  });
+
+  test("each band crossing changes the flat rate on the whole total", () => {
+    const crossings = [999.99, 1000, 19999.99, 20000, 29999.99, 30000, 55000, 55000.01].map((profit) => {
+      const result = calculateShopperCommission(
+        [{ ...JANUARY_SALES[0], saleAmountExVat: profit, buyPrice: 0, cardFees: 0, entrupyFee: 0, shippingCost: 0 }],
+        mc,
+        MONTH
+      );
+      return { profit, rate: result.commissionRate, commission: result.commissionAmount };
+    });
+    expectGolden("commission/band-crossings", crossings);
+  });
+
+  test("new client bonus only on profitable new-client sales", () => {
+    const result = calculateShopperCommission(JANUARY_SALES, mc, MONTH);
+    const expected = result.sales
+      .filter((s) => s.isNewClient && s.commissionableProfit > 0)
+      .reduce((sum, s) => sum + s.commissionableProfit * MC_SCHEME.newClientBonusRate, 0);
+    assert.equal(result.newClientBonusAmount, Math.round(expected * 100) / 100);
+  });
+
+  test("credit notes reduce commissionable profit by the share credited", () => {
+    const credited = JANUARY_SALES.map((sale, i) =>
+      i === 0 ? { ...sale, creditRatio: 0.25 } : i === 1 ? { ...sale, creditRatio: 1 } : sale
+    );
+    const result = calculateShopperCommission(credited, mc, MONTH);
+    expectGolden("commission/mc-january-credited", result);
+
+    const full = calculateShopperCommission(JANUARY_SALES, mc, MONTH);
+    assert.equal(result.sales[1].commissionableProfit, 0);
+    assert.equal(result.sales[0].creditRatio, 0.25);
+    assert.equal(full.sales[0].creditRatio, undefined);
+    assert.ok(result.cumulativeProfit < full.cumulativeProfit);
+  });
+
+  test("no scheme in force pays nothing", () => {
+    const later = profile("shopper_mc", "MC", [{ ...MC_SCHEME, effectiveFrom: "2026-02-01T00:00:00.000Z" }]);
+    const result = calculateShopperCommission(JANUARY_SALES, later, MONTH);
+    assert.equal(result.schemeId, null);
+    assert.equal(result.totalPayable, 0);
+  });
+});
+
+describe("scheme versions", () => {
+  const v1: CommissionScheme = { ...MC_SCHEME, id: "v1", effectiveTo: "2026-01-01T00:00:00.000Z" };
+  const v2: CommissionScheme = {
+    ...MC_SCHEME,
+    id: "v2",
+    effectiveFrom: "2026-01-01T00:00:00.000Z",
+    bands: MC_SCHEME.bands.map((b) => ({ ...b, rate: b.rate + 0.01 })),
+  };
+
+  test("picks the version in force for the month", () => {
+    assert.equal(findSchemeForMonth([v1, v2], "2025-12")?.id, "v1");
+    assert.equal(findSchemeForMonth([v1, v2], "2026-01")?.id, "v2");
+    assert.equal(findSchemeForMonth([v1, v2], "2019-12"), null);
+  });
+
+  test("recalculating a past month uses that month's bands", () => {
+    const shopper = profile("shopper_mc", "MC", [v1, v2]);
+    assert.equal(resolveShopperConfig(shopper, "2025-12")?.schemeId, "v1");
+    const december = calculateShopperCommission(JANUARY_SALES, shopper, "2025-12");
+    const january = calculateShopperCommission(JANUARY_SALES, shopper, MONTH);
+    assert.ok(january.commissionRate > december.commissionRate);
+  });
+});
+
+describe("forecastCommission", () => {
+  test("a hypothetical deal that crosses a band", () => {
+    const forecast = forecastCommission(JANUARY_SALES, mc, MONTH, {
+      sellPrice: 12000,
+      buyPrice: 8000,
+      costs: 150,
+      brandingTheme: THEMES.marginScheme,
+      isNewClient: false,
+    });
+    expectGolden("commission/forecast-band-crossing", forecast);
+  });
+});
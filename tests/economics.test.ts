@@ -0,0 +1,154 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateIntroducerFee,
+  calculateMargins,
+  calculateSaleEconomics,
+  creditRatio,
+  effectiveInvoiceValue,
+  getVATRateForBrandingTheme,
+} from "@/lib/economics";
+import { expectGolden } from "./helpers/golden";
+import { CREDIT_NOTE_SCENARIOS, ECONOMICS_SCENARIOS, THEMES, type EconomicsScenario } from "./fixtures/scenarios";
+
+/**
+ * Economics as app/api/sales/[id]/complete works it out: a percent
+ * introducer fee is taken from the commissionable margin of a first pass
+ * without it, then economics run again with the fee deducted.
+ */
+function saleEconomics(scenario: EconomicsScenario) {
+  const base = {
+    sale_amount_inc_vat: scenario.saleAmountIncVat,
+    buy_price: scenario.buyPrice,
+    branding_theme: scenario.brandingTheme,
+    shipping_cost: scenario.shippingCost,
+    card_fees: scenario.cardFees,
+    direct_costs: scenario.directCosts,
+    entrupy_fee: scenario.entrupyFee,
+  };
+  const beforeIntroducer = calculateSaleEconomics({ ...base, introducer_commission: 0 });
+  if (!scenario.introducer) return beforeIntroducer;
+
+  const introducerFee = calculateIntroducerFee({
+    ...scenario.introducer,
+    netBeforeIntroducer: beforeIntroducer.commissionable_margin,
+  });
+  return calculateSaleEconomics({ ...base, introducer_commission: introducerFee });
+}
+
+describe("calculateSaleEconomics", () => {
+  for (const scenario of ECONOMICS_SCENARIOS) {
+    test(scenario.name, () => {
+      const economics = saleEconomics(scenario);
+      expectGolden(`economics/${slug(scenario.name)}`, economics);
+
+      // Invariants that must hold whatever the figures
+      assert.equal(
+        Math.round((economics.sale_amount_ex_vat + economics.vat_amount) * 100),
+        Math.round(economics.sale_amount_inc_vat * 100)
+      );
+      assert.equal(
+        Math.round(economics.gross_margin * 100),
+        Math.round((economics.sale_amount_ex_vat - economics.buy_price) * 100)
+      );
+    });
+  }
+
+  test("export and margin scheme sales carry no VAT", () => {
+    for (const theme of [THEMES.export, THEMES.exportNoLink, THEMES.legacyExport, THEMES.marginScheme]) {
+      const economics = calculateSaleEconomics({ sale_amount_inc_vat: 10000, buy_price: 6000, branding_theme: theme });
+      assert.equal(economics.vat_amount, 0, theme);
+      assert.equal(economics.sale_amount_ex_vat, 10000, theme);
+    }
+  });
+
+  test("unknown branding theme falls back to 20% VAT", () => {
+    assert.equal(getVATRateForBrandingTheme("CN 5% VAT"), 0.2);
+  });
+});
+
+describe("calculateMargins", () => {
+  test("margin scheme VAT is reported but not deducted", () => {
+    const result = calculateMargins({
+      saleAmountExVat: 9500,
+      buyPrice: 6200,
+      shippingCost: 40,
+      cardFees: 228,
+      brandingTheme: THEMES.marginScheme,
+    });
+    expectGolden("economics/margins-margin-scheme", result);
+    assert.equal(result.commissionableMargin, 3032);
+  });
+
+  test("ineligible margin scheme stock owes VAT on the full price", () => {
+    const result = calculateMargins({
+      saleAmountExVat: 16000,
+      buyPrice: 9000,
+      brandingTheme: THEMES.marginScheme,
+      marginSchemeEligible: false,
+    });
+    expectGolden("economics/margins-margin-scheme-ineligible", result);
+  });
+});
+
+describe("effectiveInvoiceValue", () => {
+  for (const scenario of CREDIT_NOTE_SCENARIOS) {
+    test(scenario.name, () => {
+      expectGolden(`credit-notes/${slug(scenario.name)}`, {
+        sale: scenario.sale,
+        effectiveValue: effectiveInvoiceValue(scenario.sale),
+      });
+    });
+  }
+
+  test("summing effective values drops fully credited sales", () => {
+    const total = CREDIT_NOTE_SCENARIOS.reduce((sum, s) => sum + effectiveInvoiceValue(s.sale), 0);
+    const naive = CREDIT_NOTE_SCENARIOS.reduce((sum, s) => sum + Number(s.sale.saleAmountIncVat), 0);
+    expectGolden("credit-notes/totals", { effective: Math.round(total * 100) / 100, naive });
+    assert.ok(total < naive);
+  });
+});
+
+describe("creditRatio", () => {
+  test("share of the invoice credited", () => {
+    assert.equal(creditRatio({ xeroAmountPaid: "5000.00", xeroAmountDue: "1150.00", xeroAmountCredited: "250.00" }), 250 / 6400);
+    assert.equal(creditRatio({ xeroAmountPaid: "0.00", xeroAmountDue: "0.00", xeroAmountCredited: "3200.00" }), 1);
+  });
+
+  test("nothing credited, or not yet re-synced", () => {
+    assert.equal(creditRatio({ xeroAmountPaid: "9500.00", xeroAmountDue: "0.00", xeroAmountCredited: "0.00" }), 0);
+    assert.equal(creditRatio({ xeroAmountPaid: null, xeroAmountDue: null, xeroAmountCredited: null }), 0);
+  });
+
+  test("credit already covered by a clawback proposal is left out", () => {
+    const sale = { xeroAmountPaid: "0.00", xeroAmountDue: "2400.00", xeroAmountCredited: "1600.00" };
+    assert.equal(creditRatio(sale, 800), 0.2);
+    assert.equal(creditRatio(sale, 1600), 0);
+    assert.equal(creditRatio(sale, 2000), 0);
+  });
+});
+
+describe("calculateIntroducerFee", () => {
+  test("percent of net before introducer", () => {
+    assert.equal(calculateIntroducerFee({ feeType: "percent", percent: 30, netBeforeIntroducer: 3574.2 }), 1072.26);
+  });
+
+  test("legacy sales without a fee type are percent", () => {
+    assert.equal(calculateIntroducerFee({ feeType: null, percent: 10, netBeforeIntroducer: "1000.00" }), 100);
+  });
+
+  test("percent pays nothing on a loss or a zero percent", () => {
+    assert.equal(calculateIntroducerFee({ feeType: "percent", percent: 25, netBeforeIntroducer: -160 }), 0);
+    assert.equal(calculateIntroducerFee({ feeType: "percent", percent: 0, netBeforeIntroducer: 5000 }), 0);
+  });
+
+  test("flat ignores the margin", () => {
+    assert.equal(calculateIntroducerFee({ feeType: "flat", flatAmount: 200, netBeforeIntroducer: -160 }), 200);
+    assert.equal(calculateIntroducerFee({ feeType: "flat", flatAmount: 750, percent: 30, netBeforeIntroducer: 3000 }), 750);
+    assert.equal(calculateIntroducerFee({ feeType: "flat", flatAmount: -50, netBeforeIntroducer: 3000 }), 0);
+  });
+});
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
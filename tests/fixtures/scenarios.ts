@@ -0,0 +1,328 @@
+/**
+ * Anonymised sale scenarios for the golden tests
+ *
+ * Figures are taken from real deals (names, invoice numbers and IDs
+ * replaced), chosen to cover the cases the January 2026 MC audit found
+ * drifting: VAT treatment per branding theme, credit-noted invoices, band
+ * crossings, the new client bonus and introducer flat vs percent fees.
+ */
+
+import type { CommissionScheme, SaleForCommission } from "@/lib/calculations/commission";
+
+// ============================================================================
+// BRANDING THEMES
+// ============================================================================
+
+export const THEMES = {
+  domestic: "CN 20% VAT",
+  domesticNoLink: "CN 20% VAT No link",
+  marginScheme: "CN Margin Scheme",
+  marginSchemeNoLink: "CN Margin Scheme No Link",
+  export: "CN Export VAT",
+  exportNoLink: "CN Export No Link",
+  legacyExport: "CN Export Sales",
+} as const;
+
+// ============================================================================
+// SALE ECONOMICS
+// ============================================================================
+
+export interface EconomicsScenario {
+  name: string;
+  saleAmountIncVat: number | string;
+  buyPrice: number | string;
+  brandingTheme: string | null;
+  shippingCost?: number;
+  cardFees?: number;
+  directCosts?: number;
+  entrupyFee?: number;
+  introducer?: { feeType: "percent" | "flat"; percent?: number; flatAmount?: number };
+}
+
+export const ECONOMICS_SCENARIOS: EconomicsScenario[] = [
+  {
+    name: "domestic birkin, card payment",
+    saleAmountIncVat: 28800,
+    buyPrice: 18500,
+    brandingTheme: THEMES.domestic,
+    shippingCost: 40,
+    cardFees: 691.2,
+    entrupyFee: 25,
+  },
+  {
+    name: "domestic no-link, bank transfer, penny rounding",
+    saleAmountIncVat: 4999.99,
+    buyPrice: 3150.5,
+    brandingTheme: THEMES.domesticNoLink,
+    shippingCost: 40,
+  },
+  {
+    name: "export kelly to Hong Kong",
+    saleAmountIncVat: 25000,
+    buyPrice: 17250,
+    brandingTheme: THEMES.export,
+    shippingCost: 180,
+    directCosts: 95,
+  },
+  {
+    name: "legacy export theme still zero-rated",
+    saleAmountIncVat: 6400,
+    buyPrice: 4100,
+    brandingTheme: THEMES.legacyExport,
+    shippingCost: 150,
+  },
+  {
+    name: "margin scheme chanel flap",
+    saleAmountIncVat: 9500,
+    buyPrice: 6200,
+    brandingTheme: THEMES.marginScheme,
+    shippingCost: 40,
+    cardFees: 228,
+  },
+  {
+    name: "margin scheme loss-making clearance",
+    saleAmountIncVat: 2100,
+    buyPrice: 2400,
+    brandingTheme: THEMES.marginSchemeNoLink,
+    shippingCost: 40,
+  },
+  {
+    name: "numeric strings as returned by drizzle",
+    saleAmountIncVat: "12000.00",
+    buyPrice: "7800.50",
+    brandingTheme: THEMES.domestic,
+    shippingCost: 40,
+  },
+  {
+    name: "introducer 30% of net before introducer",
+    saleAmountIncVat: 19200,
+    buyPrice: 11000,
+    brandingTheme: THEMES.domestic,
+    shippingCost: 140,
+    cardFees: 460.8,
+    entrupyFee: 25,
+    introducer: { feeType: "percent", percent: 30 },
+  },
+  {
+    name: "introducer flat £750 on an export",
+    saleAmountIncVat: 14500,
+    buyPrice: 10900,
+    brandingTheme: THEMES.export,
+    shippingCost: 190,
+    introducer: { feeType: "flat", flatAmount: 750 },
+  },
+  {
+    name: "introducer percent on a loss pays nothing",
+    saleAmountIncVat: 3600,
+    buyPrice: 3100,
+    brandingTheme: THEMES.domestic,
+    shippingCost: 160,
+    introducer: { feeType: "percent", percent: 25 },
+  },
+  {
+    name: "introducer flat still paid on a loss",
+    saleAmountIncVat: 3600,
+    buyPrice: 3100,
+    brandingTheme: THEMES.domestic,
+    shippingCost: 160,
+    introducer: { feeType: "flat", flatAmount: 200 },
+  },
+];
+
+// ============================================================================
+// CREDIT NOTES
+// ============================================================================
+
+/** Sale rows as synced from Xero — NUMERIC columns arrive as strings. */
+export const CREDIT_NOTE_SCENARIOS = [
+  {
+    name: "unpaid, no credit",
+    sale: { xeroAmountPaid: "0.00", xeroAmountDue: "28800.00", saleAmountIncVat: 28800 },
+  },
+  {
+    name: "paid in full",
+    sale: { xeroAmountPaid: "9500.00", xeroAmountDue: "0.00", saleAmountIncVat: 9500 },
+  },
+  {
+    name: "fully credited (return)",
+    sale: { xeroAmountPaid: "0.00", xeroAmountDue: "0.00", saleAmountIncVat: 3200 },
+  },
+  {
+    name: "partial credit after part payment",
+    sale: { xeroAmountPaid: "5000.00", xeroAmountDue: "1150.00", saleAmountIncVat: 6400 },
+  },
+  {
+    name: "partial credit, fractional pennies",
+    sale: { xeroAmountPaid: 1333.33, xeroAmountDue: 666.665, saleAmountIncVat: 2400 },
+  },
+  {
+    name: "legacy row never re-synced falls back",
+    sale: { xeroAmountPaid: null, xeroAmountDue: null, saleAmountIncVat: 3200 },
+  },
+  {
+    name: "half-synced row falls back",
+    sale: { xeroAmountPaid: "0.00", xeroAmountDue: null, saleAmountIncVat: "4100.00" },
+  },
+];
+
+// ============================================================================
+// COMMISSION
+// ============================================================================
+
+const SCHEME_FROM = "2020-01-01T00:00:00.000Z";
+
+/** The MC and Hope schemes as seeded by scripts/add-commission-schemes.ts. */
+export const MC_SCHEME: CommissionScheme = {
+  id: "scheme_mc_v1",
+  schemeKey: "mc",
+  name: "MC",
+  bands: [
+    { min: 0, max: 999.99, rate: 0 },
+    { min: 1000, max: 19999.99, rate: 0.1 },
+    { min: 20000, max: 29999.99, rate: 0.15 },
+    { min: 30000, max: 55000, rate: 0.2 },
+    { min: 55000.01, max: Infinity, rate: 0.25 },
+  ],
+  bandMode: "flat",
+  deductVatFromProfit: true,
+  newClientBonusRate: 0.1,
+  effectiveFrom: SCHEME_FROM,
+  effectiveTo: null,
+};
+
+export const HOPE_SCHEME: CommissionScheme = {
+  id: "scheme_hope_v1",
+  schemeKey: "hope",
+  name: "Hope",
+  bands: [
+    { min: 0, max: 999.99, rate: 0 },
+    { min: 1000, max: 9999.99, rate: 0.1 },
+    { min: 10000, max: 19999.99, rate: 0.12 },
+    { min: 20000, max: 29999.99, rate: 0.18 },
+    { min: 30000, max: 55000, rate: 0.2 },
+    { min: 55000.01, max: Infinity, rate: 0.25 },
+  ],
+  bandMode: "flat",
+  deductVatFromProfit: false,
+  newClientBonusRate: 0.1,
+  effectiveFrom: SCHEME_FROM,
+  effectiveTo: null,
+};
+
+function sale(overrides: Partial<SaleForCommission> & Pick<SaleForCommission, "id">): SaleForCommission {
+  return {
+    xeroInvoiceNumber: null,
+    saleDate: "2026-01-15T00:00:00.000Z",
+    saleAmountIncVat: null,
+    saleAmountExVat: null,
+    buyPrice: null,
+    brandingTheme: THEMES.domestic,
+    introducerCommission: null,
+    cardFees: null,
+    entrupyFee: null,
+    shippingCost: null,
+    dhlCost: null,
+    addisonLeeCost: null,
+    taxiCost: null,
+    handDeliveryCost: null,
+    otherLogisticsCost: null,
+    deliveryConfirmed: true,
+    isNewClient: false,
+    marginSchemeEligible: null,
+    buyerName: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A January month of sales: domestic, export and margin scheme, one new
+ * client, one undelivered, one loss and an introducer fee. Cumulative
+ * profit crosses from the 10% into the 15% band partway through.
+ */
+export const JANUARY_SALES: SaleForCommission[] = [
+  sale({
+    id: "sale_01",
+    xeroInvoiceNumber: "INV-9101",
+    saleDate: "2026-01-03T00:00:00.000Z",
+    buyerName: "Client A",
+    saleAmountIncVat: 28800,
+    saleAmountExVat: 24000,
+    buyPrice: 18500,
+    cardFees: 691.2,
+    entrupyFee: 25,
+    shippingCost: 40,
+  }),
+  sale({
+    id: "sale_02",
+    xeroInvoiceNumber: "INV-9102",
+    saleDate: "2026-01-06T00:00:00.000Z",
+    buyerName: "Client B",
+    brandingTheme: THEMES.marginScheme,
+    saleAmountIncVat: 9500,
+    saleAmountExVat: 9500,
+    buyPrice: 6200,
+    dhlCost: 85,
+    taxiCost: 32.5,
+    shippingCost: 40, // ignored: granular logistics are set
+    isNewClient: true,
+  }),
+  sale({
+    id: "sale_03",
+    xeroInvoiceNumber: "INV-9103",
+    saleDate: "2026-01-09T00:00:00.000Z",
+    buyerName: "Client C",
+    brandingTheme: THEMES.export,
+    saleAmountIncVat: 25000,
+    saleAmountExVat: 25000,
+    buyPrice: 17250,
+    shippingCost: 180,
+    introducerCommission: 2271,
+  }),
+  sale({
+    id: "sale_04",
+    xeroInvoiceNumber: "INV-9104",
+    saleDate: "2026-01-12T00:00:00.000Z",
+    buyerName: "Client D",
+    saleAmountIncVat: 14400,
+    saleAmountExVat: 12000,
+    buyPrice: 7000,
+    shippingCost: 40,
+    deliveryConfirmed: false,
+  }),
+  sale({
+    id: "sale_05",
+    xeroInvoiceNumber: "INV-9105",
+    saleDate: "2026-01-16T00:00:00.000Z",
+    buyerName: "Client E",
+    brandingTheme: THEMES.marginSchemeNoLink,
+    saleAmountIncVat: 2100,
+    saleAmountExVat: 2100,
+    buyPrice: 2400,
+    handDeliveryCost: 60,
+  }),
+  sale({
+    id: "sale_06",
+    xeroInvoiceNumber: "INV-9106",
+    saleDate: "2026-01-22T00:00:00.000Z",
+    buyerName: "Client F",
+    brandingTheme: THEMES.marginScheme,
+    saleAmountIncVat: 16000,
+    saleAmountExVat: 16000,
+    buyPrice: 9000,
+    marginSchemeEligible: false,
+    addisonLeeCost: 120,
+    isNewClient: true,
+  }),
+  sale({
+    id: "sale_07",
+    xeroInvoiceNumber: "INV-9107",
+    saleDate: "2026-01-28T00:00:00.000Z",
+    buyerName: "Client G",
+    saleAmountIncVat: 43200,
+    saleAmountExVat: 36000,
+    buyPrice: 24500,
+    cardFees: 1036.8,
+    entrupyFee: 25,
+    otherLogisticsCost: 210,
+  }),
+];
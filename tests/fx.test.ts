@@ -0,0 +1,28 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buyPriceToBase, isBuyRateReady } from "@/lib/calculations/fx";
+
+describe("buyPriceToBase", () => {
+  test("GBP buys pass through, rounded", () => {
+    assert.equal(buyPriceToBase({ buyPrice: 8000.004, buyCurrency: "GBP" }), 8000);
+  });
+
+  test("foreign buys convert at the line's rate (currency per £1)", () => {
+    // Birkin bought in Paris: €9,360 at 1.17 = £8,000
+    assert.equal(buyPriceToBase({ buyPrice: 9360, buyCurrency: "EUR", fxRate: 1.17 }), 8000);
+    assert.equal(buyPriceToBase({ buyPrice: 1000, buyCurrency: "USD", fxRate: 1.27 }), 787.4);
+  });
+
+  test("lines saved before buy currencies existed count as GBP", () => {
+    assert.equal(buyPriceToBase({ buyPrice: 500, buyCurrency: "" }), 500);
+  });
+});
+
+describe("isBuyRateReady", () => {
+  test("GBP needs no rate; other currencies need a positive one", () => {
+    assert.equal(isBuyRateReady({ buyPrice: 1, buyCurrency: "GBP" }), true);
+    assert.equal(isBuyRateReady({ buyPrice: 1, buyCurrency: "EUR" }), false);
+    assert.equal(isBuyRateReady({ buyPrice: 1, buyCurrency: "EUR", fxRate: 0 }), false);
+    assert.equal(isBuyRateReady({ buyPrice: 1, buyCurrency: "EUR", fxRate: 1.17 }), true);
+  });
+});
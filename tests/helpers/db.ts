@@ -0,0 +1,52 @@
+/**
+ * In-process database for tests
+ *
+ * Importing this module puts an in-memory Postgres (PGlite) in place of
+ * `@/db`, so server code runs against real SQL without XATA_POSTGRES_URL.
+ * Import it before anything that imports `@/db`. Tables are created from
+ * db/schema.ts by `setUpTestDb()` (once per file, in `before`);
+ * `resetTestDb()` empties them between tests.
+ *
+ * Foreign keys are left out: several in the schema join text IDs to uuid
+ * columns, which only the Xata database tolerates.
+ */
+
+import path from "node:path";
+import { provideModule } from "./server-only";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import * as schema from "@/db/schema";
+
+const client = new PGlite();
+export const testDb = drizzle(client, { schema });
+
+provideModule(path.join(__dirname, "..", "..", "db", "index.ts"), { db: testDb, schema });
+
+let setUp: Promise<void> | null = null;
+
+/** Create every table in db/schema.ts. Safe to call more than once. */
+export function setUpTestDb(): Promise<void> {
+  setUp ??= (async () => {
+    const { generateDrizzleJson, generateMigration } = await import("drizzle-kit/api");
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    await client.exec(`
+      CREATE SCHEMA IF NOT EXISTS xata_private;
+      CREATE OR REPLACE FUNCTION xata_private.xid() RETURNS text LANGUAGE sql
+        AS $$ SELECT replace(gen_random_uuid()::text, '-', '') $$;
+    `);
+    for (const statement of statements) {
+      if (!statement.includes("FOREIGN KEY")) await client.exec(statement);
+    }
+  })();
+  return setUp;
+}
+
+/** Empty every table. */
+export async function resetTestDb(): Promise<void> {
+  const tables = await testDb.execute<{ tablename: string }>(
+    sql`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`
+  );
+  const names = tables.rows.map((row) => `"${row.tablename}"`).join(", ");
+  if (names) await client.exec(`TRUNCATE ${names}`);
+}
@@ -0,0 +1,35 @@
+/**
+ * Golden-file assertions
+ *
+ * `expectGolden(name, actual)` compares `actual` with tests/golden/<name>.json.
+ * Values go through JSON first, so the files hold exactly what's compared
+ * (Infinity band maxima read back as null).
+ *
+ * A missing or outdated golden fails the test. After a deliberate change to
+ * the money engines, regenerate and review the diff:
+ *
+ *   UPDATE_GOLDEN=1 npm test
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import assert from "node:assert/strict";
+
+const GOLDEN_DIR = path.join(__dirname, "..", "golden");
+
+export function expectGolden(name: string, actual: unknown): void {
+  const file = path.join(GOLDEN_DIR, `${name}.json`);
+  const normalised = JSON.parse(JSON.stringify(actual));
+
+  if (process.env.UPDATE_GOLDEN === "1") {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(normalised, null, 2)}\n`);
+    return;
+  }
+
+  if (!fs.existsSync(file)) {
+    assert.fail(`Missing golden file tests/golden/${name}.json — run UPDATE_GOLDEN=1 npm test`);
+  }
+  const expected = JSON.parse(fs.readFileSync(file, "utf8"));
+  assert.deepStrictEqual(normalised, expected, `Output differs from tests/golden/${name}.json`);
+}
@@ -0,0 +1,14 @@
+/**
+ * Lets tests import server modules
+ *
+ * `server-only` throws unless Next bundles the importing module for the
+ * server, so it is replaced with an empty module here. Import this before
+ * the module under test. `provideModule()` swaps in other modules the same
+ * way (tests/helpers/db.ts uses it for `@/db`).
+ */
+
+export function provideModule(file: string, exports: object): void {
+  require.cache[file] = { id: file, filename: file, loaded: true, exports } as NodeModule;
+}
+
+provideModule(require.resolve("server-only"), {});
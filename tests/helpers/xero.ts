@@ -0,0 +1,50 @@
+/**
+ * Xero integration for tests
+ *
+ * Importing this module puts a stand-in for Clerk in place of
+ * `@clerk/nextjs/server`: requests are signed in as a superadmin, and the
+ * integration user holds tokens for the fake Xero's tenant (lib/xero-fake).
+ * Point the client at a fake with `setXeroTransport(fake.transport)`.
+ * Import it before anything that imports lib/xero-auth.ts, which reads
+ * XERO_INTEGRATION_CLERK_USER_ID when it loads.
+ */
+
+import { provideModule } from "./server-only";
+import { FAKE_XERO_ACCESS_TOKEN, FAKE_XERO_TENANT_ID } from "@/lib/xero-fake";
+
+export const TEST_USER_ID = "user_test_admin";
+export const TEST_INTEGRATION_USER_ID = "user_test_integration";
+export const TEST_WEBHOOK_KEY = "test-webhook-key";
+
+process.env.XERO_INTEGRATION_CLERK_USER_ID = TEST_INTEGRATION_USER_ID;
+process.env.XERO_WEBHOOK_SECRET = TEST_WEBHOOK_KEY;
+
+const integrationMetadata = {
+  xeroTenants: {
+    [FAKE_XERO_TENANT_ID]: {
+      accessToken: FAKE_XERO_ACCESS_TOKEN,
+      refreshToken: "fake-refresh-token",
+      expiresAt: Date.parse("2100-01-01T00:00:00Z"),
+      tenantId: FAKE_XERO_TENANT_ID,
+    },
+  },
+  xeroDefaultTenantId: FAKE_XERO_TENANT_ID,
+};
+
+const users = {
+  async getUser(userId: string) {
+    return {
+      id: userId,
+      publicMetadata: { staffRole: "superadmin" },
+      privateMetadata: userId === TEST_INTEGRATION_USER_ID ? integrationMetadata : {},
+    };
+  },
+};
+
+// clerkClient is called in newer code and used as an object in older code
+const clerkClient = Object.assign(async () => ({ users }), { users });
+
+provideModule(require.resolve("@clerk/nextjs/server"), {
+  auth: async () => ({ userId: TEST_USER_ID }),
+  clerkClient,
+});
@@ -0,0 +1,151 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateImpliedCosts,
+  DEFAULT_IMPLIED_COST_RULES,
+  getDefaultEntrupyFee,
+  getTradeShippingRoute,
+  summariseEntrupyCalibration,
+  summariseShippingCalibration,
+  type ImpliedCostRules,
+} from "@/lib/implied-costs";
+import { PaymentMethod, TaxRegime, type TradeItem } from "@/lib/types/invoice";
+import { expectGolden } from "./helpers/golden";
+
+function item(id: string, supplierCountry: string, sellPrice: number, quantity = 1, category = "Bag"): TradeItem {
+  return {
+    id,
+    brand: "Hermès",
+    category,
+    description: "Anonymised item",
+    quantity,
+    supplier: { name: `Supplier ${id}`, country: supplierCountry, taxRegime: TaxRegime.NON_EU },
+    buyPrice: sellPrice * 0.7,
+    buyCurrency: "GBP",
+    sellPrice,
+    sellCurrency: "GBP",
+    accountCode: "425",
+    taxType: "OUTPUT2",
+    taxLabel: "20% (VAT on Income)",
+    lineAmountTypes: "Inclusive",
+    brandTheme: "CN 20% VAT",
+  };
+}
+
+describe("calculateImpliedCosts", () => {
+  test("shipping by supplier and delivery region", () => {
+    const routes = [
+      ["UK", "United Kingdom"],
+      ["France", "UK"],
+      ["Japan", "UK"],
+      ["USA", "Hong Kong"],
+      ["Italy", "Germany"],
+      ["Australia", "UK"],
+    ].map(([supplier, delivery]) => ({
+      supplier,
+      delivery,
+      ...calculateImpliedCosts({
+        items: [item("1", supplier, 5000)],
+        paymentMethod: PaymentMethod.BANK_TRANSFER,
+        deliveryCountry: delivery,
+      }),
+    }));
+    expectGolden("implied-costs/routes", routes);
+  });
+
+  test("multi-item trade ships once at the dearest route, card fee on every unit", () => {
+    const costs = calculateImpliedCosts({
+      items: [item("1", "UK", 9500), item("2", "Japan", 1250.5, 2)],
+      paymentMethod: PaymentMethod.CARD,
+      deliveryCountry: "UK",
+    });
+    expectGolden("implied-costs/multi-item-card", costs);
+    assert.equal(costs.shipping, 180);
+  });
+
+  test("bank transfer has no card fee", () => {
+    const costs = calculateImpliedCosts({
+      items: [item("1", "UK", 28800)],
+      paymentMethod: PaymentMethod.BANK_TRANSFER,
+      deliveryCountry: "UK",
+    });
+    assert.equal(costs.cardFees, 0);
+    assert.equal(costs.total, costs.shipping);
+  });
+});
+
+describe("configured rules", () => {
+  const rules: ImpliedCostRules = {
+    ...DEFAULT_IMPLIED_COST_RULES,
+    regions: { ...DEFAULT_IMPLIED_COST_RULES.regions, "saudi arabia": "Middle East" },
+    routes: { ...DEFAULT_IMPLIED_COST_RULES.routes, "Middle East_UK": 220 },
+    defaultShipping: 150,
+    cardFeePercent: { [PaymentMethod.CARD]: 0.029 },
+    entrupyFees: { bag: 35 },
+    defaultEntrupyFee: 20,
+  };
+
+  test("regions and routes come from the rules, unknown routes cost the default", () => {
+    assert.deepEqual(getTradeShippingRoute([item("1", "Saudi Arabia", 5000)], "UK", rules), {
+      route: "Middle East_UK",
+      cost: 220,
+    });
+    assert.deepEqual(getTradeShippingRoute([item("1", "Australia", 5000)], "UK", rules), {
+      route: "Other_UK",
+      cost: 150,
+    });
+    assert.equal(getTradeShippingRoute([], "UK", rules), null);
+  });
+
+  test("a route saved at £0 costs nothing rather than the default", () => {
+    const free = { ...rules, routes: { ...rules.routes, UK_UK: 0 } };
+    assert.deepEqual(getTradeShippingRoute([item("1", "UK", 5000)], "UK", free), { route: "UK_UK", cost: 0 });
+    const [row] = summariseShippingCalibration([{ route: "UK_UK", estimatedShipping: null, actualShipping: 25 }], free);
+    assert.equal(row.impliedCost, 0);
+    assert.equal(row.variance, 25);
+  });
+
+  test("Monaco ships as EU under the defaults", () => {
+    assert.equal(getTradeShippingRoute([item("1", "Monaco", 5000)], "UK")?.cost, 140);
+  });
+
+  test("card fee rate per payment method", () => {
+    const costs = calculateImpliedCosts({
+      items: [item("1", "UK", 10000)],
+      paymentMethod: PaymentMethod.CARD,
+      deliveryCountry: "UK",
+      rules,
+    });
+    assert.equal(costs.cardFees, 290);
+    assert.equal(costs.total, 330);
+  });
+
+  test("Entrupy default per unit by category, falling back to the default fee", () => {
+    assert.equal(getDefaultEntrupyFee([item("1", "UK", 9500, 2), item("2", "UK", 800, 1, "Watch")], rules), 90);
+    assert.equal(getDefaultEntrupyFee([item("1", "UK", 9500)]), 0);
+  });
+});
+
+describe("calibration", () => {
+  test("shipping: average actual against the route's rule, costless sales left out", () => {
+    const rows = summariseShippingCalibration([
+      { route: "EU_UK", estimatedShipping: 140, actualShipping: 160 },
+      { route: "EU_UK", estimatedShipping: null, actualShipping: 180 },
+      { route: "EU_UK", estimatedShipping: 150, actualShipping: 0 },
+      { route: "Other_UK", estimatedShipping: null, actualShipping: 95.5 },
+    ]);
+    assert.deepEqual(rows, [
+      { route: "EU_UK", sales: 2, impliedCost: 140, averageEstimate: 140, averageActual: 170, variance: 30 },
+      { route: "Other_UK", sales: 1, impliedCost: 130, averageEstimate: null, averageActual: 95.5, variance: -34.5 },
+    ]);
+  });
+
+  test("Entrupy: average fee per unit by category", () => {
+    const rows = summariseEntrupyCalibration([
+      { category: "Bag", quantity: 2, entrupyFee: 70 },
+      { category: "bag", quantity: 1, entrupyFee: 41 },
+      { category: "Watch", quantity: 1, entrupyFee: 0 },
+    ]);
+    assert.deepEqual(rows, [{ category: "bag", sales: 2, defaultFee: 0, averageFee: 37 }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allocatePaymentsToInstalments,
+  type InstalmentForAllocation,
+  type PaymentForAllocation,
+} from "@/lib/calculations/payments";
+
+function instalment(id: string, instalmentNumber: number, amount: number, xeroInvoiceId: string | null = null): InstalmentForAllocation {
+  return { id, instalmentNumber, amount, xeroInvoiceId };
+}
+
+function payment(id: string, day: number, amount: number, xeroInvoiceId: string | null = "INV-SALE"): PaymentForAllocation {
+  return { id, xeroInvoiceId, amount, paymentDate: new Date(Date.UTC(2025, 0, day)) };
+}
+
+describe("allocatePaymentsToInstalments", () => {
+  const plan = [instalment("i1", 1, 3000), instalment("i2", 2, 3000), instalment("i3", 3, 4000)];
+
+  test("payments fill instalments in order, oldest first", () => {
+    // Listed out of date order on purpose
+    const allocation = allocatePaymentsToInstalments(plan, [payment("p2", 20, 3000), payment("p1", 5, 3000)]);
+
+    assert.equal(allocation.payments.get("p1"), "i1");
+    assert.equal(allocation.payments.get("p2"), "i2");
+    assert.deepEqual(allocation.instalments.get("i1"), {
+      paidAmount: 3000,
+      paid: true,
+      paidDate: new Date(Date.UTC(2025, 0, 5)),
+    });
+    assert.equal(allocation.instalments.get("i2")?.paid, true);
+    assert.deepEqual(allocation.instalments.get("i3"), { paidAmount: 0, paid: false, paidDate: null });
+  });
+
+  test("a short payment leaves the instalment open until topped up", () => {
+    const short = allocatePaymentsToInstalments(plan, [payment("p1", 5, 2000)]);
+    assert.equal(short.payments.get("p1"), "i1");
+    assert.equal(short.instalments.get("i1")?.paid, false);
+    assert.equal(short.instalments.get("i1")?.paidAmount, 2000);
+
+    const toppedUp = allocatePaymentsToInstalments(plan, [payment("p1", 5, 2000), payment("p2", 9, 1000)]);
+    assert.equal(toppedUp.payments.get("p2"), "i1");
+    assert.equal(toppedUp.instalments.get("i1")?.paid, true);
+    assert.deepEqual(toppedUp.instalments.get("i1")?.paidDate, new Date(Date.UTC(2025, 0, 9)));
+  });
+
+  test("a large payment settles several instalments and links to the last", () => {
+    const allocation = allocatePaymentsToInstalments(plan, [payment("p1", 5, 7000)]);
+
+    assert.equal(allocation.payments.get("p1"), "i2");
+    assert.equal(allocation.instalments.get("i1")?.paid, true);
+    assert.equal(allocation.instalments.get("i2")?.paid, true);
+    assert.equal(allocation.instalments.get("i3")?.paidAmount, 1000);
+    assert.equal(allocation.instalments.get("i3")?.paid, false);
+  });
+
+  test("rounding within a penny counts as paid", () => {
+    const allocation = allocatePaymentsToInstalments([instalment("i1", 1, 3333.34)], [payment("p1", 5, 3333.33)]);
+    assert.equal(allocation.instalments.get("i1")?.paid, true);
+  });
+
+  test("instalments invoiced on their own take the payments on that invoice", () => {
+    const split = [instalment("i1", 1, 3000), instalment("i2", 2, 7000, "INV-BALANCE")];
+    const allocation = allocatePaymentsToInstalments(split, [
+      payment("p1", 5, 7000, "INV-BALANCE"),
+      payment("p2", 9, 3000),
+    ]);
+
+    assert.equal(allocation.payments.get("p1"), "i2");
+    assert.equal(allocation.payments.get("p2"), "i1");
+    assert.equal(allocation.instalments.get("i1")?.paid, true);
+    assert.equal(allocation.instalments.get("i2")?.paid, true);
+  });
+
+  test("payments beyond the plan are left unlinked", () => {
+    const allocation = allocatePaymentsToInstalments([instalment("i1", 1, 3000)], [
+      payment("p1", 5, 3000),
+      payment("p2", 9, 500),
+    ]);
+    assert.equal(allocation.payments.get("p1"), "i1");
+    assert.equal(allocation.payments.get("p2"), null);
+  });
+});
@@ -0,0 +1,148 @@
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { resetTestDb, setUpTestDb, testDb } from "./helpers/db";
+import { quotes } from "@/db/schema";
+import { claimQuote } from "@/lib/quotes";
+import { ValidationError } from "@/lib/errors";
+import {
+  addDays,
+  quoteOutcome,
+  summariseQuoteConversion,
+  type ConversionQuote,
+} from "@/lib/calculations/quotes";
+
+const TODAY = "2026-03-10";
+
+function quote(
+  shopperId: string | null,
+  status: string,
+  expiryDate: string,
+  shopperName: string | null = shopperId
+): ConversionQuote {
+  return { shopperId, shopperName, status, expiryDate };
+}
+
+describe("quoteOutcome", () => {
+  test("open quotes are valid through their expiry date", () => {
+    assert.equal(quoteOutcome({ status: "open", expiryDate: TODAY }, TODAY), "open");
+    assert.equal(quoteOutcome({ status: "open", expiryDate: "2026-03-09" }, TODAY), "expired");
+  });
+
+  test("accepted and declined quotes keep their outcome after expiry", () => {
+    assert.equal(quoteOutcome({ status: "accepted", expiryDate: "2026-01-01" }, TODAY), "accepted");
+    assert.equal(quoteOutcome({ status: "declined", expiryDate: "2026-01-01" }, TODAY), "declined");
+  });
+});
+
+describe("addDays", () => {
+  test("crosses month and year ends", () => {
+    assert.equal(addDays("2026-02-20", 14), "2026-03-06");
+    assert.equal(addDays("2026-12-25", 14), "2027-01-08");
+  });
+});
+
+describe("summariseQuoteConversion", () => {
+  test("conversion is accepted over decided; open quotes don't count", () => {
+    const [row] = summariseQuoteConversion(
+      [
+        quote("mc", "accepted", "2026-03-01"),
+        quote("mc", "declined", "2026-03-01"),
+        quote("mc", "open", "2026-03-01"),
+        quote("mc", "open", "2026-03-20"),
+      ],
+      TODAY
+    );
+
+    assert.equal(row.quoted, 4);
+    assert.equal(row.accepted, 1);
+    assert.equal(row.declined, 1);
+    assert.equal(row.expired, 1);
+    assert.equal(row.open, 1);
+    assert.equal(row.conversionRate, 1 / 3);
+  });
+
+  test("rate is null until a quote is decided", () => {
+    const [row] = summariseQuoteConversion([quote("hope", "open", "2026-03-20")], TODAY);
+    assert.equal(row.conversionRate, null);
+  });
+
+  test("quotes without a shopper are grouped as Unassigned; most quotes first", () => {
+    const rows = summariseQuoteConversion(
+      [
+        quote("hope", "accepted", "2026-03-01", "Hope"),
+        quote(null, "open", "2026-03-20"),
+        quote("mc", "accepted", "2026-03-01", "MC"),
+        quote("mc", "declined", "2026-03-01", "MC"),
+      ],
+      TODAY
+    );
+
+    assert.deepEqual(
+      rows.map((r) => [r.shopperName, r.quoted]),
+      [["MC", 2], ["Hope", 1], ["Unassigned", 1]]
+    );
+    assert.equal(rows[0].conversionRate, 0.5);
+    assert.equal(rows[1].conversionRate, 1);
+  });
+});
+
+describe("claimQuote", () => {
+  before(setUpTestDb);
+  beforeEach(resetTestDb);
+
+  async function seedQuote(status: string, minutesAgo = 0) {
+    const [row] = await testDb
+      .insert(quotes)
+      .values({
+        xeroQuoteId: "xero-quote-1",
+        xeroContactId: "xero-contact-1",
+        total: 12000,
+        expiryDate: new Date("2026-03-31T00:00:00Z"),
+        status,
+        payload: {},
+        createdBy: "user_shopper",
+        updatedAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+      })
+      .returning({ id: quotes.id });
+    return row.id;
+  }
+
+  async function status(id: string) {
+    const [row] = await testDb.select().from(quotes).where(eq(quotes.id, id));
+    return row;
+  }
+
+  test("claims an open quote once", async () => {
+    const id = await seedQuote("open");
+
+    await claimQuote(id);
+
+    assert.equal((await status(id)).status, "accepting");
+    await assert.rejects(claimQuote(id), ValidationError);
+  });
+
+  test("leaves a recent accepting claim to the accept that holds it", async () => {
+    const id = await seedQuote("accepting", 1);
+
+    await assert.rejects(claimQuote(id), ValidationError);
+  });
+
+  test("takes over an accepting claim left by an accept that died", async () => {
+    const id = await seedQuote("accepting", 30);
+
+    await claimQuote(id);
+
+    const row = await status(id);
+    assert.equal(row.status, "accepting");
+    assert.ok(Date.now() - row.updatedAt.getTime() < 60 * 1000);
+    // The takeover is itself a fresh claim
+    await assert.rejects(claimQuote(id), ValidationError);
+  });
+
+  test("never reclaims an accepted quote", async () => {
+    const id = await seedQuote("accepted", 30);
+
+    await assert.rejects(claimQuote(id), ValidationError);
+  });
+});
@@ -0,0 +1,91 @@
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { resetTestDb, setUpTestDb, testDb } from "./helpers/db";
+import { commissionSchemes, sales, shoppers } from "@/db/schema";
+import { storeProvisionalCommission } from "@/lib/sale-commission";
+
+const MARCH = new Date("2026-03-10T12:00:00Z");
+
+async function seedShopper(): Promise<string> {
+  await testDb.insert(commissionSchemes).values({
+    schemeKey: "standard-2026",
+    name: "Standard",
+    bands: [
+      { min: 0, max: 10000, rate: 0.1 },
+      { min: 10000, max: null, rate: 0.2 },
+    ],
+    effectiveFrom: new Date("2026-01-01T00:00:00Z"),
+  });
+  const [shopper] = await testDb
+    .insert(shoppers)
+    .values({ name: "Hope", commissionScheme: "standard-2026" })
+    .returning({ id: shoppers.id });
+  return shopper.id;
+}
+
+async function seedSale(shopperId: string, values: Partial<typeof sales.$inferInsert> = {}) {
+  const [sale] = await testDb
+    .insert(sales)
+    .values({
+      shopperId,
+      saleDate: MARCH,
+      saleAmountIncVat: 12000,
+      saleAmountExVat: 12000,
+      buyPrice: 6000,
+      brandingTheme: "CN Export VAT",
+      ...values,
+    })
+    .returning({ id: sales.id });
+  return sale.id;
+}
+
+async function storedAmount(saleId: string) {
+  const [row] = await testDb
+    .select({ commissionAmount: sales.commissionAmount })
+    .from(sales)
+    .where(eq(sales.id, saleId));
+  return row.commissionAmount;
+}
+
+describe("storeProvisionalCommission", () => {
+  before(setUpTestDb);
+  beforeEach(resetTestDb);
+
+  test("refreshes every unlocked sale in the shopper-month", async () => {
+    const shopperId = await seedShopper();
+    const earlier = await seedSale(shopperId);
+    const added = await seedSale(shopperId);
+
+    const amount = await storeProvisionalCommission(added);
+
+    // £12,000 profit crosses into the 20% band for the whole month
+    assert.equal(amount, 1200);
+    assert.equal(await storedAmount(earlier), 1200);
+  });
+
+  test("a paid sale keeps its stored amount when its month is refreshed", async () => {
+    const shopperId = await seedShopper();
+    const paid = await seedSale(shopperId, {
+      status: "commission_paid",
+      commissionPaid: true,
+      commissionAmount: 600,
+    });
+    const locked = await seedSale(shopperId, { commissionLocked: true, commissionAmount: 600 });
+    const added = await seedSale(shopperId);
+
+    await storeProvisionalCommission(added);
+
+    assert.equal(await storedAmount(paid), 600);
+    assert.equal(await storedAmount(locked), 600);
+    assert.equal(await storedAmount(added), 1200);
+  });
+
+  test("returns the stored amount when the sale itself is paid", async () => {
+    const shopperId = await seedShopper();
+    const paid = await seedSale(shopperId, { status: "commission_paid", commissionAmount: 450 });
+
+    assert.equal(await storeProvisionalCommission(paid), 450);
+    assert.equal(await storedAmount(paid), 450);
+  });
+});
@@ -0,0 +1,194 @@
+import "./helpers/xero";
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { resetTestDb, setUpTestDb, testDb } from "./helpers/db";
+import { entities, sales, supplierBills, suppliers } from "@/db/schema";
+import { raiseSupplierBills } from "@/lib/supplier-bills";
+import { resetXeroRateLimits, setXeroTransport } from "@/lib/xero-client";
+import { FAKE_XERO_IDS, FAKE_XERO_TENANT_ID, createFakeXero, type FakeXero } from "@/lib/xero-fake";
+import {
+  groupLinesBySupplier,
+  reconcileBill,
+  type BillSourceLine,
+} from "@/lib/calculations/supplier-bills";
+
+function line(
+  lineItemId: string | null,
+  supplierId: string | null,
+  unitBuyPrice: number,
+  overrides: Partial<BillSourceLine> = {}
+): BillSourceLine {
+  return {
+    lineItemId,
+    supplierId,
+    description: `Item ${lineItemId}`,
+    quantity: 1,
+    currency: "GBP",
+    unitBuyPrice,
+    supplierInvoiceRef: null,
+    datePurchased: null,
+    ...overrides,
+  };
+}
+
+describe("groupLinesBySupplier", () => {
+  test("one draft per supplier, in the order suppliers first appear", () => {
+    const { drafts, unbillable } = groupLinesBySupplier([
+      line("l1", "sup-b", 1000),
+      line("l2", "sup-a", 250),
+      line("l3", "sup-b", 500),
+    ]);
+
+    assert.deepEqual(drafts.map((d) => d.supplierId), ["sup-b", "sup-a"]);
+    assert.deepEqual(drafts[0].lineItemIds, ["l1", "l3"]);
+    assert.equal(drafts[0].expectedTotal, 1500);
+    assert.equal(drafts[1].expectedTotal, 250);
+    assert.equal(unbillable.length, 0);
+  });
+
+  test("a supplier paid in two currencies gets a bill for each, at the original amounts", () => {
+    const { drafts } = groupLinesBySupplier([
+      line("l1", "sup-a", 9360, { currency: "EUR" }),
+      line("l2", "sup-a", 500),
+      line("l3", "sup-a", 1200, { currency: "EUR", quantity: 2 }),
+    ]);
+
+    assert.deepEqual(
+      drafts.map((d) => [d.supplierId, d.currency, d.expectedTotal, d.lineItemIds]),
+      [
+        ["sup-a", "EUR", 11760, ["l1", "l3"]],
+        ["sup-a", "GBP", 500, ["l2"]],
+      ]
+    );
+  });
+
+  test("expected total is unit price times quantity, rounded to the penny", () => {
+    const { drafts } = groupLinesBySupplier([
+      line("l1", "sup-a", 33.333, { quantity: 3 }),
+      line("l2", "sup-a", 0.1, { quantity: 2 }),
+    ]);
+
+    assert.equal(drafts[0].expectedTotal, 100.2);
+  });
+
+  test("lines with no supplier, no cost or no quantity are unbillable", () => {
+    const { drafts, unbillable } = groupLinesBySupplier([
+      line("l1", null, 1000),
+      line("l2", "sup-a", 0),
+      line("l3", "sup-a", 500, { quantity: 0 }),
+      line("l4", "sup-a", 0.004),
+    ]);
+
+    assert.equal(drafts.length, 0);
+    assert.deepEqual(unbillable.map((l) => l.lineItemId), ["l1", "l2", "l3", "l4"]);
+  });
+
+  test("invoice refs are de-duplicated and the earliest purchase date is the bill date", () => {
+    const { drafts } = groupLinesBySupplier([
+      line("l1", "sup-a", 100, { supplierInvoiceRef: "INV-9", datePurchased: new Date(Date.UTC(2025, 2, 10)) }),
+      line("l2", "sup-a", 100, { supplierInvoiceRef: " INV-9 ", datePurchased: new Date(Date.UTC(2025, 2, 3)) }),
+      line("l3", "sup-a", 100, { supplierInvoiceRef: "INV-12" }),
+    ]);
+
+    assert.equal(drafts[0].supplierInvoiceRef, "INV-9, INV-12");
+    assert.deepEqual(drafts[0].billDate, new Date(Date.UTC(2025, 2, 3)));
+  });
+
+  test("a sale billed without line items keeps no line item IDs", () => {
+    const { drafts } = groupLinesBySupplier([line(null, "sup-a", 4200)]);
+
+    assert.deepEqual(drafts[0].lineItemIds, []);
+    assert.equal(drafts[0].supplierInvoiceRef, null);
+    assert.equal(drafts[0].billDate, null);
+  });
+});
+
+describe("reconcileBill", () => {
+  test("a bill matching the buy prices has no variance", () => {
+    assert.deepEqual(reconcileBill(1500, 1500), { variance: 0, matches: true });
+  });
+
+  test("a penny of rounding still matches", () => {
+    assert.equal(reconcileBill(1500, 1500.01).matches, true);
+  });
+
+  test("variance is positive when the supplier billed more", () => {
+    assert.deepEqual(reconcileBill(1500, 1525.5), { variance: 25.5, matches: false });
+    assert.deepEqual(reconcileBill(1500, 1480), { variance: -20, matches: false });
+  });
+});
+
+describe("raiseSupplierBills with a bill stuck in RAISING", () => {
+  let fake: FakeXero;
+  let saleId: string;
+  let supplierId: string;
+  const key = "bill-stuck-key";
+
+  before(setUpTestDb);
+
+  beforeEach(async () => {
+    await resetTestDb();
+    fake = createFakeXero();
+    resetXeroRateLimits();
+    setXeroTransport(fake.transport);
+
+    const [entity] = await testDb
+      .insert(entities)
+      .values({ name: "Club 19 London", xeroTenantId: FAKE_XERO_TENANT_ID, isDefault: true })
+      .returning({ id: entities.id });
+    const [supplier] = await testDb
+      .insert(suppliers)
+      .values({ name: "Maison Vintage Paris", xeroContactId: FAKE_XERO_IDS.supplier })
+      .returning({ id: suppliers.id });
+    const [sale] = await testDb
+      .insert(sales)
+      .values({ entityId: entity.id, supplierId: supplier.id, buyPrice: 6000, saleDate: new Date("2026-03-10") })
+      .returning({ id: sales.id });
+    saleId = sale.id;
+    supplierId = supplier.id;
+  });
+
+  async function stuckClaim(minutesAgo: number) {
+    await testDb.insert(supplierBills).values({
+      saleId,
+      supplierId,
+      currency: "GBP",
+      xeroBillId: key,
+      status: "RAISING",
+      expectedTotal: 6000,
+      lineItemIds: [],
+      updatedAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    });
+  }
+
+  function billPosts() {
+    return fake.requests.filter((r) => r.method === "POST" && r.path.endsWith("/Invoices"));
+  }
+
+  test("a recent claim is left to the raise that holds it", async () => {
+    await stuckClaim(1);
+
+    const result = await raiseSupplierBills(saleId, null);
+
+    assert.equal(result.raised.length, 0);
+    assert.equal(result.skipped[0].reason, "Bill is being raised");
+    assert.equal(billPosts().length, 0);
+  });
+
+  test("a stale claim is taken over and posted again under its key", async () => {
+    await stuckClaim(30);
+
+    const result = await raiseSupplierBills(saleId, null);
+
+    assert.equal(result.raised.length, 1);
+    assert.deepEqual(
+      billPosts().map((r) => r.headers["idempotency-key"]),
+      [key]
+    );
+    const rows = await testDb.select().from(supplierBills).where(eq(supplierBills.saleId, saleId));
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].status, "DRAFT");
+    assert.notEqual(rows[0].xeroBillId, key);
+  });
+});
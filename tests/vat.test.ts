@@ -0,0 +1,51 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateVAT, validateSaleVAT } from "@/lib/calculations/vat";
+import { calculateMarginSchemeVAT } from "@/lib/calculations/margin-scheme";
+import { expectGolden } from "./helpers/golden";
+import { THEMES } from "./fixtures/scenarios";
+
+describe("calculateVAT", () => {
+  for (const [key, theme] of Object.entries(THEMES)) {
+    test(theme, () => {
+      const result = calculateVAT({ brandTheme: theme, saleAmountExVat: 12345.67, buyPrice: 8000 });
+      expectGolden(`vat/${key}`, result);
+    });
+  }
+
+  test("resolves themes by Xero ID as well as name", () => {
+    const byId = calculateVAT({ brandTheme: "db66e081-2426-44df-8133-77fe3fedab5a", saleAmountExVat: 1000 });
+    assert.equal(byId.brandingTheme.name, THEMES.export);
+    assert.equal(byId.vatAmount, 0);
+  });
+
+  test("unknown theme throws", () => {
+    assert.throws(() => calculateVAT({ brandTheme: "CN Imaginary", saleAmountExVat: 100 }), /Unknown branding theme/);
+  });
+});
+
+describe("validateSaleVAT", () => {
+  test("catches an export invoiced with 20% VAT", () => {
+    const result = validateSaleVAT(THEMES.export, 10000, 12000);
+    expectGolden("vat/validate-export-with-vat", result);
+    assert.equal(result.isValid, false);
+  });
+
+  test("accepts a domestic sale within a penny", () => {
+    assert.equal(validateSaleVAT(THEMES.domestic, 4166.66, 4999.99).isValid, true);
+  });
+});
+
+describe("calculateMarginSchemeVAT", () => {
+  const cases = {
+    "positive-margin": { sellingPrice: 9500, buyPrice: 6200 },
+    "negative-margin": { sellingPrice: 2100, buyPrice: 2400 },
+    ineligible: { sellingPrice: 16000, buyPrice: 9000, eligible: false },
+    "no-purchase-price": { sellingPrice: 5000, buyPrice: null },
+  };
+  for (const [name, inputs] of Object.entries(cases)) {
+    test(name, () => {
+      expectGolden(`vat/margin-scheme-${name}`, calculateMarginSchemeVAT(inputs));
+    });
+  }
+});
@@ -0,0 +1,171 @@
+import "./helpers/server-only";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  XERO_PAGE_SIZE,
+  XeroApiError,
+  createXeroClient,
+  getXeroRateLimitState,
+  resetXeroRateLimits,
+  setXeroTransport,
+} from "@/lib/xero-client";
+import {
+  DEFAULT_FAKE_XERO_SEED,
+  FAKE_XERO_ACCESS_TOKEN,
+  FAKE_XERO_IDS,
+  FAKE_XERO_TENANT_ID,
+  createFakeXero,
+  type FakeXero,
+} from "@/lib/xero-fake";
+
+const TOKENS = { accessToken: FAKE_XERO_ACCESS_TOKEN, tenantId: FAKE_XERO_TENANT_ID };
+
+let fake: FakeXero;
+let waits: number[];
+
+/** A client on the fake's transport that records backoff instead of sleeping. */
+function client() {
+  return createXeroClient({
+    tokens: TOKENS,
+    sleep: async (ms) => {
+      waits.push(ms);
+    },
+  });
+}
+
+function requestsTo(method: string, path: string) {
+  return fake.requests.filter((r) => r.method === method && r.path.endsWith(path));
+}
+
+describe("createXeroClient against the fake Xero", () => {
+  beforeEach(() => {
+    fake = createFakeXero();
+    waits = [];
+    resetXeroRateLimits();
+    setXeroTransport(fake.transport);
+  });
+
+  afterEach(() => {
+    setXeroTransport(null);
+  });
+
+  test("a 429 waits for Retry-After and tries again", async () => {
+    fake.injectFault({
+      status: 429,
+      headers: { "Retry-After": "7", "X-Rate-Limit-Problem": "minute" },
+    });
+
+    const data = await client().get<{ Invoices: { InvoiceNumber: string }[] }>(
+      `Invoices/${FAKE_XERO_IDS.openInvoice}`
+    );
+
+    assert.equal(data.Invoices[0].InvoiceNumber, "INV-3001");
+    assert.deepEqual(waits, [7000]);
+    assert.equal(requestsTo("GET", `Invoices/${FAKE_XERO_IDS.openInvoice}`).length, 2);
+  });
+
+  test("5xx responses back off exponentially, then succeed", async () => {
+    fake.injectFault({ status: 503, times: 2 });
+
+    const data = await client().get<{ Invoices: unknown[] }>(`Invoices/${FAKE_XERO_IDS.paidInvoice}`);
+
+    assert.equal(data.Invoices.length, 1);
+    assert.equal(waits.length, 2);
+    // Jittered between half and all of 1s, then 2s
+    assert.ok(waits[0] >= 500 && waits[0] <= 1000, `first wait ${waits[0]}`);
+    assert.ok(waits[1] >= 1000 && waits[1] <= 2000, `second wait ${waits[1]}`);
+  });
+
+  test("gives up after maxRetries with a XeroApiError", async () => {
+    fake.injectFault({ status: 500, times: 10 });
+
+    await assert.rejects(
+      createXeroClient({ tokens: TOKENS, maxRetries: 2, sleep: async () => {} }).get("Invoices"),
+      (error: unknown) => error instanceof XeroApiError && error.status === 500
+    );
+    assert.equal(requestsTo("GET", "/Invoices").length, 3);
+  });
+
+  test("a POST without an Idempotency-Key is not retried", async () => {
+    fake.injectFault({ status: 500, path: "/Invoices" });
+
+    await assert.rejects(
+      client().post("Invoices", { Invoices: [] }),
+      (error: unknown) => error instanceof XeroApiError && error.status === 500
+    );
+    assert.equal(requestsTo("POST", "/Invoices").length, 1);
+    assert.deepEqual(waits, []);
+  });
+
+  test("a POST with an Idempotency-Key is retried with the same key", async () => {
+    fake.injectFault({ status: 502, path: "/Invoices" });
+
+    await client().post(
+      "Invoices",
+      {
+        Invoices: [
+          {
+            Type: "ACCREC",
+            Contact: { ContactID: FAKE_XERO_IDS.buyer },
+            LineItems: [{ Description: "Goyard St Louis PM", Quantity: 1, UnitAmount: 1500 }],
+          },
+        ],
+      },
+      { idempotencyKey: "sale-123" }
+    );
+
+    const posts = requestsTo("POST", "/Invoices");
+    assert.equal(posts.length, 2);
+    assert.deepEqual(
+      posts.map((r) => r.headers["idempotency-key"]),
+      ["sale-123", "sale-123"]
+    );
+  });
+
+  test("tracks the minute and day limits Xero reports", async () => {
+    fake = createFakeXero({ rateLimits: { perMinute: 10, perDay: 100 } });
+    setXeroTransport(fake.transport);
+
+    await client().get("Contacts");
+    await client().get("Contacts");
+
+    const state = getXeroRateLimitState(FAKE_XERO_TENANT_ID);
+    assert.equal(state?.minuteRemaining, 8);
+    assert.equal(state?.dayRemaining, 98);
+  });
+
+  test("once the daily limit is hit, calls fail without reaching Xero", async () => {
+    fake.injectFault({
+      status: 429,
+      headers: { "Retry-After": "3600", "X-Rate-Limit-Problem": "day", "X-DayLimit-Remaining": "0" },
+    });
+
+    await assert.rejects(client().get("Contacts"), (error: unknown) => error instanceof XeroApiError);
+    const sent = fake.requests.length;
+    await assert.rejects(
+      client().get("Contacts"),
+      (error: unknown) => error instanceof XeroApiError && error.rateLimitProblem === "day"
+    );
+    assert.equal(fake.requests.length, sent);
+    assert.deepEqual(waits, []);
+  });
+
+  test("getAllPages follows pages until a short one comes back", async () => {
+    const seeded = DEFAULT_FAKE_XERO_SEED.invoices!;
+    const { InvoiceID: _id, ...template } = seeded[0];
+    const extra = Array.from({ length: XERO_PAGE_SIZE + 30 - seeded.length }, (_, i) => ({
+      ...template,
+      InvoiceNumber: `INV-${5000 + i}`,
+    }));
+    fake = createFakeXero({ seed: { ...DEFAULT_FAKE_XERO_SEED, invoices: [...seeded, ...extra] } });
+    setXeroTransport(fake.transport);
+
+    const all = await client().getAllPages<{ InvoiceNumber: string }>("Invoices", "Invoices");
+
+    assert.equal(all.length, XERO_PAGE_SIZE + 30);
+    assert.deepEqual(
+      requestsTo("GET", "/Invoices").map((r) => r.query.page),
+      ["1", "2"]
+    );
+  });
+});
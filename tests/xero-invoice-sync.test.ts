@@ -0,0 +1,74 @@
+import "./helpers/xero";
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { resetTestDb, setUpTestDb, testDb } from "./helpers/db";
+import { sales } from "@/db/schema";
+import { getSyncWatermark, recordSyncRun } from "@/lib/sync-state";
+import { resetXeroRateLimits, setXeroTransport } from "@/lib/xero-client";
+import { FAKE_XERO_IDS, createFakeXero, parseXeroDate, type FakeXero } from "@/lib/xero-fake";
+import { POST } from "@/app/api/sync/xero-invoices/route";
+
+let fake: FakeXero;
+let lastSync: Date;
+
+async function sync() {
+  const response = await POST(new Request("http://localhost/api/sync/xero-invoices", { method: "POST" }));
+  assert.equal(response.status, 200);
+  return (await response.json()) as { summary: { total: number; new: number; updated: number } };
+}
+
+function invoiceGets() {
+  return fake.requests.filter((r) => r.method === "GET" && r.path.endsWith("/Invoices"));
+}
+
+async function saleFor(invoiceId: string) {
+  const [sale] = await testDb.select().from(sales).where(eq(sales.xeroInvoiceId, invoiceId));
+  return sale;
+}
+
+describe("incremental invoice sync against the fake Xero", () => {
+  before(setUpTestDb);
+
+  beforeEach(async () => {
+    await resetTestDb();
+    // The fake's clock is the real one: the sync only takes amounts from
+    // invoices Xero updated after our copy of the sale
+    fake = createFakeXero();
+    resetXeroRateLimits();
+    setXeroTransport(fake.transport);
+    lastSync = new Date(Date.now() - 60 * 60 * 1000);
+    await recordSyncRun("invoices", { watermark: lastSync, itemCount: 0, errorCount: 0, full: false });
+  });
+
+  test("fetches invoices modified since the watermark, then advances it", async () => {
+    const result = await sync();
+
+    assert.equal(invoiceGets()[0].headers["if-modified-since"], lastSync.toUTCString());
+    assert.ok(result.summary.new > 0);
+    assert.equal((await saleFor(FAKE_XERO_IDS.openInvoice)).xeroInvoiceNumber, "INV-3001");
+
+    const latest = Math.max(
+      ...fake.store.listInvoices().map((i) => parseXeroDate(i.UpdatedDateUTC)!.getTime())
+    );
+    assert.equal((await getSyncWatermark("invoices"))?.getTime(), latest);
+  });
+
+  test("the next run asks from the new watermark and picks up a payment", async () => {
+    await sync();
+    const watermark = await getSyncWatermark("invoices");
+
+    fake.store.advanceClock(60 * 60 * 1000);
+    fake.store.savePayments({
+      Payments: [{ Invoice: { InvoiceID: FAKE_XERO_IDS.openInvoice }, Amount: 24000, Account: { Code: "090" } }],
+    });
+    const result = await sync();
+
+    assert.equal(invoiceGets()[1].headers["if-modified-since"], watermark!.toUTCString());
+    assert.equal(result.summary.new, 0);
+    const sale = await saleFor(FAKE_XERO_IDS.openInvoice);
+    assert.equal(sale.invoiceStatus, "PAID");
+    assert.equal(Number(sale.xeroAmountDue), 0);
+    assert.ok((await getSyncWatermark("invoices"))!.getTime() > watermark!.getTime());
+  });
+});
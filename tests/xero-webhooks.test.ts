@@ -0,0 +1,84 @@
+import { TEST_WEBHOOK_KEY } from "./helpers/xero";
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { NextRequest } from "next/server";
+import { resetTestDb, setUpTestDb, testDb } from "./helpers/db";
+import { entities, lineItems, sales, webhookEvents } from "@/db/schema";
+import { resetXeroRateLimits, setXeroTransport } from "@/lib/xero-client";
+import { FAKE_XERO_IDS, FAKE_XERO_TENANT_ID, createFakeXero, type FakeXero } from "@/lib/xero-fake";
+import { POST } from "@/app/api/xero/webhooks/route";
+
+let fake: FakeXero;
+
+describe("Xero webhooks from the fake Xero", () => {
+  before(setUpTestDb);
+
+  beforeEach(async () => {
+    await resetTestDb();
+    fake = createFakeXero({
+      webhookKey: TEST_WEBHOOK_KEY,
+      webhookUrl: "http://localhost/api/xero/webhooks",
+      webhookTransport: (url, init) => POST(new NextRequest(new Request(url, init))),
+    });
+    resetXeroRateLimits();
+    setXeroTransport(fake.transport);
+    await testDb
+      .insert(entities)
+      .values({ name: "Club 19 London", xeroTenantId: FAKE_XERO_TENANT_ID, isDefault: true });
+  });
+
+  test("a signed INVOICE event creates the sale with its line items", async () => {
+    const result = await fake.fireWebhook([
+      { eventCategory: "INVOICE", eventType: "CREATE", resourceId: FAKE_XERO_IDS.openInvoice },
+    ]);
+
+    assert.equal(result.status, 200);
+    const [sale] = await testDb
+      .select()
+      .from(sales)
+      .where(eq(sales.xeroInvoiceId, FAKE_XERO_IDS.openInvoice));
+    assert.equal(sale.xeroInvoiceNumber, "INV-3001");
+    assert.equal(sale.source, "xero_import");
+    assert.equal(sale.saleAmountIncVat, 24000);
+    const lines = await testDb.select().from(lineItems).where(eq(lineItems.saleId, sale.id));
+    assert.equal(lines.length, 1);
+
+    const [event] = await testDb.select().from(webhookEvents);
+    assert.equal(event.status, "processed");
+    assert.equal(event.resourceId, FAKE_XERO_IDS.openInvoice);
+  });
+
+  test("a redelivered event is queued once", async () => {
+    const first = await fake.fireWebhook([
+      { eventCategory: "INVOICE", eventType: "UPDATE", resourceId: FAKE_XERO_IDS.openInvoice },
+    ]);
+    const { body, signature } = first.delivery;
+    const again = await POST(
+      new NextRequest("http://localhost/api/xero/webhooks", {
+        method: "POST",
+        headers: { "x-xero-signature": signature },
+        body,
+      })
+    );
+
+    assert.equal(again.status, 200);
+    assert.equal((await again.json()).queued, 0);
+    assert.equal((await testDb.select().from(webhookEvents)).length, 1);
+    assert.equal((await testDb.select().from(sales)).length, 1);
+  });
+
+  test("a badly signed delivery is rejected and never processed", async () => {
+    const result = await fake.fireWebhook(
+      [{ eventCategory: "INVOICE", eventType: "CREATE", resourceId: FAKE_XERO_IDS.openInvoice }],
+      { signature: "invalid" }
+    );
+
+    assert.equal(result.status, 401);
+    const [event] = await testDb.select().from(webhookEvents);
+    assert.equal(event.status, "rejected");
+    assert.equal(event.signatureValid, false);
+    assert.equal((await testDb.select().from(sales)).length, 0);
+    assert.equal(fake.requests.length, 0);
+  });
+});